@@ -0,0 +1,23 @@
+// Service worker for Web Push notifications sent by the notification pipeline (src/lib/notifications)
+
+self.addEventListener('push', event => {
+  const payload = event.data ? event.data.json() : {}
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'NOHVEX', {
+      body: payload.body,
+      tag: payload.tag,
+      icon: '/favicon.ico',
+      data: { category: payload.category }
+    })
+  )
+})
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close()
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+      const open = windows.find(client => 'focus' in client)
+      return open ? open.focus() : self.clients.openWindow('/dashboard')
+    })
+  )
+})
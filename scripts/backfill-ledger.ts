@@ -0,0 +1,32 @@
+#!/usr/bin/env tsx
+
+/**
+ * One-off ledger backfill
+ * Portfolio rows written before holdings were derived from the ledger have no journal entries,
+ * so the first ledger write for those assets would start from zero. This writes an opening
+ * DEPOSIT for each of them. Safe to run again: assets with entries are skipped.
+ */
+
+import { dbService } from '../src/lib/db-service'
+
+async function backfillLedger() {
+  const { connected } = await dbService.testConnection()
+  if (!connected) {
+    console.log('ℹ️  No database connection, nothing to backfill.')
+    return
+  }
+
+  try {
+    const opened = await dbService.openLedgerBalances()
+    console.log(`✅ Wrote ${opened} opening ledger ${opened === 1 ? 'entry' : 'entries'}`)
+  } finally {
+    await dbService.disconnect()
+  }
+}
+
+backfillLedger()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Ledger backfill failed:', error)
+    process.exit(1)
+  })
@@ -5,7 +5,8 @@
  * This script will:
  * 1. Generate Prisma Client
  * 2. Deploy database schema (prisma db push)
- * 3. Verify the deployment
+ * 3. Backfill opening ledger entries for existing portfolios
+ * 4. Verify the deployment
  */
 
 import { exec } from 'child_process'
@@ -39,8 +40,13 @@ const { stderr } = await execPromise('npx prisma db push --accept-data-loss')
     }
     
     console.log('✅ Database schema deployed successfully')
+
+    // Step 4: Open ledger balances for portfolios recorded before the ledger
+    console.log('📒 Backfilling opening ledger entries...')
+    const { stdout: backfill } = await execPromise('npx tsx scripts/backfill-ledger.ts')
+    console.log(backfill.trim())
     
-    // Step 4: Verify deployment
+    // Step 5: Verify deployment
     console.log('🔍 Verifying database deployment...')
     const mod = await import('./init-db.js')
     await mod.initializeDatabase()
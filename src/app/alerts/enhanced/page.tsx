@@ -3,14 +3,12 @@
 import { motion } from 'framer-motion'
 import { GlobalNavigation } from '@/components/GlobalNavigation'
 import { EnhancedPriceAlerts } from '@/components/alerts/EnhancedPriceAlerts'
-import AlertsWatcher from '@/components/alerts/AlertsWatcher'
 import { BellIcon, SparklesIcon, ChartBarIcon } from '@heroicons/react/24/outline'
 
 export default function EnhancedPriceAlertsPage() {
   return (
     <>
       <GlobalNavigation />
-      <AlertsWatcher />
       
       <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 pt-16">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
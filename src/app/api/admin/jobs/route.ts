@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { jobQueue, JobRunStatus } from '@/lib/job-queue'
+
+const STATUSES: JobRunStatus[] = ['queued', 'running', 'succeeded', 'dead']
+
+// Recent job runs with schedules and dead letters, for the account named by ADMIN_EMAIL
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!process.env.ADMIN_EMAIL || session.user.email !== process.env.ADMIN_EMAIL) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const status = searchParams.get('status') as JobRunStatus | null
+  if (status && !STATUSES.includes(status)) {
+    return NextResponse.json({ error: `status must be one of ${STATUSES.join(', ')}` }, { status: 400 })
+  }
+  const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 200)
+
+  try {
+    const [runs, schedules, deadLetters] = await Promise.all([
+      jobQueue.listRuns({ name: searchParams.get('name') || undefined, status: status || undefined, limit }),
+      jobQueue.listSchedules(),
+      jobQueue.listDeadLetters(limit)
+    ])
+    return NextResponse.json({ runs, schedules, deadLetters })
+  } catch (error) {
+    console.error('Job runs error:', error)
+    return NextResponse.json({ error: 'Failed to load job runs' }, { status: 500 })
+  }
+}
@@ -9,8 +9,11 @@ import {
   AlgorithmType,
   AdvancedOrder,
   TradingAlgorithm,
-  ConditionType
+  ConditionType,
+  DEFAULT_TRADING_PAIRS
 } from '@/lib/advanced-trading'
+import { runBacktest, BacktestError } from '@/lib/backtester'
+import { parseCandles, CandleParseError } from '@/lib/candles'
 import { z } from 'zod'
 
 const createOrderSchema = z.object({
@@ -59,40 +62,60 @@ const createOrderSchema = z.object({
   }).optional()
 })
 
+const algorithmParametersSchema = z.object({
+  // DCA parameters
+  interval: z.number().optional(),
+  amount: z.string().optional(),
+  maxOrders: z.number().optional(),
+  priceDeviation: z.number().optional(),
+  
+  // Grid parameters
+  gridLevels: z.number().optional(),
+  gridSpacing: z.number().optional(),
+  basePrice: z.string().optional(),
+  
+  // TWAP parameters
+  duration: z.number().optional(),
+  slices: z.number().optional(),
+  
+  // Momentum parameters
+  lookbackPeriod: z.number().optional(),
+  momentumThreshold: z.number().optional(),
+  
+  // Mean reversion parameters
+  bollinger: z.object({
+    period: z.number(),
+    stdDev: z.number()
+  }).optional(),
+  rsi: z.object({
+    period: z.number(),
+    oversold: z.number(),
+    overbought: z.number()
+  }).optional()
+})
+
 const createAlgorithmSchema = z.object({
   walletAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid wallet address'),
   type: z.nativeEnum(AlgorithmType),
-  parameters: z.object({
-    // DCA parameters
-    interval: z.number().optional(),
-    amount: z.string().optional(),
-    maxOrders: z.number().optional(),
-    priceDeviation: z.number().optional(),
-    
-    // Grid parameters
-    gridLevels: z.number().optional(),
-    gridSpacing: z.number().optional(),
-    basePrice: z.string().optional(),
-    
-    // TWAP parameters
-    duration: z.number().optional(),
-    slices: z.number().optional(),
-    
-    // Momentum parameters
-    lookbackPeriod: z.number().optional(),
-    momentumThreshold: z.number().optional(),
-    
-    // Mean reversion parameters
-    bollinger: z.object({
-      period: z.number(),
-      stdDev: z.number()
-    }).optional(),
-    rsi: z.object({
-      period: z.number(),
-      oversold: z.number(),
-      overbought: z.number()
-    }).optional()
-  })
+  parameters: algorithmParametersSchema
+})
+
+const backtestSchema = z.object({
+  type: z.nativeEnum(AlgorithmType),
+  parameters: algorithmParametersSchema,
+  symbol: z.string().optional(),
+  // CSV text, a JSON string, or an already-parsed JSON array of candles
+  candles: z.union([z.string().max(5_000_000), z.array(z.unknown()).max(100_000)]),
+  format: z.enum(['csv', 'json']).optional(),
+  initialCapital: z.number().positive().optional(),
+  fees: z.object({
+    maker: z.number().min(0).max(0.1),
+    taker: z.number().min(0).max(0.1)
+  }).optional(),
+  slippage: z.object({
+    bps: z.number().min(0).max(1000),
+    volumeImpactBps: z.number().min(0).optional()
+  }).optional()
 })
 
 // Create advanced order
@@ -153,11 +176,43 @@ export async function POST(request: NextRequest) {
       })
     }
 
+    if (action === 'backtest') {
+      const validatedData = backtestSchema.parse(body)
+
+      try {
+        const candles = parseCandles(validatedData.candles, validatedData.format)
+        const result = runBacktest({
+          type: validatedData.type,
+          parameters: validatedData.parameters,
+          candles,
+          symbol: validatedData.symbol,
+          initialCapital: validatedData.initialCapital,
+          fees: validatedData.fees,
+          slippage: validatedData.slippage
+        })
+
+        return NextResponse.json({
+          success: true,
+          result
+        })
+      } catch (error) {
+        if (error instanceof BacktestError || error instanceof CandleParseError) {
+          return NextResponse.json({ error: error.message }, { status: 400 })
+        }
+        throw error
+      }
+    }
+
     if (action === 'cancel-order') {
       const { orderId } = z.object({
         orderId: z.string()
       }).parse(body)
 
+      const order = await advancedTradingEngine.getOrder(orderId)
+      if (!order || order.userId !== session.user.id) {
+        return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+      }
+
       const success = await advancedTradingEngine.cancelOrder(orderId)
 
       return NextResponse.json({
@@ -171,6 +226,11 @@ export async function POST(request: NextRequest) {
         algorithmId: z.string()
       }).parse(body)
 
+      const algorithm = await advancedTradingEngine.getAlgorithm(algorithmId)
+      if (!algorithm || algorithm.userId !== session.user.id) {
+        return NextResponse.json({ error: 'Algorithm not found' }, { status: 404 })
+      }
+
       const success = await advancedTradingEngine.pauseAlgorithm(algorithmId)
 
       return NextResponse.json({
@@ -184,6 +244,11 @@ export async function POST(request: NextRequest) {
         algorithmId: z.string()
       }).parse(body)
 
+      const algorithm = await advancedTradingEngine.getAlgorithm(algorithmId)
+      if (!algorithm || algorithm.userId !== session.user.id) {
+        return NextResponse.json({ error: 'Algorithm not found' }, { status: 404 })
+      }
+
       const success = await advancedTradingEngine.resumeAlgorithm(algorithmId)
 
       return NextResponse.json({
@@ -197,6 +262,11 @@ export async function POST(request: NextRequest) {
         algorithmId: z.string()
       }).parse(body)
 
+      const algorithm = await advancedTradingEngine.getAlgorithm(algorithmId)
+      if (!algorithm || algorithm.userId !== session.user.id) {
+        return NextResponse.json({ error: 'Algorithm not found' }, { status: 404 })
+      }
+
       const success = await advancedTradingEngine.stopAlgorithm(algorithmId)
 
       return NextResponse.json({
@@ -238,10 +308,10 @@ export async function GET(request: NextRequest) {
     if (action === 'orders') {
       const status = searchParams.get('status')
       
-      let orders = advancedTradingEngine.getUserOrders(session.user.id)
+      let orders = await advancedTradingEngine.getUserOrders(session.user.id)
       
       if (status === 'active') {
-        orders = advancedTradingEngine.getActiveOrders(session.user.id)
+        orders = await advancedTradingEngine.getActiveOrders(session.user.id)
       } else if (status) {
         orders = orders.filter(order => order.status === status)
       }
@@ -259,7 +329,7 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Order ID required' }, { status: 400 })
       }
 
-      const order = advancedTradingEngine.getOrder(orderId)
+      const order = await advancedTradingEngine.getOrder(orderId)
       if (!order || order.userId !== session.user.id) {
         return NextResponse.json({ error: 'Order not found' }, { status: 404 })
       }
@@ -271,7 +341,7 @@ export async function GET(request: NextRequest) {
     }
 
     if (action === 'algorithms') {
-      const algorithms = advancedTradingEngine.getUserAlgorithms(session.user.id)
+      const algorithms = await advancedTradingEngine.getUserAlgorithms(session.user.id)
 
       return NextResponse.json({
         success: true,
@@ -286,8 +356,8 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Algorithm ID required' }, { status: 400 })
       }
 
-      const algorithm = advancedTradingEngine.getAlgorithm(algorithmId)
-      if (!algorithm) {
+      const algorithm = await advancedTradingEngine.getAlgorithm(algorithmId)
+      if (!algorithm || algorithm.userId !== session.user.id) {
         return NextResponse.json({ error: 'Algorithm not found' }, { status: 404 })
       }
 
@@ -337,48 +407,7 @@ export async function GET(request: NextRequest) {
     }
 
     if (action === 'trading-pairs') {
-      // Mock trading pairs data
-      const tradingPairs = [
-        {
-          id: 'eth_usdt',
-          baseAsset: 'ETH',
-          quoteAsset: 'USDT',
-          symbol: 'ETH/USDT',
-          chainId: 1,
-          decimals: { base: 18, quote: 6 },
-          minOrderSize: 0.001,
-          maxOrderSize: 1000,
-          tickSize: 0.01,
-          fees: { maker: 0.001, taker: 0.0015 },
-          isActive: true
-        },
-        {
-          id: 'btc_usdt',
-          baseAsset: 'BTC',
-          quoteAsset: 'USDT',
-          symbol: 'BTC/USDT',
-          chainId: 1,
-          decimals: { base: 8, quote: 6 },
-          minOrderSize: 0.0001,
-          maxOrderSize: 100,
-          tickSize: 0.01,
-          fees: { maker: 0.001, taker: 0.0015 },
-          isActive: true
-        },
-        {
-          id: 'bnb_usdt',
-          baseAsset: 'BNB',
-          quoteAsset: 'USDT',
-          symbol: 'BNB/USDT',
-          chainId: 56,
-          decimals: { base: 18, quote: 6 },
-          minOrderSize: 0.01,
-          maxOrderSize: 10000,
-          tickSize: 0.01,
-          fees: { maker: 0.001, taker: 0.0015 },
-          isActive: true
-        }
-      ]
+      const tradingPairs = DEFAULT_TRADING_PAIRS
 
       return NextResponse.json({
         success: true,
@@ -388,9 +417,11 @@ export async function GET(request: NextRequest) {
     }
 
     if (action === 'dashboard') {
-      const orders = advancedTradingEngine.getUserOrders(session.user.id)
-      const activeOrders = advancedTradingEngine.getActiveOrders(session.user.id)
-      const algorithms = advancedTradingEngine.getUserAlgorithms(session.user.id)
+      const [orders, activeOrders, algorithms] = await Promise.all([
+        advancedTradingEngine.getUserOrders(session.user.id),
+        advancedTradingEngine.getActiveOrders(session.user.id),
+        advancedTradingEngine.getUserAlgorithms(session.user.id)
+      ])
       const positions = advancedTradingEngine.getPortfolioPositions(session.user.id)
 
       // Calculate summary statistics
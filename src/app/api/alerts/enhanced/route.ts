@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { enhancedPriceAlertsService } from '@/lib/enhanced-price-alerts-service'
+import { parseTimeframe } from '@/lib/market-window'
+import { AlertExpressionError, parseAlertExpression } from '@/lib/alert-expressions'
 import { AlertType, AlertOperator, AlertStatus, AlertFrequency } from '@/types/price-alerts'
 
 export async function GET(request: NextRequest) {
@@ -116,6 +118,8 @@ export async function POST(request: NextRequest) {
           description,
           symbol, 
           type = 'price_threshold',
+          timeframe,
+          expression,
           operator, 
           threshold, 
           frequency = 'once',
@@ -132,17 +136,37 @@ export async function POST(request: NextRequest) {
           expiresAt
         } = body
 
-        if (!symbol || !operator || typeof threshold !== 'number') {
+        if (expression === undefined && (!symbol || !operator || typeof threshold !== 'number')) {
           return NextResponse.json({ 
             error: 'Symbol, operator, and threshold are required' 
           }, { status: 400 })
         }
 
+        let parsedExpression
+        try {
+          parsedExpression = expression === undefined ? undefined : parseAlertExpression(expression)
+        } catch (error) {
+          if (error instanceof AlertExpressionError) {
+            return NextResponse.json({ error: 'Invalid alert expression', details: error.errors }, { status: 400 })
+          }
+          throw error
+        }
+
+        if (timeframe !== undefined) {
+          try {
+            parseTimeframe(timeframe)
+          } catch (error) {
+            return NextResponse.json({ error: (error as Error).message }, { status: 400 })
+          }
+        }
+
         const alert = await enhancedPriceAlertsService.createAlert(session.user.id, {
           name,
           description,
           symbol,
           type,
+          timeframe,
+          expression: parsedExpression,
           operator,
           threshold,
           frequency,
@@ -181,6 +205,17 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Alert ID required' }, { status: 400 })
     }
 
+    if (updates.expression !== undefined) {
+      try {
+        updates.expression = parseAlertExpression(updates.expression)
+      } catch (error) {
+        if (error instanceof AlertExpressionError) {
+          return NextResponse.json({ error: 'Invalid alert expression', details: error.errors }, { status: 400 })
+        }
+        throw error
+      }
+    }
+
     const alert = await enhancedPriceAlertsService.updateAlert(
       session.user.id,
       alertId,
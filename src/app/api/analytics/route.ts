@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { productionAnalytics } from '@/lib/production-analytics'
+import { productionAnalytics, PRODUCTION_ANALYTICS_JOB } from '@/lib/production-analytics'
+import { jobQueue } from '@/lib/job-queue'
+import { cronForInterval } from '@/lib/cron'
 
 export async function GET(request: NextRequest) {
   try {
@@ -89,13 +91,14 @@ export async function POST(request: NextRequest) {
         const alert = await productionAnalytics.createAlert(body)
         return NextResponse.json(alert)
       
+      // Collection runs on the job worker, so these only schedule or pause the job
       case 'start-collection':
         const interval = body.intervalMs || 60000
-        productionAnalytics.startCollection(interval)
+        await jobQueue.schedule(PRODUCTION_ANALYTICS_JOB, { cron: cronForInterval(interval) })
         return NextResponse.json({ success: true, collecting: true })
       
       case 'stop-collection':
-        productionAnalytics.stopCollection()
+        await jobQueue.setScheduleEnabled(PRODUCTION_ANALYTICS_JOB, false)
         return NextResponse.json({ success: true, collecting: false })
       
       default:
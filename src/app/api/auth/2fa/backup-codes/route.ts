@@ -6,6 +6,7 @@ import { dbService } from '@/lib/db-service'
 import { checkLimit, clientIpFromHeaders } from '@/lib/rate-limit'
 import { logAudit } from '@/lib/audit'
 import { inc } from '@/lib/metrics'
+import { notificationService } from '@/lib/notifications'
 
 export async function GET(req: NextRequest) {
   try {
@@ -128,6 +129,13 @@ export async function POST(req: NextRequest) {
       backupCodes: newBackupCodes.map(code => ({ code, used: false, createdAt: new Date() }))
     })
 
+    await notificationService.publish({
+      userId: user.id,
+      category: 'security',
+      title: 'Backup codes regenerated',
+      body: 'New two-factor backup codes were generated; your previous codes no longer work.'
+    }).catch(error => console.error('Failed to publish security notification:', error))
+
     logAudit({ event: '2fa_backup_codes_regenerated', user: { id: user.id, email: session.user.email }, ip, route: '/api/auth/2fa/backup-codes', method: 'POST', outcome: 'success', meta: { count: newBackupCodes.length } })
     inc('2fa_backup_codes_requests_total', { route: 'regen', outcome: 'success' })
 
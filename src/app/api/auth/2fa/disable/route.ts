@@ -5,6 +5,7 @@ import { dbService } from '@/lib/db-service'
 import { checkLimit, clientIpFromHeaders } from '@/lib/rate-limit'
 import { logAudit } from '@/lib/audit'
 import { inc } from '@/lib/metrics'
+import { notificationService } from '@/lib/notifications'
 
 export async function POST() {
   try {
@@ -41,6 +42,13 @@ export async function POST() {
     // Disable 2FA in DB
     await dbService.set2FA(user.id, { enabled: false, secret: null, backupCodes: [] })
 
+    await notificationService.publish({
+      userId: user.id,
+      category: 'security',
+      title: 'Two-factor authentication disabled',
+      body: 'Two-factor authentication was turned off for your account. If this was not you, reset your password now.'
+    }).catch(error => console.error('Failed to publish security notification:', error))
+
     const res = NextResponse.json({
       success: true,
       message: 'Two-factor authentication has been disabled'
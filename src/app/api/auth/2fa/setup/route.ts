@@ -5,6 +5,7 @@ import speakeasy from 'speakeasy'
 import QRCode from 'qrcode'
 // import { Setup2FAResponse } from '@/types/auth'
 import { dbService } from '@/lib/db-service'
+import { notificationService } from '@/lib/notifications'
 
 // Temporary setup store (in-memory) only for pending setup verification
 const twoFactorSetupStore = new Map<string, {
@@ -149,6 +150,13 @@ export async function POST(req: NextRequest) {
       enabledAt: new Date()
     })
 
+    await notificationService.publish({
+      userId: user.id,
+      category: 'security',
+      title: 'Two-factor authentication enabled',
+      body: 'Two-factor authentication is now required to sign in to your account.'
+    }).catch(error => console.error('Failed to publish security notification:', error))
+
     // Clean up setup data
     twoFactorSetupStore.delete(session.user.email)
 
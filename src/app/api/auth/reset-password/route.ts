@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { dbService } from '@/lib/db-service'
 import { emailService } from '@/lib/email-service'
+import { notificationService } from '@/lib/notifications'
 import bcrypt from 'bcryptjs'
 
 export async function POST(request: NextRequest) {
@@ -71,6 +72,15 @@ export async function POST(request: NextRequest) {
     // Send password change confirmation email
     await emailService.sendPasswordChangeConfirmation(email, email)
 
+    await notificationService.publish({
+      userId: user.id,
+      category: 'security',
+      title: 'Password changed',
+      body: 'The password for your account was reset. If this was not you, contact support immediately.',
+      // The confirmation email above covers email
+      channels: ['push', 'sms', 'webhook']
+    }).catch(error => console.error('Failed to publish security notification:', error))
+
     return NextResponse.json({
       success: true,
       message: 'Password has been successfully reset. You can now sign in with your new password.'
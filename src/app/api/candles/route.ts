@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { candleService, CandleRangeError, CANDLE_INTERVALS, CandleInterval } from '@/lib/candle-service'
+
+// Candles returned when no `from` is given
+const DEFAULT_CANDLE_COUNT = 200
+
+// Accepts epoch milliseconds, epoch seconds or ISO dates
+const timeParam = z.string().transform((value, ctx) => {
+  if (/^\d+$/.test(value)) {
+    const numeric = Number(value)
+    return numeric < 1e12 ? numeric * 1000 : numeric
+  }
+  const parsed = Date.parse(value)
+  if (isNaN(parsed)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid time' })
+    return z.NEVER
+  }
+  return parsed
+})
+
+const candlesQuerySchema = z.object({
+  symbol: z.string().regex(/^[A-Za-z0-9]{1,15}$/, 'Invalid symbol').transform(symbol => symbol.toUpperCase()),
+  interval: z.enum(Object.keys(CANDLE_INTERVALS) as [CandleInterval, ...CandleInterval[]]).default('1h'),
+  from: timeParam.optional(),
+  to: timeParam.optional()
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const query = candlesQuerySchema.parse({
+      symbol: searchParams.get('symbol') ?? undefined,
+      interval: searchParams.get('interval') ?? undefined,
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined
+    })
+
+    const to = query.to ?? Date.now()
+    const from = query.from ?? to - (DEFAULT_CANDLE_COUNT - 1) * CANDLE_INTERVALS[query.interval]
+    const candles = await candleService.getCandles(query.symbol, query.interval, from, to)
+
+    return NextResponse.json({
+      success: true,
+      symbol: query.symbol,
+      interval: query.interval,
+      from,
+      to,
+      candles
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof CandleRangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Candles API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch candles' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,35 +1,11 @@
 import { NextResponse } from 'next/server'
-
-// Define types for ChangeNOW currency data
-interface ChangeNowCurrency {
-  ticker: string
-  name: string
-  image: string
-  hasExternalId?: boolean
-  isFiat?: boolean
-  featured?: boolean
-  isStable?: boolean
-  supportsFixedRate?: boolean
-}
-
-const CHANGENOW_API_KEY = process.env.CHANGENOW_API_KEY || 'demo-key'
-const CHANGENOW_BASE_URL = 'https://api.changenow.io/v1'
+import { changeNowClient } from '@/lib/changenow'
+import type { ChangeNowCurrency } from '@/lib/changenow'
 
 export async function GET() {
   try {
     console.log('Fetching currencies from ChangeNOW API...')
-    const response = await fetch(`${CHANGENOW_BASE_URL}/currencies?active=true&fixedRate=true`, {
-      headers: {
-        'x-changenow-api-key': CHANGENOW_API_KEY,
-      },
-    })
-
-    if (!response.ok) {
-      console.error(`ChangeNOW API error: ${response.status}`)
-      throw new Error(`ChangeNOW API error: ${response.status}`)
-    }
-
-    const currencies: ChangeNowCurrency[] = await response.json()
+    const currencies: ChangeNowCurrency[] = await changeNowClient.getCurrencies()
     console.log(`Received ${currencies.length} currencies from ChangeNOW`)
     
     // Filter and enhance currency data - remove isAvailable filter as it might not exist
@@ -1,7 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-const CHANGENOW_API_KEY = process.env.CHANGENOW_API_KEY || 'demo-key'
-const CHANGENOW_BASE_URL = 'https://api.changenow.io/v1'
+import { changeNowClient } from '@/lib/changenow'
 
 export async function POST(request: NextRequest) {
   try {
@@ -15,26 +13,13 @@ export async function POST(request: NextRequest) {
     }
 
     // Get exchange estimate from ChangeNOW
-    const response = await fetch(
-      `${CHANGENOW_BASE_URL}/exchange-amount/${fromAmount}/${fromCurrency}_${toCurrency}?api_key=${CHANGENOW_API_KEY}`,
-      {
-        headers: {
-          'x-changenow-api-key': CHANGENOW_API_KEY,
-        },
-      }
-    )
-
-    if (!response.ok) {
-      throw new Error(`ChangeNOW API error: ${response.status}`)
-    }
-
-    const data = await response.json()
+    const data = await changeNowClient.getEstimate(fromCurrency, toCurrency, fromAmount)
 
     // Format response
     const estimate = {
-      estimatedAmount: data.estimatedAmount || 0,
+      estimatedAmount: data.estimatedAmount,
       transactionSpeedForecast: data.transactionSpeedForecast || '10-60 minutes',
-      warningMessage: data.warningMessage || null,
+      warningMessage: data.warningMessage,
     }
 
     return NextResponse.json(estimate)
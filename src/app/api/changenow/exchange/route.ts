@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-const CHANGENOW_API_KEY = process.env.CHANGENOW_API_KEY || 'demo-key'
-const CHANGENOW_BASE_URL = 'https://api.changenow.io/v1'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { createTrackedExchange } from '@/lib/changenow-tracker'
 
 export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
   try {
-    const { fromCurrency, toCurrency, fromAmount, address, extraId, refundAddress } = await request.json()
+    const { fromCurrency, toCurrency, fromAmount, address, extraId, refundAddress, refundExtraId } = await request.json()
 
     if (!fromCurrency || !toCurrency || !fromAmount || !address) {
       return NextResponse.json(
@@ -14,33 +17,17 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Create exchange transaction
-    const exchangeData = {
-      from: fromCurrency,
-      to: toCurrency,
-      address: address,
-      amount: fromAmount,
-      extraId: extraId || '',
-      refundAddress: refundAddress || '',
-      refundExtraId: '',
-    }
-
-    const response = await fetch(`${CHANGENOW_BASE_URL}/transactions/${CHANGENOW_API_KEY}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-changenow-api-key': CHANGENOW_API_KEY,
-      },
-      body: JSON.stringify(exchangeData),
+    // Create the exchange and record it so the poller can follow its status
+    const data = await createTrackedExchange(session.user.id, {
+      fromCurrency,
+      toCurrency,
+      fromAmount,
+      address,
+      extraId,
+      refundAddress,
+      refundExtraId,
     })
 
-    if (!response.ok) {
-      const errorData = await response.json()
-      throw new Error(errorData.message || `ChangeNOW API error: ${response.status}`)
-    }
-
-    const data = await response.json()
-
     // Format response
     const exchange = {
       id: data.id,
@@ -67,4 +54,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
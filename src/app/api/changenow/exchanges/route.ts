@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { listExchanges } from '@/lib/changenow-tracker'
+
+export async function GET() {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  const exchanges = await listExchanges(session.user.id)
+  return NextResponse.json({ exchanges })
+}
@@ -1,22 +1,92 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { crossChainAggregator } from '@/lib/cross-chain-aggregator'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { crossChainAggregator, CrossChainExecution } from '@/lib/cross-chain-aggregator'
+import { DEXError } from '@/lib/dex/index'
 
+// How often a stream re-checks the steps its executions are waiting on
+const STREAM_INTERVAL_MS = 5000
+
+const ERROR_STATUS: Record<string, number> = {
+  EXECUTION_NOT_FOUND: 404,
+  EXECUTION_CONFLICT: 409
+}
+
+async function listExecutions(userId: string, status: string | null, limit: number): Promise<CrossChainExecution[]> {
+  let executions = await crossChainAggregator.monitorExecutions(userId)
+
+  // Filter by status if provided
+  if (status) {
+    executions = executions.filter(exec => exec.status === status)
+  }
+
+  // Apply limit
+  return executions.slice(0, limit)
+}
+
+/**
+ * Server-sent events carrying the execution list whenever a step changes, until the client disconnects
+ */
+function streamExecutions(request: NextRequest, userId: string, status: string | null, limit: number): Response {
+  const encoder = new TextEncoder()
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let last = ''
+      const push = async () => {
+        try {
+          const payload = JSON.stringify(await listExecutions(userId, status, limit))
+          if (payload !== last) {
+            last = payload
+            controller.enqueue(encoder.encode(`data: ${payload}\n\n`))
+          }
+        } catch (error) {
+          console.error('Cross-chain execution stream error:', error)
+        }
+        if (!request.signal.aborted) {
+          timer = setTimeout(push, STREAM_INTERVAL_MS)
+        }
+      }
+
+      request.signal.addEventListener('abort', () => {
+        clearTimeout(timer)
+        controller.close()
+      })
+      void push()
+    },
+    cancel() {
+      clearTimeout(timer)
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  })
+}
+
+// Executions of the signed-in user only
 export async function GET(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
     const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
+    const userId = session.user.id
     const status = searchParams.get('status')
     const limit = parseInt(searchParams.get('limit') || '50')
 
-    let executions = await crossChainAggregator.monitorExecutions(userId || undefined)
-
-    // Filter by status if provided
-    if (status) {
-      executions = executions.filter(exec => exec.status === status)
+    if (searchParams.get('stream') === 'true') {
+      return streamExecutions(request, userId, status, limit)
     }
 
-    // Apply limit
-    executions = executions.slice(0, limit)
+    const executions = await listExecutions(userId, status, limit)
 
     return NextResponse.json({
       success: true,
@@ -39,8 +109,14 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+    const userId = session.user.id
+
     const body = await request.json()
-    const { executionId, action } = body
+    const { executionId, action, stepId, txHash } = body
 
     if (!executionId || !action) {
       return NextResponse.json(
@@ -49,19 +125,44 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Here you would implement execution control actions like pause, resume, cancel
-    // For now, return a success response as this would integrate with actual execution system
-    
-    return NextResponse.json({
-      success: true,
-      message: `Execution ${action} request processed`,
-      data: {
-        executionId,
-        action,
-        timestamp: new Date().toISOString()
+    switch (action) {
+      case 'prepare': {
+        // Next transaction for the wallet to sign; null while a step is confirming or once finished
+        const prepared = await crossChainAggregator.prepareNextStep(executionId, userId)
+        return NextResponse.json({ success: true, data: prepared })
       }
-    })
+      case 'submit': {
+        if (!stepId || typeof txHash !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(txHash)) {
+          return NextResponse.json(
+            { success: false, error: 'submit requires stepId and a transaction hash' },
+            { status: 400 }
+          )
+        }
+        const execution = await crossChainAggregator.submitStepTransaction(executionId, userId, String(stepId), txHash)
+        return NextResponse.json({ success: true, data: execution })
+      }
+      case 'retry':
+      case 'refund': {
+        const execution = await crossChainAggregator.recoverExecution(executionId, userId, action)
+        return NextResponse.json({
+          success: true,
+          data: execution,
+          message: `Execution ${action} started`
+        })
+      }
+      default:
+        return NextResponse.json(
+          { success: false, error: `Invalid action: ${action}. Supported actions: prepare, submit, retry, refund` },
+          { status: 400 }
+        )
+    }
   } catch (error) {
+    if (error instanceof DEXError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: ERROR_STATUS[error.code] ?? 400 }
+      )
+    }
     console.error('Cross-chain execution control API error:', error)
     return NextResponse.json(
       { 
@@ -71,4 +172,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
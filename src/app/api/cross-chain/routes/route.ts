@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
 import { crossChainAggregator } from '@/lib/cross-chain-aggregator'
 
 export async function GET(request: NextRequest) {
@@ -70,12 +72,18 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// Starts an execution owned by the signed-in user
 export async function POST(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
     const body = await request.json()
-    const { routeId, userId, amount } = body
+    const { routeId, amount, walletAddress } = body
 
-    if (!routeId || !userId || !amount) {
+    if (!routeId || !amount || !walletAddress) {
       return NextResponse.json(
         { success: false, error: 'Missing required parameters' },
         { status: 400 }
@@ -92,14 +100,15 @@ export async function POST(request: NextRequest) {
 
     const execution = await crossChainAggregator.executeCrossChainTransaction(
       routeId,
-      userId,
-      numericAmount
+      session.user.id,
+      numericAmount,
+      walletAddress
     )
 
     return NextResponse.json({
       success: true,
       data: execution,
-      message: 'Cross-chain transaction initiated successfully'
+      message: 'Cross-chain execution planned; sign each step from the wallet'
     })
   } catch (error) {
     console.error('Cross-chain execution API error:', error)
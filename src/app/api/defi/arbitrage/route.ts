@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { arbitrageManager } from '@/lib/arbitrage-manager'
+
+// Open arbitrage opportunities found by the worker's scans, most profitable first
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const opportunities = await arbitrageManager.getOpportunities()
+
+    return NextResponse.json({
+      success: true,
+      opportunities,
+      total: opportunities.length
+    })
+
+  } catch (error) {
+    console.error('Get arbitrage opportunities error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get arbitrage opportunities' },
+      { status: 500 }
+    )
+  }
+}
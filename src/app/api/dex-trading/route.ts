@@ -7,7 +7,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import {
   handleGetQuote,
   handleFindBestRoute,
-  handleExecuteTrade,
+  handlePreviewTrade,
+  handleSubmitTrade,
+  handleSubmitProtectedTrade,
+  handleGetTradeStatus,
   handleGetSupportedTokens,
   handleGetTokenPrice,
   handleEstimateGas
@@ -33,8 +36,14 @@ export async function POST(request: NextRequest) {
         return await handleGetQuote(params)
       case 'findBestRoute':
         return await handleFindBestRoute(params)
-      case 'executeTrade':
-        return await handleExecuteTrade(params)
+      case 'previewTrade':
+        return await handlePreviewTrade(params)
+      case 'submitTrade':
+        return await handleSubmitTrade(params)
+      case 'submitProtectedTrade':
+        return await handleSubmitProtectedTrade(params)
+      case 'getTradeStatus':
+        return await handleGetTradeStatus(params)
       case 'getSupportedTokens':
         return await handleGetSupportedTokens(params)
       case 'getTokenPrice':
@@ -42,7 +51,7 @@ export async function POST(request: NextRequest) {
       case 'estimateGas':
         return await handleEstimateGas(params)
       default:
-        return createErrorResponse(`Invalid action: ${action}. Supported actions: getQuote, findBestRoute, executeTrade, getSupportedTokens, getTokenPrice, estimateGas`)
+        return createErrorResponse(`Invalid action: ${action}. Supported actions: getQuote, findBestRoute, previewTrade, submitTrade, submitProtectedTrade, getTradeStatus, getSupportedTokens, getTokenPrice, estimateGas`)
     }
   } catch (error: any) {
     return handleAPIError(error)
@@ -59,7 +68,7 @@ export async function GET(request: NextRequest) {
         status: 'healthy',
         timestamp: new Date().toISOString(),
         supportedChains: [1, 56, 137],
-        supportedDEXs: ['Uniswap V3', 'PancakeSwap V3']
+        supportedDEXs: ['Uniswap V3', 'PancakeSwap V3', 'QuickSwap V3', 'SushiSwap', 'PancakeSwap V2', 'QuickSwap V2']
       })
     }
 
@@ -0,0 +1,24 @@
+/**
+ * Gas API
+ * Slow, standard and fast EIP-1559 fee suggestions for the next block on a chain, plus the fee
+ * fields for one transaction when a gasPreference tier is given
+ */
+
+import { NextRequest } from 'next/server'
+import { handleGetGasSuggestion } from '@/lib/dex/api-handlers'
+import { handleAPIError } from '@/lib/dex/api-utils'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const chainId = searchParams.get('chainId')
+    const gasPreference = searchParams.get('gasPreference')
+
+    return await handleGetGasSuggestion({
+      chainId: chainId ? Number(chainId) : undefined,
+      gasPreference: gasPreference ?? undefined
+    })
+  } catch (error) {
+    return handleAPIError(error)
+  }
+}
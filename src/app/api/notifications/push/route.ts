@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+
+const subscriptionSchema = z.object({
+  endpoint: z.string().url(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1)
+  })
+})
+
+const unsubscribeSchema = z.object({
+  endpoint: z.string().url()
+})
+
+// GET /api/notifications/push - VAPID public key for PushManager.subscribe
+export async function GET() {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const publicKey = process.env.VAPID_PUBLIC_KEY
+  if (!publicKey) {
+    return NextResponse.json({ error: 'Push notifications are not configured' }, { status: 503 })
+  }
+  return NextResponse.json({ publicKey })
+}
+
+// POST /api/notifications/push - Register this browser's push subscription
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { endpoint, keys } = subscriptionSchema.parse(await request.json())
+    // Endpoints are unique per browser; re-subscribing moves the endpoint to the current user
+    await prisma.pushSubscription.upsert({
+      where: { endpoint },
+      create: { userId: session.user.id, endpoint, p256dh: keys.p256dh, auth: keys.auth, userAgent: request.headers.get('user-agent') },
+      update: { userId: session.user.id, p256dh: keys.p256dh, auth: keys.auth, userAgent: request.headers.get('user-agent') }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid subscription', details: error.errors }, { status: 400 })
+    }
+    console.error('Push subscription error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE /api/notifications/push - Remove this browser's push subscription
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { endpoint } = unsubscribeSchema.parse(await request.json())
+    const { count } = await prisma.pushSubscription.deleteMany({ where: { endpoint, userId: session.user.id } })
+
+    return NextResponse.json({ success: true, removed: count })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    console.error('Push unsubscribe error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
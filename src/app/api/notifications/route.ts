@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { notificationInbox } from '@/lib/notifications/inbox'
+
+const CATEGORIES = ['general', 'trade', 'portfolio', 'price-alert', 'security', 'system'] as const
+
+const listSchema = z.object({
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  category: z.enum(CATEGORIES).optional(),
+  archived: z.enum(['true', 'false']).optional(),
+  unread: z.enum(['true', 'false']).optional()
+})
+
+const updateSchema = z.discriminatedUnion('action', [
+  // Without ids every unread item is marked read
+  z.object({ action: z.literal('read'), ids: z.array(z.string().min(1)).min(1).max(100).optional() }),
+  z.object({ action: z.literal('archive'), ids: z.array(z.string().min(1)).min(1).max(100) })
+])
+
+// GET /api/notifications - Page through the inbox, newest first, with the unread count
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = listSchema.parse(Object.fromEntries(searchParams))
+
+    const [page, unreadCount] = await Promise.all([
+      notificationInbox.list(session.user.id, {
+        cursor: query.cursor,
+        limit: query.limit,
+        category: query.category,
+        archived: query.archived === 'true',
+        unreadOnly: query.unread === 'true'
+      }),
+      notificationInbox.unreadCount(session.user.id)
+    ])
+
+    return NextResponse.json({ notifications: page.items, nextCursor: page.nextCursor, unreadCount })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query', details: error.errors }, { status: 400 })
+    }
+    console.error('Notification inbox error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PATCH /api/notifications - Mark items read or archive them
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const update = updateSchema.parse(await request.json())
+    const updated = update.action === 'read'
+      ? await notificationInbox.markRead(session.user.id, update.ids)
+      : await notificationInbox.archive(session.user.id, update.ids)
+    const unreadCount = await notificationInbox.unreadCount(session.user.id)
+
+    return NextResponse.json({ success: true, updated, unreadCount })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+    console.error('Notification inbox update error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { notificationInbox } from '@/lib/notifications/inbox'
+
+// Notifications are published by the worker as well as by requests, so the stream polls the inbox
+const STREAM_INTERVAL_MS = 5000
+
+/**
+ * GET /api/notifications/stream - Server-sent events carrying each inbox item created after the
+ * stream opened, until the client disconnects
+ */
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const userId = session.user.id
+  const encoder = new TextEncoder()
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let after = new Date()
+      // Items already sent at the `after` timestamp, which the inclusive query returns again
+      let sentAtAfter = new Set<string>()
+
+      const push = async () => {
+        try {
+          const items = (await notificationInbox.since(userId, after)).filter(item => !sentAtAfter.has(item.id))
+          for (const item of items) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(item)}\n\n`))
+          }
+          if (items.length > 0) {
+            const latest = items[items.length - 1].createdAt
+            const ids = items.filter(item => item.createdAt === latest).map(item => item.id)
+            sentAtAfter = latest === after.toISOString() ? new Set([...Array.from(sentAtAfter), ...ids]) : new Set(ids)
+            after = new Date(latest)
+          }
+        } catch (error) {
+          console.error('Notification stream error:', error)
+        }
+        if (!request.signal.aborted) {
+          timer = setTimeout(push, STREAM_INTERVAL_MS)
+        }
+      }
+
+      request.signal.addEventListener('abort', () => {
+        clearTimeout(timer)
+        controller.close()
+      })
+      void push()
+    },
+    cancel() {
+      clearTimeout(timer)
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  })
+}
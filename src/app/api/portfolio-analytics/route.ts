@@ -1,9 +1,51 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
 import { portfolioAnalytics } from '@/lib/portfolio-analytics'
+import type { SnapshotRange } from '@/lib/portfolio-snapshot-store'
 import { z } from 'zod'
 
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const TIMEFRAME_MS: { [timeframe: string]: number | undefined } = {
+  '1d': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+  '90d': 90 * DAY_MS,
+  '1y': 365 * DAY_MS,
+  all: undefined
+}
+
+// Accepts epoch milliseconds or ISO dates
+const timeParam = z.string()
+  .transform(value => /^\d+$/.test(value) ? Number(value) : Date.parse(value))
+  .refine(value => !isNaN(value), 'Invalid time')
+
+const snapshotRangeSchema = z.object({
+  from: timeParam.optional(),
+  to: timeParam.optional(),
+  timeframe: z.enum(['1d', '7d', '30d', '90d', '1y', 'all']).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional()
+})
+
+// An explicit `from` wins over `timeframe`, which counts back from `to` (or now)
+function parseSnapshotRange(searchParams: URLSearchParams): SnapshotRange {
+  const query = snapshotRangeSchema.parse({
+    from: searchParams.get('from') ?? undefined,
+    to: searchParams.get('to') ?? undefined,
+    timeframe: searchParams.get('timeframe') ?? undefined,
+    limit: searchParams.get('limit') ?? undefined
+  })
+
+  const lookback = query.timeframe ? TIMEFRAME_MS[query.timeframe] : undefined
+  return {
+    from: query.from ?? (lookback !== undefined ? (query.to ?? Date.now()) - lookback : undefined),
+    to: query.to,
+    limit: query.limit
+  }
+}
+
 const getAnalyticsSchema = z.object({
   walletAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid wallet address'),
   timeframe: z.enum(['1d', '7d', '30d', '90d', '1y', 'all']).default('30d'),
@@ -15,6 +57,15 @@ const createSnapshotSchema = z.object({
   walletAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid wallet address')
 })
 
+// Only wallets the user has connected can be analysed through the API
+async function ownsWallet(userId: string, walletAddress: string): Promise<boolean> {
+  const connection = await prisma.walletConnection.findFirst({
+    where: { userId, address: { equals: walletAddress, mode: 'insensitive' }, isActive: true },
+    select: { id: true }
+  })
+  return !!connection
+}
+
 // Get portfolio analytics
 export async function GET(request: NextRequest) {
   try {
@@ -26,6 +77,11 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const action = searchParams.get('action')
 
+    const requestedWallet = searchParams.get('walletAddress')
+    if (requestedWallet && !await ownsWallet(session.user.id, requestedWallet)) {
+      return NextResponse.json({ error: 'Wallet not found' }, { status: 404 })
+    }
+
     if (action === 'summary') {
       const queryParams = {
         walletAddress: searchParams.get('walletAddress') || '',
@@ -36,7 +92,7 @@ export async function GET(request: NextRequest) {
 
       const validatedParams = getAnalyticsSchema.parse(queryParams)
 
-      const summary = await portfolioAnalytics.getPortfolioSummary(validatedParams.walletAddress)
+      const summary = await portfolioAnalytics.getPortfolioSummary(validatedParams.walletAddress, session.user.id)
 
       return NextResponse.json({
         success: true,
@@ -51,13 +107,12 @@ export async function GET(request: NextRequest) {
 
     if (action === 'snapshots') {
       const walletAddress = searchParams.get('walletAddress')
-      const limit = searchParams.get('limit') ? parseInt(searchParams.get('limit')!) : 100
 
       if (!walletAddress) {
         return NextResponse.json({ error: 'Wallet address required' }, { status: 400 })
       }
 
-      const snapshots = portfolioAnalytics.getSnapshots(walletAddress, limit)
+      const snapshots = await portfolioAnalytics.getSnapshots(walletAddress, parseSnapshotRange(searchParams))
 
       return NextResponse.json({
         success: true,
@@ -73,7 +128,8 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Wallet address required' }, { status: 400 })
       }
 
-      const historicalData = portfolioAnalytics.getHistoricalData(walletAddress)
+      const { from, to } = parseSnapshotRange(searchParams)
+      const historicalData = await portfolioAnalytics.getHistoricalData(walletAddress, { from, to })
 
       return NextResponse.json({
         success: true,
@@ -103,7 +159,7 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Wallet address required' }, { status: 400 })
       }
 
-      const recommendations = await portfolioAnalytics.generateRebalancingRecommendations(walletAddress)
+      const recommendations = await portfolioAnalytics.generateRebalancingRecommendations(walletAddress, session.user.id)
 
       return NextResponse.json({
         success: true,
@@ -140,6 +196,9 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json()
     const { walletAddress } = createSnapshotSchema.parse(body)
+    if (!await ownsWallet(session.user.id, walletAddress)) {
+      return NextResponse.json({ error: 'Wallet not found' }, { status: 404 })
+    }
 
     const snapshot = await portfolioAnalytics.createSnapshot(walletAddress)
 
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { dbService } from '@/lib/db-service'
+import { projectHoldings } from '@/lib/ledger'
+
+// Journal entries, the holdings they reproduce and any mismatch with the stored portfolio.
+// Read-only: mismatches are flagged by the hourly ledger.reconcile job or a POST here.
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const entries = await dbService.getJournalEntries(session.user.id)
+    const mismatches = await dbService.findPortfolioMismatches(session.user.id)
+
+    return NextResponse.json({
+      entries,
+      balances: Array.from(projectHoldings(entries).values()),
+      mismatches
+    })
+  } catch (error) {
+    console.error('Ledger fetch error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Reconciles the user's portfolio now, flagging new mismatches and resolving the ones that are gone
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const mismatches = await dbService.reconcilePortfolio(session.user.id)
+
+    return NextResponse.json({ mismatches })
+  } catch (error) {
+    console.error('Ledger reconcile error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { costBasisService, CostBasisError, COST_BASIS_METHODS } from '@/lib/cost-basis'
+import { z } from 'zod'
+
+const getLotsSchema = z.object({
+  method: z.enum(COST_BASIS_METHODS).optional(), // Preview another method without saving it
+  symbol: z.string().min(1).max(20).optional()
+})
+
+const updateLotsSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('set_method'),
+    method: z.enum(COST_BASIS_METHODS)
+  }),
+  z.object({
+    action: z.literal('select_lots'),
+    disposalId: z.string().min(1),
+    selections: z.array(z.object({
+      lotId: z.string().min(1),
+      amount: z.number().positive()
+    })).max(100)
+  })
+])
+
+// Get tax lots with realized and unrealized P&L
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = getLotsSchema.parse({
+      method: searchParams.get('method') ?? undefined,
+      symbol: searchParams.get('symbol') ?? undefined
+    })
+
+    const report = await costBasisService.getReport(session.user.id, { method: query.method })
+    const symbol = query.symbol?.toUpperCase()
+
+    return NextResponse.json({
+      success: true,
+      method: report.method,
+      lots: symbol ? report.lots.filter(lot => lot.symbol === symbol) : report.lots,
+      realized: symbol ? report.realized.filter(lot => lot.symbol === symbol) : report.realized,
+      summary: report.summary
+    })
+  } catch (error) {
+    console.error('Tax lots error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof CostBasisError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to build tax lots' },
+      { status: 500 }
+    )
+  }
+}
+
+// Set the lot selection method or pick lots for a disposal
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = updateLotsSchema.parse(await request.json())
+
+    if (body.action === 'set_method') {
+      await costBasisService.setMethod(session.user.id, body.method)
+      return NextResponse.json({ success: true, method: body.method })
+    }
+
+    await costBasisService.selectLots(session.user.id, body.disposalId, body.selections)
+    return NextResponse.json({ success: true, disposalId: body.disposalId, selections: body.selections })
+  } catch (error) {
+    console.error('Tax lots update error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof CostBasisError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update tax lots' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,21 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
+import { randomBytes } from 'crypto'
+import { prisma } from '@/lib/db'
+import { DEFAULT_NOTIFICATION_PREFERENCES, resolveNotificationPreferences, validateNotificationPreferences } from '@/lib/notifications/preferences'
 import { UpdatePreferencesRequest, NotificationPreferences, PrivacySettings, TradingPreferences } from '@/types/user-preferences'
 
 // Default preferences
 const defaultPreferences = {
-  notifications: {
-    email: true,
-    push: false,
-    sms: false,
-    priceAlerts: true,
-    tradeConfirmations: true,
-    marketNews: false,
-    portfolioUpdates: true,
-    systemAnnouncements: true,
-    weeklyReports: false
-  } as NotificationPreferences,
+  notifications: DEFAULT_NOTIFICATION_PREFERENCES,
   privacy: {
     showPortfolio: false,
     showTrades: true,
@@ -30,6 +23,7 @@ const defaultPreferences = {
     autoConfirmTrades: false,
     slippageTolerance: 1.0,
     gasPreference: 'standard',
+    executionMode: 'standard',
     favoriteTokens: ['BTC', 'ETH'],
     tradingPairs: ['BTC/USD', 'ETH/USD'],
     chartTimeframe: '1h',
@@ -54,14 +48,23 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // In production, this would fetch from database
-    // For now, return default preferences with user-specific overrides
+    // Notification preferences are stored on the user; the other sections are not persisted yet
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: { notificationPreferences: true, webhookSecret: true }
+    })
     const preferences = {
       ...defaultPreferences,
+      notifications: resolveNotificationPreferences(user?.notificationPreferences),
       userId: session.user.email
     }
 
-    return NextResponse.json({ preferences })
+    // Receivers verify webhook signatures with this secret
+    return NextResponse.json({
+      preferences,
+      notificationsSaved: !!user?.notificationPreferences,
+      webhookSecret: user?.webhookSecret ?? null
+    })
   } catch (error) {
     console.error('Preferences fetch error:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -79,28 +82,63 @@ export async function PUT(request: NextRequest) {
 
     const body: UpdatePreferencesRequest = await request.json()
 
-    // Validate trading preferences
-    const errors: Partial<Record<'slippageTolerance', string>> = {}
+    // Validate trading and notification preferences
+    const errors: { [field: string]: string } = body.notifications ? await validateNotificationPreferences(body.notifications) : {}
     
     if (body.trading?.slippageTolerance && (body.trading.slippageTolerance < 0.1 || body.trading.slippageTolerance > 50)) {
       errors.slippageTolerance = 'Slippage tolerance must be between 0.1% and 50%'
     }
 
+    if (body.trading?.executionMode && !['standard', 'mev_protected'].includes(body.trading.executionMode)) {
+      errors.executionMode = 'Execution mode must be standard or mev_protected'
+    }
+
+    if (body.trading?.gasPreference && !['slow', 'standard', 'fast'].includes(body.trading.gasPreference)) {
+      errors.gasPreference = 'Gas preference must be slow, standard or fast'
+    }
+
     if (Object.keys(errors).length > 0) {
       return NextResponse.json({ errors }, { status: 400 })
     }
 
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: { id: true, notificationPreferences: true, webhookSecret: true }
+    })
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
     // Merge with existing preferences
+    const current = resolveNotificationPreferences(user.notificationPreferences)
+    const notifications: NotificationPreferences = {
+      ...current,
+      ...body.notifications,
+      quietHours: { ...current.quietHours, ...body.notifications?.quietHours },
+      webhookUrl: body.notifications?.webhookUrl === '' ? undefined : body.notifications?.webhookUrl ?? current.webhookUrl,
+      smsNumber: body.notifications?.smsNumber === '' ? undefined : body.notifications?.smsNumber ?? current.smsNumber
+    }
+    // The signing secret is created with the first webhook URL and kept afterwards
+    const webhookSecret = user.webhookSecret ?? (notifications.webhookUrl ? randomBytes(32).toString('hex') : null)
+
+    if (body.notifications) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { notificationPreferences: notifications, webhookSecret }
+      })
+    }
+
     const updatedPreferences = {
       ...defaultPreferences,
       ...body,
+      notifications,
       userId: session.user.email
     }
 
-    // In production, save to database
     return NextResponse.json({ 
       success: true, 
       preferences: updatedPreferences,
+      webhookSecret,
       message: 'Preferences updated successfully'
     })
   } catch (error) {
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { generateTaxReport, toTaxReportCsv, TAX_JURISDICTIONS } from '@/lib/tax-report'
+import { CostBasisError } from '@/lib/cost-basis'
+import { ExchangeRateError } from '@/lib/exchange-rates'
+import { z } from 'zod'
+
+const taxReportSchema = z.object({
+  year: z.coerce.number().int().min(2009).max(new Date().getUTCFullYear()).default(new Date().getUTCFullYear() - 1),
+  jurisdiction: z.enum(TAX_JURISDICTIONS).default('US'),
+  format: z.enum(['json', 'csv']).default('json')
+})
+
+// Capital gains and income report for a tax year
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = taxReportSchema.parse({
+      year: searchParams.get('year') ?? undefined,
+      jurisdiction: searchParams.get('jurisdiction') ?? undefined,
+      format: searchParams.get('format') ?? undefined
+    })
+
+    const report = await generateTaxReport(session.user.id, query.year, query.jurisdiction)
+
+    if (query.format === 'csv') {
+      const filename = `capital-gains-${query.jurisdiction}-${report.taxYear.label.replace('/', '-')}.csv`
+      return new NextResponse(toTaxReportCsv(report), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`
+        }
+      })
+    }
+
+    return NextResponse.json({ success: true, report })
+  } catch (error) {
+    console.error('Tax report error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof CostBasisError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    if (error instanceof ExchangeRateError) {
+      return NextResponse.json({ error: error.message }, { status: 503 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to generate tax report' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
-import { transactionMonitor, MonitoringConfig, AlertType } from '@/lib/transaction-monitor'
+import { transactionMonitor, MonitoringConfig, AlertType, TRANSACTION_MONITOR_JOB } from '@/lib/transaction-monitor'
+import { jobQueue } from '@/lib/job-queue'
 import { z } from 'zod'
 
 const startMonitoringSchema = z.object({
@@ -42,6 +43,7 @@ export async function POST(request: NextRequest) {
     const validatedData = startMonitoringSchema.parse(body)
 
     const config: MonitoringConfig = {
+      userId: session.user.id,
       walletAddress: validatedData.walletAddress,
       chainIds: validatedData.chainIds,
       alertThresholds: validatedData.alertThresholds,
@@ -49,8 +51,13 @@ export async function POST(request: NextRequest) {
       notificationMethods: validatedData.notificationMethods
     }
 
-    // Start monitoring
+    // Start monitoring; the worker then polls the wallet's chains every minute
     await transactionMonitor.startMonitoring(config)
+    await jobQueue.schedule(TRANSACTION_MONITOR_JOB, {
+      key: config.walletAddress.toLowerCase(),
+      cron: '* * * * *',
+      payload: config
+    })
 
     return NextResponse.json({
       success: true,
@@ -101,27 +108,30 @@ export async function GET(request: NextRequest) {
 
       const validatedParams = getHistorySchema.parse(queryParams)
 
-      const transactions = transactionMonitor.getStoredTransactionHistory(validatedParams.walletAddress)
-      const paginatedTransactions = transactions.slice(
-        validatedParams.offset,
-        validatedParams.offset + validatedParams.limit
-      )
+      const [transactions, total] = await Promise.all([
+        transactionMonitor.getStoredTransactionHistory(
+          validatedParams.walletAddress,
+          validatedParams.limit,
+          validatedParams.offset
+        ),
+        transactionMonitor.countStoredTransactions(validatedParams.walletAddress)
+      ])
 
       return NextResponse.json({
         success: true,
-        transactions: paginatedTransactions,
-        total: transactions.length,
+        transactions,
+        total,
         pagination: {
           limit: validatedParams.limit,
           offset: validatedParams.offset,
-          hasMore: validatedParams.offset + validatedParams.limit < transactions.length
+          hasMore: validatedParams.offset + validatedParams.limit < total
         }
       })
     }
 
     if (action === 'alerts') {
       const walletAddress = searchParams.get('walletAddress')
-      const alerts = transactionMonitor.getAlertHistory(walletAddress || undefined)
+      const alerts = await transactionMonitor.getAlertHistory(session.user.id, walletAddress || undefined)
 
       return NextResponse.json({
         success: true,
@@ -137,7 +147,7 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Wallet address required' }, { status: 400 })
       }
 
-      const isMonitoring = transactionMonitor.getMonitoringStatus(walletAddress)
+      const isMonitoring = await transactionMonitor.getMonitoringStatus(walletAddress)
 
       return NextResponse.json({
         success: true,
@@ -179,7 +189,8 @@ export async function DELETE(request: NextRequest) {
     const alertId = searchParams.get('alertId')
 
     if (action === 'stop' && walletAddress) {
-      transactionMonitor.stopMonitoring(walletAddress)
+      await transactionMonitor.stopMonitoring(walletAddress)
+      await jobQueue.unschedule(TRANSACTION_MONITOR_JOB, walletAddress.toLowerCase())
       
       return NextResponse.json({
         success: true,
@@ -189,7 +200,10 @@ export async function DELETE(request: NextRequest) {
     }
 
     if (action === 'acknowledge' && alertId) {
-      transactionMonitor.acknowledgeAlert(alertId)
+      const acknowledged = await transactionMonitor.acknowledgeAlert(session.user.id, alertId)
+      if (!acknowledged) {
+        return NextResponse.json({ error: 'Alert not found' }, { status: 404 })
+      }
       
       return NextResponse.json({
         success: true,
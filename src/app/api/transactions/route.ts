@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { dbService } from '@/lib/db-service'
+import { LedgerError, LedgerUnavailableError } from '@/lib/ledger'
 
 export async function GET() {
   try {
@@ -52,6 +53,14 @@ export async function POST(req: NextRequest) {
     return NextResponse.json(transaction)
   } catch (error) {
     console.error('Transaction creation error:', error)
+
+    if (error instanceof LedgerError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof LedgerUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 503 })
+    }
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
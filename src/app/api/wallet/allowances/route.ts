@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { NOWNodesService } from '@/lib/web3/nownodes-service'
+import { AllowanceManager } from '@/lib/web3/allowance-manager'
+import { z } from 'zod'
+
+const addressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid address')
+const chainIdSchema = z.coerce.number().int().refine(chainId => chainId in NOWNodesService.CHAINS, 'Unsupported chain')
+
+// Without fromBlock the wallet's scan checkpoint is continued; with it, only the last MAX_SCAN_BLOCKS are read
+const listAllowancesSchema = z.object({
+  walletAddress: addressSchema,
+  chainId: chainIdSchema,
+  fromBlock: z.coerce.number().int().nonnegative().optional()
+})
+
+const revokeAllowanceSchema = z.object({
+  walletAddress: addressSchema,
+  chainId: chainIdSchema,
+  tokenAddress: addressSchema,
+  spender: addressSchema
+})
+
+// Only wallets the user has connected can be inspected or revoked through the API
+async function findWalletConnection(userId: string, walletAddress: string, chainId: number) {
+  return prisma.walletConnection.findUnique({
+    where: {
+      userId_address_chainId: {
+        userId,
+        address: walletAddress.toLowerCase(),
+        chainId
+      }
+    }
+  })
+}
+
+function getAllowanceManager(): AllowanceManager | null {
+  const nowNodesApiKey = process.env.NOWNODES_API_KEY
+  return nowNodesApiKey ? new AllowanceManager(new NOWNodesService(nowNodesApiKey)) : null
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { walletAddress, chainId, fromBlock } = listAllowancesSchema.parse({
+      walletAddress: searchParams.get('walletAddress'),
+      chainId: searchParams.get('chainId'),
+      fromBlock: searchParams.get('fromBlock') ?? undefined
+    })
+
+    if (!await findWalletConnection(session.user.id, walletAddress, chainId)) {
+      return NextResponse.json({ error: 'Wallet not found' }, { status: 404 })
+    }
+
+    const allowanceManager = getAllowanceManager()
+    if (!allowanceManager) {
+      return NextResponse.json({ error: 'NOWNodes API key not configured' }, { status: 500 })
+    }
+
+    const inventory = await allowanceManager.getAllowances(walletAddress, chainId, fromBlock)
+
+    return NextResponse.json({
+      success: true,
+      ...inventory
+    })
+
+  } catch (error) {
+    console.error('Get allowances error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch allowances' },
+      { status: 500 }
+    )
+  }
+}
+
+// Returns an unsigned approve(spender, 0) for the connected wallet to sign
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { walletAddress, chainId, tokenAddress, spender } = revokeAllowanceSchema.parse(body)
+
+    if (!await findWalletConnection(session.user.id, walletAddress, chainId)) {
+      return NextResponse.json({ error: 'Wallet not found' }, { status: 404 })
+    }
+
+    const allowanceManager = getAllowanceManager()
+    if (!allowanceManager) {
+      return NextResponse.json({ error: 'NOWNodes API key not configured' }, { status: 500 })
+    }
+
+    const transaction = await allowanceManager.buildRevokeTransaction(walletAddress, chainId, tokenAddress, spender)
+
+    return NextResponse.json({
+      success: true,
+      transaction
+    })
+
+  } catch (error) {
+    console.error('Revoke allowance error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to build revoke transaction' },
+      { status: 500 }
+    )
+  }
+}
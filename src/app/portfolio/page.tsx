@@ -6,6 +6,7 @@ import { RealTimePortfolio } from '@/components/RealTimePortfolio'
 import { WebSocketProvider } from '@/hooks/useWebSocket'
 import { GlobalNavigation } from '@/components/GlobalNavigation'
 import { ErrorBoundary, useErrorHandler } from '@/components/ErrorBoundary'
+import { TaxReportDownload } from '@/components/TaxReportDownload'
 import { useState } from 'react'
 import { ChartBarIcon, Cog6ToothIcon, WifiIcon } from '@heroicons/react/24/outline'
 
@@ -20,8 +21,9 @@ export default function PortfolioPage() {
       <GlobalNavigation />
       <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 pt-16">
         <div className="mx-auto max-w-7xl px-6 lg:px-8 py-12">
-          {/* Portfolio Mode Toggle */}
-          <div className="flex justify-end mb-6">
+          {/* Tax Report Download and Portfolio Mode Toggle */}
+          <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+            <TaxReportDownload />
             <div className="flex items-center gap-1 bg-white/10 p-1 rounded-lg backdrop-blur-sm ring-1 ring-white/20">
               <button
                 onClick={() => setPortfolioMode('simple')}
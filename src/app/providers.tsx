@@ -4,7 +4,6 @@ import { SessionProvider } from 'next-auth/react'
 import { NotificationProvider } from '@/contexts/NotificationContext'
 import { WalletProvider } from '@/contexts/WalletContext'
 import { GlobalNotificationContainer } from '@/components/notifications/NotificationContainer'
-import AlertsWatcher from '@/components/alerts/AlertsWatcher'
 
 export function Providers({ children }: { children: React.ReactNode }) {
   return (
@@ -13,7 +12,6 @@ export function Providers({ children }: { children: React.ReactNode }) {
         <WalletProvider>
           {children}
           <GlobalNotificationContainer />
-          <AlertsWatcher />
         </WalletProvider>
       </NotificationProvider>
     </SessionProvider>
@@ -15,10 +15,10 @@ import {
   CheckIcon,
   ExclamationTriangleIcon
 } from '@heroicons/react/24/outline'
-import '@/lib/alerts-poller'
 import { NotificationPreferences, PrivacySettings } from '@/types/user-preferences'
 import { BackupCodesManager } from '@/components/auth/BackupCodesManager'
 import { useNotify } from '@/components/notifications'
+import { pushSupported, subscribeToPush, unsubscribeFromPush } from '@/lib/push-subscription'
 
 type Operator = 'GT' | 'LT'
 
@@ -116,6 +116,30 @@ function PriceAlertsSection() {
   )
 }
 
+function ToggleRow({ title, description, enabled, disabled, onToggle }: { title: string; description: string; enabled: boolean; disabled?: boolean; onToggle: () => void }) {
+  return (
+    <div className="flex items-center justify-between">
+      <div>
+        <h3 className="text-white font-medium">{title}</h3>
+        <p className="text-gray-400 text-sm">{description}</p>
+      </div>
+      <button
+        onClick={onToggle}
+        disabled={disabled}
+        className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-50 ${
+          enabled ? 'bg-blue-500' : 'bg-gray-600'
+        }`}
+      >
+        <span
+          className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+            enabled ? 'translate-x-6' : 'translate-x-1'
+          }`}
+        />
+      </button>
+    </div>
+  )
+}
+
 export default function SettingsPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
@@ -134,8 +158,16 @@ export default function SettingsPage() {
     marketNews: false,
     portfolioUpdates: true,
     systemAnnouncements: true,
-    weeklyReports: false
+    weeklyReports: false,
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+    quietHours: { enabled: false, start: '22:00', end: '07:00' },
+    digest: 'off'
   })
+  const [webhookSecret, setWebhookSecret] = useState<string | null>(null)
+  const [isSavingPreferences, setIsSavingPreferences] = useState(false)
+  const [isUpdatingPush, setIsUpdatingPush] = useState(false)
+  const [canPush, setCanPush] = useState(false)
+  const notify = useNotify()
   
   const [privacy, setPrivacy] = useState<PrivacySettings>({
     showPortfolio: false,
@@ -183,6 +215,59 @@ export default function SettingsPage() {
     }
   }, [session])
 
+  useEffect(() => {
+    setCanPush(pushSupported())
+  }, [])
+
+  // Saved notification preferences; until the user saves them the browser's timezone is used
+  useEffect(() => {
+    if (!session) return
+    fetch('/api/preferences')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!data) return
+        const saved: NotificationPreferences = data.preferences.notifications
+        setNotifications(current => data.notificationsSaved ? saved : { ...saved, timezone: current.timezone })
+        setWebhookSecret(data.webhookSecret)
+      })
+      .catch(() => console.error('Error loading notification preferences'))
+  }, [session])
+
+  const togglePush = async () => {
+    setIsUpdatingPush(true)
+    try {
+      if (notifications.push) await unsubscribeFromPush()
+      else await subscribeToPush()
+      setNotifications(current => ({ ...current, push: !current.push }))
+    } catch (error) {
+      notify.error('Push Notifications', error instanceof Error ? error.message : 'Unable to update push notifications')
+    } finally {
+      setIsUpdatingPush(false)
+    }
+  }
+
+  const handleSaveSettings = async () => {
+    setIsSavingPreferences(true)
+    try {
+      const response = await fetch('/api/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ notifications: { ...notifications, webhookUrl: notifications.webhookUrl ?? '', smsNumber: notifications.smsNumber ?? '' } })
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setWebhookSecret(data.webhookSecret)
+        notify.success('Settings Saved', 'Your preferences have been successfully saved.')
+      } else {
+        notify.error('Save Failed', data.errors ? Object.values(data.errors).join(', ') : 'Unable to save your preferences.')
+      }
+    } catch {
+      notify.error('Network Error', 'Unable to connect to server. Please check your internet connection.')
+    } finally {
+      setIsSavingPreferences(false)
+    }
+  }
+
   const handleTwoFactorComplete = () => {
     setTwoFactorEnabled(true)
     setShowTwoFactorSetup(false)
@@ -353,6 +438,101 @@ export default function SettingsPage() {
                     />
                   </button>
                 </div>
+
+                <ToggleRow
+                  title="Weekly Reports"
+                  description="A weekly summary of your portfolio and triggered alerts"
+                  enabled={notifications.weeklyReports}
+                  onToggle={() => setNotifications({...notifications, weeklyReports: !notifications.weeklyReports})}
+                />
+
+                <div className="border-t border-white/10 pt-4">
+                  <h3 className="text-white font-medium mb-4">Delivery Channels</h3>
+                  <div className="space-y-4">
+                    <ToggleRow
+                      title="Push Notifications"
+                      description={canPush ? 'Notifications on this device, even when NOHVEX is closed' : 'Not supported in this browser'}
+                      enabled={notifications.push}
+                      disabled={isUpdatingPush || !canPush}
+                      onToggle={togglePush}
+                    />
+
+                    <ToggleRow
+                      title="SMS Notifications"
+                      description="Text messages to your phone number"
+                      enabled={notifications.sms}
+                      onToggle={() => setNotifications({...notifications, sms: !notifications.sms})}
+                    />
+                    {notifications.sms && (
+                      <input
+                        type="tel"
+                        value={notifications.smsNumber ?? ''}
+                        onChange={e => setNotifications({...notifications, smsNumber: e.target.value})}
+                        placeholder="+14155550123"
+                        className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white"
+                      />
+                    )}
+
+                    <div>
+                      <h3 className="text-white font-medium">Webhook</h3>
+                      <p className="text-gray-400 text-sm mb-2">Signed JSON POSTs to your endpoint for every notification</p>
+                      <input
+                        type="url"
+                        value={notifications.webhookUrl ?? ''}
+                        onChange={e => setNotifications({...notifications, webhookUrl: e.target.value})}
+                        placeholder="https://example.com/nohvex-webhook"
+                        className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white"
+                      />
+                      {webhookSecret && (
+                        <p className="text-gray-400 text-xs mt-2 break-all">
+                          Signing secret (X-Nohvex-Signature, HMAC-SHA256): <span className="font-mono text-gray-300">{webhookSecret}</span>
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="border-t border-white/10 pt-4 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h3 className="text-white font-medium">Email Digest</h3>
+                      <p className="text-gray-400 text-sm">Batch emails into one message at 08:00 your time</p>
+                    </div>
+                    <select
+                      value={notifications.digest}
+                      onChange={e => setNotifications({...notifications, digest: e.target.value as NotificationPreferences['digest']})}
+                      className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white"
+                    >
+                      <option value="off">Off</option>
+                      <option value="daily">Daily</option>
+                      <option value="weekly">Weekly (Mondays)</option>
+                    </select>
+                  </div>
+
+                  <ToggleRow
+                    title="Quiet Hours"
+                    description={`Hold push and SMS notifications overnight (${notifications.timezone}); security alerts still come through`}
+                    enabled={notifications.quietHours.enabled}
+                    onToggle={() => setNotifications({...notifications, quietHours: {...notifications.quietHours, enabled: !notifications.quietHours.enabled}})}
+                  />
+                  {notifications.quietHours.enabled && (
+                    <div className="flex items-center space-x-3 text-gray-300">
+                      <input
+                        type="time"
+                        value={notifications.quietHours.start}
+                        onChange={e => setNotifications({...notifications, quietHours: {...notifications.quietHours, start: e.target.value}})}
+                        className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white"
+                      />
+                      <span>to</span>
+                      <input
+                        type="time"
+                        value={notifications.quietHours.end}
+                        onChange={e => setNotifications({...notifications, quietHours: {...notifications.quietHours, end: e.target.value}})}
+                        className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white"
+                      />
+                    </div>
+                  )}
+                </div>
               </div>
             </motion.div>
 
@@ -526,8 +706,12 @@ export default function SettingsPage() {
               transition={{ delay: 0.4 }}
               className="flex justify-end"
             >
-              <button className="px-6 py-3 bg-gradient-to-r from-blue-500 to-emerald-500 text-white rounded-lg hover:from-blue-600 hover:to-emerald-600 transition-all duration-200 font-medium">
-                Save All Settings
+              <button
+                onClick={handleSaveSettings}
+                disabled={isSavingPreferences}
+                className="px-6 py-3 bg-gradient-to-r from-blue-500 to-emerald-500 text-white rounded-lg hover:from-blue-600 hover:to-emerald-600 transition-all duration-200 font-medium disabled:opacity-50"
+              >
+                {isSavingPreferences ? 'Saving...' : 'Save All Settings'}
               </button>
             </motion.div>
           </div>
@@ -487,6 +487,7 @@ export function AdvancedPortfolio({ className = "" }: AdvancedPortfolioProps) {
             <h4 className="text-lg font-semibold text-white mb-4">Volume Analysis</h4>
             <VolumeChart
               priceHistory={[]}
+              symbol={selectedAsset}
               theme="dark"
             />
           </div>
@@ -20,7 +20,9 @@ import {
   AdjustmentsHorizontalIcon,
   ChartPieIcon,
   SignalIcon,
-  RocketLaunchIcon
+  RocketLaunchIcon,
+  BeakerIcon,
+  ArrowUpTrayIcon
 } from '@heroicons/react/24/outline'
 import { 
   AdvancedOrder, 
@@ -35,6 +37,7 @@ import {
   MarketData,
   TradingSignal
 } from '@/lib/advanced-trading'
+import type { BacktestResult } from '@/lib/backtester'
 
 interface AdvancedTradingProps {
   walletAddress: string
@@ -65,7 +68,7 @@ export default function AdvancedTrading({ walletAddress }: AdvancedTradingProps)
   const [tradingPairs, setTradingPairs] = useState<TradingPair[]>([])
   const [marketData, setMarketData] = useState<{ [symbol: string]: MarketData }>({})
   const [signals, setSignals] = useState<TradingSignal[]>([])
-  const [selectedTab, setSelectedTab] = useState<'dashboard' | 'orders' | 'algorithms' | 'signals' | 'create'>('dashboard')
+  const [selectedTab, setSelectedTab] = useState<'dashboard' | 'orders' | 'algorithms' | 'signals' | 'backtest' | 'create'>('dashboard')
   const [showCreateOrder, setShowCreateOrder] = useState(false)
   const [showCreateAlgorithm, setShowCreateAlgorithm] = useState(false)
 
@@ -94,9 +97,20 @@ export default function AdvancedTrading({ walletAddress }: AdvancedTradingProps)
     gridSpacing: 2,
     basePrice: '2500',
     duration: 3600,
-    slices: 10
+    slices: 10,
+    lookbackPeriod: 14,
+    momentumThreshold: 2
   })
 
+  // Backtest state
+  const [backtestForm, setBacktestForm] = useState({
+    candles: '',
+    initialCapital: '10000',
+    slippageBps: '5'
+  })
+  const [backtestResult, setBacktestResult] = useState<BacktestResult | null>(null)
+  const [backtesting, setBacktesting] = useState(false)
+
   useEffect(() => {
     loadTradingData()
   }, [walletAddress])
@@ -247,6 +261,57 @@ export default function AdvancedTrading({ walletAddress }: AdvancedTradingProps)
     }
   }
 
+  const runBacktest = async () => {
+    if (!backtestForm.candles.trim()) {
+      alert('Paste or upload candle data (CSV or JSON) first')
+      return
+    }
+
+    try {
+      setBacktesting(true)
+      const response = await fetch('/api/advanced-trading', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: 'backtest',
+          type: algorithmForm.type,
+          candles: backtestForm.candles,
+          initialCapital: parseFloat(backtestForm.initialCapital),
+          slippage: { bps: parseFloat(backtestForm.slippageBps) || 0 },
+          parameters: {
+            interval: algorithmForm.interval,
+            amount: algorithmForm.amount,
+            maxOrders: algorithmForm.maxOrders,
+            gridLevels: algorithmForm.gridLevels,
+            gridSpacing: algorithmForm.gridSpacing,
+            basePrice: algorithmForm.basePrice || undefined,
+            lookbackPeriod: algorithmForm.lookbackPeriod,
+            momentumThreshold: algorithmForm.momentumThreshold
+          }
+        })
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        setBacktestResult(result.result)
+      } else {
+        alert(`Backtest failed: ${result.error}`)
+      }
+    } catch (error) {
+      console.error('Failed to run backtest:', error)
+      alert('Failed to run backtest')
+    } finally {
+      setBacktesting(false)
+    }
+  }
+
+  const loadCandleFile = (file: File) => {
+    const reader = new FileReader()
+    reader.onload = () => setBacktestForm(prev => ({ ...prev, candles: String(reader.result || '') }))
+    reader.readAsText(file)
+  }
+
   const cancelOrder = async (orderId: string) => {
     try {
       const response = await fetch('/api/advanced-trading', {
@@ -440,7 +505,8 @@ export default function AdvancedTrading({ walletAddress }: AdvancedTradingProps)
               { id: 'dashboard', label: 'Dashboard', icon: ChartBarIcon },
               { id: 'orders', label: 'Orders', icon: CurrencyDollarIcon, count: orders.length },
               { id: 'algorithms', label: 'Algorithms', icon: BoltIcon, count: algorithms.length },
-              { id: 'signals', label: 'Signals', icon: SignalIcon, count: signals.length }
+              { id: 'signals', label: 'Signals', icon: SignalIcon, count: signals.length },
+              { id: 'backtest', label: 'Backtest', icon: BeakerIcon }
             ].map((tab) => (
               <button
                 key={tab.id}
@@ -687,7 +753,7 @@ export default function AdvancedTrading({ walletAddress }: AdvancedTradingProps)
                 {algorithms.length > 0 ? (
                   algorithms.map((algorithm, index) => (
                     <motion.div
-                      key={index}
+                      key={algorithm.id}
                       initial={{ opacity: 0, y: 20 }}
                       animate={{ opacity: 1, y: 0 }}
                       transition={{ delay: index * 0.1 }}
@@ -709,7 +775,7 @@ export default function AdvancedTrading({ walletAddress }: AdvancedTradingProps)
                         <div className="flex items-center space-x-2">
                           {algorithm.status === AlgorithmStatus.ACTIVE && (
                             <button
-                              onClick={() => controlAlgorithm(index.toString(), 'pause')}
+                              onClick={() => controlAlgorithm(algorithm.id, 'pause')}
                               className="p-2 text-yellow-600 hover:bg-yellow-100 rounded-lg"
                             >
                               <PauseIcon className="w-4 h-4" />
@@ -717,14 +783,14 @@ export default function AdvancedTrading({ walletAddress }: AdvancedTradingProps)
                           )}
                           {algorithm.status === AlgorithmStatus.PAUSED && (
                             <button
-                              onClick={() => controlAlgorithm(index.toString(), 'resume')}
+                              onClick={() => controlAlgorithm(algorithm.id, 'resume')}
                               className="p-2 text-green-600 hover:bg-green-100 rounded-lg"
                             >
                               <PlayIcon className="w-4 h-4" />
                             </button>
                           )}
                           <button
-                            onClick={() => controlAlgorithm(index.toString(), 'stop')}
+                            onClick={() => controlAlgorithm(algorithm.id, 'stop')}
                             className="p-2 text-red-600 hover:bg-red-100 rounded-lg"
                           >
                             <StopIcon className="w-4 h-4" />
@@ -845,6 +911,284 @@ export default function AdvancedTrading({ walletAddress }: AdvancedTradingProps)
               </div>
             </div>
           )}
+
+          {selectedTab === 'backtest' && (
+            <div className="space-y-6">
+              <h3 className="text-lg font-semibold text-gray-900">Backtest Algorithm</h3>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Algorithm Type</label>
+                    <select
+                      value={algorithmForm.type}
+                      onChange={(e) => setAlgorithmForm(prev => ({ ...prev, type: e.target.value as AlgorithmType }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                    >
+                      <option value={AlgorithmType.DCA}>Dollar Cost Averaging</option>
+                      <option value={AlgorithmType.GRID}>Grid Trading</option>
+                      <option value={AlgorithmType.MOMENTUM}>Momentum</option>
+                      <option value={AlgorithmType.MEAN_REVERSION}>Mean Reversion</option>
+                    </select>
+                  </div>
+
+                  {algorithmForm.type === AlgorithmType.DCA && (
+                    <div className="grid grid-cols-3 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Interval (seconds)</label>
+                        <input
+                          type="number"
+                          value={algorithmForm.interval}
+                          onChange={(e) => setAlgorithmForm(prev => ({ ...prev, interval: parseInt(e.target.value) }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+                        <input
+                          type="number"
+                          value={algorithmForm.amount}
+                          onChange={(e) => setAlgorithmForm(prev => ({ ...prev, amount: e.target.value }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Max Orders</label>
+                        <input
+                          type="number"
+                          value={algorithmForm.maxOrders}
+                          onChange={(e) => setAlgorithmForm(prev => ({ ...prev, maxOrders: parseInt(e.target.value) }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {algorithmForm.type === AlgorithmType.GRID && (
+                    <div className="grid grid-cols-3 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Grid Levels</label>
+                        <input
+                          type="number"
+                          value={algorithmForm.gridLevels}
+                          onChange={(e) => setAlgorithmForm(prev => ({ ...prev, gridLevels: parseInt(e.target.value) }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Grid Spacing (%)</label>
+                        <input
+                          type="number"
+                          step="0.1"
+                          value={algorithmForm.gridSpacing}
+                          onChange={(e) => setAlgorithmForm(prev => ({ ...prev, gridSpacing: parseFloat(e.target.value) }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Base Price</label>
+                        <input
+                          type="number"
+                          value={algorithmForm.basePrice}
+                          onChange={(e) => setAlgorithmForm(prev => ({ ...prev, basePrice: e.target.value }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {algorithmForm.type === AlgorithmType.MOMENTUM && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Lookback (candles)</label>
+                        <input
+                          type="number"
+                          value={algorithmForm.lookbackPeriod}
+                          onChange={(e) => setAlgorithmForm(prev => ({ ...prev, lookbackPeriod: parseInt(e.target.value) }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Threshold (%)</label>
+                        <input
+                          type="number"
+                          step="0.1"
+                          value={algorithmForm.momentumThreshold}
+                          onChange={(e) => setAlgorithmForm(prev => ({ ...prev, momentumThreshold: parseFloat(e.target.value) }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Initial Capital</label>
+                      <input
+                        type="number"
+                        value={backtestForm.initialCapital}
+                        onChange={(e) => setBacktestForm(prev => ({ ...prev, initialCapital: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Slippage (bps)</label>
+                      <input
+                        type="number"
+                        value={backtestForm.slippageBps}
+                        onChange={(e) => setBacktestForm(prev => ({ ...prev, slippageBps: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <label className="block text-sm font-medium text-gray-700">Candles (CSV or JSON)</label>
+                    <label className="flex items-center space-x-1 text-sm text-purple-600 cursor-pointer hover:text-purple-700">
+                      <ArrowUpTrayIcon className="w-4 h-4" />
+                      <span>Upload</span>
+                      <input
+                        type="file"
+                        accept=".csv,.json,text/csv,application/json"
+                        className="hidden"
+                        onChange={(e) => e.target.files?.[0] && loadCandleFile(e.target.files[0])}
+                      />
+                    </label>
+                  </div>
+                  <textarea
+                    value={backtestForm.candles}
+                    onChange={(e) => setBacktestForm(prev => ({ ...prev, candles: e.target.value }))}
+                    placeholder="timestamp,open,high,low,close,volume"
+                    rows={10}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                  />
+                  <div className="flex justify-end">
+                    <button
+                      onClick={runBacktest}
+                      disabled={backtesting}
+                      className="flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+                    >
+                      <PlayIcon className="w-4 h-4" />
+                      <span>{backtesting ? 'Running...' : 'Run Backtest'}</span>
+                    </button>
+                  </div>
+                </div>
+              </div>
+
+              {backtestResult && (
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="space-y-4"
+                >
+                  <div className="text-sm text-gray-600">
+                    {backtestResult.type.toUpperCase()} over {backtestResult.candleCount} candles,{' '}
+                    {new Date(backtestResult.startTime).toLocaleDateString()} - {new Date(backtestResult.endTime).toLocaleDateString()}
+                  </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="text-center p-3 bg-gray-50 rounded-lg">
+                      <div className={`text-lg font-bold ${
+                        backtestResult.performance.totalReturnPercent >= 0 ? 'text-green-600' : 'text-red-600'
+                      }`}>
+                        {formatPercent(backtestResult.performance.totalReturnPercent)}
+                      </div>
+                      <div className="text-sm text-gray-600">Total Return</div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        Buy & hold {formatPercent(backtestResult.benchmarkReturnPercent)}
+                      </div>
+                    </div>
+                    <div className="text-center p-3 bg-gray-50 rounded-lg">
+                      <div className="text-lg font-bold text-gray-900">{backtestResult.performance.sharpeRatio.toFixed(2)}</div>
+                      <div className="text-sm text-gray-600">Sharpe Ratio</div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        Sortino {backtestResult.performance.sortinoRatio.toFixed(2)}
+                      </div>
+                    </div>
+                    <div className="text-center p-3 bg-gray-50 rounded-lg">
+                      <div className="text-lg font-bold text-red-600">
+                        {formatPercent(-backtestResult.riskMetrics.maxDrawdown)}
+                      </div>
+                      <div className="text-sm text-gray-600">Max Drawdown</div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        Volatility {formatPercent(backtestResult.riskMetrics.volatility)}
+                      </div>
+                    </div>
+                    <div className="text-center p-3 bg-gray-50 rounded-lg">
+                      <div className="text-lg font-bold text-gray-900">{backtestResult.performance.winRate.toFixed(1)}%</div>
+                      <div className="text-sm text-gray-600">Win Rate</div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        {backtestResult.performance.totalTrades} closed trades
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    <div className="p-3 border border-gray-200 rounded-lg">
+                      <div className="text-gray-600">Final Equity</div>
+                      <div className="font-semibold text-gray-900">{formatCurrency(backtestResult.finalEquity)}</div>
+                    </div>
+                    <div className="p-3 border border-gray-200 rounded-lg">
+                      <div className="text-gray-600">Profit Factor</div>
+                      <div className="font-semibold text-gray-900">{backtestResult.performance.profitFactor.toFixed(2)}</div>
+                    </div>
+                    <div className="p-3 border border-gray-200 rounded-lg">
+                      <div className="text-gray-600">VaR (95%)</div>
+                      <div className="font-semibold text-gray-900">{formatPercent(backtestResult.riskMetrics.var95)}</div>
+                    </div>
+                    <div className="p-3 border border-gray-200 rounded-lg">
+                      <div className="text-gray-600">Fees Paid</div>
+                      <div className="font-semibold text-gray-900">
+                        {formatCurrency(backtestResult.trades.reduce((sum, trade) => sum + trade.fee, 0))}
+                      </div>
+                    </div>
+                  </div>
+
+                  {backtestResult.trades.length > 0 && (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-600 border-b border-gray-200">
+                            <th className="py-2 pr-4">Time</th>
+                            <th className="py-2 pr-4">Side</th>
+                            <th className="py-2 pr-4">Price</th>
+                            <th className="py-2 pr-4">Quantity</th>
+                            <th className="py-2 pr-4">Fee</th>
+                            <th className="py-2 pr-4">P&L</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {backtestResult.trades.slice(-50).map((trade, index) => (
+                            <tr key={`${trade.timestamp}-${index}`} className="border-b border-gray-100">
+                              <td className="py-2 pr-4 text-gray-600">{new Date(trade.timestamp).toLocaleString()}</td>
+                              <td className={`py-2 pr-4 font-medium ${
+                                trade.side === OrderSide.BUY ? 'text-green-600' : 'text-red-600'
+                              }`}>
+                                {trade.side.toUpperCase()}
+                              </td>
+                              <td className="py-2 pr-4">{formatCurrency(trade.price)}</td>
+                              <td className="py-2 pr-4">{trade.quantity.toFixed(6)}</td>
+                              <td className="py-2 pr-4">{formatCurrency(trade.fee)}</td>
+                              <td className={`py-2 pr-4 ${
+                                trade.pnl === undefined ? 'text-gray-400' : trade.pnl >= 0 ? 'text-green-600' : 'text-red-600'
+                              }`}>
+                                {trade.pnl === undefined ? '-' : formatCurrency(trade.pnl)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      {backtestResult.trades.length > 50 && (
+                        <p className="text-xs text-gray-500 mt-2">Showing the last 50 of {backtestResult.trades.length} trades</p>
+                      )}
+                    </div>
+                  )}
+                </motion.div>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -1,20 +1,81 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { motion } from 'framer-motion'
+import { EXCHANGE_STATUS_LABELS, TERMINAL_EXCHANGE_STATUSES } from '@/lib/changenow'
+import type { ChangeNowStatus } from '@/lib/changenow'
+
+// Row of GET /api/changenow/exchanges
+interface ExchangeHistoryItem {
+  id: string
+  fromCurrency: string
+  toCurrency: string
+  fromAmount: number
+  expectedReceiveAmount: number | null
+  amountReceived: number | null
+  payinAddress: string | null
+  // 'creating' until ChangeNOW has confirmed the exchange; the id is a placeholder until then
+  status: ChangeNowStatus | 'creating'
+  lastError: string | null
+  createdAt: string
+}
+
+const HISTORY_REFRESH_INTERVAL = 30000
+
+const STATUS_STYLES: Record<ExchangeHistoryItem['status'], string> = {
+  creating: 'bg-yellow-500/20 text-yellow-300',
+  new: 'bg-gray-500/20 text-gray-300',
+  waiting: 'bg-yellow-500/20 text-yellow-300',
+  confirming: 'bg-blue-500/20 text-blue-300',
+  exchanging: 'bg-blue-500/20 text-blue-300',
+  sending: 'bg-blue-500/20 text-blue-300',
+  verifying: 'bg-yellow-500/20 text-yellow-300',
+  finished: 'bg-green-500/20 text-green-300',
+  failed: 'bg-red-500/20 text-red-300',
+  refunded: 'bg-purple-500/20 text-purple-300',
+  expired: 'bg-gray-500/20 text-gray-400'
+}
 
 interface ChangeNowWidgetProps {
   apiKey?: string
   referralCode?: string
   className?: string
+  showHistory?: boolean
 }
 
 export function ChangeNowWidget({ 
   apiKey, 
   referralCode, 
-  className = "" 
+  className = "",
+  showHistory = true
 }: ChangeNowWidgetProps) {
   const [isLoaded, setIsLoaded] = useState(false)
+  const [history, setHistory] = useState<ExchangeHistoryItem[]>([])
+
+  const loadHistory = useCallback(async () => {
+    try {
+      const response = await fetch('/api/changenow/exchanges')
+      if (!response.ok) return // Signed out users have no history
+      const data = await response.json()
+      setHistory(data.exchanges || [])
+    } catch (error) {
+      console.error('Failed to load exchange history:', error)
+    }
+  }, [])
+
+  // Statuses are advanced by the server-side poller; refresh while any exchange is still open
+  const hasOpenExchanges = history.some(item => item.status === 'creating' || !TERMINAL_EXCHANGE_STATUSES.includes(item.status))
+
+  useEffect(() => {
+    if (!showHistory) return
+    loadHistory()
+  }, [showHistory, loadHistory])
+
+  useEffect(() => {
+    if (!showHistory || !hasOpenExchanges) return
+    const timer = setInterval(loadHistory, HISTORY_REFRESH_INTERVAL)
+    return () => clearInterval(timer)
+  }, [showHistory, hasOpenExchanges, loadHistory])
 
   useEffect(() => {
     // Load ChangeNOW widget script
@@ -64,6 +125,32 @@ export function ChangeNowWidget({
         )}
       </div>
 
+      {showHistory && history.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-sm font-semibold text-white mb-2">Your exchanges</h4>
+          <ul className="divide-y divide-white/10 rounded-lg bg-white/5">
+            {history.map(item => (
+              <li key={item.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                <div>
+                  <div className="text-white">
+                    {item.fromAmount} {item.fromCurrency.toUpperCase()} → {item.amountReceived ?? item.expectedReceiveAmount ?? '?'} {item.toCurrency.toUpperCase()}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(item.createdAt).toLocaleString()}{item.status !== 'creating' && ` · ${item.id}`}
+                  </div>
+                  {item.status === 'creating' && item.lastError && (
+                    <div className="text-xs text-yellow-400">Not confirmed by ChangeNOW yet: {item.lastError}</div>
+                  )}
+                </div>
+                <span className={`rounded-full px-2 py-0.5 text-xs ${STATUS_STYLES[item.status] ?? STATUS_STYLES.new}`}>
+                  {item.status === 'creating' ? 'Awaiting confirmation' : EXCHANGE_STATUS_LABELS[item.status] ?? item.status}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="mt-4 text-xs text-gray-500">
         <p>• Fixed exchange rates guaranteed for 15 minutes</p>
         <p>• No hidden fees • Anonymous transactions</p>
@@ -4,6 +4,9 @@ import React, { useState, useEffect, useCallback } from 'react'
 import { ArrowUpDown, Clock, Zap, AlertTriangle, CheckCircle, ExternalLink, RefreshCw } from 'lucide-react'
 import { DEXAggregator, CrossChainSwapParams, CrossChainSwapResult } from '@/lib/dex/aggregator'
 import { Token } from '@/lib/dex/index'
+import { useWallet } from '@/contexts/WalletContext'
+import { useDEXTrading, TradePreview } from '@/hooks/useDEXTrading'
+import TransactionPreview from '@/components/web3/TransactionPreview'
 
 interface CrossChainSwapProps {
   onSwapComplete?: (result: CrossChainSwapResult) => void
@@ -30,7 +33,7 @@ const SUPPORTED_CHAINS: ChainConfig[] = [
 const POPULAR_TOKENS: { [chainId: number]: Token[] } = {
   1: [
     { address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', symbol: 'WETH', name: 'Wrapped Ether', decimals: 18, chainId: 1 },
-    { address: '0xA0b86a33E6417c4c6b8c4c6b8c4c6b8c4c6b8c4c', symbol: 'USDC', name: 'USD Coin', decimals: 6, chainId: 1 }
+    { address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', symbol: 'USDC', name: 'USD Coin', decimals: 6, chainId: 1 }
   ],
   56: [
     { address: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c', symbol: 'WBNB', name: 'Wrapped BNB', decimals: 18, chainId: 56 },
@@ -139,6 +142,8 @@ const Progress = ({ value, className = '' }: { value: number, className?: string
 
 export default function CrossChainSwap({ onSwapComplete, className }: CrossChainSwapProps) {
   const [dexAggregator] = useState(() => new DEXAggregator())
+  const { connectedWallet } = useWallet()
+  const { previewTrade } = useDEXTrading()
   
   // Form state
   const [fromChain, setFromChain] = useState<number>(1)
@@ -158,6 +163,8 @@ export default function CrossChainSwap({ onSwapComplete, className }: CrossChain
   // Execution tracking
   const [isExecuting, setIsExecuting] = useState(false)
   const [executionResult, setExecutionResult] = useState<CrossChainSwapResult | null>(null)
+  const [preview, setPreview] = useState<TradePreview | null>(null)
+  const [isPreviewing, setIsPreviewing] = useState(false)
 
   // Initialize default tokens
   useEffect(() => {
@@ -179,6 +186,7 @@ export default function CrossChainSwap({ onSwapComplete, className }: CrossChain
 
     setIsLoading(true)
     setError(null)
+    setPreview(null)
 
     try {
       const params: CrossChainSwapParams = {
@@ -206,6 +214,34 @@ export default function CrossChainSwap({ onSwapComplete, className }: CrossChain
     }
   }, [fromToken, toToken, amountIn, slippage, fromChain, toChain, prioritizeSpeed, dexAggregator])
 
+  // The source-chain swap into the bridge token is the first transaction the wallet would sign
+  const sourceSwapToken = quote?.bridgeToken && fromToken &&
+    quote.bridgeToken.address.toLowerCase() !== fromToken.address.toLowerCase() ? quote.bridgeToken : null
+
+  const handlePreview = async () => {
+    if (!connectedWallet || !fromToken || !sourceSwapToken) return
+
+    if (connectedWallet.chainId !== fromChain) {
+      setError(`Switch your wallet to ${SUPPORTED_CHAINS.find(chain => chain.chainId === fromChain)?.name} to preview this swap`)
+      return
+    }
+
+    setIsPreviewing(true)
+    setError(null)
+    const result = await previewTrade({
+      tokenIn: fromToken,
+      tokenOut: sourceSwapToken,
+      amountIn,
+      slippageTolerance: slippage * 100,
+      walletAddress: connectedWallet.address
+    })
+    if (!result) {
+      setError('Failed to simulate the source swap')
+    }
+    setPreview(result)
+    setIsPreviewing(false)
+  }
+
   const handleSwapChains = () => {
     const tempChain = fromChain
     const tempToken = fromToken
@@ -389,6 +425,16 @@ export default function CrossChainSwap({ onSwapComplete, className }: CrossChain
                 </div>
               </div>
               
+              {sourceSwapToken && connectedWallet && !preview && (
+                <Button variant="outline" className="w-full" onClick={handlePreview} disabled={isPreviewing}>
+                  {isPreviewing ? 'Simulating...' : `Preview ${fromToken?.symbol} → ${sourceSwapToken.symbol} swap`}
+                </Button>
+              )}
+
+              {preview && (
+                <TransactionPreview preview={preview} onCancel={() => setPreview(null)} />
+              )}
+
               {comparison && (
                 <div className="p-4 border rounded-lg">
                   <h4 className="font-medium mb-2">Recommendation</h4>
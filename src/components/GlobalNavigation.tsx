@@ -13,7 +13,6 @@ import {
   ArrowsRightLeftIcon,
   UserIcon,
   Cog6ToothIcon,
-  BellIcon,
   ArrowRightOnRectangleIcon,
   BuildingLibraryIcon,
   WalletIcon,
@@ -38,6 +37,7 @@ import {
   BuildingLibraryIcon as BuildingLibrarySolidIcon,
   PresentationChartLineIcon as PresentationChartLineSolidIcon
 } from '@heroicons/react/24/solid'
+import { NotificationInbox } from '@/components/notifications/NotificationInbox'
 
 interface NavigationProps {
   variant?: 'hero' | 'standard'
@@ -265,11 +265,7 @@ export function GlobalNavigation({ variant = 'standard' }: NavigationProps) {
             ) : session ? (
               <>
                 {/* Notifications */}
-                <button className="p-2 text-gray-300 hover:text-white hover:bg-white/10 rounded-lg transition-all duration-200 relative">
-                  <BellIcon className="w-5 h-5" />
-                  {/* Notification badge */}
-                  <span className="absolute -top-1 -right-1 h-3 w-3 bg-red-500 rounded-full border-2 border-slate-900"></span>
-                </button>
+                <NotificationInbox />
 
                 {/* Profile Dropdown */}
                 <div className="relative group">
@@ -727,6 +727,7 @@ export function RealTimePortfolio({ className = "" }: RealTimePortfolioProps) {
             <h4 className="text-lg font-semibold text-white mb-4">Volume Analysis</h4>
             <VolumeChart
               priceHistory={[]}
+              symbol={selectedAsset}
               theme="dark"
             />
           </div>
@@ -108,7 +108,7 @@ export default function RealTimeTrading() {
     const addresses: { [key: string]: { [symbol: string]: string } } = {
       'Ethereum': {
         'ETH': '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', // WETH
-        'USDC': '0xA0b86a33E6417c4c6b8c4c6b8c4c6b8c4c6b8c4c',
+        'USDC': '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
         'USDT': '0xdAC17F958D2ee523a2206206994597C13D831ec7'
       },
       'BSC': {
@@ -195,7 +195,7 @@ export default function RealTimeTrading() {
         walletAddress: tradingData.walletAddress
       }
 
-      // Note: This will show a message about wallet connection in real implementation
+      // Signed in the connected wallet; the server only receives the broadcast hash
       const result = await executeTrade(tradeParams)
       
       if (result.hash) {
@@ -204,6 +204,8 @@ export default function RealTimeTrading() {
           fetchTradingData()
           setTradeStatus('idle')
         }, 3000)
+      } else {
+        setTradeStatus('error')
       }
     } catch (error) {
       console.error('Trade execution failed:', error)
@@ -504,6 +506,19 @@ export default function RealTimeTrading() {
                   <span className="ml-1 text-gray-200">{parseFloat(bestRoute.bestQuote.minimumAmountOut).toFixed(6)}</span>
                 </div>
               </div>
+              {bestRoute.routes?.length > 0 && (
+                <div className="mt-2 space-y-1 text-xs">
+                  {bestRoute.routes.map((route, index) => (
+                    <div key={index} className="flex items-center justify-between text-gray-300">
+                      <span>
+                        {route.path.map(token => token.symbol).join(' → ')}
+                        <span className="ml-1 text-gray-500">({route.fees.map(fee => `${fee / 10000}%`).join(', ')})</span>
+                      </span>
+                      <span className="text-gray-400">{route.percentage.toFixed(0)}%</span>
+                    </div>
+                  ))}
+                </div>
+              )}
               {bestRoute.savingsPercentage > 0 && (
                 <div className="mt-2 text-xs text-green-400">
                   💰 Saving {bestRoute.savingsPercentage.toFixed(2)}% vs other DEXs
@@ -0,0 +1,90 @@
+'use client'
+
+import { useState } from 'react'
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline'
+
+const CURRENT_YEAR = new Date().getUTCFullYear()
+const YEARS = Array.from({ length: 6 }, (_, index) => CURRENT_YEAR - index)
+
+export function TaxReportDownload() {
+  const [year, setYear] = useState(CURRENT_YEAR - 1)
+  const [jurisdiction, setJurisdiction] = useState<'US' | 'UK'>('US')
+  const [format, setFormat] = useState<'csv' | 'json'>('csv')
+  const [downloading, setDownloading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const download = async () => {
+    setDownloading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ year: String(year), jurisdiction, format })
+      const response = await fetch(`/api/reports/tax?${params}`)
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to generate tax report')
+      }
+
+      const blob = format === 'csv'
+        ? await response.blob()
+        : new Blob([JSON.stringify((await response.json()).report, null, 2)], { type: 'application/json' })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `tax-report-${jurisdiction}-${year}.${format}`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate tax report')
+    } finally {
+      setDownloading(false)
+    }
+  }
+
+  const selectClassName = 'bg-transparent text-sm text-white px-2 py-2 rounded focus:outline-none [&>option]:bg-gray-800'
+
+  return (
+    <div className="flex flex-col items-start gap-1">
+      <div className="flex items-center gap-1 bg-white/10 p-1 rounded-lg backdrop-blur-sm ring-1 ring-white/20">
+        <select
+          value={year}
+          onChange={(e) => setYear(Number(e.target.value))}
+          className={selectClassName}
+          aria-label="Tax year"
+        >
+          {YEARS.map(option => (
+            <option key={option} value={option}>
+              {jurisdiction === 'UK' ? `${option}/${String((option + 1) % 100).padStart(2, '0')}` : option}
+            </option>
+          ))}
+        </select>
+        <select
+          value={jurisdiction}
+          onChange={(e) => setJurisdiction(e.target.value as 'US' | 'UK')}
+          className={selectClassName}
+          aria-label="Jurisdiction"
+        >
+          <option value="US">US (8949)</option>
+          <option value="UK">UK (pooling)</option>
+        </select>
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as 'csv' | 'json')}
+          className={selectClassName}
+          aria-label="Format"
+        >
+          <option value="csv">CSV</option>
+          <option value="json">JSON</option>
+        </select>
+        <button
+          onClick={download}
+          disabled={downloading}
+          className="flex items-center gap-2 px-3 py-2 rounded text-sm bg-white/20 text-white hover:bg-white/30 transition-colors disabled:opacity-50"
+        >
+          <ArrowDownTrayIcon className="h-4 w-4" />
+          {downloading ? 'Generating...' : 'Tax Report'}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  )
+}
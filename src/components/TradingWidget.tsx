@@ -3,6 +3,12 @@
 import { useState, useEffect, useCallback } from 'react'
 import { motion } from 'framer-motion'
 import { ArrowsUpDownIcon } from '@heroicons/react/24/outline'
+import { useWallet } from '@/contexts/WalletContext'
+import { useDEXTrading, TradePreview } from '@/hooks/useDEXTrading'
+import TransactionPreview from '@/components/web3/TransactionPreview'
+import GasFeeSelector from '@/components/web3/GasFeeSelector'
+import { Token } from '@/lib/dex/index'
+import type { GasTier } from '@/lib/dex/gas-oracle'
 
 const popularPairs = [
   { from: 'BTC', to: 'USDT', rate: '97,434' },
@@ -11,13 +17,25 @@ const popularPairs = [
   { from: 'ADA', to: 'USDT', rate: '1.23' },
 ]
 
+// Native coins trade on DEXes through their wrapped tokens
+const WRAPPED_SYMBOLS: { [symbol: string]: string } = {
+  ETH: 'WETH',
+  BNB: 'WBNB'
+}
+
 export function TradingWidget() {
+  const { connectedWallet } = useWallet()
+  const { previewTrade, executeTrade, getSupportedTokens, error: tradeError } = useDEXTrading()
+  const [tradeTokens, setTradeTokens] = useState<Token[]>([])
+  const [preview, setPreview] = useState<TradePreview | null>(null)
+  const [isExecuting, setIsExecuting] = useState(false)
   const [fromCurrency, setFromCurrency] = useState('BTC')
   const [toCurrency, setToCurrency] = useState('USDT')
   const [amount, setAmount] = useState('')
   const [rates, setRates] = useState<{ [key: string]: number }>({})
   const [receivedAmount, setReceivedAmount] = useState('')
   const [isLoading, setIsLoading] = useState(false)
+  const [gasTier, setGasTier] = useState<GasTier>('standard')
 
   const fetchRates = async () => {
     try {
@@ -61,10 +79,37 @@ export function TradingWidget() {
     return () => clearInterval(interval)
   }, [])
 
+  // Start from the signed-in user's saved gas preference
+  useEffect(() => {
+    fetch('/api/preferences')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (data?.preferences?.trading?.gasPreference) {
+          setGasTier(data.preferences.trading.gasPreference)
+        }
+      })
+      .catch(() => {})
+  }, [])
+
   useEffect(() => {
     calculateReceiveAmount()
   }, [calculateReceiveAmount])
 
+  useEffect(() => {
+    if (!connectedWallet) {
+      setTradeTokens([])
+      return
+    }
+    getSupportedTokens(connectedWallet.chainId).then(setTradeTokens)
+  }, [connectedWallet, getSupportedTokens])
+
+  useEffect(() => {
+    setPreview(null)
+  }, [amount, fromCurrency, toCurrency, connectedWallet, gasTier])
+
+  const findTradeToken = (symbol: string) =>
+    tradeTokens.find(token => token.symbol === (WRAPPED_SYMBOLS[symbol] || symbol))
+
   const getExchangeRate = () => {
     if (!rates[fromCurrency] || !rates[toCurrency]) {
       return 'Loading...'
@@ -91,6 +136,23 @@ export function TradingWidget() {
     e.preventDefault()
     if (!amount || !receivedAmount) return
 
+    // Pairs the connected wallet can swap on-chain are simulated and previewed before signing
+    const tokenIn = findTradeToken(fromCurrency)
+    const tokenOut = findTradeToken(toCurrency)
+    if (connectedWallet && tokenIn && tokenOut) {
+      setIsLoading(true)
+      setPreview(await previewTrade({
+        tokenIn,
+        tokenOut,
+        amountIn: amount,
+        slippageTolerance: 50,
+        gasPreference: gasTier,
+        walletAddress: connectedWallet.address
+      }))
+      setIsLoading(false)
+      return
+    }
+
     setIsLoading(true)
     setTimeout(() => {
       alert(`Exchange submitted: ${amount} ${fromCurrency} → ${receivedAmount} ${toCurrency}`)
@@ -98,6 +160,25 @@ export function TradingWidget() {
     }, 2000)
   }
 
+  const handleConfirm = async () => {
+    if (!connectedWallet || !preview) return
+
+    setIsExecuting(true)
+    const result = await executeTrade({
+      tokenIn: findTradeToken(fromCurrency)!,
+      tokenOut: findTradeToken(toCurrency)!,
+      amountIn: amount,
+      slippageTolerance: 50,
+      gasPreference: gasTier,
+      walletAddress: connectedWallet.address
+    })
+    setIsExecuting(false)
+    setPreview(null)
+    if (result.hash) {
+      alert(`Swap submitted: ${result.hash}`)
+    }
+  }
+
   return (
     <div className="mx-auto max-w-7xl px-6 lg:px-8">
       <div className="mx-auto max-w-2xl text-center">
@@ -192,9 +273,32 @@ export function TradingWidget() {
               </div>
             </div>
 
+            {connectedWallet && (
+              <GasFeeSelector
+                chainId={connectedWallet.chainId}
+                tier={gasTier}
+                onTierChange={setGasTier}
+                gasUnits={preview?.transactions.gasEstimate}
+                disabled={isExecuting}
+              />
+            )}
+
+            {preview && (
+              <TransactionPreview
+                preview={preview}
+                isSubmitting={isExecuting}
+                onConfirm={handleConfirm}
+                onCancel={() => setPreview(null)}
+              />
+            )}
+
+            {tradeError && (
+              <p className="text-sm text-red-400">{tradeError}</p>
+            )}
+
             <button
               type="submit"
-              disabled={isLoading || !amount || !receivedAmount}
+              disabled={isLoading || isExecuting || !amount || !receivedAmount}
               className="w-full rounded-xl bg-gradient-to-r from-blue-500 to-emerald-500 px-6 py-3 text-sm font-semibold text-white shadow-sm hover:from-blue-400 hover:to-emerald-400 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-blue-500 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {isLoading ? (
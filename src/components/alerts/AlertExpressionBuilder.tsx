@@ -0,0 +1,232 @@
+'use client'
+
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+import {
+  AlertConditionNode,
+  AlertExpression,
+  AlertOperator,
+  AlertSubject,
+  AlertType
+} from '@/types/price-alerts'
+import { MAX_EXPRESSION_DEPTH, SUBJECT_CONDITION_TYPES } from '@/lib/alert-expressions'
+
+interface AlertExpressionBuilderProps {
+  value: AlertExpression
+  onChange: (value: AlertExpression) => void
+  onRemove?: () => void
+  depth?: number
+}
+
+const SUBJECT_LABELS: Record<AlertSubject['kind'], string> = {
+  asset: 'Asset',
+  ratio: 'Ratio',
+  portfolio: 'Portfolio',
+  defi_health: 'DeFi health factor'
+}
+
+const TYPE_LABELS: Record<AlertType, string> = {
+  price_threshold: 'Level',
+  price_change: 'Change %',
+  volume_spike: 'Volume vs avg %',
+  market_cap_change: 'Market cap change %',
+  volatility: 'Volatility %'
+}
+
+const TIMEFRAMES = ['15m', '1h', '4h', '24h', '7d']
+
+const inputClass = 'px-2 py-1.5 bg-white/5 border border-white/20 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export const newCondition = (): AlertConditionNode => ({
+  kind: 'condition',
+  subject: { kind: 'asset', symbol: 'BTC' },
+  type: 'price_threshold',
+  operator: 'LT',
+  value: 0
+})
+
+function defaultSubject(kind: AlertSubject['kind']): AlertSubject {
+  switch (kind) {
+    case 'asset':
+      return { kind, symbol: 'BTC' }
+    case 'ratio':
+      return { kind, base: 'ETH', quote: 'BTC' }
+    default:
+      return { kind }
+  }
+}
+
+function ConditionEditor({ value, onChange }: { value: AlertConditionNode; onChange: (value: AlertConditionNode) => void }) {
+  const { subject } = value
+  const types = SUBJECT_CONDITION_TYPES[subject.kind]
+
+  const setSubject = (next: AlertSubject) => {
+    const allowed = SUBJECT_CONDITION_TYPES[next.kind]
+    onChange({ ...value, subject: next, type: allowed.includes(value.type) ? value.type : allowed[0] })
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={subject.kind}
+        onChange={(e) => setSubject(defaultSubject(e.target.value as AlertSubject['kind']))}
+        className={inputClass}
+      >
+        {Object.entries(SUBJECT_LABELS).map(([kind, label]) => (
+          <option key={kind} value={kind}>{label}</option>
+        ))}
+      </select>
+
+      {subject.kind === 'asset' && (
+        <input
+          value={subject.symbol}
+          onChange={(e) => setSubject({ ...subject, symbol: e.target.value.toUpperCase() })}
+          placeholder="BTC"
+          className={`${inputClass} w-20 font-mono`}
+        />
+      )}
+
+      {subject.kind === 'ratio' && (
+        <>
+          <input
+            value={subject.base}
+            onChange={(e) => setSubject({ ...subject, base: e.target.value.toUpperCase() })}
+            placeholder="ETH"
+            className={`${inputClass} w-20 font-mono`}
+          />
+          <span className="text-gray-400">/</span>
+          <input
+            value={subject.quote}
+            onChange={(e) => setSubject({ ...subject, quote: e.target.value.toUpperCase() })}
+            placeholder="BTC"
+            className={`${inputClass} w-20 font-mono`}
+          />
+        </>
+      )}
+
+      <select
+        value={value.type}
+        onChange={(e) => onChange({ ...value, type: e.target.value as AlertType })}
+        className={inputClass}
+      >
+        {types.map(type => (
+          <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+        ))}
+      </select>
+
+      {value.type !== 'price_threshold' && (
+        <select
+          value={value.timeframe || ''}
+          onChange={(e) => onChange({ ...value, timeframe: e.target.value || undefined })}
+          className={inputClass}
+        >
+          <option value="">Default</option>
+          {TIMEFRAMES.map(timeframe => (
+            <option key={timeframe} value={timeframe}>{timeframe}</option>
+          ))}
+        </select>
+      )}
+
+      <select
+        value={value.operator}
+        onChange={(e) => onChange({ ...value, operator: e.target.value as AlertOperator })}
+        className={inputClass}
+      >
+        <option value="GT">&gt;</option>
+        <option value="LT">&lt;</option>
+        <option value="EQ">=</option>
+      </select>
+
+      <input
+        type="number"
+        step="any"
+        value={Number.isFinite(value.value) ? value.value : ''}
+        onChange={(e) => onChange({ ...value, value: parseFloat(e.target.value) })}
+        className={`${inputClass} w-28`}
+      />
+    </div>
+  )
+}
+
+export function AlertExpressionBuilder({ value, onChange, onRemove, depth = 0 }: AlertExpressionBuilderProps) {
+  if (value.kind === 'condition') {
+    return (
+      <div className="flex items-center justify-between gap-2 rounded-lg bg-white/5 p-2">
+        <ConditionEditor value={value} onChange={onChange} />
+        {onRemove && (
+          <button type="button" onClick={onRemove} className="p-1.5 text-red-400 hover:bg-red-500/10 rounded-lg" title="Remove condition">
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    )
+  }
+
+  const setChild = (index: number, child: AlertExpression) =>
+    onChange({ ...value, children: value.children.map((existing, i) => (i === index ? child : existing)) })
+  const removeChild = (index: number) => {
+    const children = value.children.filter((_, i) => i !== index)
+    // A group left with one child collapses into it
+    onChange(children.length === 1 && depth > 0 ? children[0] : { ...value, children })
+  }
+  const addChild = (child: AlertExpression) => onChange({ ...value, children: [...value.children, child] })
+
+  return (
+    <div className={`space-y-2 rounded-lg p-3 ${depth > 0 ? 'border border-white/10' : ''}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex rounded-lg bg-white/5 p-0.5 text-xs">
+          {(['AND', 'OR'] as const).map(logic => (
+            <button
+              key={logic}
+              type="button"
+              onClick={() => onChange({ ...value, logic })}
+              className={`px-3 py-1 rounded-md transition-colors ${value.logic === logic ? 'bg-blue-500 text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              {logic === 'AND' ? 'All of' : 'Any of'}
+            </button>
+          ))}
+        </div>
+        {onRemove && (
+          <button type="button" onClick={onRemove} className="p-1.5 text-red-400 hover:bg-red-500/10 rounded-lg" title="Remove group">
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {value.children.map((child, index) => (
+        <div key={index} className="flex items-start gap-2">
+          {index > 0 && <span className="mt-2 w-8 text-xs font-semibold text-gray-400">{value.logic}</span>}
+          {index === 0 && <span className="w-8" />}
+          <div className="flex-1">
+            <AlertExpressionBuilder
+              value={child}
+              onChange={(next) => setChild(index, next)}
+              onRemove={value.children.length > 1 ? () => removeChild(index) : undefined}
+              depth={depth + 1}
+            />
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2 pl-10">
+        <button
+          type="button"
+          onClick={() => addChild(newCondition())}
+          className="flex items-center gap-1 px-2 py-1 text-xs text-blue-400 hover:bg-blue-500/10 rounded-lg"
+        >
+          <PlusIcon className="w-3 h-3" />
+          Condition
+        </button>
+        {depth < MAX_EXPRESSION_DEPTH - 1 && (
+          <button
+            type="button"
+            onClick={() => addChild({ kind: 'group', logic: value.logic === 'AND' ? 'OR' : 'AND', children: [newCondition(), newCondition()] })}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-purple-400 hover:bg-purple-500/10 rounded-lg"
+          >
+            <PlusIcon className="w-3 h-3" />
+            Group
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
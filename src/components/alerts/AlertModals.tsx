@@ -18,8 +18,11 @@ import {
   AlertType, 
   AlertOperator, 
   AlertFrequency,
-  PriceAlertPreferences 
+  PriceAlertPreferences,
+  AlertExpression
 } from '@/types/price-alerts'
+import { AlertExpressionError, describeAlertExpression, parseAlertExpression } from '@/lib/alert-expressions'
+import { AlertExpressionBuilder, newCondition } from './AlertExpressionBuilder'
 
 interface CreateAlertModalProps {
   isOpen: boolean
@@ -176,6 +179,100 @@ export function CreateAlertModal({ isOpen, onClose, onSubmit, loading }: CreateA
   )
 }
 
+interface CompositeAlertModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSubmit: (alertData: Partial<PriceAlert>) => void
+  loading?: boolean
+}
+
+export function CompositeAlertModal({ isOpen, onClose, onSubmit, loading }: CompositeAlertModalProps) {
+  const [name, setName] = useState('')
+  const [expression, setExpression] = useState<AlertExpression>({
+    kind: 'group',
+    logic: 'AND',
+    children: [
+      { ...newCondition(), value: 60000 },
+      { kind: 'condition', subject: { kind: 'ratio', base: 'ETH', quote: 'BTC' }, type: 'price_threshold', operator: 'GT', value: 0.06 }
+    ]
+  })
+  const [errors, setErrors] = useState<string[]>([])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      const parsed = parseAlertExpression(expression)
+      setErrors([])
+      onSubmit({ name: name || describeAlertExpression(parsed), expression: parsed, emailEnabled: true, browserEnabled: true, priority: 'high' })
+    } catch (error) {
+      setErrors(error instanceof AlertExpressionError ? error.errors : ['Invalid alert expression'])
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <AnimatePresence>
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.95 }}
+          className="bg-gray-900 rounded-xl border border-white/10 w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+        >
+          <div className="p-6 border-b border-white/10">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-bold text-white">Create Composite Alert</h2>
+              <button onClick={onClose} className="p-2 text-gray-400 hover:text-white transition-colors">
+                <XMarkIcon className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-6 space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">Alert Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="BTC dip while ETH outperforms"
+                className="w-full px-3 py-2 bg-white/5 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">Conditions</label>
+              <AlertExpressionBuilder value={expression} onChange={setExpression} />
+              <p className="mt-2 text-xs text-gray-500 font-mono">{describeAlertExpression(expression)}</p>
+            </div>
+
+            {errors.length > 0 && (
+              <ul className="rounded-lg bg-red-500/10 border border-red-500/20 p-3 text-sm text-red-300 space-y-1">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+
+            <div className="flex items-center justify-end space-x-4 pt-6 border-t border-white/10">
+              <button type="button" onClick={onClose} className="px-4 py-2 text-gray-400 hover:text-white transition-colors">
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-6 py-2 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-500/50 text-white rounded-lg transition-colors flex items-center space-x-2"
+              >
+                {loading && <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white" />}
+                <span>{loading ? 'Creating...' : 'Create Alert'}</span>
+              </button>
+            </div>
+          </form>
+        </motion.div>
+      </div>
+    </AnimatePresence>
+  )
+}
+
 interface TemplateModalProps {
   isOpen: boolean
   onClose: () => void
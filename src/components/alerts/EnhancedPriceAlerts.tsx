@@ -33,7 +33,8 @@ import {
   AlertFrequency 
 } from '@/types/price-alerts'
 import { useNotify } from '@/components/notifications'
-import { CreateAlertModal, TemplateModal, PreferencesModal } from './AlertModals'
+import { CreateAlertModal, CompositeAlertModal, TemplateModal, PreferencesModal } from './AlertModals'
+import { describeAlertExpression } from '@/lib/alert-expressions'
 
 interface EnhancedPriceAlertsProps {
   className?: string
@@ -48,6 +49,7 @@ export function EnhancedPriceAlerts({ className }: EnhancedPriceAlertsProps) {
   const [loading, setLoading] = useState(false)
   const [selectedAlerts, setSelectedAlerts] = useState<Set<string>>(new Set())
   const [showCreateModal, setShowCreateModal] = useState(false)
+  const [showCompositeModal, setShowCompositeModal] = useState(false)
   const [showTemplateModal, setShowTemplateModal] = useState(false)
   const [showPreferencesModal, setShowPreferencesModal] = useState(false)
   const [editingAlert, setEditingAlert] = useState<PriceAlert | null>(null)
@@ -134,6 +136,7 @@ export function EnhancedPriceAlerts({ className }: EnhancedPriceAlertsProps) {
         setAlerts(prev => [data.alert, ...prev])
         notify.success('Alert Created', `${alertData.name || alertData.symbol} alert created successfully`)
         setShowCreateModal(false)
+        setShowCompositeModal(false)
         loadStats() // Refresh stats
       } else {
         const error = await response.json()
@@ -366,6 +369,14 @@ export function EnhancedPriceAlerts({ className }: EnhancedPriceAlertsProps) {
             <span>Create Alert</span>
           </button>
 
+          <button
+            onClick={() => setShowCompositeModal(true)}
+            className="flex items-center space-x-2 px-4 py-2 bg-indigo-500 hover:bg-indigo-600 text-white rounded-lg transition-colors"
+          >
+            <PlusIcon className="w-4 h-4" />
+            <span>Composite Alert</span>
+          </button>
+
           <button
             onClick={() => setShowTemplateModal(true)}
             className="flex items-center space-x-2 px-4 py-2 bg-purple-500 hover:bg-purple-600 text-white rounded-lg transition-colors"
@@ -524,11 +535,15 @@ export function EnhancedPriceAlerts({ className }: EnhancedPriceAlertsProps) {
                         </div>
 
                         <div className="flex items-center space-x-4 text-sm text-gray-400 mb-2">
-                          <div className="flex items-center space-x-2">
-                            <span className="font-mono text-white">{alert.symbol}</span>
-                            {getOperatorIcon(alert.operator)}
-                            <span className="text-white">{formatPrice(alert.threshold)}</span>
-                          </div>
+                          {alert.expression ? (
+                            <span className="font-mono text-white">{describeAlertExpression(alert.expression)}</span>
+                          ) : (
+                            <div className="flex items-center space-x-2">
+                              <span className="font-mono text-white">{alert.symbol}</span>
+                              {getOperatorIcon(alert.operator)}
+                              <span className="text-white">{formatPrice(alert.threshold)}</span>
+                            </div>
+                          )}
                           
                           <div className="flex items-center space-x-1">
                             <ClockIcon className="w-4 h-4" />
@@ -623,6 +638,14 @@ export function EnhancedPriceAlerts({ className }: EnhancedPriceAlertsProps) {
         loading={loading}
       />
 
+      {/* Composite Alert Modal */}
+      <CompositeAlertModal
+        isOpen={showCompositeModal}
+        onClose={() => setShowCompositeModal(false)}
+        onSubmit={createAlert}
+        loading={loading}
+      />
+
       {/* Template Modal */}
       <TemplateModal
         isOpen={showTemplateModal}
@@ -15,6 +15,7 @@ import {
   BellIcon
 } from '@heroicons/react/24/outline'
 import { securityManager, SecurityEvent } from '@/lib/security-manager'
+import TokenAllowances from '@/components/wallet/TokenAllowances'
 
 interface SecurityDashboardProps {
   userId: string
@@ -256,6 +257,11 @@ export default function SecurityDashboard({ userId, className = '' }: SecurityDa
         </div>
       </div>
 
+      {/* Token Allowances */}
+      <div className="mb-6">
+        <TokenAllowances />
+      </div>
+
       {/* Recent Security Events */}
       <div>
         <div className="flex items-center justify-between mb-4">
@@ -38,19 +38,24 @@ import {
 } from 'recharts'
 import { 
   crossChainAggregator,
-  CrossChainRoute,
   CrossChainExecution,
+  RecoveryAction,
   YieldOpportunity,
   BridgeProtocol
 } from '@/lib/cross-chain-aggregator'
+import { useCrossChain } from '@/hooks/useCrossChain'
+import { useWallet } from '@/contexts/WalletContext'
 
 interface CrossChainBridgeDashboardProps {
   userId: string
 }
 
 export default function CrossChainBridgeDashboard({ userId }: CrossChainBridgeDashboardProps) {
-  const [routes, setRoutes] = useState<CrossChainRoute[]>([])
-  const [executions, setExecutions] = useState<CrossChainExecution[]>([])
+  // Routes and executions live on the server, which drives each execution's steps
+  const { routes, executions, findRoutes, executeTransaction, prepareStep, submitStep, controlExecution } = useCrossChain(userId)
+  const { connectedWallet, sendTransaction } = useWallet()
+  const [signing, setSigning] = useState<string | null>(null)
+  const [executionError, setExecutionError] = useState<string | null>(null)
   const [yieldOpportunities, setYieldOpportunities] = useState<YieldOpportunity[]>([])
   const [bridgeAnalytics, setBridgeAnalytics] = useState<any>(null)
   const [activeTab, setActiveTab] = useState<'bridge' | 'yield' | 'monitor' | 'analytics'>('bridge')
@@ -76,13 +81,11 @@ export default function CrossChainBridgeDashboard({ userId }: CrossChainBridgeDa
 
   const loadData = async () => {
     try {
-      const [executionData, yieldData, analyticsData] = await Promise.all([
-        crossChainAggregator.monitorExecutions(userId),
+      const [yieldData, analyticsData] = await Promise.all([
         crossChainAggregator.getCrossChainYieldOpportunities(),
         crossChainAggregator.getBridgeAnalytics()
       ])
       
-      setExecutions(executionData)
       setYieldOpportunities(yieldData)
       setBridgeAnalytics(analyticsData)
     } catch (error) {
@@ -97,7 +100,7 @@ export default function CrossChainBridgeDashboard({ userId }: CrossChainBridgeDa
 
     try {
       setIsLoading(true)
-      const foundRoutes = await crossChainAggregator.findOptimalRoutes(
+      await findRoutes(
         sourceChain,
         targetChain,
         sourceAsset,
@@ -108,7 +111,6 @@ export default function CrossChainBridgeDashboard({ userId }: CrossChainBridgeDa
           includeYield
         }
       )
-      setRoutes(foundRoutes)
     } catch (error) {
       console.error('Failed to find routes:', error)
     } finally {
@@ -117,18 +119,48 @@ export default function CrossChainBridgeDashboard({ userId }: CrossChainBridgeDa
   }
 
   const executeRoute = async (routeId: string) => {
+    if (!connectedWallet) {
+      setExecutionError('Connect a wallet to sign the bridge transactions')
+      return
+    }
+
     try {
-      const execution = await crossChainAggregator.executeCrossChainTransaction(
-        routeId,
-        userId,
-        parseFloat(bridgeAmount)
-      )
-      setExecutions(prev => [execution, ...prev])
+      setExecutionError(null)
+      const execution: CrossChainExecution = await executeTransaction(routeId, parseFloat(bridgeAmount), connectedWallet.address)
+      setActiveTab('monitor')
+      await signNextStep(execution.id)
     } catch (error) {
       console.error('Failed to execute route:', error)
     }
   }
 
+  // Sign the execution's current step in the wallet and report the hash; the stream shows it confirm
+  const signNextStep = async (executionId: string) => {
+    setSigning(executionId)
+    setExecutionError(null)
+    try {
+      const prepared = await prepareStep(executionId)
+      if (!prepared) return
+
+      const hash = await sendTransaction(prepared.transaction)
+      await submitStep(executionId, prepared.step.stepId, hash)
+    } catch (error) {
+      setExecutionError(error instanceof Error ? error.message : 'Failed to sign step')
+    } finally {
+      setSigning(null)
+    }
+  }
+
+  const recoverExecution = async (executionId: string, action: RecoveryAction) => {
+    try {
+      setExecutionError(null)
+      await controlExecution(executionId, action)
+      await signNextStep(executionId)
+    } catch (error) {
+      setExecutionError(error instanceof Error ? error.message : `Failed to ${action} execution`)
+    }
+  }
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -160,6 +192,7 @@ export default function CrossChainBridgeDashboard({ userId }: CrossChainBridgeDa
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed': return 'text-green-400 bg-green-500/20'
+      case 'refunded': return 'text-orange-400 bg-orange-500/20'
       case 'bridging': case 'swapping': case 'farming': return 'text-blue-400 bg-blue-500/20'
       case 'pending': return 'text-yellow-400 bg-yellow-500/20'
       case 'failed': return 'text-red-400 bg-red-500/20'
@@ -531,6 +564,10 @@ export default function CrossChainBridgeDashboard({ userId }: CrossChainBridgeDa
           >
             <div className="bg-slate-800 rounded-lg p-6">
               <h3 className="text-lg font-semibold text-white mb-4">Execution Monitor</h3>
+
+              {executionError && (
+                <div className="mb-4 text-sm text-red-400">{executionError}</div>
+              )}
               
               {executions.length === 0 ? (
                 <div className="text-center py-8">
@@ -575,6 +612,46 @@ export default function CrossChainBridgeDashboard({ userId }: CrossChainBridgeDa
                           style={{ width: `${(execution.currentStep / execution.totalSteps) * 100}%` }}
                         />
                       </div>
+
+                      <div className="mt-3 space-y-1">
+                        {execution.transactions.map(step => (
+                          <div key={step.stepId} className="flex items-center justify-between text-sm">
+                            <span className="text-gray-300">
+                              {step.stepId}. {step.kind.replace('_', ' ')} on <span className={getChainIcon(step.chain)}>{step.chain}</span>
+                            </span>
+                            <span className="text-gray-400">
+                              {step.txHash && <span className="font-mono mr-2">{step.txHash.slice(0, 10)}…</span>}
+                              {step.status}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+
+                      {execution.error && (
+                        <div className="mt-2 text-sm text-red-400">{execution.error}</div>
+                      )}
+
+                      <div className="mt-3 flex space-x-2">
+                        {execution.status !== 'failed' &&
+                          execution.transactions[execution.currentStep - 1]?.status === 'pending' && (
+                          <button
+                            onClick={() => signNextStep(execution.id)}
+                            disabled={signing === execution.id}
+                            className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded text-sm"
+                          >
+                            {signing === execution.id ? 'Waiting for wallet...' : 'Sign next step'}
+                          </button>
+                        )}
+                        {execution.recoveryOptions.map(action => (
+                          <button
+                            key={action}
+                            onClick={() => recoverExecution(execution.id, action)}
+                            className="px-3 py-1 bg-slate-600 hover:bg-slate-500 text-white rounded text-sm"
+                          >
+                            {action === 'retry' ? 'Retry step' : 'Refund to source chain'}
+                          </button>
+                        ))}
+                      </div>
                     </div>
                   ))}
                 </div>
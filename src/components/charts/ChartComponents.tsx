@@ -17,6 +17,9 @@ import {
 } from 'chart.js'
 import { Line, Bar, Doughnut } from 'react-chartjs-2'
 import { format, subDays, startOfDay } from 'date-fns'
+import { useCandles } from '@/hooks/useCandles'
+import type { Candle } from '@/lib/candles'
+import type { CandleInterval } from '@/lib/candle-service'
 
 // Lightweight Chart wrapper
 function ChartWrapper({ children, chartKey }: { children: React.ReactNode, chartKey: string }) {
@@ -54,6 +57,31 @@ interface PortfolioHistoryData {
 }
 
 
+const HOUR_MS = 60 * 60 * 1000
+
+// Candle interval and lookback behind each chart time range
+const TIME_RANGE_CANDLES: { [range in '24h' | '7d' | '30d']: { interval: CandleInterval; rangeMs: number } } = {
+  '24h': { interval: '1h', rangeMs: 24 * HOUR_MS },
+  '7d': { interval: '4h', rangeMs: 7 * 24 * HOUR_MS },
+  '30d': { interval: '1d', rangeMs: 30 * 24 * HOUR_MS }
+}
+
+// Candles as chart points: closing price and USD volume
+const candlesToPriceHistory = (candles: Candle[]): PriceHistoryData[] =>
+  candles.map(candle => ({
+    timestamp: new Date(candle.timestamp).toISOString(),
+    price: candle.close,
+    volume: candle.volume * candle.close
+  }))
+
+function EmptyChart({ height }: { height: string }) {
+  return (
+    <div className={`${height} w-full flex items-center justify-center text-sm text-gray-400`}>
+      No price history recorded yet
+    </div>
+  )
+}
+
 // Chart.js theme configurations
 const getChartTheme = (theme: 'dark' | 'light') => ({
   backgroundColor: theme === 'dark' ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.1)',
@@ -76,30 +104,11 @@ export function PriceHistoryChart({
 }) {
   const chartTheme = getChartTheme(theme)
   
-  // Generate sample data if none provided
-  const generateSampleData = () => {
-    const days = timeRange === '24h' ? 1 : timeRange === '7d' ? 7 : 30
-    const points = timeRange === '24h' ? 24 : days
-    const basePrice = 45000 // Sample BTC price
-    
-    return Array.from({ length: points }, (_, i) => {
-      const date = timeRange === '24h' 
-        ? new Date(Date.now() - (points - 1 - i) * 60 * 60 * 1000)
-        : subDays(new Date(), points - 1 - i)
-        
-      const variance = 0.05 // 5% variance
-      const randomChange = (Math.random() - 0.5) * variance
-      const price = basePrice * (1 + randomChange + Math.sin(i / points * Math.PI) * 0.1)
-      
-      return {
-        timestamp: date.toISOString(),
-        price: price,
-        volume: Math.random() * 1000000
-      }
-    })
-  }
+  // Load recorded candles if no history was provided
+  const { interval, rangeMs } = TIME_RANGE_CANDLES[timeRange]
+  const { candles } = useCandles(priceHistory.length > 0 ? null : symbol, interval, { rangeMs })
 
-  const data = priceHistory.length > 0 ? priceHistory : generateSampleData()
+  const data = priceHistory.length > 0 ? priceHistory : candlesToPriceHistory(candles)
   
   const chartData: ChartData<'line'> = {
     labels: data.map(item => {
@@ -185,6 +194,10 @@ export function PriceHistoryChart({
     }
   }
 
+  if (data.length === 0) {
+    return <EmptyChart height="h-64" />
+  }
+
   const chartKey = `price-${symbol}-${timeRange}-${JSON.stringify(data.slice(0, 3))}`
   
   return (
@@ -488,26 +501,20 @@ export function PortfolioDistributionChart({
 // Volume Chart Component
 export function VolumeChart({
   priceHistory = [],
+  symbol,
   theme = 'dark'
 }: {
   priceHistory: PriceHistoryData[]
+  symbol?: string
   theme: 'dark' | 'light'
 }) {
   const chartTheme = getChartTheme(theme)
   
-  // Use the same sample data generation logic as PriceHistoryChart
-  const generateSampleData = () => {
-    return Array.from({ length: 24 }, (_, i) => {
-      const date = new Date(Date.now() - (23 - i) * 60 * 60 * 1000)
-      return {
-        timestamp: date.toISOString(),
-        price: 45000 + Math.random() * 5000,
-        volume: Math.random() * 2000000 + 500000
-      }
-    })
-  }
+  // Hourly volume over the last day from recorded candles if no history was provided
+  const { interval, rangeMs } = TIME_RANGE_CANDLES['24h']
+  const { candles } = useCandles(priceHistory.length > 0 ? null : symbol ?? null, interval, { rangeMs })
 
-  const data = priceHistory.length > 0 ? priceHistory : generateSampleData()
+  const data = priceHistory.length > 0 ? priceHistory : candlesToPriceHistory(candles)
   
   const chartData: ChartData<'bar'> = {
     labels: data.map(item => {
@@ -577,6 +584,10 @@ export function VolumeChart({
     }
   }
 
+  if (data.length === 0) {
+    return <EmptyChart height="h-32" />
+  }
+
   const chartKey = `volume-${data.length}-${JSON.stringify(data.slice(0, 2))}`
   
   return (
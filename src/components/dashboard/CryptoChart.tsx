@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState } from 'react'
 import { motion } from 'framer-motion'
 import { Line } from 'react-chartjs-2'
 import {
@@ -14,6 +14,8 @@ import {
   Legend,
   Filler
 } from 'chart.js'
+import { useCandles } from '@/hooks/useCandles'
+import type { CandleInterval } from '@/lib/candle-service'
 
 ChartJS.register(
   CategoryScale,
@@ -26,86 +28,42 @@ ChartJS.register(
   Filler
 )
 
-interface ChartData {
-  prices: [number, number][]
-  market_caps: [number, number][]
-  total_volumes: [number, number][]
-}
+const DAY_MS = 24 * 60 * 60 * 1000
 
 export default function CryptoChart() {
-  const [selectedCrypto, setSelectedCrypto] = useState('bitcoin')
+  const [selectedCrypto, setSelectedCrypto] = useState('BTC')
   const [timeframe, setTimeframe] = useState('7')
   const [chartType, setChartType] = useState('price')
-  const [chartData, setChartData] = useState<ChartData | null>(null)
-  const [isLoading, setIsLoading] = useState(true)
 
   const cryptoOptions = [
-    { id: 'bitcoin', name: 'Bitcoin', symbol: 'BTC' },
-    { id: 'ethereum', name: 'Ethereum', symbol: 'ETH' },
-    { id: 'binancecoin', name: 'Binance Coin', symbol: 'BNB' },
-    { id: 'cardano', name: 'Cardano', symbol: 'ADA' }
+    { id: 'BTC', name: 'Bitcoin', symbol: 'BTC' },
+    { id: 'ETH', name: 'Ethereum', symbol: 'ETH' },
+    { id: 'BNB', name: 'Binance Coin', symbol: 'BNB' },
+    { id: 'ADA', name: 'Cardano', symbol: 'ADA' }
   ]
 
-  const timeframeOptions = [
-    { value: '1', label: '1D' },
-    { value: '7', label: '7D' },
-    { value: '30', label: '30D' },
-    { value: '365', label: '1Y' }
+  const timeframeOptions: { value: string; label: string; interval: CandleInterval }[] = [
+    { value: '1', label: '1D', interval: '15m' },
+    { value: '7', label: '7D', interval: '1h' },
+    { value: '30', label: '30D', interval: '4h' },
+    { value: '365', label: '1Y', interval: '1d' }
   ]
 
-  const fetchChartData = useCallback(async () => {
-    setIsLoading(true)
-    try {
-      const response = await fetch(
-        `https://api.coingecko.com/api/v3/coins/${selectedCrypto}/market_chart?vs_currency=usd&days=${timeframe}`
-      )
-      if (response.ok) {
-        const data = await response.json()
-        setChartData(data)
-      }
-    } catch (error) {
-      console.error('Failed to fetch chart data:', error)
-    } finally {
-      setIsLoading(false)
-    }
-  }, [selectedCrypto, timeframe])
-
-  useEffect(() => {
-    fetchChartData()
-  }, [fetchChartData])
+  const selectedTimeframe = timeframeOptions.find(option => option.value === timeframe) ?? timeframeOptions[1]
+  const { candles, loading: isLoading } = useCandles(selectedCrypto, selectedTimeframe.interval, {
+    rangeMs: Number(timeframe) * DAY_MS
+  })
 
   const formatChartData = () => {
-    if (!chartData) return null
+    if (candles.length === 0) return null
 
-    let dataPoints, label, borderColor, backgroundColor
+    const isVolume = chartType === 'volume'
+    const dataPoints = candles.map(candle => isVolume ? candle.volume * candle.close : candle.close)
+    const label = isVolume ? 'Volume (USD)' : 'Price (USD)'
+    const borderColor = isVolume ? 'rgb(16, 185, 129)' : 'rgb(59, 130, 246)'
+    const backgroundColor = isVolume ? 'rgba(16, 185, 129, 0.1)' : 'rgba(59, 130, 246, 0.1)'
 
-    switch (chartType) {
-      case 'price':
-        dataPoints = chartData.prices
-        label = 'Price (USD)'
-        borderColor = 'rgb(59, 130, 246)'
-        backgroundColor = 'rgba(59, 130, 246, 0.1)'
-        break
-      case 'volume':
-        dataPoints = chartData.total_volumes
-        label = 'Volume (USD)'
-        borderColor = 'rgb(16, 185, 129)'
-        backgroundColor = 'rgba(16, 185, 129, 0.1)'
-        break
-      case 'marketcap':
-        dataPoints = chartData.market_caps
-        label = 'Market Cap (USD)'
-        borderColor = 'rgb(139, 92, 246)'
-        backgroundColor = 'rgba(139, 92, 246, 0.1)'
-        break
-      default:
-        dataPoints = chartData.prices
-        label = 'Price (USD)'
-        borderColor = 'rgb(59, 130, 246)'
-        backgroundColor = 'rgba(59, 130, 246, 0.1)'
-    }
-
-    const labels = dataPoints.map(([timestamp]: [number, number]) => {
+    const labels = candles.map(({ timestamp }) => {
       const date = new Date(timestamp)
       return timeframe === '1' 
         ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
@@ -117,7 +75,7 @@ export default function CryptoChart() {
       datasets: [
         {
           label,
-          data: dataPoints.map(([, value]) => value),
+          data: dataPoints,
           borderColor,
           backgroundColor,
           fill: true,
@@ -243,8 +201,7 @@ export default function CryptoChart() {
             <div className="flex space-x-2">
               {[
                 { value: 'price', label: 'Price' },
-                { value: 'volume', label: 'Volume' },
-                { value: 'marketcap', label: 'Market Cap' }
+                { value: 'volume', label: 'Volume' }
               ].map((option) => (
                 <button
                   key={option.value}
@@ -273,8 +230,7 @@ export default function CryptoChart() {
         <div className="mb-4">
           <h2 className="text-xl font-semibold text-white">
             {cryptoOptions.find(c => c.id === selectedCrypto)?.name} {
-              chartType === 'price' ? 'Price Chart' :
-              chartType === 'volume' ? 'Volume Chart' : 'Market Cap Chart'
+              chartType === 'price' ? 'Price Chart' : 'Volume Chart'
             }
           </h2>
         </div>
@@ -288,7 +244,7 @@ export default function CryptoChart() {
             <Line data={formattedData} options={chartOptions} />
           ) : (
             <div className="flex items-center justify-center h-full text-gray-400">
-              Failed to load chart data
+              No price history recorded yet
             </div>
           )}
         </div>
@@ -304,23 +260,25 @@ export default function CryptoChart() {
         {[
           {
             title: 'Current Price',
-            value: chartData ? `$${chartData.prices[chartData.prices.length - 1][1].toLocaleString()}` : '--',
+            value: candles.length > 0 ? `$${candles[candles.length - 1].close.toLocaleString()}` : '--',
             color: 'text-blue-400'
           },
           {
-            title: 'Market Cap',
-            value: chartData ? `$${(chartData.market_caps[chartData.market_caps.length - 1][1] / 1e9).toFixed(2)}B` : '--',
+            title: 'Range High',
+            value: candles.length > 0 ? `$${Math.max(...candles.map(candle => candle.high)).toLocaleString()}` : '--',
             color: 'text-purple-400'
           },
           {
-            title: '24h Volume',
-            value: chartData ? `$${(chartData.total_volumes[chartData.total_volumes.length - 1][1] / 1e6).toFixed(2)}M` : '--',
+            title: 'Volume',
+            value: candles.length > 0
+              ? `$${(candles.reduce((sum, candle) => sum + candle.volume * candle.close, 0) / 1e6).toFixed(2)}M`
+              : '--',
             color: 'text-emerald-400'
           },
           {
             title: 'Price Change',
-            value: chartData ? 
-              `${((chartData.prices[chartData.prices.length - 1][1] - chartData.prices[0][1]) / chartData.prices[0][1] * 100).toFixed(2)}%` 
+            value: candles.length > 0 ? 
+              `${((candles[candles.length - 1].close - candles[0].open) / candles[0].open * 100).toFixed(2)}%` 
               : '--',
             color: 'text-yellow-400'
           }
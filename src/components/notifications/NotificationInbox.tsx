@@ -0,0 +1,149 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { BellIcon, ArchiveBoxIcon, CheckIcon } from '@heroicons/react/24/outline'
+import { useNotifications } from '@/contexts/NotificationContext'
+import { InboxNotification, NotificationType } from '@/types/notifications'
+
+const TYPE_DOT: Record<NotificationType, string> = {
+  success: 'bg-emerald-400',
+  error: 'bg-red-400',
+  warning: 'bg-yellow-400',
+  info: 'bg-blue-400'
+}
+
+function formatTime(createdAt: string): string {
+  const date = new Date(createdAt)
+  const sameDay = date.toDateString() === new Date().toDateString()
+  return sameDay
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+}
+
+function InboxItem({ item, onRead, onArchive }: {
+  item: InboxNotification
+  onRead: (id: string) => void
+  onArchive: (id: string) => void
+}) {
+  return (
+    <li
+      onClick={() => !item.readAt && onRead(item.id)}
+      className={`group px-4 py-3 border-b border-gray-700/60 last:border-b-0 cursor-default ${
+        item.readAt ? 'opacity-70' : 'bg-slate-700/30'
+      }`}
+    >
+      <div className="flex items-start space-x-3">
+        <span className={`mt-1.5 h-2 w-2 flex-shrink-0 rounded-full ${item.readAt ? 'bg-gray-600' : TYPE_DOT[item.type] || TYPE_DOT.info}`} />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between space-x-2">
+            <p className="text-sm font-medium text-white truncate">{item.title}</p>
+            <span className="text-xs text-gray-500 flex-shrink-0">{formatTime(item.createdAt)}</span>
+          </div>
+          <p className="mt-0.5 text-sm text-gray-400 line-clamp-2">{item.message}</p>
+          <span className="mt-1 inline-block text-xs text-gray-500 capitalize">{item.category.replace('-', ' ')}</span>
+        </div>
+        <button
+          onClick={(e) => {
+            e.stopPropagation()
+            onArchive(item.id)
+          }}
+          className="p-1 text-gray-500 hover:text-white rounded opacity-0 group-hover:opacity-100 transition-opacity"
+          title="Archive"
+        >
+          <ArchiveBoxIcon className="w-4 h-4" />
+        </button>
+      </div>
+    </li>
+  )
+}
+
+// Bell with the unread count and a dropdown of the user's inbox, newest first
+export function NotificationInbox() {
+  const { inbox, loadMoreInbox, markInboxRead, archiveInbox } = useNotifications()
+  const [open, setOpen] = useState(false)
+  const panel = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!open) return
+    const close = (event: MouseEvent) => {
+      if (panel.current && !panel.current.contains(event.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', close)
+    return () => document.removeEventListener('mousedown', close)
+  }, [open])
+
+  const run = (action: Promise<void>) => {
+    action.catch(error => console.error('Notification inbox update failed:', error))
+  }
+
+  return (
+    <div className="relative" ref={panel}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="p-2 text-gray-300 hover:text-white hover:bg-white/10 rounded-lg transition-all duration-200 relative"
+        aria-label={`Notifications${inbox.unreadCount ? ` (${inbox.unreadCount} unread)` : ''}`}
+      >
+        <BellIcon className="w-5 h-5" />
+        {inbox.unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 bg-red-500 rounded-full border-2 border-slate-900 text-[10px] leading-[0.8rem] font-bold text-white text-center">
+            {inbox.unreadCount > 99 ? '99+' : inbox.unreadCount}
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            transition={{ duration: 0.15 }}
+            className="absolute right-0 mt-2 w-96 bg-slate-800 rounded-lg shadow-lg border border-gray-700 z-50"
+          >
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+              <span className="text-sm font-semibold text-white">Notifications</span>
+              {inbox.unreadCount > 0 && (
+                <button
+                  onClick={() => run(markInboxRead())}
+                  className="flex items-center space-x-1 text-xs text-blue-400 hover:text-blue-300"
+                >
+                  <CheckIcon className="w-3.5 h-3.5" />
+                  <span>Mark all read</span>
+                </button>
+              )}
+            </div>
+
+            <div className="max-h-[28rem] overflow-y-auto">
+              {inbox.items.length === 0 ? (
+                <p className="px-4 py-8 text-sm text-gray-500 text-center">
+                  {inbox.loading ? 'Loading...' : 'No notifications yet'}
+                </p>
+              ) : (
+                <ul>
+                  {inbox.items.map(item => (
+                    <InboxItem
+                      key={item.id}
+                      item={item}
+                      onRead={id => run(markInboxRead([id]))}
+                      onArchive={id => run(archiveInbox([id]))}
+                    />
+                  ))}
+                </ul>
+              )}
+              {inbox.hasMore && (
+                <button
+                  onClick={() => run(loadMoreInbox())}
+                  disabled={inbox.loading}
+                  className="w-full px-4 py-2 text-xs text-gray-400 hover:text-white hover:bg-slate-700 disabled:opacity-50 transition-colors"
+                >
+                  {inbox.loading ? 'Loading...' : 'Load older notifications'}
+                </button>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
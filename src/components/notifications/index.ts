@@ -1,6 +1,7 @@
 // Notification System Exports
 export { ToastNotification } from './ToastNotification'
 export { NotificationContainer, GlobalNotificationContainer } from './NotificationContainer'
+export { NotificationInbox } from './NotificationInbox'
 export { NotificationProvider, useNotifications, useNotify } from '@/contexts/NotificationContext'
 
 // Re-export types for convenience
@@ -8,7 +9,8 @@ export type {
   Notification,
   NotificationType,
   NotificationPosition,
-  NotificationContextType 
+  NotificationContextType,
+  InboxNotification
 } from '@/types/notifications'
 
 export { NotificationPresets, NotificationMessages } from '@/types/notifications'
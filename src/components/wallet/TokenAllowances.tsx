@@ -0,0 +1,171 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { motion } from 'framer-motion'
+import {
+  ArrowPathIcon,
+  ExclamationTriangleIcon,
+  KeyIcon,
+  ShieldCheckIcon
+} from '@heroicons/react/24/outline'
+import { useWallet } from '@/contexts/WalletContext'
+import type { TokenAllowance } from '@/lib/web3/allowance-manager'
+
+const RISK_COLORS: Record<TokenAllowance['risk'], string> = {
+  high: 'text-red-400 bg-red-500/20',
+  medium: 'text-orange-400 bg-orange-500/20',
+  low: 'text-green-400 bg-green-500/20'
+}
+
+export default function TokenAllowances() {
+  const { connectedWallet, sendTransaction, waitForTransaction } = useWallet()
+  const [allowances, setAllowances] = useState<TokenAllowance[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [revoking, setRevoking] = useState<string | null>(null)
+  // Oldest block scanned, while older history is still to be scanned
+  const [scannedFrom, setScannedFrom] = useState<number | null>(null)
+
+  const loadAllowances = useCallback(async () => {
+    if (!connectedWallet) return
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const query = new URLSearchParams({
+        walletAddress: connectedWallet.address,
+        chainId: connectedWallet.chainId.toString()
+      })
+      const response = await fetch(`/api/wallet/allowances?${query}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load allowances')
+      }
+      setAllowances(data.allowances)
+      setScannedFrom(data.complete ? null : data.fromBlock)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load allowances')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [connectedWallet])
+
+  useEffect(() => {
+    loadAllowances()
+  }, [loadAllowances])
+
+  const revoke = async (allowance: TokenAllowance) => {
+    if (!connectedWallet) return
+
+    const key = `${allowance.tokenAddress}:${allowance.spender}`
+    setRevoking(key)
+    setError(null)
+    try {
+      const response = await fetch('/api/wallet/allowances', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          walletAddress: connectedWallet.address,
+          chainId: connectedWallet.chainId,
+          tokenAddress: allowance.tokenAddress,
+          spender: allowance.spender
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to build revoke transaction')
+      }
+
+      const hash = await sendTransaction(data.transaction)
+      if (!await waitForTransaction(connectedWallet.address, hash)) {
+        throw new Error(`Revoke transaction ${hash} failed`)
+      }
+      setAllowances(current => current.filter(item => `${item.tokenAddress}:${item.spender}` !== key))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke allowance')
+    } finally {
+      setRevoking(null)
+    }
+  }
+
+  return (
+    <div className="bg-slate-700 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <KeyIcon className="w-5 h-5 text-blue-400" />
+          <h3 className="text-lg font-semibold text-white">Token Allowances</h3>
+        </div>
+        {connectedWallet && (
+          <button
+            onClick={loadAllowances}
+            disabled={isLoading}
+            className="text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+          >
+            <ArrowPathIcon className={`w-5 h-5 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-3 text-sm text-red-400">{error}</div>
+      )}
+
+      {!connectedWallet ? (
+        <p className="text-sm text-gray-400">Connect a wallet to review the contracts allowed to spend its tokens.</p>
+      ) : isLoading && allowances.length === 0 ? (
+        <p className="text-sm text-gray-400">Scanning approvals...</p>
+      ) : allowances.length > 0 ? (
+        <div className="space-y-3">
+          {allowances.map(allowance => {
+            const key = `${allowance.tokenAddress}:${allowance.spender}`
+            return (
+              <motion.div
+                key={key}
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                className="bg-slate-800 rounded-lg p-3 flex items-center space-x-3"
+              >
+                <div className={`p-2 rounded-full ${RISK_COLORS[allowance.risk]}`}>
+                  {allowance.risk === 'low'
+                    ? <ShieldCheckIcon className="w-4 h-4" />
+                    : <ExclamationTriangleIcon className="w-4 h-4" />}
+                </div>
+
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="font-medium text-white">{allowance.tokenSymbol}</span>
+                    <span className={`text-sm ${allowance.isUnlimited ? 'text-orange-400' : 'text-gray-300'}`}>
+                      {allowance.allowanceFormatted}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-400 truncate">
+                    {allowance.spenderLabel ?? 'Unknown contract'} • {allowance.spender}
+                  </div>
+                </div>
+
+                <button
+                  onClick={() => revoke(allowance)}
+                  disabled={revoking !== null}
+                  className="px-3 py-1 border border-red-500 text-red-400 text-sm rounded hover:bg-red-500/10 transition-colors disabled:opacity-50"
+                >
+                  {revoking === key ? 'Revoking...' : 'Revoke'}
+                </button>
+              </motion.div>
+            )
+          })}
+        </div>
+      ) : (
+        <div className="text-center py-4 text-gray-400">
+          <ShieldCheckIcon className="w-10 h-10 mx-auto mb-2 opacity-50" />
+          <p className="text-sm">No active token allowances</p>
+        </div>
+      )}
+
+      {connectedWallet && scannedFrom !== null && (
+        <p className="mt-3 text-xs text-gray-500">
+          Approvals before block {scannedFrom.toLocaleString()} have not been scanned yet. Refresh to scan further back.
+        </p>
+      )}
+    </div>
+  )
+}
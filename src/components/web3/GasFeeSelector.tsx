@@ -0,0 +1,70 @@
+'use client'
+
+import React from 'react'
+import { ethers } from 'ethers'
+import { FireIcon } from '@heroicons/react/24/outline'
+import { useGasOracle } from '@/hooks/useGasOracle'
+import { GAS_TIERS } from '@/lib/dex/gas-oracle'
+import type { GasTier } from '@/lib/dex/gas-oracle'
+import { SUPPORTED_CHAINS } from '@/lib/dex/index'
+
+interface GasFeeSelectorProps {
+  chainId: number
+  tier: GasTier
+  onTierChange: (tier: GasTier) => void
+  gasUnits?: string // Gas of the pending transactions, to show what each tier would cost
+  disabled?: boolean
+}
+
+const TIER_LABELS: Record<GasTier, string> = {
+  slow: 'Slow',
+  standard: 'Standard',
+  fast: 'Fast'
+}
+
+const formatGwei = (wei: string) => parseFloat(ethers.formatUnits(wei, 'gwei')).toLocaleString(undefined, { maximumFractionDigits: 2 })
+
+export default function GasFeeSelector({ chainId, tier, onTierChange, gasUnits, disabled = false }: GasFeeSelectorProps) {
+  const { suggestion, error } = useGasOracle(chainId)
+  const nativeSymbol = Object.values(SUPPORTED_CHAINS).find(chain => chain.chainId === chainId)?.nativeCurrency.symbol ?? 'ETH'
+
+  return (
+    <div className="rounded-lg bg-white/5 p-3 space-y-2">
+      <div className="flex items-center justify-between text-sm text-gray-400">
+        <span className="flex items-center gap-1">
+          <FireIcon className="h-4 w-4" />
+          Network fee
+        </span>
+        {suggestion && (
+          <span className="text-xs">
+            {suggestion.baseFeePerGas !== null ? `Base ${formatGwei(suggestion.baseFeePerGas)} gwei · ` : ''}block {suggestion.blockNumber}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {GAS_TIERS.map(option => {
+          const fees = suggestion?.tiers[option]
+          const cost = fees && gasUnits ? ethers.formatEther(BigInt(gasUnits) * BigInt(fees.expectedFeePerGas)) : null
+          return (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onTierChange(option)}
+              disabled={disabled}
+              className={`rounded-lg px-2 py-2 text-left text-xs ring-1 transition-colors disabled:opacity-50 ${
+                option === tier ? 'bg-blue-500/20 ring-blue-500 text-white' : 'ring-white/10 text-gray-300 hover:bg-white/5'
+              }`}
+            >
+              <div className="font-medium">{TIER_LABELS[option]}</div>
+              <div>{fees ? `${formatGwei(fees.expectedFeePerGas)} gwei` : '—'}</div>
+              {cost && <div className="text-gray-400">~{parseFloat(cost).toFixed(6)} {nativeSymbol}</div>}
+            </button>
+          )
+        })}
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  )
+}
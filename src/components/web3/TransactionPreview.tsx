@@ -0,0 +1,89 @@
+'use client'
+
+import React from 'react'
+import {
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  InformationCircleIcon,
+  XCircleIcon
+} from '@heroicons/react/24/outline'
+import type { TradePreview } from '@/hooks/useDEXTrading'
+import type { SimulationWarning } from '@/lib/dex/simulation'
+
+interface TransactionPreviewProps {
+  preview: TradePreview
+  isSubmitting?: boolean
+  onConfirm?: () => void // Omitted when the preview is informational only
+  onCancel: () => void
+}
+
+const WARNING_STYLES: Record<SimulationWarning['severity'], { className: string; Icon: typeof InformationCircleIcon }> = {
+  critical: { className: 'text-red-400 bg-red-500/10 border-red-500/30', Icon: XCircleIcon },
+  warning: { className: 'text-orange-400 bg-orange-500/10 border-orange-500/30', Icon: ExclamationTriangleIcon },
+  info: { className: 'text-blue-400 bg-blue-500/10 border-blue-500/30', Icon: InformationCircleIcon }
+}
+
+export default function TransactionPreview({ preview, isSubmitting = false, onConfirm, onCancel }: TransactionPreviewProps) {
+  const { simulation, transactions } = preview
+  const next = transactions.approval ? 'Approve' : 'Swap'
+
+  return (
+    <div className="rounded-xl bg-slate-800 p-4 ring-1 ring-white/10 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-white">Transaction Preview</h4>
+        <span className={`flex items-center gap-1 text-sm ${simulation.safe ? 'text-green-400' : 'text-red-400'}`}>
+          {simulation.safe
+            ? <CheckCircleIcon className="h-4 w-4" />
+            : <XCircleIcon className="h-4 w-4" />}
+          {simulation.safe ? 'Simulation passed' : 'Simulation failed'}
+        </span>
+      </div>
+
+      <ul className="space-y-1 text-sm text-gray-300">
+        {simulation.preview.map((line, index) => (
+          <li key={index}>{line}</li>
+        ))}
+      </ul>
+
+      {simulation.warnings.length > 0 && (
+        <div className="space-y-2">
+          {simulation.warnings.map((warning, index) => {
+            const { className, Icon } = WARNING_STYLES[warning.severity]
+            return (
+              <div key={`${warning.code}-${index}`} className={`flex items-start gap-2 rounded-lg border p-2 text-sm ${className}`}>
+                <Icon className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <span>{warning.message}</span>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between text-xs text-gray-400">
+        <span>Simulated at block {simulation.blockNumber} via {simulation.method === 'trace' ? 'trace' : 'eth_call'}</span>
+        {simulation.gasUsed && <span>Gas ~{simulation.gasUsed}</span>}
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isSubmitting}
+          className="flex-1 rounded-lg border border-white/20 px-4 py-2 text-sm text-gray-300 hover:bg-white/5 disabled:opacity-50"
+        >
+          {onConfirm ? 'Cancel' : 'Close'}
+        </button>
+        {onConfirm && (
+          <button
+            type="button"
+            onClick={onConfirm}
+            disabled={isSubmitting || !simulation.safe}
+            className="flex-1 rounded-lg bg-gradient-to-r from-blue-500 to-emerald-500 px-4 py-2 text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Waiting for wallet...' : `${next} in wallet`}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,11 +1,15 @@
 'use client'
 
-import React, { createContext, useContext, useReducer, useCallback } from 'react'
+import React, { createContext, useContext, useReducer, useCallback, useEffect, useRef, useState } from 'react'
+import { useSession } from 'next-auth/react'
 import { 
+  InboxNotification,
   Notification, 
   NotificationContextType, 
+  NotificationInboxState,
   NotificationProviderProps,
-  NotificationPresets 
+  NotificationPresets,
+  NotificationMessages
 } from '@/types/notifications'
 
 // Generate unique ID for notifications
@@ -24,6 +28,19 @@ interface NotificationState {
   notifications: Notification[]
 }
 
+const EMPTY_INBOX: NotificationInboxState = { items: [], unreadCount: 0, hasMore: false, loading: false }
+
+async function updateInbox(body: { action: 'read' | 'archive'; ids?: string[] }): Promise<number> {
+  const response = await fetch('/api/notifications', {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  })
+  if (!response.ok) throw new Error('Failed to update notifications')
+  const { unreadCount } = await response.json()
+  return unreadCount
+}
+
 const notificationReducer = (
   state: NotificationState,
   action: NotificationAction
@@ -73,11 +90,15 @@ export function NotificationProvider({
   defaultDuration = 4000,
   enableSounds = true,
   stackingBehavior = 'stack',
-  globalPersistence = false
+  globalPersistence = false,
+  syncInbox = true
 }: NotificationProviderProps) {
   const [state, dispatch] = useReducer(notificationReducer, {
     notifications: []
   })
+  const { status } = useSession()
+  const [inbox, setInbox] = useState<NotificationInboxState>(EMPTY_INBOX)
+  const nextCursor = useRef<string | null>(null)
 
   // Play notification sound
   const playNotificationSound = useCallback((type: string, soundEnabled?: boolean) => {
@@ -167,12 +188,94 @@ export function NotificationProvider({
     dispatch({ type: 'UPDATE_NOTIFICATION', payload: { id, updates } })
   }, [])
 
+  // The stream effect must not reconnect every time the toast list changes
+  const addNotificationRef = useRef(addNotification)
+  addNotificationRef.current = addNotification
+
+  const fetchInboxPage = useCallback(async (cursor: string | null) => {
+    setInbox(current => ({ ...current, loading: true }))
+    try {
+      const response = await fetch(`/api/notifications?${new URLSearchParams(cursor ? { cursor } : {})}`, { cache: 'no-store' })
+      if (!response.ok) throw new Error('Failed to load notifications')
+      const page: { notifications: InboxNotification[]; nextCursor: string | null; unreadCount: number } = await response.json()
+      nextCursor.current = page.nextCursor
+      setInbox(current => {
+        const known = new Set(current.items.map(item => item.id))
+        const items = cursor ? [...current.items, ...page.notifications.filter(item => !known.has(item.id))] : page.notifications
+        return { items, unreadCount: page.unreadCount, hasMore: page.nextCursor !== null, loading: false }
+      })
+    } catch (error) {
+      console.error('Failed to load notifications:', error)
+      setInbox(current => ({ ...current, loading: false }))
+    }
+  }, [])
+
+  // Load the inbox and raise items published while this tab is open (by the worker or other requests) as toasts
+  useEffect(() => {
+    if (!syncInbox || status !== 'authenticated') {
+      nextCursor.current = null
+      setInbox(EMPTY_INBOX)
+      return
+    }
+
+    void fetchInboxPage(null)
+    if (typeof EventSource === 'undefined') return
+
+    const source = new EventSource('/api/notifications/stream')
+    source.onmessage = event => {
+      try {
+        const item: InboxNotification = JSON.parse(event.data)
+        setInbox(current => current.items.some(existing => existing.id === item.id)
+          ? current
+          : { ...current, items: [item, ...current.items], unreadCount: current.unreadCount + (item.readAt ? 0 : 1) })
+        addNotificationRef.current({
+          type: item.type,
+          title: item.title,
+          message: item.message,
+          category: item.category,
+          priority: item.priority,
+          persistent: item.priority === 'urgent',
+          soundEnabled: item.priority === 'high' || item.priority === 'urgent',
+          inboxId: item.id
+        })
+      } catch (error) {
+        console.error('Failed to read notification:', error)
+      }
+    }
+
+    return () => source.close()
+  }, [syncInbox, status, fetchInboxPage])
+
+  const loadMoreInbox = useCallback(async () => {
+    if (nextCursor.current) await fetchInboxPage(nextCursor.current)
+  }, [fetchInboxPage])
+
+  // Without ids every unread item is marked read
+  const markInboxRead = useCallback(async (ids?: string[]) => {
+    const unreadCount = await updateInbox({ action: 'read', ids })
+    const readAt = new Date().toISOString()
+    setInbox(current => ({
+      ...current,
+      unreadCount,
+      items: current.items.map(item => !item.readAt && (!ids || ids.includes(item.id)) ? { ...item, readAt } : item)
+    }))
+  }, [])
+
+  const archiveInbox = useCallback(async (ids: string[]) => {
+    const unreadCount = await updateInbox({ action: 'archive', ids })
+    setInbox(current => ({ ...current, unreadCount, items: current.items.filter(item => !ids.includes(item.id)) }))
+  }, [])
+
   const contextValue: NotificationContextType = {
     notifications: state.notifications,
     addNotification,
     removeNotification,
     clearAllNotifications,
-    updateNotification
+    updateNotification,
+    inbox,
+    loadMoreInbox,
+    markInboxRead,
+    archiveInbox
   }
 
   return (
@@ -2,6 +2,7 @@
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react'
 import { ConnectedWallet, walletConnector } from '@/lib/web3/wallet-connector'
+import type { UnsignedTransaction } from '@/lib/dex/index'
 
 interface WalletAsset {
   symbol: string
@@ -54,6 +55,12 @@ interface WalletContextType {
   scanWalletAssets: (address?: string) => Promise<void>
   refreshPortfolio: () => Promise<void>
   
+  // Signing (keys never leave the wallet)
+  sendTransaction: (tx: UnsignedTransaction) => Promise<string>
+  signTransaction: (tx: UnsignedTransaction) => Promise<string> // Signed but not broadcast, for a private relay
+  canSignTransaction: (address: string) => boolean // Whether signTransaction is available for the wallet
+  waitForTransaction: (from: string, hash: string) => Promise<boolean>
+  
   // Manual address input
   manualAddress: string
   setManualAddress: (address: string) => void
@@ -239,6 +246,24 @@ export function WalletProvider({ children }: WalletProviderProps) {
     await scanWalletAssets()
   }
 
+  const sendTransaction = async (tx: UnsignedTransaction) => {
+    if (!connectedWallet) {
+      throw new Error('Connect a wallet to sign transactions')
+    }
+    return walletConnector.sendTransaction(tx)
+  }
+
+  const signTransaction = async (tx: UnsignedTransaction) => {
+    if (!connectedWallet) {
+      throw new Error('Connect a wallet to sign transactions')
+    }
+    return walletConnector.signTransaction(tx)
+  }
+
+  const canSignTransaction = (address: string) => walletConnector.canSignTransaction(address)
+
+  const waitForTransaction = (from: string, hash: string) => walletConnector.waitForTransaction(from, hash)
+
   const value: WalletContextType = {
     // Connection state
     isConnected,
@@ -258,6 +283,12 @@ export function WalletProvider({ children }: WalletProviderProps) {
     scanWalletAssets,
     refreshPortfolio,
     
+    // Signing
+    sendTransaction,
+    signTransaction,
+    canSignTransaction,
+    waitForTransaction,
+    
     // Manual address
     manualAddress,
     setManualAddress,
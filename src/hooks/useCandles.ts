@@ -0,0 +1,57 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { Candle } from '@/lib/candles'
+import type { CandleInterval } from '@/lib/candle-service'
+
+export interface UseCandlesOptions {
+  rangeMs?: number // How far back from now to load; defaults to the API's 200 candles
+  refreshInterval?: number
+}
+
+export function useCandles(symbol: string | null, interval: CandleInterval, options: UseCandlesOptions = {}) {
+  const { rangeMs, refreshInterval } = options
+  const [candles, setCandles] = useState<Candle[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!symbol) {
+      setCandles([])
+      return
+    }
+
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ symbol, interval })
+      if (rangeMs) {
+        const to = Date.now()
+        params.set('from', String(to - rangeMs))
+        params.set('to', String(to))
+      }
+
+      const response = await fetch(`/api/candles?${params}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load candles')
+      }
+
+      setCandles(data.candles)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load candles')
+    } finally {
+      setLoading(false)
+    }
+  }, [symbol, interval, rangeMs])
+
+  useEffect(() => {
+    refresh()
+    if (!refreshInterval) return
+
+    const timer = setInterval(refresh, refreshInterval)
+    return () => clearInterval(timer)
+  }, [refresh, refreshInterval])
+
+  return { candles, loading, error, refresh }
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react'
-import { CrossChainRoute, CrossChainExecution, YieldOpportunity } from '@/lib/cross-chain-aggregator'
+import { CrossChainRoute, CrossChainExecution, RecoveryAction, YieldOpportunity } from '@/lib/cross-chain-aggregator'
+import type { PreparedStep } from '@/lib/cross-chain-executor'
 
 interface UseCrossChainOptions {
   refreshInterval?: number
@@ -74,10 +75,11 @@ export function useCrossChain(userId?: string, options: UseCrossChainOptions = {
     }
   }, [])
 
-  // Execute cross-chain transaction
+  // Plan a cross-chain execution for the wallet that will sign its steps
   const executeTransaction = useCallback(async (
     routeId: string,
-    amount: number
+    amount: number,
+    walletAddress: string
   ) => {
     if (!userId) {
       throw new Error('User ID required for transaction execution')
@@ -92,8 +94,8 @@ export function useCrossChain(userId?: string, options: UseCrossChainOptions = {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           routeId,
-          userId,
-          amount
+          amount,
+          walletAddress
         })
       })
 
@@ -220,33 +222,48 @@ export function useCrossChain(userId?: string, options: UseCrossChainOptions = {
     }
   }, [userId])
 
-  // Control execution (pause, resume, cancel)
+  const postExecutionAction = useCallback(async (body: Record<string, string>) => {
+    const response = await fetch('/api/cross-chain/executions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || `Failed to ${body.action} execution`)
+    }
+    return result.data
+  }, [])
+
+  // Transaction for the wallet to sign next; null while a step is confirming or once finished
+  const prepareStep = useCallback(async (executionId: string): Promise<PreparedStep | null> => {
+    return postExecutionAction({ executionId, action: 'prepare' })
+  }, [postExecutionAction])
+
+  // Hand the hash the wallet broadcast back to the execution
+  const submitStep = useCallback(async (
+    executionId: string,
+    stepId: string,
+    txHash: string
+  ): Promise<CrossChainExecution> => {
+    const execution: CrossChainExecution = await postExecutionAction({ executionId, action: 'submit', stepId, txHash })
+    setExecutions(prev => prev.map(item => item.id === execution.id ? execution : item))
+    return execution
+  }, [postExecutionAction])
+
+  // Recover a failed execution (retry the failed step, or refund after the bridge)
   const controlExecution = useCallback(async (
     executionId: string,
-    action: 'pause' | 'resume' | 'cancel'
+    action: RecoveryAction
   ) => {
     try {
       setIsLoading(true)
       setError(null)
 
-      const response = await fetch('/api/cross-chain/executions', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          executionId,
-          action
-        })
-      })
-
-      const result = await response.json()
-
-      if (!result.success) {
-        throw new Error(result.error || `Failed to ${action} execution`)
-      }
-
-      // Refresh executions after control action
-      await refreshExecutions()
-      return result.data
+      const execution: CrossChainExecution = await postExecutionAction({ executionId, action })
+      setExecutions(prev => prev.map(item => item.id === execution.id ? execution : item))
+      return execution
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : `Failed to ${action} execution`
       setError(errorMessage)
@@ -254,19 +271,34 @@ export function useCrossChain(userId?: string, options: UseCrossChainOptions = {
     } finally {
       setIsLoading(false)
     }
-  }, [refreshExecutions])
+  }, [postExecutionAction])
+
+  // Stream step state for the user's executions; the server pushes the list whenever it changes
+  useEffect(() => {
+    if (!userId || !autoRefresh || typeof EventSource === 'undefined') return
+
+    const source = new EventSource(`/api/cross-chain/executions?${new URLSearchParams({ userId, stream: 'true' })}`)
+    source.onmessage = event => {
+      try {
+        setExecutions(JSON.parse(event.data))
+      } catch (err) {
+        console.error('Failed to read execution update:', err)
+      }
+    }
+
+    return () => source.close()
+  }, [userId, autoRefresh])
 
   // Auto-refresh data
   useEffect(() => {
     if (!autoRefresh) return
 
     const interval = setInterval(() => {
-      refreshExecutions()
       refreshAnalytics()
     }, refreshInterval)
 
     return () => clearInterval(interval)
-  }, [autoRefresh, refreshInterval, refreshExecutions, refreshAnalytics])
+  }, [autoRefresh, refreshInterval, refreshAnalytics])
 
   // Initial data load
   useEffect(() => {
@@ -291,6 +323,8 @@ export function useCrossChain(userId?: string, options: UseCrossChainOptions = {
     executeTransaction,
     getYieldOpportunities,
     optimizeYieldStrategy,
+    prepareStep,
+    submitStep,
     controlExecution,
     refreshExecutions,
     refreshAnalytics,
@@ -4,7 +4,10 @@
  */
 
 import { useState, useCallback, useEffect } from 'react'
-import { Token, TradeParams } from '@/lib/dex/index'
+import { Token, TradeParams, TradeTransactions, SwapRoute, ExecutionMode } from '@/lib/dex/index'
+import type { SimulationResult } from '@/lib/dex/simulation'
+import type { SandwichCheck } from '@/lib/dex/mev-protection'
+import { useWallet } from '@/contexts/WalletContext'
 
 export interface DEXQuote {
   amountOut: string
@@ -12,6 +15,7 @@ export interface DEXQuote {
   route: string[]
   gasEstimate: string
   minimumAmountOut: string
+  routes: SwapRoute[]
   dexName: string
   confidence: number
 }
@@ -21,6 +25,15 @@ export interface BestRoute {
   allQuotes: DEXQuote[]
   savings: string
   savingsPercentage: number
+  routes: SwapRoute[]
+  priceImpact: number
+  transactions?: TradeTransactions
+}
+
+// Best route with the next transaction to sign simulated against the current block
+export interface TradePreview extends BestRoute {
+  transactions: TradeTransactions
+  simulation: SimulationResult
 }
 
 export interface TradeResult {
@@ -31,6 +44,18 @@ export interface TradeResult {
   effectivePrice: string
   priceImpact: number
   dexUsed: string
+  executionMode: ExecutionMode
+  status: TradeStatus
+}
+
+export type TradeStatus = 'pending' | 'confirmed' | 'failed'
+
+export interface TrackedTrade {
+  hash: string
+  status: TradeStatus
+  blockNumber?: number
+  gasUsed?: string
+  sandwich?: SandwichCheck | null // Set once confirmed; null when the block could not be checked
 }
 
 export interface UseDEXTradingReturn {
@@ -44,7 +69,10 @@ export interface UseDEXTradingReturn {
   // Actions
   getQuotes: (params: TradeParams) => Promise<DEXQuote[]>
   findBestRoute: (params: TradeParams) => Promise<BestRoute>
+  previewTrade: (params: TradeParams & { walletAddress: string }) => Promise<TradePreview | null>
   executeTrade: (params: TradeParams & { walletAddress: string }) => Promise<TradeResult>
+  getTradeStatus: (hash: string) => Promise<TrackedTrade | null>
+  getExecutionModes: (walletAddress: string) => ExecutionMode[]
   getSupportedTokens: (chainId: number) => Promise<Token[]>
   getTokenPrice: (tokenA: Token, tokenB: Token) => Promise<number>
   estimateGas: (params: TradeParams) => Promise<{ [dexName: string]: string }>
@@ -54,12 +82,57 @@ export interface UseDEXTradingReturn {
   reset: () => void
 }
 
+class SimulationError extends Error {
+  constructor(simulation: SimulationResult) {
+    const critical = simulation.warnings.filter(warning => warning.severity === 'critical')
+    super(`Simulation failed: ${critical.map(warning => warning.message).join('; ') || 'transaction is not safe to sign'}`)
+    this.name = 'SimulationError'
+  }
+}
+
+const EMPTY_TRADE_RESULT: TradeResult = {
+  hash: '',
+  amountIn: '0',
+  amountOut: '0',
+  gasUsed: '0',
+  effectivePrice: '0',
+  priceImpact: 0,
+  dexUsed: '',
+  executionMode: 'standard',
+  status: 'failed'
+}
+
 export function useDEXTrading(): UseDEXTradingReturn {
+  const { sendTransaction, signTransaction, canSignTransaction, waitForTransaction } = useWallet()
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [quotes, setQuotes] = useState<DEXQuote[]>([])
   const [bestRoute, setBestRoute] = useState<BestRoute | null>(null)
   const [supportedTokens, setSupportedTokens] = useState<Token[]>([])
+  // Trades that do not pick an execution mode use the one saved in the user's trading preferences
+  const [preferredExecutionMode, setPreferredExecutionMode] = useState<ExecutionMode>('standard')
+
+  useEffect(() => {
+    fetch('/api/preferences')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (data?.preferences?.trading?.executionMode) {
+          setPreferredExecutionMode(data.preferences.trading.executionMode)
+        }
+      })
+      .catch(() => {})
+  }, [])
+
+  // Protected swaps are signed without broadcasting, which only some wallets allow
+  const getExecutionModes = useCallback((walletAddress: string): ExecutionMode[] => {
+    return canSignTransaction(walletAddress) ? ['standard', 'mev_protected'] : ['standard']
+  }, [canSignTransaction])
+
+  // A saved preference the wallet cannot execute falls back to standard; an explicit mode is kept
+  const executionModeFor = useCallback((params: TradeParams & { walletAddress: string }): ExecutionMode => {
+    if (params.executionMode) return params.executionMode
+    return getExecutionModes(params.walletAddress).includes(preferredExecutionMode) ? preferredExecutionMode : 'standard'
+  }, [getExecutionModes, preferredExecutionMode])
 
   const clearError = useCallback(() => {
     setError(null)
@@ -92,8 +165,8 @@ export function useDEXTrading(): UseDEXTradingReturn {
       }
 
       return result.data
-    } catch (err: any) {
-      const errorMessage = err.message || 'An unexpected error occurred'
+    } catch (err: unknown) {
+      const errorMessage = (err instanceof Error && err.message) || 'An unexpected error occurred'
       setError(errorMessage)
       console.error('DEX Trading Error:', err)
       return null
@@ -122,7 +195,7 @@ export function useDEXTrading(): UseDEXTradingReturn {
       () => fetch('/api/dex-trading', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'findBestRoute', ...params })
+        body: JSON.stringify({ action: 'findBestRoute', ...params, executionMode: params.executionMode ?? preferredExecutionMode })
       }),
       (data) => {
         setBestRoute(data)
@@ -134,37 +207,131 @@ export function useDEXTrading(): UseDEXTradingReturn {
       bestQuote: {} as DEXQuote,
       allQuotes: [],
       savings: '0',
-      savingsPercentage: 0
+      savingsPercentage: 0,
+      routes: [],
+      priceImpact: 0
     }
-  }, [handleApiCall])
+  }, [handleApiCall, preferredExecutionMode])
 
+  const previewTrade = useCallback(async (
+    params: TradeParams & { walletAddress: string }
+  ): Promise<TradePreview | null> => {
+    return handleApiCall<TradePreview>(
+      () => fetch('/api/dex-trading', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'previewTrade', ...params, executionMode: executionModeFor(params) })
+      })
+    )
+  }, [handleApiCall, executionModeFor])
+
+  // The server only builds unsigned transactions; the connected wallet signs and broadcasts them
+  // once the simulation of each one comes back safe. MEV-protected swaps are signed without
+  // broadcasting and handed to the server's private relay instead.
   const executeTrade = useCallback(async (
     params: TradeParams & { walletAddress: string }
   ): Promise<TradeResult> => {
-    // Note: In a real implementation, this would use Web3 wallet connection
-    // instead of sending private keys to the server
-    const result = await handleApiCall<TradeResult>(
+    const { walletAddress } = params
+    const executionMode = executionModeFor(params)
+    // Checked before anything is signed, so no approval is sent for a swap that cannot follow
+    if (!getExecutionModes(walletAddress).includes(executionMode)) {
+      setError('This wallet cannot sign a transaction without sending it; use standard execution instead')
+      return EMPTY_TRADE_RESULT
+    }
+
+    let route = await previewTrade({ ...params, executionMode })
+    if (!route) {
+      return EMPTY_TRADE_RESULT
+    }
+
+    let hash = ''
+    let signedSwap = ''
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const { approval } = route.transactions
+      if (approval) {
+        if (!route.simulation.safe) {
+          throw new SimulationError(route.simulation)
+        }
+        const approvalHash = await sendTransaction(approval)
+        if (!await waitForTransaction(approval.from, approvalHash)) {
+          throw new Error(`Approval of ${params.tokenIn.symbol} failed`)
+        }
+
+        // The swap can only be simulated once the allowance is in place
+        setIsLoading(false)
+        route = await previewTrade({ ...params, executionMode })
+        if (!route) {
+          return EMPTY_TRADE_RESULT
+        }
+        setIsLoading(true)
+        // Otherwise the safe simulation is of the approval again, not of the swap
+        if (route.transactions.approval) {
+          throw new Error(`Approval of ${params.tokenIn.symbol} has not taken effect yet; try again`)
+        }
+      }
+
+      if (!route.simulation.safe) {
+        throw new SimulationError(route.simulation)
+      }
+      if (executionMode === 'mev_protected') {
+        signedSwap = await signTransaction(route.transactions.swap)
+      } else {
+        hash = await sendTransaction(route.transactions.swap)
+      }
+    } catch (err: unknown) {
+      setError((err instanceof Error && err.message) || 'Transaction was not sent')
+      console.error('DEX Trading Error:', err)
+      return EMPTY_TRADE_RESULT
+    } finally {
+      setIsLoading(false)
+    }
+
+    const trade = await handleApiCall<TrackedTrade>(
       () => fetch('/api/dex-trading', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          action: 'executeTrade', 
-          ...params,
-          // In production, this would be handled client-side with wallet connection
-          privateKey: null // This will cause the API to return an error for security
+        body: JSON.stringify({
+          ...(signedSwap
+            ? { action: 'submitProtectedTrade', signedTransaction: signedSwap }
+            : { action: 'submitTrade', hash }),
+          tokenIn: params.tokenIn,
+          tokenOut: params.tokenOut,
+          amountIn: params.amountIn,
+          walletAddress,
+          dexName: route.bestQuote.dexName
         })
       })
     )
+    // A protected swap only has a hash once the relay has taken it
+    if (signedSwap && !trade) {
+      return EMPTY_TRADE_RESULT
+    }
 
-    return result || {
-      hash: '',
-      amountIn: '0',
-      amountOut: '0',
-      gasUsed: '0',
-      effectivePrice: '0',
-      priceImpact: 0,
-      dexUsed: ''
+    const { amountOut, priceImpact, dexName } = route.bestQuote
+    return {
+      hash: trade?.hash || hash,
+      amountIn: params.amountIn,
+      amountOut,
+      gasUsed: trade?.gasUsed || '0',
+      effectivePrice: (parseFloat(params.amountIn) / parseFloat(amountOut)).toString(),
+      priceImpact,
+      dexUsed: dexName,
+      executionMode,
+      status: trade?.status || 'pending'
     }
+  }, [handleApiCall, previewTrade, executionModeFor, getExecutionModes, sendTransaction, signTransaction, waitForTransaction])
+
+  const getTradeStatus = useCallback(async (hash: string): Promise<TrackedTrade | null> => {
+    return handleApiCall<TrackedTrade>(
+      () => fetch('/api/dex-trading', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'getTradeStatus', hash })
+      })
+    )
   }, [handleApiCall])
 
   const getSupportedTokens = useCallback(async (chainId: number): Promise<Token[]> => {
@@ -217,7 +384,10 @@ export function useDEXTrading(): UseDEXTradingReturn {
     // Actions
     getQuotes,
     findBestRoute,
+    previewTrade,
     executeTrade,
+    getTradeStatus,
+    getExecutionModes,
     getSupportedTokens,
     getTokenPrice,
     estimateGas,
@@ -0,0 +1,46 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { GasSuggestion } from '@/lib/dex/gas-oracle'
+
+// Roughly one Ethereum block; suggestions only change once a block
+const DEFAULT_REFRESH_INTERVAL = 12000
+
+export function useGasOracle(chainId: number | null, refreshInterval: number = DEFAULT_REFRESH_INTERVAL) {
+  const [suggestion, setSuggestion] = useState<GasSuggestion | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!chainId) {
+      setSuggestion(null)
+      return
+    }
+
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/gas?chainId=${chainId}`)
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load gas fees')
+      }
+
+      setSuggestion(result.data)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load gas fees')
+    } finally {
+      setLoading(false)
+    }
+  }, [chainId])
+
+  useEffect(() => {
+    refresh()
+    if (!refreshInterval) return
+
+    const timer = setInterval(refresh, refreshInterval)
+    return () => clearInterval(timer)
+  }, [refresh, refreshInterval])
+
+  return { suggestion, loading, error, refresh }
+}
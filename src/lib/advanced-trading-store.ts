@@ -0,0 +1,329 @@
+/**
+ * Advanced Trading Persistence
+ * Maps AdvancedTradingEngine orders, fills and algorithm runs to Postgres so they survive restarts
+ */
+
+import type {
+  AdvancedOrder,
+  AlgorithmParameters,
+  AlgorithmPerformance,
+  AlgorithmStatus,
+  AlgorithmType,
+  OrderCondition,
+  OrderMetadata,
+  OrderSide,
+  OrderStatus,
+  OrderType,
+  TimeInForce,
+  TradingAlgorithm,
+  TradingPair
+} from './advanced-trading'
+
+// Per-order progress that monitors need to pick up where they left off
+export interface OrderMonitorState {
+  highestPrice?: number
+  lowestPrice?: number
+  stopTriggered?: boolean
+  sliceCount?: number
+  sliceDuration?: number
+  executedSlices?: number
+  nextSliceAt?: number
+}
+
+// Per-algorithm progress that algorithm loops need after a restart
+export interface AlgorithmRunState {
+  orderCount?: number
+  nextRunAt?: number
+}
+
+export interface PersistedOrder {
+  order: AdvancedOrder
+  monitorState: OrderMonitorState
+  version: number
+}
+
+export interface PersistedAlgorithm {
+  algorithm: TradingAlgorithm
+  state: AlgorithmRunState
+  version: number
+}
+
+export interface OrderFillRecord {
+  price: string
+  quantity: string
+  fee: string
+  liquidity: 'maker' | 'taker'
+}
+
+// Column shapes of the TradingOrder and AlgorithmRun tables
+interface TradingOrderRow {
+  id: string
+  userId: string
+  walletAddress: string
+  pair: unknown
+  type: string
+  side: string
+  status: string
+  quantity: string
+  price: string | null
+  stopPrice: string | null
+  limitPrice: string | null
+  trailingAmount: string | null
+  trailingPercent: number | null
+  timeInForce: string
+  conditions: unknown
+  algorithmRunId: string | null
+  filled: string
+  remaining: string
+  averagePrice: string | null
+  fees: string
+  metadata: unknown
+  monitorState: unknown
+  version: number
+  expiresAt: Date | null
+  executedAt: Date | null
+  cancelledAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+interface AlgorithmRunRow {
+  id: string
+  userId: string
+  walletAddress: string
+  type: string
+  status: string
+  parameters: unknown
+  performance: unknown
+  state: unknown
+  version: number
+}
+
+// Orders in these states still have a monitor that must be resumed
+export const NON_TERMINAL_ORDER_STATUSES = ['pending', 'open', 'partially_filled']
+
+// Prisma is loaded lazily so the engine module stays importable from client components
+async function getPrisma() {
+  const { prisma } = await import('@/lib/db')
+  return prisma
+}
+
+function toDate(timestamp?: number): Date | null {
+  return timestamp ? new Date(timestamp) : null
+}
+
+function toTimestamp(date: Date | null | undefined): number | undefined {
+  return date ? new Date(date).getTime() : undefined
+}
+
+function orderToRow(order: AdvancedOrder, monitorState: OrderMonitorState) {
+  return {
+    userId: order.userId,
+    walletAddress: order.walletAddress,
+    pairSymbol: order.pair.symbol,
+    pair: order.pair as unknown as object,
+    type: order.type,
+    side: order.side,
+    status: order.status,
+    quantity: order.quantity,
+    price: order.price ?? null,
+    stopPrice: order.stopPrice ?? null,
+    limitPrice: order.limitPrice ?? null,
+    trailingAmount: order.trailingAmount ?? null,
+    trailingPercent: order.trailingPercent ?? null,
+    timeInForce: order.timeInForce,
+    conditions: order.conditions as unknown as object,
+    algorithmRunId: order.algorithmId ?? null,
+    filled: order.filled,
+    remaining: order.remaining,
+    averagePrice: order.averagePrice ?? null,
+    fees: order.fees,
+    metadata: order.metadata as unknown as object,
+    monitorState: monitorState as object,
+    expiresAt: toDate(order.expiresAt),
+    executedAt: toDate(order.executedAt),
+    cancelledAt: toDate(order.cancelledAt)
+  }
+}
+
+function rowToOrder(row: TradingOrderRow): PersistedOrder {
+  const order: AdvancedOrder = {
+    id: row.id,
+    userId: row.userId,
+    walletAddress: row.walletAddress,
+    pair: row.pair as TradingPair,
+    type: row.type as OrderType,
+    side: row.side as OrderSide,
+    status: row.status as OrderStatus,
+    quantity: row.quantity,
+    price: row.price ?? undefined,
+    stopPrice: row.stopPrice ?? undefined,
+    limitPrice: row.limitPrice ?? undefined,
+    trailingAmount: row.trailingAmount ?? undefined,
+    trailingPercent: row.trailingPercent ?? undefined,
+    timeInForce: row.timeInForce as TimeInForce,
+    conditions: (row.conditions ?? []) as OrderCondition[],
+    algorithmId: row.algorithmRunId ?? undefined,
+    filled: row.filled,
+    remaining: row.remaining,
+    averagePrice: row.averagePrice ?? undefined,
+    fees: row.fees,
+    createdAt: new Date(row.createdAt).getTime(),
+    updatedAt: new Date(row.updatedAt).getTime(),
+    expiresAt: toTimestamp(row.expiresAt),
+    executedAt: toTimestamp(row.executedAt),
+    cancelledAt: toTimestamp(row.cancelledAt),
+    metadata: (row.metadata ?? { source: 'manual' }) as OrderMetadata
+  }
+
+  return {
+    order,
+    monitorState: (row.monitorState ?? {}) as OrderMonitorState,
+    version: row.version
+  }
+}
+
+function rowToAlgorithm(row: AlgorithmRunRow): PersistedAlgorithm {
+  return {
+    algorithm: {
+      id: row.id,
+      userId: row.userId,
+      walletAddress: row.walletAddress,
+      type: row.type as AlgorithmType,
+      status: row.status as AlgorithmStatus,
+      parameters: row.parameters as AlgorithmParameters,
+      performance: row.performance as AlgorithmPerformance
+    },
+    state: (row.state ?? {}) as AlgorithmRunState,
+    version: row.version
+  }
+}
+
+export async function insertOrder(order: AdvancedOrder, monitorState: OrderMonitorState = {}): Promise<number> {
+  const prisma = await getPrisma()
+  const row = await prisma.tradingOrder.create({
+    data: {
+      id: order.id,
+      ...orderToRow(order, monitorState),
+      createdAt: new Date(order.createdAt)
+    }
+  })
+  return row.version
+}
+
+/**
+ * Writes the order only if nobody else has written it since `expectedVersion`.
+ * Returns the new version, or null when another instance owns the order now.
+ */
+export async function updateOrder(
+  order: AdvancedOrder,
+  monitorState: OrderMonitorState,
+  expectedVersion: number
+): Promise<number | null> {
+  const prisma = await getPrisma()
+  const result = await prisma.tradingOrder.updateMany({
+    where: { id: order.id, version: expectedVersion },
+    data: {
+      ...orderToRow(order, monitorState),
+      version: { increment: 1 }
+    }
+  })
+  return result.count === 1 ? expectedVersion + 1 : null
+}
+
+export async function recordFill(orderId: string, fill: OrderFillRecord): Promise<void> {
+  const prisma = await getPrisma()
+  await prisma.orderFill.create({
+    data: { orderId, ...fill }
+  })
+}
+
+export async function findOrder(orderId: string): Promise<PersistedOrder | null> {
+  const prisma = await getPrisma()
+  const row = await prisma.tradingOrder.findUnique({ where: { id: orderId } })
+  return row ? rowToOrder(row) : null
+}
+
+export async function findOrdersByUser(userId: string, statuses?: string[]): Promise<AdvancedOrder[]> {
+  const prisma = await getPrisma()
+  const rows = await prisma.tradingOrder.findMany({
+    where: {
+      userId,
+      ...(statuses ? { status: { in: statuses } } : {})
+    },
+    orderBy: { createdAt: 'asc' }
+  })
+  return rows.map((row: TradingOrderRow) => rowToOrder(row).order)
+}
+
+export async function findNonTerminalOrders(): Promise<PersistedOrder[]> {
+  const prisma = await getPrisma()
+  const rows = await prisma.tradingOrder.findMany({
+    where: { status: { in: NON_TERMINAL_ORDER_STATUSES } },
+    orderBy: { createdAt: 'asc' }
+  })
+  return rows.map(rowToOrder)
+}
+
+export async function insertAlgorithm(algorithm: TradingAlgorithm, state: AlgorithmRunState = {}): Promise<number> {
+  const prisma = await getPrisma()
+  const row = await prisma.algorithmRun.create({
+    data: {
+      id: algorithm.id,
+      userId: algorithm.userId,
+      walletAddress: algorithm.walletAddress,
+      type: algorithm.type,
+      status: algorithm.status,
+      parameters: algorithm.parameters as object,
+      performance: algorithm.performance as unknown as object,
+      state: state as object
+    }
+  })
+  return row.version
+}
+
+/**
+ * Same optimistic write as updateOrder, for algorithm runs.
+ */
+export async function updateAlgorithm(
+  algorithm: TradingAlgorithm,
+  state: AlgorithmRunState,
+  expectedVersion: number
+): Promise<number | null> {
+  const prisma = await getPrisma()
+  const result = await prisma.algorithmRun.updateMany({
+    where: { id: algorithm.id, version: expectedVersion },
+    data: {
+      status: algorithm.status,
+      parameters: algorithm.parameters as object,
+      performance: algorithm.performance as unknown as object,
+      state: state as object,
+      version: { increment: 1 }
+    }
+  })
+  return result.count === 1 ? expectedVersion + 1 : null
+}
+
+export async function findAlgorithm(algorithmId: string): Promise<PersistedAlgorithm | null> {
+  const prisma = await getPrisma()
+  const row = await prisma.algorithmRun.findUnique({ where: { id: algorithmId } })
+  return row ? rowToAlgorithm(row) : null
+}
+
+export async function findAlgorithmsByUser(userId: string): Promise<TradingAlgorithm[]> {
+  const prisma = await getPrisma()
+  const rows = await prisma.algorithmRun.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' }
+  })
+  return rows.map((row: AlgorithmRunRow) => rowToAlgorithm(row).algorithm)
+}
+
+export async function findActiveAlgorithms(): Promise<PersistedAlgorithm[]> {
+  const prisma = await getPrisma()
+  const rows = await prisma.algorithmRun.findMany({
+    where: { status: { in: ['active', 'paused'] } },
+    orderBy: { createdAt: 'asc' }
+  })
+  return rows.map(rowToAlgorithm)
+}
@@ -4,6 +4,13 @@
  */
 
 import { nowNodesService } from './nownodes'
+import * as tradingStore from './advanced-trading-store'
+import type { AlgorithmRunState, OrderMonitorState, PersistedOrder } from './advanced-trading-store'
+import * as candleStore from './candle-store'
+import { PaperTradingVenue, VenueEvent, VenueFill, VenueOrderRequest, VenueOrderResult } from './matching-engine'
+import { PriceFeed, PriceTick, RecordedPriceFeed } from './price-feed'
+import { aggregateCandles, Candle } from './candles'
+import { combineReadings, computeIndicators, evaluateIndicators } from './indicators'
 
 export interface TradingPair {
   id: string
@@ -40,6 +47,7 @@ export interface AdvancedOrder {
   timeInForce: TimeInForce
   conditions: OrderCondition[]
   algorithm?: TradingAlgorithm
+  algorithmId?: string
   filled: string
   remaining: string
   averagePrice?: string
@@ -61,6 +69,9 @@ export interface OrderCondition {
 }
 
 export interface TradingAlgorithm {
+  id: string
+  userId: string
+  walletAddress: string
   type: AlgorithmType
   parameters: AlgorithmParameters
   status: AlgorithmStatus
@@ -143,6 +154,7 @@ export interface MarketData {
   ask: string
   spread: number
   timestamp: number
+  orderBook?: OrderBook
 }
 
 export interface OrderBook {
@@ -184,6 +196,8 @@ export interface SignalIndicator {
   value: number
   signal: 'bullish' | 'bearish' | 'neutral'
   weight: number
+  threshold?: number
+  condition?: string // e.g. "RSI 27.41 < 30 (oversold)"
 }
 
 export interface PortfolioPosition {
@@ -345,6 +359,79 @@ export enum StrategyType {
   MARKET_MAKING = 'market_making'
 }
 
+export const DEFAULT_TRADING_PAIRS: TradingPair[] = [
+  {
+    id: 'eth_usdt',
+    baseAsset: 'ETH',
+    quoteAsset: 'USDT',
+    symbol: 'ETH/USDT',
+    chainId: 1,
+    decimals: { base: 18, quote: 6 },
+    minOrderSize: 0.001,
+    maxOrderSize: 1000,
+    tickSize: 0.01,
+    fees: { maker: 0.001, taker: 0.0015 },
+    isActive: true
+  },
+  {
+    id: 'btc_usdt',
+    baseAsset: 'BTC',
+    quoteAsset: 'USDT',
+    symbol: 'BTC/USDT',
+    chainId: 1,
+    decimals: { base: 8, quote: 6 },
+    minOrderSize: 0.0001,
+    maxOrderSize: 100,
+    tickSize: 0.01,
+    fees: { maker: 0.001, taker: 0.0015 },
+    isActive: true
+  },
+  {
+    id: 'bnb_usdt',
+    baseAsset: 'BNB',
+    quoteAsset: 'USDT',
+    symbol: 'BNB/USDT',
+    chainId: 56,
+    decimals: { base: 18, quote: 6 },
+    minOrderSize: 0.01,
+    maxOrderSize: 10000,
+    tickSize: 0.01,
+    fees: { maker: 0.001, taker: 0.0015 },
+    isActive: true
+  }
+]
+
+export interface AdvancedTradingEngineOptions {
+  priceFeed?: PriceFeed // defaults to the ticks recorded in the candle store for DEFAULT_TRADING_PAIRS
+  persistence?: boolean // set to false to keep orders in memory only
+}
+
+const USD_QUOTES = ['USD', 'USDT', 'USDC']
+
+/**
+ * Recorded ticks for pairs quoted in a dollar stablecoin, from the USD prices stored for their base asset
+ */
+async function loadRecordedTicks(symbols: string[], since: number): Promise<PriceTick[]> {
+  const pairsByAsset = new Map<string, string>()
+  symbols.forEach(symbol => {
+    const [base, quote] = symbol.toUpperCase().split('/')
+    if (base && USD_QUOTES.includes(quote)) pairsByAsset.set(base, symbol)
+  })
+
+  const ticks = await candleStore.findTicksSince(Array.from(pairsByAsset.keys()), since)
+  return ticks.map(tick => ({
+    symbol: pairsByAsset.get(tick.symbol)!,
+    price: tick.price,
+    volume: tick.volume,
+    timestamp: tick.timestamp
+  }))
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const SIGNAL_INTERVAL_MS = 60 * 1000
+const MIN_SIGNAL_CANDLES = 35 // enough for MACD (26 + 9) to warm up
+const QUANTITY_EPSILON = 1e-12
+
 export class AdvancedTradingEngine {
   private static instance: AdvancedTradingEngine
   private orders: Map<string, AdvancedOrder> = new Map()
@@ -355,15 +442,398 @@ export class AdvancedTradingEngine {
   private signals: Map<string, TradingSignal[]> = new Map()
   private positions: Map<string, PortfolioPosition[]> = new Map()
 
+  // Persistence bookkeeping: row versions we last wrote and progress needed to resume
+  private orderVersions: Map<string, number> = new Map()
+  private monitorStates: Map<string, OrderMonitorState> = new Map()
+  private algorithmVersions: Map<string, number> = new Map()
+  private algorithmStates: Map<string, AlgorithmRunState> = new Map()
+  private timers: Map<string, ReturnType<typeof setTimeout>> = new Map()
+  private persistenceEnabled = true
+  private ready: Promise<void> = Promise.resolve()
+
+  // Simulated execution: every fill comes from the venue, which only moves when the feed ticks
+  private priceFeed: PriceFeed
+  private venue: PaperTradingVenue
+  private monitors: Map<string, () => void> = new Map()
+  private orderQueues: Map<string, Promise<void>> = new Map()
+
+  constructor(options: AdvancedTradingEngineOptions = {}) {
+    this.persistenceEnabled = options.persistence ?? true
+    this.priceFeed = options.priceFeed ?? new RecordedPriceFeed(loadRecordedTicks, DEFAULT_TRADING_PAIRS.map(pair => pair.symbol))
+
+    this.venue = new PaperTradingVenue(this.priceFeed)
+    DEFAULT_TRADING_PAIRS.forEach(pair => this.venue.registerPair(pair))
+    this.venue.subscribe(event => this.handleVenueEvent(event))
+  }
+
   static getInstance(): AdvancedTradingEngine {
     if (!AdvancedTradingEngine.instance) {
       AdvancedTradingEngine.instance = new AdvancedTradingEngine()
+      if (typeof window === 'undefined') {
+        // Resume open orders and running algorithms left behind by a previous process
+        AdvancedTradingEngine.instance.ready = AdvancedTradingEngine.instance.recover()
+      }
     }
     return AdvancedTradingEngine.instance
   }
 
+  /**
+   * Resolves once every queued order update (fills, expiries, monitor checks) has
+   * been applied. Lets callers that step a replay feed observe settled state.
+   */
+  async whenIdle(): Promise<void> {
+    await this.ready
+    while (this.orderQueues.size > 0) {
+      await Promise.all(Array.from(this.orderQueues.values()))
+    }
+  }
+
+  /**
+   * Takes up orders other processes placed since this one started, fetches current prices for the
+   * traded assets (which records them as ticks) and publishes the ticks recorded since the last
+   * sync. Run by the worker's trading.refresh-prices job, so resting orders fill without a timer
+   * in the web process.
+   */
+  async refreshPrices(): Promise<void> {
+    await this.ready
+    if (this.persistenceEnabled) {
+      const persistedOrders = await tradingStore.findNonTerminalOrders()
+      persistedOrders.filter(({ order }) => !this.orders.has(order.id)).forEach(persisted => this.resumeOrder(persisted))
+    }
+    await nowNodesService.getCryptoPrices(Array.from(new Set(DEFAULT_TRADING_PAIRS.map(pair => pair.baseAsset))))
+    await this.priceFeed.sync()
+  }
+
+  // A failed read leaves the feed at its last tick rather than failing the caller
+  private async syncPrices(symbol?: string): Promise<void> {
+    if (symbol) this.priceFeed.track(symbol)
+    try {
+      await this.priceFeed.sync()
+    } catch (error) {
+      console.error('Price feed sync failed:', error)
+    }
+  }
+
+  // Recovery
+  private async recover(): Promise<void> {
+    try {
+      const [persistedOrders, persistedAlgorithms] = await Promise.all([
+        tradingStore.findNonTerminalOrders(),
+        tradingStore.findActiveAlgorithms()
+      ])
+
+      for (const { algorithm, state, version } of persistedAlgorithms) {
+        this.algorithms.set(algorithm.id, algorithm)
+        this.algorithmStates.set(algorithm.id, state)
+        this.algorithmVersions.set(algorithm.id, version)
+        this.executeAlgorithm(algorithm)
+      }
+
+      persistedOrders.forEach(persisted => this.resumeOrder(persisted))
+
+      if (persistedOrders.length > 0 || persistedAlgorithms.length > 0) {
+        console.log(`✓ Recovered ${persistedOrders.length} orders and ${persistedAlgorithms.length} algorithms`)
+      }
+    } catch (error) {
+      this.disablePersistence(error)
+    }
+  }
+
+  private resumeOrder({ order, monitorState, version }: PersistedOrder): void {
+    this.orders.set(order.id, order)
+    this.monitorStates.set(order.id, monitorState)
+    this.orderVersions.set(order.id, version)
+    void this.enqueue(order.id, () => this.processOrder(order))
+  }
+
+  private disablePersistence(error: unknown): void {
+    if (this.persistenceEnabled) {
+      console.warn('⚠ Trading persistence unavailable, falling back to in-memory storage:', error)
+    }
+    this.persistenceEnabled = false
+  }
+
+  /**
+   * Stores the new state of an order. Returns false when another instance has
+   * written the order since we last did, in which case we stop driving it here.
+   */
+  private async commitOrder(order: AdvancedOrder): Promise<boolean> {
+    order.updatedAt = Date.now()
+
+    if (this.persistenceEnabled) {
+      const monitorState = this.monitorStates.get(order.id) || {}
+      const version = this.orderVersions.get(order.id)
+
+      try {
+        if (version === undefined) {
+          this.orderVersions.set(order.id, await tradingStore.insertOrder(order, monitorState))
+        } else {
+          const nextVersion = await tradingStore.updateOrder(order, monitorState, version)
+          if (nextVersion === null) {
+            this.releaseOrder(order.id)
+            return false
+          }
+          this.orderVersions.set(order.id, nextVersion)
+        }
+      } catch (error) {
+        this.disablePersistence(error)
+      }
+    }
+
+    this.orders.set(order.id, order)
+    return true
+  }
+
+  private async commitAlgorithm(algorithm: TradingAlgorithm): Promise<boolean> {
+    if (this.persistenceEnabled) {
+      const state = this.algorithmStates.get(algorithm.id) || {}
+      const version = this.algorithmVersions.get(algorithm.id)
+
+      try {
+        if (version === undefined) {
+          this.algorithmVersions.set(algorithm.id, await tradingStore.insertAlgorithm(algorithm, state))
+        } else {
+          const nextVersion = await tradingStore.updateAlgorithm(algorithm, state, version)
+          if (nextVersion === null) {
+            this.releaseAlgorithm(algorithm.id)
+            return false
+          }
+          this.algorithmVersions.set(algorithm.id, nextVersion)
+        }
+      } catch (error) {
+        this.disablePersistence(error)
+      }
+    }
+
+    this.algorithms.set(algorithm.id, algorithm)
+    return true
+  }
+
+  private releaseOrder(orderId: string): void {
+    this.stopOrderMonitor(orderId)
+    const order = this.orders.get(orderId)
+    if (order) {
+      this.venue.cancelOrder(order.pair.symbol, orderId)
+    }
+    this.orders.delete(orderId)
+    this.orderVersions.delete(orderId)
+    this.monitorStates.delete(orderId)
+  }
+
+  private releaseAlgorithm(algorithmId: string): void {
+    this.clearTimer(algorithmId)
+    this.algorithms.delete(algorithmId)
+    this.algorithmVersions.delete(algorithmId)
+    this.algorithmStates.delete(algorithmId)
+  }
+
+  private updateMonitorState(orderId: string, changes: OrderMonitorState): OrderMonitorState {
+    const state = { ...(this.monitorStates.get(orderId) || {}), ...changes }
+    this.monitorStates.set(orderId, state)
+    return state
+  }
+
+  private clearTimer(key: string): void {
+    const timer = this.timers.get(key)
+    if (timer) {
+      clearTimeout(timer)
+      clearInterval(timer)
+      this.timers.delete(key)
+    }
+  }
+
+  private stopOrderMonitor(orderId: string): void {
+    this.clearTimer(orderId)
+    const unsubscribe = this.monitors.get(orderId)
+    if (unsubscribe) {
+      unsubscribe()
+      this.monitors.delete(orderId)
+    }
+  }
+
+  /**
+   * Runs `task` after every earlier task for the same order, so fills, expiries
+   * and monitor checks never interleave on one order.
+   */
+  private enqueue<T>(orderId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.orderQueues.get(orderId) || Promise.resolve()
+    const result = previous.then(task)
+    const settled = result.then(
+      () => undefined,
+      error => console.error(`Order task failed for ${orderId}:`, error)
+    )
+
+    this.orderQueues.set(orderId, settled)
+    settled.then(() => {
+      if (this.orderQueues.get(orderId) === settled) {
+        this.orderQueues.delete(orderId)
+      }
+    })
+    return result
+  }
+
+  /**
+   * Re-evaluates an order on every feed tick for its pair until the check
+   * reports it is done or the order leaves an active state.
+   */
+  private startOrderMonitor(
+    orderId: string,
+    check: (order: AdvancedOrder, tick: PriceTick) => Promise<boolean>
+  ): void {
+    this.stopOrderMonitor(orderId)
+    const symbol = this.orders.get(orderId)?.pair.symbol
+
+    const unsubscribe = this.priceFeed.subscribe(tick => {
+      if (tick.symbol !== symbol) return
+
+      void this.enqueue(orderId, async () => {
+        if (this.monitors.get(orderId) !== unsubscribe) return
+        const order = this.orders.get(orderId)
+        if (!order || !this.isActiveStatus(order.status)) {
+          this.stopOrderMonitor(orderId)
+          return
+        }
+
+        // Untriggered orders are not on the book, so GTD expiry is checked here
+        if (this.hasExpired(order, tick.timestamp)) {
+          this.stopOrderMonitor(orderId)
+          await this.commitOrder({ ...order, status: OrderStatus.EXPIRED })
+          return
+        }
+
+        if (await check(order, tick)) {
+          this.stopOrderMonitor(orderId)
+        }
+      })
+    })
+
+    this.monitors.set(orderId, unsubscribe)
+  }
+
+  private isActiveStatus(status: OrderStatus): boolean {
+    return [OrderStatus.PENDING, OrderStatus.OPEN, OrderStatus.PARTIALLY_FILLED].includes(status)
+  }
+
+  private hasExpired(order: AdvancedOrder, timestamp: number): boolean {
+    return order.timeInForce === TimeInForce.GTD && order.expiresAt !== undefined && order.expiresAt <= timestamp
+  }
+
+  // Fills and expiries of resting orders arrive from the venue as the feed moves
+  private handleVenueEvent(event: VenueEvent): void {
+    const orderId = event.type === 'fill' ? event.fill.orderId : event.orderId
+    if (!this.orders.has(orderId)) return
+
+    void this.enqueue(orderId, async () => {
+      const order = this.orders.get(orderId)
+      if (!order || !this.isActiveStatus(order.status)) return
+
+      if (event.type === 'fill') {
+        await this.fillOrder(order, event.fill)
+      } else {
+        await this.commitOrder({ ...order, status: OrderStatus.EXPIRED })
+      }
+    })
+  }
+
+  private submitToVenue(
+    order: AdvancedOrder,
+    price?: number,
+    quantity: number = parseFloat(order.remaining),
+    timeInForce: TimeInForce = order.timeInForce
+  ): VenueOrderResult {
+    const request: VenueOrderRequest = {
+      id: order.id,
+      pair: order.pair,
+      side: order.side,
+      quantity,
+      price,
+      timeInForce,
+      expiresAt: order.expiresAt
+    }
+    return this.venue.submitOrder(request)
+  }
+
+  /**
+   * Applies the immediate outcome of a venue submission: taker fills, then an
+   * expiry if the venue cancelled the remainder. `changes` ride along with the
+   * first write (e.g. a stop order turning into a market order).
+   */
+  private async applyVenueResult(
+    orderId: string,
+    result: VenueOrderResult,
+    changes: Partial<AdvancedOrder> = {},
+    expireRemainder: boolean = true
+  ): Promise<boolean> {
+    let pending = changes
+
+    for (const fill of result.fills) {
+      const current = this.orders.get(orderId)
+      if (!current) return false
+      if (!(await this.fillOrder(current, fill, pending))) return false
+      pending = {}
+    }
+
+    const current = this.orders.get(orderId)
+    if (!current) return false
+
+    if (result.status === OrderStatus.EXPIRED && expireRemainder && this.isActiveStatus(current.status)) {
+      if (result.reason) {
+        console.log(`Order ${orderId} expired: ${result.reason}`)
+      }
+      return this.commitOrder({ ...current, ...pending, status: OrderStatus.EXPIRED })
+    }
+
+    if (Object.keys(pending).length > 0) {
+      return this.commitOrder({ ...current, ...pending })
+    }
+    return true
+  }
+
+  private async fillOrder(
+    order: AdvancedOrder,
+    fill: VenueFill,
+    changes: Partial<AdvancedOrder> = {}
+  ): Promise<boolean> {
+    const previousFilled = parseFloat(order.filled)
+    const filled = previousFilled + fill.quantity
+    const remaining = parseFloat(order.quantity) - filled
+    const isFilled = remaining <= QUANTITY_EPSILON
+    const previousCost = previousFilled * parseFloat(order.averagePrice || '0')
+
+    const next: AdvancedOrder = {
+      ...order,
+      ...changes,
+      filled: filled.toString(),
+      remaining: (isFilled ? 0 : remaining).toString(),
+      averagePrice: ((previousCost + fill.quantity * fill.price) / filled).toString(),
+      fees: (parseFloat(order.fees) + fill.fee).toString(),
+      status: isFilled ? OrderStatus.FILLED : OrderStatus.PARTIALLY_FILLED,
+      executedAt: isFilled ? fill.timestamp : order.executedAt
+    }
+
+    if (!(await this.commitOrder(next))) return false
+
+    if (this.persistenceEnabled) {
+      try {
+        await tradingStore.recordFill(order.id, {
+          price: fill.price.toString(),
+          quantity: fill.quantity.toString(),
+          fee: fill.fee.toString(),
+          liquidity: fill.liquidity
+        })
+      } catch (error) {
+        this.disablePersistence(error)
+      }
+    }
+
+    return true
+  }
+
   // Order Management
   async createAdvancedOrder(orderData: Partial<AdvancedOrder>): Promise<AdvancedOrder> {
+    await this.ready
+    await this.syncPrices(orderData.pair?.symbol)
+
     const order: AdvancedOrder = {
       id: `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       userId: orderData.userId!,
@@ -381,6 +851,7 @@ export class AdvancedTradingEngine {
       timeInForce: orderData.timeInForce || TimeInForce.GTC,
       conditions: orderData.conditions || [],
       algorithm: orderData.algorithm,
+      algorithmId: orderData.algorithmId,
       filled: '0',
       remaining: orderData.quantity!,
       fees: '0',
@@ -393,11 +864,19 @@ export class AdvancedTradingEngine {
     // Validate order
     await this.validateOrder(order)
 
+    // TWAP slicing parameters are kept with the order so a restart can finish the schedule
+    if (order.type === OrderType.TWAP && order.algorithm) {
+      this.updateMonitorState(order.id, {
+        sliceCount: order.algorithm.parameters.slices,
+        sliceDuration: order.algorithm.parameters.duration
+      })
+    }
+
     // Store order
-    this.orders.set(order.id, order)
+    await this.commitOrder(order)
 
     // Start order processing
-    this.processOrder(order)
+    void this.enqueue(order.id, () => this.processOrder(order))
 
     return order
   }
@@ -424,13 +903,24 @@ export class AdvancedTradingEngine {
       throw new Error('Stop orders require a stop price')
     }
 
+    if (order.type === OrderType.STOP_LIMIT && !order.limitPrice) {
+      throw new Error('Stop-limit orders require a limit price')
+    }
+
+    // Validate TWAP schedule
+    if (order.type === OrderType.TWAP && (!order.algorithm?.parameters.duration || !order.algorithm?.parameters.slices)) {
+      throw new Error('TWAP orders require a duration and number of slices')
+    }
+
     // Additional validations...
   }
 
   private async processOrder(order: AdvancedOrder): Promise<void> {
     try {
-      order.status = OrderStatus.OPEN
-      order.updatedAt = Date.now()
+      if (order.status === OrderStatus.PENDING) {
+        order.status = OrderStatus.OPEN
+        if (!(await this.commitOrder(order))) return
+      }
 
       // Process based on order type
       switch (order.type) {
@@ -438,7 +928,7 @@ export class AdvancedTradingEngine {
           await this.executeMarketOrder(order)
           break
         case OrderType.LIMIT:
-          await this.monitorLimitOrder(order)
+          await this.placeLimitOrder(order, parseFloat(order.price!))
           break
         case OrderType.STOP:
           await this.monitorStopOrder(order)
@@ -460,236 +950,193 @@ export class AdvancedTradingEngine {
       }
     } catch (error) {
       order.status = OrderStatus.REJECTED
-      order.updatedAt = Date.now()
+      await this.commitOrder(order)
       console.error('Order processing failed:', error)
     }
   }
 
-  private async executeMarketOrder(order: AdvancedOrder): Promise<void> {
-    // Mock market order execution
-    const marketPrice = await this.getCurrentPrice(order.pair.symbol)
-    const slippage = 0.001 // 0.1% slippage
-    const executionPrice = order.side === OrderSide.BUY 
-      ? marketPrice * (1 + slippage)
-      : marketPrice * (1 - slippage)
-
-    order.averagePrice = executionPrice.toString()
-    order.filled = order.quantity
-    order.remaining = '0'
-    order.status = OrderStatus.FILLED
-    order.executedAt = Date.now()
-    order.fees = (parseFloat(order.quantity) * executionPrice * order.pair.fees.taker).toString()
-
-    this.orders.set(order.id, order)
+  private async executeMarketOrder(order: AdvancedOrder, changes: Partial<AdvancedOrder> = {}): Promise<boolean> {
+    // Market orders walk the book and never rest: an unfilled remainder expires
+    const timeInForce = order.timeInForce === TimeInForce.FOK ? TimeInForce.FOK : TimeInForce.IOC
+    const result = this.submitToVenue(order, undefined, parseFloat(order.remaining), timeInForce)
+    return this.applyVenueResult(order.id, result, changes)
   }
 
-  private async monitorLimitOrder(order: AdvancedOrder): Promise<void> {
-    // Mock limit order monitoring
-    const checkInterval = setInterval(async () => {
-      const currentPrice = await this.getCurrentPrice(order.pair.symbol)
-      const limitPrice = parseFloat(order.price!)
-
-      const shouldExecute = order.side === OrderSide.BUY 
-        ? currentPrice <= limitPrice
-        : currentPrice >= limitPrice
-
-      if (shouldExecute) {
-        order.averagePrice = order.price!
-        order.filled = order.quantity
-        order.remaining = '0'
-        order.status = OrderStatus.FILLED
-        order.executedAt = Date.now()
-        order.fees = (parseFloat(order.quantity) * limitPrice * order.pair.fees.maker).toString()
-
-        this.orders.set(order.id, order)
-        clearInterval(checkInterval)
-      }
-    }, 1000)
+  private async placeLimitOrder(order: AdvancedOrder, limitPrice: number): Promise<void> {
+    // Whatever does not cross straight away rests on the book; later fills and GTD expiry arrive as venue events
+    const result = this.submitToVenue(order, limitPrice)
+    await this.applyVenueResult(order.id, result)
   }
 
   private async monitorStopOrder(order: AdvancedOrder): Promise<void> {
-    // Mock stop order monitoring
-    const checkInterval = setInterval(async () => {
-      const currentPrice = await this.getCurrentPrice(order.pair.symbol)
-      const stopPrice = parseFloat(order.stopPrice!)
-
-      const shouldTrigger = order.side === OrderSide.BUY 
-        ? currentPrice >= stopPrice
-        : currentPrice <= stopPrice
-
-      if (shouldTrigger) {
-        // Convert to market order
-        order.type = OrderType.MARKET
-        await this.executeMarketOrder(order)
-        clearInterval(checkInterval)
-      }
-    }, 1000)
+    this.startOrderMonitor(order.id, async (current, tick) => {
+      const stopPrice = parseFloat(current.stopPrice!)
+
+      const shouldTrigger = current.side === OrderSide.BUY 
+        ? tick.price >= stopPrice
+        : tick.price <= stopPrice
+
+      if (!shouldTrigger) return false
+
+      // Convert to market order
+      await this.executeMarketOrder(current, { type: OrderType.MARKET })
+      return true
+    })
   }
 
   private async monitorStopLimitOrder(order: AdvancedOrder): Promise<void> {
-    // Mock stop-limit order monitoring
-    let triggered = false
-    const checkInterval = setInterval(async () => {
-      const currentPrice = await this.getCurrentPrice(order.pair.symbol)
-      const stopPrice = parseFloat(order.stopPrice!)
-
-      if (!triggered) {
-        const shouldTrigger = order.side === OrderSide.BUY 
-          ? currentPrice >= stopPrice
-          : currentPrice <= stopPrice
-
-        if (shouldTrigger) {
-          triggered = true
-          // Convert to limit order
-          order.type = OrderType.LIMIT
-        }
-      } else {
-        // Monitor as limit order
-        const limitPrice = parseFloat(order.limitPrice!)
-        const shouldExecute = order.side === OrderSide.BUY 
-          ? currentPrice <= limitPrice
-          : currentPrice >= limitPrice
-
-        if (shouldExecute) {
-          order.averagePrice = order.limitPrice!
-          order.filled = order.quantity
-          order.remaining = '0'
-          order.status = OrderStatus.FILLED
-          order.executedAt = Date.now()
-          order.fees = (parseFloat(order.quantity) * limitPrice * order.pair.fees.maker).toString()
-
-          this.orders.set(order.id, order)
-          clearInterval(checkInterval)
-        }
+    // A recovered order whose stop already fired goes straight back on the book
+    if (this.monitorStates.get(order.id)?.stopTriggered) {
+      await this.placeLimitOrder(order, parseFloat(order.limitPrice!))
+      return
+    }
+
+    this.startOrderMonitor(order.id, async (current, tick) => {
+      const stopPrice = parseFloat(current.stopPrice!)
+      const shouldTrigger = current.side === OrderSide.BUY 
+        ? tick.price >= stopPrice
+        : tick.price <= stopPrice
+
+      if (!shouldTrigger) return false
+
+      // From here on the order behaves as a limit order
+      this.updateMonitorState(current.id, { stopTriggered: true })
+      if (await this.commitOrder(current)) {
+        await this.placeLimitOrder(current, parseFloat(current.limitPrice!))
       }
-    }, 1000)
+      return true
+    })
   }
 
   private async monitorTrailingStopOrder(order: AdvancedOrder): Promise<void> {
-    let highestPrice = order.side === OrderSide.SELL ? await this.getCurrentPrice(order.pair.symbol) : 0
-    let lowestPrice = order.side === OrderSide.BUY ? await this.getCurrentPrice(order.pair.symbol) : Infinity
+    const state = this.monitorStates.get(order.id) || {}
+
+    // Seed the extreme price on first run; a recovered order keeps its stored high-water mark
+    if (order.side === OrderSide.SELL && state.highestPrice === undefined) {
+      this.updateMonitorState(order.id, { highestPrice: await this.getCurrentPrice(order.pair.symbol) })
+      await this.commitOrder(order)
+    }
+    if (order.side === OrderSide.BUY && state.lowestPrice === undefined) {
+      this.updateMonitorState(order.id, { lowestPrice: await this.getCurrentPrice(order.pair.symbol) })
+      await this.commitOrder(order)
+    }
 
-    const checkInterval = setInterval(async () => {
-      const currentPrice = await this.getCurrentPrice(order.pair.symbol)
+    this.startOrderMonitor(order.id, async (current, tick) => {
+      const currentPrice = tick.price
+      const { highestPrice = currentPrice, lowestPrice = currentPrice } = this.monitorStates.get(current.id) || {}
 
-      if (order.side === OrderSide.SELL) {
+      if (current.side === OrderSide.SELL) {
         if (currentPrice > highestPrice) {
-          highestPrice = currentPrice
+          this.updateMonitorState(current.id, { highestPrice: currentPrice })
+          await this.commitOrder(current)
+          return false
         }
 
-        const trailingStop = order.trailingPercent 
-          ? highestPrice * (1 - order.trailingPercent / 100)
-          : highestPrice - parseFloat(order.trailingAmount!)
+        const trailingStop = current.trailingPercent 
+          ? highestPrice * (1 - current.trailingPercent / 100)
+          : highestPrice - parseFloat(current.trailingAmount!)
 
-        if (currentPrice <= trailingStop) {
-          // Execute as market order
-          await this.executeMarketOrder(order)
-          clearInterval(checkInterval)
-        }
+        if (currentPrice > trailingStop) return false
       } else {
         if (currentPrice < lowestPrice) {
-          lowestPrice = currentPrice
+          this.updateMonitorState(current.id, { lowestPrice: currentPrice })
+          await this.commitOrder(current)
+          return false
         }
 
-        const trailingStop = order.trailingPercent 
-          ? lowestPrice * (1 + order.trailingPercent / 100)
-          : lowestPrice + parseFloat(order.trailingAmount!)
+        const trailingStop = current.trailingPercent 
+          ? lowestPrice * (1 + current.trailingPercent / 100)
+          : lowestPrice + parseFloat(current.trailingAmount!)
 
-        if (currentPrice >= trailingStop) {
-          // Execute as market order
-          await this.executeMarketOrder(order)
-          clearInterval(checkInterval)
-        }
+        if (currentPrice < trailingStop) return false
       }
-    }, 1000)
+
+      // Execute as market order
+      await this.executeMarketOrder(current)
+      return true
+    })
   }
 
   private async executeTWAPOrder(order: AdvancedOrder): Promise<void> {
-    const algorithm = order.algorithm!
-    const duration = algorithm.parameters.duration! // seconds
-    const slices = algorithm.parameters.slices!
-    const sliceSize = parseFloat(order.quantity) / slices
-    const interval = duration / slices
-
-    let executedSlices = 0
-    let totalFilled = 0
-    let totalCost = 0
+    const { sliceCount = 1, sliceDuration = 0 } = this.monitorStates.get(order.id) || {}
+    const sliceSize = parseFloat(order.quantity) / sliceCount
+    const interval = sliceDuration / sliceCount
 
     const executeSlice = async () => {
-      if (executedSlices >= slices) {
-        order.status = OrderStatus.FILLED
-        order.filled = totalFilled.toString()
-        order.remaining = '0'
-        order.averagePrice = (totalCost / totalFilled).toString()
-        order.executedAt = Date.now()
-        this.orders.set(order.id, order)
-        return
-      }
-
-      const currentPrice = await this.getCurrentPrice(order.pair.symbol)
-      const slippage = 0.001
-      const executionPrice = order.side === OrderSide.BUY 
-        ? currentPrice * (1 + slippage)
-        : currentPrice * (1 - slippage)
+      this.timers.delete(order.id)
+      const current = this.orders.get(order.id)
+      if (!current || !this.isActiveStatus(current.status)) return
 
-      totalFilled += sliceSize
-      totalCost += sliceSize * executionPrice
-      executedSlices++
+      const { executedSlices = 0 } = this.monitorStates.get(order.id) || {}
+      const isLastSlice = executedSlices + 1 >= sliceCount
 
-      order.filled = totalFilled.toString()
-      order.remaining = (parseFloat(order.quantity) - totalFilled).toString()
-      order.status = executedSlices >= slices ? OrderStatus.FILLED : OrderStatus.PARTIALLY_FILLED
-      order.updatedAt = Date.now()
+      // The last slice takes whatever is left to avoid float dust
+      const quantity = isLastSlice ? parseFloat(current.remaining) : Math.min(sliceSize, parseFloat(current.remaining))
+      const nextSliceAt = Date.now() + interval * 1000
+      this.updateMonitorState(order.id, { executedSlices: executedSlices + 1, nextSliceAt })
+      if (!(await this.commitOrder(current))) return
 
-      this.orders.set(order.id, order)
+      // A slice the book cannot absorb leaves its remainder to later slices; only the last one expires the order
+      const result = this.submitToVenue(current, undefined, quantity, TimeInForce.IOC)
+      if (!(await this.applyVenueResult(order.id, result, {}, isLastSlice))) return
 
-      if (executedSlices < slices) {
-        setTimeout(executeSlice, interval * 1000)
+      if (!isLastSlice) {
+        this.timers.set(order.id, setTimeout(() => void this.enqueue(order.id, executeSlice), interval * 1000))
       }
     }
 
-    executeSlice()
+    // Resume on the original schedule: a recovered order waits only for what is left of its slot
+    const { nextSliceAt } = this.monitorStates.get(order.id) || {}
+    const delay = nextSliceAt ? Math.max(0, nextSliceAt - Date.now()) : 0
+    this.timers.set(order.id, setTimeout(() => void this.enqueue(order.id, executeSlice), delay))
   }
 
   private async executeBracketOrder(order: AdvancedOrder): Promise<void> {
     // Execute main order first
     await this.executeMarketOrder(order)
 
-    if (order.status === OrderStatus.FILLED) {
+    const filledOrder = this.orders.get(order.id)
+    if (filledOrder?.status === OrderStatus.FILLED) {
       // Create stop loss and take profit orders
       const stopLossOrder: Partial<AdvancedOrder> = {
-        userId: order.userId,
-        walletAddress: order.walletAddress,
-        pair: order.pair,
+        userId: filledOrder.userId,
+        walletAddress: filledOrder.walletAddress,
+        pair: filledOrder.pair,
         type: OrderType.STOP,
-        side: order.side === OrderSide.BUY ? OrderSide.SELL : OrderSide.BUY,
-        quantity: order.quantity,
-        stopPrice: order.metadata.riskParameters?.stopLossPercent 
-          ? (parseFloat(order.averagePrice!) * (1 - order.metadata.riskParameters.stopLossPercent / 100)).toString()
+        side: filledOrder.side === OrderSide.BUY ? OrderSide.SELL : OrderSide.BUY,
+        quantity: filledOrder.quantity,
+        stopPrice: filledOrder.metadata.riskParameters?.stopLossPercent 
+          ? (parseFloat(filledOrder.averagePrice!) * (1 - filledOrder.metadata.riskParameters.stopLossPercent / 100)).toString()
           : undefined,
         timeInForce: TimeInForce.GTC,
-        metadata: { source: 'algorithm', parentOrderId: order.id }
+        metadata: { source: 'algorithm', parentOrderId: filledOrder.id }
       }
 
       const takeProfitOrder: Partial<AdvancedOrder> = {
-        userId: order.userId,
-        walletAddress: order.walletAddress,
-        pair: order.pair,
+        userId: filledOrder.userId,
+        walletAddress: filledOrder.walletAddress,
+        pair: filledOrder.pair,
         type: OrderType.LIMIT,
-        side: order.side === OrderSide.BUY ? OrderSide.SELL : OrderSide.BUY,
-        quantity: order.quantity,
-        price: order.metadata.riskParameters?.takeProfitPercent 
-          ? (parseFloat(order.averagePrice!) * (1 + order.metadata.riskParameters.takeProfitPercent / 100)).toString()
+        side: filledOrder.side === OrderSide.BUY ? OrderSide.SELL : OrderSide.BUY,
+        quantity: filledOrder.quantity,
+        price: filledOrder.metadata.riskParameters?.takeProfitPercent 
+          ? (parseFloat(filledOrder.averagePrice!) * (1 + filledOrder.metadata.riskParameters.takeProfitPercent / 100)).toString()
           : undefined,
         timeInForce: TimeInForce.GTC,
-        metadata: { source: 'algorithm', parentOrderId: order.id }
+        metadata: { source: 'algorithm', parentOrderId: filledOrder.id }
       }
 
+      const childOrderIds: string[] = []
       if (stopLossOrder.stopPrice) {
-        await this.createAdvancedOrder(stopLossOrder)
+        childOrderIds.push((await this.createAdvancedOrder(stopLossOrder)).id)
       }
       if (takeProfitOrder.price) {
-        await this.createAdvancedOrder(takeProfitOrder)
+        childOrderIds.push((await this.createAdvancedOrder(takeProfitOrder)).id)
+      }
+
+      if (childOrderIds.length > 0) {
+        filledOrder.metadata = { ...filledOrder.metadata, childOrderIds }
+        await this.commitOrder(filledOrder)
       }
     }
   }
@@ -701,7 +1148,12 @@ export class AdvancedTradingEngine {
     type: AlgorithmType,
     parameters: AlgorithmParameters
   ): Promise<TradingAlgorithm> {
+    await this.ready
+
     const algorithm: TradingAlgorithm = {
+      id: `algo_${type}_${Date.now()}`,
+      userId,
+      walletAddress,
       type,
       parameters,
       status: AlgorithmStatus.ACTIVE,
@@ -717,100 +1169,118 @@ export class AdvancedTradingEngine {
       }
     }
 
-    const algorithmId = `algo_${type}_${Date.now()}`
-    this.algorithms.set(algorithmId, algorithm)
+    await this.commitAlgorithm(algorithm)
 
     // Start algorithm execution
-    this.executeAlgorithm(algorithmId, userId, walletAddress, algorithm)
+    this.executeAlgorithm(algorithm)
 
     return algorithm
   }
 
-  private async executeAlgorithm(
-    algorithmId: string,
-    userId: string,
-    walletAddress: string,
-    algorithm: TradingAlgorithm
-  ): Promise<void> {
+  private async executeAlgorithm(algorithm: TradingAlgorithm): Promise<void> {
     switch (algorithm.type) {
       case AlgorithmType.DCA:
-        await this.executeDCAAlgorithm(algorithmId, userId, walletAddress, algorithm)
+        await this.executeDCAAlgorithm(algorithm)
         break
       case AlgorithmType.GRID:
-        await this.executeGridAlgorithm(algorithmId, userId, walletAddress, algorithm)
+        await this.executeGridAlgorithm(algorithm)
         break
       case AlgorithmType.MOMENTUM:
-        await this.executeMomentumAlgorithm(algorithmId, userId, walletAddress, algorithm)
+        await this.executeMomentumAlgorithm(algorithm)
         break
       case AlgorithmType.MEAN_REVERSION:
-        await this.executeMeanReversionAlgorithm(algorithmId, userId, walletAddress, algorithm)
+        await this.executeMeanReversionAlgorithm(algorithm)
         break
       default:
         console.warn(`Algorithm type ${algorithm.type} not implemented`)
     }
   }
 
-  private async executeDCAAlgorithm(
-    algorithmId: string,
-    userId: string,
-    walletAddress: string,
-    algorithm: TradingAlgorithm
-  ): Promise<void> {
+  /**
+   * Schedules the next tick of an algorithm loop and records when it is due,
+   * so a restarted process keeps the original cadence.
+   */
+  private async scheduleAlgorithmTick(algorithmId: string, delayMs: number, tick: () => Promise<void>): Promise<void> {
+    this.clearTimer(algorithmId)
+    const algorithm = this.algorithms.get(algorithmId)
+    if (!algorithm) return
+
+    this.algorithmStates.set(algorithmId, {
+      ...(this.algorithmStates.get(algorithmId) || {}),
+      nextRunAt: Date.now() + delayMs
+    })
+    if (!(await this.commitAlgorithm(algorithm))) return
+
+    this.timers.set(algorithmId, setTimeout(() => {
+      this.timers.delete(algorithmId)
+      tick().catch(error => console.error(`Algorithm ${algorithmId} failed:`, error))
+    }, delayMs))
+  }
+
+  private initialAlgorithmDelay(algorithmId: string): number {
+    const { nextRunAt } = this.algorithmStates.get(algorithmId) || {}
+    return nextRunAt ? Math.max(0, nextRunAt - Date.now()) : 0
+  }
+
+  private async executeDCAAlgorithm(algorithm: TradingAlgorithm): Promise<void> {
     const { interval, amount, maxOrders } = algorithm.parameters
-    let orderCount = 0
 
     const executeOrder = async () => {
-      if (algorithm.status !== AlgorithmStatus.ACTIVE || orderCount >= maxOrders!) {
-        algorithm.status = AlgorithmStatus.COMPLETED
+      const current = this.algorithms.get(algorithm.id)
+      if (!current || current.status === AlgorithmStatus.STOPPED || current.status === AlgorithmStatus.COMPLETED) {
         return
       }
 
-      // Create DCA order (mock implementation)
-      const mockPair: TradingPair = {
-        id: 'eth_usdt',
-        baseAsset: 'ETH',
-        quoteAsset: 'USDT',
-        symbol: 'ETH/USDT',
-        chainId: 1,
-        decimals: { base: 18, quote: 6 },
-        minOrderSize: 0.001,
-        maxOrderSize: 1000,
-        tickSize: 0.01,
-        fees: { maker: 0.001, taker: 0.0015 },
-        isActive: true
+      // Paused runs keep their place and check back on the next interval
+      if (current.status === AlgorithmStatus.PAUSED) {
+        await this.scheduleAlgorithmTick(current.id, interval! * 1000, executeOrder)
+        return
+      }
+
+      const { orderCount = 0 } = this.algorithmStates.get(current.id) || {}
+      if (orderCount >= maxOrders!) {
+        current.status = AlgorithmStatus.COMPLETED
+        current.performance.endTime = Date.now()
+        await this.commitAlgorithm(current)
+        return
       }
 
       const order: Partial<AdvancedOrder> = {
-        userId,
-        walletAddress,
-        pair: mockPair,
+        userId: current.userId,
+        walletAddress: current.walletAddress,
+        pair: DEFAULT_TRADING_PAIRS[0],
         type: OrderType.MARKET,
         side: OrderSide.BUY,
         quantity: amount,
         timeInForce: TimeInForce.IOC,
+        algorithmId: current.id,
         metadata: { source: 'algorithm', tags: ['DCA'] }
       }
 
-      await this.createAdvancedOrder(order)
-      orderCount++
+      // The installment is counted before its order is placed, so a process that dies in between
+      // skips it instead of buying it again when the run resumes elsewhere
+      current.performance.totalOrders++
+      this.algorithmStates.set(current.id, {
+        ...(this.algorithmStates.get(current.id) || {}),
+        orderCount: orderCount + 1
+      })
+      if (!(await this.commitAlgorithm(current))) return
 
-      algorithm.performance.totalOrders++
-      this.algorithms.set(algorithmId, algorithm)
+      await this.createAdvancedOrder(order)
 
-      if (orderCount < maxOrders!) {
-        setTimeout(executeOrder, interval! * 1000)
+      if (orderCount + 1 < maxOrders!) {
+        await this.scheduleAlgorithmTick(current.id, interval! * 1000, executeOrder)
+      } else {
+        current.status = AlgorithmStatus.COMPLETED
+        current.performance.endTime = Date.now()
+        await this.commitAlgorithm(current)
       }
     }
 
-    executeOrder()
+    await this.scheduleAlgorithmTick(algorithm.id, this.initialAlgorithmDelay(algorithm.id), executeOrder)
   }
 
-  private async executeGridAlgorithm(
-    algorithmId: string,
-    userId: string,
-    walletAddress: string,
-    algorithm: TradingAlgorithm
-  ): Promise<void> {
+  private async executeGridAlgorithm(algorithm: TradingAlgorithm): Promise<void> {
     const { gridLevels, gridSpacing, basePrice } = algorithm.parameters
     const basePriceNum = parseFloat(basePrice!)
 
@@ -826,135 +1296,156 @@ export class AdvancedTradingEngine {
     }
   }
 
-  private async executeMomentumAlgorithm(
-    algorithmId: string,
-    userId: string,
-    walletAddress: string,
-    algorithm: TradingAlgorithm
-  ): Promise<void> {
+  private async executeMomentumAlgorithm(algorithm: TradingAlgorithm): Promise<void> {
     // Mock momentum algorithm implementation
-    const { lookbackPeriod, momentumThreshold } = algorithm.parameters
+    const { momentumThreshold } = algorithm.parameters
 
     const checkMomentum = async () => {
-      if (algorithm.status !== AlgorithmStatus.ACTIVE) return
+      const current = this.algorithms.get(algorithm.id)
+      if (!current || current.status === AlgorithmStatus.STOPPED) return
 
-      // Calculate momentum (mock)
-      const momentum = Math.random() * 100 - 50 // -50 to +50
-      
-      if (Math.abs(momentum) > momentumThreshold!) {
-        const side = momentum > 0 ? OrderSide.BUY : OrderSide.SELL
+      if (current.status === AlgorithmStatus.ACTIVE) {
+        // Calculate momentum (mock)
+        const momentum = Math.random() * 100 - 50 // -50 to +50
         
-        // Create momentum order (mock)
-        console.log(`Momentum signal: ${side} (strength: ${momentum})`)
+        if (Math.abs(momentum) > momentumThreshold!) {
+          const side = momentum > 0 ? OrderSide.BUY : OrderSide.SELL
+          
+          // Create momentum order (mock)
+          console.log(`Momentum signal: ${side} (strength: ${momentum})`)
+        }
       }
 
-      setTimeout(checkMomentum, 60000) // Check every minute
+      await this.scheduleAlgorithmTick(current.id, 60000, checkMomentum) // Check every minute
     }
 
-    checkMomentum()
+    await this.scheduleAlgorithmTick(algorithm.id, this.initialAlgorithmDelay(algorithm.id), checkMomentum)
   }
 
-  private async executeMeanReversionAlgorithm(
-    algorithmId: string,
-    userId: string,
-    walletAddress: string,
-    algorithm: TradingAlgorithm
-  ): Promise<void> {
+  private async executeMeanReversionAlgorithm(algorithm: TradingAlgorithm): Promise<void> {
     // Mock mean reversion algorithm implementation
-    const { bollinger, rsi } = algorithm.parameters
+    const { rsi } = algorithm.parameters
 
     const checkMeanReversion = async () => {
-      if (algorithm.status !== AlgorithmStatus.ACTIVE) return
-
-      // Calculate indicators (mock)
-      const rsiValue = Math.random() * 100
-      const bollingerPosition = Math.random() * 2 - 1 // -1 to +1
-
-      if (rsiValue < rsi!.oversold && bollingerPosition < -0.8) {
-        console.log('Mean reversion BUY signal')
-      } else if (rsiValue > rsi!.overbought && bollingerPosition > 0.8) {
-        console.log('Mean reversion SELL signal')
+      const current = this.algorithms.get(algorithm.id)
+      if (!current || current.status === AlgorithmStatus.STOPPED) return
+
+      if (current.status === AlgorithmStatus.ACTIVE) {
+        // Calculate indicators (mock)
+        const rsiValue = Math.random() * 100
+        const bollingerPosition = Math.random() * 2 - 1 // -1 to +1
+
+        if (rsiValue < rsi!.oversold && bollingerPosition < -0.8) {
+          console.log('Mean reversion BUY signal')
+        } else if (rsiValue > rsi!.overbought && bollingerPosition > 0.8) {
+          console.log('Mean reversion SELL signal')
+        }
       }
 
-      setTimeout(checkMeanReversion, 30000) // Check every 30 seconds
+      await this.scheduleAlgorithmTick(current.id, 30000, checkMeanReversion) // Check every 30 seconds
     }
 
-    checkMeanReversion()
+    await this.scheduleAlgorithmTick(algorithm.id, this.initialAlgorithmDelay(algorithm.id), checkMeanReversion)
   }
 
   // Market Data
   private async getCurrentPrice(symbol: string): Promise<number> {
-    // Mock price data - in real implementation, this would fetch from exchanges
-    const mockPrices: { [key: string]: number } = {
-      'ETH/USDT': 2500 + Math.random() * 100 - 50,
-      'BTC/USDT': 45000 + Math.random() * 1000 - 500,
-      'BNB/USDT': 300 + Math.random() * 20 - 10
+    await this.syncPrices(symbol)
+    const tick = this.priceFeed.getLatestTick(symbol)
+    if (!tick) {
+      throw new Error(`No price available for ${symbol}`)
     }
-
-    return mockPrices[symbol] || 1000
+    return tick.price
   }
 
   async getMarketData(symbol: string): Promise<MarketData> {
     const price = await this.getCurrentPrice(symbol)
-    const change24h = (Math.random() * 200 - 100).toString()
-    
+    const { timestamp } = this.priceFeed.getLatestTick(symbol)!
+    const history = this.priceFeed.getHistory(symbol, timestamp - DAY_MS)
+    const openPrice = history[0]?.price ?? price
+    const change24h = price - openPrice
+
+    const orderBook = this.venue.getOrderBook(symbol)
+    const bid = orderBook.bids.length > 0 ? parseFloat(orderBook.bids[0][0]) : price
+    const ask = orderBook.asks.length > 0 ? parseFloat(orderBook.asks[0][0]) : price
+
     const marketData: MarketData = {
       symbol,
       price: price.toString(),
-      change24h,
-      changePercent24h: parseFloat(change24h) / price * 100,
-      volume24h: (Math.random() * 1000000).toString(),
-      high24h: (price * 1.05).toString(),
-      low24h: (price * 0.95).toString(),
-      bid: (price * 0.999).toString(),
-      ask: (price * 1.001).toString(),
-      spread: price * 0.002,
-      timestamp: Date.now()
+      change24h: change24h.toString(),
+      changePercent24h: openPrice > 0 ? change24h / openPrice * 100 : 0,
+      volume24h: history.reduce((sum, tick) => sum + tick.volume, 0).toString(),
+      high24h: Math.max(...history.map(tick => tick.price), price).toString(),
+      low24h: Math.min(...history.map(tick => tick.price), price).toString(),
+      bid: bid.toString(),
+      ask: ask.toString(),
+      spread: ask - bid,
+      timestamp,
+      orderBook
     }
 
     this.marketData.set(symbol, marketData)
+    this.orderBooks.set(symbol, orderBook)
     return marketData
   }
 
+  /**
+   * Candles built from the price feed's tick history for `symbol`.
+   */
+  getCandles(symbol: string, intervalMs: number = SIGNAL_INTERVAL_MS): Candle[] {
+    this.priceFeed.track(symbol)
+    return aggregateCandles(this.priceFeed.getHistory(symbol), intervalMs)
+  }
+
   async generateTradingSignals(symbol: string): Promise<TradingSignal[]> {
+    await this.syncPrices(symbol)
     const signals: TradingSignal[] = []
-    const currentPrice = await this.getCurrentPrice(symbol)
+    const candles = this.getCandles(symbol)
 
-    // Mock technical analysis signals
-    const rsiSignal: TradingSignal = {
-      id: `signal_rsi_${Date.now()}`,
-      symbol,
-      type: SignalType.TECHNICAL,
-      side: Math.random() > 0.5 ? OrderSide.BUY : OrderSide.SELL,
-      strength: Math.random() * 100,
-      price: currentPrice.toString(),
-      timeframe: '1h',
-      indicators: [
-        {
-          name: 'RSI',
-          value: Math.random() * 100,
-          signal: Math.random() > 0.5 ? 'bullish' : 'bearish',
-          weight: 0.3
-        },
-        {
-          name: 'MACD',
-          value: Math.random() * 2 - 1,
-          signal: Math.random() > 0.5 ? 'bullish' : 'bearish',
-          weight: 0.4
-        },
-        {
-          name: 'Bollinger Bands',
-          value: Math.random() * 2 - 1,
-          signal: Math.random() > 0.5 ? 'bullish' : 'bearish',
-          weight: 0.3
-        }
-      ],
-      confidence: Math.random() * 100,
-      createdAt: Date.now(),
-      expiresAt: Date.now() + 3600000 // 1 hour
+    // Not enough history yet to compute the indicators honestly
+    if (candles.length < MIN_SIGNAL_CANDLES) {
+      return signals
     }
 
-    signals.push(rsiSignal)
+    const snapshot = computeIndicators(candles, DAY_MS)!
+    const readings = evaluateIndicators(snapshot)
+    const score = combineReadings(readings)
+
+    if (score !== 0) {
+      const side = score > 0 ? OrderSide.BUY : OrderSide.SELL
+      const agreeing = readings.filter(reading => reading.signal === (side === OrderSide.BUY ? 'bullish' : 'bearish'))
+      const price = snapshot.close
+      const atr = snapshot.atr14
+
+      const signal: TradingSignal = {
+        id: `signal_technical_${symbol}_${snapshot.timestamp}`,
+        symbol,
+        type: SignalType.TECHNICAL,
+        side,
+        strength: Math.abs(score) * 100,
+        price: price.toString(),
+        // Risk levels sit two and three ATRs away from the entry
+        stopLoss: atr ? (side === OrderSide.BUY ? price - 2 * atr : price + 2 * atr).toString() : undefined,
+        takeProfit: atr ? (side === OrderSide.BUY ? price + 3 * atr : price - 3 * atr).toString() : undefined,
+        timeframe: '1m',
+        indicators: readings.map(reading => ({
+          name: reading.name,
+          value: reading.value,
+          signal: reading.signal,
+          weight: reading.weight,
+          threshold: reading.threshold,
+          condition: reading.condition
+        })),
+        confidence: agreeing.length > 0
+          ? agreeing.reduce((sum, reading) => sum + reading.strength * reading.weight, 0) /
+            agreeing.reduce((sum, reading) => sum + reading.weight, 0)
+          : 0,
+        createdAt: snapshot.timestamp,
+        expiresAt: snapshot.timestamp + 60 * 60 * 1000 // 1 hour
+      }
+
+      signals.push(signal)
+    }
     
     const existingSignals = this.signals.get(symbol) || []
     this.signals.set(symbol, [...existingSignals, ...signals])
@@ -963,69 +1454,165 @@ export class AdvancedTradingEngine {
   }
 
   // Public methods
-  getOrder(orderId: string): AdvancedOrder | undefined {
+  async getOrder(orderId: string): Promise<AdvancedOrder | undefined> {
+    await this.ready
+
+    if (this.persistenceEnabled) {
+      try {
+        const persisted = await tradingStore.findOrder(orderId)
+        return persisted?.order
+      } catch (error) {
+        this.disablePersistence(error)
+      }
+    }
+
     return this.orders.get(orderId)
   }
 
-  getUserOrders(userId: string): AdvancedOrder[] {
+  async getUserOrders(userId: string): Promise<AdvancedOrder[]> {
+    await this.ready
+
+    if (this.persistenceEnabled) {
+      try {
+        return await tradingStore.findOrdersByUser(userId)
+      } catch (error) {
+        this.disablePersistence(error)
+      }
+    }
+
     return Array.from(this.orders.values()).filter(order => order.userId === userId)
   }
 
-  getActiveOrders(userId: string): AdvancedOrder[] {
-    return this.getUserOrders(userId).filter(order => 
-      [OrderStatus.OPEN, OrderStatus.PARTIALLY_FILLED].includes(order.status)
+  async getActiveOrders(userId: string): Promise<AdvancedOrder[]> {
+    const activeStatuses = [OrderStatus.OPEN, OrderStatus.PARTIALLY_FILLED]
+    await this.ready
+
+    if (this.persistenceEnabled) {
+      try {
+        return await tradingStore.findOrdersByUser(userId, activeStatuses)
+      } catch (error) {
+        this.disablePersistence(error)
+      }
+    }
+
+    return Array.from(this.orders.values()).filter(order =>
+      order.userId === userId && activeStatuses.includes(order.status)
     )
   }
 
   async cancelOrder(orderId: string): Promise<boolean> {
-    const order = this.orders.get(orderId)
-    if (!order || order.status === OrderStatus.FILLED) {
-      return false
-    }
+    await this.ready
+
+    // Queued behind any fill still being applied, so a cancel never overwrites it
+    return this.enqueue(orderId, async () => {
+      let order = this.orders.get(orderId)
+
+      // The order may be monitored by another instance; take it over from the database
+      if (!order && this.persistenceEnabled) {
+        try {
+          const persisted = await tradingStore.findOrder(orderId)
+          if (persisted) {
+            order = persisted.order
+            this.monitorStates.set(orderId, persisted.monitorState)
+            this.orderVersions.set(orderId, persisted.version)
+          }
+        } catch (error) {
+          this.disablePersistence(error)
+        }
+      }
 
-    order.status = OrderStatus.CANCELLED
-    order.cancelledAt = Date.now()
-    order.updatedAt = Date.now()
-    
-    this.orders.set(orderId, order)
-    return true
+      if (!order || !this.isActiveStatus(order.status)) {
+        return false
+      }
+
+      this.stopOrderMonitor(orderId)
+      this.venue.cancelOrder(order.pair.symbol, orderId)
+      const cancelled: AdvancedOrder = {
+        ...order,
+        status: OrderStatus.CANCELLED,
+        cancelledAt: Date.now()
+      }
+
+      return this.commitOrder(cancelled)
+    })
   }
 
-  getAlgorithm(algorithmId: string): TradingAlgorithm | undefined {
+  async getAlgorithm(algorithmId: string): Promise<TradingAlgorithm | undefined> {
+    await this.ready
+
+    if (this.persistenceEnabled) {
+      try {
+        const persisted = await tradingStore.findAlgorithm(algorithmId)
+        return persisted?.algorithm
+      } catch (error) {
+        this.disablePersistence(error)
+      }
+    }
+
     return this.algorithms.get(algorithmId)
   }
 
-  getUserAlgorithms(userId: string): TradingAlgorithm[] {
-    // In a real implementation, this would filter by userId
-    return Array.from(this.algorithms.values())
+  async getUserAlgorithms(userId: string): Promise<TradingAlgorithm[]> {
+    await this.ready
+
+    if (this.persistenceEnabled) {
+      try {
+        return await tradingStore.findAlgorithmsByUser(userId)
+      } catch (error) {
+        this.disablePersistence(error)
+      }
+    }
+
+    return Array.from(this.algorithms.values()).filter(algorithm => algorithm.userId === userId)
   }
 
-  async pauseAlgorithm(algorithmId: string): Promise<boolean> {
-    const algorithm = this.algorithms.get(algorithmId)
+  private async setAlgorithmStatus(algorithmId: string, status: AlgorithmStatus): Promise<boolean> {
+    await this.ready
+
+    let algorithm = this.algorithms.get(algorithmId)
+    let takenOver = false
+
+    // The run may be driven by another instance; our write makes it step back, so we take over
+    if (!algorithm && this.persistenceEnabled) {
+      try {
+        const persisted = await tradingStore.findAlgorithm(algorithmId)
+        if (persisted) {
+          algorithm = persisted.algorithm
+          this.algorithmStates.set(algorithmId, persisted.state)
+          this.algorithmVersions.set(algorithmId, persisted.version)
+          takenOver = true
+        }
+      } catch (error) {
+        this.disablePersistence(error)
+      }
+    }
+
     if (!algorithm) return false
 
-    algorithm.status = AlgorithmStatus.PAUSED
-    this.algorithms.set(algorithmId, algorithm)
+    algorithm.status = status
+    if (status === AlgorithmStatus.STOPPED) {
+      algorithm.performance.endTime = Date.now()
+      this.clearTimer(algorithmId)
+    }
+
+    if (!(await this.commitAlgorithm(algorithm))) return false
+
+    if (takenOver && status !== AlgorithmStatus.STOPPED) {
+      this.executeAlgorithm(algorithm)
+    }
     return true
   }
 
-  async resumeAlgorithm(algorithmId: string): Promise<boolean> {
-    const algorithm = this.algorithms.get(algorithmId)
-    if (!algorithm) return false
+  async pauseAlgorithm(algorithmId: string): Promise<boolean> {
+    return this.setAlgorithmStatus(algorithmId, AlgorithmStatus.PAUSED)
+  }
 
-    algorithm.status = AlgorithmStatus.ACTIVE
-    this.algorithms.set(algorithmId, algorithm)
-    return true
+  async resumeAlgorithm(algorithmId: string): Promise<boolean> {
+    return this.setAlgorithmStatus(algorithmId, AlgorithmStatus.ACTIVE)
   }
 
   async stopAlgorithm(algorithmId: string): Promise<boolean> {
-    const algorithm = this.algorithms.get(algorithmId)
-    if (!algorithm) return false
-
-    algorithm.status = AlgorithmStatus.STOPPED
-    algorithm.performance.endTime = Date.now()
-    this.algorithms.set(algorithmId, algorithm)
-    return true
+    return this.setAlgorithmStatus(algorithmId, AlgorithmStatus.STOPPED)
   }
 
   getTradingSignals(symbol: string): TradingSignal[] {
@@ -1038,4 +1625,4 @@ export class AdvancedTradingEngine {
 }
 
 // Global trading engine instance
-export const advancedTradingEngine = AdvancedTradingEngine.getInstance()
\ No newline at end of file
+export const advancedTradingEngine = AdvancedTradingEngine.getInstance()
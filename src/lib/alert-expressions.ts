@@ -0,0 +1,210 @@
+/**
+ * Alert Expressions
+ * Parsing, description and evaluation of composite alert conditions, e.g.
+ * "BTC price < 60000 AND ETH/BTC ratio > 0.06"
+ */
+
+import type {
+  AlertConditionNode,
+  AlertExpression,
+  AlertOperator,
+  AlertSubject,
+  AlertType
+} from '@/types/price-alerts'
+
+export const MAX_EXPRESSION_DEPTH = 4
+export const MAX_EXPRESSION_CONDITIONS = 10
+
+// Condition types each subject can be measured by
+export const SUBJECT_CONDITION_TYPES: Record<AlertSubject['kind'], AlertType[]> = {
+  asset: ['price_threshold', 'price_change', 'volume_spike', 'market_cap_change', 'volatility'],
+  ratio: ['price_threshold', 'price_change', 'volatility'],
+  portfolio: ['price_threshold', 'price_change'],
+  defi_health: ['price_threshold']
+}
+
+const OPERATORS: AlertOperator[] = ['GT', 'LT', 'EQ']
+const OPERATOR_SYMBOLS: Record<AlertOperator, string> = { GT: '>', LT: '<', EQ: '=' }
+const SYMBOL_PATTERN = /^[A-Z0-9]{1,15}$/
+const TIMEFRAME_PATTERN = /^\d+[mhdw]$/
+
+export class AlertExpressionError extends Error {
+  constructor(public errors: string[]) {
+    super(`Invalid alert expression: ${errors.join('; ')}`)
+    this.name = 'AlertExpressionError'
+  }
+}
+
+/**
+ * Validates an expression tree from untrusted input and returns a normalized copy
+ * (symbols uppercased, unknown fields dropped). Throws AlertExpressionError listing every problem.
+ */
+export function parseAlertExpression(input: unknown): AlertExpression {
+  const errors: string[] = []
+  let conditions = 0
+
+  const parseSymbol = (value: unknown, path: string): string => {
+    const symbol = typeof value === 'string' ? value.trim().toUpperCase() : ''
+    if (!SYMBOL_PATTERN.test(symbol)) errors.push(`${path} must be a ticker symbol`)
+    return symbol
+  }
+
+  const parseSubject = (value: unknown, path: string): AlertSubject => {
+    const subject = (value ?? {}) as { [key: string]: unknown }
+    switch (subject.kind) {
+      case 'asset':
+        return { kind: 'asset', symbol: parseSymbol(subject.symbol, `${path}.symbol`) }
+      case 'ratio': {
+        const base = parseSymbol(subject.base, `${path}.base`)
+        const quote = parseSymbol(subject.quote, `${path}.quote`)
+        if (base && base === quote) errors.push(`${path} must compare two different assets`)
+        return { kind: 'ratio', base, quote }
+      }
+      case 'portfolio':
+      case 'defi_health':
+        return { kind: subject.kind }
+      default:
+        errors.push(`${path}.kind must be one of ${Object.keys(SUBJECT_CONDITION_TYPES).join(', ')}`)
+        return { kind: 'asset', symbol: '' }
+    }
+  }
+
+  const parseNode = (value: unknown, path: string, depth: number): AlertExpression => {
+    const node = (value ?? {}) as { [key: string]: unknown }
+
+    if (node.kind === 'group') {
+      const logic = node.logic === 'OR' ? 'OR' : 'AND'
+      // Past either limit the rest of the input is not read, so no input can exhaust the stack
+      if (depth >= MAX_EXPRESSION_DEPTH) {
+        errors.push(`${path} nests deeper than ${MAX_EXPRESSION_DEPTH} levels`)
+        return { kind: 'group', logic, children: [] }
+      }
+      if (node.logic !== 'AND' && node.logic !== 'OR') errors.push(`${path}.logic must be AND or OR`)
+      const children = Array.isArray(node.children) ? node.children : []
+      if (children.length < 2) errors.push(`${path} needs at least two conditions`)
+      const parsed: AlertExpression[] = []
+      for (let i = 0; i < children.length && conditions <= MAX_EXPRESSION_CONDITIONS; i++) {
+        parsed.push(parseNode(children[i], `${path}.children[${i}]`, depth + 1))
+      }
+      return { kind: 'group', logic, children: parsed }
+    }
+
+    if (node.kind !== 'condition') {
+      errors.push(`${path}.kind must be condition or group`)
+      return { kind: 'group', logic: 'AND', children: [] }
+    }
+
+    conditions++
+    const subject = parseSubject(node.subject, `${path}.subject`)
+    const type = node.type as AlertType
+    if (!SUBJECT_CONDITION_TYPES[subject.kind].includes(type)) {
+      errors.push(`${path}.type must be one of ${SUBJECT_CONDITION_TYPES[subject.kind].join(', ')} for ${subject.kind}`)
+    }
+    const operator = node.operator as AlertOperator
+    if (!OPERATORS.includes(operator)) errors.push(`${path}.operator must be GT, LT or EQ`)
+    if (typeof node.value !== 'number' || !isFinite(node.value)) errors.push(`${path}.value must be a number`)
+    if (node.timeframe !== undefined && (typeof node.timeframe !== 'string' || !TIMEFRAME_PATTERN.test(node.timeframe))) {
+      errors.push(`${path}.timeframe must look like 15m, 1h, 24h or 7d`)
+    }
+
+    return {
+      kind: 'condition',
+      subject,
+      type,
+      operator,
+      value: node.value as number,
+      ...(node.timeframe !== undefined ? { timeframe: node.timeframe as string } : {})
+    }
+  }
+
+  const expression = parseNode(input, 'expression', 0)
+  if (conditions > MAX_EXPRESSION_CONDITIONS) {
+    errors.push(`expression has more than ${MAX_EXPRESSION_CONDITIONS} conditions`)
+  }
+  if (errors.length > 0) throw new AlertExpressionError(errors)
+  return expression
+}
+
+export function expressionConditions(expression: AlertExpression): AlertConditionNode[] {
+  return expression.kind === 'condition' ? [expression] : expression.children.flatMap(expressionConditions)
+}
+
+/**
+ * Every ticker the expression needs a price for, including both legs of ratios.
+ */
+export function expressionSymbols(expression: AlertExpression): string[] {
+  const symbols = expressionConditions(expression).flatMap(({ subject }) => {
+    if (subject.kind === 'asset') return [subject.symbol]
+    if (subject.kind === 'ratio') return [subject.base, subject.quote]
+    return []
+  })
+  return Array.from(new Set(symbols))
+}
+
+export function subjectKey(subject: AlertSubject): string {
+  switch (subject.kind) {
+    case 'asset':
+      return subject.symbol
+    case 'ratio':
+      return `${subject.base}/${subject.quote}`
+    case 'portfolio':
+      return 'Portfolio'
+    case 'defi_health':
+      return 'DeFi'
+  }
+}
+
+export function describeCondition(condition: AlertConditionNode): string {
+  const timeframe = condition.timeframe ? `${condition.timeframe} ` : ''
+  const level = { asset: 'price', ratio: 'ratio', portfolio: 'value', defi_health: 'health factor' }[condition.subject.kind]
+  const measures: Record<AlertType, string> = {
+    price_threshold: level,
+    price_change: `${timeframe}change`,
+    volume_spike: `volume vs ${timeframe}average`,
+    market_cap_change: `${timeframe}market cap change`,
+    volatility: `${timeframe}volatility`
+  }
+  const unit = condition.type === 'price_threshold' ? '' : '%'
+  return `${subjectKey(condition.subject)} ${measures[condition.type]} ${OPERATOR_SYMBOLS[condition.operator]} ${condition.value}${unit}`
+}
+
+export function describeAlertExpression(expression: AlertExpression, nested = false): string {
+  if (expression.kind === 'condition') return describeCondition(expression)
+  const text = expression.children.map(child => describeAlertExpression(child, true)).join(` ${expression.logic} `)
+  return nested ? `(${text})` : text
+}
+
+export function compareToThreshold(operator: AlertOperator, value: number, threshold: number): boolean {
+  switch (operator) {
+    case 'GT':
+      return value > threshold
+    case 'LT':
+      return value < threshold
+    case 'EQ':
+      return Math.abs(value - threshold) < Math.abs(threshold * 0.001) // 0.1% tolerance
+    default:
+      return false
+  }
+}
+
+/**
+ * Evaluates the tree with `measure` supplying each condition's current value; conditions that
+ * cannot be measured yet count as not met. Returns the conditions that held.
+ */
+export async function evaluateAlertExpression(
+  expression: AlertExpression,
+  measure: (condition: AlertConditionNode) => Promise<number | null>
+): Promise<{ met: boolean; matched: AlertConditionNode[] }> {
+  if (expression.kind === 'condition') {
+    const value = await measure(expression)
+    const met = value !== null && compareToThreshold(expression.operator, value, expression.value)
+    return { met, matched: met ? [expression] : [] }
+  }
+
+  const results = []
+  for (const child of expression.children) {
+    results.push(await evaluateAlertExpression(child, measure))
+  }
+  const met = expression.logic === 'AND' ? results.every(result => result.met) : results.some(result => result.met)
+  return { met, matched: met ? results.flatMap(result => result.matched) : [] }
+}
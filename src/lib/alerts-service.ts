@@ -38,7 +38,7 @@ export async function deleteAlert(userId: string, id: string) {
 }
 
 // One-off check used by poller
-import { emailService } from '@/lib/email-service'
+import { notificationService } from '@/lib/notifications'
 
 export async function checkAndTriggerAlerts() {
   const active = await prisma.alert.findMany({ where: { active: true } })
@@ -73,19 +73,18 @@ export async function checkAndTriggerAlerts() {
     await prisma.alert.update({ where: { id: alert.id }, data: { lastTriggeredAt: now } })
     triggered++
     items.push({ symbol: alert.symbol, operator: alert.operator as Operator, threshold: alert.threshold, price: priceUsd })
-    // Fire-and-forget email stub if SMTP/SES configured; otherwise logs
     try {
-      const user = await prisma.user.findUnique({ where: { id: alert.userId } })
-      if (user?.email) {
-        void emailService.sendAlertTriggered(
-          user.email,
-          alert.symbol,
-          alert.operator as Operator,
-          alert.threshold,
-          priceUsd
-        )
-      }
-    } catch {}
+      await notificationService.publish({
+        userId: alert.userId,
+        category: 'price-alert',
+        priority: 'high',
+        title: `Price alert: ${alert.symbol}`,
+        body: `${alert.symbol} ${alert.operator === 'GT' ? 'above' : 'below'} ${alert.threshold} (price ${priceUsd})`,
+        data: { alertId: alert.id, symbol: alert.symbol, operator: alert.operator, threshold: alert.threshold, price: priceUsd }
+      })
+    } catch (error) {
+      console.error(`Failed to publish notifications for alert ${alert.id}:`, error)
+    }
     console.log(`Price alert triggered: ${alert.symbol} ${alert.operator} ${alert.threshold} (price=${priceUsd}) user=${alert.userId}`)
   }
 
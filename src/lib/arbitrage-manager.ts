@@ -3,6 +3,8 @@
  * Detects and executes arbitrage opportunities across different protocols and chains
  */
 
+import * as arbitrageStore from './arbitrage-store'
+
 export interface ArbitrageOpportunity {
   id: string
   type: 'dex-arbitrage' | 'flash-loan' | 'triangular' | 'cross-chain' | 'statistical'
@@ -119,6 +121,11 @@ export interface ArbitrageAnalytics {
   }[]
 }
 
+export const ARBITRAGE_SCAN_JOB = 'arbitrage.scan'
+
+// Expired opportunities stay in the database this long, so executions can still be attributed to them
+const OPPORTUNITY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
 export class ArbitrageManager {
   private opportunities: Map<string, ArbitrageOpportunity> = new Map()
   private executions: Map<string, ArbitrageExecution> = new Map()
@@ -128,7 +135,8 @@ export class ArbitrageManager {
 
   constructor() {
     this.initializeDefaultStrategies()
-    this.startScanning()
+    // Scans run as the ARBITRAGE_SCAN_JOB background job on the worker, which stores what it
+    // finds; the web process reads the database and the browser reads /api/defi/arbitrage
   }
 
   /**
@@ -164,13 +172,7 @@ export class ArbitrageManager {
     chains?: string[]
     protocols?: string[]
   }): Promise<ArbitrageOpportunity[]> {
-    let opportunities = Array.from(this.opportunities.values())
-
-    // Remove expired opportunities
-    const now = Date.now()
-    opportunities = opportunities.filter(opp => 
-      now - opp.detectedAt < opp.timeWindow * 1000
-    )
+    let opportunities = await this.loadOpenOpportunities()
 
     if (filters) {
       if (filters.type) {
@@ -209,8 +211,8 @@ export class ArbitrageManager {
     userId: string,
     investmentAmount: number
   ): Promise<ArbitrageExecution> {
-    const opportunity = this.opportunities.get(opportunityId)
-    if (!opportunity) {
+    const [opportunity] = await this.findOpportunities([opportunityId])
+    if (!opportunity || this.isExpired(opportunity, Date.now())) {
       throw new Error('Opportunity not found or expired')
     }
 
@@ -275,8 +277,11 @@ export class ArbitrageManager {
     const profitByChain: Record<string, number> = {}
     const profitByProtocol: Record<string, number> = {}
 
+    const opportunities = new Map(
+      (await this.findOpportunities(completed.map(exec => exec.opportunityId))).map(opp => [opp.id, opp])
+    )
     for (const execution of completed) {
-      const opportunity = this.opportunities.get(execution.opportunityId)
+      const opportunity = opportunities.get(execution.opportunityId)
       if (opportunity) {
         profitByType[opportunity.type] = (profitByType[opportunity.type] || 0) + execution.actualProfit
         
@@ -291,7 +296,7 @@ export class ArbitrageManager {
     }
 
     return {
-      totalOpportunities: this.opportunities.size,
+      totalOpportunities: (await this.loadOpenOpportunities()).length,
       successfulTrades: completed.length,
       failedTrades: failed.length,
       totalProfit,
@@ -328,11 +333,16 @@ export class ArbitrageManager {
     return Array.from(this.strategies.values())
   }
 
-  // Private methods
-  private async scanForOpportunities(): Promise<void> {
+  /**
+   * Discover new opportunities, auto-execute them where strategies allow and drop expired ones
+   */
+  async scanForOpportunities(): Promise<void> {
     try {
       // Simulate discovering new opportunities
       const newOpportunities = await this.discoverOpportunities()
+      if (typeof window === 'undefined') {
+        await arbitrageStore.saveOpportunities(newOpportunities)
+      }
       
       for (const opportunity of newOpportunities) {
         this.opportunities.set(opportunity.id, opportunity)
@@ -343,16 +353,59 @@ export class ArbitrageManager {
 
       // Remove expired opportunities
       const now = Date.now()
-      for (const [id, opp] of this.opportunities.entries()) {
-        if (now - opp.detectedAt > opp.timeWindow * 1000) {
-          this.opportunities.delete(id)
-        }
+      this.pruneExpired(now)
+      if (typeof window === 'undefined') {
+        await arbitrageStore.purgeOpportunities(new Date(now - OPPORTUNITY_RETENTION_MS))
       }
     } catch (error) {
       console.error('Error scanning for opportunities:', error)
     }
   }
 
+  // Private methods
+
+  // Open opportunities from the database on the server and from the API in the browser, cached
+  // so they can be executed
+  private async loadOpenOpportunities(): Promise<ArbitrageOpportunity[]> {
+    const opportunities = typeof window === 'undefined'
+      ? await arbitrageStore.findOpenOpportunities()
+      : await this.fetchOpportunities()
+
+    const now = Date.now()
+    this.pruneExpired(now)
+    opportunities.forEach(opp => this.opportunities.set(opp.id, opp))
+    return opportunities.filter(opp => !this.isExpired(opp, now))
+  }
+
+  private async fetchOpportunities(): Promise<ArbitrageOpportunity[]> {
+    const response = await fetch('/api/defi/arbitrage')
+    if (!response.ok) {
+      throw new Error(`Failed to load arbitrage opportunities: ${response.status}`)
+    }
+    const data: { opportunities: ArbitrageOpportunity[] } = await response.json()
+    return data.opportunities
+  }
+
+  // Cached opportunities, with the rest loaded from the database on the server
+  private async findOpportunities(ids: string[]): Promise<ArbitrageOpportunity[]> {
+    const cached = ids.map(id => this.opportunities.get(id)).filter((opp): opp is ArbitrageOpportunity => !!opp)
+    const missing = ids.filter(id => !this.opportunities.has(id))
+    if (missing.length === 0 || typeof window !== 'undefined') return cached
+    return [...cached, ...(await arbitrageStore.findOpportunities(Array.from(new Set(missing))))]
+  }
+
+  private isExpired(opportunity: ArbitrageOpportunity, now: number): boolean {
+    return now - opportunity.detectedAt >= opportunity.timeWindow * 1000
+  }
+
+  private pruneExpired(now: number): void {
+    for (const [id, opp] of Array.from(this.opportunities.entries())) {
+      if (this.isExpired(opp, now)) {
+        this.opportunities.delete(id)
+      }
+    }
+  }
+
   private async discoverOpportunities(): Promise<ArbitrageOpportunity[]> {
     const opportunities: ArbitrageOpportunity[] = []
 
@@ -0,0 +1,62 @@
+/**
+ * Arbitrage Persistence
+ * Opportunities found by the worker's scans are kept in Postgres so the web process can serve them
+ */
+
+import type { ArbitrageOpportunity } from './arbitrage-manager'
+
+// Prisma is loaded lazily so the arbitrage manager stays importable from client components
+async function getPrisma() {
+  const { prisma } = await import('@/lib/db')
+  return prisma
+}
+
+export async function saveOpportunities(opportunities: ArbitrageOpportunity[]): Promise<void> {
+  if (opportunities.length === 0) return
+  const prisma = await getPrisma()
+  await prisma.arbitrageOpportunity.createMany({
+    data: opportunities.map(opportunity => ({
+      id: opportunity.id,
+      type: opportunity.type,
+      netProfitUsd: opportunity.netProfitUsd,
+      opportunity,
+      detectedAt: new Date(opportunity.detectedAt),
+      expiresAt: new Date(opportunity.detectedAt + opportunity.timeWindow * 1000)
+    })),
+    skipDuplicates: true
+  })
+}
+
+// Opportunities that have not expired, most profitable first
+export async function findOpenOpportunities(now: Date = new Date()): Promise<ArbitrageOpportunity[]> {
+  const prisma = await getPrisma()
+  const rows: { opportunity: unknown }[] = await prisma.arbitrageOpportunity.findMany({
+    where: { expiresAt: { gt: now } },
+    orderBy: { netProfitUsd: 'desc' },
+    select: { opportunity: true }
+  })
+  return rows.map(row => row.opportunity as ArbitrageOpportunity)
+}
+
+// Includes expired opportunities that have not been purged yet
+export async function findOpportunities(ids: string[]): Promise<ArbitrageOpportunity[]> {
+  if (ids.length === 0) return []
+  const prisma = await getPrisma()
+  const rows: { opportunity: unknown }[] = await prisma.arbitrageOpportunity.findMany({
+    where: { id: { in: ids } },
+    select: { opportunity: true }
+  })
+  return rows.map(row => row.opportunity as ArbitrageOpportunity)
+}
+
+export async function countOpenOpportunities(now: Date = new Date()): Promise<number> {
+  const prisma = await getPrisma()
+  return prisma.arbitrageOpportunity.count({ where: { expiresAt: { gt: now } } })
+}
+
+// Deletes opportunities that expired before the given time. Returns how many were deleted.
+export async function purgeOpportunities(expiredBefore: Date): Promise<number> {
+  const prisma = await getPrisma()
+  const { count } = await prisma.arbitrageOpportunity.deleteMany({ where: { expiresAt: { lt: expiredBefore } } })
+  return count
+}
@@ -0,0 +1,483 @@
+/**
+ * Strategy Backtester
+ * Replays DCA, grid, momentum and mean-reversion algorithms over historical candles
+ * with fee and slippage models, producing StrategyPerformance and StrategyRiskMetrics
+ */
+
+import {
+  AlgorithmParameters,
+  AlgorithmType,
+  OrderSide,
+  StrategyPerformance,
+  StrategyRiskMetrics,
+  TradingAlgorithm
+} from './advanced-trading'
+import { Candle } from './candles'
+import { BollingerBands, RSI } from './indicators'
+
+export interface FeeModel {
+  maker: number // fraction of notional, e.g. 0.001 = 0.1%
+  taker: number
+}
+
+export interface SlippageModel {
+  bps: number // fixed slippage applied to every market order
+  volumeImpactBps?: number // extra bps per 1% of the candle's volume the order takes
+}
+
+export interface BacktestConfig {
+  type: AlgorithmType
+  parameters: AlgorithmParameters
+  candles: Candle[]
+  symbol?: string
+  initialCapital?: number // quote asset, defaults to 10,000
+  fees?: FeeModel
+  slippage?: SlippageModel
+}
+
+export interface BacktestTrade {
+  timestamp: number
+  side: OrderSide
+  price: number
+  quantity: number
+  fee: number
+  liquidity: 'maker' | 'taker'
+  pnl?: number // realized on sells, net of fees
+}
+
+export interface EquityPoint {
+  timestamp: number
+  equity: number
+  price: number
+}
+
+export interface BacktestResult {
+  symbol: string
+  type: AlgorithmType
+  parameters: AlgorithmParameters
+  startTime: number
+  endTime: number
+  candleCount: number
+  initialCapital: number
+  finalEquity: number
+  finalPosition: { base: number; quote: number }
+  benchmarkReturnPercent: number // buy and hold over the same candles
+  performance: StrategyPerformance
+  riskMetrics: StrategyRiskMetrics
+  trades: BacktestTrade[]
+  equityCurve: EquityPoint[]
+}
+
+export class BacktestError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BacktestError'
+  }
+}
+
+export const DEFAULT_BACKTEST_FEES: FeeModel = { maker: 0.001, taker: 0.0015 }
+export const DEFAULT_BACKTEST_SLIPPAGE: SlippageModel = { bps: 5 }
+
+const DEFAULT_INITIAL_CAPITAL = 10000
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000
+
+type PendingAction = { side: OrderSide; quantity?: number } | null
+
+/**
+ * Spot account the simulated algorithm trades from. Long only: sells are
+ * capped at the base held and buys at the cash available.
+ */
+class BacktestAccount {
+  cash: number
+  base = 0
+  costBasis = 0 // average cost per unit, including buy fees
+  trades: BacktestTrade[] = []
+
+  constructor(initialCapital: number, private fees: FeeModel, private slippage: SlippageModel) {
+    this.cash = initialCapital
+  }
+
+  marketBuy(candle: Candle, price: number, quantity?: number): BacktestTrade | null {
+    const fillPrice = price * (1 + this.slippageRate(candle, quantity))
+    const affordable = this.cash / (fillPrice * (1 + this.fees.taker))
+    return this.buy(candle.timestamp, fillPrice, Math.min(quantity ?? affordable, affordable), 'taker')
+  }
+
+  marketSell(candle: Candle, price: number, quantity?: number): BacktestTrade | null {
+    const fillPrice = price * (1 - this.slippageRate(candle, quantity ?? this.base))
+    return this.sell(candle.timestamp, fillPrice, Math.min(quantity ?? this.base, this.base), 'taker')
+  }
+
+  limitBuy(timestamp: number, price: number, quantity: number): BacktestTrade | null {
+    const affordable = this.cash / (price * (1 + this.fees.maker))
+    return this.buy(timestamp, price, Math.min(quantity, affordable), 'maker')
+  }
+
+  limitSell(timestamp: number, price: number, quantity: number): BacktestTrade | null {
+    return this.sell(timestamp, price, Math.min(quantity, this.base), 'maker')
+  }
+
+  equity(price: number): number {
+    return this.cash + this.base * price
+  }
+
+  private buy(timestamp: number, price: number, quantity: number, liquidity: 'maker' | 'taker'): BacktestTrade | null {
+    if (!(quantity > 1e-12)) return null
+
+    const fee = price * quantity * this.fees[liquidity]
+    this.costBasis = (this.costBasis * this.base + price * quantity + fee) / (this.base + quantity)
+    this.base += quantity
+    this.cash = Math.max(0, this.cash - price * quantity - fee)
+
+    const trade: BacktestTrade = { timestamp, side: OrderSide.BUY, price, quantity, fee, liquidity }
+    this.trades.push(trade)
+    return trade
+  }
+
+  private sell(timestamp: number, price: number, quantity: number, liquidity: 'maker' | 'taker'): BacktestTrade | null {
+    if (!(quantity > 1e-12)) return null
+
+    const fee = price * quantity * this.fees[liquidity]
+    const pnl = price * quantity - fee - this.costBasis * quantity
+    this.base = Math.max(0, this.base - quantity)
+    this.cash += price * quantity - fee
+    if (this.base <= 1e-12) {
+      this.base = 0
+      this.costBasis = 0
+    }
+
+    const trade: BacktestTrade = { timestamp, side: OrderSide.SELL, price, quantity, fee, liquidity, pnl }
+    this.trades.push(trade)
+    return trade
+  }
+
+  private slippageRate(candle: Candle, quantity?: number): number {
+    const impact = this.slippage.volumeImpactBps && quantity && candle.volume > 0
+      ? this.slippage.volumeImpactBps * (quantity / candle.volume) * 100
+      : 0
+    return (this.slippage.bps + impact) / 10000
+  }
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0
+  const average = mean(values)
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1))
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.floor(p * (sorted.length - 1))))
+  return sorted[index]
+}
+
+function requireParameter<T>(value: T | undefined, name: string, type: AlgorithmType): T {
+  if (value === undefined || value === null || (typeof value === 'number' && !(value > 0))) {
+    throw new BacktestError(`${type} backtests require a positive ${name}`)
+  }
+  return value
+}
+
+/**
+ * DCA: buys `amount` base units at the open of the first candle, then again
+ * each time `interval` seconds have passed, up to `maxOrders` buys.
+ */
+function simulateDCA(candles: Candle[], parameters: AlgorithmParameters, account: BacktestAccount, onCandle: (candle: Candle) => void) {
+  const interval = requireParameter(parameters.interval, 'interval', AlgorithmType.DCA) * 1000
+  const amount = parseFloat(requireParameter(parameters.amount, 'amount', AlgorithmType.DCA))
+  const maxOrders = requireParameter(parameters.maxOrders, 'maxOrders', AlgorithmType.DCA)
+
+  let orders = 0
+  let nextBuyAt = candles[0].timestamp
+
+  for (const candle of candles) {
+    if (orders < maxOrders && candle.timestamp >= nextBuyAt) {
+      account.marketBuy(candle, candle.open, amount)
+      orders++
+      nextBuyAt = candle.timestamp + interval
+    }
+    onCandle(candle)
+  }
+}
+
+/**
+ * Grid: a resting buy every `gridSpacing`% below `basePrice` (first open by default).
+ * A filled buy is paired with a sell one spacing above it; when that sells, the buy re-arms.
+ */
+function simulateGrid(
+  candles: Candle[],
+  parameters: AlgorithmParameters,
+  account: BacktestAccount,
+  initialCapital: number,
+  onCandle: (candle: Candle) => void
+) {
+  const gridLevels = requireParameter(parameters.gridLevels, 'gridLevels', AlgorithmType.GRID)
+  const spacing = requireParameter(parameters.gridSpacing, 'gridSpacing', AlgorithmType.GRID) / 100
+  const basePrice = parameters.basePrice ? parseFloat(parameters.basePrice) : candles[0].open
+  const levelQuantity = parameters.amount
+    ? parseFloat(parameters.amount)
+    : initialCapital / gridLevels / basePrice
+
+  const levels = Array.from({ length: gridLevels }, (_, i) => ({
+    buyPrice: basePrice * (1 - spacing * (i + 1)),
+    sellPrice: basePrice * (1 - spacing * i),
+    held: 0
+  }))
+
+  for (const candle of candles) {
+    // Sells first: only positions opened on earlier candles can exit in this one,
+    // and a level that exits does not re-enter until the next candle
+    const exited = new Set<number>()
+    levels.forEach((level, index) => {
+      if (level.held > 0 && candle.high >= level.sellPrice) {
+        const trade = account.limitSell(candle.timestamp, Math.max(level.sellPrice, candle.open), level.held)
+        if (trade) {
+          level.held -= trade.quantity
+          exited.add(index)
+        }
+      }
+    })
+
+    for (const [index, level] of levels.entries()) {
+      if (level.held === 0 && !exited.has(index) && candle.low <= level.buyPrice) {
+        const trade = account.limitBuy(candle.timestamp, Math.min(level.buyPrice, candle.open), levelQuantity)
+        if (trade) level.held = trade.quantity
+      }
+    }
+
+    onCandle(candle)
+  }
+}
+
+/**
+ * Signal-driven algorithms: `signal` looks at closes up to and including the
+ * current candle, and the resulting order fills at the next candle's open.
+ */
+function simulateSignals(
+  candles: Candle[],
+  account: BacktestAccount,
+  signal: (closes: number[], holding: boolean) => PendingAction,
+  onCandle: (candle: Candle) => void
+) {
+  const closes: number[] = []
+  let pending: PendingAction = null
+
+  for (const candle of candles) {
+    if (pending) {
+      if (pending.side === OrderSide.BUY) account.marketBuy(candle, candle.open, pending.quantity)
+      else account.marketSell(candle, candle.open, pending.quantity)
+      pending = null
+    }
+
+    closes.push(candle.close)
+    pending = signal(closes, account.base > 0)
+    onCandle(candle)
+  }
+}
+
+function momentumSignal(parameters: AlgorithmParameters) {
+  const lookback = parameters.lookbackPeriod ?? 14
+  const threshold = requireParameter(parameters.momentumThreshold, 'momentumThreshold', AlgorithmType.MOMENTUM)
+  const quantity = parameters.amount ? parseFloat(parameters.amount) : undefined
+
+  return (closes: number[], holding: boolean): PendingAction => {
+    if (closes.length <= lookback) return null
+    const past = closes[closes.length - 1 - lookback]
+    const momentum = (closes[closes.length - 1] - past) / past * 100
+
+    if (!holding && momentum > threshold) return { side: OrderSide.BUY, quantity }
+    if (holding && momentum < -threshold) return { side: OrderSide.SELL }
+    return null
+  }
+}
+
+function meanReversionSignal(parameters: AlgorithmParameters) {
+  const rsiParameters = parameters.rsi ?? { period: 14, oversold: 30, overbought: 70 }
+  const bollingerParameters = parameters.bollinger ?? { period: 20, stdDev: 2 }
+  const quantity = parameters.amount ? parseFloat(parameters.amount) : undefined
+  const rsi = new RSI(rsiParameters.period)
+  const bollinger = new BollingerBands(bollingerParameters.period, bollingerParameters.stdDev)
+
+  return (closes: number[], holding: boolean): PendingAction => {
+    const close = closes[closes.length - 1]
+    const rsiValue = rsi.update(close)
+    const bands = bollinger.update(close)
+    if (rsiValue === null || !bands) return null
+
+    if (!holding && rsiValue < rsiParameters.oversold && close < bands.lower) return { side: OrderSide.BUY, quantity }
+    if (holding && rsiValue > rsiParameters.overbought && close > bands.upper) return { side: OrderSide.SELL }
+    return null
+  }
+}
+
+function calculatePerformance(trades: BacktestTrade[], initialCapital: number, finalEquity: number): StrategyPerformance {
+  const closed = trades.filter(trade => trade.pnl !== undefined).map(trade => trade.pnl!)
+  const wins = closed.filter(pnl => pnl > 0)
+  const losses = closed.filter(pnl => pnl <= 0)
+  const grossWin = wins.reduce((sum, pnl) => sum + pnl, 0)
+  const grossLoss = Math.abs(losses.reduce((sum, pnl) => sum + pnl, 0))
+  const totalReturn = finalEquity - initialCapital
+
+  return {
+    totalTrades: closed.length,
+    winningTrades: wins.length,
+    losingTrades: losses.length,
+    winRate: closed.length > 0 ? wins.length / closed.length * 100 : 0,
+    averageWin: (wins.length > 0 ? grossWin / wins.length : 0).toString(),
+    averageLoss: (losses.length > 0 ? grossLoss / losses.length : 0).toString(),
+    // Undefined without losing trades; reported as 0 so it serialises cleanly
+    profitFactor: grossLoss > 0 ? grossWin / grossLoss : 0,
+    totalReturn: totalReturn.toString(),
+    totalReturnPercent: totalReturn / initialCapital * 100,
+    sharpeRatio: 0,
+    sortinoRatio: 0,
+    calmarRatio: 0
+  }
+}
+
+/**
+ * Risk metrics from per-candle equity returns. Ratios are annualised from the
+ * median candle spacing with a zero risk-free rate; drawdown, volatility and
+ * VaR are percentages, drawdown duration is in milliseconds.
+ */
+function calculateRiskMetrics(equityCurve: EquityPoint[]): {
+  riskMetrics: StrategyRiskMetrics
+  sharpeRatio: number
+  sortinoRatio: number
+  calmarRatio: number
+} {
+  const returns: number[] = []
+  const benchmarkReturns: number[] = []
+  const spacings: number[] = []
+
+  for (let i = 1; i < equityCurve.length; i++) {
+    const previous = equityCurve[i - 1]
+    const current = equityCurve[i]
+    returns.push(previous.equity > 0 ? current.equity / previous.equity - 1 : 0)
+    benchmarkReturns.push(previous.price > 0 ? current.price / previous.price - 1 : 0)
+    spacings.push(current.timestamp - previous.timestamp)
+  }
+
+  const periodsPerYear = YEAR_MS / Math.max(1, percentile(spacings, 0.5))
+  const averageReturn = mean(returns)
+  const volatility = standardDeviation(returns)
+  const downside = Math.sqrt(mean(returns.map(r => Math.min(0, r) ** 2)))
+
+  let peak = equityCurve[0]
+  let maxDrawdown = 0
+  let maxDrawdownDuration = 0
+  for (const point of equityCurve) {
+    if (point.equity >= peak.equity) {
+      peak = point
+    } else {
+      maxDrawdown = Math.max(maxDrawdown, (peak.equity - point.equity) / peak.equity)
+    }
+    maxDrawdownDuration = Math.max(maxDrawdownDuration, point.timestamp - peak.timestamp)
+  }
+
+  const benchmarkVariance = standardDeviation(benchmarkReturns) ** 2
+  const covariance = returns.length > 1
+    ? returns.reduce((sum, r, i) => sum + (r - averageReturn) * (benchmarkReturns[i] - mean(benchmarkReturns)), 0) / (returns.length - 1)
+    : 0
+  const beta = benchmarkVariance > 0 ? covariance / benchmarkVariance : 0
+  const alpha = (averageReturn - beta * mean(benchmarkReturns)) * periodsPerYear
+
+  const first = equityCurve[0]
+  const last = equityCurve[equityCurve.length - 1]
+  const years = Math.max((last.timestamp - first.timestamp) / YEAR_MS, 1 / periodsPerYear)
+  const annualizedReturn = first.equity > 0 && last.equity > 0 ? (last.equity / first.equity) ** (1 / years) - 1 : -1
+
+  return {
+    riskMetrics: {
+      maxDrawdown: maxDrawdown * 100,
+      maxDrawdownDuration,
+      volatility: volatility * Math.sqrt(periodsPerYear) * 100,
+      var95: Math.max(0, -percentile(returns, 0.05)) * 100,
+      var99: Math.max(0, -percentile(returns, 0.01)) * 100,
+      beta,
+      alpha: alpha * 100
+    },
+    sharpeRatio: volatility > 0 ? averageReturn / volatility * Math.sqrt(periodsPerYear) : 0,
+    sortinoRatio: downside > 0 ? averageReturn / downside * Math.sqrt(periodsPerYear) : 0,
+    calmarRatio: maxDrawdown > 0 ? annualizedReturn / maxDrawdown : 0
+  }
+}
+
+export function runBacktest(config: BacktestConfig): BacktestResult {
+  const { type, parameters, candles } = config
+  const initialCapital = config.initialCapital ?? DEFAULT_INITIAL_CAPITAL
+  const fees = config.fees ?? DEFAULT_BACKTEST_FEES
+  const slippage = config.slippage ?? DEFAULT_BACKTEST_SLIPPAGE
+
+  if (candles.length < 2) {
+    throw new BacktestError('At least two candles are required')
+  }
+  if (!(initialCapital > 0)) {
+    throw new BacktestError('Initial capital must be positive')
+  }
+
+  const account = new BacktestAccount(initialCapital, fees, slippage)
+  const equityCurve: EquityPoint[] = []
+  const recordEquity = (candle: Candle) => {
+    equityCurve.push({ timestamp: candle.timestamp, equity: account.equity(candle.close), price: candle.close })
+  }
+
+  switch (type) {
+    case AlgorithmType.DCA:
+      simulateDCA(candles, parameters, account, recordEquity)
+      break
+    case AlgorithmType.GRID:
+      simulateGrid(candles, parameters, account, initialCapital, recordEquity)
+      break
+    case AlgorithmType.MOMENTUM:
+      simulateSignals(candles, account, momentumSignal(parameters), recordEquity)
+      break
+    case AlgorithmType.MEAN_REVERSION:
+      simulateSignals(candles, account, meanReversionSignal(parameters), recordEquity)
+      break
+    default:
+      throw new BacktestError(`Backtesting is not supported for ${type} algorithms`)
+  }
+
+  const finalEquity = equityCurve[equityCurve.length - 1].equity
+  const { riskMetrics, sharpeRatio, sortinoRatio, calmarRatio } = calculateRiskMetrics(equityCurve)
+  const performance = {
+    ...calculatePerformance(account.trades, initialCapital, finalEquity),
+    sharpeRatio,
+    sortinoRatio,
+    calmarRatio
+  }
+
+  return {
+    symbol: config.symbol ?? 'UNKNOWN',
+    type,
+    parameters,
+    startTime: candles[0].timestamp,
+    endTime: candles[candles.length - 1].timestamp,
+    candleCount: candles.length,
+    initialCapital,
+    finalEquity,
+    finalPosition: { base: account.base, quote: account.cash },
+    benchmarkReturnPercent: (candles[candles.length - 1].close / candles[0].open - 1) * 100,
+    performance,
+    riskMetrics,
+    trades: account.trades,
+    equityCurve
+  }
+}
+
+/**
+ * Convenience wrapper for validating a configured algorithm before it runs live.
+ */
+export function backtestAlgorithm(
+  algorithm: Pick<TradingAlgorithm, 'type' | 'parameters'>,
+  candles: Candle[],
+  options: Omit<BacktestConfig, 'type' | 'parameters' | 'candles'> = {}
+): BacktestResult {
+  return runBacktest({ ...options, type: algorithm.type, parameters: algorithm.parameters, candles })
+}
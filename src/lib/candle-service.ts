@@ -0,0 +1,261 @@
+/**
+ * Candle Service
+ * Records live price ticks, rolls them up into OHLCV candles per interval and backfills gaps
+ * from price history so charts, analytics and indicators share one source of market history
+ */
+
+import type { Candle } from './candles'
+import * as candleStore from './candle-store'
+import type { StoredCandle, StoredTick } from './candle-store'
+import { nowNodesService, PriceHistoryPoint } from './nownodes'
+
+export const CANDLE_INTERVALS = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+} as const
+
+export type CandleInterval = keyof typeof CANDLE_INTERVALS
+
+export const MAX_CANDLES_PER_REQUEST = 1000
+
+export interface MarketTick {
+  symbol: string
+  price: number
+  volume24h: number // Trailing 24h quote volume as reported by the source
+  marketCap?: number
+  source: string
+  timestamp: number
+}
+
+export type CandleStore = Pick<
+  typeof candleStore,
+  'insertTicks' | 'findLatestTicks' | 'findTickTimestamps' | 'findCandles' | 'findCandlesAt' | 'upsertCandles'
+>
+
+export interface CandleServiceOptions {
+  store?: CandleStore
+  fetchHistory?: (symbol: string, from: number, to: number) => Promise<PriceHistoryPoint[]>
+  backfillCooldownMs?: number
+}
+
+export class CandleRangeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CandleRangeError'
+  }
+}
+
+const DAY_MS = CANDLE_INTERVALS['1d']
+// Live ticks further apart than this get no volume rather than a lump of unobserved trading
+const MAX_LIVE_TICK_GAP_MS = 15 * 60 * 1000
+const BACKFILL_COOLDOWN_MS = 5 * 60 * 1000
+
+export function bucketStart(timestamp: number, intervalMs: number): number {
+  return Math.floor(timestamp / intervalMs) * intervalMs
+}
+
+/**
+ * Base volume traded since the previous tick, estimated from the rolling 24h quote volume.
+ */
+function estimateVolume(tick: MarketTick, previous: { timestamp: number } | undefined, maxGapMs: number): number {
+  if (!previous) return 0
+  const elapsed = tick.timestamp - previous.timestamp
+  if (elapsed <= 0 || elapsed > maxGapMs) return 0
+  return (tick.volume24h / tick.price) * (elapsed / DAY_MS)
+}
+
+function mergeTick(candle: StoredCandle | undefined, openTime: number, tick: StoredTick): StoredCandle {
+  if (!candle) {
+    return {
+      timestamp: openTime,
+      open: tick.price,
+      high: tick.price,
+      low: tick.price,
+      close: tick.price,
+      volume: tick.volume,
+      firstTickAt: tick.timestamp,
+      lastTickAt: tick.timestamp
+    }
+  }
+
+  const merged = {
+    ...candle,
+    high: Math.max(candle.high, tick.price),
+    low: Math.min(candle.low, tick.price),
+    volume: candle.volume + tick.volume
+  }
+  if (tick.timestamp < candle.firstTickAt) {
+    merged.open = tick.price
+    merged.firstTickAt = tick.timestamp
+  }
+  if (tick.timestamp >= candle.lastTickAt) {
+    merged.close = tick.price
+    merged.lastTickAt = tick.timestamp
+  }
+  return merged
+}
+
+/**
+ * First and last missing bucket between `from` and `to`, or null when the range is complete.
+ */
+function findGap(candles: Candle[], from: number, to: number, intervalMs: number): { from: number; to: number } | null {
+  const present = new Set(candles.map(candle => candle.timestamp))
+  let first: number | null = null
+  let last: number | null = null
+
+  for (let openTime = from; openTime <= to; openTime += intervalMs) {
+    if (!present.has(openTime)) {
+      first = first ?? openTime
+      last = openTime
+    }
+  }
+
+  return first === null || last === null ? null : { from: first, to: last + intervalMs }
+}
+
+export class CandleService {
+  private static instance: CandleService
+  private store: CandleStore
+  private fetchHistory: (symbol: string, from: number, to: number) => Promise<PriceHistoryPoint[]>
+  private backfillCooldownMs: number
+  private lastBackfill: Map<string, number> = new Map()
+
+  constructor(options: CandleServiceOptions = {}) {
+    this.store = options.store ?? candleStore
+    this.fetchHistory = options.fetchHistory ?? nowNodesService.getPriceHistory
+    this.backfillCooldownMs = options.backfillCooldownMs ?? BACKFILL_COOLDOWN_MS
+  }
+
+  static getInstance(): CandleService {
+    if (!CandleService.instance) {
+      CandleService.instance = new CandleService()
+    }
+    return CandleService.instance
+  }
+
+  /**
+   * Stores ticks and folds them into every candle interval.
+   * Ticks already recorded for the same symbol and timestamp are skipped. Returns the number stored.
+   */
+  async recordTicks(ticks: MarketTick[], maxGapMs: number = MAX_LIVE_TICK_GAP_MS): Promise<number> {
+    const bySymbol = new Map<string, MarketTick[]>()
+    ticks
+      .filter(tick => isFinite(tick.price) && tick.price > 0 && isFinite(tick.timestamp))
+      .forEach(tick => {
+        const symbol = tick.symbol.toUpperCase()
+        bySymbol.set(symbol, [...(bySymbol.get(symbol) ?? []), { ...tick, symbol }])
+      })
+
+    let recorded = 0
+    for (const [symbol, symbolTicks] of bySymbol) {
+      symbolTicks.sort((a, b) => a.timestamp - b.timestamp)
+      const known = await this.store.findTickTimestamps(
+        symbol,
+        symbolTicks[0].timestamp,
+        symbolTicks[symbolTicks.length - 1].timestamp
+      )
+      const fresh = symbolTicks.filter(tick => {
+        if (known.has(tick.timestamp)) return false
+        known.add(tick.timestamp)
+        return true
+      })
+      if (fresh.length === 0) continue
+
+      let previous: { timestamp: number } | undefined =
+        (await this.store.findLatestTicks([symbol], fresh[0].timestamp)).get(symbol)
+      const stored: StoredTick[] = fresh.map(tick => {
+        const storedTick = { ...tick, marketCap: tick.marketCap ?? 0, volume: estimateVolume(tick, previous, maxGapMs) }
+        previous = storedTick
+        return storedTick
+      })
+
+      await this.store.insertTicks(stored)
+      for (const [interval, intervalMs] of Object.entries(CANDLE_INTERVALS)) {
+        await this.foldTicks(symbol, interval, intervalMs, stored)
+      }
+      recorded += stored.length
+    }
+
+    return recorded
+  }
+
+  /**
+   * Candles with open times in [from, to]. Missing buckets are backfilled from price history
+   * first (at most once per cooldown per symbol and interval); buckets with no data stay absent.
+   */
+  async getCandles(
+    symbol: string,
+    interval: CandleInterval,
+    from: number,
+    to: number,
+    options: { backfill?: boolean } = {}
+  ): Promise<Candle[]> {
+    const intervalMs = CANDLE_INTERVALS[interval]
+    const start = bucketStart(from, intervalMs)
+    const end = bucketStart(to, intervalMs)
+    if (end < start) {
+      throw new CandleRangeError('from must be before to')
+    }
+    if ((end - start) / intervalMs + 1 > MAX_CANDLES_PER_REQUEST) {
+      throw new CandleRangeError(`Range exceeds ${MAX_CANDLES_PER_REQUEST} ${interval} candles`)
+    }
+
+    const normalizedSymbol = symbol.toUpperCase()
+    let candles = await this.store.findCandles(normalizedSymbol, interval, start, end)
+
+    const gap = options.backfill === false ? null : findGap(candles, start, end, intervalMs)
+    if (gap && this.claimBackfill(`${normalizedSymbol}:${interval}`)) {
+      try {
+        if (await this.backfill(normalizedSymbol, gap.from, Math.min(gap.to, to)) > 0) {
+          candles = await this.store.findCandles(normalizedSymbol, interval, start, end)
+        }
+      } catch (error) {
+        console.error(`Candle backfill failed for ${normalizedSymbol} ${interval}:`, error)
+      }
+    }
+
+    return candles.map(({ timestamp, open, high, low, close, volume }) => ({ timestamp, open, high, low, close, volume }))
+  }
+
+  /**
+   * Records historical prices between `from` and `to` as ticks. Returns the number of new ticks.
+   */
+  async backfill(symbol: string, from: number, to: number): Promise<number> {
+    const history = await this.fetchHistory(symbol, from, to)
+    return this.recordTicks(history.map(point => ({
+      symbol,
+      price: point.price,
+      volume24h: point.volume24h,
+      source: 'coingecko',
+      timestamp: point.timestamp
+    })), DAY_MS)
+  }
+
+  private claimBackfill(key: string): boolean {
+    const now = Date.now()
+    const last = this.lastBackfill.get(key)
+    if (last !== undefined && now - last < this.backfillCooldownMs) return false
+    this.lastBackfill.set(key, now)
+    return true
+  }
+
+  private async foldTicks(symbol: string, interval: string, intervalMs: number, ticks: StoredTick[]): Promise<void> {
+    const openTimes = Array.from(new Set(ticks.map(tick => bucketStart(tick.timestamp, intervalMs))))
+    const existing = await this.store.findCandlesAt(symbol, interval, openTimes)
+    const candles = new Map(existing.map(candle => [candle.timestamp, candle]))
+
+    ticks.forEach(tick => {
+      const openTime = bucketStart(tick.timestamp, intervalMs)
+      candles.set(openTime, mergeTick(candles.get(openTime), openTime, tick))
+    })
+
+    await this.store.upsertCandles(symbol, interval, Array.from(candles.values()))
+  }
+}
+
+// Global candle service instance
+export const candleService = CandleService.getInstance()
@@ -0,0 +1,159 @@
+/**
+ * Candle Persistence
+ * Maps recorded price ticks and rolled-up OHLCV candles to Postgres
+ */
+
+import type { Candle } from './candles'
+
+export interface StoredTick {
+  symbol: string
+  price: number
+  volume: number
+  volume24h: number
+  marketCap: number
+  source: string
+  timestamp: number
+}
+
+// A candle plus the tick times needed to merge late or out-of-order ticks
+export interface StoredCandle extends Candle {
+  firstTickAt: number
+  lastTickAt: number
+}
+
+// Column shapes of the PriceTick and PriceCandle tables
+interface PriceTickRow {
+  symbol: string
+  price: number
+  volume: number
+  volume24h: number
+  marketCap: number
+  source: string
+  timestamp: Date
+}
+
+interface PriceCandleRow {
+  symbol: string
+  interval: string
+  openTime: Date
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+  firstTickAt: Date
+  lastTickAt: Date
+}
+
+// Prisma is loaded lazily so callers stay importable from client components
+async function getPrisma() {
+  const { prisma } = await import('@/lib/db')
+  return prisma
+}
+
+function rowToTick(row: PriceTickRow): StoredTick {
+  return {
+    symbol: row.symbol,
+    price: row.price,
+    volume: row.volume,
+    volume24h: row.volume24h,
+    marketCap: row.marketCap,
+    source: row.source,
+    timestamp: new Date(row.timestamp).getTime()
+  }
+}
+
+function rowToCandle(row: PriceCandleRow): StoredCandle {
+  return {
+    timestamp: new Date(row.openTime).getTime(),
+    open: row.open,
+    high: row.high,
+    low: row.low,
+    close: row.close,
+    volume: row.volume,
+    firstTickAt: new Date(row.firstTickAt).getTime(),
+    lastTickAt: new Date(row.lastTickAt).getTime()
+  }
+}
+
+export async function insertTicks(ticks: StoredTick[]): Promise<void> {
+  if (ticks.length === 0) return
+  const prisma = await getPrisma()
+  await prisma.priceTick.createMany({
+    data: ticks.map(tick => ({ ...tick, timestamp: new Date(tick.timestamp) }))
+  })
+}
+
+/**
+ * Latest tick per symbol at or before `before`, used to estimate volume between ticks.
+ */
+export async function findLatestTicks(symbols: string[], before: number): Promise<Map<string, StoredTick>> {
+  const prisma = await getPrisma()
+  const rows = await prisma.priceTick.findMany({
+    where: { symbol: { in: symbols }, timestamp: { lte: new Date(before) } },
+    orderBy: { timestamp: 'desc' },
+    distinct: ['symbol']
+  })
+  return new Map(rows.map((row: PriceTickRow) => [row.symbol, rowToTick(row)]))
+}
+
+// Ticks after `since`, oldest first
+export async function findTicksSince(symbols: string[], since: number, limit: number = 10000): Promise<StoredTick[]> {
+  if (symbols.length === 0) return []
+  const prisma = await getPrisma()
+  const rows = await prisma.priceTick.findMany({
+    where: { symbol: { in: symbols }, timestamp: { gt: new Date(since) } },
+    orderBy: { timestamp: 'asc' },
+    take: limit
+  })
+  return rows.map(rowToTick)
+}
+
+export async function findTickTimestamps(symbol: string, from: number, to: number): Promise<Set<number>> {
+  const prisma = await getPrisma()
+  const rows = await prisma.priceTick.findMany({
+    where: { symbol, timestamp: { gte: new Date(from), lte: new Date(to) } },
+    select: { timestamp: true }
+  })
+  return new Set(rows.map((row: { timestamp: Date }) => new Date(row.timestamp).getTime()))
+}
+
+export async function findCandles(symbol: string, interval: string, from: number, to: number): Promise<StoredCandle[]> {
+  const prisma = await getPrisma()
+  const rows = await prisma.priceCandle.findMany({
+    where: { symbol, interval, openTime: { gte: new Date(from), lte: new Date(to) } },
+    orderBy: { openTime: 'asc' }
+  })
+  return rows.map(rowToCandle)
+}
+
+export async function findCandlesAt(symbol: string, interval: string, openTimes: number[]): Promise<StoredCandle[]> {
+  if (openTimes.length === 0) return []
+  const prisma = await getPrisma()
+  const rows = await prisma.priceCandle.findMany({
+    where: { symbol, interval, openTime: { in: openTimes.map(openTime => new Date(openTime)) } }
+  })
+  return rows.map(rowToCandle)
+}
+
+export async function upsertCandles(symbol: string, interval: string, candles: StoredCandle[]): Promise<void> {
+  if (candles.length === 0) return
+  const prisma = await getPrisma()
+  await prisma.$transaction(candles.map(candle => {
+    const values = {
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+      firstTickAt: new Date(candle.firstTickAt),
+      lastTickAt: new Date(candle.lastTickAt)
+    }
+    const openTime = new Date(candle.timestamp)
+    return prisma.priceCandle.upsert({
+      where: { symbol_interval_openTime: { symbol, interval, openTime } },
+      create: { symbol, interval, openTime, ...values },
+      update: values
+    })
+  }))
+}
@@ -0,0 +1,210 @@
+/**
+ * OHLCV Candles
+ * Shared candle type, CSV/JSON import and tick aggregation for backtests and analytics
+ */
+
+export interface Candle {
+  timestamp: number // open time, ms since epoch
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number // base asset volume
+}
+
+export class CandleParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CandleParseError'
+  }
+}
+
+const CANDLE_FIELDS = ['timestamp', 'open', 'high', 'low', 'close', 'volume'] as const
+
+// Common exchange export headers mapped onto Candle fields
+const HEADER_ALIASES: { [header: string]: typeof CANDLE_FIELDS[number] } = {
+  timestamp: 'timestamp',
+  time: 'timestamp',
+  date: 'timestamp',
+  open_time: 'timestamp',
+  opentime: 'timestamp',
+  t: 'timestamp',
+  open: 'open',
+  o: 'open',
+  high: 'high',
+  h: 'high',
+  low: 'low',
+  l: 'low',
+  close: 'close',
+  c: 'close',
+  volume: 'volume',
+  vol: 'volume',
+  v: 'volume'
+}
+
+function toTimestamp(value: unknown, row: number): number {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value.trim()))) {
+    const numeric = Number(value)
+    // Unix seconds are promoted to milliseconds
+    return numeric < 1e12 ? numeric * 1000 : numeric
+  }
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value.trim())
+    if (!isNaN(parsed)) return parsed
+  }
+  throw new CandleParseError(`Row ${row}: invalid timestamp "${String(value)}"`)
+}
+
+function toNumber(value: unknown, field: string, row: number): number {
+  const numeric = typeof value === 'number' ? value : parseFloat(String(value ?? ''))
+  if (!isFinite(numeric) || numeric < 0) {
+    throw new CandleParseError(`Row ${row}: invalid ${field} "${String(value)}"`)
+  }
+  return numeric
+}
+
+function toCandle(values: { [field: string]: unknown }, row: number): Candle {
+  const candle: Candle = {
+    timestamp: toTimestamp(values.timestamp, row),
+    open: toNumber(values.open, 'open', row),
+    high: toNumber(values.high, 'high', row),
+    low: toNumber(values.low, 'low', row),
+    close: toNumber(values.close, 'close', row),
+    volume: values.volume === undefined || values.volume === '' ? 0 : toNumber(values.volume, 'volume', row)
+  }
+
+  if (candle.high < Math.max(candle.open, candle.close, candle.low) || candle.low > Math.min(candle.open, candle.close)) {
+    throw new CandleParseError(`Row ${row}: high/low do not contain open and close`)
+  }
+  return candle
+}
+
+/**
+ * Sorts candles by time and drops duplicate timestamps, keeping the last one seen.
+ */
+export function normalizeCandles(candles: Candle[]): Candle[] {
+  const byTimestamp = new Map<number, Candle>()
+  candles.forEach(candle => byTimestamp.set(candle.timestamp, candle))
+  return Array.from(byTimestamp.values()).sort((a, b) => a.timestamp - b.timestamp)
+}
+
+/**
+ * Parses CSV with a header row (timestamp/time/date, open, high, low, close, volume).
+ * Without a header, columns are taken in that order.
+ */
+export function parseCandlesCsv(csv: string): Candle[] {
+  const lines = csv.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0 && !line.startsWith('#'))
+  if (lines.length === 0) return []
+
+  const firstRow = lines[0].split(',').map(cell => cell.trim().toLowerCase().replace(/^"|"$/g, ''))
+  const hasHeader = firstRow.some(cell => HEADER_ALIASES[cell] !== undefined)
+
+  let columns: (typeof CANDLE_FIELDS[number] | undefined)[] = [...CANDLE_FIELDS]
+  if (hasHeader) {
+    columns = firstRow.map(cell => HEADER_ALIASES[cell])
+    const missing = CANDLE_FIELDS.filter(field => field !== 'volume' && !columns.includes(field))
+    if (missing.length > 0) {
+      throw new CandleParseError(`CSV header is missing columns: ${missing.join(', ')}`)
+    }
+  }
+
+  const dataLines = hasHeader ? lines.slice(1) : lines
+  const candles = dataLines.map((line, index) => {
+    const cells = line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''))
+    const values: { [field: string]: unknown } = {}
+    columns.forEach((field, column) => {
+      if (field) values[field] = cells[column]
+    })
+    return toCandle(values, index + (hasHeader ? 2 : 1))
+  })
+
+  return normalizeCandles(candles)
+}
+
+/**
+ * Accepts an array of candle objects or exchange-style arrays
+ * (`[timestamp, open, high, low, close, volume]`), or a JSON string of either.
+ */
+export function parseCandlesJson(input: string | unknown[]): Candle[] {
+  let data: unknown
+  try {
+    data = typeof input === 'string' ? JSON.parse(input) : input
+  } catch {
+    throw new CandleParseError('Candle data is not valid JSON')
+  }
+
+  if (!Array.isArray(data)) {
+    throw new CandleParseError('Candle JSON must be an array')
+  }
+
+  const candles = data.map((entry, index) => {
+    if (Array.isArray(entry)) {
+      const values: { [field: string]: unknown } = {}
+      CANDLE_FIELDS.forEach((field, column) => {
+        values[field] = entry[column]
+      })
+      return toCandle(values, index + 1)
+    }
+
+    if (entry && typeof entry === 'object') {
+      const values: { [field: string]: unknown } = {}
+      Object.entries(entry as { [key: string]: unknown }).forEach(([key, value]) => {
+        const field = HEADER_ALIASES[key.toLowerCase()]
+        if (field) values[field] = value
+      })
+      return toCandle(values, index + 1)
+    }
+
+    throw new CandleParseError(`Row ${index + 1}: expected an object or array`)
+  })
+
+  return normalizeCandles(candles)
+}
+
+export function parseCandles(input: string | unknown[], format?: 'csv' | 'json'): Candle[] {
+  const resolvedFormat = format ?? (typeof input !== 'string' || /^\s*\[/.test(input) ? 'json' : 'csv')
+  if (resolvedFormat === 'json') {
+    return parseCandlesJson(input)
+  }
+  if (typeof input !== 'string') {
+    throw new CandleParseError('CSV candle data must be a string')
+  }
+  return parseCandlesCsv(input)
+}
+
+export interface PricePoint {
+  price: number
+  volume: number
+  timestamp: number
+}
+
+/**
+ * Buckets price points into candles of `intervalMs`, aligned to the epoch.
+ * Points must be in time order; intervals without points produce no candle.
+ */
+export function aggregateCandles(points: PricePoint[], intervalMs: number): Candle[] {
+  const candles: Candle[] = []
+
+  for (const point of points) {
+    const bucket = Math.floor(point.timestamp / intervalMs) * intervalMs
+    const current = candles[candles.length - 1]
+
+    if (current && current.timestamp === bucket) {
+      current.high = Math.max(current.high, point.price)
+      current.low = Math.min(current.low, point.price)
+      current.close = point.price
+      current.volume += point.volume
+    } else {
+      candles.push({
+        timestamp: bucket,
+        open: point.price,
+        high: point.price,
+        low: point.price,
+        close: point.price,
+        volume: point.volume
+      })
+    }
+  }
+
+  return candles
+}
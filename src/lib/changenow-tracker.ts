@@ -0,0 +1,253 @@
+import { randomUUID } from 'crypto'
+import { prisma } from '@/lib/db'
+import { notificationService } from '@/lib/notifications'
+import { ChangeNowApiError, changeNowClient, EXCHANGE_STATUS_LABELS, TERMINAL_EXCHANGE_STATUSES } from '@/lib/changenow'
+import type { ChangeNowClient, ChangeNowExchange, ChangeNowStatus, ChangeNowTransaction, ChangeNowTransactionStatus, CreateExchangeParams } from '@/lib/changenow'
+import type { NotificationType } from '@/types/notifications'
+
+// Exchanges still waiting on deposits or payouts after this long are left alone by the poller
+const TRACKING_WINDOW_MS = 7 * 24 * 60 * 60 * 1000
+
+// Status of a row recorded before ChangeNOW has confirmed its exchange; its id is a placeholder until then
+export const CREATING_STATUS = 'creating'
+// Rows still creating after this long are looked up in ChangeNOW's transaction list; younger ones may still be in flight
+const RECONCILE_AFTER_MS = 2 * 60 * 1000
+// Rows ChangeNOW has no transaction for after this long were never created there
+const RECONCILE_WINDOW_MS = 24 * 60 * 60 * 1000
+
+interface ExchangeRow {
+  id: string
+  userId: string
+  fromCurrency: string
+  toCurrency: string
+  fromAmount: number
+  expectedReceiveAmount: number | null
+  amountReceived: number | null
+  payinHash: string | null
+  payoutHash: string | null
+  payoutAddress: string
+  status: string
+  createdAt: Date
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+// The row is recorded first, so an exchange that exists at ChangeNOW is never untracked here
+export async function createTrackedExchange(userId: string, params: CreateExchangeParams, client: ChangeNowClient = changeNowClient): Promise<ChangeNowExchange> {
+  const pending = await prisma.changeNowExchange.create({
+    data: {
+      id: `pending-${randomUUID()}`,
+      userId,
+      fromCurrency: params.fromCurrency,
+      toCurrency: params.toCurrency,
+      fromAmount: Number(params.fromAmount),
+      payoutAddress: params.address,
+      payoutExtraId: params.extraId || null,
+      refundAddress: params.refundAddress || null,
+      refundExtraId: params.refundExtraId || null,
+      status: CREATING_STATUS,
+    },
+  })
+
+  let exchange: ChangeNowExchange
+  try {
+    exchange = await client.createExchange(params)
+  } catch (error) {
+    if (error instanceof ChangeNowApiError && error.status < 500) {
+      // ChangeNOW turned the request down, so there is no exchange to track
+      await prisma.changeNowExchange.delete({ where: { id: pending.id } }).catch((cleanupError: unknown) => {
+        console.error(`Failed to remove rejected ChangeNOW exchange ${pending.id}:`, cleanupError)
+      })
+    } else {
+      // ChangeNOW may have created the exchange anyway (e.g. on a timeout); the poller reconciles the row
+      await prisma.changeNowExchange.update({ where: { id: pending.id }, data: { lastError: errorMessage(error) } })
+        .catch((updateError: unknown) => console.error(`Failed to record the error of ChangeNOW exchange ${pending.id}:`, updateError))
+    }
+    throw error
+  }
+
+  // The user still needs the deposit address if the row cannot be updated; the poller reconciles the row
+  try {
+    await prisma.changeNowExchange.update({
+      where: { id: pending.id },
+      data: {
+        id: exchange.id,
+        fromCurrency: exchange.fromCurrency || params.fromCurrency,
+        toCurrency: exchange.toCurrency || params.toCurrency,
+        fromAmount: Number(exchange.amount ?? params.fromAmount),
+        expectedReceiveAmount: exchange.expectedReceiveAmount ?? null,
+        payinAddress: exchange.payinAddress,
+        payinExtraId: exchange.payinExtraId || null,
+        payoutAddress: exchange.payoutAddress,
+        payoutExtraId: exchange.payoutExtraId || null,
+        status: exchange.status || 'new',
+      },
+    })
+  } catch (error) {
+    console.error(`ChangeNOW exchange ${exchange.id} was created but pending row ${pending.id} was not updated:`, error)
+  }
+  return exchange
+}
+
+// Includes rows still being created, so an exchange whose confirmation was lost stays visible
+export async function listExchanges(userId: string, limit = 20) {
+  return prisma.changeNowExchange.findMany({ where: { userId }, orderBy: { createdAt: 'desc' }, take: limit })
+}
+
+/**
+ * Matches rows left in the creating status (the create call failed without an answer, or the row
+ * could not be updated afterwards) to the transactions ChangeNOW has for the API key. Matched rows
+ * take the transaction's id and join the regular polling; rows without a match once
+ * RECONCILE_WINDOW_MS has passed are marked failed. Returns how many rows were matched.
+ */
+export async function reconcileCreatingExchanges(client: ChangeNowClient = changeNowClient, now: Date = new Date()): Promise<number> {
+  const creating: ExchangeRow[] = await prisma.changeNowExchange.findMany({
+    where: { status: CREATING_STATUS, createdAt: { lt: new Date(now.getTime() - RECONCILE_AFTER_MS) } },
+    orderBy: { createdAt: 'asc' },
+  })
+  if (creating.length === 0) return 0
+
+  let transactions: ChangeNowTransaction[]
+  try {
+    // ChangeNOW's clock may run a little behind ours
+    transactions = await client.listTransactions(new Date(creating[0].createdAt.getTime() - RECONCILE_AFTER_MS))
+  } catch (error) {
+    console.error('ChangeNOW transaction list could not be fetched to reconcile exchanges:', error)
+    return 0
+  }
+
+  const tracked: { id: string }[] = await prisma.changeNowExchange.findMany({
+    where: { id: { in: transactions.map(transaction => transaction.id) } },
+    select: { id: true },
+  })
+  const taken = new Set(tracked.map(row => row.id))
+
+  let reconciled = 0
+  for (const row of creating) {
+    const match = transactions.find(transaction =>
+      !taken.has(transaction.id) &&
+      transaction.payoutAddress === row.payoutAddress &&
+      transaction.fromCurrency === row.fromCurrency &&
+      transaction.toCurrency === row.toCurrency &&
+      Number(transaction.expectedSendAmount ?? transaction.amountSend) === row.fromAmount &&
+      new Date(transaction.createdAt).getTime() >= row.createdAt.getTime() - RECONCILE_AFTER_MS
+    )
+
+    if (match) {
+      taken.add(match.id)
+      const { count } = await prisma.changeNowExchange.updateMany({
+        where: { id: row.id, status: CREATING_STATUS },
+        data: {
+          id: match.id,
+          payinAddress: match.payinAddress,
+          expectedReceiveAmount: match.expectedReceiveAmount ?? null,
+          status: match.status,
+          lastError: null,
+          lastCheckedAt: now,
+        },
+      })
+      if (count === 1) {
+        reconciled++
+        console.log(`ChangeNOW exchange ${match.id} reconciled with pending row ${row.id} user=${row.userId}`)
+      }
+    } else if (row.createdAt.getTime() < now.getTime() - RECONCILE_WINDOW_MS) {
+      await prisma.changeNowExchange.updateMany({
+        where: { id: row.id, status: CREATING_STATUS },
+        data: { status: 'failed', lastError: 'ChangeNOW has no record of this exchange', completedAt: now },
+      })
+    }
+  }
+  return reconciled
+}
+
+// Reconciles rows left creating, then refreshes every open exchange from ChangeNOW and notifies the owner of each status change
+export async function pollExchangeStatuses(client: ChangeNowClient = changeNowClient) {
+  const reconciled = await reconcileCreatingExchanges(client)
+  const open: ExchangeRow[] = await prisma.changeNowExchange.findMany({
+    where: {
+      status: { notIn: [...TERMINAL_EXCHANGE_STATUSES, CREATING_STATUS] },
+      createdAt: { gte: new Date(Date.now() - TRACKING_WINDOW_MS) },
+    },
+  })
+
+  let updated = 0
+  for (const exchange of open) {
+    let remote
+    try {
+      remote = await client.getTransactionStatus(exchange.id)
+    } catch (error) {
+      console.error(`ChangeNOW status check failed for ${exchange.id}:`, error)
+      continue
+    }
+
+    const now = new Date()
+    if (remote.status === exchange.status) {
+      await prisma.changeNowExchange.update({ where: { id: exchange.id }, data: { lastCheckedAt: now } })
+      continue
+    }
+
+    // Only the poller that moves the row off the status it read sends the notification
+    const { count } = await prisma.changeNowExchange.updateMany({
+      where: { id: exchange.id, status: exchange.status },
+      data: {
+        status: remote.status,
+        amountReceived: remote.amountReceive ?? exchange.amountReceived,
+        payinHash: remote.payinHash ?? exchange.payinHash,
+        payoutHash: remote.payoutHash ?? exchange.payoutHash,
+        lastCheckedAt: now,
+        completedAt: TERMINAL_EXCHANGE_STATUSES.includes(remote.status) ? now : null,
+      },
+    })
+    if (count === 0) continue
+
+    updated++
+    await notifyStatusChange(exchange, remote)
+    console.log(`ChangeNOW exchange ${exchange.id}: ${exchange.status} -> ${remote.status} user=${exchange.userId}`)
+  }
+
+  return { reconciled, checked: open.length, updated }
+}
+
+function notificationType(status: ChangeNowStatus): NotificationType {
+  switch (status) {
+    case 'finished': return 'success'
+    case 'failed': return 'error'
+    case 'refunded':
+    case 'expired': return 'warning'
+    default: return 'info'
+  }
+}
+
+// Goes through the notification pipeline, so it reaches the user's inbox and every channel they enabled for trades
+async function notifyStatusChange(exchange: ExchangeRow, remote: ChangeNowTransactionStatus) {
+  const from = exchange.fromCurrency.toUpperCase()
+  const to = exchange.toCurrency.toUpperCase()
+  const previous = EXCHANGE_STATUS_LABELS[exchange.status as ChangeNowStatus] ?? exchange.status
+  const amountReceived = remote.amountReceive ?? exchange.expectedReceiveAmount
+  const details = [
+    amountReceived !== null && amountReceived !== undefined ? `${remote.status === 'finished' ? 'Received' : 'Expected'}: ${amountReceived} ${to}.` : '',
+    remote.payoutHash ? `Payout transaction: ${remote.payoutHash}.` : '',
+  ].filter(Boolean)
+
+  try {
+    await notificationService.publish({
+      userId: exchange.userId,
+      category: 'trade',
+      type: notificationType(remote.status),
+      priority: TERMINAL_EXCHANGE_STATUSES.includes(remote.status) ? 'high' : 'normal',
+      title: `Exchange ${from} → ${to}: ${EXCHANGE_STATUS_LABELS[remote.status]}`,
+      body: [`Your exchange of ${exchange.fromAmount} ${from} moved from ${previous} to ${EXCHANGE_STATUS_LABELS[remote.status]}.`, ...details].join(' '),
+      data: {
+        exchangeId: exchange.id,
+        previousStatus: exchange.status,
+        status: remote.status,
+        amountReceived: amountReceived ?? null,
+        payoutHash: remote.payoutHash ?? null,
+      },
+    })
+  } catch (error) {
+    console.error(`Failed to publish the status change of ChangeNOW exchange ${exchange.id}:`, error)
+  }
+}
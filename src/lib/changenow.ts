@@ -0,0 +1,167 @@
+/**
+ * ChangeNOW API Client
+ * Thin wrapper over the ChangeNOW v1 REST API used by the exchange routes and the status poller
+ */
+
+export type ChangeNowStatus =
+  | 'new'
+  | 'waiting'
+  | 'confirming'
+  | 'exchanging'
+  | 'sending'
+  | 'verifying'
+  | 'finished'
+  | 'failed'
+  | 'refunded'
+  | 'expired'
+
+// Exchanges in these states will not change again
+export const TERMINAL_EXCHANGE_STATUSES: ChangeNowStatus[] = ['finished', 'failed', 'refunded', 'expired']
+
+export const EXCHANGE_STATUS_LABELS: Record<ChangeNowStatus, string> = {
+  new: 'Created',
+  waiting: 'Waiting for deposit',
+  confirming: 'Confirming deposit',
+  exchanging: 'Exchanging',
+  sending: 'Sending payout',
+  verifying: 'Verifying',
+  finished: 'Finished',
+  failed: 'Failed',
+  refunded: 'Refunded',
+  expired: 'Expired'
+}
+
+export interface ChangeNowCurrency {
+  ticker: string
+  name: string
+  image: string
+  hasExternalId?: boolean
+  isFiat?: boolean
+  featured?: boolean
+  isStable?: boolean
+  supportsFixedRate?: boolean
+}
+
+export interface ChangeNowEstimate {
+  estimatedAmount: number
+  transactionSpeedForecast: string | null
+  warningMessage: string | null
+}
+
+export interface CreateExchangeParams {
+  fromCurrency: string
+  toCurrency: string
+  fromAmount: number | string
+  address: string
+  extraId?: string
+  refundAddress?: string
+  refundExtraId?: string
+}
+
+export interface ChangeNowExchange {
+  id: string
+  payinAddress: string
+  payoutAddress: string
+  payinExtraId?: string | null
+  payoutExtraId?: string | null
+  fromCurrency: string
+  toCurrency: string
+  amount: number
+  expectedReceiveAmount?: number
+  status?: ChangeNowStatus
+}
+
+// Response of GET /transactions/{id}/{apiKey}
+export interface ChangeNowTransactionStatus {
+  id: string
+  status: ChangeNowStatus
+  payinAddress: string
+  payoutAddress: string
+  fromCurrency: string
+  toCurrency: string
+  expectedSendAmount?: number | null
+  expectedReceiveAmount?: number | null
+  amountSend?: number | null
+  amountReceive?: number | null
+  payinHash?: string | null
+  payoutHash?: string | null
+  refundAddress?: string | null
+  updatedAt?: string
+}
+
+// Item of GET /transactions/{apiKey}, the transactions created with the API key
+export interface ChangeNowTransaction extends ChangeNowTransactionStatus {
+  createdAt: string
+}
+
+// ChangeNOW answered with an error status; 4xx means the request was turned down and changed nothing
+export class ChangeNowApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message)
+    this.name = 'ChangeNowApiError'
+  }
+}
+
+export class ChangeNowClient {
+  constructor(
+    private readonly baseUrl: string = process.env.CHANGENOW_BASE_URL || 'https://api.changenow.io/v1',
+    private readonly apiKey: string = process.env.CHANGENOW_API_KEY || 'demo-key'
+  ) {}
+
+  async getCurrencies(): Promise<ChangeNowCurrency[]> {
+    return this.request('/currencies?active=true&fixedRate=true')
+  }
+
+  async getEstimate(fromCurrency: string, toCurrency: string, fromAmount: number | string): Promise<ChangeNowEstimate> {
+    const data = await this.request<Partial<ChangeNowEstimate>>(
+      `/exchange-amount/${fromAmount}/${fromCurrency}_${toCurrency}?api_key=${this.apiKey}`
+    )
+    return {
+      estimatedAmount: data.estimatedAmount || 0,
+      transactionSpeedForecast: data.transactionSpeedForecast || null,
+      warningMessage: data.warningMessage || null
+    }
+  }
+
+  async createExchange(params: CreateExchangeParams): Promise<ChangeNowExchange> {
+    return this.request(`/transactions/${this.apiKey}`, {
+      method: 'POST',
+      body: JSON.stringify({
+        from: params.fromCurrency,
+        to: params.toCurrency,
+        address: params.address,
+        amount: params.fromAmount,
+        extraId: params.extraId || '',
+        refundAddress: params.refundAddress || '',
+        refundExtraId: params.refundExtraId || ''
+      })
+    })
+  }
+
+  async getTransactionStatus(id: string): Promise<ChangeNowTransactionStatus> {
+    return this.request(`/transactions/${encodeURIComponent(id)}/${this.apiKey}`)
+  }
+
+  async listTransactions(dateFrom: Date, limit: number = 100): Promise<ChangeNowTransaction[]> {
+    return this.request(`/transactions/${this.apiKey}?dateFrom=${encodeURIComponent(dateFrom.toISOString())}&limit=${limit}`)
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-changenow-api-key': this.apiKey
+      }
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new ChangeNowApiError(errorData.message || `ChangeNOW API error: ${response.status}`, response.status)
+    }
+
+    return response.json()
+  }
+}
+
+export const changeNowClient = new ChangeNowClient()
@@ -0,0 +1,63 @@
+/**
+ * Cost Basis Persistence
+ * Stores each user's lot selection method and specific-ID lot picks in Postgres
+ */
+
+import type { CostBasisMethod, LotSelection } from './cost-basis'
+
+// Prisma is loaded lazily so the cost basis module stays importable from client components
+async function getPrisma() {
+  const { prisma } = await import('@/lib/db')
+  return prisma
+}
+
+export async function getCostBasisMethod(userId: string): Promise<CostBasisMethod | null> {
+  const prisma = await getPrisma()
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { costBasisMethod: true }
+  })
+  return user?.costBasisMethod ?? null
+}
+
+export async function setCostBasisMethod(userId: string, method: CostBasisMethod): Promise<void> {
+  const prisma = await getPrisma()
+  await prisma.user.update({
+    where: { id: userId },
+    data: { costBasisMethod: method }
+  })
+}
+
+export async function findLotSelections(userId: string): Promise<LotSelection[]> {
+  const prisma = await getPrisma()
+  const rows = await prisma.taxLotSelection.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' }
+  })
+  return rows.map((row: LotSelection) => ({ disposalId: row.disposalId, lotId: row.lotId, amount: row.amount }))
+}
+
+/**
+ * Replaces the lots picked for one disposal. An empty list clears the picks.
+ */
+export async function replaceLotSelections(userId: string, disposalId: string, selections: LotSelection[]): Promise<void> {
+  const prisma = await getPrisma()
+  await prisma.$transaction([
+    prisma.taxLotSelection.deleteMany({ where: { userId, disposalId } }),
+    prisma.taxLotSelection.createMany({
+      data: selections.map(selection => ({ userId, disposalId, lotId: selection.lotId, amount: selection.amount }))
+    })
+  ])
+}
+
+/**
+ * Lowercased addresses of the user's active wallet connections.
+ */
+export async function findWalletAddresses(userId: string): Promise<string[]> {
+  const prisma = await getPrisma()
+  const rows = await prisma.walletConnection.findMany({
+    where: { userId, isActive: true },
+    select: { address: true }
+  })
+  return Array.from(new Set(rows.map((row: { address: string }) => row.address.toLowerCase())))
+}
@@ -0,0 +1,527 @@
+/**
+ * Cost Basis Lot Tracking
+ * Builds tax lots from trades and on-chain transfers, matches disposals to lots by the
+ * user's selection method and reports realized and unrealized P&L per lot
+ */
+
+import * as costBasisStore from './cost-basis-store'
+import { dbService } from './db-service'
+import type { IncomeEvent } from './defi-position-tracker'
+import { findIncomeEvents } from './income-store'
+import { nowNodesService } from './nownodes'
+import { transactionMonitor, Transaction as ChainTransaction, TransactionCategory } from './transaction-monitor'
+
+export const COST_BASIS_METHODS = ['FIFO', 'LIFO', 'HIFO', 'SPECIFIC_ID'] as const
+
+export type CostBasisMethod = typeof COST_BASIS_METHODS[number]
+
+export interface LedgerEvent {
+  id: string // Transaction id, chainId:hash for on-chain transfers, or income:id for income
+  symbol: string
+  type: 'acquire' | 'dispose' | 'transfer_out' // transfer_out removes lots without realizing a gain
+  amount: number
+  price: number // USD per unit
+  fee: number // USD; added to the basis of acquisitions, deducted from disposal proceeds
+  timestamp: number
+  source: 'transaction' | 'onchain' | 'income'
+}
+
+export interface TaxLot {
+  id: string // Id of the acquiring event
+  symbol: string
+  source: LedgerEvent['source']
+  acquiredAt: number
+  amount: number
+  remaining: number
+  costBasisPerUnit: number
+}
+
+export interface LotSelection {
+  disposalId: string
+  lotId: string
+  amount: number
+}
+
+export interface RealizedLot {
+  disposalId: string
+  lotId: string | null // null when the disposal exceeded the tracked lots; that part has zero basis
+  symbol: string
+  amount: number
+  acquiredAt: number | null
+  disposedAt: number
+  proceeds: number
+  costBasis: number
+  gain: number
+  term: 'short' | 'long'
+}
+
+export interface LotPosition extends TaxLot {
+  price: number | null
+  marketValue: number | null
+  costBasis: number
+  unrealizedGain: number | null
+  term: 'short' | 'long'
+}
+
+export interface CostBasisReport {
+  method: CostBasisMethod
+  lots: LotPosition[] // Open lots only
+  realized: RealizedLot[]
+  summary: {
+    proceeds: number
+    realizedGain: number
+    shortTermGain: number
+    longTermGain: number
+    costBasis: number
+    unrealizedGain: number
+    unmatchedAmount: number
+  }
+}
+
+export interface CostBasisOptions {
+  persistence?: boolean // set to false to keep methods and lot selections in memory only
+}
+
+export class CostBasisError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CostBasisError'
+  }
+}
+
+const LONG_TERM_MS = 365 * 24 * 60 * 60 * 1000
+const EPSILON = 1e-9
+
+// Native asset of each chain TransactionMonitor watches
+const NATIVE_SYMBOLS: { [chainId: number]: string } = {
+  1: 'ETH',
+  56: 'BNB',
+  137: 'MATIC',
+  42161: 'ETH',
+  10: 'ETH'
+}
+
+function holdingTerm(acquiredAt: number | null, disposedAt: number): 'short' | 'long' {
+  return acquiredAt !== null && disposedAt - acquiredAt > LONG_TERM_MS ? 'long' : 'short'
+}
+
+function orderLots(lots: TaxLot[], method: CostBasisMethod): TaxLot[] {
+  const sorted = [...lots]
+  switch (method) {
+    case 'LIFO':
+      return sorted.sort((a, b) => b.acquiredAt - a.acquiredAt)
+    case 'HIFO':
+      return sorted.sort((a, b) => b.costBasisPerUnit - a.costBasisPerUnit || a.acquiredAt - b.acquiredAt)
+    default:
+      // Specific-ID falls back to FIFO for whatever the user did not pick
+      return sorted.sort((a, b) => a.acquiredAt - b.acquiredAt)
+  }
+}
+
+/**
+ * Amounts drawn from each lot to cover a disposal or outgoing transfer.
+ */
+function drawLots(
+  event: LedgerEvent,
+  openLots: TaxLot[],
+  method: CostBasisMethod,
+  picks: LotSelection[]
+): { lot: TaxLot | null; amount: number }[] {
+  const draws: { lot: TaxLot | null; amount: number }[] = []
+  let remaining = event.amount
+
+  if (method === 'SPECIFIC_ID') {
+    for (const pick of picks) {
+      const lot = openLots.find(candidate => candidate.id === pick.lotId)
+      if (!lot) {
+        throw new CostBasisError(`Lot ${pick.lotId} is not an open ${event.symbol} lot when ${event.id} happens`)
+      }
+      if (pick.amount > lot.remaining + EPSILON) {
+        throw new CostBasisError(`Lot ${pick.lotId} only has ${lot.remaining} ${event.symbol} left`)
+      }
+      if (pick.amount > remaining + EPSILON) {
+        throw new CostBasisError(`Selected lots exceed the ${event.amount} ${event.symbol} in ${event.id}`)
+      }
+      const amount = Math.min(pick.amount, lot.remaining, remaining)
+      lot.remaining -= amount
+      remaining -= amount
+      draws.push({ lot, amount })
+    }
+  }
+
+  for (const lot of orderLots(openLots, method)) {
+    if (remaining <= EPSILON) break
+    if (lot.remaining <= EPSILON) continue
+    const amount = Math.min(lot.remaining, remaining)
+    lot.remaining -= amount
+    remaining -= amount
+    draws.push({ lot, amount })
+  }
+
+  if (remaining > EPSILON) {
+    draws.push({ lot: null, amount: remaining })
+  }
+
+  return draws
+}
+
+/**
+ * Replays ledger events in time order into tax lots and realized gains.
+ * Acquisitions sort ahead of disposals at the same timestamp.
+ */
+export function buildTaxLots(
+  events: LedgerEvent[],
+  method: CostBasisMethod,
+  selections: LotSelection[] = []
+): { lots: TaxLot[]; realized: RealizedLot[] } {
+  const ordered = [...events].sort((a, b) =>
+    a.timestamp - b.timestamp || Number(a.type !== 'acquire') - Number(b.type !== 'acquire'))
+  const picksByDisposal = new Map<string, LotSelection[]>()
+  selections.forEach(selection => {
+    picksByDisposal.set(selection.disposalId, [...(picksByDisposal.get(selection.disposalId) ?? []), selection])
+  })
+
+  const lots: TaxLot[] = []
+  const lotsBySymbol = new Map<string, TaxLot[]>()
+  const realized: RealizedLot[] = []
+
+  for (const event of ordered) {
+    if (!(event.amount > 0)) continue
+    const symbol = event.symbol.toUpperCase()
+
+    if (event.type === 'acquire') {
+      const lot: TaxLot = {
+        id: event.id,
+        symbol,
+        source: event.source,
+        acquiredAt: event.timestamp,
+        amount: event.amount,
+        remaining: event.amount,
+        costBasisPerUnit: (event.amount * event.price + event.fee) / event.amount
+      }
+      lots.push(lot)
+      lotsBySymbol.set(symbol, [...(lotsBySymbol.get(symbol) ?? []), lot])
+      continue
+    }
+
+    const openLots = (lotsBySymbol.get(symbol) ?? []).filter(lot => lot.remaining > EPSILON)
+    const draws = drawLots({ ...event, symbol }, openLots, method, picksByDisposal.get(event.id) ?? [])
+    if (event.type === 'transfer_out') continue
+
+    const netProceeds = event.amount * event.price - event.fee
+    draws.forEach(({ lot, amount }) => {
+      const proceeds = netProceeds * (amount / event.amount)
+      const costBasis = lot ? amount * lot.costBasisPerUnit : 0
+      realized.push({
+        disposalId: event.id,
+        lotId: lot?.id ?? null,
+        symbol,
+        amount,
+        acquiredAt: lot?.acquiredAt ?? null,
+        disposedAt: event.timestamp,
+        proceeds,
+        costBasis,
+        gain: proceeds - costBasis,
+        term: holdingTerm(lot?.acquiredAt ?? null, event.timestamp)
+      })
+    })
+  }
+
+  return { lots: lots.map(lot => ({ ...lot })), realized }
+}
+
+/**
+ * Values open lots at current prices. Lots without a price report null market value and gain.
+ */
+export function valueLots(lots: TaxLot[], prices: Map<string, number>, now: number = Date.now()): LotPosition[] {
+  return lots
+    .filter(lot => lot.remaining > EPSILON)
+    .map(lot => {
+      const price = prices.get(lot.symbol) ?? null
+      const costBasis = lot.remaining * lot.costBasisPerUnit
+      const marketValue = price !== null ? lot.remaining * price : null
+      return {
+        ...lot,
+        price,
+        marketValue,
+        costBasis,
+        unrealizedGain: marketValue !== null ? marketValue - costBasis : null,
+        term: holdingTerm(lot.acquiredAt, now)
+      }
+    })
+}
+
+function transactionToEvent(transaction: {
+  id: string
+  type: 'BUY' | 'SELL' | 'DEPOSIT' | 'WITHDRAWAL'
+  symbol: string
+  amount: number
+  price: number
+  fee: number
+  createdAt: Date
+}): LedgerEvent {
+  const types: { [type: string]: LedgerEvent['type'] } = {
+    BUY: 'acquire',
+    DEPOSIT: 'acquire',
+    SELL: 'dispose',
+    WITHDRAWAL: 'transfer_out'
+  }
+  return {
+    id: transaction.id,
+    symbol: transaction.symbol.toUpperCase(),
+    type: types[transaction.type],
+    amount: transaction.amount,
+    price: transaction.price,
+    fee: transaction.fee,
+    timestamp: new Date(transaction.createdAt).getTime(),
+    source: 'transaction'
+  }
+}
+
+/**
+ * Incoming transfers open lots at their USD value; outgoing ones remove lots. Transfers between
+ * the user's own wallets are skipped so moving funds doesn't reset the basis.
+ */
+function transferToEvent(transfer: ChainTransaction, wallets: Set<string>): LedgerEvent | null {
+  if (transfer.status !== 'success' || transfer.category !== TransactionCategory.TRANSFER) return null
+
+  const incoming = wallets.has(transfer.to?.toLowerCase())
+  const outgoing = wallets.has(transfer.from?.toLowerCase())
+  if (incoming === outgoing) return null
+
+  const symbol = transfer.tokenSymbol ?? NATIVE_SYMBOLS[transfer.chainId]
+  const amount = Number(transfer.tokenAmount ?? transfer.value)
+  if (!symbol || !(amount > 0)) return null
+
+  return {
+    id: `${transfer.chainId}:${transfer.hash}`,
+    symbol: symbol.toUpperCase(),
+    type: incoming ? 'acquire' : 'transfer_out',
+    amount,
+    price: transfer.valueUSD / amount,
+    fee: 0,
+    timestamp: transfer.timestamp,
+    source: 'onchain'
+  }
+}
+
+// Income opens a lot at its value when received
+function incomeToEvent(income: IncomeEvent): LedgerEvent {
+  return {
+    id: `income:${income.id}`,
+    symbol: income.symbol.toUpperCase(),
+    type: 'acquire',
+    amount: income.amount,
+    price: income.price,
+    fee: 0,
+    timestamp: income.receivedAt,
+    source: 'income'
+  }
+}
+
+export class CostBasisService {
+  private static instance: CostBasisService
+  private methods: Map<string, CostBasisMethod> = new Map() // Used when persistence is unavailable
+  private selections: Map<string, LotSelection[]> = new Map()
+  private persistenceEnabled = true
+
+  constructor(options: CostBasisOptions = {}) {
+    this.persistenceEnabled = options.persistence ?? true
+  }
+
+  static getInstance(): CostBasisService {
+    if (!CostBasisService.instance) {
+      CostBasisService.instance = new CostBasisService()
+    }
+    return CostBasisService.instance
+  }
+
+  async getMethod(userId: string): Promise<CostBasisMethod> {
+    if (this.persistenceEnabled) {
+      try {
+        return (await costBasisStore.getCostBasisMethod(userId)) ?? 'FIFO'
+      } catch (error) {
+        this.disablePersistence(error)
+      }
+    }
+    return this.methods.get(userId) ?? 'FIFO'
+  }
+
+  async setMethod(userId: string, method: CostBasisMethod): Promise<void> {
+    if (this.persistenceEnabled) {
+      try {
+        await costBasisStore.setCostBasisMethod(userId, method)
+        return
+      } catch (error) {
+        this.disablePersistence(error)
+      }
+    }
+    this.methods.set(userId, method)
+  }
+
+  /**
+   * Picks the lots a disposal or outgoing transfer draws from under SPECIFIC_ID.
+   * Throws CostBasisError when the picks don't fit the lots open at that time.
+   */
+  async selectLots(userId: string, disposalId: string, picks: { lotId: string; amount: number }[]): Promise<void> {
+    const events = await this.getLedgerEvents(userId)
+    const disposal = events.find(event => event.id === disposalId)
+    if (!disposal || disposal.type === 'acquire') {
+      throw new CostBasisError(`No disposal ${disposalId}`)
+    }
+
+    const selections = picks.map(pick => ({ disposalId, lotId: pick.lotId, amount: pick.amount }))
+    const others = (await this.getSelections(userId)).filter(selection => selection.disposalId !== disposalId)
+    buildTaxLots(events, 'SPECIFIC_ID', [...others, ...selections])
+
+    if (this.persistenceEnabled) {
+      try {
+        await costBasisStore.replaceLotSelections(userId, disposalId, selections)
+        return
+      } catch (error) {
+        this.disablePersistence(error)
+      }
+    }
+    this.selections.set(userId, [...others, ...selections])
+  }
+
+  /**
+   * Lots and realized gains under the user's method (or `options.method`), with open lots
+   * valued at `options.prices` or current market prices.
+   */
+  async getReport(
+    userId: string,
+    options: { method?: CostBasisMethod; prices?: Map<string, number> } = {}
+  ): Promise<CostBasisReport> {
+    const method = options.method ?? await this.getMethod(userId)
+    const events = await this.getLedgerEvents(userId)
+    const selections = method === 'SPECIFIC_ID' ? await this.getSelections(userId) : []
+    const { lots, realized } = buildTaxLots(events, method, selections)
+
+    const prices = options.prices ?? await this.getPrices(lots)
+    const positions = valueLots(lots, prices)
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+    return {
+      method,
+      lots: positions,
+      realized,
+      summary: {
+        proceeds: sum(realized.map(lot => lot.proceeds)),
+        realizedGain: sum(realized.map(lot => lot.gain)),
+        shortTermGain: sum(realized.filter(lot => lot.term === 'short').map(lot => lot.gain)),
+        longTermGain: sum(realized.filter(lot => lot.term === 'long').map(lot => lot.gain)),
+        costBasis: sum(positions.map(lot => lot.costBasis)),
+        unrealizedGain: sum(positions.map(lot => lot.unrealizedGain ?? 0)),
+        unmatchedAmount: sum(realized.filter(lot => lot.lotId === null).map(lot => lot.amount))
+      }
+    }
+  }
+
+  /**
+   * The user's report, for harvesting recommendations on one of their wallets. Null when the
+   * wallet is not connected to the user, so one user's lots are never shown for another's wallet.
+   */
+  async getWalletReport(userId: string, walletAddress: string, prices?: Map<string, number>): Promise<CostBasisReport | null> {
+    if (!this.persistenceEnabled) return null
+
+    let wallets: string[]
+    try {
+      wallets = await costBasisStore.findWalletAddresses(userId)
+    } catch (error) {
+      this.disablePersistence(error)
+      return null
+    }
+
+    return wallets.includes(walletAddress.toLowerCase()) ? this.getReport(userId, { prices }) : null
+  }
+
+  /**
+   * Completed transactions plus on-chain transfers and income of the user's connected wallets.
+   */
+  async getLedgerEvents(userId: string): Promise<LedgerEvent[]> {
+    const transactions = await dbService.getLedgerTransactions(userId)
+    const events = transactions.map(transactionToEvent)
+    events.push(...(await this.getIncomeEvents(userId)).map(incomeToEvent))
+
+    const wallets = new Set(await this.getWalletAddresses(userId))
+    const seen = new Set<string>()
+    for (const wallet of Array.from(wallets)) {
+      let transfers: ChainTransaction[]
+      try {
+        transfers = await transactionMonitor.getStoredTransactionHistory(wallet)
+      } catch (error) {
+        console.error(`Failed to load monitored transactions for ${wallet}:`, error)
+        continue
+      }
+      transfers.forEach(transfer => {
+        const event = transferToEvent(transfer, wallets)
+        if (event && !seen.has(event.id)) {
+          seen.add(event.id)
+          events.push(event)
+        }
+      })
+    }
+
+    return events
+  }
+
+  /**
+   * Income received by the user's connected wallets within [from, to).
+   */
+  async getIncomeEvents(userId: string, from?: number, to?: number): Promise<IncomeEvent[]> {
+    const wallets = await this.getWalletAddresses(userId)
+    if (wallets.length === 0) return []
+
+    try {
+      return await findIncomeEvents(wallets, from, to)
+    } catch (error) {
+      console.error('Failed to load income events:', error)
+      return []
+    }
+  }
+
+  private disablePersistence(error: unknown): void {
+    if (this.persistenceEnabled) {
+      console.warn('⚠ Cost basis persistence unavailable, falling back to in-memory storage:', error)
+    }
+    this.persistenceEnabled = false
+  }
+
+  private async getSelections(userId: string): Promise<LotSelection[]> {
+    if (this.persistenceEnabled) {
+      try {
+        return await costBasisStore.findLotSelections(userId)
+      } catch (error) {
+        this.disablePersistence(error)
+      }
+    }
+    return this.selections.get(userId) ?? []
+  }
+
+  private async getWalletAddresses(userId: string): Promise<string[]> {
+    if (!this.persistenceEnabled) return []
+    try {
+      return await costBasisStore.findWalletAddresses(userId)
+    } catch (error) {
+      this.disablePersistence(error)
+      return []
+    }
+  }
+
+  private async getPrices(lots: TaxLot[]): Promise<Map<string, number>> {
+    const symbols = Array.from(new Set(lots.filter(lot => lot.remaining > EPSILON).map(lot => lot.symbol)))
+    if (symbols.length === 0) return new Map()
+
+    try {
+      const prices = await nowNodesService.getCryptoPrices(symbols)
+      return new Map(prices.map(price => [price.symbol.toUpperCase(), price.current_price]))
+    } catch (error) {
+      console.error('Failed to price open lots:', error)
+      return new Map()
+    }
+  }
+}
+
+// Global cost basis service instance
+export const costBasisService = CostBasisService.getInstance()
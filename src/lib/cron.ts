@@ -0,0 +1,132 @@
+/**
+ * Cron
+ * Five-field cron expressions (minute hour day-of-month month day-of-week), evaluated in UTC.
+ * Supports *, lists, ranges, steps and the @hourly, @daily, @weekly and @monthly shorthands.
+ */
+
+export interface CronSchedule {
+  expression: string
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  // Standard cron: when both day fields are restricted, a day matches if either does
+  anyDay: boolean
+}
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+]
+
+const SHORTHANDS: { [name: string]: string } = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *'
+}
+
+const MINUTE_MS = 60 * 1000
+// Far enough to cover every day-of-month/day-of-week combination, e.g. 29 Feb on a Monday
+const SEARCH_LIMIT_MS = 8 * 366 * 24 * 60 * MINUTE_MS
+
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CronError'
+  }
+}
+
+function parseField(field: string, { name, min, max }: typeof FIELDS[number]): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part)
+    if (!match) throw new CronError(`Invalid ${name} field: ${field}`)
+
+    const step = match[4] !== undefined ? Number(match[4]) : 1
+    let from = min
+    let to = max
+    if (match[2] !== undefined) {
+      from = Number(match[2])
+      // "5/15" means from 5 to the end of the range in steps of 15
+      to = match[3] !== undefined ? Number(match[3]) : match[4] !== undefined ? max : from
+    }
+    if (step < 1 || from < min || to > max || from > to) {
+      throw new CronError(`Invalid ${name} field: ${field}`)
+    }
+
+    for (let value = from; value <= to; value += step) values.add(value)
+  }
+
+  return values
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = String(expression).trim()
+  const fields = (SHORTHANDS[trimmed] ?? trimmed).split(/\s+/)
+  if (fields.length !== 5) {
+    throw new CronError(`Cron expression needs 5 fields: ${expression}`)
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELDS[i]))
+  // 7 is Sunday too
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0)
+
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDay: fields[2] !== '*' && fields[4] !== '*'
+  }
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate())
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay())
+  return schedule.anyDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek
+}
+
+/**
+ * First time strictly after `after` that matches the schedule, to the minute.
+ */
+export function nextCronTime(schedule: CronSchedule | string, after: Date): Date {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule
+  const date = new Date(Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS)
+  const limit = after.getTime() + SEARCH_LIMIT_MS
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1)
+      date.setUTCHours(0, 0, 0, 0)
+    } else if (!dayMatches(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1)
+      date.setUTCHours(0, 0, 0, 0)
+    } else if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0)
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0)
+    } else {
+      return date
+    }
+  }
+
+  throw new CronError(`Cron expression never matches: ${cron.expression}`)
+}
+
+/**
+ * Closest cron schedule to a fixed polling interval, for services configured in milliseconds.
+ */
+export function cronForInterval(intervalMs: number): string {
+  const minutes = Math.max(1, Math.round(intervalMs / MINUTE_MS))
+  if (minutes < 60) return minutes === 1 ? '* * * * *' : `*/${minutes} * * * *`
+  const hours = Math.min(24, Math.round(minutes / 60))
+  return hours >= 24 ? '0 0 * * *' : hours === 1 ? '0 * * * *' : `0 */${hours} * * *`
+}
@@ -3,6 +3,14 @@
  * Integrates multiple bridge protocols for optimal routing and cross-chain yield optimization
  */
 
+import { DEXError } from './dex/index'
+import type { Token } from './dex/index'
+import { DEXAggregator } from './dex/aggregator'
+import { CrossChainExecutor, PreparedStep, ROUTE_CHAIN_IDS, resolveRouteToken } from './cross-chain-executor'
+
+// Slippage for the swaps and bridge deposit of an executed route, in basis points
+const EXECUTION_SLIPPAGE_BPS = 50
+
 export interface BridgeProtocol {
   id: string
   name: string
@@ -102,8 +110,9 @@ export interface YieldOpportunity {
 export interface CrossChainExecution {
   id: string
   userId: string
+  walletAddress: string
   routeId: string
-  status: 'pending' | 'bridging' | 'swapping' | 'farming' | 'completed' | 'failed'
+  status: 'pending' | 'bridging' | 'swapping' | 'farming' | 'completed' | 'failed' | 'refunded'
   startedAt: number
   completedAt?: number
   currentStep: number
@@ -112,24 +121,53 @@ export interface CrossChainExecution {
   actualCost: number
   actualOutput: number
   actualTime: number
+  plan: ExecutionPlan
+  recoveryOptions: RecoveryAction[] // Offered while a failed step waits on the user
+  error?: string
 }
 
+// Approve → source swap → bridge → destination swap; a refund bridges the delivered tokens back
+export type ExecutionStepKind = 'approve' | 'source_swap' | 'bridge' | 'dest_swap' | 'refund'
+
+export type RecoveryAction = 'retry' | 'refund'
+
 export interface TransactionStep {
   stepId: string
+  kind: ExecutionStepKind
   chain: string
+  chainId: number
   txHash?: string
-  status: 'pending' | 'confirmed' | 'failed'
+  status: 'pending' | 'submitted' | 'confirmed' | 'skipped' | 'failed'
+  blockNumber?: number
   gasUsed?: number
-  actualCost?: number
+  actualCost?: number // Gas paid, in the chain's native currency
   timestamp: number
   error?: string
+  bridgeProvider?: string // Bridge and refund steps: adapter the deposit was built for
+  trackingId?: string
+  destinationTxHash?: string // Bridge and refund steps: delivery on the other chain
+}
+
+// What an execution moves and where, with amounts filled in from receipts as legs confirm
+export interface ExecutionPlan {
+  fromChain: number
+  toChain: number
+  tokenIn: Token
+  tokenOut: Token
+  bridgeToken: Token // Carried across the bridge, on the source chain
+  amountIn: string
+  slippageTolerance: number // basis points
+  bridgeAmount?: string // Bridge token held after the source swap
+  bridgedToken?: Token // Delivered by the bridge on the destination chain
+  bridgedAmount?: string
+  amountOut?: string
 }
 
 export class AdvancedCrossChainAggregator {
   private bridges: Map<string, BridgeProtocol> = new Map()
   private routes: Map<string, CrossChainRoute> = new Map()
-  private executions: Map<string, CrossChainExecution> = new Map()
   private yieldOpportunities: Map<string, YieldOpportunity> = new Map()
+  private executor?: CrossChainExecutor
 
   constructor() {
     this.initializeBridgeProtocols()
@@ -174,43 +212,71 @@ export class AdvancedCrossChainAggregator {
       routes.push(...yieldRoutes)
     }
 
+    // Keep the routes so one can be executed by ID
+    routes.forEach(route => this.routes.set(route.id, route))
+
     // Sort routes based on preferences
     return this.sortRoutes(routes, preferences?.prioritize || 'cost')
   }
 
   /**
-   * Execute cross-chain transaction
+   * Start executing a route for the wallet that will sign its steps. The execution waits for the
+   * wallet to fetch and sign each step with prepareNextStep and submitStepTransaction.
    */
   async executeCrossChainTransaction(
     routeId: string,
     userId: string,
-    amount: number
+    amount: number,
+    walletAddress: string
   ): Promise<CrossChainExecution> {
     const route = this.routes.get(routeId)
     if (!route) {
       throw new Error('Route not found')
     }
 
-    const execution: CrossChainExecution = {
-      id: this.generateId(),
+    const fromChain = ROUTE_CHAIN_IDS[route.sourceChain]
+    const toChain = ROUTE_CHAIN_IDS[route.targetChain]
+    if (!fromChain || !toChain) {
+      throw new Error(`Route ${route.sourceChain} to ${route.targetChain} cannot be executed on-chain`)
+    }
+
+    return this.getExecutor().start({
       userId,
+      walletAddress,
       routeId,
-      status: 'pending',
-      startedAt: Date.now(),
-      currentStep: 0,
-      totalSteps: route.routes.length,
-      transactions: [],
-      actualCost: 0,
-      actualOutput: 0,
-      actualTime: 0
-    }
+      fromChain,
+      toChain,
+      tokenIn: resolveRouteToken(fromChain, route.sourceAsset),
+      tokenOut: resolveRouteToken(toChain, route.targetAsset),
+      amountIn: amount.toString(),
+      slippageTolerance: EXECUTION_SLIPPAGE_BPS
+    })
+  }
 
-    this.executions.set(execution.id, execution)
+  /**
+   * Unsigned transaction for the execution's current step, or null while a step is confirming
+   */
+  async prepareNextStep(executionId: string, userId: string): Promise<PreparedStep | null> {
+    await this.requireOwnedExecution(executionId, userId)
+    return this.getExecutor().prepareNextStep(executionId)
+  }
 
-    // Start execution process
-    this.executeRouteSteps(execution, route, amount)
+  /**
+   * Record the hash the wallet broadcast for a step
+   */
+  async submitStepTransaction(executionId: string, userId: string, stepId: string, txHash: string): Promise<CrossChainExecution> {
+    await this.requireOwnedExecution(executionId, userId)
+    return this.getExecutor().submitTransaction(executionId, stepId, txHash)
+  }
 
-    return execution
+  /**
+   * Recover a failed execution by retrying the failed step or, after the bridge, refunding to the source chain
+   */
+  async recoverExecution(executionId: string, userId: string, action: RecoveryAction): Promise<CrossChainExecution> {
+    await this.requireOwnedExecution(executionId, userId)
+    return action === 'refund'
+      ? this.getExecutor().refund(executionId)
+      : this.getExecutor().retry(executionId)
   }
 
   /**
@@ -289,20 +355,7 @@ export class AdvancedCrossChainAggregator {
    * Monitor cross-chain executions
    */
   async monitorExecutions(userId?: string): Promise<CrossChainExecution[]> {
-    let executions = Array.from(this.executions.values())
-    
-    if (userId) {
-      executions = executions.filter(exec => exec.userId === userId)
-    }
-
-    // Update execution statuses
-    for (const execution of executions) {
-      if (execution.status !== 'completed' && execution.status !== 'failed') {
-        await this.updateExecutionStatus(execution)
-      }
-    }
-
-    return executions.sort((a, b) => b.startedAt - a.startedAt)
+    return this.getExecutor().listExecutions(userId)
   }
 
   /**
@@ -320,7 +373,7 @@ export class AdvancedCrossChainAggregator {
       avgCost: number
     }>
   }> {
-    const executions = Array.from(this.executions.values())
+    const executions = await this.getExecutor().listExecutions()
     const completedExecutions = executions.filter(exec => exec.status === 'completed')
     
     const totalVolume = completedExecutions.reduce((sum, exec) => sum + exec.actualOutput, 0)
@@ -502,53 +555,6 @@ export class AdvancedCrossChainAggregator {
     }
   }
 
-  private async executeRouteSteps(
-    execution: CrossChainExecution,
-    route: CrossChainRoute,
-    amount: number
-  ): Promise<void> {
-    execution.status = 'bridging'
-    
-    // Simulate step-by-step execution
-    for (let i = 0; i < route.routes.length; i++) {
-      const step = route.routes[i]
-      execution.currentStep = i + 1
-
-      const transaction: TransactionStep = {
-        stepId: step.stepNumber.toString(),
-        chain: step.sourceChain,
-        status: 'pending',
-        timestamp: Date.now()
-      }
-
-      execution.transactions.push(transaction)
-
-      // Simulate transaction processing
-      await new Promise(resolve => setTimeout(resolve, step.time * 100)) // Scaled down for demo
-
-      transaction.status = 'confirmed'
-      transaction.txHash = this.generateTxHash()
-      transaction.gasUsed = step.gasEstimate
-      transaction.actualCost = step.fee
-
-      execution.actualCost += step.fee
-    }
-
-    execution.status = 'completed'
-    execution.completedAt = Date.now()
-    execution.actualTime = execution.completedAt - execution.startedAt
-    execution.actualOutput = amount - execution.actualCost
-  }
-
-  private async updateExecutionStatus(execution: CrossChainExecution): Promise<void> {
-    // In a real implementation, this would check blockchain transaction statuses
-    // For demo purposes, we'll simulate progression
-    if (Date.now() - execution.startedAt > 30000) { // 30 seconds
-      execution.status = 'completed'
-      execution.completedAt = Date.now()
-    }
-  }
-
   private async findOptimalYieldCombination(
     assets: Record<string, number>,
     opportunities: YieldOpportunity[],
@@ -693,8 +699,25 @@ export class AdvancedCrossChainAggregator {
     return Math.random().toString(36).substring(2) + Date.now().toString(36)
   }
 
-  private generateTxHash(): string {
-    return '0x' + Array.from({ length: 64 }, () => Math.floor(Math.random() * 16).toString(16)).join('')
+  // Created on first use so importing the aggregator opens no RPC connections
+  private getExecutor(): CrossChainExecutor {
+    if (!this.executor) {
+      this.executor = new CrossChainExecutor(new DEXAggregator())
+      if (typeof window === 'undefined') {
+        // Resume executions left behind by a previous process
+        void this.executor.resume()
+      }
+    }
+    return this.executor
+  }
+
+  // Another user's execution is reported as missing, so ids cannot be probed
+  private async requireOwnedExecution(executionId: string, userId: string): Promise<CrossChainExecution> {
+    const execution = await this.getExecutor().getExecution(executionId)
+    if (!execution || execution.userId !== userId) {
+      throw new DEXError(`Execution ${executionId} not found`, 'EXECUTION_NOT_FOUND')
+    }
+    return execution
   }
 }
 
@@ -0,0 +1,139 @@
+/**
+ * Cross-Chain Execution Persistence
+ * Maps cross-chain executions and their step state to Postgres so they resume after restarts
+ */
+
+import type {
+  CrossChainExecution,
+  ExecutionPlan,
+  RecoveryAction,
+  TransactionStep
+} from './cross-chain-aggregator'
+
+export interface PersistedExecution {
+  execution: CrossChainExecution
+  version: number
+}
+
+// Column shape of the CrossChainExecution table
+interface CrossChainExecutionRow {
+  id: string
+  userId: string
+  walletAddress: string
+  routeId: string
+  status: string
+  plan: unknown
+  steps: unknown
+  recoveryOptions: unknown
+  error: string | null
+  actualCost: number
+  actualOutput: number
+  version: number
+  startedAt: Date
+  completedAt: Date | null
+}
+
+// Executions in these states have steps left to drive
+export const NON_TERMINAL_EXECUTION_STATUSES = ['pending', 'bridging', 'swapping']
+
+// Prisma is loaded lazily so the aggregator module stays importable from client components
+async function getPrisma() {
+  const { prisma } = await import('@/lib/db')
+  return prisma
+}
+
+function executionToRow(execution: CrossChainExecution) {
+  return {
+    status: execution.status,
+    plan: execution.plan as unknown as object,
+    steps: execution.transactions as unknown as object,
+    recoveryOptions: execution.recoveryOptions as unknown as object,
+    error: execution.error ?? null,
+    actualCost: execution.actualCost,
+    actualOutput: execution.actualOutput,
+    completedAt: execution.completedAt ? new Date(execution.completedAt) : null
+  }
+}
+
+function rowToExecution(row: CrossChainExecutionRow): PersistedExecution {
+  const transactions = (row.steps ?? []) as TransactionStep[]
+  const startedAt = new Date(row.startedAt).getTime()
+  const completedAt = row.completedAt ? new Date(row.completedAt).getTime() : undefined
+
+  return {
+    execution: {
+      id: row.id,
+      userId: row.userId,
+      walletAddress: row.walletAddress,
+      routeId: row.routeId,
+      status: row.status as CrossChainExecution['status'],
+      startedAt,
+      completedAt,
+      currentStep: 0, // Derived from the steps by the executor that loads it
+      totalSteps: transactions.length,
+      transactions,
+      actualCost: row.actualCost,
+      actualOutput: row.actualOutput,
+      actualTime: completedAt ? completedAt - startedAt : 0,
+      plan: row.plan as ExecutionPlan,
+      recoveryOptions: (row.recoveryOptions ?? []) as RecoveryAction[],
+      error: row.error ?? undefined
+    },
+    version: row.version
+  }
+}
+
+export async function insertExecution(execution: CrossChainExecution): Promise<number> {
+  const prisma = await getPrisma()
+  const row = await prisma.crossChainExecution.create({
+    data: {
+      id: execution.id,
+      userId: execution.userId,
+      walletAddress: execution.walletAddress,
+      routeId: execution.routeId,
+      ...executionToRow(execution),
+      startedAt: new Date(execution.startedAt)
+    }
+  })
+  return row.version
+}
+
+/**
+ * Writes the execution only if nobody else has written it since `expectedVersion`.
+ * Returns the new version, or null when another instance owns the execution now.
+ */
+export async function updateExecution(execution: CrossChainExecution, expectedVersion: number): Promise<number | null> {
+  const prisma = await getPrisma()
+  const result = await prisma.crossChainExecution.updateMany({
+    where: { id: execution.id, version: expectedVersion },
+    data: {
+      ...executionToRow(execution),
+      version: { increment: 1 }
+    }
+  })
+  return result.count === 1 ? expectedVersion + 1 : null
+}
+
+export async function findExecution(executionId: string): Promise<PersistedExecution | null> {
+  const prisma = await getPrisma()
+  const row = await prisma.crossChainExecution.findUnique({ where: { id: executionId } })
+  return row ? rowToExecution(row) : null
+}
+
+export async function findExecutionsByUser(userId: string): Promise<PersistedExecution[]> {
+  const prisma = await getPrisma()
+  const rows = await prisma.crossChainExecution.findMany({
+    where: { userId },
+    orderBy: { startedAt: 'desc' }
+  })
+  return rows.map(rowToExecution)
+}
+
+export async function findNonTerminalExecutions(): Promise<PersistedExecution[]> {
+  const prisma = await getPrisma()
+  const rows = await prisma.crossChainExecution.findMany({
+    where: { status: { in: NON_TERMINAL_EXECUTION_STATUSES } },
+    orderBy: { startedAt: 'asc' }
+  })
+  return rows.map(rowToExecution)
+}
@@ -0,0 +1,746 @@
+/**
+ * Cross-Chain Executor
+ * State machine that walks an execution through approve → source swap → bridge → destination swap.
+ * Each step is built when it comes up, signed and broadcast by the user's wallet, and confirmed from
+ * its receipt; steps are persisted with their hashes so a restarted process resumes after the last
+ * confirmed one.
+ */
+
+import { ethers } from 'ethers'
+import { DEXAggregator } from './dex/aggregator'
+import { DEXError, SimulationFailedError, getCommonTokens } from './dex/index'
+import type { Token, UnsignedTransaction } from './dex/index'
+import { TransactionSimulator } from './dex/simulation'
+import type { SimulationExpectation, SimulationResult } from './dex/simulation'
+import { BRIDGE_TOKENS, encodeTrackingId } from './dex/bridge-base'
+import type { BridgeToken } from './dex/bridge-base'
+import * as executionStore from './cross-chain-execution-store'
+import type { PersistedExecution } from './cross-chain-execution-store'
+import type {
+  CrossChainExecution,
+  ExecutionStepKind,
+  RecoveryAction,
+  TransactionStep
+} from './cross-chain-aggregator'
+
+// Chain names used by cross-chain routes
+export const ROUTE_CHAIN_IDS: { [chain: string]: number } = {
+  ethereum: 1,
+  bsc: 56,
+  polygon: 137,
+  arbitrum: 42161,
+  optimism: 10,
+  avalanche: 43114
+}
+
+// Route assets that are native coins are swapped as their wrapped token
+const WRAPPED_NATIVE: { [symbol: string]: string } = {
+  ETH: 'WETH',
+  BNB: 'WBNB',
+  MATIC: 'WMATIC'
+}
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)')
+
+// A submitted hash no node has seen after this long is dropped and the step handed back to the wallet
+const UNSEEN_TRANSACTION_TIMEOUT_MS = 15 * 60 * 1000
+
+export interface CrossChainExecutorOptions {
+  persistence?: boolean // Defaults to true; tests run in memory
+}
+
+export interface CrossChainExecutionRequest {
+  userId: string
+  walletAddress: string
+  routeId: string
+  fromChain: number
+  toChain: number
+  tokenIn: Token
+  tokenOut: Token
+  amountIn: string
+  slippageTolerance: number // basis points
+}
+
+// Transaction the wallet should sign next, the step its hash is submitted for, and how it simulated
+export interface PreparedStep {
+  step: TransactionStep
+  transaction: UnsignedTransaction
+  simulation: SimulationResult
+}
+
+interface BuiltLeg {
+  approval: UnsignedTransaction | null
+  transaction: UnsignedTransaction
+  expectation?: SimulationExpectation // Swaps only
+}
+
+/**
+ * Token for a route asset symbol on a chain, from the common token list and then the bridge tokens
+ */
+export function resolveRouteToken(chainId: number, symbol: string): Token {
+  const wanted = WRAPPED_NATIVE[symbol] ?? symbol
+  const common = getCommonTokens(chainId).find(token => token.symbol === wanted)
+  if (common) return common
+
+  const bridged = (BRIDGE_TOKENS as { [asset: string]: { [chainId: number]: BridgeToken } })[wanted]?.[chainId]
+  if (bridged) return { ...bridged, name: bridged.symbol, chainId }
+
+  throw new DEXError(`${symbol} is not available on chain ${chainId}`, 'UNSUPPORTED_ASSET')
+}
+
+function chainName(chainId: number): string {
+  return Object.keys(ROUTE_CHAIN_IDS).find(name => ROUTE_CHAIN_IDS[name] === chainId) ?? chainId.toString()
+}
+
+function sameToken(a: Token | undefined, b: Token | undefined): boolean {
+  return !!a && !!b && a.chainId === b.chainId && a.address.toLowerCase() === b.address.toLowerCase()
+}
+
+function newStep(stepNumber: number, kind: ExecutionStepKind, chainId: number): TransactionStep {
+  return {
+    stepId: stepNumber.toString(),
+    kind,
+    chain: chainName(chainId),
+    chainId,
+    status: 'pending',
+    timestamp: Date.now()
+  }
+}
+
+// Index of the step being worked on: the first one neither finished nor abandoned
+function currentIndex(execution: CrossChainExecution): number {
+  return execution.transactions.findIndex(step => step.status === 'pending' || step.status === 'submitted')
+}
+
+// Leg a step belongs to; an approval belongs to the step it approves for
+function legOf(execution: CrossChainExecution, index: number): ExecutionStepKind {
+  const step = execution.transactions[index]
+  return step.kind === 'approve' ? execution.transactions[index + 1].kind : step.kind
+}
+
+// Amount of `token` the receipt's Transfer logs sent to `wallet`, in base units
+function receivedAmount(receipt: ethers.TransactionReceipt, token: Token, wallet: string): bigint {
+  return receipt.logs
+    .filter(log =>
+      log.address.toLowerCase() === token.address.toLowerCase() &&
+      log.topics[0] === TRANSFER_TOPIC &&
+      log.topics.length === 3 &&
+      ethers.dataSlice(log.topics[2], 12).toLowerCase() === wallet.toLowerCase()
+    )
+    .reduce((total, log) => total + BigInt(log.data), BigInt(0))
+}
+
+export class CrossChainExecutor {
+  private executions: Map<string, CrossChainExecution> = new Map()
+  private versions: Map<string, number> = new Map()
+  private queues: Map<string, Promise<void>> = new Map()
+  private persistenceEnabled: boolean
+  private ready: Promise<void> = Promise.resolve()
+
+  constructor(private dex: DEXAggregator, options: CrossChainExecutorOptions = {}) {
+    this.persistenceEnabled = options.persistence ?? true
+  }
+
+  /**
+   * Reload executions a previous process left unfinished and re-check the transactions they were
+   * waiting on
+   */
+  resume(): Promise<void> {
+    this.ready = this.recover()
+    return this.ready
+  }
+
+  /**
+   * Plan the steps for a transfer and record the execution. Nothing is signed until the wallet asks
+   * for the first step with prepareNextStep.
+   */
+  async start(request: CrossChainExecutionRequest): Promise<CrossChainExecution> {
+    await this.ready
+    const { fromChain, toChain, tokenIn, tokenOut, amountIn, slippageTolerance, walletAddress } = request
+
+    const quote = await this.dex.getCrossChainQuote({
+      fromChain,
+      toChain,
+      tokenIn,
+      tokenOut,
+      amountIn,
+      slippageTolerance,
+      recipient: walletAddress
+    })
+    const bridgeToken = quote.bridgeToken!
+    const needsSourceSwap = !sameToken(tokenIn, bridgeToken)
+
+    const kinds: [ExecutionStepKind, number][] = []
+    if (needsSourceSwap) {
+      kinds.push(['approve', fromChain], ['source_swap', fromChain])
+    }
+    kinds.push(['approve', fromChain], ['bridge', fromChain])
+    if (quote.steps.some(step => step.chain === toChain)) {
+      kinds.push(['approve', toChain], ['dest_swap', toChain])
+    }
+
+    const execution: CrossChainExecution = {
+      id: Math.random().toString(36).substring(2) + Date.now().toString(36),
+      userId: request.userId,
+      walletAddress,
+      routeId: request.routeId,
+      status: 'pending',
+      startedAt: Date.now(),
+      currentStep: 1,
+      totalSteps: kinds.length,
+      transactions: kinds.map(([kind, chainId], index) => newStep(index + 1, kind, chainId)),
+      actualCost: 0,
+      actualOutput: 0,
+      actualTime: 0,
+      plan: {
+        fromChain,
+        toChain,
+        tokenIn,
+        tokenOut,
+        bridgeToken,
+        amountIn,
+        slippageTolerance,
+        bridgeAmount: needsSourceSwap ? undefined : amountIn
+      },
+      recoveryOptions: []
+    }
+
+    this.syncProgress(execution)
+    await this.commit(execution)
+    return execution
+  }
+
+  async getExecution(executionId: string): Promise<CrossChainExecution | null> {
+    await this.ready
+    const execution = this.executions.get(executionId)
+    if (execution || !this.persistenceEnabled) {
+      return execution ?? null
+    }
+
+    try {
+      const persisted = await executionStore.findExecution(executionId)
+      return persisted ? this.adopt(persisted) : null
+    } catch (error) {
+      this.disablePersistence(error)
+      return null
+    }
+  }
+
+  /**
+   * Executions, newest first, after checking the transactions the unfinished ones are waiting on
+   */
+  async listExecutions(userId?: string): Promise<CrossChainExecution[]> {
+    await this.ready
+    if (userId && this.persistenceEnabled) {
+      try {
+        (await executionStore.findExecutionsByUser(userId)).forEach(persisted => this.adopt(persisted))
+      } catch (error) {
+        this.disablePersistence(error)
+      }
+    }
+
+    const executions = Array.from(this.executions.values()).filter(execution => !userId || execution.userId === userId)
+    await Promise.all(executions.map(execution => this.refresh(execution)))
+    return executions.sort((a, b) => b.startedAt - a.startedAt)
+  }
+
+  /**
+   * Build the transaction for the current step and simulate it, throwing SimulationFailedError when
+   * it is not safe to sign. An approval that is not needed is skipped and the step it was for is
+   * returned instead. Null while a submitted step is still confirming, or once the execution has
+   * finished or failed.
+   */
+  async prepareNextStep(executionId: string): Promise<PreparedStep | null> {
+    const execution = await this.requireExecution(executionId)
+
+    return this.enqueue(executionId, async () => {
+      const index = currentIndex(execution)
+      const step = execution.transactions[index]
+      if (execution.status === 'failed' || !step || step.status !== 'pending') {
+        return null
+      }
+
+      if (step.kind !== 'approve') {
+        const built = await this.buildLeg(execution, step)
+        const simulation = await this.simulate(step, built.transaction, built.expectation)
+        await this.commitOrThrow(execution)
+        return { step, transaction: built.transaction, simulation }
+      }
+
+      const leg = execution.transactions[index + 1]
+      const built = await this.buildLeg(execution, leg)
+      if (built.approval) {
+        // The leg itself cannot be simulated until the approval confirms
+        const simulation = await this.simulate(step, built.approval)
+        await this.commitOrThrow(execution)
+        return { step, transaction: built.approval, simulation }
+      }
+
+      const simulation = await this.simulate(leg, built.transaction, built.expectation)
+      step.status = 'skipped'
+      this.syncProgress(execution)
+      await this.commitOrThrow(execution)
+      return { step: leg, transaction: built.transaction, simulation }
+    })
+  }
+
+  /**
+   * Record the hash the wallet broadcast for a step. If the node already knows the transaction it
+   * must come from the execution's wallet; otherwise the sender is checked on its receipt, and a
+   * hash that never shows up expires.
+   */
+  async submitTransaction(executionId: string, stepId: string, hash: string): Promise<CrossChainExecution> {
+    const execution = await this.requireExecution(executionId)
+
+    return this.enqueue(executionId, async () => {
+      const step = execution.transactions[currentIndex(execution)]
+      if (!step || step.stepId !== stepId || step.status !== 'pending' || execution.status === 'failed') {
+        throw new DEXError(`Step ${stepId} of execution ${executionId} is not waiting for a transaction`, 'INVALID_STEP')
+      }
+      if ((step.kind === 'bridge' || step.kind === 'refund') && !step.bridgeProvider) {
+        throw new DEXError(`Step ${stepId} has not been prepared`, 'INVALID_STEP')
+      }
+
+      const transaction = await this.requireProvider(step.chainId).getTransaction(hash)
+      if (transaction && transaction.from.toLowerCase() !== execution.walletAddress.toLowerCase()) {
+        throw new DEXError(`Transaction ${hash} was not sent by ${execution.walletAddress}`, 'SENDER_MISMATCH')
+      }
+
+      step.txHash = hash.toLowerCase()
+      step.status = 'submitted'
+      step.error = undefined
+      step.timestamp = Date.now()
+      if (step.kind === 'bridge' || step.kind === 'refund') {
+        const { fromChain, toChain } = execution.plan
+        step.trackingId = step.kind === 'bridge'
+          ? encodeTrackingId(step.bridgeProvider!, fromChain, toChain, step.txHash)
+          : encodeTrackingId(step.bridgeProvider!, toChain, fromChain, step.txHash)
+      }
+
+      this.syncProgress(execution)
+      await this.commitOrThrow(execution)
+      await this.advance(execution).catch(error => {
+        console.warn(`Failed to check step ${stepId} of cross-chain execution ${executionId}:`, error)
+      })
+      return execution
+    })
+  }
+
+  /**
+   * Put the failed step back in front of the wallet. Swaps and deposits are re-quoted when they are
+   * prepared again; a bridge step stays with the provider its approval was for.
+   */
+  async retry(executionId: string): Promise<CrossChainExecution> {
+    const execution = await this.requireExecution(executionId)
+
+    return this.enqueue(executionId, async () => {
+      this.requireRecovery(execution, 'retry')
+      const index = execution.transactions.map(step => step.status).lastIndexOf('failed')
+      const failed = execution.transactions[index]
+      execution.transactions[index] = { ...newStep(Number(failed.stepId), failed.kind, failed.chainId), bridgeProvider: failed.bridgeProvider }
+
+      this.clearFailure(execution)
+      await this.commitOrThrow(execution)
+      return execution
+    })
+  }
+
+  /**
+   * Give up on the destination swap and bridge the delivered tokens back to the source chain
+   */
+  async refund(executionId: string): Promise<CrossChainExecution> {
+    const execution = await this.requireExecution(executionId)
+
+    return this.enqueue(executionId, async () => {
+      this.requireRecovery(execution, 'refund')
+      execution.transactions
+        .filter(step => step.status === 'pending')
+        .forEach(step => { step.status = 'skipped' })
+
+      const { toChain } = execution.plan
+      const next = execution.transactions.length + 1
+      execution.transactions.push(newStep(next, 'approve', toChain), newStep(next + 1, 'refund', toChain))
+
+      this.clearFailure(execution)
+      await this.commitOrThrow(execution)
+      return execution
+    })
+  }
+
+  // State machine
+
+  /**
+   * Move past every submitted step whose transaction has settled, stopping at the first one that is
+   * still confirming or that needs the wallet
+   */
+  private async advance(execution: CrossChainExecution): Promise<void> {
+    let changed = false
+    let step = execution.transactions[currentIndex(execution)]
+
+    while (step?.status === 'submitted' && execution.status !== 'failed') {
+      changed = await this.checkStep(execution, step) || changed
+      if (step.status === 'submitted') break
+      step = execution.transactions[currentIndex(execution)]
+    }
+
+    if (changed) {
+      this.syncProgress(execution)
+      await this.commit(execution)
+    }
+  }
+
+  /**
+   * Settle a submitted step from its receipt. Bridge and refund steps are confirmed only once the
+   * transfer has been delivered on the other chain. Returns whether anything was recorded.
+   */
+  private async checkStep(execution: CrossChainExecution, step: TransactionStep): Promise<boolean> {
+    const provider = this.requireProvider(step.chainId)
+    const receipt = await provider.getTransactionReceipt(step.txHash!)
+    if (!receipt) {
+      if (Date.now() - step.timestamp < UNSEEN_TRANSACTION_TIMEOUT_MS || await provider.getTransaction(step.txHash!)) {
+        return false
+      }
+      this.releaseStep(step, `Transaction ${step.txHash} was never seen on chain ${step.chainId}`)
+      return true
+    }
+    if (receipt.from.toLowerCase() !== execution.walletAddress.toLowerCase()) {
+      this.releaseStep(step, `Transaction ${step.txHash} was not sent by ${execution.walletAddress}`)
+      return true
+    }
+
+    if (receipt.status !== 1) {
+      this.failStep(execution, step, `Transaction ${step.txHash} reverted`)
+      return true
+    }
+
+    const firstSeen = step.blockNumber === undefined
+    if (firstSeen) {
+      step.blockNumber = receipt.blockNumber
+      step.gasUsed = Number(receipt.gasUsed)
+      step.actualCost = parseFloat(ethers.formatEther(receipt.gasUsed * receipt.gasPrice))
+    }
+
+    const { plan, walletAddress } = execution
+    switch (step.kind) {
+      case 'source_swap': {
+        const received = receivedAmount(receipt, plan.bridgeToken, walletAddress)
+        if (received > BigInt(0)) {
+          plan.bridgeAmount = ethers.formatUnits(received, plan.bridgeToken.decimals)
+        }
+        break
+      }
+      case 'dest_swap': {
+        const received = receivedAmount(receipt, plan.tokenOut, walletAddress)
+        if (received > BigInt(0)) {
+          plan.amountOut = ethers.formatUnits(received, plan.tokenOut.decimals)
+        }
+        execution.actualOutput = parseFloat(plan.amountOut ?? '0')
+        break
+      }
+      case 'bridge':
+      case 'refund': {
+        const transfer = await this.dex.getBridgeAggregator().trackBridgeStatus(step.trackingId!)
+        if (transfer.status === 'pending') return firstSeen
+        if (transfer.status === 'failed') {
+          this.failStep(execution, step, `${step.bridgeProvider} reported transfer ${step.txHash} as failed`, [])
+          return true
+        }
+
+        step.destinationTxHash = transfer.toTxHash
+        if (step.kind === 'bridge') {
+          await this.recordDelivery(execution, transfer.toTxHash)
+        }
+        break
+      }
+    }
+
+    step.status = 'confirmed'
+    return true
+  }
+
+  /**
+   * Take the delivered amount from the destination transfer when the bridge reported one, and drop
+   * the destination swap if the bridge already delivered the token the user asked for
+   */
+  private async recordDelivery(execution: CrossChainExecution, toTxHash?: string): Promise<void> {
+    const { plan, walletAddress } = execution
+    const bridgedToken = plan.bridgedToken!
+
+    if (toTxHash) {
+      const receipt = await this.requireProvider(plan.toChain).getTransactionReceipt(toTxHash)
+      const received = receipt ? receivedAmount(receipt, bridgedToken, walletAddress) : BigInt(0)
+      if (received > BigInt(0)) {
+        plan.bridgedAmount = ethers.formatUnits(received, bridgedToken.decimals)
+      }
+    }
+
+    if (sameToken(bridgedToken, plan.tokenOut)) {
+      execution.transactions
+        .filter(step => step.status === 'pending' && step.chainId === plan.toChain)
+        .forEach(step => { step.status = 'skipped' })
+      plan.amountOut = plan.bridgedAmount
+      execution.actualOutput = parseFloat(plan.amountOut ?? '0')
+    }
+  }
+
+  private async buildLeg(execution: CrossChainExecution, step: TransactionStep): Promise<BuiltLeg> {
+    const { plan, walletAddress } = execution
+
+    switch (step.kind) {
+      case 'source_swap':
+      case 'dest_swap': {
+        const source = step.kind === 'source_swap'
+        const tokenIn = source ? plan.tokenIn : plan.bridgedToken!
+        const tokenOut = source ? plan.bridgeToken : plan.tokenOut
+        const route = await this.dex.findBestRoute({
+          tokenIn,
+          tokenOut,
+          amountIn: source ? plan.amountIn : plan.bridgedAmount!,
+          slippageTolerance: plan.slippageTolerance
+        }, walletAddress)
+        if (source) {
+          plan.bridgeAmount = route.bestQuote.minimumAmountOut // Replaced by the received amount on confirmation
+        }
+        return {
+          approval: route.transactions!.approval,
+          transaction: route.transactions!.swap,
+          expectation: {
+            tokenIn,
+            tokenOut,
+            amountIn: BigInt(route.transactions!.amountIn),
+            expectedAmountOut: ethers.parseUnits(route.bestQuote.amountOut, tokenOut.decimals),
+            slippageTolerance: plan.slippageTolerance,
+            recipient: walletAddress
+          }
+        }
+      }
+      case 'bridge': {
+        const built = await this.dex.getBridgeAggregator().buildBridgeTransactions({
+          fromChain: plan.fromChain,
+          toChain: plan.toChain,
+          fromToken: plan.bridgeToken.address,
+          toToken: plan.bridgeToken.address,
+          amount: plan.bridgeAmount!,
+          recipient: walletAddress,
+          slippage: plan.slippageTolerance
+        }, walletAddress, step.bridgeProvider)
+        step.bridgeProvider = built.providerId
+        plan.bridgedToken = this.destinationToken(execution, built.quote.toToken)
+        plan.bridgedAmount = built.quote.toAmount // Replaced by the delivered amount once it arrives
+        execution.actualCost = parseFloat(built.quote.fees.bridgeFee)
+        return { approval: built.approval, transaction: built.deposit }
+      }
+      case 'refund': {
+        const built = await this.dex.getBridgeAggregator().buildBridgeTransactions({
+          fromChain: plan.toChain,
+          toChain: plan.fromChain,
+          fromToken: plan.bridgedToken!.address,
+          toToken: plan.bridgeToken.address,
+          amount: plan.bridgedAmount!,
+          recipient: walletAddress,
+          slippage: plan.slippageTolerance
+        }, walletAddress, step.bridgeProvider)
+        step.bridgeProvider = built.providerId
+        return { approval: built.approval, transaction: built.deposit }
+      }
+      default:
+        throw new DEXError('Approvals are built with the step they approve for', 'INVALID_STEP')
+    }
+  }
+
+  private async simulate(step: TransactionStep, transaction: UnsignedTransaction, expectation?: SimulationExpectation): Promise<SimulationResult> {
+    const provider = this.dex.getProvider(step.chainId)
+    if (!provider) {
+      throw new DEXError(`No provider for chain ${step.chainId}`, 'UNSUPPORTED_CHAIN')
+    }
+
+    const simulation = await new TransactionSimulator(provider).simulate(transaction, expectation)
+    if (!simulation.safe) {
+      throw new SimulationFailedError(simulation)
+    }
+    return simulation
+  }
+
+  // Token a bridge delivers on the destination chain, with its decimals when it is a known bridge token
+  private destinationToken(execution: CrossChainExecution, address: string): Token {
+    const { plan } = execution
+    const known = (Object.values(BRIDGE_TOKENS) as { [chainId: number]: BridgeToken }[])
+      .map(tokens => tokens[plan.toChain])
+      .find(token => token?.address.toLowerCase() === address.toLowerCase())
+
+    return {
+      address,
+      symbol: known?.symbol ?? plan.bridgeToken.symbol,
+      name: known?.symbol ?? plan.bridgeToken.name,
+      decimals: known?.decimals ?? plan.bridgeToken.decimals,
+      chainId: plan.toChain
+    }
+  }
+
+  // Forget a submitted hash that does not belong to the step, so the wallet is asked to sign it again
+  private releaseStep(step: TransactionStep, error: string): void {
+    console.warn(`Releasing cross-chain step ${step.stepId}: ${error}`)
+    step.status = 'pending'
+    step.txHash = undefined
+    step.trackingId = undefined
+    step.error = error
+    step.timestamp = Date.now()
+  }
+
+  /**
+   * Fail the execution at `step`. Funds stuck before the bridge can only be retried; once they are
+   * on the destination chain the user can also have them bridged back.
+   */
+  private failStep(execution: CrossChainExecution, step: TransactionStep, error: string, recoveryOptions?: RecoveryAction[]): void {
+    step.status = 'failed'
+    step.error = error
+    execution.status = 'failed'
+    execution.error = error
+    execution.recoveryOptions = recoveryOptions
+      ?? (legOf(execution, execution.transactions.indexOf(step)) === 'dest_swap' ? ['retry', 'refund'] : ['retry'])
+  }
+
+  private clearFailure(execution: CrossChainExecution): void {
+    execution.status = 'pending'
+    execution.error = undefined
+    execution.recoveryOptions = []
+    this.syncProgress(execution)
+  }
+
+  private requireRecovery(execution: CrossChainExecution, action: RecoveryAction): void {
+    if (execution.status !== 'failed' || !execution.recoveryOptions.includes(action)) {
+      throw new DEXError(`Execution ${execution.id} cannot ${action} now`, 'RECOVERY_UNAVAILABLE')
+    }
+  }
+
+  // Derive the current step and overall status from the step states
+  private syncProgress(execution: CrossChainExecution): void {
+    const index = currentIndex(execution)
+    execution.totalSteps = execution.transactions.length
+    execution.currentStep = index === -1 ? execution.totalSteps : index + 1
+    if (execution.status === 'failed') return
+
+    if (index === -1) {
+      const refunded = execution.transactions.some(step => step.kind === 'refund' && step.status === 'confirmed')
+      execution.status = refunded ? 'refunded' : 'completed'
+      execution.completedAt = execution.completedAt ?? Date.now()
+      execution.actualTime = execution.completedAt - execution.startedAt
+      return
+    }
+
+    const leg = legOf(execution, index)
+    if (leg === 'bridge' || leg === 'refund') {
+      execution.status = 'bridging'
+    } else {
+      execution.status = execution.transactions.some(step => step.txHash) ? 'swapping' : 'pending'
+    }
+  }
+
+  // Persistence and scheduling
+
+  private async recover(): Promise<void> {
+    try {
+      const persisted = await executionStore.findNonTerminalExecutions()
+      const executions = persisted.map(entry => this.adopt(entry))
+      await Promise.all(executions.map(execution => this.refresh(execution)))
+
+      if (executions.length > 0) {
+        console.log(`✓ Recovered ${executions.length} cross-chain executions`)
+      }
+    } catch (error) {
+      this.disablePersistence(error)
+    }
+  }
+
+  // Take over an execution loaded from the store, unless this process is already driving it
+  private adopt({ execution, version }: PersistedExecution): CrossChainExecution {
+    const existing = this.executions.get(execution.id)
+    if (existing) return existing
+
+    this.syncProgress(execution)
+    this.executions.set(execution.id, execution)
+    this.versions.set(execution.id, version)
+    return execution
+  }
+
+  private refresh(execution: CrossChainExecution): Promise<void> {
+    if (currentIndex(execution) === -1 || execution.status === 'failed') {
+      return Promise.resolve()
+    }
+    return this.enqueue(execution.id, () => this.advance(execution)).catch(error => {
+      console.warn(`Failed to refresh cross-chain execution ${execution.id}:`, error)
+    })
+  }
+
+  private async requireExecution(executionId: string): Promise<CrossChainExecution> {
+    const execution = await this.getExecution(executionId)
+    if (!execution) {
+      throw new DEXError(`Execution ${executionId} not found`, 'EXECUTION_NOT_FOUND')
+    }
+    return execution
+  }
+
+  private requireProvider(chainId: number): ethers.Provider {
+    const provider = this.dex.getProvider(chainId)
+    if (!provider) {
+      throw new DEXError(`Chain ${chainId} is not supported`, 'UNSUPPORTED_CHAIN')
+    }
+    return provider
+  }
+
+  private disablePersistence(error: unknown): void {
+    if (this.persistenceEnabled) {
+      console.warn('⚠ Cross-chain persistence unavailable, falling back to in-memory storage:', error)
+    }
+    this.persistenceEnabled = false
+  }
+
+  /**
+   * Stores the new state of an execution. Returns false when another instance has written it
+   * since we last did, in which case we stop driving it here.
+   */
+  private async commit(execution: CrossChainExecution): Promise<boolean> {
+    if (this.persistenceEnabled) {
+      const version = this.versions.get(execution.id)
+
+      try {
+        if (version === undefined) {
+          this.versions.set(execution.id, await executionStore.insertExecution(execution))
+        } else {
+          const nextVersion = await executionStore.updateExecution(execution, version)
+          if (nextVersion === null) {
+            this.executions.delete(execution.id)
+            this.versions.delete(execution.id)
+            return false
+          }
+          this.versions.set(execution.id, nextVersion)
+        }
+      } catch (error) {
+        this.disablePersistence(error)
+      }
+    }
+
+    this.executions.set(execution.id, execution)
+    return true
+  }
+
+  private async commitOrThrow(execution: CrossChainExecution): Promise<void> {
+    if (!await this.commit(execution)) {
+      throw new DEXError(`Execution ${execution.id} was updated by another process`, 'EXECUTION_CONFLICT')
+    }
+  }
+
+  private enqueue<T>(executionId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(executionId) || Promise.resolve()
+    const result = previous.then(task)
+    const settled = result.then(() => undefined, () => undefined)
+
+    this.queues.set(executionId, settled)
+    settled.then(() => {
+      if (this.queues.get(executionId) === settled) {
+        this.queues.delete(executionId)
+      }
+    })
+    return result
+  }
+}
@@ -1,4 +1,14 @@
 import { PrismaClient } from '@prisma/client'
+import {
+  buildJournalEntry,
+  findMismatches,
+  projectHoldings,
+  JournalEntry,
+  LedgerError,
+  LedgerTransactionType,
+  LedgerUnavailableError,
+  ReconciliationMismatch
+} from './ledger'
 
 // Global Prisma instance to avoid connection issues in serverless
 declare global {
@@ -53,13 +63,66 @@ type MemoryTransaction = {
   updatedAt: Date
 }
 
+type MemoryJournalEntry = JournalEntry & {
+  id: string
+  createdAt: Date
+}
+
+type MemoryMismatch = ReconciliationMismatch & {
+  id: string
+  detectedAt: Date
+  resolvedAt: Date | null
+}
+
 const memoryStore = {
   users: [] as MemoryUser[],
   portfolios: [] as MemoryPortfolio[],
   transactions: [] as MemoryTransaction[],
+  journalEntries: [] as MemoryJournalEntry[],
+  mismatches: [] as MemoryMismatch[],
   nextId: 1
 }
 
+// Attempts at a Serializable ledger write before giving up on a conflict
+const SERIALIZATION_RETRIES = 3
+
+// Demo holdings, recorded as purchases so the ledger backs them
+const demoTrades = [
+  { symbol: 'BTC', name: 'Bitcoin', amount: 0.5, price: 45000 },
+  { symbol: 'ETH', name: 'Ethereum', amount: 2.0, price: 3200 },
+  { symbol: 'BNB', name: 'Binance Coin', amount: 10, price: 400 }
+]
+
+// Row shape of a JournalEntry with its postings and their accounts
+type JournalEntryRow = {
+  id: string
+  userId: string
+  transactionId: string | null
+  kind: LedgerTransactionType
+  description: string
+  occurredAt: Date
+  createdAt: Date
+  postings: { amount: number; usdValue: number; account: { type: JournalEntry['postings'][number]['accountType']; asset: string } }[]
+}
+
+function rowToJournalEntry(row: JournalEntryRow): MemoryJournalEntry {
+  return {
+    id: row.id,
+    userId: row.userId,
+    transactionId: row.transactionId,
+    kind: row.kind,
+    description: row.description,
+    occurredAt: new Date(row.occurredAt).getTime(),
+    createdAt: row.createdAt,
+    postings: row.postings.map(posting => ({
+      accountType: posting.account.type,
+      asset: posting.account.asset,
+      amount: posting.amount,
+      usdValue: posting.usdValue
+    }))
+  }
+}
+
 // Pre-seed demo user for development
 async function initializeDemoUser() {
   if (memoryStore.users.length === 0 && !process.env.DATABASE_URL) {
@@ -201,107 +264,14 @@ export class DatabaseService {
       return this.seedDemoDataMemory(userId)
     }
 
-    try {
-      // Create demo portfolio entries
-      const demoPortfolio = [
-        { symbol: 'BTC', name: 'Bitcoin', amount: 0.5, averagePrice: 45000 },
-        { symbol: 'ETH', name: 'Ethereum', amount: 2.0, averagePrice: 3200 },
-        { symbol: 'BNB', name: 'Binance Coin', amount: 10, averagePrice: 400 },
-      ]
-
-      for (const item of demoPortfolio) {
-        await this.prisma.portfolio.create({
-          data: {
-            userId,
-            symbol: item.symbol,
-            name: item.name,
-            amount: item.amount,
-            averagePrice: item.averagePrice,
-            totalValue: item.amount * item.averagePrice
-          }
-        })
-      }
-
-      // Create demo transactions
-      const demoTransactions = [
-        {
-          type: 'BUY' as const,
-          symbol: 'BTC',
-          amount: 0.5,
-          price: 45000,
-          totalValue: 22500
-        },
-        {
-          type: 'BUY' as const,
-          symbol: 'ETH',
-          amount: 2.0,
-          price: 3200,
-          totalValue: 6400
-        }
-      ]
-
-      for (const transaction of demoTransactions) {
-        await this.prisma.transaction.create({
-          data: {
-            userId,
-            type: transaction.type,
-            symbol: transaction.symbol,
-            amount: transaction.amount,
-            price: transaction.price,
-            totalValue: transaction.totalValue,
-            status: 'COMPLETED'
-          }
-        })
-      }
-    } catch (error) {
-      console.error('Error seeding demo data, falling back to memory:', error)
-      this.isConnected = false
-      return this.seedDemoDataMemory(userId)
+    for (const trade of demoTrades) {
+      await this.createTransaction(userId, 'BUY', trade.symbol, trade.amount, trade.price, 0, trade.name)
     }
   }
 
   async seedDemoDataMemory(userId: string) {
-    // Create demo portfolio entries in memory
-    const demoPortfolio = [
-      { symbol: 'BTC', name: 'Bitcoin', amount: 0.5, averagePrice: 45000 },
-      { symbol: 'ETH', name: 'Ethereum', amount: 2.0, averagePrice: 3200 },
-      { symbol: 'BNB', name: 'Binance Coin', amount: 10, averagePrice: 400 },
-    ]
-
-    for (const item of demoPortfolio) {
-      memoryStore.portfolios.push({
-        id: `portfolio_${memoryStore.nextId++}`,
-        userId,
-        symbol: item.symbol,
-        name: item.name,
-        amount: item.amount,
-        averagePrice: item.averagePrice,
-        totalValue: item.amount * item.averagePrice,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      })
-    }
-
-    // Create demo transactions in memory
-    const demoTransactions = [
-      { type: 'BUY' as const, symbol: 'BTC', amount: 0.5, price: 45000, totalValue: 22500 },
-      { type: 'BUY' as const, symbol: 'ETH', amount: 2.0, price: 3200, totalValue: 6400 }
-    ]
-
-    for (const transaction of demoTransactions) {
-      memoryStore.transactions.push({
-        id: `transaction_${memoryStore.nextId++}`,
-        userId,
-        type: transaction.type,
-        symbol: transaction.symbol,
-        amount: transaction.amount,
-        price: transaction.price,
-        totalValue: transaction.totalValue,
-        fee: 0,
-        status: 'COMPLETED',
-        createdAt: new Date(),
-        updatedAt: new Date()
-      })
+    for (const trade of demoTrades) {
+      this.recordTransactionMemory(userId, 'BUY', trade.symbol, trade.amount, trade.price, 0, trade.name)
     }
   }
 
@@ -327,83 +297,10 @@ export class DatabaseService {
     }
   }
 
+  // Manual additions are recorded as deposits; Portfolio rows only change through the ledger
   async addToPortfolio(userId: string, symbol: string, name: string, amount: number, price: number): Promise<MemoryPortfolio> {
-    if (!this.isConnected || !this.prisma) {
-      // Fallback to in-memory storage
-      const existingAsset = memoryStore.portfolios.find(p => p.userId === userId && p.symbol === symbol)
-      
-      if (existingAsset) {
-        const newAmount = existingAsset.amount + amount
-        const newAveragePrice = ((existingAsset.amount * existingAsset.averagePrice) + (amount * price)) / newAmount
-        existingAsset.amount = newAmount
-        existingAsset.averagePrice = newAveragePrice
-        existingAsset.totalValue = newAmount * newAveragePrice
-        existingAsset.updatedAt = new Date()
-        return existingAsset
-      } else {
-        const newAsset = {
-          id: `portfolio_${memoryStore.nextId++}`,
-          userId,
-          symbol,
-          name,
-          amount,
-          averagePrice: price,
-          totalValue: amount * price,
-          createdAt: new Date(),
-          updatedAt: new Date()
-        }
-        memoryStore.portfolios.push(newAsset)
-        return newAsset
-      }
-    }
-
-    try {
-      // Check if user already has this asset
-      const existingAsset = await this.prisma.portfolio.findUnique({
-        where: {
-          userId_symbol: {
-            userId,
-            symbol
-          }
-        }
-      })
-
-      if (existingAsset) {
-        // Update existing asset
-        const newAmount = existingAsset.amount + amount
-        const newAveragePrice = ((existingAsset.amount * existingAsset.averagePrice) + (amount * price)) / newAmount
-        
-        return await this.prisma.portfolio.update({
-          where: {
-            userId_symbol: {
-              userId,
-              symbol
-            }
-          },
-          data: {
-            amount: newAmount,
-            averagePrice: newAveragePrice,
-            totalValue: newAmount * newAveragePrice
-          }
-        })
-      } else {
-        // Create new asset
-        return await this.prisma.portfolio.create({
-          data: {
-            userId,
-            symbol,
-            name,
-            amount,
-            averagePrice: price,
-            totalValue: amount * price
-          }
-        })
-      }
-    } catch (error) {
-      console.error('Error adding to portfolio, falling back to memory:', error)
-      this.isConnected = false
-      return this.addToPortfolio(userId, symbol, name, amount, price)
-    }
+    const { portfolio } = await this.recordTransaction(userId, 'DEPOSIT', symbol, amount, price, 0, name)
+    return portfolio as MemoryPortfolio
   }
 
   async getTransactions(userId: string) {
@@ -431,6 +328,29 @@ export class DatabaseService {
     }
   }
 
+  // Every completed transaction, oldest first, for cost basis lot tracking
+  async getLedgerTransactions(userId: string) {
+    if (!this.isConnected || !this.prisma) {
+      // Fallback to in-memory storage
+      return memoryStore.transactions
+        .filter(t => t.userId === userId && t.status === 'COMPLETED')
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    }
+
+    try {
+      return await this.prisma.transaction.findMany({
+        where: { userId, status: 'COMPLETED' },
+        orderBy: { createdAt: 'asc' }
+      })
+    } catch (error) {
+      console.error('Error fetching ledger transactions, falling back to memory:', error)
+      this.isConnected = false
+      return memoryStore.transactions
+        .filter(t => t.userId === userId && t.status === 'COMPLETED')
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    }
+  }
+
   async updateUser(userId: string, data: {
     password?: string
     resetToken?: string | null
@@ -494,49 +414,349 @@ export class DatabaseService {
     symbol: string,
     amount: number,
     price: number,
-    fee = 0
+    fee = 0,
+    name?: string
   ) {
-    const transaction = {
+    const { transaction } = await this.recordTransaction(userId, type, symbol, amount, price, fee, name)
+    return transaction
+  }
+
+  // Stores the transaction with its journal entry and refreshes the asset's Portfolio projection,
+  // all in one database transaction. Throws LedgerError for invalid amounts or insufficient holdings,
+  // and LedgerUnavailableError when the database fails: a financial write is never kept in memory
+  // only, or later writes would diverge from the journal in Postgres.
+  private async recordTransaction(
+    userId: string,
+    type: LedgerTransactionType,
+    symbol: string,
+    amount: number,
+    price: number,
+    fee: number,
+    name?: string
+  ): Promise<{ transaction: MemoryTransaction; portfolio: MemoryPortfolio | null }> {
+    const asset = symbol.toUpperCase()
+    // Validates the entry before anything is written
+    buildJournalEntry({ id: 'pending', userId, type, symbol: asset, amount, price, fee, createdAt: new Date() })
+
+    // Memory storage only without a database; a failed read elsewhere does not move the ledger there
+    if (!this.prisma) {
+      return this.recordTransactionMemory(userId, type, asset, amount, price, fee, name)
+    }
+
+    try {
+      // Serializable, so two concurrent sells cannot both pass the holdings check
+      return await this.serializable(async (tx: PrismaClient) => {
+        if (type === 'SELL' || type === 'WITHDRAWAL') {
+          const entries = await this.findJournalEntries(tx, userId, asset)
+          this.assertSufficientHoldings(entries, asset, amount)
+        }
+
+        const transaction = await tx.transaction.create({
+          data: {
+            userId,
+            type,
+            symbol: asset,
+            amount,
+            price,
+            totalValue: amount * price,
+            fee,
+            status: 'COMPLETED'
+          }
+        })
+        await this.writeJournalEntry(tx, buildJournalEntry(transaction))
+
+        const projection = projectHoldings(await this.findJournalEntries(tx, userId, asset)).get(asset)
+        if (!projection) {
+          await tx.portfolio.deleteMany({ where: { userId, symbol: asset } })
+          return { transaction, portfolio: null }
+        }
+
+        const portfolio = await tx.portfolio.upsert({
+          where: { userId_symbol: { userId, symbol: asset } },
+          update: { amount: projection.amount, averagePrice: projection.averagePrice, totalValue: projection.totalValue },
+          create: {
+            userId,
+            symbol: asset,
+            name: name || asset,
+            amount: projection.amount,
+            averagePrice: projection.averagePrice,
+            totalValue: projection.totalValue
+          }
+        })
+        return { transaction, portfolio }
+      })
+    } catch (error) {
+      if (error instanceof LedgerError) throw error
+      console.error('Error recording transaction:', error)
+      throw new LedgerUnavailableError()
+    }
+  }
+
+  // Runs the callback in a Serializable transaction, retrying when it loses a conflict with another one
+  private async serializable<T>(callback: (tx: PrismaClient) => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.prisma!.$transaction(callback, { isolationLevel: 'Serializable' })
+      } catch (error) {
+        const conflict = (error as { code?: string }).code === 'P2034'
+        if (!conflict) throw error
+        if (attempt >= SERIALIZATION_RETRIES) {
+          throw new LedgerError('The ledger is busy with a conflicting transaction; please try again')
+        }
+      }
+    }
+  }
+
+  private async writeJournalEntry(tx: PrismaClient, entry: JournalEntry) {
+    const { userId, transactionId } = entry
+    await tx.journalEntry.create({
+      data: {
+        user: { connect: { id: userId } },
+        ...(transactionId ? { transaction: { connect: { id: transactionId } } } : {}),
+        kind: entry.kind,
+        description: entry.description,
+        occurredAt: new Date(entry.occurredAt),
+        postings: {
+          create: entry.postings.map(posting => ({
+            amount: posting.amount,
+            usdValue: posting.usdValue,
+            account: {
+              connectOrCreate: {
+                where: { userId_type_asset: { userId, type: posting.accountType, asset: posting.asset } },
+                create: { type: posting.accountType, asset: posting.asset, user: { connect: { id: userId } } }
+              }
+            }
+          }))
+        }
+      }
+    })
+  }
+
+  /**
+   * One-off backfill for Portfolio rows written before holdings came from the ledger: each asset
+   * with no journal entries gets an opening DEPOSIT of the stored amount at the stored average
+   * price, dated when the row was created. Assets the ledger already covers are left to
+   * reconciliation, so running it again writes nothing. Returns how many entries were written.
+   */
+  async openLedgerBalances(): Promise<number> {
+    if (!this.isConnected || !this.prisma) {
+      return 0
+    }
+
+    const rows: MemoryPortfolio[] = await this.prisma.portfolio.findMany({ orderBy: { createdAt: 'asc' } })
+    let opened = 0
+    for (const row of rows) {
+      if (!(row.amount > 0)) continue
+      const asset = row.symbol.toUpperCase()
+      const wrote = await this.serializable(async (tx: PrismaClient) => {
+        if ((await this.findJournalEntries(tx, row.userId, asset)).length > 0) return false
+        const entry = buildJournalEntry({
+          id: `opening-${row.id}`,
+          userId: row.userId,
+          type: 'DEPOSIT',
+          symbol: asset,
+          amount: row.amount,
+          price: row.averagePrice,
+          fee: 0,
+          createdAt: row.createdAt
+        })
+        await this.writeJournalEntry(tx, {
+          ...entry,
+          transactionId: null,
+          description: `Opening balance ${row.amount} ${asset} @ ${row.averagePrice}`
+        })
+        return true
+      })
+      if (wrote) opened++
+    }
+    return opened
+  }
+
+  private recordTransactionMemory(
+    userId: string,
+    type: LedgerTransactionType,
+    symbol: string,
+    amount: number,
+    price: number,
+    fee: number,
+    name?: string
+  ): { transaction: MemoryTransaction; portfolio: MemoryPortfolio | null } {
+    const asset = symbol.toUpperCase()
+    const userEntries = memoryStore.journalEntries.filter(entry => entry.userId === userId)
+    if (type === 'SELL' || type === 'WITHDRAWAL') {
+      this.assertSufficientHoldings(userEntries, asset, amount)
+    }
+
+    const transaction: MemoryTransaction = {
       id: `transaction_${memoryStore.nextId++}`,
       userId,
       type,
-      symbol,
+      symbol: asset,
       amount,
       price,
       totalValue: amount * price,
       fee,
-      status: 'COMPLETED' as const,
+      status: 'COMPLETED',
       createdAt: new Date(),
       updatedAt: new Date()
     }
+    const entry = { ...buildJournalEntry(transaction), id: `journal_${memoryStore.nextId++}`, createdAt: new Date() }
+    memoryStore.transactions.push(transaction)
+    memoryStore.journalEntries.push(entry)
+
+    const projection = projectHoldings([...userEntries, entry]).get(asset)
+    const index = memoryStore.portfolios.findIndex(p => p.userId === userId && p.symbol === asset)
+    if (!projection) {
+      if (index !== -1) memoryStore.portfolios.splice(index, 1)
+      return { transaction, portfolio: null }
+    }
+
+    const existing = index !== -1 ? memoryStore.portfolios[index] : null
+    const portfolio: MemoryPortfolio = {
+      id: existing?.id ?? `portfolio_${memoryStore.nextId++}`,
+      userId,
+      symbol: asset,
+      name: existing?.name ?? (name || asset),
+      amount: projection.amount,
+      averagePrice: projection.averagePrice,
+      totalValue: projection.totalValue,
+      createdAt: existing?.createdAt ?? new Date(),
+      updatedAt: new Date()
+    }
+    if (index !== -1) {
+      memoryStore.portfolios[index] = portfolio
+    } else {
+      memoryStore.portfolios.push(portfolio)
+    }
+    return { transaction, portfolio }
+  }
 
+  private assertSufficientHoldings(entries: JournalEntry[], asset: string, amount: number) {
+    const held = projectHoldings(entries).get(asset)?.amount ?? 0
+    if (amount > held + 1e-9) {
+      throw new LedgerError(`Insufficient ${asset} holdings: ${held} available, ${amount} requested`)
+    }
+  }
+
+  private async findJournalEntries(db: PrismaClient, userId: string, asset?: string): Promise<MemoryJournalEntry[]> {
+    const rows = await db.journalEntry.findMany({
+      where: {
+        userId,
+        ...(asset ? { postings: { some: { account: { type: 'HOLDINGS', asset } } } } : {})
+      },
+      include: { postings: { include: { account: true } } },
+      orderBy: { occurredAt: 'asc' }
+    })
+    return rows.map(rowToJournalEntry)
+  }
+
+  // Journal entries with their postings, oldest first
+  async getJournalEntries(userId: string): Promise<MemoryJournalEntry[]> {
     if (!this.isConnected || !this.prisma) {
       // Fallback to in-memory storage
-      memoryStore.transactions.push(transaction)
-      return transaction
+      return memoryStore.journalEntries
+        .filter(entry => entry.userId === userId)
+        .sort((a, b) => a.occurredAt - b.occurredAt)
     }
 
     try {
-      return await this.prisma.transaction.create({
-        data: {
-          userId,
-          type,
-          symbol,
-          amount,
-          price,
-          totalValue: amount * price,
-          fee,
-          status: 'COMPLETED'
-        }
+      return await this.findJournalEntries(this.prisma, userId)
+    } catch (error) {
+      console.error('Error fetching journal entries, falling back to memory:', error)
+      this.isConnected = false
+      return this.getJournalEntries(userId)
+    }
+  }
+
+  // Differences between Portfolio rows and the holdings the ledger reproduces, without flagging them
+  async findPortfolioMismatches(userId: string): Promise<ReconciliationMismatch[]> {
+    const [portfolio, entries] = await Promise.all([this.getPortfolio(userId), this.getJournalEntries(userId)])
+    return findMismatches(userId, portfolio, projectHoldings(entries))
+  }
+
+  // Compares Portfolio rows with the holdings the ledger reproduces and flags any difference
+  async reconcilePortfolio(userId: string): Promise<ReconciliationMismatch[]> {
+    const mismatches = await this.findPortfolioMismatches(userId)
+    await this.flagMismatches(userId, mismatches)
+    return mismatches
+  }
+
+  async reconcileAllPortfolios(signal?: AbortSignal): Promise<ReconciliationMismatch[]> {
+    let userIds: string[]
+    if (!this.isConnected || !this.prisma) {
+      userIds = [...memoryStore.portfolios, ...memoryStore.journalEntries].map(row => row.userId)
+    } else {
+      try {
+        const [portfolios, entries] = await Promise.all([
+          this.prisma.portfolio.findMany({ select: { userId: true }, distinct: ['userId'] }),
+          this.prisma.journalEntry.findMany({ select: { userId: true }, distinct: ['userId'] })
+        ])
+        userIds = [...portfolios, ...entries].map((row: { userId: string }) => row.userId)
+      } catch (error) {
+        console.error('Error listing portfolios to reconcile, falling back to memory:', error)
+        this.isConnected = false
+        return this.reconcileAllPortfolios(signal)
+      }
+    }
+
+    const mismatches: ReconciliationMismatch[] = []
+    for (const userId of Array.from(new Set(userIds))) {
+      signal?.throwIfAborted()
+      mismatches.push(...await this.reconcilePortfolio(userId))
+    }
+    return mismatches
+  }
+
+  // Unresolved reconciliation mismatches for a user
+  async getOpenMismatches(userId: string) {
+    if (!this.isConnected || !this.prisma) {
+      return memoryStore.mismatches.filter(m => m.userId === userId && !m.resolvedAt)
+    }
+
+    try {
+      return await this.prisma.ledgerMismatch.findMany({
+        where: { userId, resolvedAt: null },
+        orderBy: { detectedAt: 'desc' }
       })
     } catch (error) {
-      console.error('Error creating transaction, falling back to memory:', error)
+      console.error('Error fetching ledger mismatches, falling back to memory:', error)
       this.isConnected = false
-      memoryStore.transactions.push(transaction)
-      return transaction
+      return memoryStore.mismatches.filter(m => m.userId === userId && !m.resolvedAt)
     }
   }
 
+  // Opens a flag per new mismatch and resolves flags that no longer match what was found
+  private async flagMismatches(userId: string, mismatches: ReconciliationMismatch[]) {
+    const sameMismatch = (a: ReconciliationMismatch, b: ReconciliationMismatch) =>
+      a.symbol === b.symbol && a.portfolioAmount === b.portfolioAmount && a.ledgerAmount === b.ledgerAmount
+    const open = await this.getOpenMismatches(userId)
+    const resolved = open.filter((flag: MemoryMismatch) => !mismatches.some(m => sameMismatch(flag, m)))
+    const found = mismatches.filter(m => !open.some((flag: MemoryMismatch) => sameMismatch(flag, m)))
+
+    found.forEach(m => console.error(
+      `Ledger mismatch for user ${userId}: Portfolio has ${m.portfolioAmount} ${m.symbol}, ledger has ${m.ledgerAmount}`
+    ))
+
+    if (!this.isConnected || !this.prisma) {
+      resolved.forEach((flag: MemoryMismatch) => { flag.resolvedAt = new Date() })
+      memoryStore.mismatches.push(...found.map(m => ({
+        ...m,
+        id: `mismatch_${memoryStore.nextId++}`,
+        detectedAt: new Date(),
+        resolvedAt: null
+      })))
+      return
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.ledgerMismatch.updateMany({
+        where: { id: { in: resolved.map((flag: MemoryMismatch) => flag.id) } },
+        data: { resolvedAt: new Date() }
+      }),
+      this.prisma.ledgerMismatch.createMany({ data: found })
+    ])
+  }
+
   async disconnect() {
     await this.prisma?.$disconnect()
   }
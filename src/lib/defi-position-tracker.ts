@@ -4,6 +4,7 @@
  */
 
 import { nowNodesService } from './nownodes'
+import { insertIncomeEvents } from './income-store'
 
 export interface DeFiPosition {
   id: string
@@ -79,6 +80,19 @@ export interface RewardToken {
   price: number
 }
 
+export interface IncomeEvent {
+  id?: string
+  walletAddress: string
+  source: 'defi_reward'
+  protocol?: string
+  chainId: number
+  symbol: string
+  amount: number
+  price: number // USD per unit when received
+  usdValue: number
+  receivedAt: number
+}
+
 export enum DeFiProtocol {
   AAVE = 'aave',
   COMPOUND = 'compound',
@@ -169,6 +183,7 @@ export interface OptimizationAction {
 export class DeFiPositionTracker {
   private static instance: DeFiPositionTracker
   private positions: Map<string, DeFiPosition[]> = new Map()
+  private scannedAt: Map<string, number> = new Map()
   private liquidationAlerts: Map<string, LiquidationAlert[]> = new Map()
   private protocolConfigs: Map<DeFiProtocol, ProtocolConfig> = new Map()
 
@@ -236,7 +251,12 @@ export class DeFiPositionTracker {
       }
       
       // Store positions
+      const previousPositions = this.positions.get(walletAddress.toLowerCase()) ?? []
       this.positions.set(walletAddress.toLowerCase(), allPositions)
+      this.scannedAt.set(walletAddress.toLowerCase(), Date.now())
+      
+      // Record rewards claimed since the last scan as income
+      await this.recordRewardClaims(walletAddress, previousPositions, allPositions)
       
       // Generate liquidation alerts
       await this.generateLiquidationAlerts(walletAddress, allPositions)
@@ -248,6 +268,44 @@ export class DeFiPositionTracker {
     }
   }
 
+  // Rewards claimable at the previous scan count as income when the claim timestamp moves past it.
+  // Anything accrued between that scan and the claim is missed, so scan often.
+  private async recordRewardClaims(walletAddress: string, previous: DeFiPosition[], current: DeFiPosition[]): Promise<void> {
+    const positionKey = (position: DeFiPosition) =>
+      `${position.protocol}:${position.chainId}:${position.contractAddress.toLowerCase()}`
+    const earlierPositions = new Map(previous.map(position => [positionKey(position), position]))
+    const events: IncomeEvent[] = []
+
+    current.forEach(position => {
+      const earlier = earlierPositions.get(positionKey(position))
+      const claimedAt = position.rewards.lastClaimTimestamp
+      if (!earlier || claimedAt === undefined || claimedAt <= (earlier.rewards.lastClaimTimestamp ?? 0)) return
+
+      earlier.rewards.claimableRewards.forEach(reward => {
+        const amount = parseFloat(reward.amount)
+        if (!(amount > 0)) return
+        const price = position.rewards.claimableRewards.find(token => token.symbol === reward.symbol)?.price ?? reward.price
+        events.push({
+          walletAddress: walletAddress.toLowerCase(),
+          source: 'defi_reward',
+          protocol: position.protocol,
+          chainId: position.chainId,
+          symbol: reward.symbol,
+          amount,
+          price,
+          usdValue: amount * price,
+          receivedAt: claimedAt
+        })
+      })
+    })
+
+    try {
+      await insertIncomeEvents(events)
+    } catch (error) {
+      console.error('Failed to record DeFi reward income:', error)
+    }
+  }
+
   // Scan positions on a specific chain
   private async scanChainPositions(walletAddress: string, chainId: number): Promise<DeFiPosition[]> {
     const positions: DeFiPosition[] = []
@@ -796,6 +854,15 @@ export class DeFiPositionTracker {
     return this.positions.get(walletAddress.toLowerCase()) || []
   }
 
+  // Positions as of a scan at most maxAgeMs old, scanning the wallet again when there is none
+  async getRecentPositions(walletAddress: string, maxAgeMs: number): Promise<DeFiPosition[]> {
+    const scannedAt = this.scannedAt.get(walletAddress.toLowerCase())
+    if (scannedAt !== undefined && Date.now() - scannedAt <= maxAgeMs) {
+      return this.getPositions(walletAddress)
+    }
+    return this.scanWalletPositions(walletAddress)
+  }
+
   getLiquidationAlerts(walletAddress: string): LiquidationAlert[] {
     return this.liquidationAlerts.get(walletAddress.toLowerCase()) || []
   }
@@ -0,0 +1,185 @@
+/**
+ * Across Bridge Adapter
+ * Intent-based transfers: a SpokePool deposit that a relayer fills on the destination chain,
+ * priced by the Across suggested-fees API
+ */
+
+import { ethers } from 'ethers'
+import { DEXError } from './index'
+import { BaseBridge, BRIDGE_TOKENS, BridgeAssets, BridgeDelivery, BridgeDeposit } from './bridge-base'
+import type { BridgeParams, BridgeQuote } from './bridge-aggregator'
+
+const ACROSS_API_URL = process.env.ACROSS_API_URL || 'https://app.across.to/api'
+
+const SPOKE_POOLS: { [chainId: number]: string } = {
+  1: '0x5c7BCd6E7De5423a257D81B442095A1a6ced35C5',
+  10: '0x6f26Bf09B1C792e3228e5467807a900A503c0281',
+  137: '0x9295ee1d8C5b022Be115A2AD3c30C72E34e7F096',
+  42161: '0xe35e9842fceaCA96570B734083f4a58e8F7C5f2A'
+}
+
+const V3_RELAY_DATA = 'tuple(address depositor, address recipient, address exclusiveRelayer, address inputToken, address outputToken, uint256 inputAmount, uint256 outputAmount, uint256 originChainId, uint32 depositId, uint32 fillDeadline, uint32 exclusivityDeadline, bytes message)'
+
+const SPOKE_POOL_ABI = [
+  'function depositV3(address depositor, address recipient, address inputToken, address outputToken, uint256 inputAmount, uint256 outputAmount, uint256 destinationChainId, address exclusiveRelayer, uint32 quoteTimestamp, uint32 fillDeadline, uint32 exclusivityDeadline, bytes message) payable',
+  'function fillStatuses(bytes32 relayHash) view returns (uint256)',
+  'event V3FundsDeposited(address inputToken, address outputToken, uint256 inputAmount, uint256 outputAmount, uint256 indexed destinationChainId, uint32 indexed depositId, uint32 quoteTimestamp, uint32 fillDeadline, uint32 exclusivityDeadline, address indexed depositor, address recipient, address exclusiveRelayer, bytes message)',
+  'event FilledV3Relay(address inputToken, address outputToken, uint256 inputAmount, uint256 outputAmount, uint256 repaymentChainId, uint256 indexed originChainId, uint32 indexed depositId, uint32 fillDeadline, uint32 exclusivityDeadline, address exclusiveRelayer, address indexed relayer, address depositor, address recipient, bytes message, tuple(address updatedRecipient, bytes updatedMessage, uint256 updatedOutputAmount, uint8 fillType) relayExecutionInfo)'
+]
+const spokePoolInterface = new ethers.Interface(SPOKE_POOL_ABI)
+
+// SpokePool fillStatuses values
+const FILL_STATUS_FILLED = BigInt(2)
+
+const DEPOSIT_GAS_FALLBACK = 150000
+
+// Fields of the suggested-fees response the deposit is built from
+interface SuggestedFees {
+  totalRelayFee: { pct: string; total: string } // total in input token base units
+  outputAmount?: string // Returned by newer API versions; otherwise inputAmount minus totalRelayFee
+  timestamp: string // quoteTimestamp
+  isAmountTooLow: boolean
+  exclusiveRelayer: string
+  exclusivityDeadline: number
+  fillDeadline: string
+  estimatedFillTimeSec: number
+  spokePoolAddress: string
+}
+
+export class AcrossBridge extends BaseBridge {
+  id = 'across'
+  name = 'Across'
+  website = 'https://across.to'
+  supportedChains = Object.keys(SPOKE_POOLS).map(Number)
+  protected assets: BridgeAssets = {
+    USDC: BRIDGE_TOKENS.USDC,
+    USDT: BRIDGE_TOKENS.USDT
+  }
+  protected depositGasFallback = DEPOSIT_GAS_FALLBACK
+
+  async getQuote(params: BridgeParams): Promise<BridgeQuote> {
+    return (await this.priceTransfer(params)).quote
+  }
+
+  protected async buildDeposit(params: BridgeParams, from: string): Promise<BridgeDeposit> {
+    const { quote, fees, fromToken, toToken, inputAmount, outputAmount } = await this.priceTransfer(params)
+    const spokePool = SPOKE_POOLS[params.fromChain]
+
+    return {
+      quote,
+      token: fromToken,
+      amount: inputAmount,
+      spender: spokePool,
+      to: spokePool,
+      data: spokePoolInterface.encodeFunctionData('depositV3', [
+        from,
+        params.recipient,
+        fromToken.address,
+        toToken.address,
+        inputAmount,
+        outputAmount,
+        params.toChain,
+        fees.exclusiveRelayer,
+        fees.timestamp,
+        fees.fillDeadline,
+        fees.exclusivityDeadline,
+        '0x'
+      ]),
+      value: BigInt(0)
+    }
+  }
+
+  /**
+   * The destination SpokePool records fills by the hash of the deposit's relay data, so the
+   * status is one read once the deposit event has been decoded. Deposits nobody fills before
+   * their fill deadline are refunded on the origin chain.
+   */
+  protected async findDelivery(receipt: ethers.TransactionReceipt, fromChain: number, toChain: number): Promise<BridgeDelivery> {
+    const deposit = receipt.logs
+      .filter(log => log.address.toLowerCase() === SPOKE_POOLS[fromChain].toLowerCase())
+      .map(log => spokePoolInterface.parseLog(log))
+      .find(parsed => parsed?.name === 'V3FundsDeposited')
+    if (!deposit) {
+      throw new DEXError(`${receipt.hash} is not an Across deposit`, 'INVALID_TRACKING_ID')
+    }
+
+    const { args } = deposit
+    const relayData = [
+      args.depositor, args.recipient, args.exclusiveRelayer, args.inputToken, args.outputToken,
+      args.inputAmount, args.outputAmount, fromChain, args.depositId, args.fillDeadline, args.exclusivityDeadline, args.message
+    ]
+    const relayHash = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode([V3_RELAY_DATA, 'uint256'], [relayData, toChain]))
+
+    const destinationPool = new ethers.Contract(SPOKE_POOLS[toChain], SPOKE_POOL_ABI, this.requireProvider(toChain))
+    const fillStatus: bigint = await destinationPool.fillStatuses(relayHash)
+    if (fillStatus !== FILL_STATUS_FILLED) {
+      const expired = Math.floor(Date.now() / 1000) > Number(args.fillDeadline)
+      return { status: expired ? 'failed' : 'pending' }
+    }
+
+    const fill = await this.findDestinationLog(
+      toChain,
+      {
+        address: SPOKE_POOLS[toChain],
+        topics: [spokePoolInterface.getEvent('FilledV3Relay')!.topicHash, ethers.toBeHex(fromChain, 32), ethers.toBeHex(args.depositId, 32)]
+      },
+      await this.getTimestamp(fromChain, receipt.blockNumber)
+    )
+    return { status: 'completed', toTxHash: fill?.transactionHash }
+  }
+
+  // Relayers usually fill within a few blocks of the deposit
+  protected transferMinutes(fromChain: number): number {
+    return fromChain === 1 ? 2 : 1
+  }
+
+  private async priceTransfer(params: BridgeParams) {
+    const { fromToken, toToken } = this.resolveTokens(params)
+    const inputAmount = ethers.parseUnits(params.amount, fromToken.decimals)
+
+    const query = new URLSearchParams({
+      inputToken: fromToken.address,
+      outputToken: toToken.address,
+      originChainId: params.fromChain.toString(),
+      destinationChainId: params.toChain.toString(),
+      amount: inputAmount.toString()
+    })
+    const fees = await this.fetchJson<SuggestedFees>(`${ACROSS_API_URL}/suggested-fees?${query}`)
+
+    if (fees.isAmountTooLow) {
+      throw new DEXError(`${params.amount} ${fromToken.symbol} is below the Across minimum`, 'AMOUNT_TOO_LOW')
+    }
+    // The approval goes to this address, so it has to be the SpokePool we know, not whatever the API says
+    if (fees.spokePoolAddress.toLowerCase() !== SPOKE_POOLS[params.fromChain].toLowerCase()) {
+      throw new DEXError(`Across API returned unexpected SpokePool ${fees.spokePoolAddress}`, 'BRIDGE_API_ERROR', fees)
+    }
+
+    const relayFee = BigInt(fees.totalRelayFee.total)
+    // Relayers deliver exactly outputAmount or nothing, so there is no slippage to apply
+    const outputAmount = fees.outputAmount ? BigInt(fees.outputAmount) : inputAmount - relayFee
+    const bridgeFee = ethers.formatUnits(inputAmount - outputAmount, fromToken.decimals)
+    const gasFee = await this.estimateGasCost(params.fromChain, DEPOSIT_GAS_FALLBACK)
+    const fillMinutes = Math.max(1, Math.ceil(fees.estimatedFillTimeSec / 60))
+
+    const quote: BridgeQuote = {
+      provider: this.name,
+      fromAmount: params.amount,
+      toAmount: ethers.formatUnits(outputAmount, toToken.decimals),
+      toToken: toToken.address,
+      estimatedTime: fillMinutes,
+      fees: {
+        bridgeFee,
+        gasFee,
+        totalFeeUSD: bridgeFee // Stablecoin fee; gas is in gasFee
+      },
+      route: [
+        { step: 1, action: `Deposit ${fromToken.symbol} into the Across SpokePool`, chain: params.fromChain, protocol: this.name, estimatedTime: 0 },
+        { step: 2, action: `Relayer sends ${toToken.symbol} to the recipient`, chain: params.toChain, protocol: this.name, estimatedTime: fillMinutes }
+      ],
+      confidence: 95,
+      gasEstimate: gasFee
+    }
+
+    return { quote, fees, fromToken, toToken, inputAmount, outputAmount }
+  }
+}
@@ -4,10 +4,15 @@
  */
 
 import { ethers } from 'ethers'
-import { BaseDEX, TradeParams, QuoteResult, TradeResult, SUPPORTED_CHAINS, Token } from './index'
+import { BaseDEX, DEXError, TradeParams, QuoteResult, TradeResult, TradeTransactions, SwapRoute, SUPPORTED_CHAINS, V2_DEX_CONFIGS, Token } from './index'
 import { UniswapV3DEX } from './uniswap-v3'
 import { PancakeSwapV3DEX } from './pancakeswap-v3'
+import { QuickSwapV3DEX } from './quickswap-v3'
+import { UniswapV2DEX } from './uniswap-v2'
 import { BridgeAggregator, BridgeParams, AggregatedBridgeQuote } from './bridge-aggregator'
+import { PrivateRelay, getDefaultRelay } from './mev-protection'
+import { TransactionSimulator, SimulationResult } from './simulation'
+import { GasOracle } from './gas-oracle'
 
 export interface AggregatedQuote extends QuoteResult {
   dexName: string
@@ -20,8 +25,17 @@ export interface BestRouteResult {
   allQuotes: AggregatedQuote[]
   savings: string // Amount saved compared to worst quote
   savingsPercentage: number
+  routes: SwapRoute[] // Paths of the best quote with per-hop amounts, split shares and price impact
+  priceImpact: number // percent, across all routes
   isCrossChain?: boolean
   bridgeQuote?: AggregatedBridgeQuote
+  transactions?: TradeTransactions // Unsigned approve and swap for the best quote, when a wallet address is given
+}
+
+// Best route with its transactions simulated for the wallet, shown to the user before signing
+export interface TradePreview extends BestRouteResult {
+  transactions: TradeTransactions
+  simulation: SimulationResult
 }
 
 export interface CrossChainSwapParams {
@@ -42,6 +56,7 @@ export interface CrossChainSwapResult {
   totalGasEstimate: string
   estimatedTime: number
   steps: SwapStep[]
+  bridgeToken?: Token // Token carried across the bridge, on the source chain
 }
 
 export interface SwapStep {
@@ -58,11 +73,20 @@ export class DEXAggregator {
   private dexes: BaseDEX[] = []
   private providers: Map<number, ethers.Provider> = new Map()
   private bridgeAggregator: BridgeAggregator
+  private gasOracle: GasOracle
 
-  constructor() {
-    this.initializeProviders()
+  /**
+   * @param providers Read providers by chain ID; defaults to the public RPC of every supported chain
+   */
+  constructor(providers?: Map<number, ethers.Provider>) {
+    if (providers) {
+      this.providers = new Map(providers)
+    } else {
+      this.initializeProviders()
+    }
     this.initializeDEXes()
-    this.bridgeAggregator = new BridgeAggregator()
+    this.gasOracle = new GasOracle(chainId => this.providers.get(chainId))
+    this.bridgeAggregator = new BridgeAggregator(this.providers, this.gasOracle)
   }
 
   private initializeProviders() {
@@ -86,7 +110,15 @@ export class DEXAggregator {
         this.dexes.push(new PancakeSwapV3DEX(provider, chainId))
       }
       
-      // Add more DEXs as needed
+      // QuickSwap V3 (Polygon)
+      if (chainId === 137) {
+        this.dexes.push(new QuickSwapV3DEX(provider, chainId))
+      }
+      
+      // Constant-product forks (SushiSwap, PancakeSwap V2, QuickSwap V2)
+      Object.values(V2_DEX_CONFIGS)
+        .filter(config => config.chains.includes(chainId))
+        .forEach(config => this.dexes.push(new UniswapV2DEX(provider, chainId, config)))
     })
   }
 
@@ -128,9 +160,11 @@ export class DEXAggregator {
   }
 
   /**
-   * Find the best route across all DEXs (enhanced for cross-chain awareness)
+   * Find the best route across all DEXs (enhanced for cross-chain awareness).
+   * With a wallet address the result carries the unsigned transactions for that wallet to sign,
+   * priced at the trade's gas tier.
    */
-  async findBestRoute(params: TradeParams): Promise<BestRouteResult> {
+  async findBestRoute(params: TradeParams, walletAddress?: string): Promise<BestRouteResult> {
     const allQuotes = await this.getAllQuotes(params)
     
     if (allQuotes.length === 0) {
@@ -145,21 +179,28 @@ export class DEXAggregator {
       ? ((parseFloat(bestQuote.amountOut) - parseFloat(worstQuote.amountOut)) / parseFloat(worstQuote.amountOut)) * 100
       : 0
 
+    const transactions = walletAddress
+      ? await this.priceTransactions(await bestQuote.dex.buildTradeTransactions(params, walletAddress, bestQuote), params)
+      : undefined
+
     return {
       bestQuote,
       allQuotes,
       savings,
       savingsPercentage,
-      isCrossChain: false
+      routes: bestQuote.routes,
+      priceImpact: bestQuote.priceImpact,
+      isCrossChain: false,
+      transactions
     }
   }
 
   /**
    * Execute trade using the best available DEX
    */
-  async executeBestTrade(params: TradeParams, signer: ethers.Signer): Promise<TradeResult & { dexUsed: string }> {
+  async executeBestTrade(params: TradeParams, signer: ethers.Signer, relay?: PrivateRelay): Promise<TradeResult & { dexUsed: string }> {
     const bestRoute = await this.findBestRoute(params)
-    const result = await bestRoute.bestQuote.dex.executeTrade(params, signer)
+    const result = await bestRoute.bestQuote.dex.executeTrade(params, signer, relay)
     
     return {
       ...result,
@@ -167,6 +208,79 @@ export class DEXAggregator {
     }
   }
 
+  /**
+   * Best route plus a simulation of the next transaction the wallet would sign. While the
+   * router still needs an approval only the approval can be simulated; the swap is checked
+   * again before it is signed. MEV-protected swaps that simulate safely are re-encoded with
+   * a tight minimum, for the wallet to sign and the private relay to submit.
+   */
+  async previewTrade(params: TradeParams, walletAddress: string): Promise<TradePreview> {
+    const relay = params.executionMode === 'mev_protected' ? getDefaultRelay(params.tokenIn.chainId) : null
+    if (params.executionMode === 'mev_protected' && !relay) {
+      throw new DEXError(`No private relay for chain ${params.tokenIn.chainId}`, 'RELAY_UNAVAILABLE')
+    }
+
+    const bestRoute = await this.findBestRoute(params, walletAddress)
+    let transactions = bestRoute.transactions!
+    const provider = this.providers.get(params.tokenIn.chainId)
+    if (!provider) {
+      throw new Error(`No provider for chain ${params.tokenIn.chainId}`)
+    }
+
+    const simulator = new TransactionSimulator(provider)
+    let simulation: SimulationResult
+    if (transactions.approval) {
+      simulation = await simulator.simulate(transactions.approval)
+      simulation.warnings.push({
+        severity: 'info',
+        code: 'APPROVAL_PENDING',
+        message: `Approve ${params.tokenIn.symbol} first; the swap is simulated once the approval confirms`
+      })
+      simulation.preview.unshift(`Approve ${params.approvalMode === 'unlimited' ? 'unlimited' : params.amountIn} ${params.tokenIn.symbol} for ${bestRoute.bestQuote.dexName}`)
+    } else {
+      simulation = await simulator.simulate(transactions.swap, {
+        tokenIn: params.tokenIn,
+        tokenOut: params.tokenOut,
+        amountIn: BigInt(transactions.amountIn),
+        expectedAmountOut: ethers.parseUnits(bestRoute.bestQuote.amountOut, params.tokenOut.decimals),
+        slippageTolerance: params.slippageTolerance,
+        recipient: params.recipient || walletAddress
+      })
+      simulation.preview.unshift(`Swap ${params.amountIn} ${params.tokenIn.symbol} for ~${bestRoute.bestQuote.amountOut} ${params.tokenOut.symbol} on ${bestRoute.bestQuote.dexName}`)
+
+      if (relay && simulation.safe) {
+        transactions = await this.priceTransactions(
+          await bestRoute.bestQuote.dex.buildProtectedTradeTransactions(params, walletAddress, bestRoute.bestQuote, simulation, transactions.deadline),
+          params
+        )
+        simulation.preview.push(`Sent privately through ${relay.name}, not the public mempool`)
+      }
+    }
+
+    return { ...bestRoute, transactions, simulation }
+  }
+
+  /**
+   * Read-only provider for a supported chain
+   */
+  getProvider(chainId: number): ethers.Provider | undefined {
+    return this.providers.get(chainId)
+  }
+
+  /**
+   * Bridge aggregator sharing this aggregator's providers
+   */
+  getBridgeAggregator(): BridgeAggregator {
+    return this.bridgeAggregator
+  }
+
+  /**
+   * Fee suggestions for the supported chains, shared with the bridge aggregator
+   */
+  getGasOracle(): GasOracle {
+    return this.gasOracle
+  }
+
   /**
    * Get supported tokens for a specific chain
    */
@@ -183,7 +297,7 @@ export class DEXAggregator {
           chainId: 1
         },
         {
-          address: '0xA0b86a33E6417c4c6b8c4c6b8c4c6b8c4c6b8c4c',
+          address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
           symbol: 'USDC',
           name: 'USD Coin',
           decimals: 6,
@@ -219,6 +333,29 @@ export class DEXAggregator {
           decimals: 18,
           chainId: 56
         }
+      ],
+      137: [ // Polygon
+        {
+          address: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270',
+          symbol: 'WMATIC',
+          name: 'Wrapped Matic',
+          decimals: 18,
+          chainId: 137
+        },
+        {
+          address: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174',
+          symbol: 'USDC',
+          name: 'USD Coin',
+          decimals: 6,
+          chainId: 137
+        },
+        {
+          address: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
+          symbol: 'USDT',
+          name: 'Tether USD',
+          decimals: 6,
+          chainId: 137
+        }
       ]
     }
 
@@ -239,7 +376,7 @@ export class DEXAggregator {
     // Adjust based on DEX reputation (simplified)
     const dexName = dex.getName().toLowerCase()
     if (dexName.includes('uniswap')) confidence += 10
-    else if (dexName.includes('pancakeswap')) confidence += 5
+    else if (dexName.includes('pancakeswap') || dexName.includes('quickswap') || dexName.includes('sushiswap')) confidence += 5
 
     // Ensure confidence is between 0 and 100
     return Math.max(0, Math.min(100, confidence))
@@ -313,7 +450,7 @@ export class DEXAggregator {
       fromChain,
       toChain,
       fromToken: bridgeToken.address,
-      toToken: bridgeToken.address, // Same token on destination
+      toToken: bridgeToken.address, // Each bridge delivers its own representation, reported as quote.toToken
       amount: bridgeAmount,
       recipient,
       slippage: slippageTolerance
@@ -334,8 +471,8 @@ export class DEXAggregator {
 
     // Step 4: Get swap quote on destination chain (if needed)
     let destSwapQuote: AggregatedQuote | null = null
-    if (tokenOut.address.toLowerCase() !== bridgeToken.address.toLowerCase()) {
-      const destBridgeToken = { ...bridgeToken, chainId: toChain }
+    if (tokenOut.address.toLowerCase() !== bridgeQuote.toToken.toLowerCase()) {
+      const destBridgeToken = { ...bridgeToken, address: bridgeQuote.toToken, chainId: toChain }
       const destSwapParams: TradeParams = {
         tokenIn: destBridgeToken,
         tokenOut: tokenOut,
@@ -364,7 +501,8 @@ export class DEXAggregator {
       destSwap: undefined, // Will be filled during execution
       totalGasEstimate,
       estimatedTime,
-      steps
+      steps,
+      bridgeToken
     }
   }
 
@@ -471,7 +609,7 @@ export class DEXAggregator {
     // Priority: USDC > USDT > Native token
     const bridgeTokenPreferences = [
       { symbol: 'USDC', addresses: {
-        1: '0xA0b86a33E6417c4c6b8c4c6b8c4c6b8c4c6b8c4c', // Ethereum
+        1: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', // Ethereum
         56: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d', // BSC
         137: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174', // Polygon
         42161: '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8', // Arbitrum
@@ -518,6 +656,16 @@ export class DEXAggregator {
     return bridgeTokens
   }
 
+  // Approval and swap with fees from the oracle at the trade's gas tier
+  private async priceTransactions(transactions: TradeTransactions, params: TradeParams): Promise<TradeTransactions> {
+    const { approval, swap } = transactions
+    return {
+      ...transactions,
+      approval: approval && await this.gasOracle.withFees(approval, params.gasPreference),
+      swap: await this.gasOracle.withFees(swap, params.gasPreference)
+    }
+  }
+
   /**
    * Get chain name for display
    */
@@ -535,15 +683,15 @@ export class DEXAggregator {
   }
 
   /**
-   * Estimate gas costs for a trade (enhanced with cross-chain support)
+   * Expected gas cost of the trade on each DEX in the chain's native coin, at the trade's gas tier
    */
   async estimateGasCosts(params: TradeParams): Promise<{ [dexName: string]: string }> {
     const quotes = await this.getAllQuotes(params)
     const gasCosts: { [dexName: string]: string } = {}
 
-    quotes.forEach(quote => {
-      gasCosts[quote.dexName] = quote.gasEstimate
-    })
+    for (const quote of quotes) {
+      gasCosts[quote.dexName] = await this.gasOracle.estimateCost(params.tokenIn.chainId, quote.gasEstimate, params.gasPreference)
+    }
 
     return gasCosts
   }
@@ -5,27 +5,40 @@
 
 import { NextResponse } from 'next/server'
 import { DEXAggregator } from './aggregator'
-import { TradeParams, Token } from './index'
+import { TradeTracker } from './trade-tracker'
+import { TradeParams, DEXError } from './index'
+import { getDefaultRelay } from './mev-protection'
 import {
   GetQuoteRequest,
   FindBestRouteRequest,
-  ExecuteTradeRequest,
+  PreviewTradeRequest,
+  SubmitTradeRequest,
+  SubmitProtectedTradeRequest,
+  GetTradeStatusRequest,
   GetSupportedTokensRequest,
   GetTokenPriceRequest,
   EstimateGasRequest,
+  GetGasSuggestionRequest,
   validateTradeParams,
-  validateExecuteTradeParams,
+  validateFindBestRouteParams,
+  validatePreviewTradeParams,
+  validateSubmitTradeParams,
+  validateSubmitProtectedTradeParams,
+  validateTradeHash,
   validateTokenPriceParams,
   validateChainId,
+  validateGasPreference,
   APIResponse
 } from './api-types'
 import {
   createSuccessResponse,
   createValidationErrorResponse,
+  createNotFoundResponse,
   handleAPIError
 } from './api-utils'
 
 const aggregator = new DEXAggregator()
+const tradeTracker = new TradeTracker(chainId => aggregator.getProvider(chainId))
 
 export async function handleGetQuote(params: any): Promise<NextResponse<APIResponse>> {
   try {
@@ -56,21 +69,25 @@ export async function handleGetQuote(params: any): Promise<NextResponse<APIRespo
 
 export async function handleFindBestRoute(params: any): Promise<NextResponse<APIResponse>> {
   try {
-    const validation = validateTradeParams(params)
+    const validation = validateFindBestRouteParams(params)
     if (!validation.isValid) {
       return createValidationErrorResponse(validation.error!)
     }
 
-    const { tokenIn, tokenOut, amountIn, slippageTolerance = 100 } = params as FindBestRouteRequest
+    const { tokenIn, tokenOut, amountIn, slippageTolerance = 100, walletAddress, approvalMode, gasPreference, executionMode } = params as FindBestRouteRequest
 
     const tradeParams: TradeParams = {
       tokenIn,
       tokenOut,
       amountIn: amountIn.toString(),
-      slippageTolerance
+      slippageTolerance,
+      recipient: walletAddress,
+      approvalMode,
+      gasPreference,
+      executionMode
     }
 
-    const bestRoute = await aggregator.findBestRoute(tradeParams)
+    const bestRoute = await aggregator.findBestRoute(tradeParams, walletAddress)
 
     return createSuccessResponse(bestRoute)
   } catch (error) {
@@ -78,48 +95,116 @@ export async function handleFindBestRoute(params: any): Promise<NextResponse<API
   }
 }
 
-export async function handleExecuteTrade(params: any): Promise<NextResponse<APIResponse>> {
+// Shown to the user before signing; a preview that is not safe should not be signed
+export async function handlePreviewTrade(params: unknown): Promise<NextResponse<APIResponse>> {
   try {
-    const validation = validateExecuteTradeParams(params)
+    const validation = validatePreviewTradeParams(params)
     if (!validation.isValid) {
       return createValidationErrorResponse(validation.error!)
     }
 
-    const { 
-      tokenIn, 
-      tokenOut, 
-      amountIn, 
-      slippageTolerance = 100, 
-      privateKey, 
-      walletAddress 
-    } = params as ExecuteTradeRequest
-
-    // Security warning: In production, private keys should never be sent to the server
-    // This should be handled client-side with wallet connections like MetaMask
-    if (!privateKey) {
-      return createValidationErrorResponse('Trade execution requires client-side wallet connection. Private keys should not be sent to the server.')
-    }
+    const { tokenIn, tokenOut, amountIn, slippageTolerance = 100, walletAddress, approvalMode, gasPreference, executionMode } = params as PreviewTradeRequest
 
     const tradeParams: TradeParams = {
       tokenIn,
       tokenOut,
       amountIn: amountIn.toString(),
       slippageTolerance,
-      recipient: walletAddress
+      recipient: walletAddress,
+      approvalMode,
+      gasPreference,
+      executionMode
+    }
+
+    const preview = await aggregator.previewTrade(tradeParams, walletAddress)
+
+    return createSuccessResponse(preview)
+  } catch (error) {
+    if (error instanceof DEXError && error.code === 'RELAY_UNAVAILABLE') {
+      return createValidationErrorResponse(error.message)
+    }
+    return handleAPIError(error)
+  }
+}
+
+// The wallet signs and broadcasts the transactions from findBestRoute; the server only follows the hash
+export async function handleSubmitTrade(params: unknown): Promise<NextResponse<APIResponse>> {
+  try {
+    const validation = validateSubmitTradeParams(params)
+    if (!validation.isValid) {
+      return createValidationErrorResponse(validation.error!)
+    }
+
+    const { hash, tokenIn, tokenOut, amountIn, walletAddress, dexName } = params as SubmitTradeRequest
+
+    const trade = await tradeTracker.track({
+      hash,
+      chainId: tokenIn.chainId,
+      walletAddress,
+      tokenIn,
+      tokenOut,
+      amountIn: amountIn.toString(),
+      dexName
+    })
+
+    return createSuccessResponse(trade)
+  } catch (error) {
+    if (error instanceof DEXError && error.code === 'SENDER_MISMATCH') {
+      return createValidationErrorResponse(error.message)
+    }
+    return handleAPIError(error)
+  }
+}
+
+// MEV-protected swaps: the wallet signs the previewed swap without broadcasting it and the
+// private relay submits it, so it never sits in the public mempool
+export async function handleSubmitProtectedTrade(params: unknown): Promise<NextResponse<APIResponse>> {
+  try {
+    const validation = validateSubmitProtectedTradeParams(params)
+    if (!validation.isValid) {
+      return createValidationErrorResponse(validation.error!)
+    }
+
+    const { signedTransaction, tokenIn, tokenOut, amountIn, walletAddress, dexName } = params as SubmitProtectedTradeRequest
+
+    const relay = getDefaultRelay(tokenIn.chainId)
+    if (!relay) {
+      return createValidationErrorResponse(`No private relay for chain ${tokenIn.chainId}`)
+    }
+
+    const trade = await tradeTracker.trackPrivate({
+      chainId: tokenIn.chainId,
+      walletAddress,
+      tokenIn,
+      tokenOut,
+      amountIn: amountIn.toString(),
+      dexName
+    }, signedTransaction, relay)
+
+    return createSuccessResponse(trade)
+  } catch (error) {
+    if (error instanceof DEXError && ['SENDER_MISMATCH', 'CHAIN_MISMATCH', 'INVALID_TRANSACTION'].includes(error.code)) {
+      return createValidationErrorResponse(error.message)
+    }
+    return handleAPIError(error)
+  }
+}
+
+export async function handleGetTradeStatus(params: unknown): Promise<NextResponse<APIResponse>> {
+  try {
+    const validation = validateTradeHash(params)
+    if (!validation.isValid) {
+      return createValidationErrorResponse(validation.error!)
     }
 
-    // Create signer from private key (for demo purposes only)
-    const { ethers } = await import('ethers')
-    const provider = new ethers.JsonRpcProvider(
-      tokenIn.chainId === 1 ? 'https://eth.nownodes.io' :
-      tokenIn.chainId === 56 ? 'https://bsc.nownodes.io' :
-      'https://polygon.nownodes.io'
-    )
-    const signer = new ethers.Wallet(privateKey, provider)
+    const { hash } = params as GetTradeStatusRequest
 
-    const result = await aggregator.executeBestTrade(tradeParams, signer)
+    const trade = await tradeTracker.getStatus(hash)
+    if (!trade) {
+      return createNotFoundResponse('Trade')
+    }
 
-    return createSuccessResponse(result)
+    return createSuccessResponse(trade)
   } catch (error) {
     return handleAPIError(error)
   }
@@ -165,14 +250,19 @@ export async function handleEstimateGas(params: any): Promise<NextResponse<APIRe
     if (!validation.isValid) {
       return createValidationErrorResponse(validation.error!)
     }
+    const tierValidation = validateGasPreference(params)
+    if (!tierValidation.isValid) {
+      return createValidationErrorResponse(tierValidation.error!)
+    }
 
-    const { tokenIn, tokenOut, amountIn, slippageTolerance = 100 } = params as EstimateGasRequest
+    const { tokenIn, tokenOut, amountIn, slippageTolerance = 100, gasPreference } = params as EstimateGasRequest
 
     const tradeParams: TradeParams = {
       tokenIn,
       tokenOut,
       amountIn: amountIn.toString(),
-      slippageTolerance
+      slippageTolerance,
+      gasPreference
     }
 
     const gasCosts = await aggregator.estimateGasCosts(tradeParams)
@@ -181,4 +271,31 @@ export async function handleEstimateGas(params: any): Promise<NextResponse<APIRe
   } catch (error) {
     return handleAPIError(error)
   }
-}
\ No newline at end of file
+}
+
+// Fee tiers for the next block, from the same oracle that prices the transactions findBestRoute builds
+export async function handleGetGasSuggestion(params: unknown): Promise<NextResponse<APIResponse>> {
+  try {
+    const validation = validateChainId(params)
+    if (!validation.isValid) {
+      return createValidationErrorResponse(validation.error!)
+    }
+    const tierValidation = validateGasPreference(params)
+    if (!tierValidation.isValid) {
+      return createValidationErrorResponse(tierValidation.error!)
+    }
+
+    const { chainId, gasPreference } = params as GetGasSuggestionRequest
+
+    const oracle = aggregator.getGasOracle()
+    const suggestion = await oracle.getSuggestion(chainId)
+    if (!gasPreference) {
+      return createSuccessResponse(suggestion)
+    }
+
+    const transactionFees = await oracle.getTransactionFees(chainId, gasPreference)
+    return createSuccessResponse({ ...suggestion, gasPreference, transactionFees })
+  } catch (error) {
+    return handleAPIError(error)
+  }
+}
@@ -3,7 +3,8 @@
  * Centralized type definitions and validation for API requests
  */
 
-import { Token } from './index'
+import { Token, ApprovalMode, ExecutionMode } from './index'
+import type { GasTier } from './gas-oracle'
 
 // Request Types
 export interface GetQuoteRequest {
@@ -18,15 +19,39 @@ export interface FindBestRouteRequest {
   tokenOut: Token
   amountIn: string
   slippageTolerance?: number
+  walletAddress?: string // Include unsigned approve/swap transactions for this wallet
+  approvalMode?: ApprovalMode // Defaults to approving the exact amountIn
+  gasPreference?: GasTier // Fee tier the transactions are priced at; defaults to 'standard'
+  executionMode?: ExecutionMode // 'mev_protected' swaps are signed by the wallet and sent through a private relay
 }
 
-export interface ExecuteTradeRequest {
+// Best route with the next transaction to sign simulated for the wallet
+export interface PreviewTradeRequest extends FindBestRouteRequest {
+  walletAddress: string
+}
+
+// A swap the user's wallet has signed and broadcast
+export interface SubmitTradeRequest {
+  hash: string
+  tokenIn: Token
+  tokenOut: Token
+  amountIn: string
+  walletAddress: string
+  dexName?: string
+}
+
+// A swap the user's wallet has signed without broadcasting, for the private relay to submit
+export interface SubmitProtectedTradeRequest {
+  signedTransaction: string
   tokenIn: Token
   tokenOut: Token
   amountIn: string
-  slippageTolerance?: number
-  privateKey: string
   walletAddress: string
+  dexName?: string
+}
+
+export interface GetTradeStatusRequest {
+  hash: string
 }
 
 export interface GetSupportedTokensRequest {
@@ -43,6 +68,12 @@ export interface EstimateGasRequest {
   tokenOut: Token
   amountIn: string
   slippageTolerance?: number
+  gasPreference?: GasTier
+}
+
+export interface GetGasSuggestionRequest {
+  chainId: number
+  gasPreference?: GasTier // Also return the transaction fee fields for this tier
 }
 
 // Response Types
@@ -59,8 +90,8 @@ export interface ValidationResult {
 }
 
 // Validation Functions
-export function validateTradeParams(params: any): ValidationResult {
-  const { tokenIn, tokenOut, amountIn } = params
+export function validateTradeParams(params: unknown): ValidationResult {
+  const { tokenIn, tokenOut, amountIn } = fieldsOf(params)
 
   if (!tokenIn || !tokenOut || !amountIn) {
     return {
@@ -93,18 +124,74 @@ export function validateTradeParams(params: any): ValidationResult {
   return { isValid: true }
 }
 
-export function validateExecuteTradeParams(params: any): ValidationResult {
+export function validateFindBestRouteParams(params: unknown): ValidationResult {
+  const tradeValidation = validateTradeParams(params)
+  if (!tradeValidation.isValid) {
+    return tradeValidation
+  }
+
+  const { walletAddress, approvalMode, executionMode } = fieldsOf(params)
+
+  if (walletAddress !== undefined && !isValidAddress(walletAddress)) {
+    return {
+      isValid: false,
+      error: 'Invalid walletAddress: must be a valid Ethereum address'
+    }
+  }
+
+  if (approvalMode !== undefined && !isOneOf(approvalMode, ['exact', 'unlimited'])) {
+    return {
+      isValid: false,
+      error: 'Invalid approvalMode: must be "exact" or "unlimited"'
+    }
+  }
+
+  if (executionMode !== undefined && !isOneOf(executionMode, ['standard', 'mev_protected'])) {
+    return {
+      isValid: false,
+      error: 'Invalid executionMode: must be "standard" or "mev_protected"'
+    }
+  }
+
+  return validateGasPreference(params)
+}
+
+export function validateGasPreference(params: unknown): ValidationResult {
+  const { gasPreference } = fieldsOf(params)
+
+  if (gasPreference !== undefined && !isOneOf(gasPreference, ['slow', 'standard', 'fast'])) {
+    return {
+      isValid: false,
+      error: 'Invalid gasPreference: must be "slow", "standard" or "fast"'
+    }
+  }
+
+  return { isValid: true }
+}
+
+export function validatePreviewTradeParams(params: unknown): ValidationResult {
+  if (!fieldsOf(params).walletAddress) {
+    return {
+      isValid: false,
+      error: 'Missing required parameter: walletAddress'
+    }
+  }
+
+  return validateFindBestRouteParams(params)
+}
+
+export function validateSubmitTradeParams(params: unknown): ValidationResult {
   const tradeValidation = validateTradeParams(params)
   if (!tradeValidation.isValid) {
     return tradeValidation
   }
 
-  const { privateKey, walletAddress } = params
+  const { walletAddress } = fieldsOf(params)
 
-  if (!privateKey || !walletAddress) {
+  if (!walletAddress) {
     return {
       isValid: false,
-      error: 'Missing required parameters: privateKey and walletAddress are required for trade execution'
+      error: 'Missing required parameter: walletAddress is required to track a trade'
     }
   }
 
@@ -115,11 +202,56 @@ export function validateExecuteTradeParams(params: any): ValidationResult {
     }
   }
 
+  return validateTradeHash(params)
+}
+
+export function validateSubmitProtectedTradeParams(params: unknown): ValidationResult {
+  const tradeValidation = validateTradeParams(params)
+  if (!tradeValidation.isValid) {
+    return tradeValidation
+  }
+
+  const { walletAddress, signedTransaction } = fieldsOf(params)
+
+  if (!walletAddress || !isValidAddress(walletAddress)) {
+    return {
+      isValid: false,
+      error: 'Invalid walletAddress: must be a valid Ethereum address'
+    }
+  }
+
+  if (typeof signedTransaction !== 'string' || !/^0x([a-fA-F0-9]{2})+$/.test(signedTransaction)) {
+    return {
+      isValid: false,
+      error: 'Invalid signedTransaction: must be a hex-encoded signed transaction'
+    }
+  }
+
+  return { isValid: true }
+}
+
+export function validateTradeHash(params: unknown): ValidationResult {
+  const { hash } = fieldsOf(params)
+
+  if (!hash) {
+    return {
+      isValid: false,
+      error: 'Missing required parameter: hash is required'
+    }
+  }
+
+  if (!isValidTransactionHash(hash)) {
+    return {
+      isValid: false,
+      error: 'Invalid hash: must be a 32-byte hex transaction hash'
+    }
+  }
+
   return { isValid: true }
 }
 
-export function validateTokenPriceParams(params: any): ValidationResult {
-  const { tokenA, tokenB } = params
+export function validateTokenPriceParams(params: unknown): ValidationResult {
+  const { tokenA, tokenB } = fieldsOf(params)
 
   if (!tokenA || !tokenB) {
     return {
@@ -145,8 +277,8 @@ export function validateTokenPriceParams(params: any): ValidationResult {
   return { isValid: true }
 }
 
-export function validateChainId(params: any): ValidationResult {
-  const { chainId } = params
+export function validateChainId(params: unknown): ValidationResult {
+  const { chainId } = fieldsOf(params)
 
   if (!chainId) {
     return {
@@ -166,23 +298,32 @@ export function validateChainId(params: any): ValidationResult {
 }
 
 // Helper Functions
-function isValidToken(token: any): token is Token {
+
+// Request bodies are untrusted JSON; anything but an object has no fields
+function fieldsOf(params: unknown): { [field: string]: unknown } {
+  return params && typeof params === 'object' ? (params as { [field: string]: unknown }) : {}
+}
+
+function isOneOf(value: unknown, options: string[]): boolean {
+  return typeof value === 'string' && options.includes(value)
+}
+
+function isValidToken(token: unknown): token is Token {
+  const { address, symbol, name, decimals, chainId } = fieldsOf(token)
   return (
-    token &&
-    typeof token.address === 'string' &&
-    typeof token.symbol === 'string' &&
-    typeof token.name === 'string' &&
-    typeof token.decimals === 'number' &&
-    typeof token.chainId === 'number' &&
-    token.address.length > 0 &&
-    token.symbol.length > 0 &&
-    token.name.length > 0 &&
-    token.decimals >= 0 &&
-    isValidChainId(token.chainId)
+    typeof address === 'string' &&
+    typeof symbol === 'string' &&
+    typeof name === 'string' &&
+    typeof decimals === 'number' &&
+    address.length > 0 &&
+    symbol.length > 0 &&
+    name.length > 0 &&
+    decimals >= 0 &&
+    isValidChainId(chainId)
   )
 }
 
-function isValidAmount(amount: any): boolean {
+function isValidAmount(amount: unknown): boolean {
   if (typeof amount === 'string') {
     const num = parseFloat(amount)
     return !isNaN(num) && num > 0
@@ -193,7 +334,7 @@ function isValidAmount(amount: any): boolean {
   return false
 }
 
-function isValidAddress(address: any): boolean {
+function isValidAddress(address: unknown): boolean {
   return (
     typeof address === 'string' &&
     address.length === 42 &&
@@ -202,6 +343,10 @@ function isValidAddress(address: any): boolean {
   )
 }
 
-function isValidChainId(chainId: any): boolean {
+function isValidTransactionHash(hash: unknown): boolean {
+  return typeof hash === 'string' && /^0x[a-fA-F0-9]{64}$/.test(hash)
+}
+
+function isValidChainId(chainId: unknown): boolean {
   return typeof chainId === 'number' && [1, 56, 137].includes(chainId)
 }
\ No newline at end of file
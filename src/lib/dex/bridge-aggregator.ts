@@ -4,13 +4,29 @@
  */
 
 import { ethers } from 'ethers'
+import type { UnsignedTransaction } from './index'
+import { TransactionSimulator } from './simulation'
+import { parseTrackingId } from './bridge-base'
+import type { BridgeTransactions } from './bridge-base'
+import { GasOracle, GasTier } from './gas-oracle'
+import { StargateBridge } from './stargate-bridge'
+import { AcrossBridge } from './across-bridge'
+import { HopBridge } from './hop-bridge'
+import { PolygonPoSBridge } from './polygon-pos-bridge'
 
 export interface BridgeProvider {
+  id: string // Prefix of the tracking IDs the provider issues
   name: string
   website: string
   supportedChains: number[]
+  supportsRoute: (fromChain: number, toChain: number) => boolean
   getQuote: (params: BridgeParams) => Promise<BridgeQuote>
   executeBridge: (params: BridgeParams, signer: ethers.Signer) => Promise<BridgeResult>
+  trackBridgeStatus: (trackingId: string) => Promise<BridgeResult>
+  // Source-chain transaction executeBridge will send, for pre-flight simulation
+  buildTransaction?: (params: BridgeParams, from: string) => Promise<UnsignedTransaction>
+  // Approval and deposit for the user's wallet to sign and broadcast itself
+  buildTransactions?: (params: BridgeParams, from: string) => Promise<BridgeTransactions>
 }
 
 export interface BridgeParams {
@@ -20,13 +36,14 @@ export interface BridgeParams {
   toToken: string
   amount: string
   recipient: string
-  slippage?: number
+  slippage?: number // basis points
 }
 
 export interface BridgeQuote {
   provider: string
   fromAmount: string
   toAmount: string
+  toToken: string // Token delivered on the destination chain, which may differ from params.toToken
   estimatedTime: number // minutes
   fees: BridgeFees
   route: BridgeRoute[]
@@ -62,284 +79,25 @@ export interface AggregatedBridgeQuote extends BridgeQuote {
   savingsPercentage: number
 }
 
-// Bridge provider implementations
-class LayerZeroBridge implements BridgeProvider {
-  name = 'LayerZero'
-  website = 'https://layerzero.network'
-  supportedChains = [1, 56, 137, 42161, 10, 43114, 250]
-
-  async getQuote(params: BridgeParams): Promise<BridgeQuote> {
-    // LayerZero quote implementation
-    const estimatedTime = this.getEstimatedTime(params.fromChain, params.toChain)
-    const fees = await this.calculateFees(params)
-    
-    return {
-      provider: this.name,
-      fromAmount: params.amount,
-      toAmount: this.calculateToAmount(params.amount, fees),
-      estimatedTime,
-      fees,
-      route: this.generateRoute(params),
-      confidence: 95,
-      gasEstimate: '0.02'
-    }
-  }
-
-  async executeBridge(params: BridgeParams, signer: ethers.Signer): Promise<BridgeResult> {
-    // LayerZero bridge execution
-    const tx = await this.submitBridgeTransaction(params, signer)
-    
-    return {
-      txHash: tx.hash,
-      status: 'pending',
-      estimatedCompletionTime: Date.now() + (this.getEstimatedTime(params.fromChain, params.toChain) * 60000),
-      trackingId: `lz_${tx.hash}`
-    }
-  }
-
-  private getEstimatedTime(fromChain: number, toChain: number): number {
-    // Faster for L2s, slower for different ecosystems
-    if ((fromChain === 1 && [42161, 10].includes(toChain)) || 
-        (toChain === 1 && [42161, 10].includes(fromChain))) {
-      return 5 // 5 minutes for ETH <-> L2
-    }
-    return 15 // 15 minutes for other chains
-  }
-
-  private async calculateFees(params: BridgeParams): Promise<BridgeFees> {
-    const bridgeFeePercent = 0.0005 // 0.05%
-    const bridgeFee = (parseFloat(params.amount) * bridgeFeePercent).toString()
-    
-    return {
-      bridgeFee,
-      gasFee: '0.02',
-      totalFeeUSD: (parseFloat(bridgeFee) * 2000 + 50).toString() // Estimate
-    }
-  }
-
-  private calculateToAmount(amount: string, fees: BridgeFees): string {
-    return (parseFloat(amount) - parseFloat(fees.bridgeFee)).toString()
-  }
-
-  private generateRoute(params: BridgeParams): BridgeRoute[] {
-    return [
-      {
-        step: 1,
-        action: 'Lock tokens on source chain',
-        chain: params.fromChain,
-        protocol: 'LayerZero',
-        estimatedTime: 2
-      },
-      {
-        step: 2,
-        action: 'Relay message cross-chain',
-        chain: 0,
-        protocol: 'LayerZero',
-        estimatedTime: 8
-      },
-      {
-        step: 3,
-        action: 'Mint tokens on destination chain',
-        chain: params.toChain,
-        protocol: 'LayerZero',
-        estimatedTime: 5
-      }
-    ]
-  }
-
-  private async submitBridgeTransaction(params: BridgeParams, signer: ethers.Signer): Promise<any> {
-    // Mock transaction for LayerZero
-    return {
-      hash: `0x${Math.random().toString(16).substr(2, 64)}`,
-      wait: () => Promise.resolve()
-    }
-  }
-}
-
-class HopProtocolBridge implements BridgeProvider {
-  name = 'Hop Protocol'
-  website = 'https://hop.exchange'
-  supportedChains = [1, 137, 42161, 10, 100] // Ethereum, Polygon, Arbitrum, Optimism, Gnosis
-
-  async getQuote(params: BridgeParams): Promise<BridgeQuote> {
-    const estimatedTime = this.getEstimatedTime(params.fromChain, params.toChain)
-    const fees = await this.calculateFees(params)
-    
-    return {
-      provider: this.name,
-      fromAmount: params.amount,
-      toAmount: this.calculateToAmount(params.amount, fees),
-      estimatedTime,
-      fees,
-      route: this.generateRoute(params),
-      confidence: 90,
-      gasEstimate: '0.025'
-    }
-  }
-
-  async executeBridge(params: BridgeParams, signer: ethers.Signer): Promise<BridgeResult> {
-    const tx = await this.submitBridgeTransaction(params, signer)
-    
-    return {
-      txHash: tx.hash,
-      status: 'pending',
-      estimatedCompletionTime: Date.now() + (this.getEstimatedTime(params.fromChain, params.toChain) * 60000),
-      trackingId: `hop_${tx.hash}`
-    }
-  }
-
-  private getEstimatedTime(fromChain: number, toChain: number): number {
-    // Hop is generally fast for L2 <-> L2
-    if (fromChain !== 1 && toChain !== 1) {
-      return 3 // 3 minutes for L2 to L2
-    }
-    return 20 // 20 minutes involving mainnet
-  }
-
-  private async calculateFees(params: BridgeParams): Promise<BridgeFees> {
-    const bridgeFeePercent = 0.0004 // 0.04%
-    const bridgeFee = (parseFloat(params.amount) * bridgeFeePercent).toString()
-    
-    return {
-      bridgeFee,
-      gasFee: '0.025',
-      totalFeeUSD: (parseFloat(bridgeFee) * 2000 + 60).toString()
-    }
-  }
-
-  private calculateToAmount(amount: string, fees: BridgeFees): string {
-    return (parseFloat(amount) - parseFloat(fees.bridgeFee)).toString()
-  }
-
-  private generateRoute(params: BridgeParams): BridgeRoute[] {
-    return [
-      {
-        step: 1,
-        action: 'Deposit to Hop AMM',
-        chain: params.fromChain,
-        protocol: 'Hop Protocol',
-        estimatedTime: 5
-      },
-      {
-        step: 2,
-        action: 'Bridge via AMM',
-        chain: 0,
-        protocol: 'Hop Protocol',
-        estimatedTime: 10
-      },
-      {
-        step: 3,
-        action: 'Withdraw on destination',
-        chain: params.toChain,
-        protocol: 'Hop Protocol',
-        estimatedTime: 5
-      }
-    ]
-  }
-
-  private async submitBridgeTransaction(params: BridgeParams, signer: ethers.Signer): Promise<any> {
-    return {
-      hash: `0x${Math.random().toString(16).substr(2, 64)}`,
-      wait: () => Promise.resolve()
-    }
-  }
-}
-
-class SynapseProtocolBridge implements BridgeProvider {
-  name = 'Synapse Protocol'
-  website = 'https://synapseprotocol.com'
-  supportedChains = [1, 56, 137, 42161, 10, 43114, 250, 1666600000] // Multiple chains
-
-  async getQuote(params: BridgeParams): Promise<BridgeQuote> {
-    const estimatedTime = this.getEstimatedTime(params.fromChain, params.toChain)
-    const fees = await this.calculateFees(params)
-    
-    return {
-      provider: this.name,
-      fromAmount: params.amount,
-      toAmount: this.calculateToAmount(params.amount, fees),
-      estimatedTime,
-      fees,
-      route: this.generateRoute(params),
-      confidence: 85,
-      gasEstimate: '0.03'
-    }
-  }
-
-  async executeBridge(params: BridgeParams, signer: ethers.Signer): Promise<BridgeResult> {
-    const tx = await this.submitBridgeTransaction(params, signer)
-    
-    return {
-      txHash: tx.hash,
-      status: 'pending',
-      estimatedCompletionTime: Date.now() + (this.getEstimatedTime(params.fromChain, params.toChain) * 60000),
-      trackingId: `syn_${tx.hash}`
-    }
-  }
-
-  private getEstimatedTime(fromChain: number, toChain: number): number {
-    // Synapse varies by route
-    const crossEcosystem = (fromChain === 1 && toChain === 56) || (fromChain === 56 && toChain === 1)
-    return crossEcosystem ? 30 : 12
-  }
-
-  private async calculateFees(params: BridgeParams): Promise<BridgeFees> {
-    const bridgeFeePercent = 0.0006 // 0.06%
-    const bridgeFee = (parseFloat(params.amount) * bridgeFeePercent).toString()
-    
-    return {
-      bridgeFee,
-      gasFee: '0.03',
-      totalFeeUSD: (parseFloat(bridgeFee) * 2000 + 70).toString()
-    }
-  }
-
-  private calculateToAmount(amount: string, fees: BridgeFees): string {
-    return (parseFloat(amount) - parseFloat(fees.bridgeFee)).toString()
-  }
-
-  private generateRoute(params: BridgeParams): BridgeRoute[] {
-    return [
-      {
-        step: 1,
-        action: 'Swap to bridge token',
-        chain: params.fromChain,
-        protocol: 'Synapse Protocol',
-        estimatedTime: 3
-      },
-      {
-        step: 2,
-        action: 'Bridge cross-chain',
-        chain: 0,
-        protocol: 'Synapse Protocol',
-        estimatedTime: 15
-      },
-      {
-        step: 3,
-        action: 'Swap to target token',
-        chain: params.toChain,
-        protocol: 'Synapse Protocol',
-        estimatedTime: 4
-      }
-    ]
-  }
-
-  private async submitBridgeTransaction(params: BridgeParams, signer: ethers.Signer): Promise<any> {
-    return {
-      hash: `0x${Math.random().toString(16).substr(2, 64)}`,
-      wait: () => Promise.resolve()
-    }
-  }
-}
-
 export class BridgeAggregator {
   private providers: BridgeProvider[]
+  private chainProviders: Map<number, ethers.Provider>
+
+  private gasOracle: GasOracle
 
-  constructor() {
+  /**
+   * @param chainProviders Read providers by chain ID, used to quote, simulate and track bridge transfers
+   * @param gasOracle Fee suggestions for quotes and transactions; defaults to one over chainProviders
+   */
+  constructor(chainProviders: Map<number, ethers.Provider> = new Map(), gasOracle?: GasOracle) {
+    this.chainProviders = chainProviders
+    const getProvider = (chainId: number) => this.chainProviders.get(chainId)
+    this.gasOracle = gasOracle ?? new GasOracle(getProvider)
     this.providers = [
-      new LayerZeroBridge(),
-      new HopProtocolBridge(),
-      new SynapseProtocolBridge()
+      new StargateBridge(getProvider, this.gasOracle),
+      new AcrossBridge(getProvider, this.gasOracle),
+      new HopBridge(getProvider, this.gasOracle),
+      new PolygonPoSBridge(getProvider, this.gasOracle)
     ]
   }
 
@@ -416,9 +174,44 @@ export class BridgeAggregator {
       throw new Error('Bridge provider not found')
     }
 
+    const chainProvider = this.chainProviders.get(params.fromChain)
+    if (provider.buildTransaction && chainProvider) {
+      const tx = await provider.buildTransaction(params, await signer.getAddress())
+      const simulation = await new TransactionSimulator(chainProvider).simulate(tx)
+      if (!simulation.safe) {
+        throw new Error(`Bridge simulation failed: ${simulation.revertReason || simulation.warnings.map(warning => warning.message).join('; ')}`)
+      }
+    }
+
     return provider.executeBridge(params, signer)
   }
 
+  /**
+   * Unsigned approval and deposit for `from` to sign, priced at the gas tier, through the best
+   * provider or through `providerId` when a transfer has to stay with the provider it was started on
+   */
+  async buildBridgeTransactions(
+    params: BridgeParams,
+    from: string,
+    providerId?: string,
+    gasPreference: GasTier = 'standard'
+  ): Promise<BridgeTransactions & { providerId: string }> {
+    const name = providerId ? undefined : (await this.findBestBridgeRoute(params)).provider
+    const provider = this.providers.find(p => providerId ? p.id === providerId : p.name === name)
+
+    if (!provider?.buildTransactions) {
+      throw new Error(`Bridge provider ${providerId ?? 'for this route'} cannot build transactions`)
+    }
+
+    const { approval, deposit, quote } = await provider.buildTransactions(params, from)
+    return {
+      approval: approval && await this.gasOracle.withFees(approval, gasPreference),
+      deposit: await this.gasOracle.withFees(deposit, gasPreference),
+      quote,
+      providerId: provider.id
+    }
+  }
+
   /**
    * Get supported bridge routes
    */
@@ -448,19 +241,17 @@ export class BridgeAggregator {
   }
 
   /**
-   * Track bridge transaction status
+   * Track bridge transaction status with the provider that issued the tracking ID
    */
   async trackBridgeStatus(trackingId: string): Promise<BridgeResult> {
-    const [provider, txHash] = trackingId.split('_')
-    
-    // In a real implementation, this would query the bridge provider's API
-    // For now, simulate status tracking
-    return {
-      txHash,
-      status: Math.random() > 0.5 ? 'completed' : 'pending',
-      estimatedCompletionTime: Date.now() + 300000, // 5 minutes
-      trackingId
+    const { id } = parseTrackingId(trackingId)
+    const provider = this.providers.find(p => p.id === id)
+
+    if (!provider) {
+      throw new Error(`Bridge provider not found for tracking ID ${trackingId}`)
     }
+
+    return provider.trackBridgeStatus(trackingId)
   }
 
   /**
@@ -479,7 +270,6 @@ export class BridgeAggregator {
   }
 
   private isRouteSupported(provider: BridgeProvider, fromChain: number, toChain: number): boolean {
-    return provider.supportedChains.includes(fromChain) && 
-           provider.supportedChains.includes(toChain)
+    return provider.supportsRoute(fromChain, toChain)
   }
 }
\ No newline at end of file
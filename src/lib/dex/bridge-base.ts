@@ -0,0 +1,316 @@
+/**
+ * Bridge Adapter Base
+ * Shared plumbing for the on-chain bridge adapters: token resolution, approvals, deposit
+ * submission and following a transfer onto the destination chain
+ */
+
+import { ethers } from 'ethers'
+import { DEXError } from './index'
+import type { UnsignedTransaction } from './index'
+import { GasOracle } from './gas-oracle'
+import type { BridgeParams, BridgeProvider, BridgeQuote, BridgeResult } from './bridge-aggregator'
+
+export interface BridgeToken {
+  symbol: string
+  address: string
+  decimals: number
+}
+
+// Tokens a protocol carries, by asset and then chain. Both ends of a transfer share the asset.
+export type BridgeAssets = { [asset: string]: { [chainId: number]: BridgeToken } }
+
+export type ChainProviderLookup = (chainId: number) => ethers.Provider | undefined
+
+export interface BridgeDeposit {
+  quote: BridgeQuote
+  token: BridgeToken // Source token the entry point pulls
+  amount: bigint // base units
+  spender: string // Contract that needs the allowance
+  to: string
+  data: string
+  value: bigint // Native messaging fee, if the protocol charges one
+}
+
+export interface BridgeTransactions {
+  approval: UnsignedTransaction | null // Null when the entry point allowance already covers the amount
+  deposit: UnsignedTransaction
+  quote: BridgeQuote
+}
+
+// Where the transfer stands on the destination chain
+export interface BridgeDelivery {
+  status: BridgeResult['status']
+  toTxHash?: string
+}
+
+const token = (symbol: string, address: string, decimals: number): BridgeToken => ({ symbol, address, decimals })
+
+// Stablecoins the supported bridges carry. USDC.e is the bridged USDC that predates Circle's native deployments.
+export const BRIDGE_TOKENS = {
+  USDC: {
+    1: token('USDC', '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6),
+    56: token('USDC', '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d', 18),
+    137: token('USDC', '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359', 6),
+    42161: token('USDC', '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', 6),
+    10: token('USDC', '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85', 6),
+    43114: token('USDC', '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E', 6)
+  },
+  USDCe: {
+    137: token('USDC.e', '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174', 6),
+    42161: token('USDC.e', '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8', 6),
+    10: token('USDC.e', '0x7F5c764cBc14f9669B88837ca1490cCa17c31607', 6)
+  },
+  USDT: {
+    1: token('USDT', '0xdAC17F958D2ee523a2206206994597C13D831ec7', 6),
+    56: token('USDT', '0x55d398326f99059fF775485246999027B3197955', 18),
+    137: token('USDT', '0xc2132D05D31c914a87C6611C10748AEb04B58e8F', 6),
+    42161: token('USDT', '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9', 6),
+    10: token('USDT', '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58', 6),
+    43114: token('USDT', '0x9702230A8Ea53601f5cD2dc00fDBc13d4dF4A8c7', 6)
+  },
+  DAI: {
+    1: token('DAI', '0x6B175474E89094C44Da98b954EedeAC495271d0F', 18),
+    137: token('DAI', '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063', 18)
+  }
+}
+
+// Average block times, to estimate where on the destination chain a delivery can start
+const BLOCK_TIME_SECONDS: { [chainId: number]: number } = {
+  1: 12,
+  56: 3,
+  137: 2,
+  42161: 0.25,
+  10: 2,
+  43114: 2
+}
+const LOG_CHUNK_SIZE = 10000
+const APPROVE_GAS_FALLBACK = 60000
+
+const ERC20_APPROVE_ABI = [
+  'function approve(address spender, uint256 amount) external returns (bool)',
+  'function allowance(address owner, address spender) external view returns (uint256)'
+]
+
+/**
+ * Tracking IDs carry everything needed to find the transfer again:
+ * `<provider id>_<from chain>_<to chain>_<source tx hash>`
+ */
+export function encodeTrackingId(id: string, fromChain: number, toChain: number, txHash: string): string {
+  return `${id}_${fromChain}_${toChain}_${txHash}`
+}
+
+export function parseTrackingId(trackingId: string): { id: string; fromChain: number; toChain: number; txHash: string } {
+  const [id, fromChain, toChain, txHash] = trackingId.split('_')
+  if (!txHash || !ethers.isHexString(txHash, 32) || isNaN(Number(fromChain)) || isNaN(Number(toChain))) {
+    throw new DEXError(`Malformed bridge tracking ID: ${trackingId}`, 'INVALID_TRACKING_ID')
+  }
+  return { id, fromChain: Number(fromChain), toChain: Number(toChain), txHash }
+}
+
+export abstract class BaseBridge implements BridgeProvider {
+  abstract id: string // Tracking ID prefix
+  abstract name: string
+  abstract website: string
+  abstract supportedChains: number[]
+  protected abstract assets: BridgeAssets
+  protected abstract depositGasFallback: number
+
+  /**
+   * @param getProvider Read provider for a chain, used for quotes and for following transfers
+   * @param gasOracle Prices the deposit gas in quotes; shared with the aggregator when given
+   */
+  constructor(protected getProvider: ChainProviderLookup, protected gasOracle: GasOracle = new GasOracle(getProvider)) {}
+
+  abstract getQuote(params: BridgeParams): Promise<BridgeQuote>
+
+  supportsRoute(fromChain: number, toChain: number): boolean {
+    return fromChain !== toChain && this.supportedChains.includes(fromChain) && this.supportedChains.includes(toChain)
+  }
+
+  // Entry point call that starts the transfer, with the quote it was priced from
+  protected abstract buildDeposit(params: BridgeParams, from: string): Promise<BridgeDeposit>
+
+  // Look for the transfer's arrival on the destination chain, given its mined source receipt
+  protected abstract findDelivery(receipt: ethers.TransactionReceipt, fromChain: number, toChain: number): Promise<BridgeDelivery>
+
+  // Typical minutes from source confirmation to delivery
+  protected abstract transferMinutes(fromChain: number, toChain: number): number
+
+  /**
+   * Approval (when the entry point allowance is short) and deposit calldata, to be signed by `from`.
+   * The approval is for exactly the bridged amount.
+   */
+  async buildTransactions(params: BridgeParams, from: string): Promise<BridgeTransactions> {
+    const provider = this.requireProvider(params.fromChain)
+    const deposit = await this.buildDeposit(params, from)
+
+    const erc20 = new ethers.Contract(deposit.token.address, ERC20_APPROVE_ABI, provider)
+    const allowance: bigint = await erc20.allowance(from, deposit.spender)
+
+    let approval: UnsignedTransaction | null = null
+    if (allowance < deposit.amount) {
+      const data = erc20.interface.encodeFunctionData('approve', [deposit.spender, deposit.amount])
+      approval = {
+        to: deposit.token.address,
+        data,
+        value: '0',
+        chainId: params.fromChain,
+        from,
+        gasLimit: (await this.estimateGasLimit(params.fromChain, { from, to: deposit.token.address, data }, BigInt(APPROVE_GAS_FALLBACK))).toString()
+      }
+    }
+
+    // The deposit cannot be estimated until the approval has been mined
+    const depositTx = { from, to: deposit.to, data: deposit.data, value: deposit.value }
+    const gasLimit = approval
+      ? BigInt(this.depositGasFallback)
+      : await this.estimateGasLimit(params.fromChain, depositTx, BigInt(this.depositGasFallback))
+
+    return {
+      approval,
+      deposit: { ...depositTx, value: deposit.value.toString(), chainId: params.fromChain, gasLimit: gasLimit.toString() },
+      quote: deposit.quote
+    }
+  }
+
+  // Next source-chain transaction executeBridge will send: the approval if one is needed, else the deposit
+  async buildTransaction(params: BridgeParams, from: string): Promise<UnsignedTransaction> {
+    const { approval, deposit } = await this.buildTransactions(params, from)
+    return approval ?? deposit
+  }
+
+  async executeBridge(params: BridgeParams, signer: ethers.Signer): Promise<BridgeResult> {
+    const from = await signer.getAddress()
+    let built = await this.buildTransactions(params, from)
+
+    if (built.approval) {
+      const approveTx = await signer.sendTransaction({ to: built.approval.to, data: built.approval.data, gasLimit: built.approval.gasLimit })
+      await approveTx.wait()
+      // Requote now the deposit can be estimated; fees may have moved while the approval mined
+      built = await this.buildTransactions(params, from)
+    }
+
+    const { deposit, quote } = built
+    const tx = await signer.sendTransaction({ to: deposit.to, data: deposit.data, value: deposit.value, gasLimit: deposit.gasLimit })
+    const receipt = await tx.wait()
+    if (!receipt || receipt.status !== 1) {
+      throw new DEXError(`${this.name} deposit ${tx.hash} reverted`, 'TRANSACTION_FAILED')
+    }
+
+    return {
+      txHash: tx.hash,
+      fromTxHash: tx.hash,
+      status: 'pending',
+      estimatedCompletionTime: Date.now() + quote.estimatedTime * 60000,
+      trackingId: encodeTrackingId(this.id, params.fromChain, params.toChain, tx.hash)
+    }
+  }
+
+  /**
+   * Status of a transfer started by executeBridge, read from the source receipt and then the
+   * destination chain
+   */
+  async trackBridgeStatus(trackingId: string): Promise<BridgeResult> {
+    const { fromChain, toChain, txHash } = parseTrackingId(trackingId)
+    const source = this.requireProvider(fromChain)
+    const receipt = await source.getTransactionReceipt(txHash)
+    const result = { txHash, fromTxHash: txHash, trackingId }
+
+    if (!receipt) {
+      return { ...result, status: 'pending', estimatedCompletionTime: Date.now() + this.transferMinutes(fromChain, toChain) * 60000 }
+    }
+
+    const block = await source.getBlock(receipt.blockNumber)
+    const estimatedCompletionTime = ((block?.timestamp ?? Math.floor(Date.now() / 1000)) + this.transferMinutes(fromChain, toChain) * 60) * 1000
+    if (receipt.status !== 1) {
+      return { ...result, status: 'failed', estimatedCompletionTime }
+    }
+
+    const delivery = await this.findDelivery(receipt, fromChain, toChain)
+    return { ...result, ...delivery, estimatedCompletionTime }
+  }
+
+  protected requireProvider(chainId: number): ethers.Provider {
+    const provider = this.getProvider(chainId)
+    if (!provider) {
+      throw new DEXError(`No provider for chain ${chainId}`, 'UNSUPPORTED_CHAIN')
+    }
+    return provider
+  }
+
+  /**
+   * Source token for params.fromToken and the token the protocol delivers for the same asset
+   * on the destination chain. params.toToken is not consulted: a bridge can only deliver its
+   * own representation of the asset.
+   */
+  protected resolveTokens(params: BridgeParams): { asset: string; fromToken: BridgeToken; toToken: BridgeToken } {
+    for (const [asset, chains] of Object.entries(this.assets)) {
+      const fromToken = chains[params.fromChain]
+      if (fromToken?.address.toLowerCase() === params.fromToken.toLowerCase() && chains[params.toChain]) {
+        return { asset, fromToken, toToken: chains[params.toChain] }
+      }
+    }
+    throw new DEXError(
+      `${this.name} does not bridge ${params.fromToken} from chain ${params.fromChain} to ${params.toChain}`,
+      'UNSUPPORTED_BRIDGE_TOKEN'
+    )
+  }
+
+  protected applySlippage(amount: bigint, slippage: number = 50): bigint {
+    return amount * (BigInt(10000) - BigInt(slippage)) / BigInt(10000)
+  }
+
+  // Native-coin cost of gasUnits on the chain at standard fees, plus any native fee the protocol charges
+  protected async estimateGasCost(chainId: number, gasUnits: number, extra: bigint = BigInt(0)): Promise<string> {
+    const { tiers } = await this.gasOracle.getSuggestion(chainId)
+    return ethers.formatEther(BigInt(tiers.standard.expectedFeePerGas) * BigInt(gasUnits) + extra)
+  }
+
+  protected async fetchJson<T>(url: string): Promise<T> {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new DEXError(`${this.name} API responded with ${response.status}`, 'BRIDGE_API_ERROR', { url })
+    }
+    return response.json()
+  }
+
+  /**
+   * First log matching the filter on the destination chain since the transfer was sent.
+   * The search starts from the block estimated to be current at sentAt, so it stays a few
+   * eth_getLogs calls for recent transfers.
+   */
+  protected async findDestinationLog(
+    toChain: number,
+    filter: { address: string; topics: (string | string[] | null)[] },
+    sentAt: number,
+    matches: (log: ethers.Log) => boolean = () => true
+  ): Promise<ethers.Log | null> {
+    const provider = this.requireProvider(toChain)
+    const latest = await provider.getBlockNumber()
+    const elapsed = Math.max(0, Math.floor(Date.now() / 1000) - sentAt)
+    // Pad the estimate, since block times drift from the average
+    const blocksSince = Math.ceil(elapsed * 1.1 / (BLOCK_TIME_SECONDS[toChain] ?? 2)) + 100
+
+    for (let start = Math.max(0, latest - blocksSince); start <= latest; start += LOG_CHUNK_SIZE) {
+      const logs = await provider.getLogs({ ...filter, fromBlock: start, toBlock: Math.min(start + LOG_CHUNK_SIZE - 1, latest) })
+      const match = logs.find(matches)
+      if (match) return match
+    }
+    return null
+  }
+
+  protected async getTimestamp(chainId: number, blockNumber: number): Promise<number> {
+    const block = await this.requireProvider(chainId).getBlock(blockNumber)
+    return block?.timestamp ?? Math.floor(Date.now() / 1000)
+  }
+
+  // Node estimate plus 20% headroom, or the fallback when the call reverts
+  private async estimateGasLimit(chainId: number, tx: { from: string; to: string; data: string; value?: bigint }, fallback: bigint): Promise<bigint> {
+    try {
+      const estimate = await this.requireProvider(chainId).estimateGas(tx)
+      return estimate * BigInt(120) / BigInt(100)
+    } catch {
+      return fallback
+    }
+  }
+}
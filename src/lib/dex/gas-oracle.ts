@@ -0,0 +1,178 @@
+/**
+ * Gas Oracle
+ * EIP-1559 fee suggestions per chain from eth_feeHistory, in slow/standard/fast tiers
+ */
+
+import { ethers } from 'ethers'
+import { DEXError } from './index'
+import type { UnsignedTransaction } from './index'
+import type { ChainProviderLookup } from './bridge-base'
+import type { TradingPreferences } from '@/types/user-preferences'
+
+export type GasTier = TradingPreferences['gasPreference']
+
+export const GAS_TIERS: GasTier[] = ['slow', 'standard', 'fast']
+
+export interface GasTierFees {
+  maxFeePerGas: string // wei; the gas price itself on legacy chains
+  maxPriorityFeePerGas: string // wei; equal to maxFeePerGas on legacy chains
+  expectedFeePerGas: string // wei paid per gas at the projected base fee, for cost estimates
+}
+
+export interface GasSuggestion {
+  chainId: number
+  blockNumber: number
+  eip1559: boolean
+  baseFeePerGas: string | null // wei, projected for the next block; null on legacy chains
+  tiers: { [tier in GasTier]: GasTierFees }
+  sampledBlocks: number
+}
+
+// Fee fields for one transaction, in wei
+export type TransactionFees =
+  | { maxFeePerGas: string; maxPriorityFeePerGas: string }
+  | { gasPrice: string }
+
+interface FeeHistory {
+  oldestBlock: string
+  baseFeePerGas?: string[] // One more entry than blocks: the last is the next block's base fee
+  gasUsedRatio: number[]
+  reward?: string[][]
+}
+
+// Blocks sampled per suggestion
+const FEE_HISTORY_BLOCKS = 10
+
+// Priority fee percentile sampled for each tier, and the base fee headroom in percent. A full
+// block raises the base fee 12.5%, so slow covers one full block and fast several.
+const TIER_CONFIG: { [tier in GasTier]: { percentile: number; baseFeeHeadroom: number; legacyMultiplier: number } } = {
+  slow: { percentile: 10, baseFeeHeadroom: 115, legacyMultiplier: 90 },
+  standard: { percentile: 50, baseFeeHeadroom: 125, legacyMultiplier: 100 },
+  fast: { percentile: 90, baseFeeHeadroom: 200, legacyMultiplier: 120 }
+}
+
+function median(values: bigint[]): bigint {
+  if (values.length === 0) return BigInt(0)
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / BigInt(2)
+}
+
+export class GasOracle {
+  // Latest suggestion per chain with the block it was computed at
+  private cache: Map<number, { blockNumber: number; suggestion: Promise<GasSuggestion> }> = new Map()
+
+  /**
+   * @param getProvider Read provider for a chain; JSON-RPC providers are needed for eth_feeHistory,
+   * anything else is priced from getFeeData as a legacy chain
+   */
+  constructor(private getProvider: ChainProviderLookup) {}
+
+  /**
+   * Fee suggestion for the next block on the chain. Suggestions are computed once per block.
+   */
+  async getSuggestion(chainId: number): Promise<GasSuggestion> {
+    const provider = this.getProvider(chainId)
+    if (!provider) {
+      throw new DEXError(`No provider for chain ${chainId}`, 'UNSUPPORTED_CHAIN')
+    }
+
+    const blockNumber = await provider.getBlockNumber()
+    const cached = this.cache.get(chainId)
+    if (cached && cached.blockNumber === blockNumber) {
+      return cached.suggestion
+    }
+
+    const suggestion = this.suggest(provider, chainId, blockNumber)
+    this.cache.set(chainId, { blockNumber, suggestion })
+    suggestion.catch(() => {
+      if (this.cache.get(chainId)?.suggestion === suggestion) this.cache.delete(chainId)
+    })
+    return suggestion
+  }
+
+  /**
+   * Fee fields for a transaction at the tier
+   */
+  async getTransactionFees(chainId: number, tier: GasTier = 'standard'): Promise<TransactionFees> {
+    const suggestion = await this.getSuggestion(chainId)
+    const fees = suggestion.tiers[tier]
+    return suggestion.eip1559
+      ? { maxFeePerGas: fees.maxFeePerGas, maxPriorityFeePerGas: fees.maxPriorityFeePerGas }
+      : { gasPrice: fees.maxFeePerGas }
+  }
+
+  /**
+   * The transaction priced at the tier. When fees cannot be looked up the transaction is returned
+   * as is and the wallet prices it.
+   */
+  async withFees(tx: UnsignedTransaction, tier: GasTier = 'standard'): Promise<UnsignedTransaction> {
+    try {
+      return { ...tx, ...await this.getTransactionFees(tx.chainId, tier) }
+    } catch (error) {
+      console.warn(`Gas fees unavailable for chain ${tx.chainId}:`, error)
+      return tx
+    }
+  }
+
+  /**
+   * Expected native-coin cost of gasUnits at the tier, formatted in ether
+   */
+  async estimateCost(chainId: number, gasUnits: bigint | number | string, tier: GasTier = 'standard'): Promise<string> {
+    const suggestion = await this.getSuggestion(chainId)
+    return ethers.formatEther(BigInt(gasUnits) * BigInt(suggestion.tiers[tier].expectedFeePerGas))
+  }
+
+  private async suggest(provider: ethers.Provider, chainId: number, blockNumber: number): Promise<GasSuggestion> {
+    const history = provider instanceof ethers.JsonRpcApiProvider
+      ? await provider.send('eth_feeHistory', [
+          ethers.toQuantity(FEE_HISTORY_BLOCKS),
+          ethers.toQuantity(blockNumber),
+          GAS_TIERS.map(tier => TIER_CONFIG[tier].percentile)
+        ]).catch(() => null) as FeeHistory | null
+      : null
+
+    if (!history?.baseFeePerGas?.length || !history.reward) {
+      return this.suggestLegacy(provider, chainId, blockNumber)
+    }
+
+    const baseFee = BigInt(history.baseFeePerGas[history.baseFeePerGas.length - 1])
+    // Empty blocks report zero rewards, which would drag the percentiles down
+    const rewards = history.reward.filter((_, index) => history.gasUsedRatio[index] > 0)
+
+    const tiers = {} as GasSuggestion['tiers']
+    GAS_TIERS.forEach((tier, index) => {
+      const priorityFee = median(rewards.map(reward => BigInt(reward[index])))
+      tiers[tier] = {
+        maxFeePerGas: (baseFee * BigInt(TIER_CONFIG[tier].baseFeeHeadroom) / BigInt(100) + priorityFee).toString(),
+        maxPriorityFeePerGas: priorityFee.toString(),
+        expectedFeePerGas: (baseFee + priorityFee).toString()
+      }
+    })
+
+    return {
+      chainId,
+      blockNumber,
+      eip1559: true,
+      baseFeePerGas: baseFee.toString(),
+      tiers,
+      sampledBlocks: history.gasUsedRatio.length
+    }
+  }
+
+  // Chains without a base fee are priced from the node's gas price
+  private async suggestLegacy(provider: ethers.Provider, chainId: number, blockNumber: number): Promise<GasSuggestion> {
+    const { gasPrice } = await provider.getFeeData()
+    if (gasPrice === null) {
+      throw new DEXError(`Chain ${chainId} reported no gas price`, 'GAS_PRICE_UNAVAILABLE')
+    }
+
+    const tiers = {} as GasSuggestion['tiers']
+    GAS_TIERS.forEach(tier => {
+      const price = (gasPrice * BigInt(TIER_CONFIG[tier].legacyMultiplier) / BigInt(100)).toString()
+      tiers[tier] = { maxFeePerGas: price, maxPriorityFeePerGas: price, expectedFeePerGas: price }
+    })
+
+    return { chainId, blockNumber, eip1559: false, baseFeePerGas: null, tiers, sampledBlocks: 0 }
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Hop Bridge Adapter
+ * USDC transfers through Hop's canonical bridges: L1_Bridge.sendToL2 from Ethereum, and the
+ * hToken AMM wrappers' swapAndSend from rollups, bonded on the destination
+ */
+
+import { ethers } from 'ethers'
+import { DEXError } from './index'
+import { BaseBridge, BRIDGE_TOKENS, BridgeAssets, BridgeDelivery, BridgeDeposit } from './bridge-base'
+import type { BridgeParams, BridgeQuote } from './bridge-aggregator'
+
+const HOP_API_URL = process.env.HOP_API_URL || 'https://api.hop.exchange/v1'
+
+// Hop names chains by slug in its API
+const CHAIN_SLUGS: { [chainId: number]: string } = {
+  1: 'ethereum',
+  137: 'polygon',
+  42161: 'arbitrum',
+  10: 'optimism'
+}
+
+// USDC bridge contracts; only rollups have an AMM wrapper
+const HOP_USDC_CONTRACTS: { [chainId: number]: { bridge: string; ammWrapper?: string } } = {
+  1: { bridge: '0x3666f603Cc164936C1b87e207F36BEBa4AC5f18a' },
+  137: { bridge: '0x25D8039bB044dC227f741a9e381CA4cEAE2E6aE8', ammWrapper: '0x76b22b8C1079A44F1211D867D68b1eda76a635A7' },
+  42161: { bridge: '0x0e0E3d2C5c292161999474247956EF542caBF8dd', ammWrapper: '0xe22D2beDb3Eca35E6397e0C6D62857094aA26F52' },
+  10: { bridge: '0xa81D244A1814468C734E5b4101F7b9c0c577a8fC', ammWrapper: '0x2ad09850b0CA4c7c1B33f5AcD6cBAbCaB5d6e796' }
+}
+
+const HOP_BRIDGE_ABI = [
+  'function sendToL2(uint256 chainId, address recipient, uint256 amount, uint256 amountOutMin, uint256 deadline, address relayer, uint256 relayerFee) payable',
+  'function swapAndSend(uint256 chainId, address recipient, uint256 amount, uint256 bonderFee, uint256 amountOutMin, uint256 deadline, uint256 destinationAmountOutMin, uint256 destinationDeadline) payable',
+  'event TransferSentToL2(uint256 indexed chainId, address indexed recipient, uint256 amount, uint256 amountOutMin, uint256 deadline, address indexed relayer, uint256 relayerFee)',
+  'event TransferFromL1Completed(address indexed recipient, uint256 amount, uint256 amountOutMin, uint256 deadline, address indexed relayer, uint256 relayerFee)',
+  'event TransferSent(bytes32 indexed transferId, uint256 indexed chainId, address indexed recipient, uint256 amount, bytes32 transferNonce, uint256 bonderFee, uint256 index, uint256 amountOutMin, uint256 deadline)',
+  'event WithdrawalBonded(bytes32 indexed transferId, uint256 amount)',
+  'event Withdrew(bytes32 indexed transferId, address indexed recipient, uint256 amount, bytes32 transferNonce)'
+]
+const hopInterface = new ethers.Interface(HOP_BRIDGE_ABI)
+
+const DEPOSIT_GAS_FALLBACK = 250000
+
+// Fields of the /quote response, amounts in base units. The misspelling is Hop's.
+interface HopQuote {
+  amountOutMin: string
+  destinationAmountOutMin: string | null
+  bonderFee: string
+  estimatedRecieved: string
+  deadline: number
+  destinationDeadline: number | null
+}
+
+export class HopBridge extends BaseBridge {
+  id = 'hop'
+  name = 'Hop Protocol'
+  website = 'https://hop.exchange'
+  supportedChains = Object.keys(HOP_USDC_CONTRACTS).map(Number)
+  protected assets: BridgeAssets = {
+    USDC: {
+      1: BRIDGE_TOKENS.USDC[1],
+      137: BRIDGE_TOKENS.USDCe[137],
+      42161: BRIDGE_TOKENS.USDCe[42161],
+      10: BRIDGE_TOKENS.USDCe[10]
+    }
+  }
+  protected depositGasFallback = DEPOSIT_GAS_FALLBACK
+
+  async getQuote(params: BridgeParams): Promise<BridgeQuote> {
+    return (await this.priceTransfer(params)).quote
+  }
+
+  protected async buildDeposit(params: BridgeParams): Promise<BridgeDeposit> {
+    const { quote, hopQuote, fromToken, amount } = await this.priceTransfer(params)
+    const contracts = HOP_USDC_CONTRACTS[params.fromChain]
+
+    // From Ethereum the bridge itself pulls the tokens; the minimum and deadline guard the destination AMM swap
+    if (!contracts.ammWrapper) {
+      return {
+        quote,
+        token: fromToken,
+        amount,
+        spender: contracts.bridge,
+        to: contracts.bridge,
+        data: hopInterface.encodeFunctionData('sendToL2', [
+          params.toChain, params.recipient, amount, hopQuote.amountOutMin, hopQuote.deadline, ethers.ZeroAddress, 0
+        ]),
+        value: BigInt(0)
+      }
+    }
+
+    return {
+      quote,
+      token: fromToken,
+      amount,
+      spender: contracts.ammWrapper,
+      to: contracts.ammWrapper,
+      data: hopInterface.encodeFunctionData('swapAndSend', [
+        params.toChain,
+        params.recipient,
+        amount,
+        hopQuote.bonderFee,
+        hopQuote.amountOutMin,
+        hopQuote.deadline,
+        hopQuote.destinationAmountOutMin ?? 0,
+        hopQuote.destinationDeadline ?? 0
+      ]),
+      value: BigInt(0)
+    }
+  }
+
+  /**
+   * Transfers from Ethereum arrive as a TransferFromL1Completed to the recipient for the same
+   * amount; transfers from rollups are identified by transferId, which the destination bridge
+   * emits when a bonder fronts the withdrawal or the recipient withdraws it unbonded
+   */
+  protected async findDelivery(receipt: ethers.TransactionReceipt, fromChain: number, toChain: number): Promise<BridgeDelivery> {
+    const sourceBridge = HOP_USDC_CONTRACTS[fromChain].bridge.toLowerCase()
+    const sent = receipt.logs
+      .filter(log => log.address.toLowerCase() === sourceBridge)
+      .map(log => hopInterface.parseLog(log))
+      .find(parsed => parsed?.name === 'TransferSentToL2' || parsed?.name === 'TransferSent')
+    if (!sent) {
+      throw new DEXError(`${receipt.hash} is not a Hop transfer`, 'INVALID_TRACKING_ID')
+    }
+
+    const sentAt = await this.getTimestamp(fromChain, receipt.blockNumber)
+    const destinationBridge = HOP_USDC_CONTRACTS[toChain].bridge
+
+    const arrival = sent.name === 'TransferSentToL2'
+      ? await this.findDestinationLog(
+        toChain,
+        { address: destinationBridge, topics: [hopInterface.getEvent('TransferFromL1Completed')!.topicHash, ethers.zeroPadValue(sent.args.recipient, 32)] },
+        sentAt,
+        log => hopInterface.parseLog(log)?.args.amount === sent.args.amount
+      )
+      : await this.findDestinationLog(
+        toChain,
+        {
+          address: destinationBridge,
+          topics: [[hopInterface.getEvent('WithdrawalBonded')!.topicHash, hopInterface.getEvent('Withdrew')!.topicHash], sent.args.transferId]
+        },
+        sentAt
+      )
+
+    return arrival ? { status: 'completed', toTxHash: arrival.transactionHash } : { status: 'pending' }
+  }
+
+  // Ethereum deposits wait on the rollup's L1 message inbox; rollup transfers are bonded once the source is final
+  protected transferMinutes(fromChain: number): number {
+    return fromChain === 1 ? 15 : 5
+  }
+
+  private async priceTransfer(params: BridgeParams) {
+    const { fromToken, toToken } = this.resolveTokens(params)
+    const amount = ethers.parseUnits(params.amount, fromToken.decimals)
+
+    const query = new URLSearchParams({
+      amount: amount.toString(),
+      token: 'USDC',
+      fromChain: CHAIN_SLUGS[params.fromChain],
+      toChain: CHAIN_SLUGS[params.toChain],
+      slippage: ((params.slippage ?? 50) / 100).toString() // percent
+    })
+    const hopQuote = await this.fetchJson<HopQuote>(`${HOP_API_URL}/quote?${query}`)
+
+    const received = BigInt(hopQuote.estimatedRecieved)
+    const bridgeFee = ethers.formatUnits(amount - received, fromToken.decimals)
+    const gasFee = await this.estimateGasCost(params.fromChain, DEPOSIT_GAS_FALLBACK)
+    const estimatedTime = this.transferMinutes(params.fromChain)
+
+    const quote: BridgeQuote = {
+      provider: this.name,
+      fromAmount: params.amount,
+      toAmount: ethers.formatUnits(received, toToken.decimals),
+      toToken: toToken.address,
+      estimatedTime,
+      fees: {
+        bridgeFee, // Bonder fee plus the AMM swaps into and out of hUSDC
+        gasFee,
+        totalFeeUSD: bridgeFee
+      },
+      route: [
+        {
+          step: 1,
+          action: params.fromChain === 1 ? 'Deposit USDC into the Hop L1 bridge' : `Swap ${fromToken.symbol} to hUSDC and send`,
+          chain: params.fromChain,
+          protocol: this.name,
+          estimatedTime: params.fromChain === 1 ? 0 : 1
+        },
+        {
+          step: 2,
+          action: params.fromChain === 1 ? 'Relay the deposit to the rollup' : 'Bonder fronts the withdrawal',
+          chain: 0,
+          protocol: this.name,
+          estimatedTime: estimatedTime - 1
+        },
+        { step: 3, action: `Receive ${toToken.symbol}`, chain: params.toChain, protocol: this.name, estimatedTime: 1 }
+      ],
+      confidence: 90,
+      gasEstimate: gasFee
+    }
+
+    return { quote, hopQuote, fromToken, amount }
+  }
+}
@@ -4,6 +4,19 @@
  */
 
 import { ethers } from 'ethers'
+import { findBestRoutePlan, HopQuote, PoolEdge, QuotedPath, RouterOptions } from './router'
+import { TransactionSimulator, SimulationResult } from './simulation'
+import {
+  PrivateRelay,
+  SandwichCheck,
+  MEV_PROTECTED_DEADLINE_MINUTES,
+  MEV_PROTECTED_SLIPPAGE_BPS,
+  detectSandwich,
+  getDefaultRelay,
+  submitBundle,
+  waitForBundle
+} from './mev-protection'
+import type { GasTier } from './gas-oracle'
 
 // Chain configurations
 export const SUPPORTED_CHAINS = {
@@ -48,18 +61,45 @@ export const DEX_CONFIGS = {
   },
   quickswap_v3: {
     name: 'QuickSwap V3',
-    chains: [137] as number[], // Polygon
+    chains: [137] as number[], // Polygon (Algebra)
     router: '0xf5b509bB0909a69B1c207E495f687a596C168E12',
     factory: '0x411b0fAcC3489691f28ad58c47006AF5E3Ab3A28',
     quoter: '0xa15F0D7377B2A0C0c10262E4ABB0B37C4B9d8e0C'
   }
 }
 
+// Constant-product (Uniswap V2 style) DEXs; fee in hundredths of a bip like V3 fee tiers
+export const V2_DEX_CONFIGS = {
+  sushiswap_v2: {
+    name: 'SushiSwap',
+    chains: [1] as number[], // Ethereum
+    router: '0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F',
+    factory: '0xC0AEe478e3658e2610c5F7A4A2E1777cE9e4f2Ac',
+    fee: 3000
+  },
+  pancakeswap_v2: {
+    name: 'PancakeSwap V2',
+    chains: [56] as number[], // BSC
+    router: '0x10ED43C718714eb63d5aA57B78B54704E256024E',
+    factory: '0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73',
+    fee: 2500
+  },
+  quickswap_v2: {
+    name: 'QuickSwap V2',
+    chains: [137] as number[], // Polygon
+    router: '0xa5E0829CaCEd8fFDD4De3c43696c57F7D7A678ff',
+    factory: '0x5757371414417b8C6CAad45bAeF941aBc7d3Ab32',
+    fee: 3000
+  }
+}
+
+export type V2DEXConfig = typeof V2_DEX_CONFIGS[keyof typeof V2_DEX_CONFIGS]
+
 // Common token addresses
 export const COMMON_TOKENS = {
   1: { // Ethereum
     WETH: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
-    USDC: '0xA0b86a33E6417c4c6b8c4c6b8c4c6b8c4c6b8c4c',
+    USDC: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
     USDT: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
     DAI: '0x6B175474E89094C44Da98b954EedeAC495271d0F'
   },
@@ -77,6 +117,23 @@ export const COMMON_TOKENS = {
   }
 } as const
 
+/**
+ * Intermediate tokens for multi-hop routing. COMMON_TOKENS only lists addresses;
+ * stablecoins have 6 decimals everywhere except BSC.
+ */
+export function getCommonTokens(chainId: number): Token[] {
+  const tokens: Record<string, string> | undefined = COMMON_TOKENS[chainId as keyof typeof COMMON_TOKENS]
+  if (!tokens) return []
+
+  return Object.entries(tokens).map(([symbol, address]) => ({
+    address,
+    symbol,
+    name: symbol,
+    decimals: chainId !== 56 && (symbol === 'USDC' || symbol === 'USDT') ? 6 : 18,
+    chainId
+  }))
+}
+
 export interface Token {
   address: string
   symbol: string
@@ -93,14 +150,77 @@ export interface TradeParams {
   slippageTolerance: number // in basis points (100 = 1%)
   deadline?: number // timestamp
   recipient?: string
+  approvalMode?: ApprovalMode // defaults to 'exact'
+  executionMode?: ExecutionMode // defaults to 'standard'
+  gasPreference?: GasTier // Fee tier the transactions are priced at; defaults to 'standard'
+}
+
+// 'exact' approves only amountIn per trade; 'unlimited' approves the maximum once per token
+export type ApprovalMode = 'exact' | 'unlimited'
+
+// 'mev_protected' swaps get a tight minimum from the simulated output and a short deadline,
+// and are sent through a private relay instead of the public mempool
+export type ExecutionMode = 'standard' | 'mev_protected'
+
+export interface RouteHop {
+  tokenIn: Token
+  tokenOut: Token
+  fee: number // pool fee in hundredths of a bip
+  amountIn: string
+  amountOut: string
+  priceImpact: number // percent
+}
+
+// One leg of a possibly split order, swapped along a multi-hop path
+export interface SwapRoute {
+  path: Token[]
+  fees: number[]
+  percentage: number // share of amountIn
+  amountIn: string
+  amountOut: string
+  priceImpact: number // percent
+  gasEstimate: string
+  hops: RouteHop[]
 }
 
 export interface QuoteResult {
   amountOut: string
   priceImpact: number
-  route: string[]
+  route: string[] // symbols along the largest route
   gasEstimate: string
   minimumAmountOut: string
+  routes: SwapRoute[]
+}
+
+// Route ready to be encoded into router calldata
+export interface EncodedSwapRoute {
+  path: string[] // token addresses
+  fees: number[]
+  amountIn: bigint
+  amountOutMinimum: bigint
+}
+
+// Unsigned transaction for the user's wallet to sign and broadcast
+export interface UnsignedTransaction {
+  to: string
+  data: string
+  value: string // wei
+  chainId: number
+  from: string
+  gasLimit: string
+  // Fees in wei from the gas oracle; left to the wallet when absent
+  maxFeePerGas?: string
+  maxPriorityFeePerGas?: string
+  gasPrice?: string // Legacy chains only
+}
+
+export interface TradeTransactions {
+  approval: UnsignedTransaction | null // Null when the router allowance already covers amountIn
+  swap: UnsignedTransaction
+  deadline: number // unix seconds
+  amountIn: string // base units
+  minimumAmountOut: string // base units
+  gasEstimate: string // approval + swap
 }
 
 export interface TradeResult {
@@ -110,11 +230,24 @@ export interface TradeResult {
   gasUsed: string
   effectivePrice: string
   priceImpact: number
+  executionMode: ExecutionMode
+  sandwich: SandwichCheck | null // Null when the fill's block could not be checked
 }
 
+const ERC20_APPROVE_ABI = [
+  'function approve(address spender, uint256 amount) external returns (bool)',
+  'function allowance(address owner, address spender) external view returns (uint256)'
+]
+
+const APPROVE_GAS_FALLBACK = 60000
+// Base transaction cost and token transfers on top of the quoter's tick-crossing estimate
+const SWAP_GAS_OVERHEAD = 100000
+
 export abstract class BaseDEX {
   protected provider: ethers.Provider
   protected chainId: number
+  // Pool existence by pool key; pools are never removed, so lookups are cached for the DEX's lifetime
+  private poolCache: Map<string, Promise<boolean>> = new Map()
   
   constructor(provider: ethers.Provider, chainId: number) {
     this.provider = provider
@@ -123,19 +256,336 @@ export abstract class BaseDEX {
 
   abstract getName(): string
   abstract isSupported(chainId: number): boolean
-  abstract getQuote(params: TradeParams): Promise<QuoteResult>
-  abstract executeTrade(params: TradeParams, signer: ethers.Signer): Promise<TradeResult>
+  protected abstract getRouterAddress(): string
+  protected abstract getFeeTiers(): number[]
+  protected abstract getPoolAddress(tokenA: string, tokenB: string, fee: number): Promise<string | null>
+  protected abstract quoteExactInputSingle(tokenIn: string, tokenOut: string, fee: number, amountIn: bigint): Promise<HopQuote>
+  protected abstract encodeSwap(routes: EncodedSwapRoute[], recipient: string, deadline: number): string
+
+  // Routers that cannot batch swaps override this to disable split routes
+  protected getRouterOptions(): RouterOptions {
+    return {}
+  }
+
+  /**
+   * Best multi-hop, possibly split, route through this DEX's pools between the trade tokens
+   * and the chain's common tokens.
+   */
+  async getQuote(params: TradeParams): Promise<QuoteResult> {
+    if (!this.isSupported(params.tokenIn.chainId)) {
+      throw new UnsupportedChainError(params.tokenIn.chainId, this.getName())
+    }
+
+    const { tokenIn, tokenOut } = params
+    const amountIn = ethers.parseUnits(params.amountIn, tokenIn.decimals)
+
+    const tokens = new Map<string, Token>()
+    const routingTokens = [tokenIn, tokenOut, ...getCommonTokens(this.chainId)]
+    routingTokens.forEach(token => {
+      if (!tokens.has(token.address.toLowerCase())) tokens.set(token.address.toLowerCase(), token)
+    })
+
+    const pools = await this.discoverPools(Array.from(tokens.keys()))
+    const plan = await findBestRoutePlan(
+      tokenIn.address,
+      tokenOut.address,
+      amountIn,
+      pools,
+      (hopIn, hopOut, fee, amount) => this.quoteExactInputSingle(hopIn, hopOut, fee, amount),
+      this.getRouterOptions()
+    )
+    if (!plan) {
+      throw new InsufficientLiquidityError(tokenIn.symbol, tokenOut.symbol)
+    }
+
+    const routes = plan.routes.map(route => this.toSwapRoute(route, tokens, amountIn, tokenIn, tokenOut))
+    const minimumAmountOut = this.applySlippage(plan.amountOut, params.slippageTolerance)
+
+    return {
+      amountOut: ethers.formatUnits(plan.amountOut, tokenOut.decimals),
+      priceImpact: plan.priceImpact,
+      route: routes[0].path.map(token => token.symbol),
+      gasEstimate: plan.gasEstimate.toString(),
+      minimumAmountOut: ethers.formatUnits(minimumAmountOut, tokenOut.decimals),
+      routes
+    }
+  }
+
+  /**
+   * Sign and send the trade with a wallet signer, approving the router first if needed.
+   * MEV-protected trades are re-encoded against the simulated output and go through the
+   * private relay, Flashbots by default on Ethereum.
+   */
+  async executeTrade(params: TradeParams, signer: ethers.Signer, relay?: PrivateRelay): Promise<TradeResult> {
+    try {
+      const executionMode = params.executionMode ?? 'standard'
+      const privateRelay = executionMode === 'mev_protected' ? relay ?? getDefaultRelay(this.chainId) : null
+      if (executionMode === 'mev_protected' && !privateRelay) {
+        throw new DEXError(`No private relay for chain ${this.chainId}`, 'RELAY_UNAVAILABLE')
+      }
+
+      const from = await signer.getAddress()
+      const quote = await this.getQuote(params)
+      const built = await this.buildTradeTransactions(params, from, quote)
+      const { approval } = built
+      let { swap } = built
+
+      if (approval) {
+        const approveTx = await signer.sendTransaction({ to: approval.to, data: approval.data, gasLimit: approval.gasLimit })
+        await approveTx.wait()
+      }
+
+      // Pre-flight the swap now that the router can spend amountIn
+      const simulation = await new TransactionSimulator(this.provider).simulate(swap, {
+        tokenIn: params.tokenIn,
+        tokenOut: params.tokenOut,
+        amountIn: ethers.parseUnits(params.amountIn, params.tokenIn.decimals),
+        expectedAmountOut: ethers.parseUnits(quote.amountOut, params.tokenOut.decimals),
+        slippageTolerance: params.slippageTolerance,
+        recipient: params.recipient || from
+      })
+      if (!simulation.safe) {
+        throw new SimulationFailedError(simulation)
+      }
+
+      let hash: string
+      let receipt: ethers.TransactionReceipt | null
+      if (privateRelay) {
+        swap = (await this.buildProtectedTradeTransactions(params, from, quote, simulation, built.deadline)).swap
+        receipt = await this.sendPrivately(swap, signer, privateRelay)
+        hash = receipt.hash
+      } else {
+        const tx = await signer.sendTransaction({ to: swap.to, data: swap.data, gasLimit: swap.gasLimit })
+        hash = tx.hash
+        receipt = await tx.wait()
+      }
+      if (!receipt || receipt.status !== 1) {
+        throw new DEXError(`Swap ${hash} reverted`, 'TRANSACTION_FAILED')
+      }
+
+      // Amount actually received, from the output token's Transfer events to the recipient
+      const recipient = (params.recipient || from).toLowerCase()
+      const transferTopic = ethers.id('Transfer(address,address,uint256)')
+      const received = receipt.logs
+        .filter(log =>
+          log.address.toLowerCase() === params.tokenOut.address.toLowerCase() &&
+          log.topics[0] === transferTopic &&
+          ethers.dataSlice(log.topics[2], 12).toLowerCase() === recipient)
+        .reduce((sum, log) => sum + BigInt(log.data), BigInt(0))
+      const actualAmountOut = received > BigInt(0) ? ethers.formatUnits(received, params.tokenOut.decimals) : quote.amountOut
+
+      return {
+        hash: receipt.hash,
+        amountIn: params.amountIn,
+        amountOut: actualAmountOut,
+        gasUsed: receipt.gasUsed.toString(),
+        effectivePrice: (parseFloat(params.amountIn) / parseFloat(actualAmountOut)).toString(),
+        priceImpact: quote.priceImpact,
+        executionMode,
+        sandwich: await detectSandwich(this.provider, receipt, from).catch(() => null)
+      }
+    } catch (error: unknown) {
+      throw new Error(`Trade execution failed: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  /**
+   * Approve and swap calldata for a trade, to be signed by `from` in the browser.
+   * The approval is only included when the router allowance is short of amountIn, and is for
+   * exactly amountIn unless the trade asks for an unlimited approval.
+   */
+  async buildTradeTransactions(params: TradeParams, from: string, quote: QuoteResult): Promise<TradeTransactions> {
+    if (!this.isSupported(params.tokenIn.chainId)) {
+      throw new UnsupportedChainError(params.tokenIn.chainId, this.getName())
+    }
+
+    const router = this.getRouterAddress()
+    const amountIn = ethers.parseUnits(params.amountIn, params.tokenIn.decimals)
+    const deadline = params.deadline || this.getDeadline(params.executionMode === 'mev_protected' ? MEV_PROTECTED_DEADLINE_MINUTES : undefined)
+    const recipient = params.recipient || from
+
+    // Slippage is applied per route so each leg of a split order is protected on its own
+    const routes: EncodedSwapRoute[] = quote.routes.map(route => ({
+      path: route.path.map(token => token.address),
+      fees: route.fees,
+      amountIn: ethers.parseUnits(route.amountIn, params.tokenIn.decimals),
+      amountOutMinimum: this.applySlippage(ethers.parseUnits(route.amountOut, params.tokenOut.decimals), params.slippageTolerance)
+    }))
+    if (routes.length === 0 || routes.reduce((sum, route) => sum + route.amountIn, BigInt(0)) !== amountIn) {
+      throw new DEXError('Quote routes do not add up to amountIn', 'INVALID_QUOTE')
+    }
+    const amountOutMinimum = routes.reduce((sum, route) => sum + route.amountOutMinimum, BigInt(0))
+
+    const token = new ethers.Contract(params.tokenIn.address, ERC20_APPROVE_ABI, this.provider)
+    const allowance: bigint = await token.allowance(from, router)
+
+    let approval: UnsignedTransaction | null = null
+    if (allowance < amountIn) {
+      const approveAmount = params.approvalMode === 'unlimited' ? ethers.MaxUint256 : amountIn
+      const data = token.interface.encodeFunctionData('approve', [router, approveAmount])
+      approval = {
+        to: params.tokenIn.address,
+        data,
+        value: '0',
+        chainId: this.chainId,
+        from,
+        gasLimit: (await this.estimateGasLimit({ from, to: params.tokenIn.address, data }, BigInt(APPROVE_GAS_FALLBACK))).toString()
+      }
+    }
+
+    const data = this.encodeSwap(routes, recipient, deadline)
+    // The swap cannot be simulated until the approval has been mined, so fall back to the quoter's estimate
+    const swapGas = approval
+      ? BigInt(quote.gasEstimate) + BigInt(SWAP_GAS_OVERHEAD)
+      : await this.estimateGasLimit({ from, to: router, data }, BigInt(quote.gasEstimate) + BigInt(SWAP_GAS_OVERHEAD))
+
+    return {
+      approval,
+      swap: { to: router, data, value: '0', chainId: this.chainId, from, gasLimit: swapGas.toString() },
+      deadline,
+      amountIn: amountIn.toString(),
+      minimumAmountOut: amountOutMinimum.toString(),
+      gasEstimate: (swapGas + BigInt(approval?.gasLimit ?? 0)).toString()
+    }
+  }
+
+  /**
+   * Transactions re-encoded for a private relay once the swap has been simulated: the minimum
+   * follows the simulated output with at most MEV_PROTECTED_SLIPPAGE_BPS of slippage, and the
+   * deadline stays that of the transactions they replace.
+   */
+  async buildProtectedTradeTransactions(
+    params: TradeParams,
+    from: string,
+    quote: QuoteResult,
+    simulation: SimulationResult,
+    deadline: number
+  ): Promise<TradeTransactions> {
+    const protectedParams = {
+      ...params,
+      slippageTolerance: Math.min(params.slippageTolerance, MEV_PROTECTED_SLIPPAGE_BPS),
+      deadline
+    }
+    return this.buildTradeTransactions(protectedParams, from, this.toSimulatedQuote(quote, simulation, params.tokenOut))
+  }
+
+  /**
+   * Fee tier of the direct pool that returns the most tokenB for amountIn of tokenA
+   */
+  async getBestFeeTier(tokenA: string, tokenB: string, amountIn: bigint = ethers.parseUnits('1', 18)): Promise<number> {
+    const pools = await this.discoverPools([tokenA, tokenB])
+
+    let best: { fee: number; amountOut: bigint } | null = null
+    for (const pool of pools) {
+      try {
+        const quote = await this.quoteExactInputSingle(tokenA, tokenB, pool.fee, amountIn)
+        if (!best || quote.amountOut > best.amountOut) {
+          best = { fee: quote.fee ?? pool.fee, amountOut: quote.amountOut }
+        }
+      } catch {
+        continue
+      }
+    }
+
+    if (!best) {
+      throw new InsufficientLiquidityError(tokenA, tokenB)
+    }
+    return best.fee
+  }
+
+  /**
+   * Pools between every pair of the given tokens, across all fee tiers
+   */
+  protected async discoverPools(tokens: string[]): Promise<PoolEdge[]> {
+    const lookups: Promise<PoolEdge | null>[] = []
+
+    tokens.forEach((tokenA, i) => tokens.slice(i + 1).forEach(tokenB => this.getFeeTiers().forEach(fee => {
+      const [a, b] = [tokenA.toLowerCase(), tokenB.toLowerCase()].sort()
+      const key = `${a}:${b}:${fee}`
+      if (!this.poolCache.has(key)) {
+        const lookup: Promise<boolean> = this.getPoolAddress(tokenA, tokenB, fee).then(pool => pool !== null, () => {
+          // A failed RPC call says nothing about the pool, so it is looked up again next time
+          if (this.poolCache.get(key) === lookup) this.poolCache.delete(key)
+          return false
+        })
+        this.poolCache.set(key, lookup)
+      }
+      lookups.push(this.poolCache.get(key)!.then(exists => (exists ? { tokenA, tokenB, fee } : null)))
+    })))
+
+    return (await Promise.all(lookups)).filter((pool): pool is PoolEdge => pool !== null)
+  }
+
+  // Node estimate plus 20% headroom, or the fallback when the call reverts
+  protected async estimateGasLimit(tx: { from: string; to: string; data: string }, fallback: bigint): Promise<bigint> {
+    try {
+      const estimate = await this.provider.estimateGas(tx)
+      return estimate * BigInt(120) / BigInt(100)
+    } catch {
+      return fallback
+    }
+  }
   
-  protected calculateMinimumAmountOut(amountOut: string, slippageTolerance: number): string {
-    const amount = ethers.parseUnits(amountOut, 18)
-    const slippage = BigInt(slippageTolerance)
-    const minAmount = amount * (BigInt(10000) - slippage) / BigInt(10000)
-    return ethers.formatUnits(minAmount, 18)
+  protected applySlippage(amountOut: bigint, slippageTolerance: number): bigint {
+    return amountOut * (BigInt(10000) - BigInt(slippageTolerance)) / BigInt(10000)
   }
   
   protected getDeadline(minutes: number = 20): number {
     return Math.floor(Date.now() / 1000) + (minutes * 60)
   }
+
+  // Quote rescaled to the output the simulation actually delivered, so a tight minimum does not revert
+  private toSimulatedQuote(quote: QuoteResult, simulation: SimulationResult, tokenOut: Token): QuoteResult {
+    const quoted = ethers.parseUnits(quote.amountOut, tokenOut.decimals)
+    if (simulation.amountOut === null || quoted === BigInt(0)) return quote
+
+    const simulated = BigInt(simulation.amountOut)
+    const scale = (amount: string) => ethers.formatUnits(ethers.parseUnits(amount, tokenOut.decimals) * simulated / quoted, tokenOut.decimals)
+    return {
+      ...quote,
+      amountOut: ethers.formatUnits(simulated, tokenOut.decimals),
+      routes: quote.routes.map(route => ({ ...route, amountOut: scale(route.amountOut) }))
+    }
+  }
+
+  private async sendPrivately(swap: UnsignedTransaction, signer: ethers.Signer, relay: PrivateRelay): Promise<ethers.TransactionReceipt> {
+    // Signed without broadcasting, so nothing downstream fills in the nonce or fees
+    const fees = await this.provider.getFeeData()
+    const populated = await signer.populateTransaction({
+      to: swap.to,
+      data: swap.data,
+      gasLimit: swap.gasLimit,
+      chainId: this.chainId,
+      nonce: await signer.getNonce('pending'),
+      ...(fees.maxFeePerGas
+        ? { maxFeePerGas: fees.maxFeePerGas, maxPriorityFeePerGas: fees.maxPriorityFeePerGas }
+        : { gasPrice: fees.gasPrice })
+    })
+    const signed = await signer.signTransaction(populated)
+    const submission = await submitBundle(relay, [signed], await this.provider.getBlockNumber())
+    return waitForBundle(this.provider, relay, submission)
+  }
+
+  private toSwapRoute(route: QuotedPath, tokens: Map<string, Token>, totalIn: bigint, tokenIn: Token, tokenOut: Token): SwapRoute {
+    const token = (address: string) => tokens.get(address.toLowerCase())!
+    return {
+      path: route.tokens.map(token),
+      fees: route.fees,
+      percentage: Number(route.amountIn * BigInt(10000) / totalIn) / 100,
+      amountIn: ethers.formatUnits(route.amountIn, tokenIn.decimals),
+      amountOut: ethers.formatUnits(route.amountOut, tokenOut.decimals),
+      priceImpact: route.priceImpact,
+      gasEstimate: route.gasEstimate.toString(),
+      hops: route.hops.map(hop => ({
+        tokenIn: token(hop.tokenIn),
+        tokenOut: token(hop.tokenOut),
+        fee: hop.fee,
+        amountIn: ethers.formatUnits(hop.amountIn, token(hop.tokenIn).decimals),
+        amountOut: ethers.formatUnits(hop.amountOut, token(hop.tokenOut).decimals),
+        priceImpact: hop.priceImpact
+      }))
+    }
+  }
 }
 
 // Error types
@@ -158,6 +608,13 @@ export class SlippageExceededError extends DEXError {
   }
 }
 
+export class SimulationFailedError extends DEXError {
+  constructor(simulation: SimulationResult) {
+    const reasons = simulation.warnings.filter(warning => warning.severity === 'critical').map(warning => warning.message)
+    super(`Simulation failed: ${reasons.join('; ')}`, 'SIMULATION_FAILED', simulation)
+  }
+}
+
 export class UnsupportedChainError extends DEXError {
   constructor(chainId: number, dexName: string) {
     super(`Chain ${chainId} not supported by ${dexName}`, 'UNSUPPORTED_CHAIN')
@@ -0,0 +1,191 @@
+/**
+ * MEV Protection
+ * Private submission of signed swaps through a bundle relay, so they never sit in the public
+ * mempool, and after-the-fact detection of sandwiched fills
+ */
+
+import { ethers } from 'ethers'
+import { DEXError } from './index'
+
+// Protected swaps accept at most this much below the simulated output
+export const MEV_PROTECTED_SLIPPAGE_BPS = 10
+// and expire quickly, so a bundle that misses its blocks cannot be filled later at a stale price
+export const MEV_PROTECTED_DEADLINE_MINUTES = 2
+// Consecutive blocks a bundle is offered for
+export const MEV_BUNDLE_BLOCKS = 5
+const BUNDLE_POLL_INTERVAL_MS = 2000
+
+export interface BundleSubmission {
+  bundleHash: string | null // Null when the relay does not identify bundles
+  transactionHashes: string[]
+  targetBlocks: number[]
+}
+
+/**
+ * Relay that takes signed transactions privately instead of through the public mempool
+ */
+export interface PrivateRelay {
+  name: string
+  sendBundle(signedTransactions: string[], targetBlock: number): Promise<BundleSubmission>
+}
+
+/**
+ * Flashbots-style relay speaking eth_sendBundle. Requests are signed with a throwaway
+ * auth key that only identifies the searcher to the relay; it holds no funds.
+ */
+export class FlashbotsRelay implements PrivateRelay {
+  name = 'Flashbots'
+  private authSigner: ethers.Wallet
+
+  constructor(
+    private relayUrl: string = process.env.FLASHBOTS_RELAY_URL || 'https://relay.flashbots.net',
+    authKey: string | undefined = process.env.FLASHBOTS_AUTH_KEY
+  ) {
+    this.authSigner = new ethers.Wallet(authKey || ethers.hexlify(ethers.randomBytes(32)))
+  }
+
+  async sendBundle(signedTransactions: string[], targetBlock: number): Promise<BundleSubmission> {
+    const body = JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'eth_sendBundle',
+      params: [{ txs: signedTransactions, blockNumber: ethers.toQuantity(targetBlock) }]
+    })
+    const signature = await this.authSigner.signMessage(ethers.id(body))
+
+    const response = await fetch(this.relayUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Flashbots-Signature': `${this.authSigner.address}:${signature}`
+      },
+      body
+    })
+    if (!response.ok) {
+      throw new DEXError(`${this.name} relay responded with ${response.status}`, 'RELAY_ERROR')
+    }
+
+    const result = await response.json()
+    if (result.error) {
+      throw new DEXError(`${this.name} relay rejected the bundle: ${result.error.message}`, 'RELAY_ERROR', result.error)
+    }
+
+    return {
+      bundleHash: result.result?.bundleHash ?? null,
+      transactionHashes: signedTransactions.map(tx => ethers.keccak256(tx)),
+      targetBlocks: [targetBlock]
+    }
+  }
+}
+
+/**
+ * Stand-in relay for local nodes and tests: broadcasts the bundle's transactions straight
+ * to the node, which includes them in its next block. Offers of the same bundle for later
+ * blocks are no-ops.
+ */
+export class LocalRelay implements PrivateRelay {
+  name = 'Local'
+  private broadcast = new Set<string>()
+
+  constructor(private provider: ethers.Provider) {}
+
+  async sendBundle(signedTransactions: string[], targetBlock: number): Promise<BundleSubmission> {
+    const transactionHashes = signedTransactions.map(tx => ethers.keccak256(tx))
+    for (const [i, signed] of signedTransactions.entries()) {
+      if (this.broadcast.has(transactionHashes[i])) continue
+      this.broadcast.add(transactionHashes[i])
+      await this.provider.broadcastTransaction(signed)
+    }
+    return { bundleHash: null, transactionHashes, targetBlocks: [targetBlock] }
+  }
+}
+
+// Flashbots only builds blocks on Ethereum; other chains need a relay passed in explicitly
+export function getDefaultRelay(chainId: number): PrivateRelay | null {
+  return chainId === 1 ? new FlashbotsRelay() : null
+}
+
+/**
+ * Offer the bundle for the next MEV_BUNDLE_BLOCKS blocks. Every block gets the same
+ * transactions, so at most one of the submissions can land.
+ */
+export async function submitBundle(relay: PrivateRelay, signedTransactions: string[], currentBlock: number): Promise<BundleSubmission> {
+  const targetBlocks = Array.from({ length: MEV_BUNDLE_BLOCKS }, (_, i) => currentBlock + 1 + i)
+  const submissions = await Promise.all(targetBlocks.map(block => relay.sendBundle(signedTransactions, block)))
+
+  return {
+    bundleHash: submissions[0].bundleHash,
+    transactionHashes: submissions[0].transactionHashes,
+    targetBlocks
+  }
+}
+
+/**
+ * Receipt of the bundle's first transaction. The relay drops a bundle once its last target
+ * block has passed, so a missing receipt by then means it will never land.
+ */
+export async function waitForBundle(provider: ethers.Provider, relay: PrivateRelay, submission: BundleSubmission): Promise<ethers.TransactionReceipt> {
+  const [hash] = submission.transactionHashes
+  const lastBlock = submission.targetBlocks[submission.targetBlocks.length - 1]
+
+  for (;;) {
+    const receipt = await provider.getTransactionReceipt(hash)
+    if (receipt) return receipt
+    if (await provider.getBlockNumber() > lastBlock) {
+      throw new DEXError(`${relay.name} bundle was not included by block ${lastBlock}`, 'BUNDLE_NOT_INCLUDED', submission)
+    }
+    await new Promise(resolve => setTimeout(resolve, BUNDLE_POLL_INTERVAL_MS))
+  }
+}
+
+export interface SandwichCheck {
+  sandwiched: boolean
+  frontrunHash: string | null
+  backrunHash: string | null
+}
+
+/**
+ * A fill is sandwiched when the transactions right before and after it in the block come
+ * from the same other sender and both trade against a pool the fill traded against
+ */
+export async function detectSandwich(provider: ethers.Provider, receipt: ethers.TransactionReceipt, wallet: string): Promise<SandwichCheck> {
+  const clean: SandwichCheck = { sandwiched: false, frontrunHash: null, backrunHash: null }
+
+  const pools = swapCounterparties(receipt, wallet)
+  const block = await provider.getBlock(receipt.blockNumber)
+  if (!block || pools.size === 0 || receipt.index === 0 || receipt.index >= block.transactions.length - 1) {
+    return clean
+  }
+
+  const [before, after] = await Promise.all([
+    provider.getTransactionReceipt(block.transactions[receipt.index - 1]),
+    provider.getTransactionReceipt(block.transactions[receipt.index + 1])
+  ])
+  if (!before || !after) return clean
+
+  const attacker = before.from.toLowerCase()
+  // Pools emit Swap/Sync events and are the other side of the traded tokens' transfers
+  const touchesPool = (neighbour: ethers.TransactionReceipt) =>
+    neighbour.logs.some(log => pools.has(log.address.toLowerCase())) ||
+    Array.from(swapCounterparties(neighbour, neighbour.from)).some(pool => pools.has(pool))
+
+  if (attacker !== after.from.toLowerCase() || attacker === wallet.toLowerCase() || !touchesPool(before) || !touchesPool(after)) {
+    return clean
+  }
+  return { sandwiched: true, frontrunHash: before.hash, backrunHash: after.hash }
+}
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)')
+
+// Addresses the swap exchanged tokens with, other than the sender and the router it called
+function swapCounterparties(receipt: ethers.TransactionReceipt, wallet: string): Set<string> {
+  const own = new Set([wallet.toLowerCase(), receipt.from.toLowerCase(), (receipt.to ?? '').toLowerCase(), ethers.ZeroAddress])
+  const counterparties = new Set<string>()
+  receipt.logs
+    .filter(log => log.topics[0] === TRANSFER_TOPIC && log.topics.length === 3)
+    .forEach(log => [log.topics[1], log.topics[2]].forEach(topic => {
+      const address = ethers.dataSlice(topic, 12).toLowerCase()
+      if (!own.has(address)) counterparties.add(address)
+    }))
+  return counterparties
+}
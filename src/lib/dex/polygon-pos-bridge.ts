@@ -0,0 +1,146 @@
+/**
+ * Polygon PoS Bridge Adapter
+ * Deposits from Ethereum through the RootChainManager, delivered on Polygon by state sync.
+ * Withdrawals need a checkpoint and an exit proof submitted on Ethereum, so only the
+ * Ethereum to Polygon direction is offered.
+ */
+
+import { ethers } from 'ethers'
+import { DEXError } from './index'
+import { BaseBridge, BRIDGE_TOKENS, BridgeAssets, BridgeDelivery, BridgeDeposit } from './bridge-base'
+import type { BridgeParams, BridgeQuote } from './bridge-aggregator'
+
+const ROOT_CHAIN_MANAGER = '0xA0c68C638235ee32657e8f720a23ceC1bFc77C77'
+// Holds deposited ERC20s, so it is the spender rather than the RootChainManager
+const ERC20_PREDICATE = '0x40ec5B33f54e0E8A33A975908C5BA1c14e5BbbDf'
+const STATE_SENDER = '0x28e4F3a7f651294B9564800b2D01f35189A5bFbE'
+// System contract on Polygon that commits synced state
+const STATE_RECEIVER = '0x0000000000000000000000000000000000001001'
+
+const ROOT_CHAIN_MANAGER_ABI = [
+  'function depositFor(address user, address rootToken, bytes depositData)',
+  'function rootToChildToken(address rootToken) view returns (address)'
+]
+const STATE_SYNC_ABI = [
+  'event StateSynced(uint256 indexed id, address indexed contractAddress, bytes data)',
+  'event StateCommitted(uint256 indexed stateId, bool success)',
+  'function lastStateId() view returns (uint256)'
+]
+const rootChainManagerInterface = new ethers.Interface(ROOT_CHAIN_MANAGER_ABI)
+const stateSyncInterface = new ethers.Interface(STATE_SYNC_ABI)
+
+const DEPOSIT_GAS_FALLBACK = 200000
+// Validators sync Ethereum state to Polygon roughly every 20-30 minutes
+const STATE_SYNC_MINUTES = 25
+
+export class PolygonPoSBridge extends BaseBridge {
+  id = 'polygonpos'
+  name = 'Polygon PoS Bridge'
+  website = 'https://portal.polygon.technology/bridge'
+  supportedChains = [1, 137]
+  protected assets: BridgeAssets = {
+    USDC: { 1: BRIDGE_TOKENS.USDC[1], 137: BRIDGE_TOKENS.USDCe[137] },
+    USDT: { 1: BRIDGE_TOKENS.USDT[1], 137: BRIDGE_TOKENS.USDT[137] },
+    DAI: BRIDGE_TOKENS.DAI
+  }
+  protected depositGasFallback = DEPOSIT_GAS_FALLBACK
+
+  supportsRoute(fromChain: number, toChain: number): boolean {
+    return fromChain === 1 && toChain === 137
+  }
+
+  /**
+   * The bridge charges nothing and mints exactly the deposit on Polygon. The quote checks the
+   * RootChainManager's token mapping, so a token the bridge would not mint as expected is
+   * rejected before anything is signed.
+   */
+  async getQuote(params: BridgeParams): Promise<BridgeQuote> {
+    if (!this.supportsRoute(params.fromChain, params.toChain)) {
+      throw new DEXError('The Polygon PoS bridge only deposits from Ethereum to Polygon', 'UNSUPPORTED_ROUTE')
+    }
+    const { fromToken, toToken } = this.resolveTokens(params)
+
+    const manager = new ethers.Contract(ROOT_CHAIN_MANAGER, ROOT_CHAIN_MANAGER_ABI, this.requireProvider(params.fromChain))
+    const childToken: string = await manager.rootToChildToken(fromToken.address)
+    if (childToken.toLowerCase() !== toToken.address.toLowerCase()) {
+      throw new DEXError(`${fromToken.symbol} is mapped to ${childToken} on Polygon, not ${toToken.address}`, 'UNSUPPORTED_BRIDGE_TOKEN')
+    }
+
+    const gasFee = await this.estimateGasCost(params.fromChain, DEPOSIT_GAS_FALLBACK)
+    return {
+      provider: this.name,
+      fromAmount: params.amount,
+      toAmount: params.amount,
+      toToken: toToken.address,
+      estimatedTime: STATE_SYNC_MINUTES,
+      fees: {
+        bridgeFee: '0',
+        gasFee,
+        totalFeeUSD: '0'
+      },
+      route: [
+        { step: 1, action: `Lock ${fromToken.symbol} in the ERC20 predicate`, chain: params.fromChain, protocol: this.name, estimatedTime: 1 },
+        { step: 2, action: 'State sync to Polygon', chain: 0, protocol: this.name, estimatedTime: STATE_SYNC_MINUTES - 1 },
+        { step: 3, action: `Mint ${toToken.symbol} to the recipient`, chain: params.toChain, protocol: this.name, estimatedTime: 0 }
+      ],
+      confidence: 99,
+      gasEstimate: gasFee
+    }
+  }
+
+  protected async buildDeposit(params: BridgeParams): Promise<BridgeDeposit> {
+    const quote = await this.getQuote(params)
+    const { fromToken } = this.resolveTokens(params)
+    const amount = ethers.parseUnits(params.amount, fromToken.decimals)
+
+    return {
+      quote,
+      token: fromToken,
+      amount,
+      spender: ERC20_PREDICATE,
+      to: ROOT_CHAIN_MANAGER,
+      data: rootChainManagerInterface.encodeFunctionData('depositFor', [
+        params.recipient,
+        fromToken.address,
+        ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [amount])
+      ]),
+      value: BigInt(0)
+    }
+  }
+
+  /**
+   * The deposit's StateSynced ID is delivered once Polygon's StateReceiver has committed that
+   * ID, which it reports in a StateCommitted event along with whether the mint succeeded
+   */
+  protected async findDelivery(receipt: ethers.TransactionReceipt, fromChain: number, toChain: number): Promise<BridgeDelivery> {
+    const synced = receipt.logs
+      .filter(log => log.address.toLowerCase() === STATE_SENDER.toLowerCase())
+      .map(log => stateSyncInterface.parseLog(log))
+      .find(parsed => parsed?.name === 'StateSynced')
+    if (!synced) {
+      throw new DEXError(`${receipt.hash} is not a Polygon PoS deposit`, 'INVALID_TRACKING_ID')
+    }
+    const stateId: bigint = synced.args.id
+
+    const receiver = new ethers.Contract(STATE_RECEIVER, STATE_SYNC_ABI, this.requireProvider(toChain))
+    const lastStateId: bigint = await receiver.lastStateId()
+    if (lastStateId < stateId) {
+      return { status: 'pending' }
+    }
+
+    const committed = await this.findDestinationLog(
+      toChain,
+      { address: STATE_RECEIVER, topics: [stateSyncInterface.getEvent('StateCommitted')!.topicHash, ethers.toBeHex(stateId, 32)] },
+      await this.getTimestamp(fromChain, receipt.blockNumber)
+    )
+    if (!committed) {
+      return { status: 'completed' }
+    }
+    const success: boolean = stateSyncInterface.parseLog(committed)!.args.success
+    return { status: success ? 'completed' : 'failed', toTxHash: committed.transactionHash }
+  }
+
+  protected transferMinutes(): number {
+    return STATE_SYNC_MINUTES
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * QuickSwap V3 DEX Implementation
+ * QuickSwap V3 runs on Algebra: one pool per pair with a dynamic fee, so there are no fee tiers
+ * and swap paths are packed token addresses only
+ */
+
+import { ethers } from 'ethers'
+import { BaseDEX, EncodedSwapRoute, DEX_CONFIGS } from './index'
+import { HopQuote } from './router'
+
+// Algebra Swap Router ABI (minimal)
+const ALGEBRA_ROUTER_ABI = [
+  'function exactInput((bytes path, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum)) external payable returns (uint256 amountOut)',
+  'function multicall(bytes[] calldata data) external payable returns (bytes[] memory results)'
+]
+
+// Algebra Quoter ABI (minimal)
+const ALGEBRA_QUOTER_ABI = [
+  'function quoteExactInputSingle(address tokenIn, address tokenOut, uint256 amountIn, uint160 limitSqrtPrice) external returns (uint256 amountOut, uint16 fee)'
+]
+
+// Algebra Factory ABI (minimal)
+const ALGEBRA_FACTORY_ABI = [
+  'function poolByPair(address tokenA, address tokenB) external view returns (address pool)'
+]
+
+// Placeholder fee tier for the single pool of each pair
+const DYNAMIC_FEE = 0
+// The Algebra quoter does not report gas, so each hop is estimated from typical swaps
+const HOP_GAS_ESTIMATE = 120000
+
+export class QuickSwapV3DEX extends BaseDEX {
+  private config = DEX_CONFIGS.quickswap_v3
+
+  getName(): string {
+    return this.config.name
+  }
+
+  isSupported(chainId: number): boolean {
+    return this.config.chains.includes(chainId)
+  }
+
+  protected getRouterAddress(): string {
+    return this.config.router
+  }
+
+  protected getFeeTiers(): number[] {
+    return [DYNAMIC_FEE]
+  }
+
+  protected async getPoolAddress(tokenA: string, tokenB: string): Promise<string | null> {
+    const factory = new ethers.Contract(this.config.factory, ALGEBRA_FACTORY_ABI, this.provider)
+    const pool: string = await factory.poolByPair(tokenA, tokenB)
+    return pool === ethers.ZeroAddress ? null : pool
+  }
+
+  protected async quoteExactInputSingle(tokenIn: string, tokenOut: string, _fee: number, amountIn: bigint): Promise<HopQuote> {
+    const quoter = new ethers.Contract(
+      this.config.quoter,
+      ALGEBRA_QUOTER_ABI,
+      this.provider
+    )
+
+    const [amountOut, fee] = await quoter.quoteExactInputSingle.staticCall(
+      tokenIn,
+      tokenOut,
+      amountIn,
+      0 // limitSqrtPrice = 0 (no limit)
+    )
+
+    return { amountOut, gasEstimate: BigInt(HOP_GAS_ESTIMATE), fee: Number(fee) }
+  }
+
+  // One exactInput per route; split orders are batched in a multicall
+  protected encodeSwap(routes: EncodedSwapRoute[], recipient: string, deadline: number): string {
+    const router = new ethers.Interface(ALGEBRA_ROUTER_ABI)
+    const swaps = routes.map(route => router.encodeFunctionData('exactInput', [{
+      path: ethers.solidityPacked(route.path.map(() => 'address'), route.path),
+      recipient,
+      deadline,
+      amountIn: route.amountIn,
+      amountOutMinimum: route.amountOutMinimum
+    }]))
+
+    return swaps.length === 1 ? swaps[0] : router.encodeFunctionData('multicall', [swaps])
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * DEX Route Finder
+ * Searches multi-hop paths through a pool graph and splits an order across pool-disjoint paths
+ * to reduce price impact. Quoting is injected, so the search itself needs no provider.
+ */
+
+import { ethers } from 'ethers'
+
+export interface PoolEdge {
+  tokenA: string
+  tokenB: string
+  fee: number
+}
+
+export interface CandidatePath {
+  tokens: string[] // tokenIn ... tokenOut
+  fees: number[] // fees[i] is the pool between tokens[i] and tokens[i + 1]
+}
+
+export interface HopQuote {
+  amountOut: bigint
+  gasEstimate: bigint
+  fee?: number // Fee actually charged, for pools with a dynamic fee
+}
+
+export type HopQuoter = (tokenIn: string, tokenOut: string, fee: number, amountIn: bigint) => Promise<HopQuote>
+
+export interface QuotedHop {
+  tokenIn: string
+  tokenOut: string
+  fee: number
+  amountIn: bigint
+  amountOut: bigint
+  priceImpact: number // percent
+}
+
+export interface QuotedPath extends CandidatePath {
+  amountIn: bigint
+  amountOut: bigint
+  gasEstimate: bigint
+  hops: QuotedHop[]
+  priceImpact: number // percent
+}
+
+export interface RoutePlan {
+  routes: QuotedPath[] // Best route first
+  amountIn: bigint
+  amountOut: bigint
+  gasEstimate: bigint
+  priceImpact: number // percent
+}
+
+export interface RouterOptions {
+  maxHops?: number
+  maxSplits?: number
+  splitSteps?: number // Order is split in 1/splitSteps increments
+  maxCandidates?: number
+}
+
+const DEFAULT_OPTIONS: Required<RouterOptions> = {
+  maxHops: 3,
+  maxSplits: 3,
+  splitSteps: 10,
+  maxCandidates: 24
+}
+
+// Price impact is measured against a quote for this fraction of the hop input
+const REFERENCE_DIVISOR = BigInt(1000)
+
+function poolKey(tokenA: string, tokenB: string, fee: number): string {
+  const [a, b] = [tokenA.toLowerCase(), tokenB.toLowerCase()].sort()
+  return `${a}:${b}:${fee}`
+}
+
+/**
+ * Uniswap V3 style packed path: token, fee (uint24), token, ...
+ */
+export function encodeV3Path(tokens: string[], fees: number[]): string {
+  if (tokens.length !== fees.length + 1) {
+    throw new Error('Path needs exactly one fee between each pair of tokens')
+  }
+  const types: string[] = []
+  const values: (string | number)[] = []
+  tokens.forEach((token, index) => {
+    types.push('address')
+    values.push(token)
+    if (index < fees.length) {
+      types.push('uint24')
+      values.push(fees[index])
+    }
+  })
+  return ethers.solidityPacked(types, values)
+}
+
+/**
+ * All simple paths of 1 to maxHops pools from tokenIn to tokenOut, shortest first
+ */
+export function findPaths(tokenIn: string, tokenOut: string, pools: PoolEdge[], maxHops: number = DEFAULT_OPTIONS.maxHops): CandidatePath[] {
+  const adjacency = new Map<string, { token: string; fee: number }[]>()
+  const addEdge = (from: string, to: string, fee: number) => {
+    const edges = adjacency.get(from) ?? []
+    edges.push({ token: to, fee })
+    adjacency.set(from, edges)
+  }
+  const seen = new Set<string>()
+  pools.forEach(({ tokenA, tokenB, fee }) => {
+    const key = poolKey(tokenA, tokenB, fee)
+    if (seen.has(key)) return
+    seen.add(key)
+    addEdge(tokenA.toLowerCase(), tokenB.toLowerCase(), fee)
+    addEdge(tokenB.toLowerCase(), tokenA.toLowerCase(), fee)
+  })
+
+  const target = tokenOut.toLowerCase()
+  const paths: CandidatePath[] = []
+  const walk = (tokens: string[], fees: number[]) => {
+    const current = tokens[tokens.length - 1]
+    if (current === target) {
+      paths.push({ tokens: [...tokens], fees: [...fees] })
+      return
+    }
+    if (fees.length === maxHops) return
+    const edges = adjacency.get(current) ?? []
+    edges.forEach(edge => {
+      if (tokens.includes(edge.token)) return
+      walk([...tokens, edge.token], [...fees, edge.fee])
+    })
+  }
+  walk([tokenIn.toLowerCase()], [])
+
+  return paths.sort((a, b) => a.fees.length - b.fees.length)
+}
+
+/**
+ * Quotes a path hop by hop, so every intermediate amount is known. With measureImpact each hop is
+ * also quoted at a small reference amount to estimate its price impact.
+ */
+export async function quotePath(path: CandidatePath, amountIn: bigint, quoteHop: HopQuoter, measureImpact: boolean = false): Promise<QuotedPath> {
+  const hops: QuotedHop[] = []
+  let amount = amountIn
+  let gasEstimate = BigInt(0)
+  let retained = 1
+
+  for (let i = 0; i < path.fees.length; i++) {
+    const [tokenIn, tokenOut, fee] = [path.tokens[i], path.tokens[i + 1], path.fees[i]]
+    const quote = await quoteHop(tokenIn, tokenOut, fee, amount)
+
+    let priceImpact = 0
+    const referenceIn = amount / REFERENCE_DIVISOR
+    if (measureImpact && referenceIn > BigInt(0) && quote.amountOut > BigInt(0)) {
+      const reference = await quoteHop(tokenIn, tokenOut, fee, referenceIn)
+      if (reference.amountOut > BigInt(0)) {
+        const rate = Number(quote.amountOut) / Number(amount)
+        const spotRate = Number(reference.amountOut) / Number(referenceIn)
+        priceImpact = Math.min(100, Math.max(0, (1 - rate / spotRate) * 100))
+      }
+    }
+
+    hops.push({ tokenIn, tokenOut, fee: quote.fee ?? fee, amountIn: amount, amountOut: quote.amountOut, priceImpact })
+    retained *= 1 - priceImpact / 100
+    gasEstimate += quote.gasEstimate
+    amount = quote.amountOut
+  }
+
+  return {
+    ...path,
+    amountIn,
+    amountOut: amount,
+    gasEstimate,
+    hops,
+    priceImpact: (1 - retained) * 100
+  }
+}
+
+/**
+ * Best way to route amountIn: every candidate path is quoted for the full amount, the best
+ * pool-disjoint paths are kept, and the order is handed out in increments to whichever path
+ * adds the most output for the next increment. Returns null when no path can be quoted.
+ */
+export async function findBestRoutePlan(
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: bigint,
+  pools: PoolEdge[],
+  quoteHop: HopQuoter,
+  options: RouterOptions = {}
+): Promise<RoutePlan | null> {
+  const { maxHops, maxSplits, splitSteps, maxCandidates } = { ...DEFAULT_OPTIONS, ...options }
+
+  // Identical hop quotes recur across paths and split increments
+  const cache = new Map<string, Promise<HopQuote>>()
+  const cachedQuoteHop: HopQuoter = (hopIn, hopOut, fee, amount) => {
+    const key = `${poolKey(hopIn, hopOut, fee)}:${hopIn}:${amount}`
+    if (!cache.has(key)) {
+      cache.set(key, quoteHop(hopIn, hopOut, fee, amount))
+    }
+    return cache.get(key)!
+  }
+  const tryQuote = (path: CandidatePath, amount: bigint) =>
+    quotePath(path, amount, cachedQuoteHop).catch(() => null)
+
+  const candidates = findPaths(tokenIn, tokenOut, pools, maxHops).slice(0, maxCandidates)
+  const quoted = (await Promise.all(candidates.map(path => tryQuote(path, amountIn))))
+    .filter((quote): quote is QuotedPath => quote !== null && quote.amountOut > BigInt(0))
+    .sort((a, b) => (b.amountOut > a.amountOut ? 1 : b.amountOut < a.amountOut ? -1 : 0))
+
+  if (quoted.length === 0) return null
+
+  // Splitting across paths that share a pool would double count its liquidity
+  const selected: QuotedPath[] = []
+  const usedPools = new Set<string>()
+  for (const path of quoted) {
+    if (selected.length === maxSplits) break
+    const keys = path.fees.map((fee, i) => poolKey(path.tokens[i], path.tokens[i + 1], fee))
+    if (keys.some(key => usedPools.has(key))) continue
+    keys.forEach(key => usedPools.add(key))
+    selected.push(path)
+  }
+
+  let allocation: { path: CandidatePath; amountIn: bigint }[] = [{ path: selected[0], amountIn }]
+  let bestOut = selected[0].amountOut
+
+  const increment = amountIn / BigInt(splitSteps)
+  if (selected.length > 1 && increment > BigInt(0)) {
+    const outputs = selected.map(() => new Map<number, bigint>([[0, BigInt(0)]]))
+    const steps = selected.map(() => 0)
+    const outputAt = async (index: number, count: number): Promise<bigint | null> => {
+      if (!outputs[index].has(count)) {
+        const quote = await tryQuote(selected[index], increment * BigInt(count))
+        if (!quote) return null
+        outputs[index].set(count, quote.amountOut)
+      }
+      return outputs[index].get(count)!
+    }
+
+    for (let step = 0; step < splitSteps; step++) {
+      const gains = await Promise.all(selected.map(async (_, index) => {
+        const next = await outputAt(index, steps[index] + 1)
+        return next === null ? null : next - outputs[index].get(steps[index])!
+      }))
+      let bestIndex = -1
+      gains.forEach((gain, index) => {
+        if (gain !== null && (bestIndex === -1 || gain > gains[bestIndex]!)) bestIndex = index
+      })
+      if (bestIndex === -1) break
+      steps[bestIndex]++
+    }
+
+    // Integer division leaves a remainder, which goes to the largest share
+    if (steps.reduce((sum, count) => sum + count, 0) === splitSteps) {
+      const largest = steps.indexOf(Math.max(...steps))
+      const splitAllocation = selected
+        .map((path, index) => ({
+          path,
+          amountIn: increment * BigInt(steps[index]) + (index === largest ? amountIn - increment * BigInt(splitSteps) : BigInt(0))
+        }))
+        .filter(({ amountIn: share }) => share > BigInt(0))
+
+      const splitQuotes = await Promise.all(splitAllocation.map(({ path, amountIn: share }) => tryQuote(path, share)))
+      if (splitQuotes.every(quote => quote !== null)) {
+        const splitOut = splitQuotes.reduce((sum, quote) => sum + quote!.amountOut, BigInt(0))
+        if (splitOut > bestOut) {
+          allocation = splitAllocation
+          bestOut = splitOut
+        }
+      }
+    }
+  }
+
+  const routes = (await Promise.all(allocation.map(({ path, amountIn: share }) =>
+    quotePath(path, share, cachedQuoteHop, true))))
+    .sort((a, b) => (b.amountIn > a.amountIn ? 1 : b.amountIn < a.amountIn ? -1 : 0))
+
+  const amountOut = routes.reduce((sum, route) => sum + route.amountOut, BigInt(0))
+  // Output that would have been received at spot prices on every route
+  const spotOut = routes.reduce((sum, route) => sum + Number(route.amountOut) / Math.max(1e-9, 1 - route.priceImpact / 100), 0)
+
+  return {
+    routes,
+    amountIn,
+    amountOut,
+    gasEstimate: routes.reduce((sum, route) => sum + route.gasEstimate, BigInt(0)),
+    priceImpact: spotOut > 0 ? Math.max(0, (1 - Number(amountOut) / spotOut) * 100) : 0
+  }
+}
@@ -0,0 +1,370 @@
+/**
+ * Transaction Simulation
+ * Pre-flight checks for built transactions against the latest block: reverts, token balance
+ * changes, fee-on-transfer taxes and slippage beyond tolerance
+ */
+
+import { ethers } from 'ethers'
+import type { Token, UnsignedTransaction } from './index'
+
+// What the swap is expected to do, from its quote
+export interface SimulationExpectation {
+  tokenIn: Token
+  tokenOut: Token
+  amountIn: bigint
+  expectedAmountOut: bigint
+  slippageTolerance: number // basis points
+  recipient: string
+}
+
+export interface TokenBalanceChange {
+  owner: string
+  token: string
+  symbol: string | null // Null for tokens outside the trade
+  amount: string // signed base units
+  formatted: string | null
+}
+
+export interface TransferTax {
+  token: string
+  symbol: string | null
+  taxBps: number
+}
+
+export type SimulationWarningCode =
+  | 'REVERT'
+  | 'NO_OUTPUT'
+  | 'SLIPPAGE'
+  | 'TRANSFER_TAX'
+  | 'TRACE_UNAVAILABLE'
+  | 'APPROVAL_PENDING'
+
+export interface SimulationWarning {
+  severity: 'info' | 'warning' | 'critical'
+  code: SimulationWarningCode
+  message: string
+}
+
+export interface SimulationResult {
+  success: boolean
+  safe: boolean // Succeeded without critical warnings
+  method: 'trace' | 'call' // debug_traceCall, or eth_call when the node does not expose traces
+  blockNumber: number
+  gasUsed: string | null
+  revertReason: string | null
+  balanceChanges: TokenBalanceChange[]
+  transferTaxes: TransferTax[]
+  amountOut: string | null // base units the recipient receives, when traced
+  warnings: SimulationWarning[]
+  preview: string[] // Human-readable summary, one line per effect
+}
+
+// Shape of geth's callTracer output with logs enabled
+interface CallFrame {
+  type: string
+  from: string
+  to?: string
+  input: string
+  output?: string
+  gasUsed?: string
+  error?: string
+  revertReason?: string
+  calls?: CallFrame[]
+  logs?: { address: string; topics: string[]; data: string }[]
+}
+
+interface TokenTransfer {
+  token: string
+  from: string
+  to: string
+  amount: bigint
+}
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)')
+const ERC20_TRANSFER_IFACE = new ethers.Interface([
+  'function transfer(address to, uint256 amount)',
+  'function transferFrom(address from, address to, uint256 amount)'
+])
+
+// Taxes at or above this are treated as honeypot-style rather than an ordinary fee-on-transfer token
+const CRITICAL_TAX_BPS = 1000
+
+// Decoded reason when the node returned one, then ethers' summary, then the raw message
+function describeRevert(error: unknown): string {
+  if (typeof error === 'object' && error !== null) {
+    for (const key of ['reason', 'shortMessage', 'message']) {
+      const value = (error as Record<string, unknown>)[key]
+      if (typeof value === 'string' && value) return value
+    }
+  }
+  return 'execution reverted'
+}
+
+export class TransactionSimulator {
+  constructor(private provider: ethers.Provider) {}
+
+  /**
+   * Simulate a transaction on top of the latest block. Swap expectations enable the
+   * output, slippage and transfer tax checks.
+   */
+  async simulate(tx: UnsignedTransaction, expectation?: SimulationExpectation): Promise<SimulationResult> {
+    const blockNumber = await this.provider.getBlockNumber()
+    const frame = await this.traceCall(tx)
+
+    if (!frame) {
+      return this.simulateWithCall(tx, blockNumber, expectation)
+    }
+
+    const warnings: SimulationWarning[] = []
+    if (frame.error) {
+      const revertReason = frame.revertReason || this.decodeRevert(frame.output) || frame.error
+      warnings.push({ severity: 'critical', code: 'REVERT', message: `Transaction reverts: ${revertReason}` })
+      return this.buildResult({ success: false, method: 'trace', blockNumber, gasUsed: frame.gasUsed, revertReason, warnings })
+    }
+
+    const transfers: TokenTransfer[] = []
+    const taxes = new Map<string, number>()
+    this.walkFrame(frame, transfers, taxes)
+
+    const owners = Array.from(new Set([tx.from, expectation?.recipient ?? tx.from].map(owner => owner.toLowerCase())))
+    const balanceChanges = this.getBalanceChanges(transfers, owners, expectation)
+    const transferTaxes = Array.from(taxes.entries()).map(([token, taxBps]) => ({
+      token,
+      symbol: this.findToken(token, expectation)?.symbol ?? null,
+      taxBps
+    }))
+
+    transferTaxes.forEach(tax => warnings.push({
+      severity: tax.taxBps >= CRITICAL_TAX_BPS ? 'critical' : 'warning',
+      code: 'TRANSFER_TAX',
+      message: `${tax.symbol ?? tax.token} takes a ${(tax.taxBps / 100).toFixed(2)}% tax on transfers`
+    }))
+
+    let amountOut: bigint | null = null
+    if (expectation) {
+      const recipient = expectation.recipient.toLowerCase()
+      amountOut = balanceChanges
+        .filter(change => change.owner === recipient && change.token === expectation.tokenOut.address.toLowerCase())
+        .reduce((sum, change) => sum + BigInt(change.amount), BigInt(0))
+      warnings.push(...this.checkOutput(amountOut, expectation))
+    }
+
+    return this.buildResult({
+      success: true,
+      method: 'trace',
+      blockNumber,
+      gasUsed: frame.gasUsed,
+      balanceChanges,
+      transferTaxes,
+      amountOut,
+      warnings
+    })
+  }
+
+  // Null when the node does not support debug_traceCall
+  private async traceCall(tx: UnsignedTransaction): Promise<CallFrame | null> {
+    if (!('send' in this.provider)) return null
+
+    try {
+      const frame = await (this.provider as ethers.JsonRpcApiProvider).send('debug_traceCall', [
+        { from: tx.from, to: tx.to, data: tx.data, value: ethers.toQuantity(tx.value), gas: ethers.toQuantity(tx.gasLimit) },
+        'latest',
+        { tracer: 'callTracer', tracerConfig: { withLog: true } }
+      ])
+      // Nodes without the call tracer answer with opcode-level struct logs instead
+      return frame && typeof frame.type === 'string' ? frame : null
+    } catch {
+      return null
+    }
+  }
+
+  // Revert detection only: eth_call cannot see token transfers
+  private async simulateWithCall(tx: UnsignedTransaction, blockNumber: number, expectation?: SimulationExpectation): Promise<SimulationResult> {
+    const warnings: SimulationWarning[] = [{
+      severity: 'info',
+      code: 'TRACE_UNAVAILABLE',
+      message: 'Node does not support tracing; only checked that the transaction does not revert'
+    }]
+    const request = { from: tx.from, to: tx.to, data: tx.data, value: BigInt(tx.value) }
+
+    try {
+      await this.provider.call(request)
+    } catch (error: unknown) {
+      const revertReason = describeRevert(error)
+      warnings.push({ severity: 'critical', code: 'REVERT', message: `Transaction reverts: ${revertReason}` })
+      return this.buildResult({ success: false, method: 'call', blockNumber, revertReason, warnings })
+    }
+
+    let gasUsed: string | undefined
+    try {
+      gasUsed = (await this.provider.estimateGas(request)).toString()
+    } catch {
+      // The call succeeded, so a failing estimate is not a revert
+    }
+
+    return this.buildResult({
+      success: true,
+      method: 'call',
+      blockNumber,
+      gasUsed,
+      warnings,
+      preview: expectation ? [`Swap ${ethers.formatUnits(expectation.amountIn, expectation.tokenIn.decimals)} ${expectation.tokenIn.symbol} for ${expectation.tokenOut.symbol}`] : []
+    })
+  }
+
+  /**
+   * Collect ERC20 Transfer events from successful frames, and compare the amount each
+   * transfer/transferFrom call asked for with what actually reached its recipient
+   */
+  private walkFrame(frame: CallFrame, transfers: TokenTransfer[], taxes: Map<string, number>) {
+    if (frame.error) return
+
+    const own = this.collectLogs(frame).filter(log => log.topics[0] === TRANSFER_TOPIC && log.topics.length === 3)
+    own.forEach(log => transfers.push({
+      token: log.address.toLowerCase(),
+      from: ethers.dataSlice(log.topics[1], 12).toLowerCase(),
+      to: ethers.dataSlice(log.topics[2], 12).toLowerCase(),
+      amount: BigInt(log.data)
+    }))
+
+    const intended = frame.to ? this.decodeTransfer(frame.input) : null
+    if (intended && intended.amount > BigInt(0)) {
+      const token = frame.to!.toLowerCase()
+      const received = own
+        .filter(log => log.address.toLowerCase() === token && ethers.dataSlice(log.topics[2], 12).toLowerCase() === intended.to)
+        .reduce((sum, log) => sum + BigInt(log.data), BigInt(0))
+      if (received < intended.amount) {
+        const taxBps = Number((intended.amount - received) * BigInt(10000) / intended.amount)
+        taxes.set(token, Math.max(taxes.get(token) ?? 0, taxBps))
+      }
+    }
+
+    this.externalCalls(frame).forEach(call => this.walkFrame(call, transfers, taxes))
+  }
+
+  // Delegatecalls run in the caller's context (token proxies), so their logs belong to the calling frame
+  private collectLogs(frame: CallFrame): NonNullable<CallFrame['logs']> {
+    const delegated = (frame.calls || [])
+      .filter(call => call.type === 'DELEGATECALL' && !call.error)
+      .flatMap(call => this.collectLogs(call))
+    return [...(frame.logs || []), ...delegated]
+  }
+
+  // Calls into other contracts made by the frame itself or by code it delegated to
+  private externalCalls(frame: CallFrame): CallFrame[] {
+    return (frame.calls || []).flatMap(call => {
+      if (call.type !== 'DELEGATECALL') return [call]
+      return call.error ? [] : this.externalCalls(call)
+    })
+  }
+
+  private decodeTransfer(input: string): { to: string; amount: bigint } | null {
+    try {
+      const parsed = ERC20_TRANSFER_IFACE.parseTransaction({ data: input })
+      if (!parsed) return null
+      const [to, amount] = parsed.name === 'transfer' ? parsed.args : parsed.args.slice(1)
+      return { to: (to as string).toLowerCase(), amount: amount as bigint }
+    } catch {
+      return null
+    }
+  }
+
+  private getBalanceChanges(transfers: TokenTransfer[], owners: string[], expectation?: SimulationExpectation): TokenBalanceChange[] {
+    const deltas = new Map<string, bigint>()
+    transfers.forEach(transfer => {
+      if (owners.includes(transfer.from)) {
+        const key = `${transfer.from}:${transfer.token}`
+        deltas.set(key, (deltas.get(key) ?? BigInt(0)) - transfer.amount)
+      }
+      if (owners.includes(transfer.to)) {
+        const key = `${transfer.to}:${transfer.token}`
+        deltas.set(key, (deltas.get(key) ?? BigInt(0)) + transfer.amount)
+      }
+    })
+
+    return Array.from(deltas.entries())
+      .filter(([, amount]) => amount !== BigInt(0))
+      .map(([key, amount]) => {
+        const [owner, token] = key.split(':')
+        const known = this.findToken(token, expectation)
+        return {
+          owner,
+          token,
+          symbol: known?.symbol ?? null,
+          amount: amount.toString(),
+          formatted: known ? ethers.formatUnits(amount, known.decimals) : null
+        }
+      })
+  }
+
+  private checkOutput(amountOut: bigint, expectation: SimulationExpectation): SimulationWarning[] {
+    const { tokenOut, expectedAmountOut, slippageTolerance } = expectation
+    if (amountOut <= BigInt(0)) {
+      return [{ severity: 'critical', code: 'NO_OUTPUT', message: `The recipient receives no ${tokenOut.symbol}` }]
+    }
+
+    const minimum = expectedAmountOut * (BigInt(10000) - BigInt(slippageTolerance)) / BigInt(10000)
+    if (amountOut < minimum) {
+      const shortfall = Number((expectedAmountOut - amountOut) * BigInt(10000) / expectedAmountOut) / 100
+      return [{
+        severity: 'critical',
+        code: 'SLIPPAGE',
+        message: `Receives ${ethers.formatUnits(amountOut, tokenOut.decimals)} ${tokenOut.symbol}, ${shortfall.toFixed(2)}% below the quote and beyond the ${(slippageTolerance / 100).toFixed(2)}% slippage tolerance`
+      }]
+    }
+    return []
+  }
+
+  private findToken(address: string, expectation?: SimulationExpectation): Token | undefined {
+    return [expectation?.tokenIn, expectation?.tokenOut].find(token => token?.address.toLowerCase() === address.toLowerCase())
+  }
+
+  private decodeRevert(output?: string): string | null {
+    if (!output || output === '0x') return null
+    try {
+      return ethers.AbiCoder.defaultAbiCoder().decode(['string'], ethers.dataSlice(output, 4))[0]
+    } catch {
+      return null
+    }
+  }
+
+  private buildResult(result: {
+    success: boolean
+    method: SimulationResult['method']
+    blockNumber: number
+    gasUsed?: string
+    revertReason?: string
+    balanceChanges?: TokenBalanceChange[]
+    transferTaxes?: TransferTax[]
+    amountOut?: bigint | null
+    warnings: SimulationWarning[]
+    preview?: string[]
+  }): SimulationResult {
+    const balanceChanges = result.balanceChanges ?? []
+    const gasUsed = result.gasUsed ? BigInt(result.gasUsed).toString() : null
+
+    const preview = [
+      ...(result.preview ?? []),
+      ...balanceChanges.map(change => {
+        const amount = change.formatted ? `${change.formatted.replace(/^-/, '')} ${change.symbol}` : `${change.amount.replace(/^-/, '')} units of ${change.token}`
+        return `${change.amount.startsWith('-') ? 'Send' : 'Receive'} ${amount}`
+      }),
+      ...(gasUsed ? [`Uses about ${gasUsed} gas`] : []),
+      ...result.warnings.filter(warning => warning.severity !== 'info').map(warning => warning.message)
+    ]
+
+    return {
+      success: result.success,
+      safe: result.success && !result.warnings.some(warning => warning.severity === 'critical'),
+      method: result.method,
+      blockNumber: result.blockNumber,
+      gasUsed,
+      revertReason: result.revertReason ?? null,
+      balanceChanges,
+      transferTaxes: result.transferTaxes ?? [],
+      amountOut: result.amountOut != null ? result.amountOut.toString() : null,
+      warnings: result.warnings,
+      preview
+    }
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Stargate V2 Bridge Adapter
+ * Stablecoin transfers through Stargate's OFT pools, messaged over LayerZero V2
+ */
+
+import { ethers } from 'ethers'
+import { DEXError } from './index'
+import { BaseBridge, BRIDGE_TOKENS, BridgeAssets, BridgeDelivery, BridgeDeposit } from './bridge-base'
+import type { BridgeParams, BridgeQuote } from './bridge-aggregator'
+
+// LayerZero V2 endpoint IDs
+const LZ_ENDPOINT_IDS: { [chainId: number]: number } = {
+  1: 30101,
+  56: 30102,
+  43114: 30106,
+  137: 30109,
+  42161: 30110,
+  10: 30111
+}
+
+// Stargate pool per asset and chain; the pool is both the spender and the OFT entry point
+const STARGATE_POOLS: { [asset: string]: { [chainId: number]: string } } = {
+  USDC: {
+    1: '0xc026395860Db2d07ee33e05fE50ed7bD583189C7',
+    56: '0x962Bd449E630b0d928f308Ce63f1A21F02576057',
+    137: '0x9Aa02D4Fae7F58b8E8f34c66E756cC734DAc7fe4',
+    42161: '0xe8CDF27AcD73a434D661C84887215F7598e7d0d3',
+    10: '0xcE8CcA271Ebc0533920C83d39F417ED6A0abB7D0',
+    43114: '0x5634c4a5FEd09819E3c46D86A965Dd9447d86e47'
+  },
+  USDT: {
+    1: '0x933597a323Eb81cAe705C5bC29985172fd5A3973',
+    56: '0x138EB30f73BC423c6455C53df6D89CB01d9eBc63',
+    137: '0xd47b03ee6d86Cf251ee7860FB2ACf9f91B9fD4d7',
+    42161: '0xcE8CcA271Ebc0533920C83d39F417ED6A0abB7D0',
+    10: '0x19cFCE47eD54a88614648DC3f19A5980097007dD',
+    43114: '0x12dC9256Acc9895B076f6638D628382881e62CeE'
+  }
+}
+
+// Minutes for the source chain to reach the confirmations LayerZero's verifiers wait for
+const SOURCE_CONFIRMATION_MINUTES: { [chainId: number]: number } = {
+  1: 4,
+  56: 2,
+  137: 18,
+  42161: 2,
+  10: 2,
+  43114: 2
+}
+
+const SEND_PARAM = 'tuple(uint32 dstEid, bytes32 to, uint256 amountLD, uint256 minAmountLD, bytes extraOptions, bytes composeMsg, bytes oftCmd)'
+const MESSAGING_FEE = 'tuple(uint256 nativeFee, uint256 lzTokenFee)'
+
+const STARGATE_POOL_ABI = [
+  `function quoteOFT(${SEND_PARAM} sendParam) view returns (tuple(uint256 minAmountLD, uint256 maxAmountLD) limit, tuple(int256 feeAmountLD, string description)[] oftFeeDetails, tuple(uint256 amountSentLD, uint256 amountReceivedLD) receipt)`,
+  `function quoteSend(${SEND_PARAM} sendParam, bool payInLzToken) view returns (${MESSAGING_FEE} fee)`,
+  `function send(${SEND_PARAM} sendParam, ${MESSAGING_FEE} fee, address refundAddress) payable`,
+  'event OFTSent(bytes32 indexed guid, uint32 dstEid, address indexed fromAddress, uint256 amountSentLD, uint256 amountReceivedLD)',
+  'event OFTReceived(bytes32 indexed guid, uint32 srcEid, address indexed toAddress, uint256 amountReceivedLD)'
+]
+const poolInterface = new ethers.Interface(STARGATE_POOL_ABI)
+
+const SEND_GAS_FALLBACK = 300000
+
+interface SendParam {
+  dstEid: number
+  to: string
+  amountLD: bigint
+  minAmountLD: bigint
+  extraOptions: string
+  composeMsg: string
+  oftCmd: string
+}
+
+export class StargateBridge extends BaseBridge {
+  id = 'stargate'
+  name = 'Stargate'
+  website = 'https://stargate.finance'
+  supportedChains = Object.keys(LZ_ENDPOINT_IDS).map(Number)
+  protected assets: BridgeAssets = {
+    USDC: BRIDGE_TOKENS.USDC,
+    USDT: BRIDGE_TOKENS.USDT
+  }
+  protected depositGasFallback = SEND_GAS_FALLBACK
+
+  async getQuote(params: BridgeParams): Promise<BridgeQuote> {
+    return (await this.priceTransfer(params)).quote
+  }
+
+  protected async buildDeposit(params: BridgeParams, from: string): Promise<BridgeDeposit> {
+    const { quote, sendParam, nativeFee, pool, fromToken } = await this.priceTransfer(params)
+
+    return {
+      quote,
+      token: fromToken,
+      amount: sendParam.amountLD,
+      spender: pool,
+      to: pool,
+      // Any unspent messaging fee is refunded to the sender
+      data: poolInterface.encodeFunctionData('send', [sendParam, { nativeFee, lzTokenFee: 0 }, from]),
+      value: nativeFee
+    }
+  }
+
+  protected async findDelivery(receipt: ethers.TransactionReceipt, fromChain: number, toChain: number): Promise<BridgeDelivery> {
+    const sent = this.findSentTransfer(receipt, fromChain)
+    if (!sent) {
+      throw new DEXError(`${receipt.hash} is not a Stargate transfer`, 'INVALID_TRACKING_ID')
+    }
+
+    const destinationPool = STARGATE_POOLS[sent.asset][toChain]
+    const received = await this.findDestinationLog(
+      toChain,
+      { address: destinationPool, topics: [poolInterface.getEvent('OFTReceived')!.topicHash, sent.guid] },
+      await this.getTimestamp(fromChain, receipt.blockNumber)
+    )
+    return received ? { status: 'completed', toTxHash: received.transactionHash } : { status: 'pending' }
+  }
+
+  protected transferMinutes(fromChain: number): number {
+    return (SOURCE_CONFIRMATION_MINUTES[fromChain] ?? 5) + 1
+  }
+
+  /**
+   * Quote the transfer in taxi mode, which sends immediately rather than waiting for a
+   * shared bus: quoteOFT for what arrives after pool fees, then quoteSend for the LayerZero
+   * messaging fee of a send with the slippage-adjusted minimum
+   */
+  private async priceTransfer(params: BridgeParams) {
+    const { asset, fromToken, toToken } = this.resolveTokens(params)
+    const pool = STARGATE_POOLS[asset][params.fromChain]
+    const contract = new ethers.Contract(pool, STARGATE_POOL_ABI, this.requireProvider(params.fromChain))
+
+    const sendParam: SendParam = {
+      dstEid: LZ_ENDPOINT_IDS[params.toChain],
+      to: ethers.zeroPadValue(params.recipient, 32),
+      amountLD: ethers.parseUnits(params.amount, fromToken.decimals),
+      minAmountLD: BigInt(0),
+      extraOptions: '0x',
+      composeMsg: '0x',
+      oftCmd: '0x'
+    }
+
+    const [limit, , oftReceipt] = await contract.quoteOFT(sendParam)
+    if (sendParam.amountLD > limit.maxAmountLD) {
+      throw new DEXError(
+        `Stargate can bridge at most ${ethers.formatUnits(limit.maxAmountLD, fromToken.decimals)} ${fromToken.symbol} to chain ${params.toChain}`,
+        'INSUFFICIENT_LIQUIDITY'
+      )
+    }
+    const amountReceived: bigint = oftReceipt.amountReceivedLD
+    sendParam.minAmountLD = this.applySlippage(amountReceived, params.slippage)
+
+    const fee = await contract.quoteSend(sendParam, false)
+    const nativeFee: bigint = fee.nativeFee
+
+    const bridgeFee = ethers.formatUnits(sendParam.amountLD - amountReceived, fromToken.decimals)
+    const gasFee = await this.estimateGasCost(params.fromChain, SEND_GAS_FALLBACK, nativeFee)
+    const estimatedTime = this.transferMinutes(params.fromChain)
+
+    const quote: BridgeQuote = {
+      provider: this.name,
+      fromAmount: params.amount,
+      toAmount: ethers.formatUnits(amountReceived, fromToken.decimals),
+      toToken: toToken.address,
+      estimatedTime,
+      fees: {
+        bridgeFee,
+        gasFee,
+        totalFeeUSD: bridgeFee // Stablecoin fee; gas and the messaging fee are in gasFee
+      },
+      route: [
+        { step: 1, action: `Deposit ${fromToken.symbol} into the Stargate pool`, chain: params.fromChain, protocol: this.name, estimatedTime: SOURCE_CONFIRMATION_MINUTES[params.fromChain] ?? 5 },
+        { step: 2, action: 'Verify the transfer over LayerZero', chain: 0, protocol: 'LayerZero', estimatedTime: 1 },
+        { step: 3, action: `Release ${toToken.symbol} from the destination pool`, chain: params.toChain, protocol: this.name, estimatedTime: 0 }
+      ],
+      confidence: 95,
+      gasEstimate: gasFee
+    }
+
+    return { quote, sendParam, nativeFee, pool, fromToken }
+  }
+
+  // GUID LayerZero assigned to the transfer, from the OFTSent event of the pool it left
+  private findSentTransfer(receipt: ethers.TransactionReceipt, chainId: number): { asset: string; guid: string } | null {
+    for (const [asset, pools] of Object.entries(STARGATE_POOLS)) {
+      for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== pools[chainId]?.toLowerCase()) continue
+        const parsed = poolInterface.parseLog(log)
+        if (parsed?.name === 'OFTSent') return { asset, guid: parsed.args.guid }
+      }
+    }
+    return null
+  }
+}
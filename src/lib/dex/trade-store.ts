@@ -0,0 +1,64 @@
+/**
+ * Tracked Trade Persistence
+ * Submitted hashes are kept in Postgres so any instance can report a trade's status
+ */
+
+import type { TrackedTrade } from './trade-tracker'
+
+export interface StoredTrade {
+  trade: TrackedTrade
+  verified: boolean // False until the sender has been checked against the trade's wallet
+}
+
+interface TrackedTradeRow {
+  trade: unknown
+  verified: boolean
+}
+
+// Prisma is loaded lazily so the DEX modules stay importable from client components
+async function getPrisma() {
+  const { prisma } = await import('@/lib/db')
+  return prisma
+}
+
+function toStoredTrade(row: TrackedTradeRow): StoredTrade {
+  return { trade: row.trade as TrackedTrade, verified: row.verified }
+}
+
+function toColumns(trade: TrackedTrade, verified: boolean) {
+  return {
+    chainId: trade.chainId,
+    walletAddress: trade.walletAddress.toLowerCase(),
+    status: trade.status,
+    verified,
+    trade: trade as object,
+    submittedAt: new Date(trade.submittedAt)
+  }
+}
+
+export async function findTrade(hash: string): Promise<StoredTrade | null> {
+  const prisma = await getPrisma()
+  const row: TrackedTradeRow | null = await prisma.trackedTrade.findUnique({ where: { hash: hash.toLowerCase() } })
+  return row ? toStoredTrade(row) : null
+}
+
+// Inserts the trade unless its hash is already tracked. Returns whichever was stored first.
+export async function insertTrade(trade: TrackedTrade, verified: boolean): Promise<StoredTrade> {
+  const prisma = await getPrisma()
+  const row: TrackedTradeRow = await prisma.trackedTrade.upsert({
+    where: { hash: trade.hash },
+    create: { hash: trade.hash, ...toColumns(trade, verified) },
+    update: {}
+  })
+  return toStoredTrade(row)
+}
+
+export async function saveTrade(trade: TrackedTrade, verified: boolean): Promise<void> {
+  const prisma = await getPrisma()
+  await prisma.trackedTrade.update({ where: { hash: trade.hash }, data: toColumns(trade, verified) })
+}
+
+export async function deleteTrade(hash: string): Promise<void> {
+  const prisma = await getPrisma()
+  await prisma.trackedTrade.deleteMany({ where: { hash } })
+}
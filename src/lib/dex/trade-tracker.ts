@@ -0,0 +1,155 @@
+/**
+ * Trade Tracker
+ * Follows swaps that were signed by the user's wallet, by transaction hash only. MEV-protected
+ * swaps arrive signed but not broadcast and are handed to a private relay first. Tracked trades are
+ * persisted, so the instance asked for a status need not be the one that took the submission.
+ */
+
+import { ethers } from 'ethers'
+import { DEXError, ExecutionMode, Token } from './index'
+import { BundleSubmission, detectSandwich, PrivateRelay, SandwichCheck, submitBundle } from './mev-protection'
+import * as tradeStore from './trade-store'
+import type { StoredTrade } from './trade-store'
+
+// A submitted hash no node has seen after this long is given up on
+const UNSEEN_TRANSACTION_TIMEOUT_MS = 15 * 60 * 1000
+
+export type TrackedTradeStatus = 'pending' | 'confirmed' | 'failed'
+
+export interface TrackedTrade {
+  hash: string
+  chainId: number
+  walletAddress: string
+  tokenIn: Token
+  tokenOut: Token
+  amountIn: string
+  dexName?: string
+  executionMode?: ExecutionMode // Defaults to 'standard'
+  bundle?: BundleSubmission // Set for trades sent through a private relay
+  status: TrackedTradeStatus
+  submittedAt: number
+  blockNumber?: number
+  gasUsed?: string
+  sandwich?: SandwichCheck | null // Set once confirmed; null when the block could not be checked
+}
+
+export type SubmittedTrade = Omit<TrackedTrade, 'status' | 'submittedAt' | 'blockNumber' | 'gasUsed' | 'sandwich' | 'executionMode' | 'bundle'>
+
+export class TradeTracker {
+  constructor(private getProvider: (chainId: number) => ethers.Provider | undefined) {}
+
+  /**
+   * Start tracking a broadcast swap. The transaction must come from the wallet; when the node has
+   * not seen it yet, the sender is checked once it shows up and the hash expires if it never does.
+   */
+  async track(trade: SubmittedTrade): Promise<TrackedTrade> {
+    const hash = trade.hash.toLowerCase()
+    const existing = await tradeStore.findTrade(hash)
+    if (existing) return existing.trade
+
+    const provider = this.requireProvider(trade.chainId)
+    const transaction = await provider.getTransaction(hash)
+    if (transaction && transaction.from.toLowerCase() !== trade.walletAddress.toLowerCase()) {
+      throw new DEXError(`Transaction ${hash} was not sent by ${trade.walletAddress}`, 'SENDER_MISMATCH')
+    }
+
+    // The sender of a transaction no node has seen yet is checked once it shows up
+    const tracked: TrackedTrade = { ...trade, hash, status: 'pending', submittedAt: Date.now() }
+    return this.refresh(await tradeStore.insertTrade(tracked, Boolean(transaction)))
+  }
+
+  /**
+   * Submit a swap the wallet signed without broadcasting through the private relay, then track it.
+   * The signature must be the wallet's and the transaction must be for the trade's chain.
+   */
+  async trackPrivate(trade: Omit<SubmittedTrade, 'hash'>, signedTransaction: string, relay: PrivateRelay): Promise<TrackedTrade> {
+    let transaction: ethers.Transaction
+    try {
+      transaction = ethers.Transaction.from(signedTransaction)
+    } catch {
+      throw new DEXError('signedTransaction is not a valid signed transaction', 'INVALID_TRANSACTION')
+    }
+    if (!transaction.hash || !transaction.from || transaction.from.toLowerCase() !== trade.walletAddress.toLowerCase()) {
+      throw new DEXError(`Transaction was not signed by ${trade.walletAddress}`, 'SENDER_MISMATCH')
+    }
+    if (transaction.chainId !== BigInt(trade.chainId)) {
+      throw new DEXError(`Transaction is for chain ${transaction.chainId}, not ${trade.chainId}`, 'CHAIN_MISMATCH')
+    }
+
+    const hash = transaction.hash.toLowerCase()
+    const existing = await tradeStore.findTrade(hash)
+    if (existing) return existing.trade
+
+    const provider = this.requireProvider(trade.chainId)
+    const bundle = await submitBundle(relay, [signedTransaction], await provider.getBlockNumber())
+
+    const tracked: TrackedTrade = { ...trade, hash, executionMode: 'mev_protected', bundle, status: 'pending', submittedAt: Date.now() }
+    return this.refresh(await tradeStore.insertTrade(tracked, true))
+  }
+
+  /**
+   * Current status of a tracked trade, checking for a receipt while it is still pending
+   */
+  async getStatus(hash: string): Promise<TrackedTrade | null> {
+    const stored = await tradeStore.findTrade(hash)
+    return stored ? this.refresh(stored) : null
+  }
+
+  // Checks a pending trade against the chain and saves it when anything changed
+  private async refresh(stored: StoredTrade): Promise<TrackedTrade> {
+    const { trade } = stored
+    if (trade.status !== 'pending') return trade
+
+    const provider = this.requireProvider(trade.chainId)
+    const verified = stored.verified || await this.verifySender(provider, trade)
+    if (verified) await this.checkReceipt(provider, trade)
+
+    if (trade.status !== 'pending' || verified !== stored.verified) {
+      await tradeStore.saveTrade(trade, verified)
+    }
+    return trade
+  }
+
+  private async checkReceipt(provider: ethers.Provider, trade: TrackedTrade): Promise<void> {
+    const receipt = await provider.getTransactionReceipt(trade.hash)
+    if (receipt) {
+      trade.status = receipt.status === 1 ? 'confirmed' : 'failed'
+      trade.blockNumber = receipt.blockNumber
+      trade.gasUsed = receipt.gasUsed.toString()
+      if (trade.status === 'confirmed') {
+        trade.sandwich = await detectSandwich(provider, receipt, trade.walletAddress).catch(() => null)
+      }
+    } else if (trade.bundle) {
+      // The relay drops the bundle after its last target block
+      const lastBlock = trade.bundle.targetBlocks[trade.bundle.targetBlocks.length - 1]
+      if (await provider.getBlockNumber() > lastBlock) {
+        trade.status = 'failed'
+      }
+    }
+  }
+
+  // False while the transaction has not been seen. A transaction from another sender stops being tracked.
+  private async verifySender(provider: ethers.Provider, trade: TrackedTrade): Promise<boolean> {
+    const transaction = await provider.getTransaction(trade.hash)
+    if (!transaction) {
+      if (Date.now() - trade.submittedAt > UNSEEN_TRANSACTION_TIMEOUT_MS) {
+        trade.status = 'failed'
+      }
+      return false
+    }
+
+    if (transaction.from.toLowerCase() !== trade.walletAddress.toLowerCase()) {
+      await tradeStore.deleteTrade(trade.hash)
+      throw new DEXError(`Transaction ${trade.hash} was not sent by ${trade.walletAddress}`, 'SENDER_MISMATCH')
+    }
+    return true
+  }
+
+  private requireProvider(chainId: number): ethers.Provider {
+    const provider = this.getProvider(chainId)
+    if (!provider) {
+      throw new DEXError(`Chain ${chainId} is not supported`, 'UNSUPPORTED_CHAIN')
+    }
+    return provider
+  }
+}
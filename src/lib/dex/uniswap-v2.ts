@@ -0,0 +1,78 @@
+/**
+ * Uniswap V2 Style DEX Implementation
+ * Generic constant-product adapter for SushiSwap, PancakeSwap V2, QuickSwap V2 and other forks
+ */
+
+import { ethers } from 'ethers'
+import { BaseDEX, EncodedSwapRoute, V2DEXConfig, DEXError } from './index'
+import { HopQuote, RouterOptions } from './router'
+
+// Uniswap V2 Router ABI (minimal)
+const UNISWAP_V2_ROUTER_ABI = [
+  'function getAmountsOut(uint256 amountIn, address[] calldata path) external view returns (uint256[] memory amounts)',
+  'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] calldata path, address to, uint256 deadline) external returns (uint256[] memory amounts)'
+]
+
+// Uniswap V2 Factory ABI (minimal)
+const UNISWAP_V2_FACTORY_ABI = [
+  'function getPair(address tokenA, address tokenB) external view returns (address pair)'
+]
+
+// Typical gas per pair swapped through
+const HOP_GAS_ESTIMATE = 60000
+
+export class UniswapV2DEX extends BaseDEX {
+  constructor(provider: ethers.Provider, chainId: number, private config: V2DEXConfig) {
+    super(provider, chainId)
+  }
+
+  getName(): string {
+    return this.config.name
+  }
+
+  isSupported(chainId: number): boolean {
+    return this.config.chains.includes(chainId)
+  }
+
+  protected getRouterAddress(): string {
+    return this.config.router
+  }
+
+  // Every pair charges the same fee
+  protected getFeeTiers(): number[] {
+    return [this.config.fee]
+  }
+
+  // The router swaps along one path per call and has no multicall
+  protected getRouterOptions(): RouterOptions {
+    return { maxSplits: 1 }
+  }
+
+  protected async getPoolAddress(tokenA: string, tokenB: string): Promise<string | null> {
+    const factory = new ethers.Contract(this.config.factory, UNISWAP_V2_FACTORY_ABI, this.provider)
+    const pair: string = await factory.getPair(tokenA, tokenB)
+    return pair === ethers.ZeroAddress ? null : pair
+  }
+
+  protected async quoteExactInputSingle(tokenIn: string, tokenOut: string, _fee: number, amountIn: bigint): Promise<HopQuote> {
+    const router = new ethers.Contract(this.config.router, UNISWAP_V2_ROUTER_ABI, this.provider)
+    const amounts: bigint[] = await router.getAmountsOut(amountIn, [tokenIn, tokenOut])
+
+    return { amountOut: amounts[amounts.length - 1], gasEstimate: BigInt(HOP_GAS_ESTIMATE) }
+  }
+
+  protected encodeSwap(routes: EncodedSwapRoute[], recipient: string, deadline: number): string {
+    if (routes.length !== 1) {
+      throw new DEXError(`${this.getName()} cannot execute split routes`, 'UNSUPPORTED_ROUTE')
+    }
+
+    const [route] = routes
+    return new ethers.Interface(UNISWAP_V2_ROUTER_ABI).encodeFunctionData('swapExactTokensForTokens', [
+      route.amountIn,
+      route.amountOutMinimum,
+      route.path,
+      recipient,
+      deadline
+    ])
+  }
+}
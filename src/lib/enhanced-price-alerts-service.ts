@@ -1,6 +1,17 @@
 import { prisma } from '@/lib/db'
 import { nowNodesService } from '@/lib/nownodes'
-import { emailService } from '@/lib/email-service'
+import type { CryptoPrice } from '@/lib/nownodes'
+import { notificationService, NotificationChannel } from '@/lib/notifications'
+import { marketWindow, parseTimeframe } from '@/lib/market-window'
+import type { MarketWindow, VolatilityBands } from '@/lib/market-window'
+import {
+  compareToThreshold,
+  describeCondition,
+  evaluateAlertExpression,
+  expressionConditions,
+  expressionSymbols,
+  subjectKey
+} from '@/lib/alert-expressions'
 import { 
   PriceAlert, 
   AlertType, 
@@ -9,6 +20,8 @@ import {
   AlertFrequency, 
   NotificationMethod,
   AlertTriggerData,
+  AlertConditionNode,
+  AlertExpression,
   AlertStats,
   AlertTemplate,
   AlertTemplates,
@@ -16,12 +29,45 @@ import {
   DefaultPriceAlertPreferences
 } from '@/types/price-alerts'
 
+// Lookback used when an alert was created without a timeframe
+const DEFAULT_TIMEFRAMES: Record<AlertType, string> = {
+  price_threshold: '24h',
+  price_change: '24h',
+  market_cap_change: '24h',
+  volume_spike: '1h',
+  volatility: '1h'
+}
+
+// Health factors move with prices, so DeFi positions older than this are scanned again
+const POSITION_MAX_AGE_MS = 5 * 60 * 1000
+
+// How each measured condition type reads in a trigger's conditionMet
+const MEASURE_LABELS = {
+  price_change: (timeframe: string) => `${timeframe} change`,
+  market_cap_change: (timeframe: string) => `${timeframe} market cap change`,
+  volume_spike: (timeframe: string) => `24h volume vs ${timeframe} average`,
+  volatility: (timeframe: string) => `${timeframe} realized volatility`
+}
+
+interface MarketMeasurement {
+  value: number
+  bands?: VolatilityBands
+}
+
+// Whether an alert's condition holds, with the measurements it was evaluated against
+interface AlertEvaluation {
+  met: boolean
+  trigger: Omit<AlertTriggerData, 'alertId' | 'symbol' | 'triggeredAt'>
+}
+
 export class EnhancedPriceAlertsService {
   private static instance: EnhancedPriceAlertsService
   private alertCache: Map<string, PriceAlert[]> = new Map()
   private priceCache: Map<string, { price: number; timestamp: number }> = new Map()
   private notificationQueue: AlertTriggerData[] = []
 
+  constructor(private window: MarketWindow = marketWindow) {}
+
   static getInstance(): EnhancedPriceAlertsService {
     if (!this.instance) {
       this.instance = new EnhancedPriceAlertsService()
@@ -31,19 +77,23 @@ export class EnhancedPriceAlertsService {
 
   // Alert CRUD Operations
   async createAlert(userId: string, alertData: Partial<PriceAlert>): Promise<PriceAlert> {
+    const columns = alertData.expression
+      ? compositeColumns(alertData.expression)
+      : { symbol: alertData.symbol?.toUpperCase(), operator: alertData.operator, threshold: alertData.threshold }
+
     // Create alert with existing schema, storing enhanced data in notes/description fields
     const alert = await prisma.alert.create({
       data: {
         userId,
-        symbol: alertData.symbol?.toUpperCase(),
-        operator: alertData.operator,
-        threshold: alertData.threshold,
+        ...columns,
         cooldownMinutes: alertData.cooldownMinutes ?? 10,
+        expression: alertData.expression,
         // Store enhanced metadata in description field as JSON
         description: JSON.stringify({
-          name: alertData.name || `${alertData.symbol} Alert`,
+          name: alertData.name || `${columns.symbol} Alert`,
           originalDescription: alertData.description || '',
-          type: alertData.type || 'price_threshold',
+          type: alertData.expression ? expressionConditions(alertData.expression)[0].type : alertData.type || 'price_threshold',
+          timeframe: alertData.timeframe,
           frequency: alertData.frequency || 'once',
           maxTriggers: alertData.maxTriggers,
           notificationMethods: alertData.notificationMethods || ['browser'],
@@ -73,6 +123,7 @@ export class EnhancedPriceAlertsService {
         ...(updates.symbol && { symbol: updates.symbol.toUpperCase() }),
         ...(updates.operator && { operator: updates.operator }),
         ...(updates.threshold !== undefined && { threshold: updates.threshold }),
+        ...(updates.expression && { expression: updates.expression, ...compositeColumns(updates.expression) }),
         ...(updates.status && { status: updates.status }),
         ...(updates.frequency && { frequency: updates.frequency }),
         ...(updates.cooldownMinutes !== undefined && { cooldownMinutes: updates.cooldownMinutes }),
@@ -170,6 +221,7 @@ export class EnhancedPriceAlertsService {
         name: `${template.name} - ${symbol.toUpperCase()}`,
         description: template.description,
         type: template.conditions[0].type,
+        timeframe: template.conditions[0].timeframe,
         operator: template.conditions[0].operator,
         threshold: threshold
       }
@@ -223,23 +275,64 @@ export class EnhancedPriceAlertsService {
       return { checked: 0, triggered: 0, items: [] }
     }
 
+    const alerts = activeAlerts.map((row: any) => ({ row, alert: this.mapPrismaAlertToEnhanced(row) }))
+
     // Group by symbol to minimize API calls
-    const symbols = Array.from(new Set(activeAlerts.map((a: any) => a.symbol as string)))
-    const priceList = await nowNodesService.getCryptoPrices(symbols)
+    const symbols: string[] = Array.from(new Set(alerts.flatMap(({ alert }: { alert: PriceAlert }) =>
+      alert.expression ? expressionSymbols(alert.expression) : [alert.symbol.toUpperCase()]
+    )))
+    // Ticks recorded since the last run, by this process or another, go into the window before the fresh prices
+    await this.window.sync(symbols).catch(error => console.error('Failed to load recorded market history:', error))
+    const priceList = symbols.length > 0 ? await nowNodesService.getCryptoPrices(symbols) : []
+    const prices = new Map(priceList.map(price => [price.symbol.toUpperCase(), price]))
 
     let triggered = 0
     const now = new Date()
     const items: AlertTriggerData[] = []
 
-    for (const alert of activeAlerts) {
-      try {
-        const priceInfo = priceList.find(p => p.symbol === alert.symbol)
-        if (!priceInfo?.current_price) continue
+    for (const priceInfo of priceList) {
+      const updatedAt = Date.parse(priceInfo.last_updated)
+      this.window.record(priceInfo.symbol, {
+        timestamp: isFinite(updatedAt) ? updatedAt : now.getTime(),
+        price: priceInfo.current_price,
+        volume24h: priceInfo.volume_24h,
+        marketCap: priceInfo.market_cap
+      })
+    }
 
-        const currentPrice = priceInfo.current_price
-        const shouldTrigger = this.evaluateAlertCondition(alert, currentPrice, priceInfo)
+    // Ratios get their own series so composite alerts can measure their change and volatility
+    const ratios = alerts.flatMap(({ alert }: { alert: PriceAlert }) => alert.expression ? expressionConditions(alert.expression) : [])
+      .map(({ subject }: AlertConditionNode) => subject)
+    for (const subject of ratios) {
+      if (subject.kind !== 'ratio') continue
+      const base = prices.get(subject.base)
+      const quote = prices.get(subject.quote)
+      if (!base?.current_price || !quote?.current_price) continue
+      // Stamped like the seeded samples, with the source times of the prices it was taken from
+      this.window.seedRatio(subjectKey(subject), subject.base, subject.quote)
+      this.window.record(subjectKey(subject), {
+        timestamp: Math.max(this.window.latest(subject.base)?.timestamp ?? 0, this.window.latest(subject.quote)?.timestamp ?? 0),
+        price: base.current_price / quote.current_price,
+        volume24h: 0,
+        marketCap: 0
+      })
+    }
+
+    // Portfolio and DeFi measurements are shared by every alert of a user within a run
+    const accountMeasurements = new Map<string, Promise<number | null>>()
+
+    for (const { row: alert, alert: enhanced } of alerts) {
+      try {
+        let evaluation: AlertEvaluation
+        if (enhanced.expression) {
+          evaluation = await this.evaluateCompositeAlert(enhanced, enhanced.expression, prices, accountMeasurements)
+        } else {
+          const priceInfo = prices.get(enhanced.symbol.toUpperCase())
+          if (!priceInfo?.current_price) continue
+          evaluation = this.evaluateAlertCondition(enhanced, priceInfo)
+        }
 
-        if (!shouldTrigger) continue
+        if (!evaluation.met) continue
 
         // Check cooldown
         if (alert.lastTriggeredAt) {
@@ -264,11 +357,10 @@ export class EnhancedPriceAlertsService {
         })
 
         const triggerData: AlertTriggerData = {
+          ...evaluation.trigger,
           alertId: alert.id,
           symbol: alert.symbol,
-          currentPrice,
-          triggeredAt: now.getTime(),
-          conditionMet: `${alert.symbol} ${alert.operator} ${alert.threshold}`
+          triggeredAt: now.getTime()
         }
 
         // Send notifications
@@ -286,101 +378,208 @@ export class EnhancedPriceAlertsService {
     return { checked: activeAlerts.length, triggered, items }
   }
 
-  private evaluateAlertCondition(alert: any, currentPrice: number, priceInfo: any): boolean {
-    switch (alert.type || 'price_threshold') {
-      case 'price_threshold':
-        return this.evaluatePriceThreshold(alert.operator, currentPrice, alert.threshold)
-      
-      case 'price_change':
-        // Would need historical price data
-        return false
-      
-      case 'volume_spike':
-        // Would need volume data
-        return false
-      
-      case 'volatility':
-        // Would need volatility calculation
-        return false
-      
-      default:
-        return this.evaluatePriceThreshold(alert.operator, currentPrice, alert.threshold)
+  private evaluateAlertCondition(alert: PriceAlert, priceInfo: CryptoPrice): AlertEvaluation {
+    const type = alert.type || 'price_threshold'
+    const timeframe = alert.timeframe || DEFAULT_TIMEFRAMES[type] || DEFAULT_TIMEFRAMES.price_threshold
+    const symbol = alert.symbol.toUpperCase()
+    const measurements = this.marketMeasurements(symbol, timeframe, priceInfo)
+
+    if (!(type in MEASURE_LABELS)) {
+      return {
+        met: compareToThreshold(alert.operator, priceInfo.current_price, alert.threshold),
+        trigger: { ...measurements, conditionMet: `${symbol} ${alert.operator} ${alert.threshold}` }
+      }
     }
-  }
 
-  private evaluatePriceThreshold(operator: string, currentPrice: number, threshold: number): boolean {
-    switch (operator) {
-      case 'GT':
-        return currentPrice > threshold
-      case 'LT':
-        return currentPrice < threshold
-      case 'EQ':
-        return Math.abs(currentPrice - threshold) < (threshold * 0.001) // 0.1% tolerance
-      default:
-        return false
+    // Not enough history in the window yet to measure the condition
+    const measured = this.measureMarket(symbol, type, timeframe, priceInfo)
+    if (!measured) return { met: false, trigger: { ...measurements, conditionMet: '' } }
+
+    const label = MEASURE_LABELS[type as keyof typeof MEASURE_LABELS](timeframe)
+    const detail = measured.bands ? ` (bands ${round(measured.bands.lower)}–${round(measured.bands.upper)})` : ''
+    return {
+      met: compareToThreshold(alert.operator, measured.value, alert.threshold),
+      trigger: {
+        ...measurements,
+        conditionMet: `${symbol} ${label} ${round(measured.value)}% ${alert.operator} ${alert.threshold}%${detail}`
+      }
     }
   }
 
-  private async sendAlertNotifications(alert: any, triggerData: AlertTriggerData): Promise<void> {
-    const notificationMethods = alert.notificationMethods?.split(',') || ['browser']
-    
-    for (const method of notificationMethods) {
-      try {
-        switch (method) {
-          case 'email':
-            if (alert.emailEnabled) {
-              await this.sendEmailNotification(alert, triggerData)
-            }
-            break
-          
-          case 'browser':
-            if (alert.browserEnabled) {
-              await this.sendBrowserNotification(alert, triggerData)
-            }
-            break
-          
-          case 'sms':
-            if (alert.smsEnabled) {
-              await this.sendSMSNotification(alert, triggerData)
-            }
-            break
-          
-          case 'webhook':
-            await this.sendWebhookNotification(alert, triggerData)
-            break
+  private async evaluateCompositeAlert(
+    alert: PriceAlert,
+    expression: AlertExpression,
+    prices: Map<string, CryptoPrice>,
+    accountMeasurements: Map<string, Promise<number | null>>
+  ): Promise<AlertEvaluation> {
+    const values = new Map<AlertConditionNode, number>()
+
+    const { met, matched } = await evaluateAlertExpression(expression, async condition => {
+      const timeframe = condition.timeframe || DEFAULT_TIMEFRAMES[condition.type]
+      let value: number | null = null
+
+      switch (condition.subject.kind) {
+        case 'asset': {
+          const priceInfo = prices.get(condition.subject.symbol)
+          value = priceInfo?.current_price ? this.measureMarket(condition.subject.symbol, condition.type, timeframe, priceInfo)?.value ?? null : null
+          break
+        }
+        case 'ratio':
+          value = this.measureMarket(subjectKey(condition.subject), condition.type, timeframe)?.value ?? null
+          break
+        default: {
+          const key = `${alert.userId}:${subjectKey(condition.subject)}:${condition.type}:${timeframe}`
+          if (!accountMeasurements.has(key)) {
+            accountMeasurements.set(key, this.measureAccount(alert.userId, condition, timeframe))
+          }
+          value = await accountMeasurements.get(key)!
         }
-      } catch (error) {
-        console.error(`Failed to send ${method} notification for alert ${alert.id}:`, error)
+      }
+
+      if (value !== null) values.set(condition, value)
+      return value
+    })
+
+    // Price details on the trigger follow the first asset the expression watches
+    const asset = expressionSymbols(expression).map(symbol => prices.get(symbol)).find(price => price?.current_price)
+    const measurements = asset
+      ? this.marketMeasurements(asset.symbol.toUpperCase(), DEFAULT_TIMEFRAMES.price_change, asset)
+      : { currentPrice: 0 }
+
+    return {
+      met,
+      trigger: {
+        ...measurements,
+        conditionMet: matched.map(condition => `${describeCondition(condition)} (${round(values.get(condition) ?? NaN)})`).join('; ')
       }
     }
   }
 
-  private async sendEmailNotification(alert: any, triggerData: AlertTriggerData): Promise<void> {
-    const user = await prisma.user.findUnique({ where: { id: alert.userId } })
-    if (!user?.email) return
-
-    await emailService.sendAlertTriggered(
-      user.email,
-      triggerData.symbol,
-      alert.operator as any,
-      alert.threshold,
-      triggerData.currentPrice
-    )
+  // Price move over the timeframe, volume and market cap reported with every trigger
+  private marketMeasurements(symbol: string, timeframe: string, priceInfo: CryptoPrice) {
+    const priceChange = this.window.change(symbol, 'price', parseTimeframe(timeframe))
+    const changePercentage = this.measureMarket(symbol, 'price_change', timeframe, priceInfo)?.value
+    const previousPrice = priceChange?.previous
+      ?? (changePercentage !== undefined ? priceInfo.current_price / (1 + changePercentage / 100) : undefined)
+
+    return {
+      currentPrice: priceInfo.current_price,
+      previousPrice,
+      changeAmount: previousPrice !== undefined ? priceInfo.current_price - previousPrice : undefined,
+      changePercentage,
+      volume24h: priceInfo.volume_24h,
+      marketCap: priceInfo.market_cap
+    }
   }
 
-  private async sendBrowserNotification(alert: any, triggerData: AlertTriggerData): Promise<void> {
-    // This would integrate with WebSocket or push notification service
-    console.log('Browser notification:', triggerData)
+  /**
+   * Current value of a market condition on a symbol or ratio series, or null while the window
+   * is too short to measure it.
+   */
+  private measureMarket(key: string, type: AlertType, timeframe: string, priceInfo?: CryptoPrice): MarketMeasurement | null {
+    const timeframeMs = parseTimeframe(timeframe)
+
+    switch (type) {
+      case 'price_threshold': {
+        const price = priceInfo?.current_price ?? this.window.latest(key)?.price
+        return price ? { value: price } : null
+      }
+
+      case 'price_change': {
+        const change = this.window.change(key, 'price', timeframeMs)
+        if (change) return { value: change.changePercentage }
+        // Until the window reaches back a full day, the feed's own 24h change stands in for 24h timeframes
+        const feedChange = priceInfo && (timeframe === '24h' || timeframe === '1d') ? priceInfo.price_change_percentage_24h : NaN
+        return isFinite(feedChange) ? { value: feedChange } : null
+      }
+
+      case 'market_cap_change': {
+        const change = this.window.change(key, 'marketCap', timeframeMs)
+        return change ? { value: change.changePercentage } : null
+      }
+
+      case 'volume_spike': {
+        const spike = this.window.volumeSpike(key, timeframeMs)
+        return spike ? { value: spike.ratioPercentage } : null
+      }
+
+      case 'volatility': {
+        const bands = this.window.volatility(key, timeframeMs)
+        return bands ? { value: bands.volatilityPercentage, bands } : null
+      }
+
+      default:
+        return null
+    }
   }
 
-  private async sendSMSNotification(alert: any, triggerData: AlertTriggerData): Promise<void> {
-    // This would integrate with SMS service like Twilio
-    console.log('SMS notification:', triggerData)
+  /**
+   * Portfolio value (or its percent change over the timeframe) across the user's connected
+   * wallets from their snapshots, or the lowest health factor of their DeFi positions from a
+   * recent scan. The worker runs alerts in its own process, so positions are scanned there on demand.
+   */
+  private async measureAccount(userId: string, condition: AlertConditionNode, timeframe: string): Promise<number | null> {
+    const wallets = await prisma.walletConnection.findMany({ where: { userId, isActive: true }, select: { address: true } })
+    const addresses: string[] = Array.from(new Set(wallets.map((wallet: { address: string }) => wallet.address.toLowerCase())))
+
+    if (condition.subject.kind === 'defi_health') {
+      const { defiPositionTracker } = await import('@/lib/defi-position-tracker')
+      const positions = await Promise.all(addresses.map(address => defiPositionTracker.getRecentPositions(address, POSITION_MAX_AGE_MS)))
+      const healthFactors = positions
+        .flat()
+        .map(position => position.metrics.healthFactor)
+        .filter((healthFactor): healthFactor is number => typeof healthFactor === 'number' && healthFactor > 0)
+      return healthFactors.length > 0 ? Math.min(...healthFactors) : null
+    }
+
+    const { portfolioAnalytics } = await import('@/lib/portfolio-analytics')
+    let current = 0
+    let baseline = 0
+    let measured = false
+    for (const address of addresses) {
+      const [latest] = await portfolioAnalytics.getSnapshots(address, { limit: 1 })
+      if (!latest) continue
+      if (condition.type === 'price_change') {
+        const [previous] = await portfolioAnalytics.getSnapshots(address, { to: latest.timestamp - parseTimeframe(timeframe), limit: 1 })
+        if (!previous) continue
+        baseline += previous.totalValue
+      }
+      current += latest.totalValue
+      measured = true
+    }
+
+    if (!measured) return null
+    if (condition.type !== 'price_change') return current
+    return baseline > 0 ? ((current - baseline) / baseline) * 100 : null
   }
 
-  private async sendWebhookNotification(alert: any, triggerData: AlertTriggerData): Promise<void> {
-    // This would send to configured webhook URL
-    console.log('Webhook notification:', triggerData)
+  // Browser notifications are delivered as Web Push
+  private async sendAlertNotifications(alert: any, triggerData: AlertTriggerData): Promise<void> {
+    const methods: string[] = alert.notificationMethods?.split(',') || ['browser']
+    const channels = methods.flatMap((method): NotificationChannel[] => {
+      switch (method) {
+        case 'email': return alert.emailEnabled ? ['email'] : []
+        case 'browser': return alert.browserEnabled ? ['push'] : []
+        case 'sms': return alert.smsEnabled ? ['sms'] : []
+        case 'webhook': return ['webhook']
+        default: return []
+      }
+    })
+
+    // With no channels left the alert still lands in the in-app inbox
+    try {
+      await notificationService.publish({
+        userId: alert.userId,
+        category: 'price-alert',
+        priority: 'high',
+        title: `Price alert: ${alert.name || triggerData.symbol}`,
+        body: triggerData.conditionMet,
+        data: { ...triggerData },
+        channels
+      })
+    } catch (error) {
+      console.error(`Failed to publish notifications for alert ${alert.id}:`, error)
+    }
   }
 
   // Statistics and Analytics
@@ -470,6 +669,8 @@ export class EnhancedPriceAlertsService {
       description: metadata.originalDescription || '',
       symbol: alert.symbol,
       type: metadata.type || 'price_threshold',
+      timeframe: metadata.timeframe,
+      expression: alert.expression ?? undefined,
       operator: alert.operator,
       threshold: alert.threshold,
       status: 'active',
@@ -494,5 +695,20 @@ export class EnhancedPriceAlertsService {
   }
 }
 
+// Composite alerts still fill the row's required symbol, operator and threshold columns
+function compositeColumns(expression: AlertExpression) {
+  const [first] = expressionConditions(expression)
+  const symbols = expressionSymbols(expression)
+  return {
+    symbol: symbols.length > 0 ? symbols.join(',') : subjectKey(first.subject).toUpperCase(),
+    operator: first.operator,
+    threshold: first.value
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
 // Export singleton instance
 export const enhancedPriceAlertsService = EnhancedPriceAlertsService.getInstance()
\ No newline at end of file
@@ -0,0 +1,68 @@
+/**
+ * Exchange Rates
+ * Daily USD reference rates (ECB, via the Frankfurter API) for reporting USD amounts in another currency
+ */
+
+import axios from 'axios'
+
+const FRANKFURTER_URL = 'https://api.frankfurter.app'
+const DAY_MS = 24 * 60 * 60 * 1000
+// Rates are published on working days, so ranges start early enough to include the one before a weekend or holiday
+const LOOKBACK_DAYS = 7
+
+export class ExchangeRateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ExchangeRateError'
+  }
+}
+
+function isoDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10)
+}
+
+/**
+ * Units of a currency per USD by UTC day. Days without a published rate use the last one before them.
+ */
+export class DailyRates {
+  private days: string[]
+
+  constructor(readonly currency: string, private rates: Map<string, number>) {
+    this.days = Array.from(rates.keys()).sort()
+  }
+
+  rateAt(timestamp: number): number {
+    const day = isoDay(timestamp)
+    // Index of the first published day after `day`
+    let low = 0
+    let high = this.days.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (this.days[mid] <= day) low = mid + 1
+      else high = mid
+    }
+    if (low === 0) {
+      throw new ExchangeRateError(`No USD/${this.currency} rate on or before ${day}`)
+    }
+    return this.rates.get(this.days[low - 1])!
+  }
+}
+
+export async function fetchDailyRates(currency: string, from: number, to: number): Promise<DailyRates> {
+  const range = `${isoDay(from - LOOKBACK_DAYS * DAY_MS)}..${isoDay(Math.min(to, Date.now()))}`
+  let rates: { [day: string]: { [currency: string]: number } }
+  try {
+    const response = await axios.get(`${FRANKFURTER_URL}/${range}`, {
+      params: { from: 'USD', to: currency },
+      timeout: 15000
+    })
+    rates = (response.data as { rates?: typeof rates }).rates ?? {}
+  } catch (error) {
+    console.error(`Failed to fetch USD/${currency} rates:`, error)
+    throw new ExchangeRateError(`USD/${currency} rates are unavailable`)
+  }
+
+  return new DailyRates(currency, new Map(Object.entries(rates)
+    .map(([day, values]): [string, number] => [day, values[currency]])
+    .filter(([, rate]) => isFinite(rate) && rate > 0)))
+}
@@ -0,0 +1,65 @@
+/**
+ * Income Event Persistence
+ * Records income received by wallets, such as claimed DeFi rewards, in Postgres
+ */
+
+import type { IncomeEvent } from './defi-position-tracker'
+
+// Prisma is loaded lazily so the tracker module stays importable from client components
+async function getPrisma() {
+  const { prisma } = await import('@/lib/db')
+  return prisma
+}
+
+/**
+ * Stores income events, skipping ones already recorded. Returns the number stored.
+ */
+export async function insertIncomeEvents(events: IncomeEvent[]): Promise<number> {
+  if (events.length === 0) return 0
+  const prisma = await getPrisma()
+  const result = await prisma.incomeEvent.createMany({
+    data: events.map(event => ({
+      walletAddress: event.walletAddress.toLowerCase(),
+      source: event.source,
+      protocol: event.protocol ?? null,
+      chainId: event.chainId,
+      symbol: event.symbol,
+      amount: event.amount,
+      price: event.price,
+      usdValue: event.usdValue,
+      receivedAt: new Date(event.receivedAt)
+    })),
+    skipDuplicates: true
+  })
+  return result.count
+}
+
+/**
+ * Income received by any of the wallets within [from, to), oldest first.
+ */
+export async function findIncomeEvents(walletAddresses: string[], from?: number, to?: number): Promise<IncomeEvent[]> {
+  if (walletAddresses.length === 0) return []
+  const prisma = await getPrisma()
+  const rows = await prisma.incomeEvent.findMany({
+    where: {
+      walletAddress: { in: walletAddresses.map(address => address.toLowerCase()) },
+      receivedAt: {
+        ...(from !== undefined ? { gte: new Date(from) } : {}),
+        ...(to !== undefined ? { lt: new Date(to) } : {})
+      }
+    },
+    orderBy: { receivedAt: 'asc' }
+  })
+  return rows.map((row: Omit<IncomeEvent, 'receivedAt' | 'protocol'> & { receivedAt: Date; protocol: string | null }) => ({
+    id: row.id,
+    walletAddress: row.walletAddress,
+    source: row.source,
+    protocol: row.protocol ?? undefined,
+    chainId: row.chainId,
+    symbol: row.symbol,
+    amount: row.amount,
+    price: row.price,
+    usdValue: row.usdValue,
+    receivedAt: new Date(row.receivedAt).getTime()
+  }))
+}
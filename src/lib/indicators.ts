@@ -0,0 +1,557 @@
+/**
+ * Technical Indicators
+ * Incremental indicator implementations (SMA, EMA, RSI, MACD, Bollinger Bands, ATR,
+ * VWAP, Stochastic, OBV) with batch helpers and the shared signal rules built on them
+ */
+
+import { Candle } from './candles'
+
+/**
+ * Every indicator can be fed one input at a time. `update` returns the new
+ * value, or null while the indicator is still warming up.
+ */
+export interface Indicator<TInput, TOutput> {
+  update(input: TInput): TOutput | null
+  readonly value: TOutput | null
+  reset(): void
+}
+
+export class SMA implements Indicator<number, number> {
+  private window: number[] = []
+  private sum = 0
+  value: number | null = null
+
+  constructor(readonly period: number) {
+    if (!(period >= 1)) throw new Error('SMA period must be at least 1')
+  }
+
+  update(input: number): number | null {
+    this.window.push(input)
+    this.sum += input
+    if (this.window.length > this.period) {
+      this.sum -= this.window.shift()!
+    }
+    this.value = this.window.length === this.period ? this.sum / this.period : null
+    return this.value
+  }
+
+  reset(): void {
+    this.window = []
+    this.sum = 0
+    this.value = null
+  }
+}
+
+/**
+ * Exponential moving average seeded with the SMA of the first `period` inputs.
+ */
+export class EMA implements Indicator<number, number> {
+  private seed: SMA
+  private multiplier: number
+  value: number | null = null
+
+  constructor(readonly period: number) {
+    this.seed = new SMA(period)
+    this.multiplier = 2 / (period + 1)
+  }
+
+  update(input: number): number | null {
+    if (this.value === null) {
+      this.value = this.seed.update(input)
+    } else {
+      this.value = (input - this.value) * this.multiplier + this.value
+    }
+    return this.value
+  }
+
+  reset(): void {
+    this.seed.reset()
+    this.value = null
+  }
+}
+
+// Wilder's smoothing, used by RSI and ATR: an SMA seed, then (prev * (n - 1) + x) / n
+class WilderAverage {
+  private seed: SMA
+  value: number | null = null
+
+  constructor(private period: number) {
+    this.seed = new SMA(period)
+  }
+
+  update(input: number): number | null {
+    this.value = this.value === null
+      ? this.seed.update(input)
+      : (this.value * (this.period - 1) + input) / this.period
+    return this.value
+  }
+
+  reset(): void {
+    this.seed.reset()
+    this.value = null
+  }
+}
+
+export class RSI implements Indicator<number, number> {
+  private gains: WilderAverage
+  private losses: WilderAverage
+  private previous: number | null = null
+  value: number | null = null
+
+  constructor(readonly period: number = 14) {
+    this.gains = new WilderAverage(period)
+    this.losses = new WilderAverage(period)
+  }
+
+  update(input: number): number | null {
+    if (this.previous === null) {
+      this.previous = input
+      return null
+    }
+
+    const change = input - this.previous
+    this.previous = input
+    const gain = this.gains.update(Math.max(change, 0))
+    const loss = this.losses.update(Math.max(-change, 0))
+
+    if (gain === null || loss === null) return null
+    this.value = loss === 0 ? (gain === 0 ? 50 : 100) : 100 - 100 / (1 + gain / loss)
+    return this.value
+  }
+
+  reset(): void {
+    this.gains.reset()
+    this.losses.reset()
+    this.previous = null
+    this.value = null
+  }
+}
+
+export interface MACDValue {
+  macd: number
+  signal: number
+  histogram: number
+}
+
+export class MACD implements Indicator<number, MACDValue> {
+  private fast: EMA
+  private slow: EMA
+  private signalLine: EMA
+  value: MACDValue | null = null
+
+  constructor(readonly fastPeriod: number = 12, readonly slowPeriod: number = 26, readonly signalPeriod: number = 9) {
+    this.fast = new EMA(fastPeriod)
+    this.slow = new EMA(slowPeriod)
+    this.signalLine = new EMA(signalPeriod)
+  }
+
+  update(input: number): MACDValue | null {
+    const fast = this.fast.update(input)
+    const slow = this.slow.update(input)
+    if (fast === null || slow === null) return null
+
+    const macd = fast - slow
+    const signal = this.signalLine.update(macd)
+    this.value = signal === null ? null : { macd, signal, histogram: macd - signal }
+    return this.value
+  }
+
+  reset(): void {
+    this.fast.reset()
+    this.slow.reset()
+    this.signalLine.reset()
+    this.value = null
+  }
+}
+
+export interface BollingerValue {
+  upper: number
+  middle: number
+  lower: number
+  percentB: number // 0 at the lower band, 1 at the upper band
+  bandwidth: number // (upper - lower) / middle
+}
+
+export class BollingerBands implements Indicator<number, BollingerValue> {
+  private window: number[] = []
+  value: BollingerValue | null = null
+
+  constructor(readonly period: number = 20, readonly stdDev: number = 2) {}
+
+  update(input: number): BollingerValue | null {
+    this.window.push(input)
+    if (this.window.length > this.period) this.window.shift()
+    if (this.window.length < this.period) return null
+
+    const middle = this.window.reduce((sum, value) => sum + value, 0) / this.period
+    const deviation = Math.sqrt(this.window.reduce((sum, value) => sum + (value - middle) ** 2, 0) / this.period)
+    const upper = middle + this.stdDev * deviation
+    const lower = middle - this.stdDev * deviation
+
+    this.value = {
+      upper,
+      middle,
+      lower,
+      percentB: upper === lower ? 0.5 : (input - lower) / (upper - lower),
+      bandwidth: middle === 0 ? 0 : (upper - lower) / middle
+    }
+    return this.value
+  }
+
+  reset(): void {
+    this.window = []
+    this.value = null
+  }
+}
+
+export class ATR implements Indicator<Candle, number> {
+  private average: WilderAverage
+  private previousClose: number | null = null
+  value: number | null = null
+
+  constructor(readonly period: number = 14) {
+    this.average = new WilderAverage(period)
+  }
+
+  update(candle: Candle): number | null {
+    const trueRange = this.previousClose === null
+      ? candle.high - candle.low
+      : Math.max(
+          candle.high - candle.low,
+          Math.abs(candle.high - this.previousClose),
+          Math.abs(candle.low - this.previousClose)
+        )
+    this.previousClose = candle.close
+    this.value = this.average.update(trueRange)
+    return this.value
+  }
+
+  reset(): void {
+    this.average.reset()
+    this.previousClose = null
+    this.value = null
+  }
+}
+
+/**
+ * Volume weighted average of the typical price. With `sessionMs` set, the
+ * running totals restart at each session boundary (e.g. daily at 00:00 UTC).
+ */
+export class VWAP implements Indicator<Candle, number> {
+  private priceVolume = 0
+  private volume = 0
+  private session: number | null = null
+  value: number | null = null
+
+  constructor(readonly sessionMs?: number) {}
+
+  update(candle: Candle): number | null {
+    if (this.sessionMs) {
+      const session = Math.floor(candle.timestamp / this.sessionMs)
+      if (session !== this.session) {
+        this.priceVolume = 0
+        this.volume = 0
+        this.session = session
+      }
+    }
+
+    const typicalPrice = (candle.high + candle.low + candle.close) / 3
+    this.priceVolume += typicalPrice * candle.volume
+    this.volume += candle.volume
+    this.value = this.volume > 0 ? this.priceVolume / this.volume : typicalPrice
+    return this.value
+  }
+
+  reset(): void {
+    this.priceVolume = 0
+    this.volume = 0
+    this.session = null
+    this.value = null
+  }
+}
+
+export interface StochasticValue {
+  k: number
+  d: number
+}
+
+export class Stochastic implements Indicator<Candle, StochasticValue> {
+  private window: Candle[] = []
+  private smoothing: SMA
+  value: StochasticValue | null = null
+
+  constructor(readonly period: number = 14, readonly smoothPeriod: number = 3) {
+    this.smoothing = new SMA(smoothPeriod)
+  }
+
+  update(candle: Candle): StochasticValue | null {
+    this.window.push(candle)
+    if (this.window.length > this.period) this.window.shift()
+    if (this.window.length < this.period) return null
+
+    const highest = Math.max(...this.window.map(c => c.high))
+    const lowest = Math.min(...this.window.map(c => c.low))
+    const k = highest === lowest ? 50 : (candle.close - lowest) / (highest - lowest) * 100
+    const d = this.smoothing.update(k)
+
+    this.value = d === null ? null : { k, d }
+    return this.value
+  }
+
+  reset(): void {
+    this.window = []
+    this.smoothing.reset()
+    this.value = null
+  }
+}
+
+export class OBV implements Indicator<Candle, number> {
+  private previousClose: number | null = null
+  value: number | null = null
+
+  update(candle: Candle): number | null {
+    if (this.previousClose === null) {
+      this.value = 0
+    } else if (candle.close > this.previousClose) {
+      this.value = this.value! + candle.volume
+    } else if (candle.close < this.previousClose) {
+      this.value = this.value! - candle.volume
+    }
+    this.previousClose = candle.close
+    return this.value
+  }
+
+  reset(): void {
+    this.previousClose = null
+    this.value = null
+  }
+}
+
+function run<TInput, TOutput>(indicator: Indicator<TInput, TOutput>, inputs: TInput[]): (TOutput | null)[] {
+  return inputs.map(input => indicator.update(input))
+}
+
+// Batch helpers: output arrays line up with the input, with null during warm-up
+export const sma = (values: number[], period: number) => run(new SMA(period), values)
+export const ema = (values: number[], period: number) => run(new EMA(period), values)
+export const rsi = (values: number[], period: number = 14) => run(new RSI(period), values)
+export const macd = (values: number[], fast = 12, slow = 26, signal = 9) => run(new MACD(fast, slow, signal), values)
+export const bollingerBands = (values: number[], period = 20, stdDev = 2) => run(new BollingerBands(period, stdDev), values)
+export const atr = (candles: Candle[], period: number = 14) => run(new ATR(period), candles)
+export const vwap = (candles: Candle[], sessionMs?: number) => run(new VWAP(sessionMs), candles)
+export const stochastic = (candles: Candle[], period = 14, smoothPeriod = 3) => run(new Stochastic(period, smoothPeriod), candles)
+export const obv = (candles: Candle[]) => run(new OBV(), candles)
+
+export interface IndicatorSnapshot {
+  close: number
+  timestamp: number
+  sma20: number | null
+  ema20: number | null
+  rsi14: number | null
+  macd: MACDValue | null
+  bollinger: BollingerValue | null
+  atr14: number | null
+  vwap: number | null
+  stochastic: StochasticValue | null
+  obv: number | null
+  obvChange: number | null // OBV change over the last 10 candles
+}
+
+const OBV_LOOKBACK = 10
+
+/**
+ * Keeps one instance of every indicator in sync with a candle series, so
+ * consumers can push candles as they close instead of recomputing history.
+ */
+export class IndicatorSet {
+  private sma20 = new SMA(20)
+  private ema20 = new EMA(20)
+  private rsi14 = new RSI(14)
+  private macd = new MACD()
+  private bollinger = new BollingerBands()
+  private atr14 = new ATR(14)
+  private vwap: VWAP
+  private stochastic = new Stochastic()
+  private obv = new OBV()
+  private obvHistory: number[] = []
+  private last: Candle | null = null
+
+  constructor(vwapSessionMs?: number) {
+    this.vwap = new VWAP(vwapSessionMs)
+  }
+
+  update(candle: Candle): IndicatorSnapshot {
+    this.last = candle
+    this.sma20.update(candle.close)
+    this.ema20.update(candle.close)
+    this.rsi14.update(candle.close)
+    this.macd.update(candle.close)
+    this.bollinger.update(candle.close)
+    this.atr14.update(candle)
+    this.vwap.update(candle)
+    this.stochastic.update(candle)
+
+    const obvValue = this.obv.update(candle)!
+    this.obvHistory.push(obvValue)
+    if (this.obvHistory.length > OBV_LOOKBACK + 1) this.obvHistory.shift()
+
+    return this.snapshot()!
+  }
+
+  snapshot(): IndicatorSnapshot | null {
+    if (!this.last) return null
+    return {
+      close: this.last.close,
+      timestamp: this.last.timestamp,
+      sma20: this.sma20.value,
+      ema20: this.ema20.value,
+      rsi14: this.rsi14.value,
+      macd: this.macd.value,
+      bollinger: this.bollinger.value,
+      atr14: this.atr14.value,
+      vwap: this.vwap.value,
+      stochastic: this.stochastic.value,
+      obv: this.obv.value,
+      obvChange: this.obvHistory.length > OBV_LOOKBACK
+        ? this.obvHistory[this.obvHistory.length - 1] - this.obvHistory[0]
+        : null
+    }
+  }
+}
+
+export function computeIndicators(candles: Candle[], vwapSessionMs?: number): IndicatorSnapshot | null {
+  const set = new IndicatorSet(vwapSessionMs)
+  candles.forEach(candle => set.update(candle))
+  return set.snapshot()
+}
+
+export interface IndicatorReading {
+  name: string
+  value: number
+  signal: 'bullish' | 'bearish' | 'neutral'
+  strength: number // 0-100, how far past its threshold the reading is
+  weight: number // share of the combined score, weights sum to 1
+  threshold?: number
+  condition: string // the rule that produced the signal, with the actual numbers
+}
+
+// Rule thresholds used by both the trading and the predictive engines
+export const SIGNAL_THRESHOLDS = {
+  rsiOversold: 30,
+  rsiOverbought: 70,
+  stochasticOversold: 20,
+  stochasticOverbought: 80,
+  bollingerLower: 0,
+  bollingerUpper: 1
+}
+
+const clampStrength = (value: number) => Math.max(0, Math.min(100, value))
+const format = (value: number) => (Math.abs(value) >= 1000 ? value.toFixed(2) : value.toPrecision(4))
+
+/**
+ * Turns an indicator snapshot into directional readings. Indicators still
+ * warming up are left out rather than guessed.
+ */
+export function evaluateIndicators(snapshot: IndicatorSnapshot): IndicatorReading[] {
+  const readings: IndicatorReading[] = []
+  const { close } = snapshot
+  const t = SIGNAL_THRESHOLDS
+
+  if (snapshot.rsi14 !== null) {
+    const value = snapshot.rsi14
+    readings.push(value < t.rsiOversold
+      ? { name: 'RSI (14)', value, signal: 'bullish', strength: clampStrength((t.rsiOversold - value) / t.rsiOversold * 100), weight: 0.2, threshold: t.rsiOversold, condition: `RSI ${format(value)} < ${t.rsiOversold} (oversold)` }
+      : value > t.rsiOverbought
+        ? { name: 'RSI (14)', value, signal: 'bearish', strength: clampStrength((value - t.rsiOverbought) / (100 - t.rsiOverbought) * 100), weight: 0.2, threshold: t.rsiOverbought, condition: `RSI ${format(value)} > ${t.rsiOverbought} (overbought)` }
+        : { name: 'RSI (14)', value, signal: 'neutral', strength: 0, weight: 0.2, condition: `RSI ${format(value)} within ${t.rsiOversold}-${t.rsiOverbought}` })
+  }
+
+  if (snapshot.macd !== null) {
+    const { histogram, macd: line, signal } = snapshot.macd
+    const scale = snapshot.atr14 && snapshot.atr14 > 0 ? snapshot.atr14 : Math.abs(close) * 0.01 || 1
+    readings.push({
+      name: 'MACD (12, 26, 9)',
+      value: histogram,
+      signal: histogram > 0 ? 'bullish' : histogram < 0 ? 'bearish' : 'neutral',
+      strength: clampStrength(Math.abs(histogram) / scale * 100),
+      weight: 0.25,
+      threshold: 0,
+      condition: `MACD ${format(line)} ${histogram >= 0 ? '>' : '<'} signal ${format(signal)} (histogram ${format(histogram)})`
+    })
+  }
+
+  if (snapshot.bollinger !== null) {
+    const { percentB, lower, upper } = snapshot.bollinger
+    readings.push(percentB < t.bollingerLower
+      ? { name: 'Bollinger Bands (20, 2)', value: percentB, signal: 'bullish', strength: clampStrength(-percentB * 100), weight: 0.15, threshold: t.bollingerLower, condition: `Close ${format(close)} below lower band ${format(lower)}` }
+      : percentB > t.bollingerUpper
+        ? { name: 'Bollinger Bands (20, 2)', value: percentB, signal: 'bearish', strength: clampStrength((percentB - 1) * 100), weight: 0.15, threshold: t.bollingerUpper, condition: `Close ${format(close)} above upper band ${format(upper)}` }
+        : { name: 'Bollinger Bands (20, 2)', value: percentB, signal: 'neutral', strength: 0, weight: 0.15, condition: `Close ${format(close)} inside bands ${format(lower)}-${format(upper)}` })
+  }
+
+  if (snapshot.stochastic !== null) {
+    const { k, d } = snapshot.stochastic
+    readings.push(k < t.stochasticOversold && k > d
+      ? { name: 'Stochastic (14, 3)', value: k, signal: 'bullish', strength: clampStrength((t.stochasticOversold - k) / t.stochasticOversold * 100), weight: 0.15, threshold: t.stochasticOversold, condition: `%K ${format(k)} < ${t.stochasticOversold} and crossing above %D ${format(d)}` }
+      : k > t.stochasticOverbought && k < d
+        ? { name: 'Stochastic (14, 3)', value: k, signal: 'bearish', strength: clampStrength((k - t.stochasticOverbought) / (100 - t.stochasticOverbought) * 100), weight: 0.15, threshold: t.stochasticOverbought, condition: `%K ${format(k)} > ${t.stochasticOverbought} and crossing below %D ${format(d)}` }
+        : { name: 'Stochastic (14, 3)', value: k, signal: 'neutral', strength: 0, weight: 0.15, condition: `%K ${format(k)}, %D ${format(d)}` })
+  }
+
+  if (snapshot.ema20 !== null) {
+    const value = snapshot.ema20
+    const distance = (close - value) / value * 100
+    readings.push({
+      name: 'EMA (20)',
+      value,
+      signal: distance > 0 ? 'bullish' : distance < 0 ? 'bearish' : 'neutral',
+      strength: clampStrength(Math.abs(distance) * 20),
+      weight: 0.1,
+      threshold: value,
+      condition: `Close ${format(close)} ${distance >= 0 ? 'above' : 'below'} EMA ${format(value)} (${distance.toFixed(2)}%)`
+    })
+  }
+
+  if (snapshot.vwap !== null) {
+    const value = snapshot.vwap
+    const distance = (close - value) / value * 100
+    readings.push({
+      name: 'VWAP',
+      value,
+      signal: distance > 0 ? 'bullish' : distance < 0 ? 'bearish' : 'neutral',
+      strength: clampStrength(Math.abs(distance) * 20),
+      weight: 0.1,
+      threshold: value,
+      condition: `Close ${format(close)} ${distance >= 0 ? 'above' : 'below'} VWAP ${format(value)}`
+    })
+  }
+
+  if (snapshot.obvChange !== null) {
+    const value = snapshot.obvChange
+    readings.push({
+      name: 'OBV',
+      value,
+      signal: value > 0 ? 'bullish' : value < 0 ? 'bearish' : 'neutral',
+      strength: snapshot.obv ? clampStrength(Math.abs(value) / Math.max(Math.abs(snapshot.obv), 1) * 100) : 0,
+      weight: 0.05,
+      threshold: 0,
+      condition: `OBV ${value >= 0 ? 'up' : 'down'} ${format(Math.abs(value))} over ${OBV_LOOKBACK} candles`
+    })
+  }
+
+  return readings
+}
+
+/**
+ * Weighted vote of the readings, from -1 (all bearish) to +1 (all bullish).
+ * Weights are renormalised over the indicators that produced a reading.
+ */
+export function combineReadings(readings: IndicatorReading[]): number {
+  const totalWeight = readings.reduce((sum, reading) => sum + reading.weight, 0)
+  if (totalWeight === 0) return 0
+
+  return readings.reduce((score, reading) => {
+    const direction = reading.signal === 'bullish' ? 1 : reading.signal === 'bearish' ? -1 : 0
+    return score + direction * reading.weight
+  }, 0) / totalWeight
+}
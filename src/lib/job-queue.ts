@@ -0,0 +1,418 @@
+/**
+ * Job Queue
+ * Postgres-backed background jobs: cron schedules enqueue runs, workers take a lease on each run
+ * so it executes once across the cluster, failed runs retry with exponential backoff and runs
+ * that exhaust their attempts are moved to the dead-letter table.
+ */
+
+import os from 'os'
+import { prisma } from '@/lib/db'
+import { nextCronTime, parseCron } from '@/lib/cron'
+
+export type JobRunStatus = 'queued' | 'running' | 'succeeded' | 'dead'
+
+export interface JobContext {
+  runId: string
+  attempt: number
+  scheduledFor: Date
+  signal: AbortSignal // Aborted when the run outlasts its lease; long handlers should stop when it fires
+}
+
+export interface JobDefinition<P = unknown> {
+  name: string
+  handler: (payload: P, context: JobContext) => Promise<unknown>
+  schedule?: string // Cron expression in UTC; runs are only enqueued explicitly without one
+  maxAttempts?: number
+  backoffMs?: number // Delay before the first retry, doubled on each further attempt
+  leaseMs?: number // How long a run may take before it is aborted and becomes claimable again
+}
+
+export interface JobRun {
+  id: string
+  name: string
+  scheduleId: string | null
+  payload: unknown
+  status: JobRunStatus
+  attempts: number
+  maxAttempts: number
+  runAt: Date
+  lockedBy: string | null
+  lockedUntil: Date | null
+  startedAt: Date | null
+  finishedAt: Date | null
+  durationMs: number | null
+  error: string | null
+  createdAt: Date
+}
+
+export interface ScheduleOptions {
+  key?: string // Distinguishes several schedules of the same job, e.g. one per wallet
+  cron: string
+  payload?: unknown
+}
+
+export interface RunDueResult {
+  enqueued: number
+  recovered: number
+  succeeded: number
+  failed: number
+}
+
+type RegisteredJob = Required<Omit<JobDefinition, 'schedule'>> & { schedule?: string }
+
+const DEFAULT_MAX_ATTEMPTS = 5
+const DEFAULT_BACKOFF_MS = 30 * 1000
+const MAX_BACKOFF_MS = 60 * 60 * 1000
+const DEFAULT_LEASE_MS = 5 * 60 * 1000
+const DEFAULT_BATCH_SIZE = 10
+const DEFAULT_POLL_INTERVAL_MS = 5 * 1000
+
+export class JobError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'JobError'
+  }
+}
+
+function scheduleId(name: string, key?: string): string {
+  return key ? `${name}:${key}` : name
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+export class JobQueue {
+  private jobs: Map<string, RegisteredJob> = new Map()
+
+  register<P>(definition: JobDefinition<P>): void {
+    if (definition.schedule) parseCron(definition.schedule)
+    this.jobs.set(definition.name, {
+      maxAttempts: DEFAULT_MAX_ATTEMPTS,
+      backoffMs: DEFAULT_BACKOFF_MS,
+      leaseMs: DEFAULT_LEASE_MS,
+      ...(definition as JobDefinition)
+    })
+  }
+
+  registered(): string[] {
+    return Array.from(this.jobs.keys())
+  }
+
+  async enqueue(name: string, payload?: unknown, runAt: Date = new Date()): Promise<JobRun> {
+    return prisma.jobRun.create({
+      data: {
+        name,
+        payload: payload ?? undefined,
+        status: 'queued',
+        maxAttempts: this.jobs.get(name)?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+        runAt
+      }
+    })
+  }
+
+  /**
+   * Creates or replaces a schedule at runtime. Jobs need not be registered in the calling
+   * process; the worker that has them registered picks up the runs.
+   */
+  async schedule(name: string, { key, cron, payload }: ScheduleOptions, now: Date = new Date()): Promise<void> {
+    const id = scheduleId(name, key)
+    const nextRunAt = nextCronTime(cron, now)
+    await prisma.jobSchedule.upsert({
+      where: { id },
+      create: { id, name, cron, payload: payload ?? undefined, nextRunAt },
+      update: { cron, payload: payload ?? undefined, enabled: true, nextRunAt }
+    })
+  }
+
+  async unschedule(name: string, key?: string): Promise<void> {
+    await prisma.jobSchedule.deleteMany({ where: { id: scheduleId(name, key) } })
+  }
+
+  async setScheduleEnabled(name: string, enabled: boolean, key?: string): Promise<boolean> {
+    const { count } = await prisma.jobSchedule.updateMany({ where: { id: scheduleId(name, key) }, data: { enabled } })
+    return count > 0
+  }
+
+  /**
+   * Writes the schedules of registered jobs to the database. Code owns the cron expression;
+   * whether a schedule is enabled is left as operators set it.
+   */
+  async syncSchedules(now: Date = new Date()): Promise<void> {
+    for (const job of this.jobs.values()) {
+      if (!job.schedule) continue
+      const existing = await prisma.jobSchedule.findUnique({ where: { id: job.name } })
+      if (!existing) {
+        // Upsert: another worker may be starting at the same time
+        await prisma.jobSchedule.upsert({
+          where: { id: job.name },
+          create: { id: job.name, name: job.name, cron: job.schedule, nextRunAt: nextCronTime(job.schedule, now) },
+          update: {}
+        })
+      } else if (existing.cron !== job.schedule) {
+        await prisma.jobSchedule.update({
+          where: { id: job.name },
+          data: { cron: job.schedule, nextRunAt: nextCronTime(job.schedule, now) }
+        })
+      }
+    }
+  }
+
+  /**
+   * Enqueues a run for every schedule that is due. Each schedule is advanced with a
+   * compare-and-set on its nextRunAt, so only one worker enqueues a given tick. Missed ticks
+   * collapse into one run, and a tick is skipped while the schedule's previous run is unfinished.
+   */
+  async enqueueDue(now: Date = new Date()): Promise<number> {
+    const due = await prisma.jobSchedule.findMany({ where: { enabled: true, nextRunAt: { lte: now } } })
+    let enqueued = 0
+
+    for (const schedule of due) {
+      let nextRunAt: Date
+      try {
+        nextRunAt = nextCronTime(schedule.cron, now)
+      } catch (error) {
+        console.error(`Job schedule ${schedule.id} has an invalid cron expression:`, error)
+        continue
+      }
+
+      const { count } = await prisma.jobSchedule.updateMany({
+        where: { id: schedule.id, nextRunAt: schedule.nextRunAt },
+        data: { nextRunAt, lastEnqueuedAt: now }
+      })
+      if (count === 0) continue
+
+      const unfinished = await prisma.jobRun.count({
+        where: { scheduleId: schedule.id, status: { in: ['queued', 'running'] } }
+      })
+      if (unfinished > 0) continue
+
+      await prisma.jobRun.create({
+        data: {
+          name: schedule.name,
+          scheduleId: schedule.id,
+          payload: schedule.payload ?? undefined,
+          status: 'queued',
+          maxAttempts: this.jobs.get(schedule.name)?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+          runAt: schedule.nextRunAt
+        }
+      })
+      enqueued++
+    }
+
+    return enqueued
+  }
+
+  /**
+   * Runs whose lease ran out (the worker died or the job hung) count as a failed attempt.
+   */
+  async recoverExpiredLeases(now: Date = new Date()): Promise<number> {
+    const expired: JobRun[] = await prisma.jobRun.findMany({
+      where: { status: 'running', lockedUntil: { lt: now } }
+    })
+    let recovered = 0
+    for (const run of expired) {
+      if (await this.fail(run, `Lease held by ${run.lockedBy} expired`, now, { lockedUntil: run.lockedUntil })) {
+        recovered++
+      }
+    }
+    return recovered
+  }
+
+  /**
+   * Leases the oldest due run of a registered job to the worker, or returns null when none is due.
+   * Claims are a compare-and-set on the run's status and attempt count, so concurrent workers never
+   * both win a run. The lease starts now, so the run should be executed straight away.
+   */
+  async claim(workerId: string, now: Date = new Date()): Promise<JobRun | null> {
+    // A few candidates, in case other workers win the oldest ones first
+    const candidates: JobRun[] = await prisma.jobRun.findMany({
+      where: { status: 'queued', runAt: { lte: now }, name: { in: this.registered() } },
+      orderBy: { runAt: 'asc' },
+      take: DEFAULT_BATCH_SIZE
+    })
+
+    for (const run of candidates) {
+      const lockedUntil = new Date(now.getTime() + this.jobs.get(run.name)!.leaseMs)
+      const lease = { status: 'running' as const, lockedBy: workerId, lockedUntil, attempts: run.attempts + 1, startedAt: now }
+      const { count } = await prisma.jobRun.updateMany({
+        where: { id: run.id, status: 'queued', attempts: run.attempts },
+        data: { ...lease, finishedAt: null, durationMs: null }
+      })
+      if (count === 1) return { ...run, ...lease }
+    }
+    return null
+  }
+
+  /**
+   * Runs a claimed job and records the outcome. Returns whether it succeeded. A handler still
+   * running when the lease runs out is aborted through its context's signal and the run is failed.
+   */
+  async execute(run: JobRun, now: Date = new Date()): Promise<boolean> {
+    const job = this.jobs.get(run.name)
+    if (!job) throw new JobError(`Job ${run.name} is not registered`)
+
+    const started = Date.now()
+    const finishedAt = () => new Date(now.getTime() + Date.now() - started)
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(new JobError(`Timed out after ${job.leaseMs}ms`)), job.leaseMs)
+    try {
+      const aborted = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true })
+      })
+      await Promise.race([
+        job.handler(run.payload, { runId: run.id, attempt: run.attempts, scheduledFor: run.runAt, signal: controller.signal }),
+        aborted
+      ])
+    } catch (error) {
+      console.error(`Job ${run.name} (${run.id}) failed on attempt ${run.attempts}:`, error)
+      await this.fail(run, errorMessage(error), finishedAt(), { lockedBy: run.lockedBy }, Date.now() - started)
+      return false
+    } finally {
+      clearTimeout(timer)
+    }
+
+    await prisma.jobRun.updateMany({
+      where: { id: run.id, status: 'running', lockedBy: run.lockedBy },
+      data: {
+        status: 'succeeded',
+        lockedBy: null,
+        lockedUntil: null,
+        finishedAt: finishedAt(),
+        durationMs: Date.now() - started,
+        error: null
+      }
+    })
+    return true
+  }
+
+  /**
+   * One worker cycle: recover expired leases, enqueue due schedules, then run up to `limit` due
+   * runs. Each run is claimed only when the previous one has finished, so no lease is spent waiting.
+   */
+  async runDue(workerId: string, now: Date = new Date(), limit: number = DEFAULT_BATCH_SIZE): Promise<RunDueResult> {
+    const recovered = await this.recoverExpiredLeases(now)
+    const enqueued = await this.enqueueDue(now)
+    const result: RunDueResult = { enqueued, recovered, succeeded: 0, failed: 0 }
+
+    // The cycle's clock moves on as runs take time
+    const started = Date.now()
+    for (let executed = 0; executed < limit; executed++) {
+      const claimedAt = new Date(now.getTime() + Date.now() - started)
+      const run = await this.claim(workerId, claimedAt)
+      if (!run) break
+      if (await this.execute(run, claimedAt)) {
+        result.succeeded++
+      } else {
+        result.failed++
+      }
+    }
+    return result
+  }
+
+  async listRuns(filters: { name?: string; status?: JobRunStatus; limit?: number } = {}): Promise<JobRun[]> {
+    return prisma.jobRun.findMany({
+      where: {
+        ...(filters.name && { name: filters.name }),
+        ...(filters.status && { status: filters.status })
+      },
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit ?? 50
+    })
+  }
+
+  async listDeadLetters(limit: number = 50) {
+    return prisma.deadLetterJob.findMany({ orderBy: { failedAt: 'desc' }, take: limit })
+  }
+
+  async listSchedules() {
+    return prisma.jobSchedule.findMany({ orderBy: { id: 'asc' } })
+  }
+
+  // Requeues the run with backoff, or dead-letters it once its attempts are used up
+  private async fail(
+    run: JobRun,
+    error: string,
+    now: Date,
+    lease: { lockedBy?: string | null; lockedUntil?: Date | null },
+    durationMs?: number
+  ): Promise<boolean> {
+    const where = { id: run.id, status: 'running', attempts: run.attempts, ...lease }
+    const finished = { lockedBy: null, lockedUntil: null, finishedAt: now, durationMs: durationMs ?? null, error }
+
+    if (run.attempts < run.maxAttempts) {
+      const backoffMs = (this.jobs.get(run.name)?.backoffMs ?? DEFAULT_BACKOFF_MS) * 2 ** (run.attempts - 1)
+      const { count } = await prisma.jobRun.updateMany({
+        where,
+        data: { ...finished, status: 'queued', runAt: new Date(now.getTime() + Math.min(backoffMs, MAX_BACKOFF_MS)) }
+      })
+      return count === 1
+    }
+
+    const { count } = await prisma.jobRun.updateMany({ where, data: { ...finished, status: 'dead' } })
+    if (count === 1) {
+      await prisma.deadLetterJob.create({
+        data: { jobRunId: run.id, name: run.name, payload: run.payload ?? undefined, attempts: run.attempts, error }
+      })
+    }
+    return count === 1
+  }
+}
+
+export const jobQueue = new JobQueue()
+
+export interface JobWorkerOptions {
+  workerId?: string
+  pollIntervalMs?: number
+  batchSize?: number
+}
+
+/**
+ * Polls the queue until stopped. Any number of workers can run against the same database.
+ */
+export class JobWorker {
+  readonly workerId: string
+  private pollIntervalMs: number
+  private batchSize: number
+  private timer?: ReturnType<typeof setTimeout>
+  private cycle?: Promise<void>
+  private stopped = true
+
+  constructor(private queue: JobQueue = jobQueue, options: JobWorkerOptions = {}) {
+    this.workerId = options.workerId ?? `${os.hostname()}:${process.pid}`
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE
+  }
+
+  async start(): Promise<void> {
+    if (!this.stopped) return
+    this.stopped = false
+    await this.queue.syncSchedules()
+    console.log(`Job worker ${this.workerId} started with jobs: ${this.queue.registered().join(', ')}`)
+    this.poll()
+  }
+
+  /**
+   * Stops polling and waits for the runs in progress to finish.
+   */
+  async stop(): Promise<void> {
+    this.stopped = true
+    clearTimeout(this.timer)
+    await this.cycle
+  }
+
+  private poll(): void {
+    this.cycle = this.queue.runDue(this.workerId, new Date(), this.batchSize)
+      .then(result => {
+        if (result.enqueued + result.recovered + result.succeeded + result.failed > 0) {
+          console.log(`Job worker ${this.workerId}:`, result)
+        }
+      })
+      .catch(error => {
+        console.error('Job worker cycle failed:', error)
+      })
+      .finally(() => {
+        if (!this.stopped) this.timer = setTimeout(() => this.poll(), this.pollIntervalMs)
+      })
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Background Jobs
+ * Registers every scheduled job with the queue. Imported by the worker (src/worker.ts) only;
+ * nothing in the web process runs its own timers.
+ */
+
+import { jobQueue, JobQueue } from '@/lib/job-queue'
+import { cronForInterval } from '@/lib/cron'
+import { checkAndTriggerAlerts } from '@/lib/alerts-service'
+import { enhancedPriceAlertsService } from '@/lib/enhanced-price-alerts-service'
+import { pollExchangeStatuses } from '@/lib/changenow-tracker'
+import { portfolioAnalytics } from '@/lib/portfolio-analytics'
+import { dbService } from '@/lib/db-service'
+import { metricsCollectionService } from '@/lib/metrics-collection'
+import { productionAnalytics, PRODUCTION_ANALYTICS_JOB } from '@/lib/production-analytics'
+import { arbitrageManager, ARBITRAGE_SCAN_JOB } from '@/lib/arbitrage-manager'
+import { advancedTradingEngine } from '@/lib/advanced-trading'
+import { transactionMonitor, MonitoringConfig, TransactionAlert, AlertSeverity, AlertType, TRANSACTION_MONITOR_JOB } from '@/lib/transaction-monitor'
+import { notificationService, NotificationChannel } from '@/lib/notifications'
+import { sendWeeklyReports } from '@/lib/notifications/weekly-report'
+
+export function registerJobs(queue: JobQueue = jobQueue): void {
+  queue.register({
+    name: 'alerts.check',
+    schedule: '* * * * *',
+    handler: () => checkAndTriggerAlerts()
+  })
+
+  queue.register({
+    name: 'alerts.enhanced-check',
+    schedule: '* * * * *',
+    handler: () => enhancedPriceAlertsService.checkAndTriggerAlerts()
+  })
+
+  // ChangeNOW deposits confirm within minutes
+  queue.register({
+    name: 'changenow.poll-exchanges',
+    schedule: '* * * * *',
+    handler: () => pollExchangeStatuses()
+  })
+
+  // Each connected wallet is snapshotted once per snapshot interval; the job only checks hourly
+  queue.register({
+    name: 'portfolio.snapshot-wallets',
+    schedule: '0 * * * *',
+    handler: (_, { signal }) => portfolioAnalytics.snapshotConnectedWallets(Date.now(), signal),
+    leaseMs: 30 * 60 * 1000
+  })
+
+  // Portfolio rows should always equal the ledger projection; differences are flagged as LedgerMismatch rows
+  queue.register({
+    name: 'ledger.reconcile',
+    schedule: '30 * * * *',
+    handler: (_, { signal }) => dbService.reconcileAllPortfolios(signal),
+    leaseMs: 30 * 60 * 1000
+  })
+
+  for (const collector of metricsCollectionService.getCollectors()) {
+    queue.register({
+      name: `metrics.${collector.name}`,
+      schedule: cronForInterval(collector.interval),
+      handler: () => metricsCollectionService.collect(collector.name),
+      maxAttempts: 1 // The next tick collects again
+    })
+  }
+
+  // Scheduled through the analytics API's start-collection action
+  queue.register({
+    name: PRODUCTION_ANALYTICS_JOB,
+    handler: () => productionAnalytics.collectOnce(),
+    maxAttempts: 1
+  })
+
+  queue.register({
+    name: ARBITRAGE_SCAN_JOB,
+    schedule: '* * * * *',
+    handler: () => arbitrageManager.scanForOpportunities(),
+    maxAttempts: 1
+  })
+
+  // Steps the paper-trading engine through real prices, so resting orders fill
+  queue.register({
+    name: 'trading.refresh-prices',
+    schedule: '* * * * *',
+    handler: () => advancedTradingEngine.refreshPrices(),
+    maxAttempts: 1 // The next tick refreshes again
+  })
+
+  // Scheduled per wallet when monitoring starts, with the wallet's MonitoringConfig as payload
+  queue.register<MonitoringConfig>({
+    name: TRANSACTION_MONITOR_JOB,
+    handler: config => transactionMonitor.pollWallet(config)
+  })
+  transactionMonitor.on('notification', (alert: TransactionAlert, config: MonitoringConfig) => {
+    if (!config.userId) return
+    notificationService.publish({
+      userId: config.userId,
+      category: alert.type === AlertType.SUSPICIOUS_ACTIVITY ? 'security' : 'portfolio',
+      title: alert.title,
+      body: alert.message,
+      data: { walletAddress: alert.walletAddress, type: alert.type, severity: alert.severity, transactionHash: alert.transaction.hash },
+      urgent: alert.severity === AlertSeverity.HIGH || alert.severity === AlertSeverity.CRITICAL,
+      channels: config.notificationMethods.map((method): NotificationChannel => (method === 'browser' ? 'push' : method))
+    }).catch(error => console.error(`Failed to publish transaction alert ${alert.id}:`, error))
+  })
+
+  // Sends due outbox deliveries, retries failed ones and sends digests once their time has come
+  queue.register({
+    name: 'notifications.dispatch',
+    schedule: '* * * * *',
+    handler: () => notificationService.dispatchDue()
+  })
+
+  queue.register({
+    name: 'notifications.weekly-report',
+    schedule: '0 9 * * 1',
+    handler: (_, { signal }) => sendWeeklyReports(new Date(), signal),
+    leaseMs: 30 * 60 * 1000
+  })
+}
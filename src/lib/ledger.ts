@@ -0,0 +1,217 @@
+/**
+ * Double-Entry Ledger
+ * Turns transactions into balanced journal entries and derives portfolio holdings from their postings,
+ * so every balance can be reproduced from the ledger and drift can be detected
+ */
+
+export type LedgerAccountType = 'HOLDINGS' | 'CASH' | 'EXTERNAL' | 'FEES'
+
+export type LedgerTransactionType = 'BUY' | 'SELL' | 'DEPOSIT' | 'WITHDRAWAL'
+
+export interface LedgerTransaction {
+  id: string
+  userId: string
+  type: LedgerTransactionType
+  symbol: string
+  amount: number
+  price: number
+  fee: number // USD
+  createdAt: Date
+}
+
+export interface JournalPosting {
+  accountType: LedgerAccountType
+  asset: string
+  amount: number // Positive debits, negative credits
+  usdValue: number
+}
+
+export interface JournalEntry {
+  userId: string
+  transactionId: string | null // Null for opening balances carried over from before the ledger
+  kind: LedgerTransactionType
+  description: string
+  occurredAt: number
+  postings: JournalPosting[]
+}
+
+export interface HoldingProjection {
+  symbol: string
+  amount: number
+  averagePrice: number
+  totalValue: number
+}
+
+export interface ReconciliationMismatch {
+  userId: string
+  symbol: string
+  portfolioAmount: number
+  ledgerAmount: number
+}
+
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LedgerError'
+  }
+}
+
+// The journal could not be written, so nothing was recorded; the request can be retried
+export class LedgerUnavailableError extends Error {
+  constructor(message: string = 'The ledger is unavailable; nothing was recorded, please try again') {
+    super(message)
+    this.name = 'LedgerUnavailableError'
+  }
+}
+
+export const CASH_ASSET = 'USD'
+// Float postings of one entry may not cancel exactly
+const BALANCE_TOLERANCE = 1e-9
+
+function posting(accountType: LedgerAccountType, asset: string, amount: number, price: number): JournalPosting {
+  return { accountType, asset, amount, usdValue: amount * price }
+}
+
+/**
+ * Throws LedgerError unless the postings of each asset sum to zero.
+ */
+export function assertBalanced(entry: Pick<JournalEntry, 'transactionId' | 'postings'>): void {
+  const totals = new Map<string, number>()
+  entry.postings.forEach(({ asset, amount }) => {
+    if (!isFinite(amount)) {
+      throw new LedgerError(`Entry for ${entry.transactionId} has a non-finite ${asset} posting`)
+    }
+    totals.set(asset, (totals.get(asset) ?? 0) + amount)
+  })
+
+  totals.forEach((total, asset) => {
+    const scale = Math.max(1, ...entry.postings.filter(p => p.asset === asset).map(p => Math.abs(p.amount)))
+    if (Math.abs(total) > BALANCE_TOLERANCE * scale) {
+      throw new LedgerError(`Entry for ${entry.transactionId} is unbalanced by ${total} ${asset}`)
+    }
+  })
+}
+
+/**
+ * Journal entry for a transaction:
+ * - BUY: holdings debited from the market, paid for in cash
+ * - SELL: holdings credited to the market, proceeds to cash
+ * - DEPOSIT / WITHDRAWAL: holdings moved in from or out to an external account
+ * Fees are paid from cash into the fees account in every case.
+ */
+export function buildJournalEntry(transaction: LedgerTransaction): JournalEntry {
+  const { type, amount, price, fee } = transaction
+  const symbol = transaction.symbol.toUpperCase()
+  if (!(amount > 0) || !(price >= 0) || !(fee >= 0)) {
+    throw new LedgerError(`Transaction ${transaction.id} needs a positive amount and non-negative price and fee`)
+  }
+
+  const value = amount * price
+  const postings: JournalPosting[] = []
+
+  switch (type) {
+    case 'BUY':
+      postings.push(
+        posting('HOLDINGS', symbol, amount, price),
+        posting('EXTERNAL', symbol, -amount, price),
+        posting('EXTERNAL', CASH_ASSET, value, 1),
+        posting('CASH', CASH_ASSET, -value, 1)
+      )
+      break
+    case 'SELL':
+      postings.push(
+        posting('HOLDINGS', symbol, -amount, price),
+        posting('EXTERNAL', symbol, amount, price),
+        posting('CASH', CASH_ASSET, value, 1),
+        posting('EXTERNAL', CASH_ASSET, -value, 1)
+      )
+      break
+    case 'DEPOSIT':
+      postings.push(
+        posting('HOLDINGS', symbol, amount, price),
+        posting('EXTERNAL', symbol, -amount, price)
+      )
+      break
+    case 'WITHDRAWAL':
+      postings.push(
+        posting('HOLDINGS', symbol, -amount, price),
+        posting('EXTERNAL', symbol, amount, price)
+      )
+      break
+  }
+
+  if (fee > 0) {
+    postings.push(
+      posting('FEES', CASH_ASSET, fee, 1),
+      posting('CASH', CASH_ASSET, -fee, 1)
+    )
+  }
+
+  const entry: JournalEntry = {
+    userId: transaction.userId,
+    transactionId: transaction.id,
+    kind: type,
+    description: `${type} ${amount} ${symbol} @ ${price}${fee > 0 ? ` (fee ${fee})` : ''}`,
+    occurredAt: new Date(transaction.createdAt).getTime(),
+    postings
+  }
+  assertBalanced(entry)
+  return entry
+}
+
+/**
+ * Holdings per asset from HOLDINGS postings, replayed in time order. Inflows add to cost at their
+ * posted value; outflows leave the average price unchanged. Assets with nothing left are omitted.
+ */
+export function projectHoldings(entries: Pick<JournalEntry, 'occurredAt' | 'postings'>[]): Map<string, HoldingProjection> {
+  const holdings = new Map<string, { amount: number; cost: number }>()
+
+  const ordered = [...entries].sort((a, b) => a.occurredAt - b.occurredAt)
+  ordered.forEach(entry => entry.postings
+    .filter(p => p.accountType === 'HOLDINGS')
+    .forEach(p => {
+      const holding = holdings.get(p.asset) ?? { amount: 0, cost: 0 }
+      if (p.amount >= 0) {
+        holding.cost += p.usdValue
+      } else if (holding.amount > 0) {
+        holding.cost *= Math.max(0, (holding.amount + p.amount) / holding.amount)
+      }
+      holding.amount += p.amount
+      holdings.set(p.asset, holding)
+    }))
+
+  const projections = new Map<string, HoldingProjection>()
+  holdings.forEach((holding, symbol) => {
+    if (Math.abs(holding.amount) <= BALANCE_TOLERANCE) return
+    const averagePrice = holding.amount > 0 ? holding.cost / holding.amount : 0
+    projections.set(symbol, {
+      symbol,
+      amount: holding.amount,
+      averagePrice,
+      totalValue: holding.amount * averagePrice
+    })
+  })
+  return projections
+}
+
+/**
+ * Assets whose Portfolio amount differs from the ledger, including assets only one side has.
+ */
+export function findMismatches(
+  userId: string,
+  portfolio: { symbol: string; amount: number }[],
+  projections: Map<string, HoldingProjection>
+): ReconciliationMismatch[] {
+  const portfolioAmounts = new Map(portfolio.map(row => [row.symbol.toUpperCase(), row.amount]))
+  const symbols = new Set([...portfolioAmounts.keys(), ...projections.keys()])
+
+  return Array.from(symbols)
+    .map(symbol => ({
+      userId,
+      symbol,
+      portfolioAmount: portfolioAmounts.get(symbol) ?? 0,
+      ledgerAmount: projections.get(symbol)?.amount ?? 0
+    }))
+    .filter(({ portfolioAmount, ledgerAmount }) =>
+      Math.abs(portfolioAmount - ledgerAmount) > BALANCE_TOLERANCE * Math.max(1, Math.abs(ledgerAmount)))
+}
@@ -0,0 +1,206 @@
+/**
+ * Market Window
+ * Rolling per-symbol window of price, 24h volume and market cap samples, used to measure
+ * changes, volume spikes and realized volatility over an alert's timeframe. It is seeded from and
+ * kept in step with the ticks in the candle store, so history survives restarts of the worker.
+ */
+
+import * as candleStore from './candle-store'
+
+export interface MarketSample {
+  timestamp: number
+  price: number
+  volume24h: number
+  marketCap: number
+}
+
+export interface WindowChange {
+  previous: number
+  current: number
+  changeAmount: number
+  changePercentage: number
+}
+
+export interface VolumeSpike {
+  current: number
+  average: number
+  ratioPercentage: number // Current 24h volume as a percentage of its trailing average
+}
+
+export interface VolatilityBands {
+  volatilityPercentage: number // Realized volatility of log returns over the timeframe
+  middle: number
+  upper: number
+  lower: number
+}
+
+// Samples recorded for a symbol after `since`, oldest first
+export type MarketSampleLoader = (symbol: string, since: number) => Promise<MarketSample[]>
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+const TIMEFRAME_UNITS: { [unit: string]: number } = { m: MINUTE_MS, h: 60 * MINUTE_MS, d: DAY_MS, w: 7 * DAY_MS }
+
+// Longest timeframe an alert can look back over
+const DEFAULT_RETENTION_MS = 7 * DAY_MS
+// Band width in standard deviations of price around the window mean
+const BAND_WIDTH = 2
+const HISTORY_PAGE_SIZE = 10000
+
+export class TimeframeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TimeframeError'
+  }
+}
+
+/**
+ * Milliseconds in a timeframe such as '15m', '1h', '24h' or '7d'.
+ */
+export function parseTimeframe(timeframe: string): number {
+  const match = /^(\d+)\s*([mhdw])$/i.exec(String(timeframe).trim())
+  if (!match || Number(match[1]) <= 0) {
+    throw new TimeframeError(`Invalid timeframe: ${timeframe}`)
+  }
+  return Number(match[1]) * TIMEFRAME_UNITS[match[2].toLowerCase()]
+}
+
+async function loadRecordedSamples(symbol: string, since: number): Promise<MarketSample[]> {
+  const samples: MarketSample[] = []
+  for (;;) {
+    const ticks = await candleStore.findTicksSince([symbol], since, HISTORY_PAGE_SIZE)
+    samples.push(...ticks.map(({ timestamp, price, volume24h, marketCap }) => ({ timestamp, price, volume24h, marketCap })))
+    if (ticks.length < HISTORY_PAGE_SIZE) return samples
+    since = ticks[ticks.length - 1].timestamp
+  }
+}
+
+export class MarketWindow {
+  private samples: Map<string, MarketSample[]> = new Map()
+
+  // Without a loader the window only holds what is recorded into it
+  constructor(private load?: MarketSampleLoader, private retentionMs: number = DEFAULT_RETENTION_MS) {}
+
+  /**
+   * Loads the samples recorded since the latest one held for each symbol, or over the whole
+   * retention period for symbols not held yet. Sync before recording fresh samples.
+   */
+  async sync(symbols: string[], now: number = Date.now()): Promise<void> {
+    if (!this.load) return
+    for (const symbol of symbols) {
+      const since = this.latest(symbol)?.timestamp ?? now - this.retentionMs
+      const samples = await this.load(symbol.toUpperCase(), since)
+      samples.forEach(sample => this.record(symbol, sample))
+    }
+  }
+
+  /**
+   * Starts an empty ratio series from the base and quote samples held, pairing each base sample
+   * with the latest quote sample at or before it.
+   */
+  seedRatio(key: string, base: string, quote: string): void {
+    if (this.latest(key)) return
+
+    const quotes = this.samples.get(quote.toUpperCase()) ?? []
+    let next = 0
+    for (const sample of this.samples.get(base.toUpperCase()) ?? []) {
+      while (next < quotes.length && quotes[next].timestamp <= sample.timestamp) next++
+      const quoteSample = quotes[next - 1]
+      if (!quoteSample) continue
+      this.record(key, { timestamp: sample.timestamp, price: sample.price / quoteSample.price, volume24h: 0, marketCap: 0 })
+    }
+  }
+
+  record(symbol: string, sample: MarketSample): void {
+    if (!isFinite(sample.price) || sample.price <= 0) return
+
+    const key = symbol.toUpperCase()
+    const samples = this.samples.get(key) ?? []
+    const last = samples[samples.length - 1]
+    if (last && sample.timestamp <= last.timestamp) return // Feeds serve cached prices between refreshes
+
+    samples.push(sample)
+    const cutoff = sample.timestamp - this.retentionMs
+    while (samples.length > 0 && samples[0].timestamp < cutoff) samples.shift()
+    this.samples.set(key, samples)
+  }
+
+  latest(symbol: string): MarketSample | null {
+    const samples = this.samples.get(symbol.toUpperCase())
+    return samples && samples.length > 0 ? samples[samples.length - 1] : null
+  }
+
+  /**
+   * Change in price or market cap from the last sample at least `timeframeMs` old to the latest.
+   * Null until the window reaches back that far.
+   */
+  change(symbol: string, field: 'price' | 'marketCap', timeframeMs: number): WindowChange | null {
+    const samples = this.samples.get(symbol.toUpperCase()) ?? []
+    const latest = samples[samples.length - 1]
+    if (!latest) return null
+
+    const since = latest.timestamp - timeframeMs
+    const baseline = [...samples].reverse().find(sample => sample.timestamp <= since)
+    if (!baseline || !baseline[field]) return null
+
+    const changeAmount = latest[field] - baseline[field]
+    return {
+      previous: baseline[field],
+      current: latest[field],
+      changeAmount,
+      changePercentage: (changeAmount / baseline[field]) * 100
+    }
+  }
+
+  /**
+   * Latest 24h volume against the average of the samples before it within the timeframe.
+   */
+  volumeSpike(symbol: string, timeframeMs: number): VolumeSpike | null {
+    const samples = this.samples.get(symbol.toUpperCase()) ?? []
+    const latest = samples[samples.length - 1]
+    if (!latest) return null
+
+    const trailing = samples.slice(0, -1).filter(sample => sample.timestamp >= latest.timestamp - timeframeMs && sample.volume24h > 0)
+    if (trailing.length === 0) return null
+
+    const average = trailing.reduce((sum, sample) => sum + sample.volume24h, 0) / trailing.length
+    return { current: latest.volume24h, average, ratioPercentage: (latest.volume24h / average) * 100 }
+  }
+
+  /**
+   * Realized volatility over the timeframe (standard deviation of log returns, scaled to the
+   * timeframe) with price bands BAND_WIDTH standard deviations around the mean price.
+   */
+  volatility(symbol: string, timeframeMs: number): VolatilityBands | null {
+    const samples = this.samples.get(symbol.toUpperCase()) ?? []
+    const latest = samples[samples.length - 1]
+    if (!latest) return null
+
+    const prices = samples.filter(sample => sample.timestamp >= latest.timestamp - timeframeMs).map(sample => sample.price)
+    if (prices.length < 3) return null
+
+    const returns = prices.slice(1).map((price, i) => Math.log(price / prices[i]))
+    const meanReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length
+    const returnVariance = returns.reduce((sum, r) => sum + (r - meanReturn) ** 2, 0) / (returns.length - 1)
+
+    const middle = prices.reduce((sum, price) => sum + price, 0) / prices.length
+    const priceDeviation = Math.sqrt(prices.reduce((sum, price) => sum + (price - middle) ** 2, 0) / prices.length)
+
+    return {
+      volatilityPercentage: Math.sqrt(returnVariance * returns.length) * 100,
+      middle,
+      upper: middle + BAND_WIDTH * priceDeviation,
+      lower: middle - BAND_WIDTH * priceDeviation
+    }
+  }
+
+  clear(symbol?: string): void {
+    if (symbol) {
+      this.samples.delete(symbol.toUpperCase())
+    } else {
+      this.samples.clear()
+    }
+  }
+}
+
+export const marketWindow = new MarketWindow(loadRecordedSamples)
@@ -0,0 +1,431 @@
+/**
+ * Paper Trading Venue
+ * Simulated exchange with a per-pair limit order book (price-time priority), partial fills,
+ * maker/taker fees and time-in-force handling, driven entirely by a PriceFeed
+ */
+
+import { OrderBook, OrderSide, OrderStatus, TimeInForce, TradingPair } from './advanced-trading'
+import { PriceFeed, PriceTick } from './price-feed'
+
+export interface VenueOrderRequest {
+  id: string
+  pair: TradingPair
+  side: OrderSide
+  quantity: number
+  price?: number // omitted for market orders
+  timeInForce: TimeInForce
+  expiresAt?: number
+}
+
+export interface VenueFill {
+  orderId: string
+  symbol: string
+  side: OrderSide
+  price: number
+  quantity: number
+  fee: number
+  liquidity: 'maker' | 'taker'
+  timestamp: number
+}
+
+export interface VenueOrderResult {
+  status: OrderStatus
+  fills: VenueFill[]
+  restingQuantity: number
+  reason?: string
+}
+
+export type VenueEvent =
+  | { type: 'fill'; fill: VenueFill }
+  | { type: 'expired'; orderId: string; symbol: string; timestamp: number }
+
+export type VenueEventListener = (event: VenueEvent) => void
+
+export interface SyntheticLiquidityConfig {
+  spreadBps: number // distance between best bid and best ask
+  levels: number // price levels generated on each side per tick
+  levelStepBps: number // distance between consecutive levels
+  levelNotional: number // quote value available at each level
+}
+
+const DEFAULT_LIQUIDITY: SyntheticLiquidityConfig = {
+  spreadBps: 10,
+  levels: 10,
+  levelStepBps: 5,
+  levelNotional: 25000
+}
+
+interface RestingOrder {
+  request: VenueOrderRequest
+  remaining: number
+  arrival: number
+}
+
+interface PriceLevel {
+  price: number
+  quantity: number
+}
+
+interface PairBook {
+  pair: TradingPair
+  bids: RestingOrder[] // best price first, then arrival
+  asks: RestingOrder[]
+  syntheticBids: PriceLevel[]
+  syntheticAsks: PriceLevel[]
+  lastTick?: PriceTick
+  sequence: number
+}
+
+// Liquidity an incoming order can trade against, in matching order
+interface MatchCandidate {
+  price: number
+  available: number
+  resting?: RestingOrder
+  level?: PriceLevel
+}
+
+const QUANTITY_EPSILON = 1e-12
+
+function stepDecimals(step: number): number {
+  const text = step.toString()
+  if (text.includes('e-')) return parseInt(text.split('e-')[1], 10)
+  return text.includes('.') ? text.split('.')[1].length : 0
+}
+
+function roundToStep(value: number, step: number, mode: 'floor' | 'ceil' | 'round'): number {
+  const scaled = Math[mode](value / step - (mode === 'ceil' ? 1e-9 : mode === 'floor' ? -1e-9 : 0)) * step
+  return Number(scaled.toFixed(stepDecimals(step)))
+}
+
+function roundQuantity(value: number, pair: TradingPair): number {
+  return Number(value.toFixed(Math.min(pair.decimals.base, 12)))
+}
+
+export class PaperTradingVenue {
+  private books: Map<string, PairBook> = new Map()
+  private listeners: Set<VenueEventListener> = new Set()
+  private liquidity: SyntheticLiquidityConfig
+  private arrivals = 0
+  private unsubscribeFeed: () => void
+
+  constructor(private feed: PriceFeed, liquidity: Partial<SyntheticLiquidityConfig> = {}) {
+    this.liquidity = { ...DEFAULT_LIQUIDITY, ...liquidity }
+    this.unsubscribeFeed = feed.subscribe(tick => this.handleTick(tick))
+  }
+
+  subscribe(listener: VenueEventListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  registerPair(pair: TradingPair): void {
+    const book = this.books.get(pair.symbol)
+    if (book) {
+      book.pair = pair
+      return
+    }
+
+    const newBook: PairBook = {
+      pair,
+      bids: [],
+      asks: [],
+      syntheticBids: [],
+      syntheticAsks: [],
+      sequence: 0
+    }
+    this.books.set(pair.symbol, newBook)
+
+    // Quote straight away if the feed already has a price for this pair
+    const tick = this.feed.getLatestTick(pair.symbol)
+    if (tick) {
+      newBook.lastTick = tick
+      this.regenerateLiquidity(newBook, tick)
+    }
+  }
+
+  submitOrder(request: VenueOrderRequest): VenueOrderResult {
+    this.registerPair(request.pair)
+    const book = this.books.get(request.pair.symbol)!
+    const now = book.lastTick?.timestamp ?? 0
+    const isMarket = request.price === undefined
+
+    if (request.timeInForce === TimeInForce.GTD && request.expiresAt !== undefined && request.expiresAt <= now) {
+      return { status: OrderStatus.EXPIRED, fills: [], restingQuantity: 0, reason: 'Order expired before it reached the book' }
+    }
+
+    const candidates = this.matchCandidates(book, request)
+
+    if (request.timeInForce === TimeInForce.FOK) {
+      const available = candidates.reduce((sum, candidate) => sum + candidate.available, 0)
+      if (available + QUANTITY_EPSILON < request.quantity) {
+        return { status: OrderStatus.EXPIRED, fills: [], restingQuantity: 0, reason: 'Insufficient liquidity to fill or kill' }
+      }
+    }
+
+    let remaining = request.quantity
+    const fills: VenueFill[] = []
+
+    for (const candidate of candidates) {
+      if (remaining <= QUANTITY_EPSILON) break
+      const quantity = roundQuantity(Math.min(remaining, candidate.available), book.pair)
+      if (quantity <= 0) continue
+
+      fills.push(this.createFill(book, request, candidate.price, quantity, 'taker', now))
+      remaining = roundQuantity(remaining - quantity, book.pair)
+
+      if (candidate.resting) {
+        candidate.resting.remaining = roundQuantity(candidate.resting.remaining - quantity, book.pair)
+        this.emit({
+          type: 'fill',
+          fill: this.createFill(book, candidate.resting.request, candidate.price, quantity, 'maker', now)
+        })
+      } else if (candidate.level) {
+        candidate.level.quantity -= quantity
+      }
+    }
+
+    this.pruneBook(book)
+
+    if (remaining <= QUANTITY_EPSILON) {
+      book.sequence++
+      return { status: OrderStatus.FILLED, fills, restingQuantity: 0 }
+    }
+
+    // Market, IOC and FOK remainders never rest on the book
+    if (isMarket || request.timeInForce === TimeInForce.IOC || request.timeInForce === TimeInForce.FOK) {
+      book.sequence++
+      return {
+        status: OrderStatus.EXPIRED,
+        fills,
+        restingQuantity: 0,
+        reason: fills.length === 0 ? 'No liquidity available' : 'Unfilled remainder cancelled'
+      }
+    }
+
+    this.rest(book, request, remaining)
+    return {
+      status: fills.length > 0 ? OrderStatus.PARTIALLY_FILLED : OrderStatus.OPEN,
+      fills,
+      restingQuantity: remaining
+    }
+  }
+
+  cancelOrder(symbol: string, orderId: string): boolean {
+    const book = this.books.get(symbol)
+    if (!book) return false
+
+    const before = book.bids.length + book.asks.length
+    book.bids = book.bids.filter(order => order.request.id !== orderId)
+    book.asks = book.asks.filter(order => order.request.id !== orderId)
+
+    if (book.bids.length + book.asks.length === before) return false
+    book.sequence++
+    return true
+  }
+
+  isResting(symbol: string, orderId: string): boolean {
+    const book = this.books.get(symbol)
+    if (!book) return false
+    return [...book.bids, ...book.asks].some(order => order.request.id === orderId)
+  }
+
+  getOrderBook(symbol: string, depth: number = 10): OrderBook {
+    const book = this.books.get(symbol)
+    if (!book) {
+      return { symbol, bids: [], asks: [], timestamp: 0, sequence: 0 }
+    }
+
+    return {
+      symbol,
+      bids: this.aggregate(book, book.bids, book.syntheticBids, 'desc', depth),
+      asks: this.aggregate(book, book.asks, book.syntheticAsks, 'asc', depth),
+      timestamp: book.lastTick?.timestamp ?? 0,
+      sequence: book.sequence
+    }
+  }
+
+  detach(): void {
+    this.unsubscribeFeed()
+  }
+
+  private handleTick(tick: PriceTick): void {
+    let book = this.books.get(tick.symbol)
+    if (!book) {
+      // Unregistered symbols still get a book with exchange-default rules
+      this.registerPair({
+        id: tick.symbol.toLowerCase().replace('/', '_'),
+        baseAsset: tick.symbol.split('/')[0],
+        quoteAsset: tick.symbol.split('/')[1] || 'USD',
+        symbol: tick.symbol,
+        chainId: 0,
+        decimals: { base: 8, quote: 6 },
+        minOrderSize: 0,
+        maxOrderSize: Number.MAX_SAFE_INTEGER,
+        tickSize: 0.01,
+        fees: { maker: 0.001, taker: 0.0015 },
+        isActive: true
+      })
+      book = this.books.get(tick.symbol)!
+    }
+
+    book.lastTick = tick
+    this.expireOrders(book, tick.timestamp)
+    this.regenerateLiquidity(book, tick)
+    this.crossRestingOrders(book, tick.timestamp)
+    book.sequence++
+  }
+
+  private regenerateLiquidity(book: PairBook, tick: PriceTick): void {
+    const { spreadBps, levels, levelStepBps, levelNotional } = this.liquidity
+    const { tickSize } = book.pair
+    const halfSpread = spreadBps / 20000
+    const step = levelStepBps / 10000
+
+    book.syntheticBids = []
+    book.syntheticAsks = []
+
+    for (let i = 0; i < levels; i++) {
+      const bidPrice = roundToStep(tick.price * (1 - halfSpread - step * i), tickSize, 'floor')
+      const askPrice = roundToStep(tick.price * (1 + halfSpread + step * i), tickSize, 'ceil')
+      if (bidPrice > 0) {
+        book.syntheticBids.push({ price: bidPrice, quantity: roundQuantity(levelNotional / bidPrice, book.pair) })
+      }
+      book.syntheticAsks.push({ price: askPrice, quantity: roundQuantity(levelNotional / askPrice, book.pair) })
+    }
+  }
+
+  /**
+   * After the market moves, resting orders the new quotes trade through are
+   * filled at their own limit price as makers, in price-time priority.
+   */
+  private crossRestingOrders(book: PairBook, timestamp: number): void {
+    const cross = (orders: RestingOrder[], levels: PriceLevel[], crosses: (limit: number, level: number) => boolean) => {
+      for (const order of orders) {
+        for (const level of levels) {
+          if (order.remaining <= QUANTITY_EPSILON) break
+          if (level.quantity <= QUANTITY_EPSILON || !crosses(order.request.price!, level.price)) continue
+
+          const quantity = roundQuantity(Math.min(order.remaining, level.quantity), book.pair)
+          if (quantity <= 0) continue
+
+          order.remaining = roundQuantity(order.remaining - quantity, book.pair)
+          level.quantity -= quantity
+          this.emit({
+            type: 'fill',
+            fill: this.createFill(book, order.request, order.request.price!, quantity, 'maker', timestamp)
+          })
+        }
+      }
+    }
+
+    cross(book.bids, book.syntheticAsks, (limit, level) => level <= limit)
+    cross(book.asks, book.syntheticBids, (limit, level) => level >= limit)
+    this.pruneBook(book)
+  }
+
+  private expireOrders(book: PairBook, timestamp: number): void {
+    const expired = [...book.bids, ...book.asks].filter(order =>
+      order.request.timeInForce === TimeInForce.GTD &&
+      order.request.expiresAt !== undefined &&
+      order.request.expiresAt <= timestamp
+    )
+    if (expired.length === 0) return
+
+    const expiredIds = new Set(expired.map(order => order.request.id))
+    book.bids = book.bids.filter(order => !expiredIds.has(order.request.id))
+    book.asks = book.asks.filter(order => !expiredIds.has(order.request.id))
+
+    expired
+      .sort((a, b) => a.arrival - b.arrival)
+      .forEach(order => this.emit({ type: 'expired', orderId: order.request.id, symbol: book.pair.symbol, timestamp }))
+  }
+
+  private matchCandidates(book: PairBook, request: VenueOrderRequest): MatchCandidate[] {
+    const isBuy = request.side === OrderSide.BUY
+    const resting = isBuy ? book.asks : book.bids
+    const levels = isBuy ? book.syntheticAsks : book.syntheticBids
+    const acceptable = (price: number) =>
+      request.price === undefined || (isBuy ? price <= request.price : price >= request.price)
+
+    const candidates: MatchCandidate[] = [
+      ...resting
+        .filter(order => acceptable(order.request.price!))
+        .map(order => ({ price: order.request.price!, available: order.remaining, resting: order })),
+      ...levels
+        .filter(level => level.quantity > QUANTITY_EPSILON && acceptable(level.price))
+        .map(level => ({ price: level.price, available: level.quantity, level }))
+    ]
+
+    // Best price first; at the same price, orders already on the book trade before synthetic depth
+    return candidates.sort((a, b) => {
+      if (a.price !== b.price) return isBuy ? a.price - b.price : b.price - a.price
+      if (a.resting && b.resting) return a.resting.arrival - b.resting.arrival
+      return a.resting ? -1 : b.resting ? 1 : 0
+    })
+  }
+
+  private rest(book: PairBook, request: VenueOrderRequest, remaining: number): void {
+    const order: RestingOrder = { request, remaining, arrival: ++this.arrivals }
+    const side = request.side === OrderSide.BUY ? book.bids : book.asks
+    side.push(order)
+    side.sort((a, b) => {
+      if (a.request.price !== b.request.price) {
+        return request.side === OrderSide.BUY
+          ? b.request.price! - a.request.price!
+          : a.request.price! - b.request.price!
+      }
+      return a.arrival - b.arrival
+    })
+    book.sequence++
+  }
+
+  private pruneBook(book: PairBook): void {
+    book.bids = book.bids.filter(order => order.remaining > QUANTITY_EPSILON)
+    book.asks = book.asks.filter(order => order.remaining > QUANTITY_EPSILON)
+  }
+
+  private aggregate(
+    book: PairBook,
+    resting: RestingOrder[],
+    levels: PriceLevel[],
+    direction: 'asc' | 'desc',
+    depth: number
+  ): [string, string][] {
+    const totals = new Map<number, number>()
+    resting.forEach(order => totals.set(order.request.price!, (totals.get(order.request.price!) || 0) + order.remaining))
+    levels
+      .filter(level => level.quantity > QUANTITY_EPSILON)
+      .forEach(level => totals.set(level.price, (totals.get(level.price) || 0) + level.quantity))
+
+    return Array.from(totals.entries())
+      .sort(([a], [b]) => direction === 'asc' ? a - b : b - a)
+      .slice(0, depth)
+      .map(([price, quantity]) => [price.toString(), roundQuantity(quantity, book.pair).toString()])
+  }
+
+  private createFill(
+    book: PairBook,
+    request: VenueOrderRequest,
+    price: number,
+    quantity: number,
+    liquidity: 'maker' | 'taker',
+    timestamp: number
+  ): VenueFill {
+    return {
+      orderId: request.id,
+      symbol: book.pair.symbol,
+      side: request.side,
+      price,
+      quantity,
+      fee: price * quantity * book.pair.fees[liquidity],
+      liquidity,
+      timestamp
+    }
+  }
+
+  private emit(event: VenueEvent): void {
+    this.listeners.forEach(listener => listener(event))
+  }
+}
@@ -8,71 +8,32 @@ import { productionAnalytics } from './production-analytics'
 export interface MetricCollector {
   name: string
   collect: () => Promise<Record<string, number>>
-  interval: number // in milliseconds
+  interval: number // in milliseconds, rounded to a cron schedule when run as a job
   enabled: boolean
 }
 
 export class MetricsCollectionService {
   private collectors: Map<string, MetricCollector> = new Map()
-  private intervals: Map<string, NodeJS.Timeout> = new Map()
-  private isRunning = false
+  private lastRuns: Map<string, number> = new Map()
 
   constructor() {
     this.initializeDefaultCollectors()
   }
 
   /**
-   * Start metrics collection
-   */
-  start(): void {
-    if (this.isRunning) return
-
-    this.isRunning = true
-    console.log('Starting production metrics collection...')
-
-    for (const [name, collector] of this.collectors.entries()) {
-      if (collector.enabled) {
-        this.startCollector(name, collector)
-      }
-    }
-  }
-
-  /**
-   * Stop metrics collection
-   */
-  stop(): void {
-    if (!this.isRunning) return
-
-    this.isRunning = false
-    console.log('Stopping production metrics collection...')
-
-    for (const [name, interval] of this.intervals.entries()) {
-      clearInterval(interval)
-      this.intervals.delete(name)
-    }
-  }
-
-  /**
-   * Add a custom metric collector
+   * Add a custom metric collector. Collectors run as background jobs on the worker
+   * (see src/lib/jobs.ts), each on a schedule matching its interval.
    */
   addCollector(collector: MetricCollector): void {
     this.collectors.set(collector.name, collector)
-    
-    if (this.isRunning && collector.enabled) {
-      this.startCollector(collector.name, collector)
-    }
   }
 
   /**
    * Remove a metric collector
    */
   removeCollector(name: string): void {
-    const interval = this.intervals.get(name)
-    if (interval) {
-      clearInterval(interval)
-      this.intervals.delete(name)
-    }
     this.collectors.delete(name)
+    this.lastRuns.delete(name)
   }
 
   /**
@@ -83,18 +44,10 @@ export class MetricsCollectionService {
     if (!collector) return
 
     collector.enabled = enabled
+  }
 
-    if (this.isRunning) {
-      if (enabled) {
-        this.startCollector(name, collector)
-      } else {
-        const interval = this.intervals.get(name)
-        if (interval) {
-          clearInterval(interval)
-          this.intervals.delete(name)
-        }
-      }
-    }
+  getCollectors(): MetricCollector[] {
+    return Array.from(this.collectors.values())
   }
 
   /**
@@ -107,7 +60,7 @@ export class MetricsCollectionService {
       status[name] = {
         enabled: collector.enabled,
         interval: collector.interval,
-        isRunning: this.intervals.has(name)
+        lastRun: this.lastRuns.get(name)
       }
     }
     
@@ -115,17 +68,31 @@ export class MetricsCollectionService {
   }
 
   /**
-   * Manually trigger collection for a specific collector
+   * Run a collector and record its metrics. Throws when the collector fails, so the job
+   * running it retries.
    */
-  async collectNow(collectorName: string): Promise<void> {
+  async collect(collectorName: string): Promise<void> {
     const collector = this.collectors.get(collectorName)
     if (!collector) {
       throw new Error(`Collector '${collectorName}' not found`)
     }
+    if (!collector.enabled) return
+
+    const metrics = await collector.collect()
+    await this.recordMetrics(metrics)
+    this.lastRuns.set(collectorName, Date.now())
+  }
+
+  /**
+   * Manually trigger collection for a specific collector
+   */
+  async collectNow(collectorName: string): Promise<void> {
+    if (!this.collectors.has(collectorName)) {
+      throw new Error(`Collector '${collectorName}' not found`)
+    }
 
     try {
-      const metrics = await collector.collect()
-      await this.recordMetrics(metrics)
+      await this.collect(collectorName)
     } catch (error) {
       console.error(`Failed to collect metrics for '${collectorName}':`, error)
     }
@@ -144,31 +111,6 @@ export class MetricsCollectionService {
     await Promise.all(promises)
   }
 
-  private startCollector(name: string, collector: MetricCollector): void {
-    // Clear existing interval if any
-    const existingInterval = this.intervals.get(name)
-    if (existingInterval) {
-      clearInterval(existingInterval)
-    }
-
-    // Start new collection interval
-    const interval = setInterval(async () => {
-      try {
-        const metrics = await collector.collect()
-        await this.recordMetrics(metrics)
-      } catch (error) {
-        console.error(`Error collecting metrics for '${name}':`, error)
-      }
-    }, collector.interval)
-
-    this.intervals.set(name, interval)
-    
-    // Collect immediately
-    this.collectNow(name).catch(error => 
-      console.error(`Initial collection failed for '${name}':`, error)
-    )
-  }
-
   private async recordMetrics(metrics: Record<string, number>): Promise<void> {
     const promises = Object.entries(metrics).map(([metricName, value]) =>
       productionAnalytics.recordMetric(metricName, value)
@@ -509,8 +451,3 @@ export class MetricsCollectionService {
 
 // Singleton instance
 export const metricsCollectionService = new MetricsCollectionService()
-
-// Auto-start in production
-if (typeof window === 'undefined' && process.env.NODE_ENV === 'production') {
-  metricsCollectionService.start()
-}
\ No newline at end of file
@@ -0,0 +1,216 @@
+/**
+ * Notification Channels
+ * One adapter per delivery channel. Adapters throw to have the delivery retried, or
+ * NotificationSkipped when the user cannot be reached on the channel at all.
+ */
+
+import { createHmac } from 'crypto'
+import { request } from 'https'
+import type { LookupFunction } from 'net'
+import webpush from 'web-push'
+import { prisma } from '@/lib/db'
+import { emailService, EmailService } from '@/lib/email-service'
+import type { NotificationPreferences, DigestFrequency } from '@/types/user-preferences'
+import type { NotificationCategory } from '@/types/notifications'
+import { createSmsProvider, SmsProvider } from './sms'
+import { resolvePublicWebhookTarget, UnsafeWebhookTarget, WebhookAddress } from './webhook-target'
+
+export type NotificationChannel = 'email' | 'push' | 'sms' | 'webhook'
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['email', 'push', 'sms', 'webhook']
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Nohvex-Signature'
+
+// Longest SMS we send: two concatenated segments
+const MAX_SMS_LENGTH = 306
+
+const WEBHOOK_TIMEOUT_MS = 10 * 1000
+
+export interface OutgoingNotification {
+  id: string
+  category: NotificationCategory
+  title: string
+  body: string
+  data?: unknown
+  createdAt: Date
+}
+
+export interface Recipient {
+  userId: string
+  email: string
+  preferences: NotificationPreferences
+  webhookSecret: string | null
+}
+
+export interface ChannelAdapter {
+  readonly channel: NotificationChannel
+  send(notification: OutgoingNotification, recipient: Recipient): Promise<void>
+  // Channels that can batch implement digests
+  sendDigest?(notifications: OutgoingNotification[], recipient: Recipient, frequency: Exclude<DigestFrequency, 'off'>): Promise<void>
+}
+
+export class NotificationSkipped extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'NotificationSkipped'
+  }
+}
+
+export class EmailChannel implements ChannelAdapter {
+  readonly channel = 'email'
+
+  constructor(private readonly email: EmailService = emailService) {}
+
+  async send(notification: OutgoingNotification, recipient: Recipient): Promise<void> {
+    if (!await this.email.sendNotificationEmail(recipient.email, notification)) {
+      throw new Error('Email delivery failed')
+    }
+  }
+
+  async sendDigest(notifications: OutgoingNotification[], recipient: Recipient, frequency: Exclude<DigestFrequency, 'off'>): Promise<void> {
+    if (!await this.email.sendDigestEmail(recipient.email, notifications, frequency)) {
+      throw new Error('Digest email delivery failed')
+    }
+  }
+}
+
+/**
+ * Signature header value for a webhook body: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">`.
+ * Receivers recompute the HMAC with their secret and should reject stale timestamps.
+ */
+export function signWebhook(secret: string, body: string, timestamp: number): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `t=${timestamp},v1=${digest}`
+}
+
+/**
+ * POST the body over https to the address the host was checked against. Resolving the host again
+ * on connect would let a DNS answer that changed since the check point the request elsewhere.
+ * TLS still verifies the certificate against the URL's hostname. Redirects are not followed.
+ */
+function postToAddress(url: string, target: WebhookAddress, headers: Record<string, string>, body: string): Promise<number> {
+  const lookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) callback(null, [target])
+    else callback(null, target.address, target.family)
+  }
+
+  return new Promise((resolve, reject) => {
+    const req = request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    }, response => {
+      response.resume()
+      resolve(response.statusCode ?? 0)
+    })
+    req.on('error', reject)
+    req.end(body)
+  })
+}
+
+export class WebhookChannel implements ChannelAdapter {
+  readonly channel = 'webhook'
+
+  async send(notification: OutgoingNotification, recipient: Recipient): Promise<void> {
+    const url = recipient.preferences.webhookUrl
+    if (!url || !recipient.webhookSecret) throw new NotificationSkipped('No webhook URL configured')
+    // Checked again on every send: the host may have been re-pointed since the URL was saved
+    let target: WebhookAddress
+    try {
+      target = await resolvePublicWebhookTarget(url)
+    } catch (error) {
+      throw error instanceof UnsafeWebhookTarget ? new NotificationSkipped(error.message) : error
+    }
+
+    const body = JSON.stringify({
+      id: notification.id,
+      category: notification.category,
+      title: notification.title,
+      body: notification.body,
+      data: notification.data ?? null,
+      createdAt: notification.createdAt.toISOString()
+    })
+    const status = await postToAddress(url, target, {
+      'Content-Type': 'application/json',
+      'X-Nohvex-Event': notification.category,
+      [WEBHOOK_SIGNATURE_HEADER]: signWebhook(recipient.webhookSecret, body, Math.floor(Date.now() / 1000))
+    }, body)
+
+    // A redirect could lead anywhere, including back inside the network
+    if (status >= 300 && status < 400) {
+      throw new NotificationSkipped(`Webhook redirected with ${status}; redirects are not followed`)
+    }
+    if (status < 200 || status >= 300) throw new Error(`Webhook responded ${status}`)
+  }
+}
+
+export interface VapidConfig {
+  publicKey?: string
+  privateKey?: string
+  subject: string
+}
+
+export function vapidConfig(): VapidConfig {
+  return {
+    publicKey: process.env.VAPID_PUBLIC_KEY,
+    privateKey: process.env.VAPID_PRIVATE_KEY,
+    subject: process.env.VAPID_SUBJECT || 'mailto:support@nohvex.com'
+  }
+}
+
+export class PushChannel implements ChannelAdapter {
+  readonly channel = 'push'
+
+  constructor(private readonly vapid: VapidConfig = vapidConfig()) {}
+
+  async send(notification: OutgoingNotification, recipient: Recipient): Promise<void> {
+    const { publicKey, privateKey, subject } = this.vapid
+    if (!publicKey || !privateKey) throw new NotificationSkipped('Web Push is not configured')
+
+    const subscriptions = await prisma.pushSubscription.findMany({ where: { userId: recipient.userId } })
+    if (subscriptions.length === 0) throw new NotificationSkipped('No push subscriptions')
+
+    const payload = JSON.stringify({
+      title: notification.title,
+      body: notification.body,
+      tag: notification.id,
+      category: notification.category
+    })
+    const results = await Promise.allSettled(subscriptions.map((subscription: { endpoint: string; p256dh: string; auth: string }) =>
+      webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        payload,
+        { vapidDetails: { subject, publicKey, privateKey }, TTL: 24 * 60 * 60 }
+      )
+    ))
+
+    // The push service drops subscriptions the browser has revoked
+    const expired = subscriptions.filter((_: unknown, i: number) => {
+      const result = results[i]
+      return result.status === 'rejected' && [404, 410].includes((result.reason as { statusCode?: number }).statusCode ?? 0)
+    })
+    if (expired.length > 0) {
+      await prisma.pushSubscription.deleteMany({ where: { id: { in: expired.map((subscription: { id: string }) => subscription.id) } } })
+    }
+
+    if (results.some(result => result.status === 'fulfilled')) return
+    if (expired.length === subscriptions.length) throw new NotificationSkipped('All push subscriptions have expired')
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected')
+    throw failure?.reason instanceof Error ? failure.reason : new Error('Push delivery failed')
+  }
+}
+
+export class SmsChannel implements ChannelAdapter {
+  readonly channel = 'sms'
+
+  constructor(private readonly provider: SmsProvider = createSmsProvider()) {}
+
+  async send(notification: OutgoingNotification, recipient: Recipient): Promise<void> {
+    const to = recipient.preferences.smsNumber
+    if (!to) throw new NotificationSkipped('No phone number configured')
+
+    const text = `NOHVEX ${notification.title}: ${notification.body}`
+    await this.provider.send(to, text.length > MAX_SMS_LENGTH ? `${text.slice(0, MAX_SMS_LENGTH - 1)}…` : text)
+  }
+}
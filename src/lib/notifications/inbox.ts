@@ -0,0 +1,157 @@
+/**
+ * In-app Inbox
+ * Every published notification is also kept in the Notification table, so the user can scroll
+ * back through what fired while they were away. Open tabs follow new items through
+ * /api/notifications/stream and raise them as toasts in NotificationContext.
+ */
+
+import { prisma } from '@/lib/db'
+import type {
+  InboxNotification,
+  NotificationCategory,
+  NotificationPriority,
+  NotificationType
+} from '@/types/notifications'
+
+export interface InboxEntry {
+  userId: string
+  category: NotificationCategory
+  title: string
+  message: string
+  type?: NotificationType
+  priority?: NotificationPriority
+  data?: Record<string, unknown>
+}
+
+export interface InboxQuery {
+  // Id of the last item of the previous page
+  cursor?: string
+  limit?: number
+  category?: NotificationCategory
+  archived?: boolean
+  unreadOnly?: boolean
+}
+
+export interface InboxPage {
+  items: InboxNotification[]
+  nextCursor: string | null
+}
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+
+// Same look as the matching NotificationTemplates entries
+const CATEGORY_TYPES: Record<NotificationCategory, NotificationType> = {
+  general: 'info',
+  trade: 'success',
+  portfolio: 'info',
+  'price-alert': 'warning',
+  security: 'warning',
+  system: 'info'
+}
+
+interface NotificationRow {
+  id: string
+  type: string
+  category: string
+  priority: string
+  title: string
+  message: string
+  data: unknown
+  readAt: Date | null
+  archivedAt: Date | null
+  createdAt: Date
+}
+
+export function toInboxNotification(row: NotificationRow): InboxNotification {
+  return {
+    id: row.id,
+    type: row.type as NotificationType,
+    category: row.category as NotificationCategory,
+    priority: row.priority as NotificationPriority,
+    title: row.title,
+    message: row.message,
+    data: (row.data as Record<string, unknown> | null) ?? null,
+    readAt: row.readAt ? row.readAt.toISOString() : null,
+    archivedAt: row.archivedAt ? row.archivedAt.toISOString() : null,
+    createdAt: row.createdAt.toISOString()
+  }
+}
+
+export class NotificationInbox {
+  async record(entry: InboxEntry): Promise<InboxNotification> {
+    const row = await prisma.notification.create({
+      data: {
+        userId: entry.userId,
+        type: entry.type ?? CATEGORY_TYPES[entry.category] ?? 'info',
+        category: entry.category,
+        priority: entry.priority ?? 'normal',
+        title: entry.title,
+        message: entry.message,
+        data: entry.data
+      }
+    })
+    return toInboxNotification(row)
+  }
+
+  /**
+   * Newest first. Archived items are only listed when asked for.
+   */
+  async list(userId: string, query: InboxQuery = {}): Promise<InboxPage> {
+    const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+    const rows: NotificationRow[] = await prisma.notification.findMany({
+      where: {
+        userId,
+        archivedAt: query.archived ? { not: null } : null,
+        ...(query.category ? { category: query.category } : {}),
+        ...(query.unreadOnly ? { readAt: null } : {})
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {})
+    })
+
+    const items = rows.slice(0, limit).map(toInboxNotification)
+    return { items, nextCursor: rows.length > limit ? items[items.length - 1].id : null }
+  }
+
+  /**
+   * Items created at or after the given time, oldest first, for the live stream. Inclusive, so
+   * an item written in the same millisecond as the last one streamed is not missed.
+   */
+  async since(userId: string, after: Date): Promise<InboxNotification[]> {
+    const rows: NotificationRow[] = await prisma.notification.findMany({
+      where: { userId, createdAt: { gte: after } },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: MAX_PAGE_SIZE
+    })
+    return rows.map(toInboxNotification)
+  }
+
+  async unreadCount(userId: string): Promise<number> {
+    return prisma.notification.count({ where: { userId, readAt: null, archivedAt: null } })
+  }
+
+  /**
+   * Marks the given items read, or every unread item when no ids are given. Returns how many changed.
+   */
+  async markRead(userId: string, ids?: string[], now: Date = new Date()): Promise<number> {
+    const { count } = await prisma.notification.updateMany({
+      where: { userId, readAt: null, ...(ids ? { id: { in: ids } } : {}) },
+      data: { readAt: now }
+    })
+    return count
+  }
+
+  // Archiving also marks the item read, so it stops counting as unread
+  async archive(userId: string, ids: string[], now: Date = new Date()): Promise<number> {
+    await this.markRead(userId, ids, now)
+    const { count } = await prisma.notification.updateMany({
+      where: { userId, id: { in: ids }, archivedAt: null },
+      data: { archivedAt: now }
+    })
+    return count
+  }
+}
+
+export const notificationInbox = new NotificationInbox()
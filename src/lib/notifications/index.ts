@@ -0,0 +1,346 @@
+/**
+ * Notification Pipeline
+ * Producers publish a notification once; it is written to the NotificationDelivery outbox as
+ * one row per channel the user has enabled and delivered by the channel adapters, right away
+ * or later:
+ * - email is batched into a daily or weekly digest when the user chose one
+ * - push and SMS wait for the end of the user's quiet hours
+ * - webhooks and urgent notifications (every security notification) go out immediately
+ * Failed deliveries are retried with backoff by the notifications.dispatch job. Every published
+ * notification is also kept in the user's in-app inbox (./inbox).
+ */
+
+import { prisma } from '@/lib/db'
+import type { NotificationCategory, NotificationPriority, NotificationType } from '@/types/notifications'
+import type { NotificationPreferences } from '@/types/user-preferences'
+import {
+  ChannelAdapter,
+  EmailChannel,
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+  NotificationSkipped,
+  OutgoingNotification,
+  PushChannel,
+  Recipient,
+  SmsChannel,
+  WebhookChannel
+} from './channels'
+import { notificationInbox } from './inbox'
+import { categoryEnabled, nextDigestTime, quietHoursEnd, resolveNotificationPreferences } from './preferences'
+
+export * from './channels'
+export * from './inbox'
+export * from './preferences'
+export * from './sms'
+export * from './webhook-target'
+
+export type DeliveryStatus = 'pending' | 'digest' | 'sending' | 'sent' | 'skipped' | 'dead'
+
+export interface PublishOptions {
+  userId: string
+  category: NotificationCategory
+  title: string
+  body: string
+  data?: Record<string, unknown>
+  // How the inbox item looks in the app; defaults follow the category
+  type?: NotificationType
+  priority?: NotificationPriority
+  // Skip quiet hours and digests
+  urgent?: boolean
+  // Restrict to these channels, e.g. the ones an alert was configured with; the inbox always gets a copy
+  channels?: NotificationChannel[]
+}
+
+export interface NotificationDelivery {
+  id: string
+  userId: string
+  channel: NotificationChannel
+  category: NotificationCategory
+  title: string
+  body: string
+  data: unknown
+  urgent: boolean
+  status: DeliveryStatus
+  claimedFrom: DeliveryStatus | null
+  attempts: number
+  nextAttemptAt: Date
+  lastError: string | null
+  sentAt: Date | null
+  createdAt: Date
+}
+
+export interface DispatchResult {
+  sent: number
+  failed: number
+  skipped: number
+  digests: number
+  recovered: number
+}
+
+const MAX_ATTEMPTS = 5
+const BACKOFF_MS = 60 * 1000
+const MAX_BACKOFF_MS = 60 * 60 * 1000
+// A delivery still marked sending after this long belonged to a process that died
+const SENDING_TIMEOUT_MS = 10 * 60 * 1000
+const BATCH_SIZE = 100
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function outgoing(delivery: NotificationDelivery): OutgoingNotification {
+  return {
+    id: delivery.id,
+    category: delivery.category,
+    title: delivery.title,
+    body: delivery.body,
+    data: delivery.data ?? undefined,
+    createdAt: delivery.createdAt
+  }
+}
+
+function channelEnabled(preferences: NotificationPreferences, channel: NotificationChannel): boolean {
+  switch (channel) {
+    case 'email': return preferences.email
+    case 'push': return preferences.push
+    case 'sms': return preferences.sms && !!preferences.smsNumber
+    case 'webhook': return !!preferences.webhookUrl
+  }
+}
+
+export class NotificationService {
+  private readonly adapters = new Map<NotificationChannel, ChannelAdapter>()
+
+  constructor(adapters: ChannelAdapter[] = [new EmailChannel(), new PushChannel(), new SmsChannel(), new WebhookChannel()]) {
+    adapters.forEach(adapter => this.adapters.set(adapter.channel, adapter))
+  }
+
+  /**
+   * Adds the notification to the user's inbox, queues it on each channel the user has enabled for
+   * its category and delivers the ones that are due. Returns the outbox rows with their status after that first attempt,
+   * or none when the user opted out.
+   */
+  async publish(options: PublishOptions, now: Date = new Date()): Promise<NotificationDelivery[]> {
+    const recipient = await this.loadRecipient(options.userId)
+    if (!recipient) return []
+
+    const { preferences } = recipient
+    const security = options.category === 'security'
+    if (!security && !categoryEnabled(preferences, options.category)) return []
+
+    const urgent = security || options.urgent === true
+    await notificationInbox.record({
+      userId: options.userId,
+      category: options.category,
+      title: options.title,
+      message: options.body,
+      type: options.type,
+      priority: options.priority ?? (urgent ? 'urgent' : 'normal'),
+      data: options.data
+    })
+
+    const channels = NOTIFICATION_CHANNELS.filter(channel =>
+      (!options.channels || options.channels.includes(channel)) && channelEnabled(preferences, channel)
+    )
+
+    const deliveries: NotificationDelivery[] = []
+    for (const channel of channels) {
+      const { status, nextAttemptAt } = this.plan(channel, preferences, urgent, now)
+      deliveries.push(await prisma.notificationDelivery.create({
+        data: {
+          userId: options.userId,
+          channel,
+          category: options.category,
+          title: options.title,
+          body: options.body,
+          data: options.data,
+          urgent,
+          status,
+          nextAttemptAt
+        }
+      }))
+    }
+
+    // Failures stay in the outbox for the dispatch job
+    const statuses = await Promise.all(deliveries.map(delivery =>
+      delivery.status === 'pending' && delivery.nextAttemptAt <= now ? this.deliver(delivery, recipient, now) : null
+    ))
+
+    return deliveries.map((delivery, i) => ({ ...delivery, status: statuses[i] ?? delivery.status }))
+  }
+
+  /**
+   * One dispatch cycle: recovers deliveries abandoned mid-send, sends pending deliveries that are
+   * due and sends each user's digest once its time has come.
+   */
+  async dispatchDue(now: Date = new Date()): Promise<DispatchResult> {
+    const result: DispatchResult = { sent: 0, failed: 0, skipped: 0, digests: 0, recovered: 0 }
+
+    // Digest rows go back to the digest; anything else, including rows claimed before claimedFrom
+    // was recorded, is retried on its own
+    const abandoned = { status: 'sending', updatedAt: { lt: new Date(now.getTime() - SENDING_TIMEOUT_MS) } }
+    const digests = await prisma.notificationDelivery.updateMany({
+      where: { ...abandoned, claimedFrom: 'digest' },
+      data: { status: 'digest', nextAttemptAt: now }
+    })
+    const others = await prisma.notificationDelivery.updateMany({
+      where: abandoned,
+      data: { status: 'pending', nextAttemptAt: now }
+    })
+    result.recovered = digests.count + others.count
+
+    const recipients = new Map<string, Recipient | null>()
+    const recipientFor = async (userId: string) => {
+      if (!recipients.has(userId)) recipients.set(userId, await this.loadRecipient(userId))
+      return recipients.get(userId) ?? null
+    }
+
+    const due: NotificationDelivery[] = await prisma.notificationDelivery.findMany({
+      where: { status: 'pending', nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: BATCH_SIZE
+    })
+    for (const delivery of due) {
+      const recipient = await recipientFor(delivery.userId)
+      if (!recipient) {
+        result.skipped += await this.skipUnreachable([delivery], 'pending')
+        continue
+      }
+      const status = await this.deliver(delivery, recipient, now)
+      if (status === 'sent') result.sent++
+      else if (status === 'skipped') result.skipped++
+      else if (status) result.failed++
+    }
+
+    const digestRows: NotificationDelivery[] = await prisma.notificationDelivery.findMany({
+      where: { status: 'digest', nextAttemptAt: { lte: now } },
+      orderBy: { createdAt: 'asc' },
+      take: BATCH_SIZE * 10
+    })
+    const batches = new Map<string, NotificationDelivery[]>()
+    digestRows.forEach(delivery => {
+      const key = `${delivery.userId}:${delivery.channel}`
+      batches.set(key, [...(batches.get(key) ?? []), delivery])
+    })
+    for (const batch of batches.values()) {
+      const recipient = await recipientFor(batch[0].userId)
+      if (!recipient) {
+        result.skipped += await this.skipUnreachable(batch, 'digest')
+        continue
+      }
+      if (await this.deliverDigest(batch, recipient, now)) result.digests++
+      else result.failed++
+    }
+
+    return result
+  }
+
+  private plan(channel: NotificationChannel, preferences: NotificationPreferences, urgent: boolean, now: Date): { status: DeliveryStatus; nextAttemptAt: Date } {
+    if (urgent || channel === 'webhook') return { status: 'pending', nextAttemptAt: now }
+
+    if (this.adapters.get(channel)?.sendDigest) {
+      return preferences.digest === 'off'
+        ? { status: 'pending', nextAttemptAt: now }
+        : { status: 'digest', nextAttemptAt: nextDigestTime(preferences, now) }
+    }
+
+    return { status: 'pending', nextAttemptAt: quietHoursEnd(preferences, now) ?? now }
+  }
+
+  private async loadRecipient(userId: string): Promise<Recipient | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, notificationPreferences: true, webhookSecret: true }
+    })
+    if (!user) return null
+
+    return {
+      userId: user.id,
+      email: user.email,
+      preferences: resolveNotificationPreferences(user.notificationPreferences),
+      webhookSecret: user.webhookSecret ?? null
+    }
+  }
+
+  // Left as they were, rows for a user who cannot be loaded would be fetched again on every run
+  private async skipUnreachable(deliveries: NotificationDelivery[], status: DeliveryStatus): Promise<number> {
+    const { count } = await prisma.notificationDelivery.updateMany({
+      where: { id: { in: deliveries.map(delivery => delivery.id) }, status },
+      data: { status: 'skipped', lastError: 'Recipient not found' }
+    })
+    return count
+  }
+
+  // Claims the delivery, so a publishing request and the dispatch job never both send it
+  private async deliver(delivery: NotificationDelivery, recipient: Recipient, now: Date): Promise<DeliveryStatus | null> {
+    const attempts = delivery.attempts + 1
+    const claimed = await prisma.notificationDelivery.updateMany({
+      where: { id: delivery.id, status: 'pending', attempts: delivery.attempts },
+      data: { status: 'sending', claimedFrom: 'pending', attempts }
+    })
+    if (claimed.count === 0) return null
+
+    try {
+      const adapter = this.adapters.get(delivery.channel)
+      if (!adapter) throw new NotificationSkipped(`No adapter for the ${delivery.channel} channel`)
+      await adapter.send(outgoing(delivery), recipient)
+      await prisma.notificationDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'sent', sentAt: new Date(), lastError: null }
+      })
+      return 'sent'
+    } catch (error) {
+      return this.fail(delivery, attempts, error, 'pending', now)
+    }
+  }
+
+  // Claims rows one at a time and sends only those it won; another dispatcher may hold the rest
+  private async deliverDigest(batch: NotificationDelivery[], recipient: Recipient, now: Date): Promise<boolean> {
+    const claimed: NotificationDelivery[] = []
+    for (const delivery of batch) {
+      const { count } = await prisma.notificationDelivery.updateMany({
+        where: { id: delivery.id, status: 'digest', attempts: delivery.attempts },
+        data: { status: 'sending', claimedFrom: 'digest', attempts: delivery.attempts + 1 }
+      })
+      if (count > 0) claimed.push(delivery)
+    }
+    if (claimed.length === 0) return false
+
+    try {
+      const adapter = this.adapters.get(claimed[0].channel)
+      if (!adapter?.sendDigest) throw new NotificationSkipped(`The ${claimed[0].channel} channel does not send digests`)
+      await adapter.sendDigest(claimed.map(outgoing), recipient, recipient.preferences.digest === 'weekly' ? 'weekly' : 'daily')
+      await prisma.notificationDelivery.updateMany({
+        where: { id: { in: claimed.map(delivery => delivery.id) } },
+        data: { status: 'sent', sentAt: new Date(), lastError: null }
+      })
+      return true
+    } catch (error) {
+      for (const delivery of claimed) await this.fail(delivery, delivery.attempts + 1, error, 'digest', now)
+      return false
+    }
+  }
+
+  private async fail(delivery: NotificationDelivery, attempts: number, error: unknown, retryStatus: DeliveryStatus, now: Date): Promise<DeliveryStatus> {
+    const lastError = errorMessage(error)
+    let status = retryStatus
+    let nextAttemptAt = delivery.nextAttemptAt
+
+    if (error instanceof NotificationSkipped) {
+      status = 'skipped'
+    } else if (attempts >= MAX_ATTEMPTS) {
+      status = 'dead'
+      console.error(`Notification ${delivery.id} (${delivery.channel}) failed after ${attempts} attempts: ${lastError}`)
+    } else {
+      nextAttemptAt = new Date(now.getTime() + Math.min(BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS))
+    }
+
+    await prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: { status, nextAttemptAt, lastError }
+    })
+    return status
+  }
+}
+
+export const notificationService = new NotificationService()
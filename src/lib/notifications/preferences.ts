@@ -0,0 +1,164 @@
+/**
+ * Notification Preferences
+ * Defaults and validation for the stored preferences, and the quiet hours and digest clock
+ * evaluated in the user's timezone.
+ */
+
+import type { NotificationPreferences } from '@/types/user-preferences'
+import type { NotificationCategory } from '@/types/notifications'
+import { assertPublicWebhookTarget, UnsafeWebhookTarget } from './webhook-target'
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  email: true,
+  push: false,
+  sms: false,
+  priceAlerts: true,
+  tradeConfirmations: true,
+  marketNews: false,
+  portfolioUpdates: true,
+  systemAnnouncements: true,
+  weeklyReports: false,
+  timezone: 'UTC',
+  quietHours: { enabled: false, start: '22:00', end: '07:00' },
+  digest: 'off'
+}
+
+// Categories without a switch (security, general) are always delivered
+const CATEGORY_PREFERENCES: { [category in NotificationCategory]?: keyof NotificationPreferences } = {
+  'price-alert': 'priceAlerts',
+  trade: 'tradeConfirmations',
+  portfolio: 'portfolioUpdates',
+  system: 'systemAnnouncements'
+}
+
+// Digests go out at 08:00 local time; weekly ones on Mondays
+const DIGEST_MINUTE_OF_DAY = 8 * 60
+const DIGEST_WEEKDAY = 1
+
+const MINUTE_MS = 60 * 1000
+const DAY_MINUTES = 24 * 60
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+const E164_PATTERN = /^\+[1-9]\d{6,14}$/
+
+/**
+ * Stored preferences merged over the defaults, so rows saved before a field existed still resolve.
+ */
+export function resolveNotificationPreferences(stored: unknown): NotificationPreferences {
+  const saved = stored && typeof stored === 'object' ? (stored as Partial<NotificationPreferences>) : {}
+  return {
+    ...DEFAULT_NOTIFICATION_PREFERENCES,
+    ...saved,
+    quietHours: { ...DEFAULT_NOTIFICATION_PREFERENCES.quietHours, ...saved.quietHours }
+  }
+}
+
+function isTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// The webhook host is resolved, so it must not point at the server's own network
+export async function validateNotificationPreferences(preferences: Partial<NotificationPreferences>): Promise<{ [field: string]: string }> {
+  const errors: { [field: string]: string } = {}
+
+  if (preferences.digest !== undefined && !['off', 'daily', 'weekly'].includes(preferences.digest)) {
+    errors.digest = 'Digest must be off, daily or weekly'
+  }
+  if (preferences.timezone !== undefined && !isTimezone(preferences.timezone)) {
+    errors.timezone = `Unknown timezone: ${preferences.timezone}`
+  }
+  if (preferences.quietHours) {
+    const { start, end } = preferences.quietHours
+    if ((start !== undefined && !TIME_PATTERN.test(start)) || (end !== undefined && !TIME_PATTERN.test(end))) {
+      errors.quietHours = 'Quiet hours must be given as HH:MM'
+    }
+  }
+  if (preferences.webhookUrl) {
+    let protocol = ''
+    try {
+      protocol = new URL(preferences.webhookUrl).protocol
+    } catch {}
+    if (protocol !== 'https:') {
+      errors.webhookUrl = 'Webhook URL must be a valid https:// URL'
+    } else {
+      try {
+        await assertPublicWebhookTarget(preferences.webhookUrl)
+      } catch (error) {
+        errors.webhookUrl = error instanceof UnsafeWebhookTarget ? 'Webhook URL must point to a public host' : 'Webhook host could not be resolved'
+      }
+    }
+  }
+  if (preferences.smsNumber && !E164_PATTERN.test(preferences.smsNumber)) {
+    errors.smsNumber = 'Phone number must be in international format, e.g. +14155550123'
+  }
+
+  return errors
+}
+
+export function categoryEnabled(preferences: NotificationPreferences, category: NotificationCategory): boolean {
+  const flag = CATEGORY_PREFERENCES[category]
+  return flag ? preferences[flag] === true : true
+}
+
+function localTime(date: Date, timezone: string): { minuteOfDay: number; weekday: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short'
+  }).formatToParts(date)
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? ''
+  return {
+    minuteOfDay: Number(part('hour')) * 60 + Number(part('minute')),
+    weekday: WEEKDAYS.indexOf(part('weekday'))
+  }
+}
+
+function minuteOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// `minutes` whole minutes after the start of the minute `date` falls in
+function minutesAfter(date: Date, minutes: number): Date {
+  return new Date(Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS + minutes * MINUTE_MS)
+}
+
+/**
+ * When the quiet period `at` falls in ends, or null if `at` is outside quiet hours.
+ * A period may wrap past midnight, e.g. 22:00-07:00.
+ */
+export function quietHoursEnd(preferences: NotificationPreferences, at: Date): Date | null {
+  const { enabled, start, end } = preferences.quietHours
+  if (!enabled) return null
+
+  const from = minuteOfDay(start)
+  const to = minuteOfDay(end)
+  if (from === to) return null
+
+  const now = localTime(at, preferences.timezone).minuteOfDay
+  const quiet = from < to ? now >= from && now < to : now >= from || now < to
+  return quiet ? minutesAfter(at, (to - now + DAY_MINUTES) % DAY_MINUTES) : null
+}
+
+/**
+ * Next digest time strictly after `after`: daily at 08:00 local time, or Mondays at 08:00 for
+ * weekly digests.
+ */
+export function nextDigestTime(preferences: NotificationPreferences, after: Date): Date {
+  const { minuteOfDay: now, weekday } = localTime(after, preferences.timezone)
+  let wait = (DIGEST_MINUTE_OF_DAY - now + DAY_MINUTES) % DAY_MINUTES || DAY_MINUTES
+
+  if (preferences.digest === 'weekly') {
+    const landsOn = (weekday + Math.floor((now + wait) / DAY_MINUTES)) % 7
+    wait += ((DIGEST_WEEKDAY - landsOn + 7) % 7) * DAY_MINUTES
+  }
+
+  return minutesAfter(after, wait)
+}
@@ -0,0 +1,63 @@
+/**
+ * SMS Providers
+ * Twilio when TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER are set; otherwise a
+ * local fake that logs and keeps the messages, for development and tests.
+ */
+
+export interface SmsProvider {
+  readonly name: string
+  send(to: string, body: string): Promise<void>
+}
+
+export interface SentSms {
+  to: string
+  body: string
+  sentAt: Date
+}
+
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio'
+
+  constructor(
+    private readonly accountSid: string,
+    private readonly authToken: string,
+    private readonly from: string
+  ) {}
+
+  async send(to: string, body: string): Promise<void> {
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({ To: to, From: this.from, Body: body }).toString(),
+      signal: AbortSignal.timeout(10 * 1000)
+    })
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => null) as { message?: string } | null
+      throw new Error(`Twilio responded ${response.status}: ${error?.message ?? response.statusText}`)
+    }
+  }
+}
+
+export class FakeSmsProvider implements SmsProvider {
+  readonly name = 'fake'
+  readonly sent: SentSms[] = []
+
+  async send(to: string, body: string): Promise<void> {
+    this.sent.push({ to, body, sentAt: new Date() })
+    console.log('📱 SMS (Development Mode)')
+    console.log(`To: ${to}`)
+    console.log(`Message: ${body}`)
+  }
+}
+
+export function createSmsProvider(): SmsProvider {
+  const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER } = process.env
+  if (TWILIO_ACCOUNT_SID && TWILIO_AUTH_TOKEN && TWILIO_FROM_NUMBER) {
+    return new TwilioSmsProvider(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER)
+  }
+  return new FakeSmsProvider()
+}
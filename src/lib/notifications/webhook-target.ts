@@ -0,0 +1,73 @@
+/**
+ * Webhook Targets
+ * Webhook URLs are user-supplied and fetched from the server, so their host must resolve to
+ * public addresses only: never loopback, private, link-local or other reserved ranges.
+ */
+
+import { lookup } from 'dns/promises'
+import { BlockList, isIP } from 'net'
+
+const RESERVED = new BlockList()
+
+const RESERVED_IPV4: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // Link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4] // Reserved and broadcast
+]
+
+const RESERVED_IPV6: [string, number][] = [
+  ['::', 127], // Unspecified and loopback
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8] // Multicast
+]
+
+// IPv4 subnets also match the IPv4-mapped IPv6 form of their addresses
+RESERVED_IPV4.forEach(([network, prefix]) => RESERVED.addSubnet(network, prefix, 'ipv4'))
+RESERVED_IPV6.forEach(([network, prefix]) => RESERVED.addSubnet(network, prefix, 'ipv6'))
+
+export class UnsafeWebhookTarget extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UnsafeWebhookTarget'
+  }
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address)
+  return family !== 0 && !RESERVED.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+export interface WebhookAddress {
+  address: string
+  family: number
+}
+
+/**
+ * Resolve the URL's host and throw UnsafeWebhookTarget unless every address it resolves to is
+ * public. Resolution errors are thrown as they are, since they are usually temporary. Returns the
+ * address to connect to, so the request goes where the check looked.
+ */
+export async function resolvePublicWebhookTarget(url: string): Promise<WebhookAddress> {
+  const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1')
+  const addresses = isIP(hostname) ? [{ address: hostname, family: isIP(hostname) }] : await lookup(hostname, { all: true, verbatim: true })
+
+  const reserved = addresses.find(({ address }) => !isPublicAddress(address))
+  if (addresses.length === 0 || reserved) {
+    throw new UnsafeWebhookTarget(`Webhook host ${hostname} resolves to ${reserved?.address ?? 'no address'}, which is not a public address`)
+  }
+  return { address: addresses[0].address, family: addresses[0].family }
+}
+
+export async function assertPublicWebhookTarget(url: string): Promise<void> {
+  await resolvePublicWebhookTarget(url)
+}
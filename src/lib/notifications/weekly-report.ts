@@ -0,0 +1,89 @@
+/**
+ * Weekly Report
+ * Summary of the past week's portfolio value and triggered alerts, published to every user who
+ * turned on NotificationPreferences.weeklyReports.
+ */
+
+import { prisma } from '@/lib/db'
+import { portfolioAnalytics } from '@/lib/portfolio-analytics'
+import { notificationService } from './index'
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+
+export interface WeeklySummary {
+  portfolioValue: number | null
+  portfolioChangePercent: number | null
+  alertsTriggered: number
+}
+
+export async function buildWeeklySummary(userId: string, now: Date = new Date()): Promise<WeeklySummary> {
+  const weekAgo = now.getTime() - WEEK_MS
+  const wallets = await prisma.walletConnection.findMany({ where: { userId, isActive: true }, select: { address: true } })
+  const addresses: string[] = Array.from(new Set(wallets.map((wallet: { address: string }) => wallet.address.toLowerCase())))
+
+  let current = 0
+  let baseline = 0
+  let measured = false
+  let compared = true
+  for (const address of addresses) {
+    const [latest] = await portfolioAnalytics.getSnapshots(address, { to: now.getTime(), limit: 1 })
+    if (!latest) continue
+    const [previous] = await portfolioAnalytics.getSnapshots(address, { to: weekAgo, limit: 1 })
+    current += latest.totalValue
+    baseline += previous?.totalValue ?? 0
+    compared = compared && !!previous
+    measured = true
+  }
+
+  const alertsTriggered = await prisma.alert.count({ where: { userId, lastTriggeredAt: { gte: new Date(weekAgo) } } })
+
+  return {
+    portfolioValue: measured ? current : null,
+    portfolioChangePercent: measured && compared && baseline > 0 ? ((current - baseline) / baseline) * 100 : null,
+    alertsTriggered
+  }
+}
+
+function describe(summary: WeeklySummary): string {
+  const parts: string[] = []
+  if (summary.portfolioValue === null) {
+    parts.push('No portfolio snapshots were recorded this week.')
+  } else {
+    const change = summary.portfolioChangePercent === null
+      ? ''
+      : ` (${summary.portfolioChangePercent >= 0 ? '+' : ''}${summary.portfolioChangePercent.toFixed(2)}% this week)`
+    parts.push(`Portfolio value: $${summary.portfolioValue.toLocaleString('en-US', { maximumFractionDigits: 2 })}${change}.`)
+  }
+  parts.push(`${summary.alertsTriggered} price alert${summary.alertsTriggered === 1 ? '' : 's'} triggered.`)
+  return parts.join(' ')
+}
+
+/**
+ * Publishes the report to each opted-in user. Returns how many reports were published.
+ */
+export async function sendWeeklyReports(now: Date = new Date(), signal?: AbortSignal): Promise<number> {
+  const users = await prisma.user.findMany({
+    where: { notificationPreferences: { path: ['weeklyReports'], equals: true } },
+    select: { id: true }
+  })
+
+  let published = 0
+  for (const user of users) {
+    signal?.throwIfAborted()
+    try {
+      const summary = await buildWeeklySummary(user.id, now)
+      // Opted into through weeklyReports rather than a category switch
+      await notificationService.publish({
+        userId: user.id,
+        category: 'general',
+        title: 'Your weekly report',
+        body: describe(summary),
+        data: { ...summary }
+      }, now)
+      published++
+    } catch (error) {
+      console.error(`Failed to send weekly report to user ${user.id}:`, error)
+    }
+  }
+  return published
+}
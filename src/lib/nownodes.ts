@@ -10,6 +10,12 @@ interface CryptoPrice {
   last_updated: string
 }
 
+interface PriceHistoryPoint {
+  timestamp: number
+  price: number
+  volume24h: number
+}
+
 class NOWNodesService {
   private apiKey: string
   private baseUrl: string
@@ -127,6 +133,7 @@ class NOWNodesService {
         // Cache the results
         this.cache.set(cacheKey, { data: prices, timestamp: Date.now() })
         console.log('Successfully fetched and cached crypto prices')
+        this.recordTicks(prices, useNOWNodes ? 'nownodes' : 'coingecko')
         
         return prices
       } catch (error: unknown) {
@@ -165,6 +172,24 @@ class NOWNodesService {
     return this.getFallbackPrices(symbols)
   }
 
+  // Fresh prices feed the candle store; cached and fallback prices are never recorded
+  private recordTicks(prices: CryptoPrice[], source: string): void {
+    if (typeof window !== 'undefined') return
+
+    import('./candle-service')
+      .then(({ candleService }) => candleService.recordTicks(prices
+        .filter(price => price.current_price > 0)
+        .map(price => ({
+          symbol: price.symbol,
+          price: price.current_price,
+          volume24h: price.volume_24h,
+          marketCap: price.market_cap,
+          source,
+          timestamp: Date.parse(price.last_updated)
+        }))))
+      .catch(error => console.error('Failed to record price ticks:', error))
+  }
+
   async getSinglePrice(symbol: string): Promise<CryptoPrice | null> {
     // Check if we have cached data for any symbols that include this one
     const allCached = this.cache.get('all')
@@ -265,22 +290,14 @@ class NOWNodesService {
         }
       )
 
-      if (response.data.result) {
-        // Parse the returned data (this is a simplified version)
-        // In reality, you'd need to decode the ABI-encoded response properly
-        // const resultHex = response.data.result
-        
-        // For demo purposes, return a reasonable price
-        // In production, you'd decode the hex response properly
-        const basePrices: { [key: string]: number } = {
-          'BTC': 95000,
-          'ETH': 3500,
-          'LINK': 15
-        }
-        
-        return {
-          price: basePrices[symbol] * (0.98 + Math.random() * 0.04), // ±2% variance
-          change24h: (Math.random() - 0.5) * 10
+      const resultHex: string | undefined = response.data.result
+      // latestRoundData returns (roundId, answer, startedAt, updatedAt, answeredInRound) as 32-byte words
+      if (resultHex && resultHex.length >= 2 + 64 * 2) {
+        const answer = BigInt('0x' + resultHex.slice(2 + 64, 2 + 64 * 2))
+        // USD feeds report 8 decimals; answers are never negative for these pairs
+        const price = Number(answer) / 1e8
+        if (price > 0) {
+          return { price }
         }
       }
       
@@ -319,6 +336,35 @@ class NOWNodesService {
     }
   }
 
+  // Historical USD prices and rolling 24h volumes from CoinGecko, used to backfill candles.
+  // CoinGecko picks the granularity: 5-minutely within a day, hourly up to 90 days, daily beyond.
+  async getPriceHistory(symbol: string, from: number, to: number): Promise<PriceHistoryPoint[]> {
+    const [coinGeckoId] = this.symbolsToCoinGeckoIds([symbol])
+    const response = await axios.get(
+      `https://api.coingecko.com/api/v3/coins/${coinGeckoId}/market_chart/range`,
+      {
+        params: {
+          vs_currency: 'usd',
+          from: Math.floor(from / 1000),
+          to: Math.ceil(to / 1000)
+        },
+        timeout: 15000
+      }
+    )
+
+    const { prices = [], total_volumes = [] } = response.data as {
+      prices?: [number, number][]
+      total_volumes?: [number, number][]
+    }
+    const volumes = new Map(total_volumes)
+
+    return prices.map(([timestamp, price]) => ({
+      timestamp,
+      price,
+      volume24h: volumes.get(timestamp) ?? 0
+    }))
+  }
+
   private symbolsToCoinGeckoIds(symbols: string[]): string[] {
     const mapping: { [key: string]: string } = {
       'BTC': 'bitcoin',
@@ -459,7 +505,9 @@ export const nowNodesService = {
   getSinglePrice: (...args: Parameters<NOWNodesService['getSinglePrice']>) => 
     getNowNodesService().getSinglePrice(...args),
   getBlockchainData: (...args: Parameters<NOWNodesService['getBlockchainData']>) => 
-    getNowNodesService().getBlockchainData(...args)
+    getNowNodesService().getBlockchainData(...args),
+  getPriceHistory: (...args: Parameters<NOWNodesService['getPriceHistory']>) =>
+    getNowNodesService().getPriceHistory(...args)
 }
 
-export type { CryptoPrice }
+export type { CryptoPrice, PriceHistoryPoint }
@@ -4,6 +4,32 @@
  */
 
 import { nowNodesService } from './nownodes'
+import { candleService } from './candle-service'
+import * as snapshotStore from './portfolio-snapshot-store'
+import type { SnapshotRange } from './portfolio-snapshot-store'
+import type { CostBasisReport } from './cost-basis'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Daily candles needed before realized volatility replaces the per-asset estimate
+const MIN_VOLATILITY_SAMPLES = 10
+// History the performance and risk metrics are computed over
+const ANALYSIS_WINDOW_MS = 365 * DAY_MS
+// Returns per rolling volatility point in getHistoricalData
+const ROLLING_VOLATILITY_WINDOW = 30
+// How often each connected wallet gets a scheduled snapshot
+export const SNAPSHOT_INTERVAL_MS = DAY_MS
+// Assumed marginal rates for estimating tax loss harvesting savings
+const SHORT_TERM_TAX_RATE = 0.3
+const LONG_TERM_TAX_RATE = 0.15
+// Unrealized losses below this aren't worth a harvesting trade
+const MIN_HARVEST_LOSS_USD = 10
+
+// Chains scanned for native balances, matching the wallet dashboard
+const SNAPSHOT_CHAINS = [
+  { chainId: 1, chainName: 'Ethereum', symbol: 'ETH', name: 'Ethereum' },
+  { chainId: 56, chainName: 'BNB Smart Chain', symbol: 'BNB', name: 'BNB' },
+  { chainId: 137, chainName: 'Polygon', symbol: 'MATIC', name: 'Polygon' }
+]
 
 export interface PortfolioSnapshot {
   id: string
@@ -166,11 +192,26 @@ export interface HistoricalData {
   drawdowns: number[]
 }
 
+export interface PortfolioAnalyticsOptions {
+  persistence?: boolean // set to false to keep snapshots in memory only
+}
+
+interface PortfolioData {
+  totalValue: number
+  assets: AssetSnapshot[]
+  chains: ChainSnapshot[]
+  isSample: boolean // Placeholder data shown when the wallet could not be scanned
+}
+
 export class PortfolioAnalytics {
   private static instance: PortfolioAnalytics
-  private snapshots: Map<string, PortfolioSnapshot[]> = new Map()
-  private historicalData: Map<string, HistoricalData> = new Map()
+  private snapshots: Map<string, PortfolioSnapshot[]> = new Map() // Used when persistence is unavailable
   private marketData: Map<string, number[]> = new Map() // For beta calculation
+  private persistenceEnabled = true
+
+  constructor(options: PortfolioAnalyticsOptions = {}) {
+    this.persistenceEnabled = options.persistence ?? true
+  }
 
   static getInstance(): PortfolioAnalytics {
     if (!PortfolioAnalytics.instance) {
@@ -181,15 +222,46 @@ export class PortfolioAnalytics {
 
   // Create portfolio snapshot
   async createSnapshot(walletAddress: string): Promise<PortfolioSnapshot> {
+    const { snapshot } = await this.takeSnapshot(walletAddress)
+    return snapshot
+  }
+
+  /**
+   * Snapshots every connected wallet whose latest snapshot is older than SNAPSHOT_INTERVAL_MS.
+   * Returns the number of snapshots stored.
+   */
+  async snapshotConnectedWallets(now: number = Date.now(), signal?: AbortSignal): Promise<number> {
+    if (!this.persistenceEnabled) return 0
+
+    const addresses = await snapshotStore.findConnectedWalletAddresses()
+    const latest = await snapshotStore.findLatestSnapshotTimes(addresses)
+    let stored = 0
+
+    // One wallet at a time keeps RPC and price lookups within rate limits
+    for (const address of addresses) {
+      signal?.throwIfAborted()
+      if (now - (latest.get(address) ?? 0) < SNAPSHOT_INTERVAL_MS) continue
+      try {
+        if ((await this.takeSnapshot(address)).stored) stored++
+      } catch (error) {
+        console.error(`Scheduled snapshot failed for ${address}:`, error)
+      }
+    }
+
+    return stored
+  }
+
+  private async takeSnapshot(walletAddress: string): Promise<{ snapshot: PortfolioSnapshot; stored: boolean }> {
     try {
       // Get current portfolio data
       const portfolioData = await this.getPortfolioData(walletAddress)
+      const history = await this.getDailySnapshots(walletAddress)
       
       // Calculate performance metrics
-      const performance = await this.calculatePerformanceMetrics(walletAddress, portfolioData)
+      const performance = await this.calculatePerformanceMetrics(portfolioData, history)
       
       // Calculate risk metrics
-      const riskMetrics = await this.calculateRiskMetrics(portfolioData)
+      const riskMetrics = await this.calculateRiskMetrics(portfolioData, history)
       
       const snapshot: PortfolioSnapshot = {
         id: `snapshot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -202,47 +274,104 @@ export class PortfolioAnalytics {
         riskMetrics
       }
       
-      // Store snapshot
-      const walletKey = walletAddress.toLowerCase()
-      const existingSnapshots = this.snapshots.get(walletKey) || []
-      existingSnapshots.unshift(snapshot)
-      
-      // Keep only last 1000 snapshots
-      if (existingSnapshots.length > 1000) {
-        existingSnapshots.splice(1000)
+      // Sample data is only shown to the user; it never enters the history
+      if (portfolioData.isSample) {
+        return { snapshot, stored: false }
       }
-      
-      this.snapshots.set(walletKey, existingSnapshots)
-      
-      return snapshot
+
+      await this.storeSnapshot(snapshot)
+      return { snapshot, stored: true }
     } catch (error) {
       console.error('Failed to create portfolio snapshot:', error)
       throw error
     }
   }
 
+  private disablePersistence(error: unknown): void {
+    if (this.persistenceEnabled) {
+      console.warn('⚠ Snapshot persistence unavailable, falling back to in-memory storage:', error)
+    }
+    this.persistenceEnabled = false
+  }
+
+  private async storeSnapshot(snapshot: PortfolioSnapshot): Promise<void> {
+    if (this.persistenceEnabled) {
+      try {
+        await snapshotStore.insertSnapshot(snapshot)
+        return
+      } catch (error) {
+        this.disablePersistence(error)
+      }
+    }
+
+    const existingSnapshots = this.snapshots.get(snapshot.walletAddress) || []
+    existingSnapshots.unshift(snapshot)
+    
+    // Keep only last 1000 snapshots
+    if (existingSnapshots.length > 1000) {
+      existingSnapshots.splice(1000)
+    }
+    
+    this.snapshots.set(snapshot.walletAddress, existingSnapshots)
+  }
+
+  // Snapshots within the range, newest first
+  private async loadSnapshots(walletAddress: string, range: SnapshotRange = {}): Promise<PortfolioSnapshot[]> {
+    if (this.persistenceEnabled) {
+      try {
+        return await snapshotStore.findSnapshots(walletAddress, range)
+      } catch (error) {
+        this.disablePersistence(error)
+      }
+    }
+
+    const snapshots = (this.snapshots.get(walletAddress.toLowerCase()) || []).filter(snapshot =>
+      (range.from === undefined || snapshot.timestamp >= range.from) &&
+      (range.to === undefined || snapshot.timestamp <= range.to)
+    )
+    return range.limit !== undefined ? snapshots.slice(0, range.limit) : snapshots
+  }
+
+  // Latest snapshot of each UTC day over the analysis window, newest first, so that
+  // returns and drawdowns are daily however often snapshots are taken
+  private async getDailySnapshots(walletAddress: string): Promise<PortfolioSnapshot[]> {
+    const snapshots = await this.loadSnapshots(walletAddress, { from: Date.now() - ANALYSIS_WINDOW_MS })
+    const days = new Set<number>()
+    return snapshots.filter(snapshot => {
+      const day = Math.floor(snapshot.timestamp / DAY_MS)
+      if (days.has(day)) return false
+      days.add(day)
+      return true
+    })
+  }
+
   // Get portfolio data from NOWNodes and wallet services
-  private async getPortfolioData(walletAddress: string): Promise<{
-    totalValue: number
-    assets: AssetSnapshot[]
-    chains: ChainSnapshot[]
-  }> {
+  private async getPortfolioData(walletAddress: string): Promise<PortfolioData> {
     try {
-      // Try to get real portfolio data from wallet-dashboard API
-      try {
-        const response = await fetch(`/api/wallet-dashboard?address=${walletAddress}`)
-        if (response.ok) {
-          const realData = await response.json()
-          if (realData.success && realData.data) {
-            return this.transformWalletDataToPortfolioData(realData.data)
+      if (typeof window === 'undefined') {
+        // On the server, read balances straight from the chains
+        const scanned = await this.scanWalletBalances(walletAddress)
+        if (scanned) {
+          return { ...(await this.transformWalletDataToPortfolioData(scanned)), isSample: false }
+        }
+      } else {
+        // Try to get real portfolio data from wallet-dashboard API
+        try {
+          const response = await fetch(`/api/wallet-dashboard?address=${walletAddress}`)
+          if (response.ok) {
+            const realData = await response.json()
+            if (realData.success && realData.data) {
+              return { ...(await this.transformWalletDataToPortfolioData(realData.data)), isSample: false }
+            }
           }
+        } catch (error) {
+          console.warn('Could not fetch real portfolio data, using mock data:', error)
         }
-      } catch (error) {
-        console.warn('Could not fetch real portfolio data, using mock data:', error)
       }
       
       // Fallback to enhanced mock data based on your real portfolio
-      const mockData = {
+      const mockData: PortfolioData = {
+        isSample: true,
         totalValue: 63.88,
         assets: [
           {
@@ -329,15 +458,57 @@ export class PortfolioAnalytics {
     }
   }
 
-  private transformWalletDataToPortfolioData(walletData: any): {
+  // Native balances on the dashboard chains, shaped like wallet data for the transform below.
+  // Returns null if any balance or price lookup fails so a partial scan never enters the history.
+  private async scanWalletBalances(walletAddress: string): Promise<{ totalBalance: number; tokens: object[] } | null> {
+    const apiKey = process.env.NOWNODES_API_KEY
+    if (!apiKey) return null
+
+    try {
+      const { NOWNodesService } = await import('./web3/nownodes-service')
+      const nowNodes = new NOWNodesService(apiKey)
+      const tokens = []
+      let totalBalance = 0
+
+      for (const chain of SNAPSHOT_CHAINS) {
+        const balance = await nowNodes.getNativeBalance(walletAddress, chain.chainId)
+        if (parseFloat(balance) === 0) continue
+
+        const price = await nowNodes.getTokenPrice(chain.symbol)
+        if (!price) return null
+
+        const usdValue = parseFloat(balance) * price.price
+        totalBalance += usdValue
+        tokens.push({
+          symbol: chain.symbol,
+          name: chain.name,
+          balance,
+          usdValue,
+          price: price.price,
+          chainId: chain.chainId,
+          chainName: chain.chainName,
+          change24h: price.change24h
+        })
+      }
+
+      return { totalBalance, tokens }
+    } catch (error) {
+      console.warn(`Could not scan balances for ${walletAddress}:`, error)
+      return null
+    }
+  }
+
+  private async transformWalletDataToPortfolioData(walletData: any): Promise<{
     totalValue: number
     assets: AssetSnapshot[]
     chains: ChainSnapshot[]
-  } {
+  }> {
     // Transform real wallet data to portfolio analytics format
     const totalValue = walletData.totalBalance || 0
+    const tokens = walletData.tokens || []
+    const volatilities = await Promise.all(tokens.map((token: any) => this.getAssetVolatility(token.symbol)))
     
-    const assets: AssetSnapshot[] = (walletData.tokens || []).map((token: any) => ({
+    const assets: AssetSnapshot[] = tokens.map((token: any, index: number) => ({
       symbol: token.symbol,
       name: token.name,
       balance: token.balance,
@@ -349,7 +520,7 @@ export class PortfolioAnalytics {
       change24h: token.change24h || 0,
       change7d: token.change7d || 0,
       change30d: token.change30d || 0,
-      volatility: this.estimateVolatility(token.symbol),
+      volatility: volatilities[index],
       sharpeRatio: this.estimateSharpeRatio(token.symbol)
     }))
     
@@ -385,6 +556,27 @@ export class PortfolioAnalytics {
     return { totalValue, assets, chains }
   }
 
+  // Daily close-to-close returns in percent from recorded candles
+  private async getDailyReturns(symbol: string, days: number): Promise<number[]> {
+    try {
+      const to = Date.now()
+      const candles = await candleService.getCandles(symbol, '1d', to - days * DAY_MS, to)
+      return candles.slice(1).map((candle, i) => (candle.close - candles[i].close) / candles[i].close * 100)
+    } catch (error) {
+      console.warn(`Could not load candles for ${symbol}:`, error)
+      return []
+    }
+  }
+
+  // Annualized realized volatility over 90 days, falling back to the estimate without enough history
+  private async getAssetVolatility(symbol: string): Promise<number> {
+    const returns = await this.getDailyReturns(symbol, 90)
+    if (returns.length < MIN_VOLATILITY_SAMPLES) {
+      return this.estimateVolatility(symbol)
+    }
+    return this.calculateVolatility(returns) / 100 * Math.sqrt(365)
+  }
+
   private estimateVolatility(symbol: string): number {
     const volatilityMap: { [key: string]: number } = {
       'ETH': 0.65, 'BTC': 0.55, 'BNB': 0.58, 'MATIC': 0.82, 'ADA': 0.70,
@@ -403,12 +595,9 @@ export class PortfolioAnalytics {
 
   // Calculate performance metrics
   private async calculatePerformanceMetrics(
-    walletAddress: string, 
-    portfolioData: any
-  ): Promise<PerformanceMetrics> {
-    const walletKey = walletAddress.toLowerCase()
-    const historicalSnapshots = this.snapshots.get(walletKey) || []
-    
+    portfolioData: PortfolioData,
+    historicalSnapshots: PortfolioSnapshot[]
+  ): Promise<PerformanceMetrics> {    
     // If no historical data, return current metrics
     if (historicalSnapshots.length === 0) {
       return {
@@ -450,10 +639,8 @@ export class PortfolioAnalytics {
   }
 
   // Calculate risk metrics
-  private async calculateRiskMetrics(portfolioData: any): Promise<RiskMetrics> {
+  private async calculateRiskMetrics(portfolioData: PortfolioData, snapshots: PortfolioSnapshot[]): Promise<RiskMetrics> {
     const assets = portfolioData.assets
-    const walletKey = portfolioData.walletAddress?.toLowerCase() || 'default'
-    const snapshots = this.snapshots.get(walletKey) || []
     
     // Portfolio volatility (weighted average)
     const portfolioVolatility = assets.reduce((sum: number, asset: any) => 
@@ -487,7 +674,7 @@ export class PortfolioAnalytics {
     const maximumDrawdownDuration = this.calculateMaxDrawdownDuration(snapshots)
     
     // Market-relative metrics
-    const marketReturns = this.getMarketReturns() // Mock market data
+    const marketReturns = await this.getMarketReturns()
     const trackingError = this.calculateTrackingError(returns, marketReturns)
     const informationRatio = this.calculateInformationRatio(returns, marketReturns, trackingError)
     
@@ -577,8 +764,7 @@ export class PortfolioAnalytics {
 
   // Performance attribution analysis
   async calculatePerformanceAttribution(walletAddress: string): Promise<PerformanceAttribution> {
-    const walletKey = walletAddress.toLowerCase()
-    const snapshots = this.snapshots.get(walletKey) || []
+    const snapshots = await this.getDailySnapshots(walletAddress)
     
     if (snapshots.length < 2) {
       // Return current attribution based on weights and returns
@@ -696,10 +882,9 @@ export class PortfolioAnalytics {
     }
   }
 
-  // Generate rebalancing recommendations
-  async generateRebalancingRecommendations(walletAddress: string): Promise<RebalancingRecommendation[]> {
-    const walletKey = walletAddress.toLowerCase()
-    const snapshots = this.snapshots.get(walletKey) || []
+  // Generate rebalancing recommendations; tax loss harvesting needs the user who owns the wallet
+  async generateRebalancingRecommendations(walletAddress: string, userId?: string): Promise<RebalancingRecommendation[]> {
+    const snapshots = await this.getDailySnapshots(walletAddress)
     
     if (snapshots.length === 0) {
       return []
@@ -715,7 +900,9 @@ export class PortfolioAnalytics {
     recommendations.push(...this.generatePerformanceRecommendations(currentSnapshot, snapshots))
     
     // 3. Tax optimization recommendations
-    recommendations.push(...this.generateTaxOptimizationRecommendations(currentSnapshot, snapshots))
+    if (userId) {
+      recommendations.push(...await this.generateTaxOptimizationRecommendations(currentSnapshot, userId))
+    }
     
     // 4. Strategic rebalancing recommendations
     recommendations.push(...this.generateStrategicRebalancingRecommendations(currentSnapshot))
@@ -906,44 +1093,69 @@ export class PortfolioAnalytics {
     return recommendations
   }
 
-  private generateTaxOptimizationRecommendations(snapshot: PortfolioSnapshot, snapshots: PortfolioSnapshot[]): RebalancingRecommendation[] {
+  // Tax loss harvesting from the user's open lots, when the wallet is theirs
+  private async generateTaxOptimizationRecommendations(snapshot: PortfolioSnapshot, userId: string): Promise<RebalancingRecommendation[]> {
     const recommendations: RebalancingRecommendation[] = []
-    
-    if (snapshots.length < 2) return recommendations
-    
-    // Tax loss harvesting opportunities
-    const lossAssets = snapshot.assets.filter(asset => {
-      const previousSnapshot = snapshots[1]
-      const prevAsset = previousSnapshot?.assets.find(a => a.symbol === asset.symbol)
-      if (!prevAsset) return false
-      
-      const unrealizedLoss = ((asset.usdValue - prevAsset.usdValue) / prevAsset.usdValue) * 100
-      return unrealizedLoss < -10 // More than 10% loss
+    const prices = new Map(snapshot.assets.map(asset => [asset.symbol.toUpperCase(), asset.price]))
+
+    let reports: CostBasisReport[]
+    try {
+      // Loaded on demand: the cost basis service is server-only
+      const { costBasisService } = await import('./cost-basis')
+      const report = await costBasisService.getWalletReport(userId, snapshot.walletAddress, prices)
+      reports = report ? [report] : []
+    } catch (error) {
+      console.error('Failed to load tax lots:', error)
+      return recommendations
+    }
+
+    const losses = new Map<string, { amount: number; marketValue: number; shortTermLoss: number; longTermLoss: number; lots: number }>()
+    reports.flatMap(report => report.lots).forEach(lot => {
+      if (lot.unrealizedGain === null || lot.marketValue === null || lot.unrealizedGain >= 0) return
+      const loss = losses.get(lot.symbol) ?? { amount: 0, marketValue: 0, shortTermLoss: 0, longTermLoss: 0, lots: 0 }
+      loss.amount += lot.remaining
+      loss.marketValue += lot.marketValue
+      loss.lots += 1
+      if (lot.term === 'long') {
+        loss.longTermLoss -= lot.unrealizedGain
+      } else {
+        loss.shortTermLoss -= lot.unrealizedGain
+      }
+      losses.set(lot.symbol, loss)
     })
-    
-    if (lossAssets.length > 0) {
-      const totalLossValue = lossAssets.reduce((sum, asset) => sum + asset.usdValue, 0)
-      
+
+    const harvestable = Array.from(losses.entries())
+      .filter(([, loss]) => loss.shortTermLoss + loss.longTermLoss >= MIN_HARVEST_LOSS_USD)
+      .sort(([, a], [, b]) => (b.shortTermLoss + b.longTermLoss) - (a.shortTermLoss + a.longTermLoss))
+
+    if (harvestable.length > 0) {
+      const totalLoss = harvestable.reduce((sum, [, loss]) => sum + loss.shortTermLoss + loss.longTermLoss, 0)
+      const taxSavings = harvestable.reduce((sum, [, loss]) =>
+        sum + loss.shortTermLoss * SHORT_TERM_TAX_RATE + loss.longTermLoss * LONG_TERM_TAX_RATE, 0)
+      const saleValue = harvestable.reduce((sum, [, loss]) => sum + loss.marketValue, 0)
+      const needsSpecificId = reports.some(report => report.method !== 'SPECIFIC_ID')
+
       recommendations.push({
         id: `tax_loss_harvest_${Date.now()}`,
         type: 'tax_loss_harvest',
-        priority: 'medium',
+        priority: totalLoss > snapshot.totalValue * 0.05 ? 'high' : 'medium',
         title: 'Tax Loss Harvesting Opportunity',
-        description: `Harvest tax losses from ${lossAssets.map(a => a.symbol).join(', ')} to offset capital gains.`,
-        actions: lossAssets.map(asset => ({
+        description: `Harvest $${totalLoss.toFixed(2)} of unrealized losses from ${harvestable.map(([symbol]) => symbol).join(', ')} to offset capital gains.` +
+          (needsSpecificId ? ' Use specific-ID lot selection so the sales draw from the losing lots.' : ''),
+        actions: harvestable.map(([symbol, loss]) => ({
           type: 'sell' as const,
-          fromAsset: asset.symbol,
+          fromAsset: symbol,
           toAsset: 'USDC',
-          amount: asset.usdValue,
-          amountUSD: asset.usdValue,
-          reason: 'Realize tax losses while maintaining market exposure',
+          amount: loss.amount,
+          amountUSD: loss.marketValue,
+          reason: `Realize $${(loss.shortTermLoss + loss.longTermLoss).toFixed(2)} loss across ${loss.lots} lot${loss.lots === 1 ? '' : 's'}`,
           urgency: 'low' as const
         })),
         expectedImpact: {
           riskReduction: 0,
           returnImprovement: 0,
-          taxSavings: totalLossValue * 0.25, // Assume 25% tax rate
-          costEstimate: totalLossValue * 0.005
+          taxSavings,
+          costEstimate: saleValue * 0.005
         },
         confidence: 0.9
       })
@@ -1106,6 +1318,8 @@ export class PortfolioAnalytics {
     for (let i = 0; i < snapshots.length - 1; i++) {
       const current = snapshots[i]
       const previous = snapshots[i + 1]
+      // No return is defined out of an empty portfolio
+      if (previous.totalValue === 0) continue
       const returnPct = ((current.totalValue - previous.totalValue) / previous.totalValue) * 100
       returns.push(returnPct)
     }
@@ -1243,9 +1457,9 @@ export class PortfolioAnalytics {
     return Math.max(maxDuration, currentDuration)
   }
 
-  private getMarketReturns(): number[] {
-    // Mock market returns - in production, this would fetch real market data
-    return [-1.5, 2.3, -0.8, 1.2, -2.1, 3.4, 0.7, -1.9, 2.8, -0.3]
+  // BTC daily returns stand in for the market
+  private async getMarketReturns(): Promise<number[]> {
+    return this.getDailyReturns('BTC', 30)
   }
 
   private calculateTrackingError(portfolioReturns: number[], marketReturns: number[]): number {
@@ -1444,18 +1658,45 @@ export class PortfolioAnalytics {
   }
 
   // Public methods
-  getSnapshots(walletAddress: string, limit = 100): PortfolioSnapshot[] {
-    const walletKey = walletAddress.toLowerCase()
-    const snapshots = this.snapshots.get(walletKey) || []
-    return snapshots.slice(0, limit)
+  async getSnapshots(walletAddress: string, range: SnapshotRange = {}): Promise<PortfolioSnapshot[]> {
+    return this.loadSnapshots(walletAddress, { limit: 100, ...range })
   }
 
-  getHistoricalData(walletAddress: string): HistoricalData | null {
-    const walletKey = walletAddress.toLowerCase()
-    return this.historicalData.get(walletKey) || null
+  // Oldest-first series over the range; assets not held at a snapshot have a price of 0
+  async getHistoricalData(walletAddress: string, range: SnapshotRange = {}): Promise<HistoricalData | null> {
+    const snapshots = (await this.loadSnapshots(walletAddress, range)).reverse()
+    if (snapshots.length === 0) return null
+
+    const symbols = new Set(snapshots.flatMap(snapshot => snapshot.assets.map(asset => asset.symbol)))
+    const assetPrices: { [symbol: string]: number[] } = {}
+    symbols.forEach(symbol => {
+      assetPrices[symbol] = snapshots.map(snapshot => snapshot.assets.find(asset => asset.symbol === symbol)?.price ?? 0)
+    })
+
+    const portfolioValues = snapshots.map(snapshot => snapshot.totalValue)
+    const returns = portfolioValues.map((value, i) =>
+      i === 0 || portfolioValues[i - 1] === 0 ? 0 : ((value - portfolioValues[i - 1]) / portfolioValues[i - 1]) * 100
+    )
+
+    let peak = 0
+    const drawdowns = portfolioValues.map(value => {
+      peak = Math.max(peak, value)
+      return peak > 0 ? ((peak - value) / peak) * 100 : 0
+    })
+
+    return {
+      timestamps: snapshots.map(snapshot => snapshot.timestamp),
+      portfolioValues,
+      assetPrices,
+      returns,
+      volatility: returns.map((_, i) =>
+        this.calculateVolatility(returns.slice(Math.max(1, i + 1 - ROLLING_VOLATILITY_WINDOW), i + 1))
+      ),
+      drawdowns
+    }
   }
 
-  async getPortfolioSummary(walletAddress: string): Promise<{
+  async getPortfolioSummary(walletAddress: string, userId?: string): Promise<{
     currentSnapshot: PortfolioSnapshot
     performanceAttribution: PerformanceAttribution
     recommendations: RebalancingRecommendation[]
@@ -1467,7 +1708,7 @@ export class PortfolioAnalytics {
     const performanceAttribution = await this.calculatePerformanceAttribution(walletAddress)
     
     // Generate recommendations
-    const recommendations = await this.generateRebalancingRecommendations(walletAddress)
+    const recommendations = await this.generateRebalancingRecommendations(walletAddress, userId)
     
     return {
       currentSnapshot,
@@ -0,0 +1,138 @@
+/**
+ * Portfolio Snapshot Persistence
+ * Maps PortfolioAnalytics snapshots, with their asset and chain breakdowns, to Postgres
+ */
+
+import type {
+  AssetSnapshot,
+  ChainSnapshot,
+  PerformanceMetrics,
+  PortfolioSnapshot,
+  RiskMetrics
+} from './portfolio-analytics'
+
+export interface SnapshotRange {
+  from?: number
+  to?: number
+  limit?: number
+}
+
+// Column shapes of the PortfolioSnapshot tables
+interface PortfolioSnapshotRow {
+  id: string
+  walletAddress: string
+  timestamp: Date
+  totalValue: number
+  performance: unknown
+  riskMetrics: unknown
+  assets: (AssetSnapshot & { sharpeRatio: number | null })[]
+  chains: ChainSnapshot[]
+}
+
+// Prisma is loaded lazily so the analytics module stays importable from client components
+async function getPrisma() {
+  const { prisma } = await import('@/lib/db')
+  return prisma
+}
+
+function rowToSnapshot(row: PortfolioSnapshotRow): PortfolioSnapshot {
+  return {
+    id: row.id,
+    walletAddress: row.walletAddress,
+    timestamp: new Date(row.timestamp).getTime(),
+    totalValue: row.totalValue,
+    assets: row.assets.map(asset => ({
+      symbol: asset.symbol,
+      name: asset.name,
+      balance: asset.balance,
+      usdValue: asset.usdValue,
+      price: asset.price,
+      chainId: asset.chainId,
+      chainName: asset.chainName,
+      weight: asset.weight,
+      change24h: asset.change24h,
+      change7d: asset.change7d,
+      change30d: asset.change30d,
+      volatility: asset.volatility,
+      sharpeRatio: asset.sharpeRatio ?? undefined
+    })),
+    chains: row.chains.map(chain => ({
+      chainId: chain.chainId,
+      name: chain.name,
+      symbol: chain.symbol,
+      totalValue: chain.totalValue,
+      weight: chain.weight,
+      assetCount: chain.assetCount,
+      performance24h: chain.performance24h
+    })),
+    performance: row.performance as PerformanceMetrics,
+    riskMetrics: row.riskMetrics as RiskMetrics
+  }
+}
+
+export async function insertSnapshot(snapshot: PortfolioSnapshot): Promise<void> {
+  const prisma = await getPrisma()
+  await prisma.portfolioSnapshot.create({
+    data: {
+      id: snapshot.id,
+      walletAddress: snapshot.walletAddress,
+      timestamp: new Date(snapshot.timestamp),
+      totalValue: snapshot.totalValue,
+      performance: snapshot.performance as unknown as object,
+      riskMetrics: snapshot.riskMetrics as unknown as object,
+      assets: {
+        create: snapshot.assets.map(asset => ({ ...asset, sharpeRatio: asset.sharpeRatio ?? null }))
+      },
+      chains: {
+        create: snapshot.chains.map(chain => ({ ...chain }))
+      }
+    }
+  })
+}
+
+/**
+ * Snapshots for a wallet within the range, newest first.
+ */
+export async function findSnapshots(walletAddress: string, range: SnapshotRange = {}): Promise<PortfolioSnapshot[]> {
+  const prisma = await getPrisma()
+  const rows = await prisma.portfolioSnapshot.findMany({
+    where: {
+      walletAddress: walletAddress.toLowerCase(),
+      timestamp: {
+        ...(range.from !== undefined ? { gte: new Date(range.from) } : {}),
+        ...(range.to !== undefined ? { lte: new Date(range.to) } : {})
+      }
+    },
+    include: { assets: true, chains: true },
+    orderBy: { timestamp: 'desc' },
+    ...(range.limit !== undefined ? { take: range.limit } : {})
+  })
+  return rows.map(rowToSnapshot)
+}
+
+/**
+ * Time of the most recent snapshot per wallet.
+ */
+export async function findLatestSnapshotTimes(walletAddresses: string[]): Promise<Map<string, number>> {
+  const prisma = await getPrisma()
+  const rows = await prisma.portfolioSnapshot.findMany({
+    where: { walletAddress: { in: walletAddresses } },
+    select: { walletAddress: true, timestamp: true },
+    orderBy: { timestamp: 'desc' },
+    distinct: ['walletAddress']
+  })
+  return new Map(rows.map((row: { walletAddress: string; timestamp: Date }) =>
+    [row.walletAddress, new Date(row.timestamp).getTime()]))
+}
+
+/**
+ * Lowercased addresses of every active WalletConnection.
+ */
+export async function findConnectedWalletAddresses(): Promise<string[]> {
+  const prisma = await getPrisma()
+  const rows = await prisma.walletConnection.findMany({
+    where: { isActive: true },
+    select: { address: true }
+  })
+  return Array.from(new Set(rows.map((row: { address: string }) => row.address.toLowerCase())))
+}
@@ -4,6 +4,8 @@
  */
 
 import { nowNodesService } from './nownodes'
+import { candleService } from './candle-service'
+import { computeIndicators, evaluateIndicators } from './indicators'
 
 export interface MarketPrediction {
   id: string
@@ -391,32 +393,25 @@ export class PredictiveAnalyticsEngine {
   }
 
   private async generateTechnicalIndicators(asset: string): Promise<TechnicalIndicator[]> {
-    return [
-      {
-        name: 'RSI (14)',
-        value: 30 + Math.random() * 40,
-        signal: Math.random() > 0.5 ? 'buy' : 'sell',
-        strength: Math.random() * 100,
-        timeframe: '1d',
-        description: 'Relative Strength Index indicating momentum'
-      },
-      {
-        name: 'MACD',
-        value: Math.random() * 2 - 1,
-        signal: Math.random() > 0.5 ? 'buy' : 'sell',
-        strength: Math.random() * 100,
-        timeframe: '1d',
-        description: 'MACD histogram showing trend strength'
-      },
-      {
-        name: 'Bollinger Bands',
-        value: Math.random() * 2 - 1,
-        signal: Math.random() > 0.5 ? 'buy' : 'sell',
-        strength: Math.random() * 100,
-        timeframe: '1d',
-        description: 'Price position relative to Bollinger Bands'
-      }
-    ]
+    // The last 100 hourly candles give every indicator enough history to warm up
+    const to = Date.now()
+    let snapshot
+    try {
+      const candles = await candleService.getCandles(asset, '1h', to - 99 * 60 * 60 * 1000, to)
+      snapshot = computeIndicators(candles, 24 * 60 * 60 * 1000)
+    } catch (error) {
+      console.warn(`Could not load candles for ${asset}:`, error)
+    }
+    if (!snapshot) return []
+
+    return evaluateIndicators(snapshot).map(reading => ({
+      name: reading.name,
+      value: reading.value,
+      signal: reading.signal === 'bullish' ? 'buy' : reading.signal === 'bearish' ? 'sell' : 'hold',
+      strength: reading.strength,
+      timeframe: '1h',
+      description: reading.condition
+    }))
   }
 
   private async generateFundamentalMetrics(asset: string): Promise<FundamentalMetric[]> {
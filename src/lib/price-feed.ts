@@ -0,0 +1,262 @@
+/**
+ * Price Feeds
+ * Tick sources that drive the paper-trading venue: real ticks read from where they were recorded, or
+ * ticks replayed from fixed data or generated from a seed for tests and replays
+ */
+
+export interface PriceTick {
+  symbol: string // e.g., "ETH/USDT"
+  price: number
+  volume: number // base asset traded since the previous tick
+  timestamp: number
+}
+
+export type PriceTickListener = (tick: PriceTick) => void
+
+export abstract class PriceFeed {
+  protected listeners: Set<PriceTickListener> = new Set()
+  protected latest: Map<string, PriceTick> = new Map()
+  protected history: Map<string, PriceTick[]> = new Map()
+
+  constructor(protected maxHistory: number = 10000) {}
+
+  subscribe(listener: PriceTickListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getLatestTick(symbol: string): PriceTick | undefined {
+    return this.latest.get(symbol)
+  }
+
+  getHistory(symbol: string, since?: number): PriceTick[] {
+    const ticks = this.history.get(symbol) || []
+    return since === undefined ? [...ticks] : ticks.filter(tick => tick.timestamp >= since)
+  }
+
+  getSymbols(): string[] {
+    return Array.from(this.latest.keys())
+  }
+
+  // Feeds that can invent prices for new symbols override this
+  track(symbol: string): void {
+    void symbol
+  }
+
+  start(): void {}
+
+  stop(): void {}
+
+  // Feeds that read ticks from elsewhere override this; it resolves once the new ticks are published
+  async sync(): Promise<void> {}
+
+  protected publish(tick: PriceTick): void {
+    this.latest.set(tick.symbol, tick)
+
+    const ticks = this.history.get(tick.symbol) || []
+    ticks.push(tick)
+    if (ticks.length > this.maxHistory) {
+      ticks.splice(0, ticks.length - this.maxHistory)
+    }
+    this.history.set(tick.symbol, ticks)
+
+    this.listeners.forEach(listener => listener(tick))
+  }
+}
+
+/**
+ * Replays a fixed list of ticks, one step at a time, so tests see the same
+ * sequence of prices on every run.
+ */
+export class ReplayPriceFeed extends PriceFeed {
+  private ticks: PriceTick[]
+  private cursor = 0
+
+  constructor(ticks: PriceTick[], maxHistory?: number) {
+    super(maxHistory)
+    this.ticks = [...ticks].sort((a, b) => a.timestamp - b.timestamp)
+  }
+
+  hasNext(): boolean {
+    return this.cursor < this.ticks.length
+  }
+
+  step(): PriceTick | undefined {
+    const tick = this.ticks[this.cursor]
+    if (!tick) return undefined
+    this.cursor++
+    this.publish(tick)
+    return tick
+  }
+
+  replay(count: number = Infinity): PriceTick[] {
+    const published: PriceTick[] = []
+    while (published.length < count && this.hasNext()) {
+      published.push(this.step()!)
+    }
+    return published
+  }
+}
+
+export interface SeededSymbolConfig {
+  price: number
+  volatility?: number // max relative move per tick, e.g. 0.002 = 0.2%
+  volume?: number // average base volume per tick
+}
+
+export interface SeededPriceFeedConfig {
+  seed: number
+  symbols: { [symbol: string]: SeededSymbolConfig }
+  startTime?: number
+  intervalMs?: number
+  maxHistory?: number
+}
+
+// Mulberry32: small, fast and good enough for simulated market noise
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Random-walk feed driven by a seeded generator. The same seed and symbol set
+ * always produce the same ticks; `start()` advances it on a timer for live use.
+ */
+export class SeededPriceFeed extends PriceFeed {
+  private random: () => number
+  private symbols: Map<string, Required<SeededSymbolConfig>> = new Map()
+  private step = 0
+  private startTime: number
+  private intervalMs: number
+  private timer?: ReturnType<typeof setInterval>
+
+  constructor(config: SeededPriceFeedConfig) {
+    super(config.maxHistory)
+    this.random = createRandom(config.seed)
+    this.startTime = config.startTime ?? Date.now()
+    this.intervalMs = config.intervalMs ?? 1000
+
+    Object.entries(config.symbols).forEach(([symbol, symbolConfig]) => {
+      this.addSymbol(symbol, symbolConfig)
+    })
+  }
+
+  track(symbol: string): void {
+    if (!this.symbols.has(symbol)) {
+      this.addSymbol(symbol, { price: 1000 })
+    }
+  }
+
+  tick(): PriceTick[] {
+    this.step++
+    const timestamp = this.startTime + this.step * this.intervalMs
+    const ticks: PriceTick[] = []
+
+    this.symbols.forEach((config, symbol) => {
+      const move = (this.random() * 2 - 1) * config.volatility
+      config.price = config.price * (1 + move)
+      const tick: PriceTick = {
+        symbol,
+        price: config.price,
+        volume: config.volume * (0.5 + this.random()),
+        timestamp
+      }
+      this.publish(tick)
+      ticks.push(tick)
+    })
+
+    return ticks
+  }
+
+  start(): void {
+    if (this.timer) return
+    this.timer = setInterval(() => this.tick(), this.intervalMs)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = undefined
+    }
+  }
+
+  private addSymbol(symbol: string, config: SeededSymbolConfig): void {
+    const resolved = {
+      price: config.price,
+      volatility: config.volatility ?? 0.002,
+      volume: config.volume ?? 10
+    }
+    this.symbols.set(symbol, resolved)
+
+    // Publish an opening tick so the symbol has a price straight away
+    this.publish({
+      symbol,
+      price: resolved.price,
+      volume: 0,
+      timestamp: this.startTime + this.step * this.intervalMs
+    })
+  }
+}
+
+export type RecordedTickLoader = (symbols: string[], since: number) => Promise<PriceTick[]>
+
+export interface RecordedPriceFeedOptions {
+  lookbackMs?: number // history loaded for a symbol the first time it is synced; defaults to a day
+  maxHistory?: number
+}
+
+/**
+ * Publishes real ticks recorded elsewhere, read through `load` (ticks after `since`) on each
+ * `sync()`. It runs no timer: readers sync before they need a price, and a scheduled job syncs
+ * so resting orders see the ticks in between.
+ */
+export class RecordedPriceFeed extends PriceFeed {
+  // Timestamp of the last tick published per symbol
+  private cursors: Map<string, number> = new Map()
+  private lookbackMs: number
+  private syncing?: Promise<void>
+
+  constructor(private load: RecordedTickLoader, symbols: string[], options: RecordedPriceFeedOptions = {}) {
+    super(options.maxHistory)
+    this.lookbackMs = options.lookbackMs ?? 24 * 60 * 60 * 1000
+    symbols.forEach(symbol => this.track(symbol))
+  }
+
+  track(symbol: string): void {
+    if (!this.cursors.has(symbol)) {
+      this.cursors.set(symbol, Date.now() - this.lookbackMs)
+    }
+  }
+
+  sync(): Promise<void> {
+    // Callers arriving while a read is in flight wait for it rather than starting another
+    if (!this.syncing) {
+      this.syncing = this.loadNewTicks().finally(() => {
+        this.syncing = undefined
+      })
+    }
+    return this.syncing
+  }
+
+  private async loadNewTicks(): Promise<void> {
+    if (this.cursors.size === 0) return
+    const ticks = await this.load(Array.from(this.cursors.keys()), Math.min(...Array.from(this.cursors.values())))
+
+    ticks
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach(tick => {
+        const cursor = this.cursors.get(tick.symbol)
+        if (cursor === undefined || tick.timestamp <= cursor) return
+        this.cursors.set(tick.symbol, tick.timestamp)
+        this.publish(tick)
+      })
+  }
+}
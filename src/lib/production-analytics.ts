@@ -174,6 +174,9 @@ export interface DashboardWidget {
   }
 }
 
+// Background job that collects analytics on the worker while enabled through the analytics API
+export const PRODUCTION_ANALYTICS_JOB = 'production-analytics.collect'
+
 export class ProductionAnalytics {
   private events: AnalyticsEvent[] = []
   private systemMetrics: SystemMetrics[] = []
@@ -191,20 +194,30 @@ export class ProductionAnalytics {
   }
 
   /**
-   * Start analytics collection
+   * Start analytics collection in the browser. On the server, collection runs as the
+   * PRODUCTION_ANALYTICS_JOB background job instead.
    */
   startCollection(intervalMs: number = 60000): void {
     if (this.isCollecting) return
 
     this.isCollecting = true
     this.collectionInterval = setInterval(() => {
-      this.collectSystemMetrics()
-      this.collectDeFiMetrics()
-      this.collectBusinessMetrics()
-      this.checkAlerts()
+      this.collectOnce().catch(error => console.error('Analytics collection failed:', error))
     }, intervalMs)
   }
 
+  /**
+   * Collect system, DeFi and business metrics and evaluate alert rules once
+   */
+  async collectOnce(): Promise<void> {
+    await Promise.all([
+      this.collectSystemMetrics(),
+      this.collectDeFiMetrics(),
+      this.collectBusinessMetrics()
+    ])
+    await this.checkAlerts()
+  }
+
   /**
    * Stop analytics collection
    */
@@ -0,0 +1,51 @@
+/**
+ * Web Push (browser side)
+ * Registers the service worker in public/sw.js and keeps this browser's push subscription
+ * registered with /api/notifications/push.
+ */
+
+export function pushSupported(): boolean {
+  return typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window
+}
+
+// VAPID keys are URL-safe base64; PushManager wants the raw bytes
+function applicationServerKey(publicKey: string): ArrayBuffer {
+  const base64 = (publicKey + '='.repeat((4 - (publicKey.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/')
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0)).buffer as ArrayBuffer
+}
+
+export async function subscribeToPush(): Promise<void> {
+  if (!pushSupported()) throw new Error('This browser does not support push notifications')
+  if (await Notification.requestPermission() !== 'granted') {
+    throw new Error('Notification permission was not granted')
+  }
+
+  const keyResponse = await fetch('/api/notifications/push')
+  const { publicKey, error } = await keyResponse.json()
+  if (!keyResponse.ok) throw new Error(error || 'Push notifications are not available')
+
+  const registration = await navigator.serviceWorker.register('/sw.js')
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: applicationServerKey(publicKey) })
+
+  const response = await fetch('/api/notifications/push', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(subscription.toJSON())
+  })
+  if (!response.ok) throw new Error('Failed to register push subscription')
+}
+
+export async function unsubscribeFromPush(): Promise<void> {
+  if (!pushSupported()) return
+  const registration = await navigator.serviceWorker.getRegistration('/sw.js')
+  const subscription = await registration?.pushManager.getSubscription()
+  if (!subscription) return
+
+  await fetch('/api/notifications/push', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ endpoint: subscription.endpoint })
+  })
+  await subscription.unsubscribe()
+}
@@ -0,0 +1,378 @@
+/**
+ * Tax Reports
+ * Capital gains and income for a tax year under US rules (lots split short/long-term) or UK rules
+ * (same-day, 30-day and section 104 pooling), as a JSON breakdown or a Form 8949-style CSV.
+ * UK reports are in GBP, converted at the rate on the day of each event.
+ */
+
+import { costBasisService, CostBasisMethod, LedgerEvent, RealizedLot } from './cost-basis'
+import type { IncomeEvent } from './defi-position-tracker'
+import { DailyRates, fetchDailyRates } from './exchange-rates'
+
+export const TAX_JURISDICTIONS = ['US', 'UK'] as const
+
+export type TaxJurisdiction = typeof TAX_JURISDICTIONS[number]
+
+export type ReportCurrency = 'USD' | 'GBP'
+
+export type GainCategory = 'short' | 'long' | 'same_day' | 'bed_and_breakfast' | 'section_104' | 'unmatched'
+
+export interface CapitalGainRow {
+  disposalId: string
+  symbol: string
+  amount: number
+  acquiredAt: number | null // null for pooled amounts and disposals beyond the tracked holdings
+  disposedAt: number
+  proceeds: number
+  costBasis: number
+  gain: number
+  category: GainCategory // Holding term for US reports, matching rule for UK reports
+}
+
+export interface TaxIncomeEvent extends IncomeEvent {
+  value: number // In the report currency, on the day received
+}
+
+export interface TaxYear {
+  year: number
+  label: string
+  start: number
+  end: number // Exclusive
+}
+
+export interface TaxReport {
+  jurisdiction: TaxJurisdiction
+  taxYear: TaxYear
+  matching: CostBasisMethod | 'SHARE_POOLING'
+  currency: ReportCurrency
+  capitalGains: CapitalGainRow[]
+  income: TaxIncomeEvent[]
+  summary: {
+    disposals: number
+    proceeds: number
+    costBasis: number
+    totalGains: number
+    totalLosses: number
+    netGain: number
+    gainsByCategory: Partial<Record<GainCategory, number>>
+    income: number
+  }
+  generatedAt: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const BED_AND_BREAKFAST_DAYS = 30
+const EPSILON = 1e-9
+
+const REPORT_CURRENCIES: Record<TaxJurisdiction, ReportCurrency> = { US: 'USD', UK: 'GBP' }
+
+const CATEGORY_LABELS: Record<GainCategory, string> = {
+  short: 'Short-term',
+  long: 'Long-term',
+  same_day: 'Same day',
+  bed_and_breakfast: '30 day',
+  section_104: 'Section 104',
+  unmatched: 'Unmatched'
+}
+
+/**
+ * Calendar year for the US; 6 April to 5 April for the UK, labelled e.g. 2024/25.
+ */
+export function taxYearRange(year: number, jurisdiction: TaxJurisdiction): TaxYear {
+  if (jurisdiction === 'UK') {
+    return {
+      year,
+      label: `${year}/${String((year + 1) % 100).padStart(2, '0')}`,
+      start: Date.UTC(year, 3, 6),
+      end: Date.UTC(year + 1, 3, 6)
+    }
+  }
+  return { year, label: String(year), start: Date.UTC(year, 0, 1), end: Date.UTC(year + 1, 0, 1) }
+}
+
+interface PendingAcquisition {
+  timestamp: number
+  day: number
+  remaining: number
+  unitCost: number
+}
+
+interface PendingDisposal {
+  event: LedgerEvent
+  day: number
+  remaining: number
+  matches: { category: GainCategory; amount: number; cost: number; acquiredAt: number | null }[]
+}
+
+function utcDay(timestamp: number): number {
+  return Math.floor(timestamp / DAY_MS)
+}
+
+/**
+ * Takes up to `amount` from acquisitions treated as a single holding, so each keeps its share of
+ * the average cost.
+ */
+function drawPooled(acquisitions: PendingAcquisition[], amount: number): { amount: number; cost: number } {
+  const available = acquisitions.reduce((sum, acquisition) => sum + acquisition.remaining, 0)
+  const taken = Math.min(amount, available)
+  if (taken <= EPSILON) return { amount: 0, cost: 0 }
+
+  const fraction = taken / available
+  let cost = 0
+  acquisitions.forEach(acquisition => {
+    const used = acquisition.remaining * fraction
+    cost += used * acquisition.unitCost
+    acquisition.remaining -= used
+  })
+  return { amount: taken, cost }
+}
+
+function matchSymbolPools(events: LedgerEvent[]): CapitalGainRow[] {
+  const ordered = [...events].sort((a, b) =>
+    a.timestamp - b.timestamp || Number(a.type !== 'acquire') - Number(b.type !== 'acquire'))
+  const acquisitions = new Map<LedgerEvent, PendingAcquisition>()
+  const disposals: PendingDisposal[] = []
+
+  ordered.forEach(event => {
+    if (event.type === 'acquire') {
+      acquisitions.set(event, {
+        timestamp: event.timestamp,
+        day: utcDay(event.timestamp),
+        remaining: event.amount,
+        unitCost: (event.amount * event.price + event.fee) / event.amount
+      })
+    } else if (event.type === 'dispose') {
+      disposals.push({ event, day: utcDay(event.timestamp), remaining: event.amount, matches: [] })
+    }
+  })
+  const pending = Array.from(acquisitions.values())
+
+  // Same-day rule: acquisitions on the day of the disposal
+  disposals.forEach(disposal => {
+    const sameDay = pending.filter(acquisition => acquisition.day === disposal.day)
+    const drawn = drawPooled(sameDay, disposal.remaining)
+    if (drawn.amount > 0) {
+      disposal.remaining -= drawn.amount
+      disposal.matches.push({ category: 'same_day', ...drawn, acquiredAt: disposal.event.timestamp })
+    }
+  })
+
+  // 30-day rule: acquisitions in the following 30 days, earliest day first
+  disposals.forEach(disposal => {
+    for (let day = disposal.day + 1; day <= disposal.day + BED_AND_BREAKFAST_DAYS && disposal.remaining > EPSILON; day++) {
+      const onDay = pending.filter(acquisition => acquisition.day === day)
+      const drawn = drawPooled(onDay, disposal.remaining)
+      if (drawn.amount > 0) {
+        disposal.remaining -= drawn.amount
+        disposal.matches.push({ category: 'bed_and_breakfast', ...drawn, acquiredAt: onDay[0].timestamp })
+      }
+    }
+  })
+
+  // Section 104 pool: whatever is left, at average cost in time order
+  const pool: PendingAcquisition = { timestamp: 0, day: 0, remaining: 0, unitCost: 0 }
+  const disposalsByEvent = new Map(disposals.map(disposal => [disposal.event, disposal]))
+  ordered.forEach(event => {
+    const acquisition = acquisitions.get(event)
+    if (acquisition) {
+      const cost = pool.remaining * pool.unitCost + acquisition.remaining * acquisition.unitCost
+      pool.remaining += acquisition.remaining
+      pool.unitCost = pool.remaining > EPSILON ? cost / pool.remaining : 0
+      return
+    }
+
+    const disposal = disposalsByEvent.get(event)
+    if (!disposal) {
+      // Outgoing transfers leave the pool without a disposal
+      drawPooled([pool], event.amount)
+      return
+    }
+    const drawn = drawPooled([pool], disposal.remaining)
+    if (drawn.amount > 0) {
+      disposal.remaining -= drawn.amount
+      disposal.matches.push({ category: 'section_104', ...drawn, acquiredAt: null })
+    }
+    if (disposal.remaining > EPSILON) {
+      disposal.matches.push({ category: 'unmatched', amount: disposal.remaining, cost: 0, acquiredAt: null })
+      disposal.remaining = 0
+    }
+  })
+
+  return disposals.flatMap(({ event, matches }) => {
+    const netProceeds = event.amount * event.price - event.fee
+    return matches.map(match => {
+      const proceeds = netProceeds * (match.amount / event.amount)
+      return {
+        disposalId: event.id,
+        symbol: event.symbol,
+        amount: match.amount,
+        acquiredAt: match.acquiredAt,
+        disposedAt: event.timestamp,
+        proceeds,
+        costBasis: match.cost,
+        gain: proceeds - match.cost,
+        category: match.category
+      }
+    })
+  })
+}
+
+/**
+ * Matches disposals to acquisitions under the UK share pooling rules, per asset. Days are UTC.
+ */
+export function matchSharePools(events: LedgerEvent[]): CapitalGainRow[] {
+  const bySymbol = new Map<string, LedgerEvent[]>()
+  events
+    .filter(event => event.amount > 0)
+    .forEach(event => {
+      const symbol = event.symbol.toUpperCase()
+      bySymbol.set(symbol, [...(bySymbol.get(symbol) ?? []), { ...event, symbol }])
+    })
+
+  return Array.from(bySymbol.values())
+    .flatMap(matchSymbolPools)
+    .sort((a, b) => a.disposedAt - b.disposedAt)
+}
+
+/**
+ * Ledger events with prices and fees converted from USD at the rate on each event's day.
+ */
+export function convertLedgerEvents(events: LedgerEvent[], rates: DailyRates): LedgerEvent[] {
+  return events.map(event => {
+    const rate = rates.rateAt(event.timestamp)
+    return { ...event, price: event.price * rate, fee: event.fee * rate }
+  })
+}
+
+function lotToRow(lot: RealizedLot): CapitalGainRow {
+  return {
+    disposalId: lot.disposalId,
+    symbol: lot.symbol,
+    amount: lot.amount,
+    acquiredAt: lot.acquiredAt,
+    disposedAt: lot.disposedAt,
+    proceeds: lot.proceeds,
+    costBasis: lot.costBasis,
+    gain: lot.gain,
+    category: lot.lotId === null ? 'unmatched' : lot.term
+  }
+}
+
+export function summarizeTaxReport(capitalGains: CapitalGainRow[], income: TaxIncomeEvent[]): TaxReport['summary'] {
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+  const gainsByCategory: Partial<Record<GainCategory, number>> = {}
+  capitalGains.forEach(row => {
+    gainsByCategory[row.category] = (gainsByCategory[row.category] ?? 0) + row.gain
+  })
+
+  return {
+    disposals: new Set(capitalGains.map(row => row.disposalId)).size,
+    proceeds: sum(capitalGains.map(row => row.proceeds)),
+    costBasis: sum(capitalGains.map(row => row.costBasis)),
+    totalGains: sum(capitalGains.filter(row => row.gain > 0).map(row => row.gain)),
+    totalLosses: sum(capitalGains.filter(row => row.gain < 0).map(row => -row.gain)),
+    netGain: sum(capitalGains.map(row => row.gain)),
+    gainsByCategory,
+    income: sum(income.map(event => event.value))
+  }
+}
+
+/**
+ * Gains and income for the user's tax year. US reports use the user's lot selection method;
+ * UK reports pool every acquisition, with costs, proceeds and income in GBP at each event's daily rate.
+ */
+export async function generateTaxReport(userId: string, year: number, jurisdiction: TaxJurisdiction): Promise<TaxReport> {
+  const taxYear = taxYearRange(year, jurisdiction)
+  const currency = REPORT_CURRENCIES[jurisdiction]
+
+  let matching: TaxReport['matching']
+  let rows: CapitalGainRow[]
+  let rates: DailyRates | null = null
+  if (jurisdiction === 'UK') {
+    matching = 'SHARE_POOLING'
+    const events = await costBasisService.getLedgerEvents(userId)
+    // Acquisitions pooled from earlier years are costed at their own day's rate
+    const from = events.reduce((earliest, event) => Math.min(earliest, event.timestamp), taxYear.start)
+    rates = await fetchDailyRates(currency, from, taxYear.end)
+    rows = matchSharePools(convertLedgerEvents(events, rates))
+  } else {
+    // Prices only value open lots, which the tax report doesn't need
+    const lots = await costBasisService.getReport(userId, { prices: new Map() })
+    matching = lots.method
+    rows = lots.realized.map(lotToRow)
+  }
+
+  const capitalGains = rows.filter(row => row.disposedAt >= taxYear.start && row.disposedAt < taxYear.end)
+  const income = (await costBasisService.getIncomeEvents(userId, taxYear.start, taxYear.end))
+    .map(event => ({ ...event, value: rates ? event.usdValue * rates.rateAt(event.receivedAt) : event.usdValue }))
+
+  return {
+    jurisdiction,
+    taxYear,
+    matching,
+    currency,
+    capitalGains,
+    income,
+    summary: summarizeTaxReport(capitalGains, income),
+    generatedAt: Date.now()
+  }
+}
+
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function formatDate(timestamp: number, jurisdiction: TaxJurisdiction): string {
+  const date = new Date(timestamp)
+  const day = String(date.getUTCDate()).padStart(2, '0')
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0')
+  return jurisdiction === 'UK' ? `${day}/${month}/${date.getUTCFullYear()}` : `${month}/${day}/${date.getUTCFullYear()}`
+}
+
+function formatQuantity(amount: number): string {
+  return String(Number(amount.toFixed(8)))
+}
+
+/**
+ * Capital gains as CSV: Form 8949 columns for US reports (short-term rows first),
+ * HMRC-style columns with the matching rule for UK reports.
+ */
+export function toTaxReportCsv(report: TaxReport): string {
+  const { jurisdiction } = report
+  let lines: string[][]
+
+  if (jurisdiction === 'US') {
+    const rows = [...report.capitalGains].sort((a, b) =>
+      Number(a.category === 'long') - Number(b.category === 'long') || a.disposedAt - b.disposedAt)
+    lines = [
+      ['Description of property', 'Date acquired', 'Date sold or disposed of', 'Proceeds', 'Cost or other basis',
+        'Code(s)', 'Amount of adjustment', 'Gain or (loss)', 'Term'],
+      ...rows.map(row => [
+        `${formatQuantity(row.amount)} ${row.symbol}`,
+        row.acquiredAt !== null ? formatDate(row.acquiredAt, jurisdiction) : 'VARIOUS',
+        formatDate(row.disposedAt, jurisdiction),
+        row.proceeds.toFixed(2),
+        row.costBasis.toFixed(2),
+        '',
+        '',
+        row.gain.toFixed(2),
+        row.category === 'long' ? CATEGORY_LABELS.long : CATEGORY_LABELS.short
+      ])
+    ]
+  } else {
+    lines = [
+      ['Asset', 'Quantity', 'Disposal date', 'Matching rule', 'Proceeds', 'Allowable cost', 'Gain or (loss)'],
+      ...report.capitalGains.map(row => [
+        row.symbol,
+        formatQuantity(row.amount),
+        formatDate(row.disposedAt, jurisdiction),
+        CATEGORY_LABELS[row.category],
+        row.proceeds.toFixed(2),
+        row.costBasis.toFixed(2),
+        row.gain.toFixed(2)
+      ])
+    ]
+  }
+
+  return lines.map(line => line.map(csvCell).join(',')).join('\n') + '\n'
+}
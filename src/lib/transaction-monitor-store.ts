@@ -0,0 +1,135 @@
+/**
+ * Transaction Monitor Persistence
+ * The worker polls monitored wallets; the transactions and alerts it finds are kept in Postgres
+ * so the web process can list them
+ */
+
+import type { MonitoringConfig, Transaction, TransactionAlert, AlertSeverity, AlertType } from './transaction-monitor'
+
+// Prisma is loaded lazily so the monitor's types stay importable from client components
+async function getPrisma() {
+  const { prisma } = await import('@/lib/db')
+  return prisma
+}
+
+interface AlertRow {
+  id: string
+  walletAddress: string
+  type: string
+  severity: string
+  title: string
+  message: string
+  transaction: unknown
+  acknowledged: boolean
+  createdAt: Date
+}
+
+function rowToAlert(row: AlertRow): TransactionAlert {
+  return {
+    id: row.id,
+    type: row.type as AlertType,
+    severity: row.severity as AlertSeverity,
+    title: row.title,
+    message: row.message,
+    transaction: row.transaction as Transaction,
+    timestamp: row.createdAt.getTime(),
+    acknowledged: row.acknowledged,
+    walletAddress: row.walletAddress
+  }
+}
+
+export async function saveMonitoredWallet(config: MonitoringConfig & { userId: string }): Promise<void> {
+  const prisma = await getPrisma()
+  const walletAddress = config.walletAddress.toLowerCase()
+  await prisma.monitoredWallet.upsert({
+    where: { walletAddress },
+    create: { walletAddress, userId: config.userId, config },
+    update: { userId: config.userId, config }
+  })
+}
+
+export async function deleteMonitoredWallet(walletAddress: string): Promise<void> {
+  const prisma = await getPrisma()
+  await prisma.monitoredWallet.deleteMany({ where: { walletAddress: walletAddress.toLowerCase() } })
+}
+
+export async function isWalletMonitored(walletAddress: string): Promise<boolean> {
+  const prisma = await getPrisma()
+  const count = await prisma.monitoredWallet.count({ where: { walletAddress: walletAddress.toLowerCase() } })
+  return count > 0
+}
+
+/**
+ * Stores a transaction once per wallet and chain. Returns false when it was already stored.
+ */
+export async function saveTransaction(walletAddress: string, transaction: Transaction): Promise<boolean> {
+  const prisma = await getPrisma()
+  const { count } = await prisma.monitoredTransaction.createMany({
+    data: [{
+      walletAddress: walletAddress.toLowerCase(),
+      chainId: transaction.chainId,
+      hash: transaction.hash,
+      transaction,
+      timestamp: new Date(transaction.timestamp)
+    }],
+    skipDuplicates: true
+  })
+  return count > 0
+}
+
+// Newest first; every stored transaction when no limit is given
+export async function findTransactions(walletAddress: string, limit?: number, offset: number = 0): Promise<Transaction[]> {
+  const prisma = await getPrisma()
+  const rows: { transaction: unknown }[] = await prisma.monitoredTransaction.findMany({
+    where: { walletAddress: walletAddress.toLowerCase() },
+    orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+    skip: offset,
+    take: limit,
+    select: { transaction: true }
+  })
+  return rows.map(row => row.transaction as Transaction)
+}
+
+export async function countTransactions(walletAddress: string): Promise<number> {
+  const prisma = await getPrisma()
+  return prisma.monitoredTransaction.count({ where: { walletAddress: walletAddress.toLowerCase() } })
+}
+
+export async function saveAlert(userId: string, alert: TransactionAlert): Promise<void> {
+  const prisma = await getPrisma()
+  await prisma.transactionAlert.create({
+    data: {
+      id: alert.id,
+      userId,
+      walletAddress: alert.walletAddress.toLowerCase(),
+      type: alert.type,
+      severity: alert.severity,
+      title: alert.title,
+      message: alert.message,
+      transaction: alert.transaction,
+      acknowledged: alert.acknowledged,
+      createdAt: new Date(alert.timestamp)
+    }
+  })
+}
+
+// The user's alerts, newest first, optionally for one wallet
+export async function findAlerts(userId: string, walletAddress?: string, limit: number = 500): Promise<TransactionAlert[]> {
+  const prisma = await getPrisma()
+  const rows: AlertRow[] = await prisma.transactionAlert.findMany({
+    where: { userId, ...(walletAddress ? { walletAddress: walletAddress.toLowerCase() } : {}) },
+    orderBy: { createdAt: 'desc' },
+    take: limit
+  })
+  return rows.map(rowToAlert)
+}
+
+// Returns false when the alert does not exist or belongs to someone else
+export async function acknowledgeAlert(userId: string, alertId: string): Promise<boolean> {
+  const prisma = await getPrisma()
+  const { count } = await prisma.transactionAlert.updateMany({
+    where: { id: alertId, userId },
+    data: { acknowledged: true }
+  })
+  return count > 0
+}
@@ -5,6 +5,7 @@
 
 import { EventEmitter } from 'events'
 import { nowNodesService } from './nownodes'
+import * as monitorStore from './transaction-monitor-store'
 
 export interface Transaction {
   hash: string
@@ -67,6 +68,7 @@ export enum AlertSeverity {
 }
 
 export interface MonitoringConfig {
+  userId?: string // Owner; server-side alerts are published to their notification channels
   walletAddress: string
   chainIds: number[]
   alertThresholds: {
@@ -78,30 +80,31 @@ export interface MonitoringConfig {
   notificationMethods: ('browser' | 'email' | 'webhook')[]
 }
 
+// Known DeFi contract addresses (lowercased) for categorization and labelling
+export const KNOWN_DEFI_CONTRACTS = new Map<string, { protocol: string; name: string }>([
+  // Ethereum
+  ['0x7d2768de32b0b80b7a3454c06bdac94a69ddc7a9', { protocol: 'Aave', name: 'Lending Pool' }],
+  ['0x39aa39c021dfbae8fac545936693ac917d5e7563', { protocol: 'Compound', name: 'cUSDC' }],
+  ['0xe592427a0aece92de3edee1f18e0157c05861564', { protocol: 'Uniswap V3', name: 'Router' }],
+  ['0xae7ab96520de3a18e5e111b5eaab095312d7fe84', { protocol: 'Lido', name: 'stETH' }],
+  ['0xbebc44782c7db0a1a60cb6fe97d0b483032ff1c7', { protocol: 'Curve', name: '3Pool' }],
+  
+  // BSC
+  ['0x10ed43c718714eb63d5aa57b78b54704e256024e', { protocol: 'PancakeSwap', name: 'Router' }],
+  ['0x73feaa1ee314f8c655e354234017be2193c9e24e', { protocol: 'PancakeSwap', name: 'MasterChef' }],
+  
+  // Polygon
+  ['0x8df3aad3a84da6b69a4da8aec3ea40d9091b2ac4', { protocol: 'Aave', name: 'Polygon Pool' }],
+])
+
+export const TRANSACTION_MONITOR_JOB = 'transaction-monitor.poll'
+
 export class TransactionMonitor extends EventEmitter {
   private static instance: TransactionMonitor
   private monitoredWallets: Map<string, MonitoringConfig> = new Map()
-  private activeMonitors: Map<string, NodeJS.Timeout> = new Map()
-  private transactionHistory: Map<string, Transaction[]> = new Map()
   private lastProcessedBlock: Map<string, number> = new Map()
-  private alertHistory: TransactionAlert[] = []
-
-  // Known DeFi contract addresses for categorization
-  private defiContracts = new Map([
-    // Ethereum
-    ['0x7d2768de32b0b80b7a3454c06bdac94a69ddc7a9', { protocol: 'Aave', name: 'Lending Pool' }],
-    ['0x39aa39c021dfbae8fac545936693ac917d5e7563', { protocol: 'Compound', name: 'cUSDC' }],
-    ['0xe592427a0aece92de3edee1f18e0157c05861564', { protocol: 'Uniswap V3', name: 'Router' }],
-    ['0xae7ab96520de3a18e5e111b5eaab095312d7fe84', { protocol: 'Lido', name: 'stETH' }],
-    ['0xbebc44782c7db0a1a60cb6fe97d0b483032ff1c7', { protocol: 'Curve', name: '3Pool' }],
-    
-    // BSC
-    ['0x10ed43c718714eb63d5aa57b78b54704e256024e', { protocol: 'PancakeSwap', name: 'Router' }],
-    ['0x73feaa1ee314f8c655e354234017be2193c9e24e', { protocol: 'PancakeSwap', name: 'MasterChef' }],
-    
-    // Polygon
-    ['0x8df3aad3a84da6b69a4da8aec3ea40d9091b2ac4', { protocol: 'Aave', name: 'Polygon Pool' }],
-  ])
+
+  private defiContracts = KNOWN_DEFI_CONTRACTS
 
   static getInstance(): TransactionMonitor {
     if (!TransactionMonitor.instance) {
@@ -114,15 +117,13 @@ export class TransactionMonitor extends EventEmitter {
   async startMonitoring(config: MonitoringConfig): Promise<void> {
     const walletKey = `${config.walletAddress.toLowerCase()}`
     
-    // Stop existing monitoring if any
-    this.stopMonitoring(config.walletAddress)
+    // Restart existing monitoring if any
+    this.forgetWallet(walletKey)
     
-    // Store config
+    // Store config, in the database too so every process sees the wallet as monitored
     this.monitoredWallets.set(walletKey, config)
-    
-    // Initialize transaction history
-    if (!this.transactionHistory.has(walletKey)) {
-      this.transactionHistory.set(walletKey, [])
+    if (config.userId) {
+      await monitorStore.saveMonitoredWallet({ ...config, userId: config.userId })
     }
     
     // Start monitoring each chain
@@ -134,21 +135,23 @@ export class TransactionMonitor extends EventEmitter {
   }
 
   // Stop monitoring a wallet
-  stopMonitoring(walletAddress: string): void {
-    const walletKey = walletAddress.toLowerCase()
+  async stopMonitoring(walletAddress: string): Promise<void> {
+    this.forgetWallet(walletAddress.toLowerCase())
+    await monitorStore.deleteMonitoredWallet(walletAddress)
     
-    // Clear active monitors
-    for (const [key, timeout] of this.activeMonitors.entries()) {
-      if (key.startsWith(walletKey)) {
-        clearInterval(timeout)
-        this.activeMonitors.delete(key)
+    console.log(`Stopped monitoring wallet ${walletAddress}`)
+  }
+
+  private forgetWallet(walletKey: string): void {
+    // Forget the last processed blocks
+    for (const key of this.lastProcessedBlock.keys()) {
+      if (key.startsWith(`${walletKey}_`)) {
+        this.lastProcessedBlock.delete(key)
       }
     }
     
     // Remove from monitored wallets
     this.monitoredWallets.delete(walletKey)
-    
-    console.log(`Stopped monitoring wallet ${walletAddress}`)
   }
 
   // Start monitoring a specific chain for a wallet
@@ -161,19 +164,27 @@ export class TransactionMonitor extends EventEmitter {
       this.lastProcessedBlock.set(monitorKey, latestBlock)
     } catch (error) {
       console.error(`Failed to get latest block for chain ${chainId}:`, error)
+    }
+  }
+
+  // Check every chain of a monitored wallet for new transactions. Runs as the
+  // TRANSACTION_MONITOR_JOB background job, scheduled per wallet when monitoring starts
+  async pollWallet(config: MonitoringConfig): Promise<void> {
+    const walletKey = config.walletAddress.toLowerCase()
+    if (!this.monitoredWallets.has(walletKey)) {
+      await this.startMonitoring(config)
       return
     }
-    
-    // Set up polling interval (every 15 seconds)
-    const interval = setInterval(async () => {
-      try {
-        await this.checkForNewTransactions(walletAddress, chainId)
-      } catch (error) {
-        console.error(`Error checking transactions for ${walletAddress} on chain ${chainId}:`, error)
+
+    // Pick up threshold and chain changes made since monitoring started
+    this.monitoredWallets.set(walletKey, config)
+    for (const chainId of config.chainIds) {
+      if (this.lastProcessedBlock.has(`${walletKey}_${chainId}`)) {
+        await this.checkForNewTransactions(config.walletAddress, chainId)
+      } else {
+        await this.startChainMonitoring(config.walletAddress, chainId)
       }
-    }, 15000)
-    
-    this.activeMonitors.set(monitorKey, interval)
+    }
   }
 
   // Check for new transactions
@@ -335,23 +346,17 @@ export class TransactionMonitor extends EventEmitter {
     
     if (!config) return
     
-    // Add to transaction history
-    const history = this.transactionHistory.get(walletKey) || []
-    history.unshift(transaction)
-    
-    // Keep only last 1000 transactions
-    if (history.length > 1000) {
-      history.splice(1000)
-    }
-    
-    this.transactionHistory.set(walletKey, history)
+    // Add to transaction history; a transaction seen before has had its alerts
+    if (!(await monitorStore.saveTransaction(walletKey, transaction))) return
     
     // Generate alerts
     const alerts = await this.generateAlerts(transaction, config)
     
     // Process each alert
     for (const alert of alerts) {
-      this.alertHistory.unshift(alert)
+      if (config.userId) {
+        await monitorStore.saveAlert(config.userId, alert)
+      }
       this.emit('alert', alert)
       
       // Send notifications
@@ -419,23 +424,19 @@ export class TransactionMonitor extends EventEmitter {
     return alerts
   }
 
-  // Send notifications
+  // Send notifications: in the browser through the Notification API; on the server as a
+  // 'notification' event, which the worker publishes to the notification pipeline
   private async sendNotifications(alert: TransactionAlert, config: MonitoringConfig): Promise<void> {
-    for (const method of config.notificationMethods) {
+    if (typeof window === 'undefined') {
+      this.emit('notification', alert, config)
+      return
+    }
+
+    if (config.notificationMethods.includes('browser')) {
       try {
-        switch (method) {
-          case 'browser':
-            await this.sendBrowserNotification(alert)
-            break
-          case 'email':
-            await this.sendEmailNotification(alert, config)
-            break
-          case 'webhook':
-            await this.sendWebhookNotification(alert, config)
-            break
-        }
+        await this.sendBrowserNotification(alert)
       } catch (error) {
-        console.error(`Failed to send ${method} notification:`, error)
+        console.error('Failed to send browser notification:', error)
       }
     }
   }
@@ -451,18 +452,6 @@ export class TransactionMonitor extends EventEmitter {
     }
   }
 
-  // Send email notification (placeholder)
-  private async sendEmailNotification(alert: TransactionAlert, config: MonitoringConfig): Promise<void> {
-    // This would integrate with your email service
-    console.log('Email notification:', alert.title, alert.message)
-  }
-
-  // Send webhook notification (placeholder)
-  private async sendWebhookNotification(alert: TransactionAlert, config: MonitoringConfig): Promise<void> {
-    // This would send to a webhook URL
-    console.log('Webhook notification:', alert.title, alert.message)
-  }
-
   // Get chain name
   private getChainName(chainId: number): string {
     const chainNames: { [key: number]: string } = {
@@ -475,30 +464,26 @@ export class TransactionMonitor extends EventEmitter {
     return chainNames[chainId] || `Chain ${chainId}`
   }
 
-  // Public methods for getting data
-  getStoredTransactionHistory(walletAddress: string): Transaction[] {
-    return this.transactionHistory.get(walletAddress.toLowerCase()) || []
+  // Public methods for getting data. They read the database, since polling runs on the worker
+  getStoredTransactionHistory(walletAddress: string, limit?: number, offset: number = 0): Promise<Transaction[]> {
+    return monitorStore.findTransactions(walletAddress, limit, offset)
   }
 
-  getAlertHistory(walletAddress?: string): TransactionAlert[] {
-    if (walletAddress) {
-      return this.alertHistory.filter(alert => 
-        alert.walletAddress.toLowerCase() === walletAddress.toLowerCase()
-      )
-    }
-    return this.alertHistory
+  countStoredTransactions(walletAddress: string): Promise<number> {
+    return monitorStore.countTransactions(walletAddress)
   }
 
-  acknowledgeAlert(alertId: string): void {
-    const alert = this.alertHistory.find(a => a.id === alertId)
-    if (alert) {
-      alert.acknowledged = true
-      this.emit('alertAcknowledged', alert)
-    }
+  getAlertHistory(userId: string, walletAddress?: string): Promise<TransactionAlert[]> {
+    return monitorStore.findAlerts(userId, walletAddress)
+  }
+
+  // Returns false when the user has no such alert
+  acknowledgeAlert(userId: string, alertId: string): Promise<boolean> {
+    return monitorStore.acknowledgeAlert(userId, alertId)
   }
 
-  getMonitoringStatus(walletAddress: string): boolean {
-    return this.monitoredWallets.has(walletAddress.toLowerCase())
+  getMonitoringStatus(walletAddress: string): Promise<boolean> {
+    return monitorStore.isWalletMonitored(walletAddress)
   }
 }
 
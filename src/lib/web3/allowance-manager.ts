@@ -0,0 +1,268 @@
+/**
+ * Token Allowance Manager
+ * Rebuilds a wallet's ERC20 allowances from Approval logs and prepares revoke transactions.
+ * Scanned blocks are checkpointed per wallet: each request reads the blocks since the last scan,
+ * then works further back through the wallet's history, down to its first transaction.
+ */
+
+import { ethers } from 'ethers'
+import { NOWNodesService } from './nownodes-service'
+import { KNOWN_DEFI_CONTRACTS } from '@/lib/transaction-monitor'
+import { DEX_CONFIGS, V2_DEX_CONFIGS } from '@/lib/dex/index'
+import type { UnsignedTransaction } from '@/lib/dex/index'
+import { GasOracle } from '@/lib/dex/gas-oracle'
+import * as allowanceScanStore from './allowance-scan-store'
+
+export interface TokenAllowance {
+  tokenAddress: string
+  tokenSymbol: string
+  tokenDecimals: number
+  spender: string
+  spenderLabel: string | null // "Protocol Name" for known contracts
+  allowance: string // base units
+  allowanceFormatted: string
+  isUnlimited: boolean
+  risk: 'low' | 'medium' | 'high'
+  lastApprovedBlock: number
+  lastApprovalTx: string
+}
+
+export interface AllowanceInventory {
+  walletAddress: string
+  chainId: number
+  allowances: TokenAllowance[]
+  fromBlock: number
+  toBlock: number
+  complete: boolean // Scanned back to the wallet's first transaction, so no older approval can be missing
+  timestamp: string
+}
+
+// Latest Approval event seen for a token and spender
+export interface ApprovalRecord {
+  token: string
+  spender: string
+  blockNumber: number
+  txHash: string
+}
+
+const ERC20_ALLOWANCE_ABI = [
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)'
+]
+
+const APPROVAL_TOPIC = ethers.id('Approval(address,address,uint256)')
+
+// Blocks read per request, and the block span per eth_getLogs call most RPC nodes accept
+export const MAX_SCAN_BLOCKS = 100000
+const LOG_CHUNK_SIZE = 10000
+const REVOKE_GAS_FALLBACK = 60000
+
+// Allowances this large are never spent down in practice, even by tokens that decrement max approvals
+const UNLIMITED_THRESHOLD = BigInt(2) ** BigInt(128)
+
+// Known protocol contracts plus the routers of every DEX we trade through
+const SPENDER_LABELS = new Map<string, string>([
+  ...Array.from(KNOWN_DEFI_CONTRACTS.entries()).map(([address, info]): [string, string] => [address, `${info.protocol} ${info.name}`]),
+  ...[...Object.values(DEX_CONFIGS), ...Object.values(V2_DEX_CONFIGS)].map((config): [string, string] => [config.router.toLowerCase(), `${config.name} Router`])
+])
+
+export class AllowanceManager {
+  private gasOracle: GasOracle
+
+  constructor(private nowNodes: NOWNodesService) {
+    this.gasOracle = new GasOracle(chainId => this.nowNodes.getProvider(chainId))
+  }
+
+  /**
+   * Current non-zero allowances granted by a wallet, for every (token, spender) pair in the
+   * Approval events scanned so far. An explicit fromBlock scans from there without the checkpoint,
+   * limited to the last MAX_SCAN_BLOCKS blocks.
+   */
+  async getAllowances(walletAddress: string, chainId: number, fromBlock?: number): Promise<AllowanceInventory> {
+    const provider = this.nowNodes.getProvider(chainId)
+    const head = await provider.getBlockNumber()
+
+    let scan: allowanceScanStore.AllowanceScan
+    if (fromBlock !== undefined) {
+      const start = Math.max(fromBlock, head - MAX_SCAN_BLOCKS + 1, 0)
+      scan = { fromBlock: start, toBlock: head, firstBlock: 0, approvals: {} }
+      await this.scanApprovals(provider, walletAddress, start, head, scan.approvals)
+    } else {
+      scan = await this.continueScan(provider, walletAddress, chainId, head)
+    }
+
+    const approvals = new Map(Object.entries(scan.approvals))
+
+    const tokenInfo = new Map<string, Promise<{ symbol: string; decimals: number }>>()
+    const results = await Promise.all(Array.from(approvals.values()).map(async approval => {
+      try {
+        const token = new ethers.Contract(approval.token, ERC20_ALLOWANCE_ABI, provider)
+        if (!tokenInfo.has(approval.token)) {
+          tokenInfo.set(approval.token, this.getTokenInfo(token))
+        }
+
+        const [allowance, info]: [bigint, { symbol: string; decimals: number }] = await Promise.all([
+          token.allowance(walletAddress, approval.spender),
+          tokenInfo.get(approval.token)!
+        ])
+        if (allowance === BigInt(0)) {
+          // Spent or revoked; a new approval would be picked up by a later scan
+          approvals.delete(`${approval.token}:${approval.spender.toLowerCase()}`)
+          return null
+        }
+
+        const spenderLabel = SPENDER_LABELS.get(approval.spender.toLowerCase()) ?? null
+        const isUnlimited = allowance >= UNLIMITED_THRESHOLD
+        return {
+          tokenAddress: ethers.getAddress(approval.token),
+          tokenSymbol: info.symbol,
+          tokenDecimals: info.decimals,
+          spender: approval.spender,
+          spenderLabel,
+          allowance: allowance.toString(),
+          allowanceFormatted: isUnlimited ? 'Unlimited' : ethers.formatUnits(allowance, info.decimals),
+          isUnlimited,
+          risk: this.assessRisk(isUnlimited, spenderLabel !== null),
+          lastApprovedBlock: approval.blockNumber,
+          lastApprovalTx: approval.txHash
+        } as TokenAllowance
+      } catch (error) {
+        console.warn(`Failed to read allowance of ${approval.token} for ${approval.spender}:`, error)
+        return null
+      }
+    }))
+
+    if (fromBlock === undefined) {
+      await allowanceScanStore.saveScan(walletAddress, chainId, { ...scan, approvals: Object.fromEntries(approvals) })
+    }
+
+    const riskOrder = { high: 0, medium: 1, low: 2 }
+    return {
+      walletAddress,
+      chainId,
+      allowances: results
+        .filter((allowance): allowance is TokenAllowance => allowance !== null)
+        .sort((a, b) => riskOrder[a.risk] - riskOrder[b.risk] || b.lastApprovedBlock - a.lastApprovedBlock),
+      fromBlock: scan.fromBlock,
+      toBlock: scan.toBlock,
+      complete: scan.fromBlock <= scan.firstBlock,
+      timestamp: new Date().toISOString()
+    }
+  }
+
+  /**
+   * Advance the wallet's checkpoint by up to MAX_SCAN_BLOCKS blocks: blocks since the last scan
+   * first, so new approvals show up, then older history with what is left
+   */
+  private async continueScan(provider: ethers.Provider, walletAddress: string, chainId: number, head: number): Promise<allowanceScanStore.AllowanceScan> {
+    const scan = await allowanceScanStore.findScan(walletAddress, chainId) ?? {
+      fromBlock: head + 1,
+      toBlock: head,
+      firstBlock: await this.findFirstTransactionBlock(provider, walletAddress, head),
+      approvals: {}
+    }
+    let budget = MAX_SCAN_BLOCKS
+
+    if (scan.toBlock < head) {
+      const end = Math.min(head, scan.toBlock + budget)
+      await this.scanApprovals(provider, walletAddress, scan.toBlock + 1, end, scan.approvals)
+      budget -= end - scan.toBlock
+      scan.toBlock = end
+    }
+
+    if (budget > 0 && scan.fromBlock > scan.firstBlock) {
+      const start = Math.max(scan.firstBlock, scan.fromBlock - budget)
+      await this.scanApprovals(provider, walletAddress, start, scan.fromBlock - 1, scan.approvals)
+      scan.fromBlock = start
+    }
+
+    return scan
+  }
+
+  /**
+   * Block of the wallet's first transaction, found by bisecting its nonce over past blocks. Owners
+   * send approve() themselves, so no such approval is older; only permits relayed before it are.
+   * Falls back to the genesis block when the node keeps no historical state.
+   */
+  private async findFirstTransactionBlock(provider: ethers.Provider, walletAddress: string, head: number): Promise<number> {
+    try {
+      // Nothing sent yet: only blocks from here on can hold its approvals
+      if (await provider.getTransactionCount(walletAddress, head) === 0) return head + 1
+
+      let low = 0
+      let high = head
+      while (low < high) {
+        const mid = Math.floor((low + high) / 2)
+        if (await provider.getTransactionCount(walletAddress, mid) > 0) high = mid
+        else low = mid + 1
+      }
+      return low
+    } catch (error) {
+      console.warn(`Failed to find the first transaction of ${walletAddress}; scanning from genesis:`, error)
+      return 0
+    }
+  }
+
+  // Records the latest approval per pair; the on-chain allowance is read afterwards since transferFrom spends it without an event
+  private async scanApprovals(provider: ethers.Provider, walletAddress: string, fromBlock: number, toBlock: number, approvals: { [pair: string]: ApprovalRecord }): Promise<void> {
+    for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK_SIZE) {
+      const logs = await provider.getLogs({
+        fromBlock: start,
+        toBlock: Math.min(start + LOG_CHUNK_SIZE - 1, toBlock),
+        topics: [APPROVAL_TOPIC, ethers.zeroPadValue(walletAddress, 32)]
+      })
+
+      // ERC721 approvals share the signature but index the token ID as a fourth topic
+      logs.filter(log => log.topics.length === 3).forEach(log => {
+        const token = log.address.toLowerCase()
+        const spender = ethers.getAddress(ethers.dataSlice(log.topics[2], 12))
+        const pair = `${token}:${spender.toLowerCase()}`
+        // Older history is scanned after newer blocks, so it must not replace a later approval
+        if ((approvals[pair]?.blockNumber ?? -1) <= log.blockNumber) {
+          approvals[pair] = { token, spender, blockNumber: log.blockNumber, txHash: log.transactionHash }
+        }
+      })
+    }
+  }
+
+  /**
+   * Unsigned approve(spender, 0) for the wallet to sign, at standard fees
+   */
+  async buildRevokeTransaction(walletAddress: string, chainId: number, tokenAddress: string, spender: string): Promise<UnsignedTransaction> {
+    const provider = this.nowNodes.getProvider(chainId)
+    const data = new ethers.Interface(ERC20_ALLOWANCE_ABI).encodeFunctionData('approve', [spender, 0])
+
+    let gasLimit = BigInt(REVOKE_GAS_FALLBACK)
+    try {
+      gasLimit = (await provider.estimateGas({ from: walletAddress, to: tokenAddress, data })) * BigInt(120) / BigInt(100)
+    } catch {
+      // Keep the fallback; the wallet will surface a real revert when signing
+    }
+
+    return this.gasOracle.withFees({
+      to: tokenAddress,
+      data,
+      value: '0',
+      chainId,
+      from: walletAddress,
+      gasLimit: gasLimit.toString()
+    })
+  }
+
+  private async getTokenInfo(token: ethers.Contract): Promise<{ symbol: string; decimals: number }> {
+    const [symbol, decimals] = await Promise.all([
+      token.symbol().catch(() => 'UNKNOWN'),
+      token.decimals().catch(() => 18)
+    ])
+    return { symbol, decimals: Number(decimals) }
+  }
+
+  // Unlimited approvals to unknown contracts are the usual drainer setup
+  private assessRisk(isUnlimited: boolean, isKnownSpender: boolean): TokenAllowance['risk'] {
+    if (isUnlimited && !isKnownSpender) return 'high'
+    if (isUnlimited || !isKnownSpender) return 'medium'
+    return 'low'
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Allowance Scan Persistence
+ * Per-wallet checkpoint of the Approval log scan, so each request only reads blocks it has not seen
+ */
+
+import type { ApprovalRecord } from './allowance-manager'
+
+// Prisma is loaded lazily, like the other stores
+async function getPrisma() {
+  const { prisma } = await import('@/lib/db')
+  return prisma
+}
+
+export interface AllowanceScan {
+  fromBlock: number
+  toBlock: number
+  firstBlock: number // The wallet's first transaction; history stops here
+  approvals: { [pair: string]: ApprovalRecord } // Keyed "token:spender", lowercased
+}
+
+export async function findScan(walletAddress: string, chainId: number): Promise<AllowanceScan | null> {
+  const prisma = await getPrisma()
+  const row: { fromBlock: number; toBlock: number; firstBlock: number; approvals: unknown } | null = await prisma.allowanceScan.findUnique({
+    where: { walletAddress_chainId: { walletAddress: walletAddress.toLowerCase(), chainId } }
+  })
+  return row
+    ? { fromBlock: row.fromBlock, toBlock: row.toBlock, firstBlock: row.firstBlock, approvals: row.approvals as AllowanceScan['approvals'] }
+    : null
+}
+
+export async function saveScan(walletAddress: string, chainId: number, scan: AllowanceScan): Promise<void> {
+  const prisma = await getPrisma()
+  const address = walletAddress.toLowerCase()
+  await prisma.allowanceScan.upsert({
+    where: { walletAddress_chainId: { walletAddress: address, chainId } },
+    create: { walletAddress: address, chainId, ...scan },
+    update: scan
+  })
+}
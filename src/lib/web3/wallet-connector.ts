@@ -6,6 +6,7 @@
 import { ethers } from 'ethers'
 import { EthereumProvider } from '@walletconnect/ethereum-provider'
 import { CoinbaseWalletSDK } from '@coinbase/wallet-sdk'
+import type { UnsignedTransaction } from '@/lib/dex/index'
 
 declare global {
   interface Window {
@@ -381,6 +382,96 @@ export class WalletConnector {
     this.connectedWallets.delete(address)
   }
 
+  // Sign and broadcast a server-built transaction from the wallet that owns `from`, switching chains first if needed.
+  // Fees the server priced are passed on; without them the wallet picks its own.
+  async sendTransaction(tx: UnsignedTransaction): Promise<string> {
+    const provider = await this.getProviderOnChain(tx)
+    return provider.send('eth_sendTransaction', [this.toRpcTransaction(tx)])
+  }
+
+  // Whether the wallet can sign without broadcasting. Browser extension wallets (MetaMask, Coinbase
+  // Wallet and the like) reject eth_signTransaction; WalletConnect wallets list it in their session.
+  canSignTransaction(address: string): boolean {
+    const wallet = Array.from(this.connectedWallets.values())
+      .find(w => w.address.toLowerCase() === address.toLowerCase())
+    if (wallet?.provider !== 'WalletConnect') return false
+
+    const methods: string[] = this.walletConnectProvider?.session?.namespaces?.eip155?.methods ?? []
+    return methods.includes('eth_signTransaction')
+  }
+
+  // Sign without broadcasting, for a private relay to submit. Nothing downstream fills in the
+  // nonce, so the wallet's pending nonce is set here.
+  async signTransaction(tx: UnsignedTransaction): Promise<string> {
+    if (!this.canSignTransaction(tx.from)) {
+      throw new Error('This wallet cannot sign a transaction without sending it; use standard execution instead')
+    }
+
+    const provider = await this.getProviderOnChain(tx)
+    const nonce = await provider.send('eth_getTransactionCount', [tx.from, 'pending'])
+    try {
+      return await provider.send('eth_signTransaction', [{ ...this.toRpcTransaction(tx), chainId: ethers.toQuantity(tx.chainId), nonce }])
+    } catch (error) {
+      console.error('eth_signTransaction failed:', error)
+      throw new Error('This wallet cannot sign a transaction without sending it; use standard execution instead')
+    }
+  }
+
+  private async getProviderOnChain(tx: UnsignedTransaction): Promise<ethers.BrowserProvider> {
+    const provider = this.getSigningProvider(tx.from)
+
+    const chainId = parseInt(await provider.send('eth_chainId', []), 16)
+    if (chainId !== tx.chainId) {
+      await provider.send('wallet_switchEthereumChain', [{ chainId: ethers.toQuantity(tx.chainId) }])
+    }
+    return provider
+  }
+
+  private toRpcTransaction(tx: UnsignedTransaction) {
+    return {
+      from: tx.from,
+      to: tx.to,
+      data: tx.data,
+      value: ethers.toQuantity(BigInt(tx.value)),
+      gas: ethers.toQuantity(BigInt(tx.gasLimit)),
+      ...(tx.maxFeePerGas && tx.maxPriorityFeePerGas && {
+        maxFeePerGas: ethers.toQuantity(BigInt(tx.maxFeePerGas)),
+        maxPriorityFeePerGas: ethers.toQuantity(BigInt(tx.maxPriorityFeePerGas))
+      }),
+      ...(tx.gasPrice && { gasPrice: ethers.toQuantity(BigInt(tx.gasPrice)) })
+    }
+  }
+
+  // Wait for a broadcast transaction to be mined; resolves to whether it succeeded
+  async waitForTransaction(from: string, hash: string, timeoutMs: number = 5 * 60 * 1000): Promise<boolean> {
+    const provider = this.getSigningProvider(from)
+    const deadline = Date.now() + timeoutMs
+
+    while (Date.now() < deadline) {
+      const receipt = await provider.send('eth_getTransactionReceipt', [hash])
+      if (receipt) {
+        return parseInt(receipt.status, 16) === 1
+      }
+      await new Promise(resolve => setTimeout(resolve, 3000))
+    }
+
+    throw new Error(`Transaction ${hash} was not mined within ${Math.round(timeoutMs / 1000)}s`)
+  }
+
+  // Provider of a connected wallet, or the injected one for wallets restored from a previous session
+  private getSigningProvider(address: string): ethers.BrowserProvider {
+    const wallet = Array.from(this.connectedWallets.values())
+      .find(w => w.address.toLowerCase() === address.toLowerCase())
+
+    if (wallet?.providerInstance) {
+      return wallet.providerInstance
+    }
+    if (typeof window !== 'undefined' && window.ethereum) {
+      return new ethers.BrowserProvider(window.ethereum)
+    }
+    throw new Error('Connect a wallet to sign transactions')
+  }
+
   // Switch network
   async switchNetwork(chainId: number): Promise<void> {
     if (typeof window === 'undefined' || !window.ethereum) {
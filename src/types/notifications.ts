@@ -1,3 +1,5 @@
+import type { ReactNode } from 'react'
+
 // Notification templates for different events in the application
 export const NotificationTemplates = {
   // Profile & Settings
@@ -329,4 +331,77 @@ export interface NotificationMessage extends NotificationTemplate {
   id: string
   timestamp: Date
   read: boolean
-}
\ No newline at end of file
+}
+export type NotificationPosition = 'top-left' | 'top-center' | 'top-right' | 'bottom-left' | 'bottom-center' | 'bottom-right'
+
+export interface NotificationAction {
+  label: string
+  onClick: () => void
+}
+
+export interface Notification {
+  id: string
+  timestamp: number
+  type: NotificationType
+  title: string
+  message?: string
+  category?: NotificationCategory
+  priority?: NotificationPriority
+  duration?: number
+  dismissible?: boolean
+  persistent?: boolean
+  soundEnabled?: boolean
+  showProgress?: boolean
+  expandable?: boolean
+  icon?: ReactNode
+  metadata?: Record<string, unknown>
+  action?: NotificationAction
+  secondaryAction?: NotificationAction
+  // Id of the inbox item a toast was raised for, when it came from the server
+  inboxId?: string
+}
+
+// A notification persisted to the user's inbox (Notification model, /api/notifications)
+export interface InboxNotification {
+  id: string
+  type: NotificationType
+  category: NotificationCategory
+  priority: NotificationPriority
+  title: string
+  message: string
+  data: Record<string, unknown> | null
+  readAt: string | null
+  archivedAt: string | null
+  createdAt: string
+}
+
+export interface NotificationInboxState {
+  items: InboxNotification[]
+  unreadCount: number
+  hasMore: boolean
+  loading: boolean
+}
+
+export interface NotificationContextType {
+  notifications: Notification[]
+  addNotification: (notification: Omit<Notification, 'id' | 'timestamp'>) => string
+  removeNotification: (id: string) => void
+  clearAllNotifications: () => void
+  updateNotification: (id: string, updates: Partial<Notification>) => void
+  inbox: NotificationInboxState
+  loadMoreInbox: () => Promise<void>
+  markInboxRead: (ids?: string[]) => Promise<void>
+  archiveInbox: (ids: string[]) => Promise<void>
+}
+
+export interface NotificationProviderProps {
+  children: ReactNode
+  position?: NotificationPosition
+  maxNotifications?: number
+  defaultDuration?: number
+  enableSounds?: boolean
+  stackingBehavior?: 'stack' | 'replace'
+  globalPersistence?: boolean
+  // Load the signed-in user's inbox and stream new items as toasts
+  syncInbox?: boolean
+}
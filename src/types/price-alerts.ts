@@ -26,6 +26,8 @@ export interface PriceAlert {
   operator: AlertOperator
   threshold: number
   percentage?: number // For percentage-based alerts
+  timeframe?: string // Lookback for change, volume and volatility alerts, e.g. '1h' or '24h'
+  expression?: AlertExpression // Composite alerts; symbol, operator and threshold then mirror the first condition
   
   // Status & Timing
   status: AlertStatus
@@ -61,6 +63,28 @@ export interface AlertCondition {
   timeframe?: string
 }
 
+// Composite alerts combine conditions on different subjects in a small AND/OR expression tree
+export type AlertLogic = 'AND' | 'OR'
+
+export type AlertSubject =
+  | { kind: 'asset'; symbol: string }
+  | { kind: 'ratio'; base: string; quote: string } // Price of base in units of quote, e.g. ETH/BTC
+  | { kind: 'portfolio' } // Combined value of the user's connected wallets
+  | { kind: 'defi_health' } // Lowest health factor across the user's DeFi positions
+
+export interface AlertConditionNode extends AlertCondition {
+  kind: 'condition'
+  subject: AlertSubject
+}
+
+export interface AlertGroupNode {
+  kind: 'group'
+  logic: AlertLogic
+  children: AlertExpression[]
+}
+
+export type AlertExpression = AlertConditionNode | AlertGroupNode
+
 export interface AlertTriggerData {
   alertId: string
   symbol: string
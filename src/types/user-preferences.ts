@@ -1,4 +1,6 @@
 // User Profile and Preferences Types
+import type { ExecutionMode } from '@/lib/dex/index'
+
 export interface UserProfile {
   id: string
   name: string
@@ -23,6 +25,21 @@ export interface NotificationPreferences {
   portfolioUpdates: boolean
   systemAnnouncements: boolean
   weeklyReports: boolean
+  timezone: string // IANA name, e.g. Europe/Berlin; quiet hours and digest times are local to it
+  // Push and SMS wait until quiet hours end; security notifications are always sent
+  quietHours: QuietHours
+  // Batch emails into one digest instead of sending each one
+  digest: DigestFrequency
+  webhookUrl?: string
+  smsNumber?: string // E.164, e.g. +14155550123
+}
+
+export type DigestFrequency = 'off' | 'daily' | 'weekly'
+
+export interface QuietHours {
+  enabled: boolean
+  start: string // HH:MM
+  end: string
 }
 
 export interface PrivacySettings {
@@ -40,6 +57,7 @@ export interface TradingPreferences {
   autoConfirmTrades: boolean
   slippageTolerance: number // percentage
   gasPreference: 'slow' | 'standard' | 'fast'
+  executionMode: ExecutionMode // default for DEX swaps; 'mev_protected' submits through a private relay
   favoriteTokens: string[]
   tradingPairs: string[]
   chartTimeframe: '5m' | '15m' | '1h' | '4h' | '1d' | '1w'
@@ -0,0 +1,32 @@
+/**
+ * Job worker entry point: `npm run worker`
+ * Runs scheduled and queued background jobs outside the web process. Any number of workers can
+ * share the database; leases make sure each run executes once.
+ */
+
+import { registerJobs } from '@/lib/jobs'
+import { JobWorker } from '@/lib/job-queue'
+
+registerJobs()
+
+const worker = new JobWorker(undefined, {
+  pollIntervalMs: process.env.JOB_POLL_INTERVAL_MS ? Number(process.env.JOB_POLL_INTERVAL_MS) : undefined
+})
+
+const shutdown = (signal: string) => {
+  console.log(`Job worker received ${signal}, finishing runs in progress...`)
+  worker.stop()
+    .then(() => process.exit(0))
+    .catch(error => {
+      console.error('Job worker failed to stop cleanly:', error)
+      process.exit(1)
+    })
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'))
+process.on('SIGINT', () => shutdown('SIGINT'))
+
+worker.start().catch(error => {
+  console.error('Job worker failed to start:', error)
+  process.exit(1)
+})
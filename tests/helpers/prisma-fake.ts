@@ -0,0 +1,172 @@
+/**
+ * In-memory stand-in for the Prisma client, covering the queries the stores under test make:
+ * equality, not/in/notIn and range filters, increments, ordering, take and to-one includes.
+ * Load it from a jest.mock factory with jest.requireActual.
+ */
+
+export type Row = { [column: string]: unknown }
+
+type OrderBy = { [column: string]: 'asc' | 'desc' }
+
+interface Condition {
+  not?: unknown
+  in?: unknown[]
+  notIn?: unknown[]
+  gt?: Date | number
+  gte?: Date | number
+  lt?: Date | number
+  lte?: Date | number
+}
+
+interface FindArgs {
+  where?: Row
+  orderBy?: OrderBy | OrderBy[]
+  take?: number
+  include?: { [relation: string]: boolean }
+}
+
+let ids = 0
+
+function isObject(value: unknown): value is Row {
+  return value !== null && typeof value === 'object' && !(value instanceof Date) && !Array.isArray(value)
+}
+
+export function matches(row: Row, where: Row = {}): boolean {
+  return Object.entries(where).every(([column, condition]) => {
+    const value = row[column] as Date | number
+    if (condition instanceof Date) return value instanceof Date && value.getTime() === condition.getTime()
+    if (!isObject(condition)) return value === condition
+
+    const { not, in: list, notIn, gt, gte, lt, lte } = condition as Condition
+    if ('not' in condition && value === not) return false
+    if (list && !list.includes(value)) return false
+    if (notIn && notIn.includes(value)) return false
+    if (gt !== undefined && !(value > gt)) return false
+    if (gte !== undefined && !(value >= gte)) return false
+    if (lt !== undefined && !(value < lt)) return false
+    if (lte !== undefined && !(value <= lte)) return false
+    return true
+  })
+}
+
+// Applies an update's data, including { increment } operations
+function apply(row: Row, data: Row): Row {
+  const updated: Row = { ...row, updatedAt: new Date() }
+  Object.entries(data).forEach(([column, value]) => {
+    const increment = isObject(value) ? (value as { increment?: number }).increment : undefined
+    updated[column] = increment !== undefined ? (row[column] as number) + increment : value
+  })
+  return updated
+}
+
+function compare(orderBy: OrderBy[]) {
+  return (a: Row, b: Row) => {
+    for (const [column, direction] of orderBy.flatMap(entry => Object.entries(entry))) {
+      const [x, y] = [a[column] as number, b[column] as number]
+      if (x === y) continue
+      return (x > y) === (direction === 'asc') ? 1 : -1
+    }
+    return 0
+  }
+}
+
+export class FakeModel {
+  readonly rows: Map<string, Row> = new Map()
+
+  constructor(
+    private name: string,
+    private defaults: Row,
+    private related: (table: string) => FakeModel | undefined
+  ) {}
+
+  async create({ data }: { data: Row }): Promise<Row> {
+    const row = { id: `${this.name}-${++ids}`, createdAt: new Date(), updatedAt: new Date(), ...this.defaults, ...data }
+    this.rows.set(row.id as string, row)
+    return { ...row }
+  }
+
+  async findUnique({ where }: { where: Row }): Promise<Row | null> {
+    return this.findFirst({ where })
+  }
+
+  async findFirst(args: FindArgs = {}): Promise<Row | null> {
+    return (await this.findMany({ ...args, take: 1 }))[0] ?? null
+  }
+
+  async findMany({ where, orderBy, take, include }: FindArgs = {}): Promise<Row[]> {
+    const found = this.filter(where).map(row => ({ ...row }))
+    if (orderBy) found.sort(compare(Array.isArray(orderBy) ? orderBy : [orderBy]))
+    return (take ? found.slice(0, take) : found).map(row => this.include(row, include))
+  }
+
+  async count({ where }: { where?: Row } = {}): Promise<number> {
+    return this.filter(where).length
+  }
+
+  async update({ where, data }: { where: Row; data: Row }): Promise<Row> {
+    const [row] = this.filter(where)
+    if (!row) throw new Error(`No ${this.name} record to update`)
+    const updated = apply(row, data)
+    this.rows.delete(row.id as string)
+    this.rows.set(updated.id as string, updated)
+    return { ...updated }
+  }
+
+  async updateMany({ where, data }: { where?: Row; data: Row }): Promise<{ count: number }> {
+    const targets = this.filter(where)
+    targets.forEach(row => this.rows.set(row.id as string, apply(row, data)))
+    return { count: targets.length }
+  }
+
+  async upsert({ where, create, update }: { where: Row; create: Row; update: Row }): Promise<Row> {
+    return this.filter(where).length > 0 ? this.update({ where, data: update }) : this.create({ data: create })
+  }
+
+  async delete({ where }: { where: Row }): Promise<Row> {
+    const [row] = this.filter(where)
+    if (!row) throw new Error(`No ${this.name} record to delete`)
+    this.rows.delete(row.id as string)
+    return { ...row }
+  }
+
+  async deleteMany({ where }: { where?: Row } = {}): Promise<{ count: number }> {
+    const targets = this.filter(where)
+    targets.forEach(row => this.rows.delete(row.id as string))
+    return { count: targets.length }
+  }
+
+  private filter(where?: Row): Row[] {
+    return Array.from(this.rows.values()).filter(row => matches(row, where))
+  }
+
+  // To-one relations are looked up through their <relation>Id column
+  private include(row: Row, include: FindArgs['include'] = {}): Row {
+    const included = { ...row }
+    Object.entries(include).forEach(([relation, wanted]) => {
+      if (!wanted) return
+      const target = this.related(relation)?.rows.get(row[`${relation}Id`] as string)
+      included[relation] = target ? { ...target } : null
+    })
+    return included
+  }
+}
+
+export type PrismaFake = { [table: string]: FakeModel } & {
+  reset(): void
+  rows(table: string): Row[]
+}
+
+/**
+ * Builds a fake client with one model per table, each starting from the given column defaults.
+ */
+export function createPrismaFake(defaults: { [table: string]: Row }): PrismaFake {
+  const models = new Map<string, FakeModel>()
+  Object.entries(defaults).forEach(([table, columns]) => {
+    models.set(table, new FakeModel(table, columns, relation => models.get(relation)))
+  })
+
+  return Object.assign(Object.fromEntries(models), {
+    reset: () => models.forEach(model => model.rows.clear()),
+    rows: (table: string) => Array.from(models.get(table)?.rows.values() ?? [])
+  }) as PrismaFake
+}
@@ -0,0 +1,159 @@
+/**
+ * @jest-environment node
+ */
+
+import { startMockChangeNow, MockChangeNow } from './changenow/mock-server'
+import { ChangeNowClient } from '@/lib/changenow'
+import { createTrackedExchange, listExchanges, pollExchangeStatuses, reconcileCreatingExchanges } from '@/lib/changenow-tracker'
+import { prisma } from '@/lib/db'
+import { notificationService } from '@/lib/notifications'
+import type { Row } from '../helpers/prisma-fake'
+
+jest.mock('@/lib/db', () => ({
+  prisma: jest.requireActual('../helpers/prisma-fake').createPrismaFake({
+    user: {},
+    changeNowExchange: { amountReceived: null, payinHash: null, payoutHash: null, completedAt: null }
+  })
+}))
+
+jest.mock('@/lib/notifications', () => ({
+  notificationService: { publish: jest.fn().mockResolvedValue([]) }
+}))
+
+const publish = notificationService.publish as jest.Mock
+const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000)
+
+let changeNow: MockChangeNow
+let client: ChangeNowClient
+
+beforeAll(async () => {
+  await prisma.user.create({ data: { id: 'user-1', email: 'trader@example.com' } })
+  changeNow = await startMockChangeNow()
+  client = new ChangeNowClient(changeNow.url, changeNow.apiKey)
+})
+
+afterAll(async () => {
+  await changeNow.close()
+})
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe('ChangeNOW exchange tracking', () => {
+  test('records the exchange and notifies each status change until it finishes', async () => {
+    const exchange = await createTrackedExchange('user-1', {
+      fromCurrency: 'eth',
+      toCurrency: 'btc',
+      fromAmount: 2,
+      address: 'bc1qpayout',
+      refundAddress: '0x1111111111111111111111111111111111111111'
+    }, client)
+
+    expect(await listExchanges('user-1')).toEqual([expect.objectContaining({
+      id: exchange.id,
+      status: 'new',
+      fromAmount: 2,
+      expectedReceiveAmount: 0.1,
+      payinAddress: `payin-${exchange.id}`,
+      payoutAddress: 'bc1qpayout',
+      refundAddress: '0x1111111111111111111111111111111111111111'
+    })])
+
+    for (const status of ['waiting', 'confirming', 'exchanging'] as const) {
+      changeNow.advance(exchange.id, status)
+      expect(await pollExchangeStatuses(client)).toEqual({ reconciled: 0, checked: 1, updated: 1 })
+    }
+    // No change, no notification
+    expect(await pollExchangeStatuses(client)).toEqual({ reconciled: 0, checked: 1, updated: 0 })
+
+    changeNow.advance(exchange.id, 'finished', { amountReceive: 0.0998, payoutHash: 'btc-payout-hash' })
+    expect(await pollExchangeStatuses(client)).toEqual({ reconciled: 0, checked: 1, updated: 1 })
+
+    const transitions = publish.mock.calls.map(([{ data }]: { data: Row }[]) => [data.previousStatus, data.status])
+    expect(transitions).toEqual([['new', 'waiting'], ['waiting', 'confirming'], ['confirming', 'exchanging'], ['exchanging', 'finished']])
+    expect(publish).toHaveBeenLastCalledWith(expect.objectContaining({
+      userId: 'user-1',
+      category: 'trade',
+      type: 'success',
+      title: 'Exchange ETH → BTC: Finished',
+      data: expect.objectContaining({ exchangeId: exchange.id, amountReceived: 0.0998, payoutHash: 'btc-payout-hash' })
+    }))
+
+    const [finished] = await listExchanges('user-1')
+    expect(finished).toMatchObject({ status: 'finished', amountReceived: 0.0998, payoutHash: 'btc-payout-hash' })
+    expect(finished.completedAt).toBeInstanceOf(Date)
+
+    // Finished exchanges are no longer polled
+    expect(await pollExchangeStatuses(client)).toEqual({ reconciled: 0, checked: 0, updated: 0 })
+  })
+
+  test('surfaces ChangeNOW errors when creating and skips exchanges it cannot look up', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    const deleteExchange = jest.spyOn(prisma.changeNowExchange, 'delete')
+
+    await expect(createTrackedExchange('user-1', { fromCurrency: 'eth', toCurrency: 'btc', fromAmount: 1, address: '' }, client))
+      .rejects.toThrow('from, to, address and amount are required')
+    // ChangeNOW turned it down, so the row recorded before asking is removed again
+    expect(deleteExchange).toHaveBeenCalledWith({ where: { id: expect.stringMatching(/^pending-/) } })
+
+    const exchange = await createTrackedExchange('user-1', { fromCurrency: 'eth', toCurrency: 'btc', fromAmount: 1, address: 'bc1q' }, client)
+    changeNow.transactions.delete(exchange.id)
+    publish.mockClear()
+
+    expect(await pollExchangeStatuses(client)).toEqual({ reconciled: 0, checked: 1, updated: 0 })
+    expect(publish).not.toHaveBeenCalled()
+  })
+
+  test('keeps exchanges whose confirmation was lost visible and reconciles them with ChangeNOW', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    // Created at ChangeNOW, but the row update fails: the deposit address is still returned
+    jest.spyOn(prisma.changeNowExchange, 'update').mockRejectedValueOnce(new Error('connection lost'))
+    const recorded = await createTrackedExchange('user-1', { fromCurrency: 'eth', toCurrency: 'btc', fromAmount: 3, address: 'bc1qlost' }, client)
+    expect(recorded.payinAddress).toBe(`payin-${recorded.id}`)
+
+    // Created at ChangeNOW, but the response never arrives: the row is kept, not deleted
+    changeNow.loseNextCreateResponse()
+    await expect(createTrackedExchange('user-1', { fromCurrency: 'btc', toCurrency: 'eth', fromAmount: 0.5, address: '0xtimeout' }, client)).rejects.toThrow()
+    const [unanswered] = Array.from(changeNow.transactions.values()).filter(transaction => transaction.payoutAddress === '0xtimeout')
+
+    const creating = (await listExchanges('user-1')).filter((row: Row) => row.status === 'creating')
+    expect(creating.map((row: Row) => row.payoutAddress).sort()).toEqual(['0xtimeout', 'bc1qlost'])
+    expect(creating.find((row: Row) => row.payoutAddress === '0xtimeout')?.lastError).toEqual(expect.any(String))
+
+    // Not polled while creating, and left alone while a create call may still be in flight
+    const getTransactionStatus = jest.spyOn(client, 'getTransactionStatus')
+    await pollExchangeStatuses(client)
+    expect(getTransactionStatus).not.toHaveBeenCalledWith(expect.stringMatching(/^pending-/))
+    expect(await reconcileCreatingExchanges(client, minutesFromNow(1))).toBe(0)
+
+    expect(await reconcileCreatingExchanges(client, minutesFromNow(3))).toBe(2)
+    expect(await listExchanges('user-1')).toEqual(expect.arrayContaining([
+      expect.objectContaining({ id: recorded.id, status: 'new', payinAddress: `payin-${recorded.id}`, payoutAddress: 'bc1qlost' }),
+      expect.objectContaining({ id: unanswered.id, status: 'new', payinAddress: `payin-${unanswered.id}`, lastError: null })
+    ]))
+
+    // Reconciled rows are polled like any other
+    changeNow.advance(unanswered.id, 'waiting')
+    await pollExchangeStatuses(client)
+    expect(publish).toHaveBeenLastCalledWith(expect.objectContaining({ data: expect.objectContaining({ exchangeId: unanswered.id, status: 'waiting' }) }))
+  })
+
+  test('marks rows ChangeNOW never created as failed once the reconcile window has passed', async () => {
+    await prisma.changeNowExchange.create({
+      data: { id: 'pending-orphan', userId: 'user-1', fromCurrency: 'eth', toCurrency: 'btc', fromAmount: 9, payoutAddress: 'bc1qorphan', status: 'creating' }
+    })
+
+    expect(await reconcileCreatingExchanges(client, minutesFromNow(3))).toBe(0)
+    expect((await listExchanges('user-1')).find((row: Row) => row.id === 'pending-orphan')).toMatchObject({ status: 'creating' })
+
+    expect(await reconcileCreatingExchanges(client, minutesFromNow(25 * 60))).toBe(0)
+    expect((await listExchanges('user-1')).find((row: Row) => row.id === 'pending-orphan'))
+      .toMatchObject({ status: 'failed', lastError: 'ChangeNOW has no record of this exchange' })
+  })
+})
@@ -0,0 +1,124 @@
+/**
+ * Local ChangeNOW stand-in
+ * Serves the v1 endpoints the client uses from an in-memory transaction table, so tests can
+ * create exchanges and then walk them through ChangeNOW's statuses
+ */
+
+import http from 'http'
+import type { AddressInfo } from 'net'
+import type { ChangeNowStatus, ChangeNowTransaction, ChangeNowTransactionStatus } from '@/lib/changenow'
+
+export interface MockChangeNow {
+  url: string
+  apiKey: string
+  transactions: Map<string, ChangeNowTransaction>
+  // Moves an exchange to a new status, as ChangeNOW would once deposits and payouts land
+  advance(id: string, status: ChangeNowStatus, fields?: Partial<ChangeNowTransactionStatus>): void
+  // The next exchange is created but the connection drops before the response is sent
+  loseNextCreateResponse(): void
+  close(): Promise<void>
+}
+
+// Fixed rate for every pair
+const RATE = 0.05
+
+export async function startMockChangeNow(apiKey = 'test-key'): Promise<MockChangeNow> {
+  const transactions = new Map<string, ChangeNowTransaction>()
+  let nextId = 1
+  let loseCreateResponse = false
+
+  const server = http.createServer((req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(body))
+    }
+    const url = new URL(req.url || '/', 'http://localhost')
+    const parts = url.pathname.split('/').filter(Boolean)
+    let body = ''
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => {
+      if (req.method === 'GET' && parts[0] === 'currencies') {
+        return send(200, [
+          { ticker: 'btc', name: 'Bitcoin', image: '', featured: true },
+          { ticker: 'eth', name: 'Ethereum', image: '', featured: true }
+        ])
+      }
+
+      if (req.method === 'GET' && parts[0] === 'exchange-amount' && parts.length === 3) {
+        return send(200, { estimatedAmount: Number(parts[1]) * RATE, transactionSpeedForecast: '10-60', warningMessage: null })
+      }
+
+      if (req.method === 'POST' && parts[0] === 'transactions' && parts.length === 2) {
+        if (parts[1] !== apiKey) return send(401, { error: 'not_valid_api_key', message: 'Invalid api key' })
+        const params = JSON.parse(body || '{}')
+        if (!params.from || !params.to || !params.address || !params.amount) {
+          return send(400, { error: 'bad_params', message: 'from, to, address and amount are required' })
+        }
+        const id = `mock${String(nextId++).padStart(10, '0')}`
+        const transaction: ChangeNowTransaction = {
+          id,
+          status: 'new',
+          payinAddress: `payin-${id}`,
+          payoutAddress: params.address,
+          fromCurrency: params.from,
+          toCurrency: params.to,
+          expectedSendAmount: Number(params.amount),
+          expectedReceiveAmount: Number(params.amount) * RATE,
+          refundAddress: params.refundAddress || null,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString()
+        }
+        transactions.set(id, transaction)
+        if (loseCreateResponse) {
+          loseCreateResponse = false
+          return res.destroy()
+        }
+        return send(200, {
+          id,
+          payinAddress: transaction.payinAddress,
+          payoutAddress: transaction.payoutAddress,
+          payinExtraId: null,
+          payoutExtraId: params.extraId || null,
+          fromCurrency: transaction.fromCurrency,
+          toCurrency: transaction.toCurrency,
+          amount: transaction.expectedSendAmount,
+          expectedReceiveAmount: transaction.expectedReceiveAmount
+        })
+      }
+
+      if (req.method === 'GET' && parts[0] === 'transactions' && parts.length === 2) {
+        if (parts[1] !== apiKey) return send(401, { error: 'not_valid_api_key', message: 'Invalid api key' })
+        const dateFrom = new Date(url.searchParams.get('dateFrom') || 0)
+        return send(200, Array.from(transactions.values()).filter(transaction => new Date(transaction.createdAt) >= dateFrom).reverse())
+      }
+
+      if (req.method === 'GET' && parts[0] === 'transactions' && parts.length === 3) {
+        if (parts[2] !== apiKey) return send(401, { error: 'not_valid_api_key', message: 'Invalid api key' })
+        const transaction = transactions.get(parts[1])
+        return transaction
+          ? send(200, transaction)
+          : send(404, { error: 'not_found', message: 'Transaction not found' })
+      }
+
+      send(404, { error: 'not_found', message: `No mock for ${req.method} ${url.pathname}` })
+    })
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    apiKey,
+    transactions,
+    advance(id, status, fields = {}) {
+      const transaction = transactions.get(id)
+      if (!transaction) throw new Error(`Unknown mock transaction ${id}`)
+      transactions.set(id, { ...transaction, ...fields, status, updatedAt: new Date().toISOString() })
+    },
+    loseNextCreateResponse() {
+      loseCreateResponse = true
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())))
+  }
+}
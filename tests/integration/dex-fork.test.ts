@@ -0,0 +1,166 @@
+/**
+ * @jest-environment node
+ */
+
+import { ethers } from 'ethers'
+import { startChain, LocalChain } from './evm/harness'
+import { UniswapV3DEX } from '@/lib/dex/uniswap-v3'
+import { PancakeSwapV3DEX } from '@/lib/dex/pancakeswap-v3'
+import { DEXAggregator } from '@/lib/dex/aggregator'
+import { LocalRelay } from '@/lib/dex/mev-protection'
+import { DEX_CONFIGS, COMMON_TOKENS, Token, TradeParams } from '@/lib/dex/index'
+
+jest.setTimeout(120000)
+
+const POOL = '0x2222222222222222222222222222222222222222'
+const ONE = ethers.parseUnits('1', 18)
+
+const WETH: Token = { address: COMMON_TOKENS[1].WETH, symbol: 'WETH', name: 'Wrapped Ether', decimals: 18, chainId: 1 }
+const USDC: Token = { address: COMMON_TOKENS[1].USDC, symbol: 'USDC', name: 'USD Coin', decimals: 6, chainId: 1 }
+const DAI: Token = { address: COMMON_TOKENS[1].DAI, symbol: 'DAI', name: 'Dai Stablecoin', decimals: 18, chainId: 1 }
+const WBNB: Token = { address: COMMON_TOKENS[56].WBNB, symbol: 'WBNB', name: 'Wrapped BNB', decimals: 18, chainId: 56 }
+const BUSD: Token = { address: COMMON_TOKENS[56].BUSD, symbol: 'BUSD', name: 'Binance USD', decimals: 18, chainId: 56 }
+
+interface Pool {
+  tokenA: Token
+  tokenB: Token
+  fee: number
+  rate: bigint // tokenB base units per 1e18 base units of tokenA, before the fee
+}
+
+// Installs the stand-ins at a V3 DEX's configured addresses and lists the given fixed-rate pools
+async function deployV3(chain: LocalChain, config: { router: string; factory: string; quoter: string }, routerContract: string, tokens: Token[], pools: Pool[]) {
+  const factory = await chain.install('MockV3Factory', config.factory)
+  const quoter = await chain.install('MockV3Quoter', config.quoter)
+  const router = await chain.install(routerContract, config.router)
+  await (await router.setQuoter(config.quoter)).wait()
+
+  const erc20s: { [symbol: string]: ethers.Contract } = {}
+  for (const token of tokens) {
+    erc20s[token.symbol] = await chain.install('TestERC20', token.address)
+  }
+
+  for (const { tokenA, tokenB, fee, rate } of pools) {
+    await (await factory.setPool(tokenA.address, tokenB.address, fee, POOL)).wait()
+    await (await quoter.setRate(tokenA.address, tokenB.address, fee, rate)).wait()
+  }
+  return erc20s
+}
+
+function tradeParams(tokenIn: Token, tokenOut: Token, amountIn: string): TradeParams {
+  return { tokenIn, tokenOut, amountIn, slippageTolerance: 50, deadline: Math.floor(Date.now() / 1000) + 600 }
+}
+
+describe('DEX adapters against a local EVM node', () => {
+  let ethereum: LocalChain
+  let bsc: LocalChain
+  let ethereumTokens: { [symbol: string]: ethers.Contract }
+  let bscTokens: { [symbol: string]: ethers.Contract }
+  let wallet: string
+
+  beforeAll(async () => {
+    ethereum = await startChain(1)
+    bsc = await startChain(56)
+    wallet = await ethereum.signer.getAddress()
+
+    // The direct WETH/DAI pool pays less than routing through USDC
+    ethereumTokens = await deployV3(ethereum, DEX_CONFIGS.uniswap_v3, 'MockUniswapV3Router', [WETH, USDC, DAI], [
+      { tokenA: WETH, tokenB: DAI, fee: 3000, rate: BigInt(2000) * ONE },
+      { tokenA: WETH, tokenB: USDC, fee: 500, rate: ethers.parseUnits('2010', 6) },
+      { tokenA: USDC, tokenB: DAI, fee: 500, rate: ONE * BigInt(10) ** BigInt(12) }
+    ])
+    bscTokens = await deployV3(bsc, DEX_CONFIGS.pancakeswap_v3, 'MockPancakeV3Router', [WBNB, BUSD], [
+      { tokenA: WBNB, tokenB: BUSD, fee: 2500, rate: BigInt(300) * ONE }
+    ])
+  })
+
+  afterAll(async () => {
+    await ethereum?.close()
+    await bsc?.close()
+  })
+
+  test('UniswapV3DEX quotes a multi-hop route and executes it with approve and exactInput', async () => {
+    const dex = new UniswapV3DEX(ethereum.provider, 1)
+    const params = tradeParams(WETH, DAI, '2')
+    await (await ethereumTokens.WETH.mint(wallet, ethers.parseUnits('2', 18))).wait()
+
+    const quote = await dex.getQuote(params)
+    expect(quote.route).toEqual(['WETH', 'USDC', 'DAI'])
+    expect(quote.routes[0].fees).toEqual([500, 500])
+
+    const result = await dex.executeTrade(params, ethereum.signer)
+
+    expect(result.amountOut).toBe(quote.amountOut)
+    expect(await ethereumTokens.DAI.balanceOf(wallet)).toBe(ethers.parseUnits(quote.amountOut, 18))
+    expect(await ethereumTokens.WETH.balanceOf(wallet)).toBe(BigInt(0))
+    // The exact-amount approval is spent by the swap
+    expect(await ethereumTokens.WETH.allowance(wallet, DEX_CONFIGS.uniswap_v3.router)).toBe(BigInt(0))
+  })
+
+  test('only builds an approval while the router allowance is short of the amount in', async () => {
+    const dex = new UniswapV3DEX(ethereum.provider, 1)
+    const params = tradeParams(WETH, DAI, '1')
+    const quote = await dex.getQuote(params)
+
+    const before = await dex.buildTradeTransactions(params, wallet, quote)
+    expect(before.approval).toMatchObject({ to: WETH.address, from: wallet, chainId: 1 })
+
+    await (await ethereum.signer.sendTransaction({ to: before.approval!.to, data: before.approval!.data })).wait()
+    expect(await ethereumTokens.WETH.allowance(wallet, DEX_CONFIGS.uniswap_v3.router)).toBe(ONE)
+
+    const after = await dex.buildTradeTransactions(params, wallet, quote)
+    expect(after.approval).toBeNull()
+    expect(after.swap.to).toBe(DEX_CONFIGS.uniswap_v3.router)
+  })
+
+  test('PancakeSwapV3DEX executes through the deadline-checking multicall', async () => {
+    const dex = new PancakeSwapV3DEX(bsc.provider, 56)
+    const params = tradeParams(WBNB, BUSD, '3')
+    await (await bscTokens.WBNB.mint(wallet, ethers.parseUnits('3', 18))).wait()
+
+    const result = await dex.executeTrade(params, bsc.signer)
+
+    // 3 WBNB at 300 BUSD, less the 0.25% pool fee
+    expect(result.amountOut).toBe('897.75')
+    expect(await bscTokens.BUSD.balanceOf(wallet)).toBe(ethers.parseUnits('897.75', 18))
+
+    const expired = { ...params, deadline: Math.floor(Date.now() / 1000) - 600 }
+    await (await bscTokens.WBNB.mint(wallet, ethers.parseUnits('3', 18))).wait()
+    await expect(dex.executeTrade(expired, bsc.signer)).rejects.toThrow('Transaction too old')
+  })
+
+  test('MEV-protected execution hands the relay a signed swap with a tight minimum', async () => {
+    const dex = new UniswapV3DEX(ethereum.provider, 1)
+    const relay = new LocalRelay(ethereum.provider)
+    const sendBundle = jest.spyOn(relay, 'sendBundle')
+    const params: TradeParams = { ...tradeParams(WETH, DAI, '1'), executionMode: 'mev_protected' }
+    await (await ethereumTokens.WETH.mint(wallet, ONE)).wait()
+    const quote = await dex.getQuote(params)
+
+    const result = await dex.executeTrade(params, ethereum.signer, relay)
+
+    // The same signed swap is offered for each of the next blocks
+    expect(new Set(sendBundle.mock.calls.map(([txs]: [string[], number]) => txs[0])).size).toBe(1)
+    expect(sendBundle.mock.calls.map(([, block]: [string[], number]) => block)).toHaveLength(5)
+    const [swap] = new ethers.Interface([
+      'function exactInput((bytes path, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum))'
+    ]).decodeFunctionData('exactInput', ethers.Transaction.from(sendBundle.mock.calls[0][0][0]).data)
+    expect(swap.amountOutMinimum).toBe(ethers.parseUnits(quote.amountOut, 18) * BigInt(9990) / BigInt(10000))
+
+    expect(result).toMatchObject({ hash: ethers.keccak256(sendBundle.mock.calls[0][0][0]), amountOut: quote.amountOut, executionMode: 'mev_protected' })
+    expect(result.sandwich).toEqual({ sandwiched: false, frontrunHash: null, backrunHash: null })
+  })
+
+  test('DEXAggregator.executeBestTrade picks the quoting DEX and settles the swap', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {}) // SushiSwap has no contracts on the local node
+    const aggregator = new DEXAggregator(new Map([[1, ethereum.provider as ethers.Provider]]))
+    const params = tradeParams(WETH, DAI, '0.5')
+    const balance: bigint = await ethereumTokens.DAI.balanceOf(wallet)
+    await (await ethereumTokens.WETH.mint(wallet, ethers.parseUnits('0.5', 18))).wait()
+
+    const result = await aggregator.executeBestTrade(params, ethereum.signer)
+
+    expect(result.dexUsed).toBe('Uniswap V3')
+    expect(await ethereumTokens.DAI.balanceOf(wallet)).toBe(balance + ethers.parseUnits(result.amountOut, 18))
+  })
+})
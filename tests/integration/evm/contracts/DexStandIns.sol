@@ -0,0 +1,178 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+// Stand-ins for the contracts the DEX adapters call. The harness copies their runtime code to the
+// configured mainnet addresses, so no state may be set in constructors; everything is initialized
+// through setters afterwards.
+
+contract TestERC20 {
+    mapping(address => uint256) public balanceOf;
+    mapping(address => mapping(address => uint256)) public allowance;
+    uint8 public decimals;
+
+    event Transfer(address indexed from, address indexed to, uint256 value);
+    event Approval(address indexed owner, address indexed spender, uint256 value);
+
+    function setDecimals(uint8 value) external {
+        decimals = value;
+    }
+
+    function mint(address to, uint256 amount) external {
+        balanceOf[to] += amount;
+        emit Transfer(address(0), to, amount);
+    }
+
+    function approve(address spender, uint256 amount) external returns (bool) {
+        allowance[msg.sender][spender] = amount;
+        emit Approval(msg.sender, spender, amount);
+        return true;
+    }
+
+    function transfer(address to, uint256 amount) external returns (bool) {
+        _transfer(msg.sender, to, amount);
+        return true;
+    }
+
+    function transferFrom(address from, address to, uint256 amount) external returns (bool) {
+        require(allowance[from][msg.sender] >= amount, "STF");
+        allowance[from][msg.sender] -= amount;
+        _transfer(from, to, amount);
+        return true;
+    }
+
+    function _transfer(address from, address to, uint256 amount) internal {
+        require(balanceOf[from] >= amount, "STF");
+        balanceOf[from] -= amount;
+        balanceOf[to] += amount;
+        emit Transfer(from, to, amount);
+    }
+}
+
+contract MockV3Factory {
+    mapping(bytes32 => address) private pools;
+
+    function setPool(address tokenA, address tokenB, uint24 fee, address pool) external {
+        pools[_key(tokenA, tokenB, fee)] = pool;
+    }
+
+    function getPool(address tokenA, address tokenB, uint24 fee) external view returns (address) {
+        return pools[_key(tokenA, tokenB, fee)];
+    }
+
+    function _key(address tokenA, address tokenB, uint24 fee) internal pure returns (bytes32) {
+        (address a, address b) = tokenA < tokenB ? (tokenA, tokenB) : (tokenB, tokenA);
+        return keccak256(abi.encode(a, b, fee));
+    }
+}
+
+// Fixed-rate pools: amountOut = amountIn * rate / 1e18, less the pool fee
+contract MockV3Quoter {
+    mapping(bytes32 => uint256) private rates;
+
+    function setRate(address tokenIn, address tokenOut, uint24 fee, uint256 rate) external {
+        rates[keccak256(abi.encode(tokenIn, tokenOut, fee))] = rate;
+    }
+
+    function quote(address tokenIn, address tokenOut, uint24 fee, uint256 amountIn) public view returns (uint256) {
+        uint256 rate = rates[keccak256(abi.encode(tokenIn, tokenOut, fee))];
+        require(rate > 0, "No pool");
+        return amountIn * (1e6 - fee) / 1e6 * rate / 1e18;
+    }
+
+    function quoteExactInputSingle(address tokenIn, address tokenOut, uint24 fee, uint256 amountIn, uint160)
+        external
+        view
+        returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)
+    {
+        return (quote(tokenIn, tokenOut, fee, amountIn), 0, 1, 80000);
+    }
+}
+
+// Pulls tokenIn from the caller, walks the packed path through the quoter and mints tokenOut to the recipient
+abstract contract MockRouterBase {
+    MockV3Quoter public quoter;
+
+    function setQuoter(MockV3Quoter value) external {
+        quoter = value;
+    }
+
+    function _swap(bytes memory path, address recipient, uint256 amountIn, uint256 amountOutMinimum) internal returns (uint256 amount) {
+        require(path.length >= 43 && (path.length - 20) % 23 == 0, "Invalid path");
+        address tokenIn = _address(path, 0);
+        TestERC20(tokenIn).transferFrom(msg.sender, address(this), amountIn);
+
+        amount = amountIn;
+        address tokenOut = tokenIn;
+        for (uint256 offset = 0; offset + 20 < path.length; offset += 23) {
+            tokenOut = _address(path, offset + 23);
+            amount = quoter.quote(_address(path, offset), tokenOut, _uint24(path, offset + 20), amount);
+        }
+
+        require(amount >= amountOutMinimum, "Too little received");
+        TestERC20(tokenOut).mint(recipient, amount);
+    }
+
+    function _address(bytes memory data, uint256 start) internal pure returns (address value) {
+        assembly {
+            value := shr(96, mload(add(add(data, 0x20), start)))
+        }
+    }
+
+    function _uint24(bytes memory data, uint256 start) internal pure returns (uint24 value) {
+        assembly {
+            value := shr(232, mload(add(add(data, 0x20), start)))
+        }
+    }
+
+    function _multicall(bytes[] calldata data) internal returns (bytes[] memory results) {
+        results = new bytes[](data.length);
+        for (uint256 i = 0; i < data.length; i++) {
+            (bool success, bytes memory result) = address(this).delegatecall(data[i]);
+            if (!success) {
+                assembly {
+                    revert(add(result, 0x20), mload(result))
+                }
+            }
+            results[i] = result;
+        }
+    }
+}
+
+// Uniswap V3 SwapRouter: deadline inside the swap struct
+contract MockUniswapV3Router is MockRouterBase {
+    struct ExactInputParams {
+        bytes path;
+        address recipient;
+        uint256 deadline;
+        uint256 amountIn;
+        uint256 amountOutMinimum;
+    }
+
+    function exactInput(ExactInputParams calldata params) external payable returns (uint256) {
+        require(block.timestamp <= params.deadline, "Transaction too old");
+        return _swap(params.path, params.recipient, params.amountIn, params.amountOutMinimum);
+    }
+
+    function multicall(bytes[] calldata data) external payable returns (bytes[] memory) {
+        return _multicall(data);
+    }
+}
+
+// PancakeSwap V3 SmartRouter: deadline checked by the multicall
+contract MockPancakeV3Router is MockRouterBase {
+    struct ExactInputParams {
+        bytes path;
+        address recipient;
+        uint256 amountIn;
+        uint256 amountOutMinimum;
+    }
+
+    function exactInput(ExactInputParams calldata params) external payable returns (uint256) {
+        return _swap(params.path, params.recipient, params.amountIn, params.amountOutMinimum);
+    }
+
+    function multicall(uint256 deadline, bytes[] calldata data) external payable returns (bytes[] memory) {
+        require(block.timestamp <= deadline, "Transaction too old");
+        return _multicall(data);
+    }
+}
@@ -0,0 +1,81 @@
+/**
+ * Local EVM harness for the DEX adapters
+ * Runs an in-process ganache node per chain and installs the stand-in contracts from
+ * contracts/DexStandIns.sol at the addresses the adapters are configured with
+ */
+
+import fs from 'fs'
+import path from 'path'
+import ganache, { EthereumProvider } from 'ganache'
+import solc from 'solc'
+import { ethers } from 'ethers'
+
+export interface CompiledContract {
+  abi: ethers.InterfaceAbi
+  deployedBytecode: string
+}
+
+export interface LocalChain {
+  chainId: number
+  provider: ethers.BrowserProvider
+  signer: ethers.JsonRpcSigner
+  // Places a stand-in's runtime code at a fixed address and returns it connected to the signer
+  install(contract: string, address: string): Promise<ethers.Contract>
+  close(): Promise<void>
+}
+
+const SOURCE = path.join(__dirname, 'contracts', 'DexStandIns.sol')
+
+let compiled: { [name: string]: CompiledContract } | null = null
+
+export function compileStandIns(): { [name: string]: CompiledContract } {
+  if (compiled) return compiled
+
+  const output = JSON.parse(solc.compile(JSON.stringify({
+    language: 'Solidity',
+    sources: { 'DexStandIns.sol': { content: fs.readFileSync(SOURCE, 'utf8') } },
+    settings: {
+      evmVersion: 'paris',
+      optimizer: { enabled: true, runs: 200 },
+      outputSelection: { '*': { '*': ['abi', 'evm.deployedBytecode.object'] } }
+    }
+  })))
+
+  const errors = (output.errors || []).filter((error: { severity: string }) => error.severity === 'error')
+  if (errors.length > 0) {
+    throw new Error(`Stand-in contracts failed to compile: ${errors.map((error: { formattedMessage: string }) => error.formattedMessage).join('\n')}`)
+  }
+
+  const contracts: { [name: string]: { abi: ethers.InterfaceAbi; evm: { deployedBytecode: { object: string } } } } = output.contracts['DexStandIns.sol']
+  compiled = Object.fromEntries(Object.entries(contracts).map(([name, contract]) => [
+    name,
+    { abi: contract.abi, deployedBytecode: `0x${contract.evm.deployedBytecode.object}` }
+  ]))
+  return compiled
+}
+
+export async function startChain(chainId: number): Promise<LocalChain> {
+  const contracts = compileStandIns()
+  const node: EthereumProvider = ganache.provider({
+    chain: { chainId },
+    wallet: { deterministic: true },
+    logging: { quiet: true }
+  })
+  const provider = new ethers.BrowserProvider(node as unknown as ethers.Eip1193Provider, chainId)
+  const signer = await provider.getSigner(0)
+
+  return {
+    chainId,
+    provider,
+    signer,
+    install: async (contract, address) => {
+      const { abi, deployedBytecode } = contracts[contract]
+      await node.request({ method: 'evm_setAccountCode', params: [address, deployedBytecode] })
+      return new ethers.Contract(address, abi, signer)
+    },
+    close: async () => {
+      provider.destroy()
+      await node.disconnect()
+    }
+  }
+}
@@ -0,0 +1,7 @@
+// solc ships without type declarations; the harness only uses the standard JSON compiler
+declare module 'solc' {
+  const solc: {
+    compile(input: string): string
+  }
+  export default solc
+}
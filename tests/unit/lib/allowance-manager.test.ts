@@ -0,0 +1,135 @@
+import { ethers } from 'ethers'
+import { AllowanceManager } from '@/lib/web3/allowance-manager'
+import { NOWNodesService } from '@/lib/web3/nownodes-service'
+import { findScan, saveScan } from '@/lib/web3/allowance-scan-store'
+
+jest.mock('@/lib/web3/allowance-scan-store', () => ({
+  findScan: jest.fn().mockResolvedValue(null),
+  saveScan: jest.fn().mockResolvedValue(undefined)
+}))
+
+const WALLET = '0x1111111111111111111111111111111111111111'
+const UNISWAP_ROUTER = '0xE592427A0AEce92De3Edee1F18E0157C05861564'
+const UNKNOWN_SPENDER = '0x3333333333333333333333333333333333333333'
+const SPENT_SPENDER = '0x4444444444444444444444444444444444444444'
+const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'
+const USDT = '0xdAC17F958D2ee523a2206206994597C13D831ec7'
+const NFT = '0x5555555555555555555555555555555555555555'
+
+const APPROVAL_TOPIC = ethers.id('Approval(address,address,uint256)')
+const erc20 = new ethers.Interface([
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)'
+])
+
+function approvalLog(token: string, spender: string, blockNumber: number, extraTopics: string[] = []) {
+  return {
+    address: token,
+    topics: [APPROVAL_TOPIC, ethers.zeroPadValue(WALLET, 32), ethers.zeroPadValue(spender, 32), ...extraTopics],
+    data: '0x',
+    blockNumber,
+    transactionHash: ethers.id(`${token}${spender}${blockNumber}`)
+  }
+}
+
+// Current allowances per token and spender, answered through eth_call
+const allowances: { [token: string]: { [spender: string]: bigint } } = {
+  [WETH]: { [UNISWAP_ROUTER]: ethers.MaxUint256, [UNKNOWN_SPENDER]: ethers.MaxUint256 - BigInt(5) },
+  [USDT]: { [SPENT_SPENDER]: BigInt(0), [UNISWAP_ROUTER]: BigInt(2500000) }
+}
+const tokens: { [token: string]: [string, number] } = { [WETH]: ['WETH', 18], [USDT]: ['USDT', 6] }
+
+const getLogs = jest.fn(async ({ fromBlock }: { fromBlock: number }) => (fromBlock === 990000 ? [
+  approvalLog(WETH, UNISWAP_ROUTER, 990100),
+  approvalLog(USDT, SPENT_SPENDER, 990200),
+  approvalLog(NFT, UNKNOWN_SPENDER, 990300, [ethers.zeroPadValue('0x01', 32)])
+] : [
+  approvalLog(WETH, UNKNOWN_SPENDER, 1000100),
+  approvalLog(USDT, UNISWAP_ROUTER, 1000200)
+]))
+
+// The wallet sent its first transaction in block 985000
+const getTransactionCount = jest.fn(async (_address: string, blockTag: number) => (blockTag >= 985000 ? 3 : 0))
+
+const provider = {
+  getBlockNumber: async () => 1000500,
+  getLogs,
+  getTransactionCount,
+  call: async (tx: { to: string; data: string }) => {
+    const parsed = erc20.parseTransaction({ data: tx.data })!
+    const [symbol, decimals] = tokens[ethers.getAddress(tx.to)]
+    const result = parsed.name === 'allowance'
+      ? [allowances[ethers.getAddress(tx.to)][ethers.getAddress(parsed.args[1])]]
+      : [parsed.name === 'symbol' ? symbol : decimals]
+    return erc20.encodeFunctionResult(parsed.fragment, result)
+  },
+  estimateGas: async () => BigInt(45000)
+}
+
+const manager = new AllowanceManager({ getProvider: () => provider } as unknown as NOWNodesService)
+
+describe('AllowanceManager', () => {
+  test('rebuilds current allowances from Approval logs, labels spenders and ranks them by risk', async () => {
+    const inventory = await manager.getAllowances(WALLET, 1, 990000)
+
+    expect(getLogs.mock.calls.map(([filter]: [ethers.Filter]) => [filter.fromBlock, filter.toBlock])).toEqual([[990000, 999999], [1000000, 1000500]])
+    expect(inventory.allowances.map(allowance => [allowance.tokenSymbol, allowance.spenderLabel, allowance.allowanceFormatted, allowance.risk])).toEqual([
+      ['WETH', null, 'Unlimited', 'high'],
+      ['WETH', 'Uniswap V3 Router', 'Unlimited', 'medium'],
+      ['USDT', 'Uniswap V3 Router', '2.5', 'low']
+    ])
+    expect(inventory).toMatchObject({ fromBlock: 990000, toBlock: 1000500, complete: false })
+    expect(saveScan).not.toHaveBeenCalled()
+  })
+
+  test('continues the wallet checkpoint: new blocks first, then older history, a bounded span per request', async () => {
+    getLogs.mockClear()
+    // Scanned 920501-990500 before; the spent USDT approval is still on file
+    ;(findScan as jest.Mock).mockResolvedValueOnce({
+      fromBlock: 920501,
+      toBlock: 990500,
+      firstBlock: 0,
+      approvals: {
+        [`${USDT.toLowerCase()}:${SPENT_SPENDER.toLowerCase()}`]: { token: USDT.toLowerCase(), spender: SPENT_SPENDER, blockNumber: 990200, txHash: '0x01' }
+      }
+    })
+
+    const inventory = await manager.getAllowances(WALLET, 1)
+
+    const ranges = getLogs.mock.calls.map(([filter]: [ethers.Filter]) => [filter.fromBlock, filter.toBlock])
+    expect(ranges[0]).toEqual([990501, 1000500])
+    expect(ranges.slice(1)).toEqual(Array.from({ length: 9 }, (_, i) => [830501 + i * 10000, 840500 + i * 10000]))
+    expect(inventory).toMatchObject({ fromBlock: 830501, toBlock: 1000500, complete: false })
+    expect(inventory.allowances.map(allowance => allowance.tokenSymbol)).toEqual(['WETH', 'USDT'])
+
+    // The spent approval is dropped from the checkpoint; a new approval would be found by a later scan
+    const [, chainId, saved] = (saveScan as jest.Mock).mock.calls[0]
+    expect(chainId).toBe(1)
+    expect(saved).toMatchObject({ fromBlock: 830501, toBlock: 1000500 })
+    expect(Object.keys(saved.approvals).sort()).toEqual([
+      `${WETH.toLowerCase()}:${UNKNOWN_SPENDER.toLowerCase()}`,
+      `${USDT.toLowerCase()}:${UNISWAP_ROUTER.toLowerCase()}`
+    ])
+  })
+
+  test('starts a new checkpoint at the wallet\'s first transaction', async () => {
+    getLogs.mockClear()
+    ;(saveScan as jest.Mock).mockClear()
+
+    const inventory = await manager.getAllowances(WALLET, 1)
+
+    expect(getTransactionCount).toHaveBeenCalledWith(WALLET, 1000500)
+    expect(getLogs.mock.calls.map(([filter]: [ethers.Filter]) => [filter.fromBlock, filter.toBlock])).toEqual([[985000, 994999], [995000, 1000500]])
+    expect(inventory).toMatchObject({ fromBlock: 985000, toBlock: 1000500, complete: true })
+    expect((saveScan as jest.Mock).mock.calls[0][2]).toMatchObject({ fromBlock: 985000, firstBlock: 985000 })
+  })
+
+  test('builds a zero approval for the wallet to sign', async () => {
+    const tx = await manager.buildRevokeTransaction(WALLET, 1, WETH, UNKNOWN_SPENDER)
+
+    expect(tx).toMatchObject({ to: WETH, from: WALLET, chainId: 1, value: '0', gasLimit: '54000' })
+    expect([...new ethers.Interface(['function approve(address spender, uint256 amount)']).decodeFunctionData('approve', tx.data)])
+      .toEqual([UNKNOWN_SPENDER, BigInt(0)])
+  })
+})
@@ -0,0 +1,112 @@
+import { AlgorithmType, OrderSide } from '@/lib/advanced-trading'
+import { BacktestError, runBacktest } from '@/lib/backtester'
+import { Candle, CandleParseError, parseCandles } from '@/lib/candles'
+
+const HOUR = 60 * 60 * 1000
+const START = Date.UTC(2024, 0, 1)
+
+function candlesFromCloses(closes: number[]): Candle[] {
+  return closes.map((close, i) => {
+    const open = i === 0 ? close : closes[i - 1]
+    return {
+      timestamp: START + i * HOUR,
+      open,
+      high: Math.max(open, close),
+      low: Math.min(open, close),
+      close,
+      volume: 100
+    }
+  })
+}
+
+describe('Candle import', () => {
+  test('parses CSV with a header and unix-second timestamps', () => {
+    const candles = parseCandles([
+      'time,open,high,low,close,volume',
+      '1704070800,101,103,100,102,5',
+      '1704067200,100,102,99,101,4'
+    ].join('\n'))
+
+    expect(candles).toEqual([
+      { timestamp: 1704067200000, open: 100, high: 102, low: 99, close: 101, volume: 4 },
+      { timestamp: 1704070800000, open: 101, high: 103, low: 100, close: 102, volume: 5 }
+    ])
+  })
+
+  test('parses exchange-style JSON arrays', () => {
+    const candles = parseCandles('[[1704067200000, "100", "102", "99", "101", "4"]]')
+    expect(candles[0]).toEqual({ timestamp: 1704067200000, open: 100, high: 102, low: 99, close: 101, volume: 4 })
+  })
+
+  test('rejects candles whose range does not contain open and close', () => {
+    expect(() => parseCandles([{ timestamp: START, open: 100, high: 99, low: 98, close: 99 }]))
+      .toThrow(CandleParseError)
+  })
+})
+
+describe('runBacktest', () => {
+  test('DCA buys on schedule at open with taker fees and slippage', () => {
+    const result = runBacktest({
+      type: AlgorithmType.DCA,
+      parameters: { interval: 2 * 3600, amount: '1', maxOrders: 2 },
+      candles: candlesFromCloses([100, 100, 100, 100, 100, 100]),
+      initialCapital: 1000,
+      fees: { maker: 0, taker: 0.01 },
+      slippage: { bps: 100 }
+    })
+
+    expect(result.trades.map(trade => [trade.timestamp, trade.side])).toEqual([
+      [START, OrderSide.BUY],
+      [START + 2 * HOUR, OrderSide.BUY]
+    ])
+    expect(result.trades[0].price).toBeCloseTo(101, 9)
+    expect(result.trades[0].fee).toBeCloseTo(1.01, 9)
+    expect(result.finalPosition.base).toBe(2)
+    expect(result.finalEquity).toBeCloseTo(1000 - 2 * 102.01 + 200, 9)
+    expect(result.performance.totalTrades).toBe(0)
+  })
+
+  test('grid round trips count as winning trades', () => {
+    const result = runBacktest({
+      type: AlgorithmType.GRID,
+      parameters: { gridLevels: 2, gridSpacing: 10, basePrice: '100', amount: '1' },
+      candles: candlesFromCloses([100, 89, 101, 89, 101]),
+      initialCapital: 1000,
+      fees: { maker: 0, taker: 0 }
+    })
+
+    const sells = result.trades.filter(trade => trade.side === OrderSide.SELL)
+    expect(sells).toHaveLength(2)
+    sells.forEach(sell => expect(sell.pnl).toBeCloseTo(10, 9))
+    expect(result.performance).toMatchObject({ totalTrades: 2, winningTrades: 2, winRate: 100 })
+    expect(result.finalEquity).toBeCloseTo(1020, 9)
+  })
+
+  test('momentum trades on the next open and reports drawdown', () => {
+    const result = runBacktest({
+      type: AlgorithmType.MOMENTUM,
+      parameters: { lookbackPeriod: 1, momentumThreshold: 5 },
+      candles: candlesFromCloses([100, 110, 120, 100, 90, 95]),
+      initialCapital: 1000,
+      fees: { maker: 0, taker: 0 },
+      slippage: { bps: 0 }
+    })
+
+    // Signal on the 110 close fills at the next open (110); the drop to 100 exits at the next open (100)
+    expect(result.trades.map(trade => [trade.side, trade.price])).toEqual([
+      [OrderSide.BUY, 110],
+      [OrderSide.SELL, 100]
+    ])
+    expect(result.performance).toMatchObject({ totalTrades: 1, losingTrades: 1, winRate: 0 })
+    expect(result.finalEquity).toBeCloseTo(1000 * 100 / 110, 9)
+    // Peak equity 1000 * 120/110 on the 120 close, trough 1000 * 100/110
+    expect(result.riskMetrics.maxDrawdown).toBeCloseTo((1 - 100 / 120) * 100, 9)
+    expect(result.performance.sharpeRatio).toBeLessThan(0)
+  })
+
+  test('rejects missing parameters and unsupported algorithms', () => {
+    const candles = candlesFromCloses([100, 101])
+    expect(() => runBacktest({ type: AlgorithmType.DCA, parameters: {}, candles })).toThrow(BacktestError)
+    expect(() => runBacktest({ type: AlgorithmType.ARBITRAGE, parameters: {}, candles })).toThrow(BacktestError)
+  })
+})
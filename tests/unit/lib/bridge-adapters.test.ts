@@ -0,0 +1,192 @@
+import fs from 'fs'
+import path from 'path'
+import { ethers } from 'ethers'
+import { StargateBridge } from '@/lib/dex/stargate-bridge'
+import { AcrossBridge } from '@/lib/dex/across-bridge'
+import { HopBridge } from '@/lib/dex/hop-bridge'
+import { PolygonPoSBridge } from '@/lib/dex/polygon-pos-bridge'
+import { BridgeAggregator, BridgeParams } from '@/lib/dex/bridge-aggregator'
+import type { ChainProviderLookup } from '@/lib/dex/bridge-base'
+
+const WALLET = '0x1111111111111111111111111111111111111111'
+// Fixtures were recorded at this time; tracking estimates destination blocks from it
+const RECORDED_AT = 1760000000000
+
+interface Fixture {
+  http: { [url: string]: unknown }
+  rpc: { [chainId: string]: { request: { method: string; params: unknown[] }; result: unknown }[] }
+}
+
+function loadFixture(name: string): Fixture {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, '..', '..', 'fixtures', 'bridges', `${name}.json`), 'utf8'))
+}
+
+// JSON-RPC providers that only answer the recorded requests, and a fetch that only serves the recorded URLs
+function replay(fixture: Fixture): { providers: Map<number, ethers.Provider>; getProvider: ChainProviderLookup } {
+  global.fetch = jest.fn(async (url: string) => {
+    if (!(url in fixture.http)) throw new Error(`No recorded response for ${url}`)
+    return { ok: true, json: async () => fixture.http[url] }
+  }) as unknown as typeof fetch
+
+  const providers = new Map<number, ethers.Provider>()
+  Object.entries(fixture.rpc).forEach(([chainId, exchanges]) => {
+    const provider = new ethers.JsonRpcProvider('http://fixture.invalid', Number(chainId), { staticNetwork: true, batchMaxCount: 1 })
+    jest.spyOn(provider, '_send').mockImplementation(async (payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]) => [payload].flat().map(request => {
+      const key = JSON.stringify({ method: request.method, params: request.params })
+      const exchange = exchanges.find(recorded => JSON.stringify(recorded.request) === key)
+      if (!exchange) throw new Error(`No recorded response on chain ${chainId} for ${key}`)
+      return { id: request.id, result: exchange.result }
+    }))
+    providers.set(Number(chainId), provider)
+  })
+  return { providers, getProvider: chainId => providers.get(chainId) }
+}
+
+const decode = (abi: string, data: string) => new ethers.Interface([abi]).parseTransaction({ data })!.args
+
+beforeEach(() => {
+  jest.spyOn(Date, 'now').mockReturnValue(RECORDED_AT)
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe('StargateBridge', () => {
+  const params: BridgeParams = {
+    fromChain: 1,
+    toChain: 137,
+    fromToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    toToken: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174',
+    amount: '1000',
+    recipient: WALLET,
+    slippage: 50
+  }
+
+  test('decodes the pool quote into a taxi send and follows the GUID to the destination pool', async () => {
+    const bridge = new StargateBridge(replay(loadFixture('stargate')).getProvider)
+
+    // Stargate delivers native USDC on Polygon, whatever params.toToken asked for
+    expect(await bridge.getQuote(params)).toMatchObject({
+      toAmount: '999.4',
+      toToken: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359',
+      fees: { bridgeFee: '0.6', gasFee: '0.0075' } // 300k gas at the 20 gwei base fee and 1 gwei median tip, plus the 0.0012 ETH messaging fee
+    })
+
+    const { approval, deposit } = await bridge.buildTransactions(params, WALLET)
+    expect(decode('function approve(address spender, uint256 amount)', approval!.data)).toEqual([deposit.to, ethers.parseUnits('1000', 6)])
+
+    const [sendParam, fee, refundAddress] = decode(
+      'function send(tuple(uint32 dstEid, bytes32 to, uint256 amountLD, uint256 minAmountLD, bytes extraOptions, bytes composeMsg, bytes oftCmd) sendParam, tuple(uint256 nativeFee, uint256 lzTokenFee) fee, address refundAddress)',
+      deposit.data
+    )
+    expect(sendParam.toObject()).toEqual({
+      dstEid: BigInt(30109),
+      to: ethers.zeroPadValue(WALLET, 32),
+      amountLD: ethers.parseUnits('1000', 6),
+      minAmountLD: ethers.parseUnits('994.403', 6), // 999.4 less 0.5%
+      extraOptions: '0x',
+      composeMsg: '0x',
+      oftCmd: '0x'
+    })
+    expect([fee.nativeFee, BigInt(deposit.value), refundAddress]).toEqual([ethers.parseEther('0.0012'), ethers.parseEther('0.0012'), WALLET])
+
+    const status = await bridge.trackBridgeStatus(`stargate_1_137_${ethers.id('stargate deposit')}`)
+    expect(status).toMatchObject({ status: 'completed', toTxHash: ethers.id('stargate delivery') })
+  })
+})
+
+describe('AcrossBridge', () => {
+  const params: BridgeParams = {
+    fromChain: 1,
+    toChain: 10,
+    fromToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    toToken: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85',
+    amount: '500',
+    recipient: WALLET
+  }
+
+  test('deposits exactly the suggested-fees output and reads the fill from the destination SpokePool', async () => {
+    const fixture = loadFixture('across')
+    const bridge = new AcrossBridge(replay(fixture).getProvider)
+
+    const { approval, deposit, quote } = await bridge.buildTransactions(params, WALLET)
+    expect(approval).toBeNull()
+    expect(quote).toMatchObject({ toAmount: '499.75', estimatedTime: 1, fees: { bridgeFee: '0.25' } })
+    expect(decode(
+      'function depositV3(address depositor, address recipient, address inputToken, address outputToken, uint256 inputAmount, uint256 outputAmount, uint256 destinationChainId, address exclusiveRelayer, uint32 quoteTimestamp, uint32 fillDeadline, uint32 exclusivityDeadline, bytes message)',
+      deposit.data
+    ).toArray()).toEqual([
+      WALLET, WALLET, params.fromToken, params.toToken,
+      ethers.parseUnits('500', 6), ethers.parseUnits('499.75', 6), BigInt(10), ethers.ZeroAddress,
+      BigInt(1759999800), BigInt(1760010600), BigInt(0), '0x'
+    ])
+
+    const status = await bridge.trackBridgeStatus(`across_1_10_${ethers.id('across deposit')}`)
+    expect(status).toMatchObject({ status: 'completed', toTxHash: ethers.id('across fill') })
+
+    // The approval goes to the SpokePool, so an API pointing elsewhere is refused
+    const [url] = Object.keys(fixture.http)
+    fixture.http[url] = { ...(fixture.http[url] as object), spokePoolAddress: '0x2222222222222222222222222222222222222222' }
+    await expect(new AcrossBridge(replay(fixture).getProvider).getQuote(params)).rejects.toMatchObject({ code: 'BRIDGE_API_ERROR' })
+  })
+})
+
+describe('HopBridge', () => {
+  test('sends from a rollup through the AMM wrapper and follows the transferId to the L1 bond', async () => {
+    const bridge = new HopBridge(replay(loadFixture('hop')).getProvider)
+    const params: BridgeParams = {
+      fromChain: 42161,
+      toChain: 1,
+      fromToken: '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8',
+      toToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+      amount: '250',
+      recipient: WALLET,
+      slippage: 50
+    }
+
+    const { approval, deposit, quote } = await bridge.buildTransactions(params, WALLET)
+    expect(quote).toMatchObject({ toAmount: '248.58', fees: { bridgeFee: '1.42' } })
+    expect(approval!.to).toBe(params.fromToken)
+    expect(deposit.to).toBe('0xe22D2beDb3Eca35E6397e0C6D62857094aA26F52')
+    expect(decode(
+      'function swapAndSend(uint256 chainId, address recipient, uint256 amount, uint256 bonderFee, uint256 amountOutMin, uint256 deadline, uint256 destinationAmountOutMin, uint256 destinationDeadline)',
+      deposit.data
+    ).toArray()).toEqual([BigInt(1), WALLET, BigInt(250000000), BigInt(1250000), BigInt(249102500), BigInt(1760604800), BigInt(0), BigInt(0)])
+
+    const status = await bridge.trackBridgeStatus(`hop_42161_1_${ethers.id('hop transfer')}`)
+    expect(status).toMatchObject({ status: 'completed', toTxHash: ethers.id('hop bond') })
+  })
+})
+
+describe('BridgeAggregator with the Polygon PoS bridge', () => {
+  test('routes DAI deposits through the RootChainManager and tracks them by state sync ID', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {}) // The other bridges decline DAI
+    const { providers, getProvider } = replay(loadFixture('polygon-pos'))
+    const aggregator = new BridgeAggregator(providers)
+    const params: BridgeParams = {
+      fromChain: 1,
+      toChain: 137,
+      fromToken: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
+      toToken: '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063',
+      amount: '100',
+      recipient: WALLET
+    }
+
+    expect(await aggregator.findBestBridgeRoute(params)).toMatchObject({
+      provider: 'Polygon PoS Bridge',
+      toAmount: '100',
+      toToken: params.toToken,
+      fees: { bridgeFee: '0' }
+    })
+    const { approval, deposit } = await new PolygonPoSBridge(getProvider).buildTransactions(params, WALLET)
+    // The predicate, not the RootChainManager, pulls the tokens
+    expect(decode('function approve(address spender, uint256 amount)', approval!.data)).toEqual(['0x40ec5B33f54e0E8A33A975908C5BA1c14e5BbbDf', ethers.parseEther('100')])
+    expect(decode('function depositFor(address user, address rootToken, bytes depositData)', deposit.data).toArray())
+      .toEqual([WALLET, params.fromToken, ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [ethers.parseEther('100')])])
+    expect(aggregator.getSupportedRoutes().find(route => route.from === 137 && route.to === 1)!.providers).not.toContain('Polygon PoS Bridge')
+
+    const status = await aggregator.trackBridgeStatus(`polygonpos_1_137_${ethers.id('polygon pos deposit')}`)
+    expect(status).toMatchObject({ status: 'completed', toTxHash: ethers.id('polygon state sync') })
+  })
+})
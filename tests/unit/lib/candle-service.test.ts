@@ -0,0 +1,111 @@
+import { CandleRangeError, CandleService, CandleStore, MarketTick } from '@/lib/candle-service'
+import type { StoredCandle, StoredTick } from '@/lib/candle-store'
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+const START = Date.UTC(2024, 0, 1)
+
+function createMemoryStore(): CandleStore & { ticks: StoredTick[]; candles: Map<string, StoredCandle> } {
+  const ticks: StoredTick[] = []
+  const candles = new Map<string, StoredCandle>()
+  const key = (symbol: string, interval: string, openTime: number) => `${symbol}:${interval}:${openTime}`
+
+  return {
+    ticks,
+    candles,
+    insertTicks: async (newTicks) => {
+      ticks.push(...newTicks)
+    },
+    findLatestTicks: async (symbols, before) => {
+      const latest = new Map<string, StoredTick>()
+      ticks
+        .filter(tick => symbols.includes(tick.symbol) && tick.timestamp <= before)
+        .forEach(tick => {
+          const current = latest.get(tick.symbol)
+          if (!current || tick.timestamp > current.timestamp) latest.set(tick.symbol, tick)
+        })
+      return latest
+    },
+    findTickTimestamps: async (symbol, from, to) =>
+      new Set(ticks.filter(tick => tick.symbol === symbol && tick.timestamp >= from && tick.timestamp <= to).map(tick => tick.timestamp)),
+    findCandles: async (symbol, interval, from, to) =>
+      Array.from(candles.entries())
+        .filter(([candleKey, candle]) =>
+          candleKey.startsWith(`${symbol}:${interval}:`) && candle.timestamp >= from && candle.timestamp <= to)
+        .map(([, candle]) => candle)
+        .sort((a, b) => a.timestamp - b.timestamp),
+    findCandlesAt: async (symbol, interval, openTimes) =>
+      openTimes.flatMap(openTime => candles.get(key(symbol, interval, openTime)) ?? []),
+    upsertCandles: async (symbol, interval, upserted) => {
+      upserted.forEach(candle => candles.set(key(symbol, interval, candle.timestamp), candle))
+    }
+  }
+}
+
+function tick(timestamp: number, price: number, volume24h = 0): MarketTick {
+  return { symbol: 'ETH', price, volume24h, source: 'coingecko', timestamp }
+}
+
+describe('CandleService', () => {
+  test('rolls ticks up into every interval, letting late ticks correct the open', async () => {
+    const store = createMemoryStore()
+    const service = new CandleService({ store, fetchHistory: async () => [] })
+
+    await service.recordTicks([tick(START + 10 * 1000, 101), tick(START + 2 * MINUTE, 99), tick(START + 30 * MINUTE, 104)])
+    await service.recordTicks([tick(START, 100)])
+
+    const minutes = await service.getCandles('eth', '1m', START, START + 2 * MINUTE, { backfill: false })
+    expect(minutes.map(candle => [candle.timestamp, candle.open, candle.close])).toEqual([
+      [START, 100, 101],
+      [START + 2 * MINUTE, 99, 99]
+    ])
+
+    const [hour] = await service.getCandles('ETH', '1h', START, START, { backfill: false })
+    expect(hour).toMatchObject({ timestamp: START, open: 100, high: 104, low: 99, close: 104 })
+  })
+
+  test('estimates volume between ticks and skips ticks it already has', async () => {
+    const store = createMemoryStore()
+    const service = new CandleService({ store, fetchHistory: async () => [] })
+
+    // $2.88M a day at $100 is 20 ETH per minute
+    expect(await service.recordTicks([tick(START, 100, 2_880_000), tick(START + MINUTE, 100, 2_880_000)])).toBe(2)
+    expect(await service.recordTicks([tick(START + MINUTE, 100, 2_880_000)])).toBe(0)
+    // Too long after the last live tick to attribute the volume to one candle
+    await service.recordTicks([tick(START + HOUR, 100, 2_880_000)])
+
+    expect(store.ticks.map(stored => stored.volume)).toEqual([0, expect.closeTo(20, 9), 0])
+    const [day] = await service.getCandles('ETH', '1d', START, START, { backfill: false })
+    expect(day.volume).toBeCloseTo(20, 9)
+  })
+
+  test('backfills missing buckets from price history once per cooldown', async () => {
+    const store = createMemoryStore()
+    const fetchHistory = jest.fn(async (symbol: string, from: number, to: number) => {
+      const points = []
+      for (let timestamp = from; timestamp <= to; timestamp += HOUR) {
+        points.push({ timestamp, price: 100 + (timestamp - START) / HOUR, volume24h: 0 })
+      }
+      return points
+    })
+    const service = new CandleService({ store, fetchHistory })
+
+    await service.recordTicks([tick(START, 100)])
+    const candles = await service.getCandles('ETH', '1h', START, START + 3 * HOUR)
+
+    expect(fetchHistory).toHaveBeenCalledWith('ETH', START + HOUR, START + 3 * HOUR)
+    expect(candles.map(candle => candle.close)).toEqual([100, 101, 102, 103])
+    expect(store.ticks.filter(stored => stored.timestamp === START)).toHaveLength(1)
+
+    await service.getCandles('ETH', '1h', START, START + 5 * HOUR)
+    expect(fetchHistory).toHaveBeenCalledTimes(1)
+  })
+
+  test('rejects inverted and oversized ranges', async () => {
+    const service = new CandleService({ store: createMemoryStore(), fetchHistory: async () => [] })
+
+    await expect(service.getCandles('ETH', '1h', START + HOUR, START)).rejects.toThrow(CandleRangeError)
+    await expect(service.getCandles('ETH', '1m', START, START + DAY)).rejects.toThrow(CandleRangeError)
+  })
+})
@@ -0,0 +1,73 @@
+import { buildTaxLots, valueLots, CostBasisError, CostBasisMethod, LedgerEvent } from '@/lib/cost-basis'
+
+const DAY = 24 * 60 * 60 * 1000
+const START = Date.UTC(2023, 0, 1)
+
+function event(id: string, type: LedgerEvent['type'], day: number, amount: number, price: number, fee = 0): LedgerEvent {
+  return { id, symbol: 'ETH', type, amount, price, fee, timestamp: START + day * DAY, source: 'transaction' }
+}
+
+// Three buys at rising then falling prices, and one sale of 1.5 ETH at $2500
+const EVENTS = [
+  event('buy1', 'acquire', 0, 1, 1000, 10),
+  event('buy2', 'acquire', 10, 1, 3000),
+  event('buy3', 'acquire', 20, 1, 2000),
+  event('sell', 'dispose', 370, 1.5, 2500, 15)
+]
+
+describe('buildTaxLots', () => {
+  test('matches the sale to lots by FIFO, LIFO and HIFO', () => {
+    const proceeds = 2500 * 1.5 - 15
+    const expected: [CostBasisMethod, [string, number][], number][] = [
+      ['FIFO', [['buy1', 1], ['buy2', 0.5]], proceeds - (1010 + 1500)],
+      ['LIFO', [['buy3', 1], ['buy2', 0.5]], proceeds - (2000 + 1500)],
+      ['HIFO', [['buy2', 1], ['buy3', 0.5]], proceeds - (3000 + 1000)]
+    ]
+
+    expected.forEach(([method, draws, gain]) => {
+      const { realized } = buildTaxLots(EVENTS, method)
+      expect(realized.map(lot => [lot.lotId, lot.amount])).toEqual(draws)
+      expect(realized.reduce((sum, lot) => sum + lot.gain, 0)).toBeCloseTo(gain, 9)
+    })
+  })
+
+  test('classifies holding periods and values remaining lots', () => {
+    const { lots, realized } = buildTaxLots(EVENTS, 'FIFO')
+
+    expect(realized.map(lot => lot.term)).toEqual(['long', 'short'])
+    const positions = valueLots(lots, new Map([['ETH', 1800]]), START + 370 * DAY)
+    expect(positions.map(lot => [lot.id, lot.remaining, lot.unrealizedGain])).toEqual([
+      ['buy2', 0.5, 0.5 * (1800 - 3000)],
+      ['buy3', 1, 1800 - 2000]
+    ])
+  })
+
+  test('draws specific-ID picks first and falls back to FIFO for the rest', () => {
+    const { realized } = buildTaxLots(EVENTS, 'SPECIFIC_ID', [{ disposalId: 'sell', lotId: 'buy3', amount: 0.25 }])
+
+    expect(realized.map(lot => [lot.lotId, lot.amount])).toEqual([['buy3', 0.25], ['buy1', 1], ['buy2', 0.25]])
+  })
+
+  test('rejects picks from lots that are not open at the disposal', () => {
+    const events = [...EVENTS, event('buy4', 'acquire', 500, 1, 1500)]
+
+    expect(() => buildTaxLots(events, 'SPECIFIC_ID', [{ disposalId: 'sell', lotId: 'buy4', amount: 1 }]))
+      .toThrow(CostBasisError)
+    expect(() => buildTaxLots(events, 'SPECIFIC_ID', [{ disposalId: 'sell', lotId: 'buy1', amount: 2 }]))
+      .toThrow(CostBasisError)
+  })
+
+  test('withdrawals remove lots without realizing gains and oversized sales get zero basis', () => {
+    const { lots, realized } = buildTaxLots([
+      event('buy1', 'acquire', 0, 1, 1000),
+      event('out', 'transfer_out', 1, 0.6, 1200),
+      event('sell', 'dispose', 2, 1, 1100)
+    ], 'FIFO')
+
+    expect(lots[0].remaining).toBe(0)
+    expect(realized.map(lot => [lot.lotId, lot.amount, lot.costBasis])).toEqual([
+      ['buy1', expect.closeTo(0.4, 9), expect.closeTo(400, 9)],
+      [null, expect.closeTo(0.6, 9), 0]
+    ])
+  })
+})
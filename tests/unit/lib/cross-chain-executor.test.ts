@@ -0,0 +1,239 @@
+import { ethers } from 'ethers'
+import { prisma } from '@/lib/db'
+import { CrossChainExecutor } from '@/lib/cross-chain-executor'
+import type { DEXAggregator } from '@/lib/dex/aggregator'
+import type { Token, UnsignedTransaction } from '@/lib/dex/index'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    crossChainExecution: {
+      create: jest.fn().mockResolvedValue({ version: 0 }),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      findMany: jest.fn().mockResolvedValue([]),
+      findUnique: jest.fn().mockResolvedValue(null)
+    }
+  }
+}))
+
+const WALLET = '0x1111111111111111111111111111111111111111'
+const ROUTER = '0x2222222222222222222222222222222222222222'
+const USDC: Token = { address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', symbol: 'USDC', name: 'USDC', decimals: 6, chainId: 1 }
+const USDC_E: Token = { address: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174', symbol: 'USDC.e', name: 'USDC.e', decimals: 6, chainId: 137 }
+const WETH: Token = { address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', symbol: 'WETH', name: 'WETH', decimals: 18, chainId: 1 }
+const WMATIC: Token = { address: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270', symbol: 'WMATIC', name: 'WMATIC', decimals: 18, chainId: 137 }
+
+const hash = (label: string) => ethers.id(label)
+
+const unsigned = (label: string, chainId: number): UnsignedTransaction =>
+  ({ to: ROUTER, data: ethers.id(label).slice(0, 10), value: '0', chainId, from: WALLET, gasLimit: '100000' })
+
+function transferLog(token: Token, amount: string) {
+  return {
+    address: token.address,
+    topics: [ethers.id('Transfer(address,address,uint256)'), ethers.zeroPadValue(ROUTER, 32), ethers.zeroPadValue(WALLET, 32)],
+    data: ethers.toBeHex(ethers.parseUnits(amount, token.decimals), 32)
+  }
+}
+
+// Receipts by hash, mined or reverted, with the token transfers they made to the wallet. Calls
+// succeed unless a test makes them revert.
+function chain(receipts: { [hash: string]: { status: number; logs?: unknown[] } }) {
+  const provider = {
+    getBlockNumber: jest.fn(async () => 100),
+    call: jest.fn(async () => '0x'),
+    estimateGas: jest.fn(async () => BigInt(100000)),
+    getTransaction: jest.fn(async (): Promise<{ from: string } | null> => ({ from: WALLET })),
+    getTransactionReceipt: jest.fn(async (txHash: string) => {
+      const receipt = receipts[txHash]
+      return receipt ? { from: WALLET, blockNumber: 100, gasUsed: BigInt(50000), gasPrice: BigInt(2e9), logs: [], ...receipt } : null
+    })
+  }
+  const bridges = {
+    buildBridgeTransactions: jest.fn(),
+    trackBridgeStatus: jest.fn()
+  }
+  const dex = {
+    getCrossChainQuote: jest.fn(),
+    findBestRoute: jest.fn(),
+    getProvider: () => provider,
+    getBridgeAggregator: () => bridges
+  }
+  return { dex, bridges, provider, executor: (persistence: boolean) => new CrossChainExecutor(dex as unknown as DEXAggregator, { persistence }) }
+}
+
+afterEach(() => {
+  jest.clearAllMocks()
+})
+
+describe('CrossChainExecutor', () => {
+  test('resumes a persisted execution after its last confirmed step', async () => {
+    const { dex, bridges, executor } = chain({
+      [hash('swap')]: { status: 1, logs: [transferLog(USDC, '2000')] },
+      [hash('deposit')]: { status: 1 }
+    })
+    const step = (stepId: string, kind: string, status: string, txHash?: string) =>
+      ({ stepId, kind, chain: 'ethereum', chainId: 1, status, txHash, timestamp: 0 })
+
+    // The process stopped after the wallet broadcast the source swap, before it was seen to confirm
+    ;(prisma.crossChainExecution.findMany as jest.Mock).mockResolvedValueOnce([{
+      id: 'exec1',
+      userId: 'user',
+      walletAddress: WALLET,
+      routeId: 'route1',
+      status: 'swapping',
+      plan: { fromChain: 1, toChain: 137, tokenIn: WETH, tokenOut: USDC_E, bridgeToken: USDC, amountIn: '1', slippageTolerance: 50, bridgeAmount: '1990' },
+      steps: [
+        step('1', 'approve', 'confirmed', hash('approve')),
+        step('2', 'source_swap', 'submitted', hash('swap')),
+        step('3', 'approve', 'pending'),
+        step('4', 'bridge', 'pending')
+      ],
+      recoveryOptions: [],
+      error: null,
+      actualCost: 0,
+      actualOutput: 0,
+      version: 3,
+      startedAt: new Date(0),
+      completedAt: null
+    }])
+
+    const crossChain = executor(true)
+    await crossChain.resume()
+
+    const [resumed] = await crossChain.listExecutions()
+    expect(resumed.transactions.map(({ status }) => status)).toEqual(['confirmed', 'confirmed', 'pending', 'pending'])
+    expect(resumed).toMatchObject({ status: 'bridging', currentStep: 3, plan: { bridgeAmount: '2000.0' } }) // What the swap actually returned
+    expect(prisma.crossChainExecution.updateMany).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'exec1', version: 3 } }))
+
+    // The bridge allowance is already in place, so the approval is skipped and the deposit comes up
+    bridges.buildBridgeTransactions.mockResolvedValue({
+      approval: null,
+      deposit: unsigned('deposit', 1),
+      quote: { toToken: USDC_E.address, toAmount: '1999', fees: { bridgeFee: '1' } },
+      providerId: 'across'
+    })
+    const prepared = await crossChain.prepareNextStep('exec1')
+    expect(prepared).toMatchObject({ step: { stepId: '4', kind: 'bridge' }, transaction: unsigned('deposit', 1) })
+    expect(bridges.buildBridgeTransactions.mock.calls[0][0]).toMatchObject({ fromChain: 1, toChain: 137, amount: '2000.0' })
+
+    bridges.trackBridgeStatus.mockResolvedValue({ status: 'completed', toTxHash: undefined })
+    const completed = await crossChain.submitTransaction('exec1', '4', hash('deposit'))
+    expect(bridges.trackBridgeStatus).toHaveBeenCalledWith(`across_1_137_${hash('deposit')}`)
+    expect(completed).toMatchObject({ status: 'completed', actualOutput: 1999, plan: { amountOut: '1999' } })
+    expect(completed.transactions[3]).toMatchObject({ status: 'confirmed', txHash: hash('deposit'), blockNumber: 100 })
+    expect(dex.findBestRoute).not.toHaveBeenCalled()
+  })
+
+  test('offers retry and refund when the destination swap reverts', async () => {
+    const { dex, bridges, executor } = chain({
+      [hash('approve')]: { status: 1 },
+      [hash('deposit')]: { status: 1 },
+      [hash('delivery')]: { status: 1, logs: [transferLog(USDC_E, '99.5')] },
+      [hash('dest swap')]: { status: 0 },
+      [hash('refund')]: { status: 1 }
+    })
+    dex.getCrossChainQuote.mockResolvedValue({ bridgeToken: USDC, steps: [{ chain: 0 }, { chain: 137 }] })
+    bridges.buildBridgeTransactions.mockImplementation(async (params: { fromChain: number }, from: string, providerId?: string) => ({
+      approval: providerId ? null : unsigned('approve', params.fromChain),
+      deposit: unsigned('deposit', params.fromChain),
+      quote: { toToken: params.fromChain === 1 ? USDC_E.address : USDC.address, toAmount: '99.9', fees: { bridgeFee: '0.1' } },
+      providerId: 'stargate'
+    }))
+    dex.findBestRoute.mockResolvedValue({
+      bestQuote: { amountOut: '120', minimumAmountOut: '119.4' },
+      transactions: { approval: null, swap: unsigned('dest swap', 137), amountIn: '99500000' }
+    })
+
+    const crossChain = executor(false)
+    const execution = await crossChain.start({
+      userId: 'user', walletAddress: WALLET, routeId: 'route1', fromChain: 1, toChain: 137,
+      tokenIn: USDC, tokenOut: WMATIC, amountIn: '100', slippageTolerance: 50
+    })
+    expect(execution.transactions.map(({ kind, chainId }) => `${kind}@${chainId}`)).toEqual(['approve@1', 'bridge@1', 'approve@137', 'dest_swap@137'])
+
+    const sign = async (txHash: string) => {
+      const prepared = await crossChain.prepareNextStep(execution.id)
+      return crossChain.submitTransaction(execution.id, prepared!.step.stepId, txHash)
+    }
+    await sign(hash('approve'))
+    bridges.trackBridgeStatus.mockResolvedValue({ status: 'completed', toTxHash: hash('delivery') })
+    await sign(hash('deposit'))
+    // The destination swap sells what was delivered, not what was quoted
+    expect(execution.plan).toMatchObject({ bridgedToken: { address: USDC_E.address, chainId: 137 }, bridgedAmount: '99.5' })
+
+    const failed = await sign(hash('dest swap'))
+    expect(dex.findBestRoute.mock.calls[0][0]).toMatchObject({ tokenIn: { address: USDC_E.address }, tokenOut: WMATIC, amountIn: '99.5' })
+    expect(failed).toMatchObject({ status: 'failed', recoveryOptions: ['retry', 'refund'], error: `Transaction ${hash('dest swap')} reverted` })
+    expect(await crossChain.prepareNextStep(execution.id)).toBeNull()
+
+    // Refunding bridges the delivered USDC.e back with a fresh approval on Polygon
+    await crossChain.refund(execution.id)
+    expect(execution.transactions.slice(4).map(({ kind, chainId }) => `${kind}@${chainId}`)).toEqual(['approve@137', 'refund@137'])
+    const approval = await crossChain.prepareNextStep(execution.id)
+    expect(approval).toMatchObject({ step: { stepId: '5', kind: 'approve' }, transaction: { chainId: 137 } })
+    expect(bridges.buildBridgeTransactions).toHaveBeenLastCalledWith(
+      expect.objectContaining({ fromChain: 137, toChain: 1, fromToken: USDC_E.address, toToken: USDC.address, amount: '99.5' }),
+      WALLET,
+      undefined
+    )
+    await crossChain.submitTransaction(execution.id, '5', hash('approve'))
+
+    bridges.trackBridgeStatus.mockResolvedValue({ status: 'completed', toTxHash: undefined })
+    const refunded = await sign(hash('refund'))
+    expect(bridges.trackBridgeStatus).toHaveBeenLastCalledWith(`stargate_137_1_${hash('refund')}`)
+    expect(refunded.status).toBe('refunded')
+    expect(refunded.transactions.map(({ status }) => status)).toEqual(['confirmed', 'confirmed', 'skipped', 'failed', 'confirmed', 'confirmed'])
+  })
+
+  test('refuses to hand out a step whose simulation reverts', async () => {
+    const { dex, bridges, provider, executor } = chain({})
+    dex.getCrossChainQuote.mockResolvedValue({ bridgeToken: USDC, steps: [{ chain: 0 }, { chain: 137 }] })
+    bridges.buildBridgeTransactions.mockResolvedValue({
+      approval: null,
+      deposit: unsigned('deposit', 1),
+      quote: { toToken: USDC_E.address, toAmount: '99.9', fees: { bridgeFee: '0.1' } },
+      providerId: 'stargate'
+    })
+    provider.call.mockRejectedValue(new Error('insufficient balance'))
+
+    const crossChain = executor(false)
+    const execution = await crossChain.start({
+      userId: 'user', walletAddress: WALLET, routeId: 'route1', fromChain: 1, toChain: 137,
+      tokenIn: USDC, tokenOut: USDC_E, amountIn: '100', slippageTolerance: 50
+    })
+    await expect(crossChain.prepareNextStep(execution.id)).rejects.toMatchObject({ code: 'SIMULATION_FAILED' })
+    expect(provider.call).toHaveBeenCalledWith(expect.objectContaining({ to: ROUTER, from: WALLET }))
+    // Nothing was skipped, so the same step comes up again once the wallet can cover it
+    expect(execution.transactions[0]).toMatchObject({ kind: 'approve', status: 'pending' })
+  })
+
+  test('hands a step back to the wallet when its hash never shows up on chain', async () => {
+    const { dex, bridges, provider, executor } = chain({})
+    dex.getCrossChainQuote.mockResolvedValue({ bridgeToken: USDC, steps: [{ chain: 0 }, { chain: 137 }] })
+    bridges.buildBridgeTransactions.mockResolvedValue({
+      approval: unsigned('approve', 1),
+      deposit: unsigned('deposit', 1),
+      quote: { toToken: USDC_E.address, toAmount: '99.9', fees: { bridgeFee: '0.1' } },
+      providerId: 'stargate'
+    })
+    provider.getTransaction.mockResolvedValue(null)
+
+    const crossChain = executor(false)
+    const execution = await crossChain.start({
+      userId: 'user', walletAddress: WALLET, routeId: 'route1', fromChain: 1, toChain: 137,
+      tokenIn: USDC, tokenOut: USDC_E, amountIn: '100', slippageTolerance: 50
+    })
+    const prepared = await crossChain.prepareNextStep(execution.id)
+    await crossChain.submitTransaction(execution.id, prepared!.step.stepId, hash('made up'))
+    expect(execution.transactions[0]).toMatchObject({ status: 'submitted', txHash: hash('made up') })
+
+    // Still within the grace period for a broadcast that has not propagated yet
+    await crossChain.listExecutions()
+    expect(execution.transactions[0].status).toBe('submitted')
+
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 16 * 60 * 1000)
+    await crossChain.listExecutions()
+    clock.mockRestore()
+    expect(execution.transactions[0]).toMatchObject({ status: 'pending', txHash: undefined, error: `Transaction ${hash('made up')} was never seen on chain 1` })
+  })
+})
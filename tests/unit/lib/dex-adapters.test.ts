@@ -0,0 +1,160 @@
+import { ethers } from 'ethers'
+import { QuickSwapV3DEX } from '@/lib/dex/quickswap-v3'
+import { UniswapV2DEX } from '@/lib/dex/uniswap-v2'
+import { DEX_CONFIGS, V2_DEX_CONFIGS, COMMON_TOKENS, Token, TradeParams } from '@/lib/dex/index'
+
+const WALLET = '0x1111111111111111111111111111111111111111'
+const POOL = '0x2222222222222222222222222222222222222222'
+
+const WMATIC: Token = { address: COMMON_TOKENS[137].WMATIC, symbol: 'WMATIC', name: 'Wrapped Matic', decimals: 18, chainId: 137 }
+const USDC: Token = { address: COMMON_TOKENS[137].USDC, symbol: 'USDC', name: 'USD Coin', decimals: 6, chainId: 137 }
+const QUICK: Token = { address: '0xB5C064F955D8e7F38fE0460C556a72987494eE17', symbol: 'QUICK', name: 'Quickswap', decimals: 18, chainId: 137 }
+
+type Handler = (args: ethers.Result) => unknown[]
+
+// In-process provider: eth_call is decoded against each contract's ABI and answered by a handler
+function mockProvider(contracts: { [address: string]: { abi: string[]; handlers: { [fn: string]: Handler } } }) {
+  const erc20 = new ethers.Interface(['function allowance(address owner, address spender) view returns (uint256)'])
+  return {
+    call: async (tx: { to: string; data: string }) => {
+      const contract = contracts[tx.to.toLowerCase()]
+      const iface = contract ? new ethers.Interface(contract.abi) : erc20
+      const parsed = iface.parseTransaction({ data: tx.data })!
+      const result = contract ? contract.handlers[parsed.name](parsed.args) : [BigInt(0)]
+      return iface.encodeFunctionResult(parsed.fragment, result)
+    },
+    estimateGas: async () => BigInt(100000),
+    getBlockNumber: async () => 1
+  }
+}
+
+// Constant-product pools keyed by the sorted pair, with reserves per token
+function constantProduct(pools: { [pair: string]: { [token: string]: bigint } }, feePpm: bigint) {
+  const key = (a: string, b: string) => [a.toLowerCase(), b.toLowerCase()].sort().join('-')
+  return {
+    has: (a: string, b: string) => key(a, b) in pools,
+    amountOut: (tokenIn: string, tokenOut: string, amountIn: bigint) => {
+      const pool = pools[key(tokenIn, tokenOut)]
+      const inWithFee = amountIn * (BigInt(1000000) - feePpm)
+      const reserveIn = pool[tokenIn.toLowerCase()]
+      return inWithFee * pool[tokenOut.toLowerCase()] / (reserveIn * BigInt(1000000) + inWithFee)
+    }
+  }
+}
+
+const pools = constantProduct({
+  [[WMATIC.address, USDC.address].map(a => a.toLowerCase()).sort().join('-')]: {
+    [WMATIC.address.toLowerCase()]: ethers.parseUnits('1000000', 18),
+    [USDC.address.toLowerCase()]: ethers.parseUnits('800000', 6)
+  },
+  [[USDC.address, QUICK.address].map(a => a.toLowerCase()).sort().join('-')]: {
+    [USDC.address.toLowerCase()]: ethers.parseUnits('500000', 6),
+    [QUICK.address.toLowerCase()]: ethers.parseUnits('10000', 18)
+  }
+}, BigInt(3000))
+
+const params: TradeParams = { tokenIn: WMATIC, tokenOut: QUICK, amountIn: '100', slippageTolerance: 100, deadline: 1700000000 }
+
+describe('QuickSwapV3DEX (Algebra)', () => {
+  const config = DEX_CONFIGS.quickswap_v3
+  const provider = mockProvider({
+    [config.factory.toLowerCase()]: {
+      abi: ['function poolByPair(address tokenA, address tokenB) view returns (address pool)'],
+      handlers: { poolByPair: ([a, b]) => [pools.has(a, b) ? POOL : ethers.ZeroAddress] }
+    },
+    [config.quoter.toLowerCase()]: {
+      abi: ['function quoteExactInputSingle(address tokenIn, address tokenOut, uint256 amountIn, uint160 limitSqrtPrice) returns (uint256 amountOut, uint16 fee)'],
+      handlers: { quoteExactInputSingle: ([tokenIn, tokenOut, amountIn]) => [pools.amountOut(tokenIn, tokenOut, amountIn), 3000] }
+    }
+  })
+  const dex = new QuickSwapV3DEX(provider as unknown as ethers.Provider, 137)
+
+  test('quotes through an intermediate pool and encodes a fee-less exactInput path', async () => {
+    const quote = await dex.getQuote(params)
+    const expected = pools.amountOut(USDC.address, QUICK.address, pools.amountOut(WMATIC.address, USDC.address, ethers.parseUnits('100', 18)))
+
+    expect(quote.route).toEqual(['WMATIC', 'USDC', 'QUICK'])
+    expect(ethers.parseUnits(quote.amountOut, 18)).toBe(expected)
+    expect(quote.routes[0].hops.map(hop => [hop.tokenIn.symbol, hop.fee])).toEqual([['WMATIC', 3000], ['USDC', 3000]])
+
+    const { approval, swap } = await dex.buildTradeTransactions(params, WALLET, quote)
+    expect(approval).not.toBeNull()
+    const [decoded] = new ethers.Interface([
+      'function exactInput((bytes path, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum))'
+    ]).decodeFunctionData('exactInput', swap.data)
+    expect(decoded.path).toBe(ethers.solidityPacked(['address', 'address', 'address'], [WMATIC.address, USDC.address, QUICK.address]))
+    expect(decoded.amountOutMinimum).toBe(expected * BigInt(99) / BigInt(100))
+  })
+
+  test('reports the dynamic fee as its best fee tier', async () => {
+    expect(await dex.getBestFeeTier(WMATIC.address, USDC.address)).toBe(3000)
+    await expect(dex.getBestFeeTier(WMATIC.address, QUICK.address)).rejects.toThrow('Insufficient liquidity')
+  })
+
+  test('looks a pool up again once an RPC failure has passed instead of caching it as missing', async () => {
+    let factoryDown = true
+    const flaky = {
+      ...provider,
+      call: async (tx: { to: string; data: string }) => {
+        if (factoryDown && tx.to.toLowerCase() === config.factory.toLowerCase()) throw new Error('rate limited')
+        return provider.call(tx)
+      }
+    }
+    const fresh = new QuickSwapV3DEX(flaky as unknown as ethers.Provider, 137)
+
+    await expect(fresh.getQuote(params)).rejects.toThrow()
+    factoryDown = false
+    expect((await fresh.getQuote(params)).route).toEqual(['WMATIC', 'USDC', 'QUICK'])
+  })
+})
+
+describe('UniswapV2DEX', () => {
+  const config = V2_DEX_CONFIGS.quickswap_v2
+  const provider = mockProvider({
+    [config.factory.toLowerCase()]: {
+      abi: ['function getPair(address tokenA, address tokenB) view returns (address pair)'],
+      handlers: { getPair: ([a, b]) => [pools.has(a, b) ? POOL : ethers.ZeroAddress] }
+    },
+    [config.router.toLowerCase()]: {
+      abi: [
+        'function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[] amounts)',
+        'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)'
+      ],
+      handlers: {
+        getAmountsOut: ([amountIn, path]) => [[amountIn, pools.amountOut(path[0], path[1], amountIn)]],
+        swapExactTokensForTokens: ([amountIn, amountOutMin]) => [[amountIn, amountOutMin]]
+      }
+    }
+  })
+  const dex = new UniswapV2DEX(provider as unknown as ethers.Provider, 137, config)
+
+  test('executes a single-path swap through the wallet signer and reads the received amount', async () => {
+    const sent: { to: string; data: string }[] = []
+    const transferLog = {
+      address: QUICK.address,
+      topics: [ethers.id('Transfer(address,address,uint256)'), ethers.zeroPadValue(POOL, 32), ethers.zeroPadValue(WALLET, 32)],
+      data: ethers.toBeHex(ethers.parseUnits('0.95', 18), 32)
+    }
+    const signer = {
+      getAddress: async () => WALLET,
+      sendTransaction: async (tx: { to: string; data: string }) => {
+        sent.push(tx)
+        const hash = ethers.id(`tx${sent.length}`)
+        return { hash, wait: async () => ({ hash, status: 1, gasUsed: BigInt(150000), logs: [transferLog] }) }
+      }
+    }
+
+    const result = await dex.executeTrade(params, signer as unknown as ethers.Signer)
+
+    expect(sent.map(tx => tx.to)).toEqual([WMATIC.address, config.router])
+    const [amountIn, , path, to, deadline] = new ethers.Interface([
+      'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)'
+    ]).decodeFunctionData('swapExactTokensForTokens', sent[1].data)
+    expect([amountIn, [...path], to, deadline]).toEqual([ethers.parseUnits('100', 18), [WMATIC.address, USDC.address, QUICK.address], WALLET, BigInt(1700000000)])
+    expect(result).toMatchObject({ hash: ethers.id('tx2'), amountOut: '0.95', gasUsed: '150000' })
+  })
+
+  test('uses the pair fee as its only fee tier', async () => {
+    expect(await dex.getBestFeeTier(USDC.address, QUICK.address, ethers.parseUnits('1', 6))).toBe(3000)
+  })
+})
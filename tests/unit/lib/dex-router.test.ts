@@ -0,0 +1,61 @@
+import { findPaths, findBestRoutePlan, PoolEdge, HopQuoter } from '@/lib/dex/router'
+
+const [A, B, C, D] = ['0xa', '0xb', '0xc', '0xd']
+
+// Constant-product pools without fees, reserves keyed by the token they hold
+function mockQuoter(reserves: { [pool: string]: { [token: string]: number } }): HopQuoter {
+  return async (tokenIn, tokenOut, fee, amountIn) => {
+    const pool = reserves[`${[tokenIn, tokenOut].sort().join('-')}-${fee}`]
+    if (!pool) throw new Error('no pool')
+    const reserveIn = BigInt(pool[tokenIn])
+    const reserveOut = BigInt(pool[tokenOut])
+    return { amountOut: reserveOut * amountIn / (reserveIn + amountIn), gasEstimate: BigInt(100000) }
+  }
+}
+
+describe('dex router', () => {
+  test('finds direct and multi-hop paths through the pool graph, shortest first', () => {
+    const pools: PoolEdge[] = [
+      { tokenA: A, tokenB: D, fee: 3000 },
+      { tokenA: A, tokenB: B, fee: 500 },
+      { tokenA: B, tokenB: D, fee: 3000 },
+      { tokenA: B, tokenB: C, fee: 500 },
+      { tokenA: C, tokenB: D, fee: 10000 }
+    ]
+
+    expect(findPaths(A, D, pools).map(path => [path.tokens.join('>'), path.fees.join(',')])).toEqual([
+      ['0xa>0xd', '3000'],
+      ['0xa>0xb>0xd', '500,3000'],
+      ['0xa>0xb>0xc>0xd', '500,500,10000']
+    ])
+    expect(findPaths(A, D, pools, 1)).toHaveLength(1)
+  })
+
+  test('splits an order across pool-disjoint paths when that returns more', async () => {
+    const pools: PoolEdge[] = [
+      { tokenA: A, tokenB: D, fee: 3000 },
+      { tokenA: A, tokenB: B, fee: 500 },
+      { tokenA: B, tokenB: D, fee: 500 }
+    ]
+    const quoteHop = mockQuoter({
+      '0xa-0xd-3000': { [A]: 1000000, [D]: 1000000 },
+      '0xa-0xb-500': { [A]: 1000000, [B]: 1000000 },
+      '0xb-0xd-500': { [B]: 1000000, [D]: 1000000 }
+    })
+
+    const small = await findBestRoutePlan(A, D, BigInt(100), pools, quoteHop)
+    expect(small?.routes.map(route => route.tokens.length)).toEqual([2])
+
+    const plan = await findBestRoutePlan(A, D, BigInt(500000), pools, quoteHop)
+    const direct = await quoteHop(A, D, 3000, BigInt(500000))
+    expect(plan!.routes).toHaveLength(2)
+    expect(plan!.routes.reduce((sum, route) => sum + route.amountIn, BigInt(0))).toBe(BigInt(500000))
+    expect(plan!.amountOut > direct.amountOut).toBe(true)
+
+    const [first] = plan!.routes
+    expect(first.hops[0].amountIn).toBe(first.amountIn)
+    expect(first.hops[first.hops.length - 1].amountOut).toBe(first.amountOut)
+    expect(plan!.priceImpact).toBeGreaterThan(0)
+    expect(plan!.priceImpact).toBeLessThan(50)
+  })
+})
@@ -0,0 +1,101 @@
+import { ethers } from 'ethers'
+import { TransactionSimulator, SimulationExpectation } from '@/lib/dex/simulation'
+import { UnsignedTransaction } from '@/lib/dex/index'
+
+const WALLET = '0x1111111111111111111111111111111111111111'
+const ROUTER = '0xE592427A0AEce92De3Edee1F18E0157C05861564'
+const POOL = '0x2222222222222222222222222222222222222222'
+const TAX_WALLET = '0x3333333333333333333333333333333333333333'
+const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'
+const TAXED = '0x4444444444444444444444444444444444444444'
+
+const erc20 = new ethers.Interface([
+  'function transfer(address to, uint256 amount)',
+  'function transferFrom(address from, address to, uint256 amount)'
+])
+
+const swap: UnsignedTransaction = { to: ROUTER, from: WALLET, data: '0x12345678', value: '0', gasLimit: '300000', chainId: 1 }
+
+const expectation: SimulationExpectation = {
+  tokenIn: { address: WETH, symbol: 'WETH', name: 'Wrapped Ether', decimals: 18, chainId: 1 },
+  tokenOut: { address: TAXED, symbol: 'TAX', name: 'Taxed Token', decimals: 18, chainId: 1 },
+  amountIn: ethers.parseUnits('1', 18),
+  expectedAmountOut: ethers.parseUnits('100', 18),
+  slippageTolerance: 100,
+  recipient: WALLET
+}
+
+function transferLog(token: string, from: string, to: string, amount: bigint) {
+  return {
+    address: token,
+    topics: [ethers.id('Transfer(address,address,uint256)'), ethers.zeroPadValue(from, 32), ethers.zeroPadValue(to, 32)],
+    data: ethers.toBeHex(amount, 32)
+  }
+}
+
+// The router pulls WETH into the pool, then the pool pays out a token that keeps part of every transfer
+function taxedSwapTrace(taxBps: number) {
+  const amountOut = ethers.parseUnits('100', 18)
+  const tax = amountOut * BigInt(taxBps) / BigInt(10000)
+  return {
+    type: 'CALL',
+    from: WALLET,
+    to: ROUTER,
+    input: swap.data,
+    gasUsed: '0x249f0',
+    calls: [
+      {
+        type: 'CALL',
+        from: ROUTER,
+        to: WETH,
+        input: erc20.encodeFunctionData('transferFrom', [WALLET, POOL, expectation.amountIn]),
+        logs: [transferLog(WETH, WALLET, POOL, expectation.amountIn)]
+      },
+      {
+        type: 'CALL',
+        from: POOL,
+        to: TAXED,
+        input: erc20.encodeFunctionData('transfer', [WALLET, amountOut]),
+        logs: [transferLog(TAXED, POOL, WALLET, amountOut - tax), transferLog(TAXED, POOL, TAX_WALLET, tax)]
+      }
+    ]
+  }
+}
+
+function mockProvider(send: (method: string) => Promise<unknown>, call: () => Promise<string> = async () => '0x') {
+  return {
+    getBlockNumber: async () => 19000000,
+    send,
+    call,
+    estimateGas: async () => BigInt(150000)
+  }
+}
+
+describe('TransactionSimulator', () => {
+  test('decodes balance changes from the call trace and flags transfer taxes that push the output past slippage', async () => {
+    const mild = await new TransactionSimulator(mockProvider(async () => taxedSwapTrace(50)) as unknown as ethers.Provider).simulate(swap, expectation)
+
+    expect(mild).toMatchObject({ success: true, safe: true, method: 'trace', gasUsed: '150000', amountOut: ethers.parseUnits('99.5', 18).toString() })
+    expect(mild.balanceChanges.map(change => [change.symbol, change.formatted])).toEqual([['WETH', '-1.0'], ['TAX', '99.5']])
+    expect(mild.transferTaxes).toEqual([{ token: TAXED.toLowerCase(), symbol: 'TAX', taxBps: 50 }])
+    expect(mild.warnings.map(warning => [warning.code, warning.severity])).toEqual([['TRANSFER_TAX', 'warning']])
+    expect(mild.preview).toEqual(['Send 1.0 WETH', 'Receive 99.5 TAX', 'Uses about 150000 gas', 'TAX takes a 0.50% tax on transfers'])
+
+    const honeypot = await new TransactionSimulator(mockProvider(async () => taxedSwapTrace(2500)) as unknown as ethers.Provider).simulate(swap, expectation)
+
+    expect(honeypot.safe).toBe(false)
+    expect(honeypot.warnings.map(warning => [warning.code, warning.severity])).toEqual([['TRANSFER_TAX', 'critical'], ['SLIPPAGE', 'critical']])
+  })
+
+  test('falls back to eth_call when the node cannot trace and reports the revert', async () => {
+    const provider = mockProvider(
+      async () => { throw new Error('the method debug_traceCall does not exist') },
+      async () => { throw Object.assign(new Error('execution reverted'), { reason: 'Too little received' }) }
+    )
+
+    const result = await new TransactionSimulator(provider as unknown as ethers.Provider).simulate(swap, expectation)
+
+    expect(result).toMatchObject({ success: false, safe: false, method: 'call', blockNumber: 19000000, revertReason: 'Too little received' })
+    expect(result.warnings.map(warning => warning.code)).toEqual(['TRACE_UNAVAILABLE', 'REVERT'])
+  })
+})
@@ -0,0 +1,78 @@
+import { ethers } from 'ethers'
+import { UniswapV3DEX } from '@/lib/dex/uniswap-v3'
+import { TradeParams, QuoteResult } from '@/lib/dex/index'
+
+const WALLET = '0x1111111111111111111111111111111111111111'
+const ROUTER = '0xE592427A0AEce92De3Edee1F18E0157C05861564'
+
+const params: TradeParams = {
+  tokenIn: { address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', symbol: 'WETH', name: 'Wrapped Ether', decimals: 18, chainId: 1 },
+  tokenOut: { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', symbol: 'USDT', name: 'Tether USD', decimals: 6, chainId: 1 },
+  amountIn: '1.5',
+  slippageTolerance: 50,
+  deadline: 1700000000
+}
+
+const quote: QuoteResult = {
+  amountOut: '3000.0',
+  priceImpact: 0.1,
+  route: ['WETH', 'USDT'],
+  gasEstimate: '90000',
+  minimumAmountOut: '2985.0',
+  routes: [{
+    path: [params.tokenIn, params.tokenOut],
+    fees: [3000],
+    percentage: 100,
+    amountIn: '1.5',
+    amountOut: '3000.0',
+    priceImpact: 0.1,
+    gasEstimate: '90000',
+    hops: []
+  }]
+}
+
+// Read-only provider answering allowance() and eth_estimateGas
+function mockProvider(allowance: bigint) {
+  return {
+    call: async () => ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [allowance]),
+    estimateGas: async () => BigInt(150000)
+  }
+}
+
+describe('BaseDEX.buildTradeTransactions', () => {
+  test('includes an approval when the router allowance is short and encodes the swap for the wallet', async () => {
+    const dex = new UniswapV3DEX(mockProvider(BigInt(0)) as unknown as ethers.Provider, 1)
+    const transactions = await dex.buildTradeTransactions(params, WALLET, quote)
+
+    expect(transactions.approval).toMatchObject({ to: params.tokenIn.address, from: WALLET, chainId: 1, gasLimit: '180000' })
+    expect(transactions.swap).toMatchObject({ to: ROUTER, from: WALLET, value: '0', gasLimit: '190000' })
+    expect(transactions).toMatchObject({ deadline: 1700000000, amountIn: '1500000000000000000', minimumAmountOut: '2985000000', gasEstimate: '370000' })
+
+    const [swap] = new ethers.Interface([
+      'function exactInput((bytes path, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum))'
+    ]).decodeFunctionData('exactInput', transactions.swap.data)
+    expect(swap.path).toBe(ethers.solidityPacked(['address', 'uint24', 'address'], [params.tokenIn.address, 3000, params.tokenOut.address]))
+    expect(swap.recipient).toBe(WALLET)
+    expect(swap.deadline).toBe(BigInt(1700000000))
+    expect(swap.amountOutMinimum).toBe(BigInt(2985000000))
+  })
+
+  test('approves exactly amountIn unless the trade asks for an unlimited approval', async () => {
+    const dex = new UniswapV3DEX(mockProvider(BigInt(0)) as unknown as ethers.Provider, 1)
+    const erc20 = new ethers.Interface(['function approve(address spender, uint256 amount)'])
+
+    const exact = await dex.buildTradeTransactions(params, WALLET, quote)
+    expect([...erc20.decodeFunctionData('approve', exact.approval!.data)]).toEqual([ROUTER, BigInt('1500000000000000000')])
+
+    const unlimited = await dex.buildTradeTransactions({ ...params, approvalMode: 'unlimited' }, WALLET, quote)
+    expect([...erc20.decodeFunctionData('approve', unlimited.approval!.data)]).toEqual([ROUTER, ethers.MaxUint256])
+  })
+
+  test('skips the approval and simulates the swap when the allowance already covers amountIn', async () => {
+    const dex = new UniswapV3DEX(mockProvider(ethers.MaxUint256) as unknown as ethers.Provider, 1)
+    const transactions = await dex.buildTradeTransactions(params, WALLET, quote)
+
+    expect(transactions.approval).toBeNull()
+    expect(transactions.swap.gasLimit).toBe('180000')
+  })
+})
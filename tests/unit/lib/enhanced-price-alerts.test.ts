@@ -0,0 +1,294 @@
+import { prisma } from '@/lib/db'
+import { nowNodesService } from '@/lib/nownodes'
+import { portfolioAnalytics } from '@/lib/portfolio-analytics'
+import { defiPositionTracker } from '@/lib/defi-position-tracker'
+import { EnhancedPriceAlertsService } from '@/lib/enhanced-price-alerts-service'
+import { MarketWindow, parseTimeframe } from '@/lib/market-window'
+import { AlertExpressionError, parseAlertExpression } from '@/lib/alert-expressions'
+import type { CryptoPrice } from '@/lib/nownodes'
+import type { AlertExpression } from '@/types/price-alerts'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    alert: {
+      findMany: jest.fn(),
+      update: jest.fn().mockResolvedValue({})
+    },
+    walletConnection: {
+      findMany: jest.fn().mockResolvedValue([{ address: '0xAbC' }])
+    }
+  }
+}))
+
+jest.mock('@/lib/portfolio-analytics', () => ({
+  portfolioAnalytics: { getSnapshots: jest.fn() }
+}))
+
+jest.mock('@/lib/defi-position-tracker', () => ({
+  defiPositionTracker: { getRecentPositions: jest.fn().mockResolvedValue([]) }
+}))
+
+jest.mock('@/lib/nownodes', () => ({
+  nowNodesService: { getCryptoPrices: jest.fn() }
+}))
+
+jest.mock('@/lib/notifications', () => ({
+  notificationService: { publish: jest.fn().mockResolvedValue([]) }
+}))
+
+const findAlerts = prisma.alert.findMany as jest.Mock
+const getCryptoPrices = nowNodesService.getCryptoPrices as jest.Mock
+const getSnapshots = portfolioAnalytics.getSnapshots as jest.Mock
+const getRecentPositions = defiPositionTracker.getRecentPositions as jest.Mock
+
+const MINUTE = 60 * 1000
+const START = Date.UTC(2024, 0, 1)
+
+function alertRow(id: string, type: string, operator: 'GT' | 'LT', threshold: number, timeframe?: string) {
+  return {
+    id,
+    userId: 'user-1',
+    symbol: 'BTC',
+    operator,
+    threshold,
+    active: true,
+    cooldownMinutes: 0,
+    triggerCount: 0,
+    lastTriggeredAt: null,
+    description: JSON.stringify({ type, timeframe, frequency: 'recurring', notificationMethods: [] })
+  }
+}
+
+function compositeRow(id: string, expression: AlertExpression) {
+  return { ...alertRow(id, 'price_threshold', 'GT', 0), symbol: 'COMPOSITE', expression }
+}
+
+function quote(minutes: number, price: number, volume24h = 1_000_000, marketCap = price * 1000, symbol = 'BTC'): CryptoPrice {
+  return {
+    symbol,
+    name: symbol,
+    current_price: price,
+    price_change_percentage_24h: 1.5,
+    volume_24h: volume24h,
+    market_cap: marketCap,
+    last_updated: new Date(START + minutes * MINUTE).toISOString()
+  }
+}
+
+// Feeds each quote through a polling cycle and returns the ids of the alerts triggered by the last one
+async function poll(service: EnhancedPriceAlertsService, quotes: CryptoPrice[]) {
+  let triggered: string[] = []
+  for (const price of quotes) {
+    getCryptoPrices.mockResolvedValueOnce([price])
+    const result = await service.checkAndTriggerAlerts()
+    triggered = result.items.map(item => item.alertId)
+  }
+  return triggered
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe('EnhancedPriceAlertsService condition evaluation', () => {
+  test('price and market cap change alerts compare against the sample one timeframe back', async () => {
+    findAlerts.mockResolvedValue([
+      alertRow('rise', 'price_change', 'GT', 5, '1h'),
+      alertRow('drop', 'price_change', 'LT', -5, '1h'),
+      alertRow('cap', 'market_cap_change', 'GT', 8, '1h')
+    ])
+    const service = new EnhancedPriceAlertsService(new MarketWindow())
+
+    // Not enough history yet: nothing fires
+    expect(await poll(service, [quote(0, 100)])).toEqual([])
+    expect(await poll(service, [quote(30, 104)])).toEqual([])
+
+    getCryptoPrices.mockResolvedValueOnce([quote(60, 106, 1_000_000, 110_000)])
+    const result = await service.checkAndTriggerAlerts()
+    expect(result.items.map(item => item.alertId)).toEqual(['rise', 'cap'])
+    expect(result.items[0]).toMatchObject({
+      currentPrice: 106,
+      previousPrice: 100,
+      changeAmount: 6,
+      volume24h: 1_000_000,
+      marketCap: 110_000,
+      conditionMet: 'BTC 1h change 6% GT 5%'
+    })
+    expect(result.items[0].changePercentage).toBeCloseTo(6)
+    expect(result.items[1].conditionMet).toBe('BTC 1h market cap change 10% GT 8%')
+
+    expect(await poll(service, [quote(100, 98)])).toEqual(['drop'])
+  })
+
+  test('volume spikes are measured against the trailing average within the timeframe', async () => {
+    findAlerts.mockResolvedValue([alertRow('spike', 'volume_spike', 'GT', 150, '1h')])
+    const service = new EnhancedPriceAlertsService(new MarketWindow())
+
+    expect(await poll(service, [quote(0, 100, 1_000_000), quote(20, 100, 1_100_000), quote(40, 100, 1_200_000)])).toEqual([])
+    // 2M against the 1.1M average of the previous hour
+    getCryptoPrices.mockResolvedValueOnce([quote(60, 100, 2_000_000)])
+    const { items } = await service.checkAndTriggerAlerts()
+    expect(items).toHaveLength(1)
+    expect(items[0]).toMatchObject({ volume24h: 2_000_000, conditionMet: 'BTC 24h volume vs 1h average 181.82% GT 150%' })
+  })
+
+  test('volatility alerts fire on realized volatility and report the price bands', async () => {
+    findAlerts.mockResolvedValue([alertRow('volatile', 'volatility', 'GT', 5)])
+    const service = new EnhancedPriceAlertsService(new MarketWindow())
+
+    // Calm market: under 1% realized volatility over the default 1h timeframe
+    expect(await poll(service, [quote(0, 100), quote(15, 100.2), quote(30, 99.9), quote(45, 100.1)])).toEqual([])
+
+    getCryptoPrices.mockResolvedValueOnce([quote(60, 110)])
+    const { items } = await service.checkAndTriggerAlerts()
+    expect(items).toHaveLength(1)
+    expect(items[0].conditionMet).toMatch(/^BTC 1h realized volatility \d+\.?\d*% GT 5% \(bands [\d.]+–[\d.]+\)$/)
+    // Without a full day in the window, the feed's 24h change is not used for a 1h timeframe
+    expect(items[0]).toMatchObject({ previousPrice: 100, changeAmount: 10 })
+  })
+
+  test('the window picks up recorded history, so a restarted worker measures changes straight away', async () => {
+    findAlerts.mockResolvedValue([alertRow('rise', 'price_change', 'GT', 5, '1h')])
+    const load = jest.fn(async () => [{ timestamp: START, price: 100, volume24h: 1_000_000, marketCap: 100_000 }])
+    const service = new EnhancedPriceAlertsService(new MarketWindow(load))
+
+    expect(await poll(service, [quote(60, 106)])).toEqual(['rise'])
+    expect(load).toHaveBeenCalledWith('BTC', expect.any(Number))
+
+    // Later runs only read what was recorded after the latest sample held
+    await poll(service, [quote(61, 106)])
+    expect(load).toHaveBeenLastCalledWith('BTC', START + 60 * MINUTE)
+  })
+
+  test('ratio series start from the recorded history of both assets', async () => {
+    const window = new MarketWindow(async (symbol: string) => symbol === 'ETH'
+      ? [{ timestamp: START, price: 3000, volume24h: 0, marketCap: 0 }, { timestamp: START + 30 * MINUTE, price: 3300, volume24h: 0, marketCap: 0 }]
+      : [{ timestamp: START + 10 * MINUTE, price: 60000, volume24h: 0, marketCap: 0 }])
+    await window.sync(['ETH', 'BTC'], START + 60 * MINUTE)
+
+    // The first ETH sample predates every BTC sample, so the series starts at 30 minutes
+    window.seedRatio('ETH/BTC', 'ETH', 'BTC')
+    window.record('ETH/BTC', { timestamp: START + 90 * MINUTE, price: 0.06, volume24h: 0, marketCap: 0 })
+    expect(window.change('ETH/BTC', 'price', 60 * MINUTE)).toMatchObject({ previous: 0.055, current: 0.06 })
+  })
+
+  test('threshold alerts carry the 24h change from the feed until the window covers a day', async () => {
+    findAlerts.mockResolvedValue([alertRow('above', 'price_threshold', 'GT', 100)])
+    const service = new EnhancedPriceAlertsService(new MarketWindow())
+
+    getCryptoPrices.mockResolvedValueOnce([quote(0, 101.5)])
+    const { items } = await service.checkAndTriggerAlerts()
+    expect(items[0]).toMatchObject({ conditionMet: 'BTC GT 100', changePercentage: 1.5, volume24h: 1_000_000 })
+    expect(items[0].previousPrice).toBeCloseTo(100)
+  })
+})
+
+describe('composite alerts', () => {
+  const btcDipWithEthStrength = parseAlertExpression({
+    kind: 'group',
+    logic: 'AND',
+    children: [
+      { kind: 'condition', subject: { kind: 'asset', symbol: 'btc' }, type: 'price_threshold', operator: 'LT', value: 60000 },
+      { kind: 'condition', subject: { kind: 'ratio', base: 'eth', quote: 'btc' }, type: 'price_threshold', operator: 'GT', value: 0.06 }
+    ]
+  })
+
+  test('AND requires every condition, including cross-asset ratios', async () => {
+    findAlerts.mockResolvedValue([compositeRow('and', btcDipWithEthStrength)])
+    const service = new EnhancedPriceAlertsService(new MarketWindow())
+
+    // BTC is under 60k but ETH/BTC is only 0.05
+    getCryptoPrices.mockResolvedValueOnce([quote(0, 59000), quote(0, 2950, 1, 1, 'ETH')])
+    expect((await service.checkAndTriggerAlerts()).items).toEqual([])
+    expect(getCryptoPrices).toHaveBeenLastCalledWith(['BTC', 'ETH'])
+
+    getCryptoPrices.mockResolvedValueOnce([quote(1, 59000), quote(1, 3600, 1, 1, 'ETH')])
+    const { items } = await service.checkAndTriggerAlerts()
+    expect(items).toHaveLength(1)
+    expect(items[0]).toMatchObject({
+      alertId: 'and',
+      currentPrice: 59000,
+      volume24h: 1_000_000,
+      conditionMet: 'BTC price < 60000 (59000); ETH/BTC ratio > 0.06 (0.06)'
+    })
+  })
+
+  test('OR fires on portfolio drawdown or a DeFi health factor, whichever can be measured', async () => {
+    const expression = parseAlertExpression({
+      kind: 'group',
+      logic: 'OR',
+      children: [
+        { kind: 'condition', subject: { kind: 'portfolio' }, type: 'price_change', operator: 'LT', value: -5, timeframe: '1d' },
+        { kind: 'condition', subject: { kind: 'defi_health' }, type: 'price_threshold', operator: 'LT', value: 1.3 }
+      ]
+    })
+    findAlerts.mockResolvedValue([compositeRow('or', expression)])
+    getCryptoPrices.mockClear()
+    const service = new EnhancedPriceAlertsService(new MarketWindow())
+
+    const day = 24 * 60 * MINUTE
+    getSnapshots.mockImplementation(async (_address: string, range: { to?: number }) =>
+      range.to === undefined ? [{ timestamp: START + day, totalValue: 9600 }] : [{ timestamp: START, totalValue: 10000 }])
+    getRecentPositions.mockResolvedValue([{ metrics: { healthFactor: 1.8 } }, { metrics: {} }])
+
+    // Down 4% with healthy positions: no price feed call is needed at all
+    expect((await service.checkAndTriggerAlerts()).items).toEqual([])
+    expect(getCryptoPrices).not.toHaveBeenCalled()
+    expect(getSnapshots).toHaveBeenCalledWith('0xabc', { to: START, limit: 1 })
+
+    getRecentPositions.mockResolvedValue([{ metrics: { healthFactor: 1.8 } }, { metrics: { healthFactor: 1.25 } }])
+    const { items } = await service.checkAndTriggerAlerts()
+    expect(getRecentPositions).toHaveBeenLastCalledWith('0xabc', 5 * MINUTE)
+    expect(items).toHaveLength(1)
+    expect(items[0]).toMatchObject({ currentPrice: 0, conditionMet: 'DeFi health factor < 1.3 (1.25)' })
+  })
+
+  test('rejects malformed trees with every problem listed', () => {
+    expect(() => parseAlertExpression({
+      kind: 'group',
+      logic: 'XOR',
+      children: [
+        { kind: 'condition', subject: { kind: 'ratio', base: 'ETH', quote: 'eth' }, type: 'price_threshold', operator: 'GT', value: 1 },
+        { kind: 'condition', subject: { kind: 'defi_health' }, type: 'volume_spike', operator: 'GT', value: '2' }
+      ]
+    })).toThrow(AlertExpressionError)
+
+    const errors = (() => {
+      try {
+        parseAlertExpression({ kind: 'group', logic: 'XOR', children: [{ kind: 'condition', subject: { kind: 'portfolio' }, type: 'volatility', operator: 'GT', value: 1 }] })
+        return []
+      } catch (error) {
+        return (error as AlertExpressionError).errors
+      }
+    })()
+    expect(errors).toEqual([
+      'expression.logic must be AND or OR',
+      'expression needs at least two conditions',
+      'expression.children[0].type must be one of price_threshold, price_change for portfolio'
+    ])
+  })
+
+  test('stops reading input past the depth and condition limits', () => {
+    const condition = { kind: 'condition', subject: { kind: 'portfolio' }, type: 'price_change', operator: 'GT', value: 1 }
+    let deep: object = condition
+    for (let i = 0; i < 100000; i++) deep = { kind: 'group', logic: 'AND', children: [deep, condition] }
+    expect(() => parseAlertExpression(deep)).toThrow(AlertExpressionError)
+
+    const wide = { kind: 'group', logic: 'OR', children: new Array(100000).fill({ kind: 'group', logic: 'AND', children: [condition, condition] }) }
+    expect(() => parseAlertExpression(wide)).toThrow('expression has more than 10 conditions')
+  })
+})
+
+describe('parseTimeframe', () => {
+  test('parses minute, hour, day and week timeframes and rejects the rest', () => {
+    expect(parseTimeframe('15m')).toBe(15 * MINUTE)
+    expect(parseTimeframe('24h')).toBe(24 * 60 * MINUTE)
+    expect(parseTimeframe('7d')).toBe(7 * 24 * 60 * MINUTE)
+    expect(() => parseTimeframe('0h')).toThrow('Invalid timeframe: 0h')
+    expect(() => parseTimeframe('hourly')).toThrow('Invalid timeframe: hourly')
+  })
+})
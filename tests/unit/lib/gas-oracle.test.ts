@@ -0,0 +1,118 @@
+import { ethers } from 'ethers'
+import { GasOracle } from '@/lib/dex/gas-oracle'
+import type { UnsignedTransaction } from '@/lib/dex/index'
+
+const gwei = (amount: string) => ethers.parseUnits(amount, 'gwei')
+const quantity = (amount: string) => ethers.toQuantity(gwei(amount))
+
+const tx: UnsignedTransaction = {
+  to: '0x2222222222222222222222222222222222222222',
+  data: '0x',
+  value: '0',
+  chainId: 1,
+  from: '0x1111111111111111111111111111111111111111',
+  gasLimit: '100000'
+}
+
+const legacyBlock = (number: number) => ({
+  number: ethers.toQuantity(number),
+  hash: ethers.id(`block ${number}`),
+  parentHash: ethers.id(`block ${number - 1}`),
+  timestamp: '0x68e77800',
+  nonce: '0x0000000000000000',
+  difficulty: '0x2',
+  gasLimit: '0x8f0d180',
+  gasUsed: '0x0',
+  miner: ethers.ZeroAddress,
+  extraData: '0x',
+  transactions: []
+})
+
+// JSON-RPC provider answering eth_blockNumber from `block` and eth_feeHistory from `feeHistory`
+function node(feeHistory: (params: unknown[]) => unknown) {
+  const state = { block: 100 }
+  const provider = new ethers.JsonRpcProvider('http://node.invalid', 1, { staticNetwork: true, batchMaxCount: 1, cacheTimeout: -1 })
+  const send = jest.spyOn(provider, '_send').mockImplementation(async (payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]) => [payload].flat().map(request => {
+    if (request.method === 'eth_blockNumber') return { id: request.id, result: ethers.toQuantity(state.block) }
+    if (request.method === 'eth_gasPrice') return { id: request.id, result: quantity('5') }
+    if (request.method === 'eth_maxPriorityFeePerGas') return { id: request.id, error: { code: -32601, message: 'not supported' } }
+    if (request.method === 'eth_getBlockByNumber') return { id: request.id, result: legacyBlock(state.block) }
+    if (request.method === 'eth_feeHistory') {
+      const result = feeHistory(request.params as unknown[])
+      return result instanceof Error
+        ? { id: request.id, error: { code: -32601, message: result.message } }
+        : { id: request.id, result }
+    }
+    throw new Error(`Unexpected ${request.method}`)
+  }))
+  const feeHistoryCalls = () => send.mock.calls
+    .flatMap(([payload]: [ethers.JsonRpcPayload | ethers.JsonRpcPayload[]]) => [payload].flat())
+    .filter((request: ethers.JsonRpcPayload) => request.method === 'eth_feeHistory')
+  return { state, provider, feeHistoryCalls }
+}
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe('GasOracle', () => {
+  test('prices each tier from the reward percentiles of non-empty blocks, once per block', async () => {
+    const { state, provider, feeHistoryCalls } = node(() => ({
+      oldestBlock: ethers.toQuantity(96),
+      baseFeePerGas: [quantity('9'), quantity('10'), quantity('11'), quantity('10'), quantity('12'), quantity('16')],
+      gasUsedRatio: [0.5, 0.9, 0, 0.4, 1],
+      reward: [
+        [quantity('1'), quantity('2'), quantity('4')],
+        [quantity('1'), quantity('3'), quantity('8')],
+        ['0x0', '0x0', '0x0'], // Empty block
+        [quantity('0.5'), quantity('1.5'), quantity('3')],
+        [quantity('2'), quantity('2.5'), quantity('10')]
+      ]
+    }))
+    const oracle = new GasOracle(() => provider)
+
+    const suggestion = await oracle.getSuggestion(1)
+    expect(feeHistoryCalls()[0].params).toEqual(['0xa', ethers.toQuantity(100), [10, 50, 90]])
+    // Medians over the four non-empty blocks, on top of the next block's 16 gwei base fee
+    expect(suggestion).toMatchObject({
+      blockNumber: 100,
+      eip1559: true,
+      baseFeePerGas: gwei('16').toString(),
+      sampledBlocks: 5,
+      tiers: {
+        slow: { maxPriorityFeePerGas: gwei('1').toString(), maxFeePerGas: gwei('19.4').toString(), expectedFeePerGas: gwei('17').toString() },
+        standard: { maxPriorityFeePerGas: gwei('2.25').toString(), maxFeePerGas: gwei('22.25').toString(), expectedFeePerGas: gwei('18.25').toString() },
+        fast: { maxPriorityFeePerGas: gwei('6').toString(), maxFeePerGas: gwei('38').toString(), expectedFeePerGas: gwei('22').toString() }
+      }
+    })
+
+    expect(await oracle.withFees(tx, 'fast')).toEqual({ ...tx, maxFeePerGas: gwei('38').toString(), maxPriorityFeePerGas: gwei('6').toString() })
+    expect(await oracle.estimateCost(1, tx.gasLimit, 'slow')).toBe('0.0017')
+    expect(feeHistoryCalls()).toHaveLength(1)
+
+    state.block = 101
+    await oracle.getSuggestion(1)
+    expect(feeHistoryCalls()).toHaveLength(2)
+  })
+
+  test('falls back to the legacy gas price when the node has no fee history', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    const { provider } = node(() => new Error('the method eth_feeHistory does not exist'))
+    const oracle = new GasOracle(chainId => (chainId === 1 ? provider : undefined))
+
+    expect(await oracle.getSuggestion(1)).toMatchObject({
+      eip1559: false,
+      baseFeePerGas: null,
+      tiers: {
+        slow: { maxFeePerGas: gwei('4.5').toString() },
+        standard: { maxFeePerGas: gwei('5').toString(), maxPriorityFeePerGas: gwei('5').toString() },
+        fast: { maxFeePerGas: gwei('6').toString() }
+      }
+    })
+    expect(await oracle.withFees(tx)).toEqual({ ...tx, gasPrice: gwei('5').toString() })
+
+    // Without a provider the transaction is left for the wallet to price
+    expect(await oracle.withFees({ ...tx, chainId: 56 })).toEqual({ ...tx, chainId: 56 })
+    await expect(oracle.getSuggestion(56)).rejects.toMatchObject({ code: 'UNSUPPORTED_CHAIN' })
+  })
+})
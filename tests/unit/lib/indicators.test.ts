@@ -0,0 +1,111 @@
+import { AdvancedTradingEngine, OrderSide } from '@/lib/advanced-trading'
+import { Candle } from '@/lib/candles'
+import {
+  ATR,
+  OBV,
+  RSI,
+  VWAP,
+  bollingerBands,
+  computeIndicators,
+  ema,
+  evaluateIndicators,
+  macd,
+  rsi,
+  sma,
+  stochastic
+} from '@/lib/indicators'
+import { ReplayPriceFeed } from '@/lib/price-feed'
+
+function candle(timestamp: number, high: number, low: number, close: number, volume = 10): Candle {
+  return { timestamp, open: close, high, low, close, volume }
+}
+
+describe('Indicators', () => {
+  test('SMA and EMA line up with their input and warm up with nulls', () => {
+    const values = [1, 2, 3, 4, 5, 6]
+    expect(sma(values, 3)).toEqual([null, null, 2, 3, 4, 5])
+    // Seeded with SMA(1, 2, 3) = 2, then halfway towards each new value
+    expect(ema(values, 3)).toEqual([null, null, 2, 3, 4, 5])
+  })
+
+  test('RSI uses Wilder smoothing', () => {
+    expect(rsi([1, 2, 1, 2], 2)).toEqual([null, null, 50, 75])
+    expect(rsi([1, 2, 3, 4], 2)[3]).toBe(100)
+  })
+
+  test('incremental updates match the batch helpers', () => {
+    const closes = Array.from({ length: 60 }, (_, i) => 100 + Math.sin(i / 3) * 5 + i * 0.2)
+    const incremental = new RSI(14)
+    const streamed = closes.map(close => incremental.update(close))
+    expect(streamed).toEqual(rsi(closes, 14))
+
+    const lastMacd = macd(closes)[closes.length - 1]!
+    expect(lastMacd.histogram).toBeCloseTo(lastMacd.macd - lastMacd.signal, 12)
+  })
+
+  test('flat prices give empty MACD and collapsed Bollinger Bands', () => {
+    const flat = Array(40).fill(100)
+    expect(macd(flat)[39]).toEqual({ macd: 0, signal: 0, histogram: 0 })
+    expect(bollingerBands(flat)[39]).toEqual({ upper: 100, middle: 100, lower: 100, percentB: 0.5, bandwidth: 0 })
+  })
+
+  test('ATR, VWAP, Stochastic and OBV work from candles', () => {
+    const candles = [
+      candle(0, 12, 8, 10, 100),
+      candle(1, 16, 11, 15, 200),
+      candle(2, 15, 9, 9, 100)
+    ]
+
+    // True ranges 4, 6 (gap from the 10 close), 6; seeded with their mean then Wilder-smoothed
+    const atr = new ATR(2)
+    expect(candles.map(c => atr.update(c))).toEqual([null, 5, 5.5])
+
+    const vwap = new VWAP()
+    candles.forEach(c => vwap.update(c))
+    expect(vwap.value).toBeCloseTo((10 * 100 + 14 * 200 + 11 * 100) / 400, 12)
+
+    expect(stochastic(candles, 3, 1)[2]).toEqual({ k: 12.5, d: 12.5 })
+
+    const obv = new OBV()
+    expect(candles.map(c => obv.update(c))).toEqual([0, 200, 100])
+  })
+
+  test('readings cite the values and thresholds behind them', () => {
+    const closes = Array.from({ length: 40 }, (_, i) => 200 - i * 2)
+    const snapshot = computeIndicators(closes.map((close, i) => candle(i * 60000, close + 1, close - 1, close)))!
+    const readings = evaluateIndicators(snapshot)
+
+    const rsiReading = readings.find(reading => reading.name === 'RSI (14)')!
+    expect(rsiReading).toMatchObject({ signal: 'bullish', threshold: 30, value: snapshot.rsi14 })
+    expect(rsiReading.condition).toBe(`RSI ${snapshot.rsi14!.toPrecision(4)} < 30 (oversold)`)
+    expect(readings.reduce((sum, reading) => sum + reading.weight, 0)).toBeCloseTo(1, 12)
+  })
+})
+
+describe('AdvancedTradingEngine.generateTradingSignals', () => {
+  test('returns nothing until there is enough history', async () => {
+    const feed = new ReplayPriceFeed([{ symbol: 'ETH/USDT', price: 2000, volume: 1, timestamp: 0 }])
+    feed.replay()
+    const engine = new AdvancedTradingEngine({ priceFeed: feed, persistence: false })
+
+    expect(await engine.generateTradingSignals('ETH/USDT')).toEqual([])
+  })
+
+  test('builds a signal from real indicator readings', async () => {
+    // One tick per minute, rising steadily for 50 minutes
+    const ticks = Array.from({ length: 50 }, (_, i) => ({
+      symbol: 'ETH/USDT', price: 2000 + i * 10, volume: 1, timestamp: i * 60000
+    }))
+    const feed = new ReplayPriceFeed(ticks)
+    feed.replay()
+    const engine = new AdvancedTradingEngine({ priceFeed: feed, persistence: false })
+
+    const [signal] = await engine.generateTradingSignals('ETH/USDT')
+    expect(signal.side).toBe(OrderSide.BUY)
+    expect(signal.price).toBe('2490')
+    expect(signal.indicators.map(indicator => indicator.name)).toContain('MACD (12, 26, 9)')
+    signal.indicators.forEach(indicator => expect(indicator.condition).toEqual(expect.any(String)))
+    expect(parseFloat(signal.stopLoss!)).toBeLessThan(2490)
+    expect(parseFloat(signal.takeProfit!)).toBeGreaterThan(2490)
+  })
+})
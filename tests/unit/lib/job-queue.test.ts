@@ -0,0 +1,181 @@
+/**
+ * @jest-environment node
+ */
+
+import { prisma } from '@/lib/db'
+import { JobQueue } from '@/lib/job-queue'
+import { CronError, cronForInterval, nextCronTime } from '@/lib/cron'
+
+jest.mock('@/lib/db', () => ({
+  // Column defaults from the schema
+  prisma: jest.requireActual('../../helpers/prisma-fake').createPrismaFake({
+    jobSchedule: { enabled: true, payload: null, lastEnqueuedAt: null },
+    jobRun: { scheduleId: null, payload: null, attempts: 0, lockedBy: null, lockedUntil: null, error: null },
+    deadLetterJob: {}
+  })
+}))
+
+const at = (time: string) => new Date(`2024-01-01T${time}Z`)
+
+beforeEach(() => {
+  prisma.reset()
+  jest.spyOn(console, 'log').mockImplementation(() => {})
+  jest.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe('JobQueue', () => {
+  // Handlers finish instantly, so run times line up with the cycle's clock
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(0)
+  })
+
+  test('a scheduled tick runs once even when several workers poll at the same time', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined)
+    // Two worker processes with the same jobs registered
+    const [first, second] = [new JobQueue(), new JobQueue()]
+    for (const queue of [first, second]) {
+      queue.register({ name: 'report', schedule: '*/5 * * * *', handler })
+      await queue.syncSchedules(at('00:02:00'))
+    }
+
+    expect(await first.runDue('worker-1', at('00:04:00'))).toEqual({ enqueued: 0, recovered: 0, succeeded: 0, failed: 0 })
+
+    const results = await Promise.all([first.runDue('worker-1', at('00:05:30')), second.runDue('worker-2', at('00:05:30'))])
+    expect(results.reduce((sum, result) => sum + result.enqueued, 0)).toBe(1)
+    expect(results.reduce((sum, result) => sum + result.succeeded, 0)).toBe(1)
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(handler.mock.calls[0][1]).toMatchObject({ attempt: 1, scheduledFor: at('00:05:00') })
+
+    const [run] = await first.listRuns()
+    expect(run).toMatchObject({ name: 'report', status: 'succeeded', attempts: 1, lockedBy: null, error: null })
+    const [schedule] = await first.listSchedules()
+    expect(schedule.nextRunAt).toEqual(at('00:10:00'))
+  })
+
+  test('failed runs retry with exponential backoff and are dead-lettered after the last attempt', async () => {
+    const queue = new JobQueue()
+    const handler = jest.fn().mockRejectedValue(new Error('RPC unavailable'))
+    queue.register({ name: 'flaky', handler, maxAttempts: 3, backoffMs: 1000 })
+
+    const { id } = await queue.enqueue('flaky', { wallet: '0xabc' }, at('00:00:00'))
+    expect(await queue.runDue('worker-1', at('00:00:00'))).toMatchObject({ failed: 1 })
+    expect((await queue.listRuns())[0]).toMatchObject({ status: 'queued', attempts: 1, runAt: at('00:00:01'), error: 'RPC unavailable' })
+
+    // Not due again until the backoff has passed
+    expect(await queue.runDue('worker-1', at('00:00:00.500'))).toMatchObject({ failed: 0 })
+    expect(await queue.runDue('worker-1', at('00:00:01'))).toMatchObject({ failed: 1 })
+    expect((await queue.listRuns())[0]).toMatchObject({ status: 'queued', attempts: 2, runAt: at('00:00:03') })
+
+    expect(await queue.runDue('worker-1', at('00:00:03'))).toMatchObject({ failed: 1 })
+    expect(handler).toHaveBeenCalledTimes(3)
+    expect((await queue.listRuns({ status: 'dead' }))[0]).toMatchObject({ id, attempts: 3 })
+    expect(await queue.listDeadLetters()).toEqual([expect.objectContaining({
+      jobRunId: id,
+      name: 'flaky',
+      payload: { wallet: '0xabc' },
+      attempts: 3,
+      error: 'RPC unavailable'
+    })])
+
+    // Dead runs are never picked up again
+    expect(await queue.runDue('worker-1', at('01:00:00'))).toMatchObject({ failed: 0, succeeded: 0 })
+  })
+
+  test('runs whose worker lost the lease are retried elsewhere and the late result is ignored', async () => {
+    const queue = new JobQueue()
+    const handler = jest.fn().mockResolvedValue(undefined)
+    queue.register({ name: 'snapshot', handler, leaseMs: 60 * 1000, backoffMs: 1000 })
+    await queue.enqueue('snapshot', undefined, at('00:00:00'))
+
+    // worker-1 claims the run and then stalls
+    const stalled = await queue.claim('worker-1', at('00:00:00'))
+    expect(await queue.runDue('worker-2', at('00:00:30'))).toMatchObject({ recovered: 0, succeeded: 0 })
+
+    expect(await queue.runDue('worker-2', at('00:01:01'))).toMatchObject({ recovered: 1 })
+    expect((await queue.listRuns())[0]).toMatchObject({ status: 'queued', error: 'Lease held by worker-1 expired' })
+
+    // worker-1 wakes up: its completion no longer matches the lease and changes nothing
+    expect(await queue.execute(stalled!)).toBe(true)
+    expect((await queue.listRuns())[0]).toMatchObject({ status: 'queued', attempts: 1 })
+
+    expect(await queue.runDue('worker-2', at('00:01:02'))).toMatchObject({ succeeded: 1 })
+    expect((await queue.listRuns())[0]).toMatchObject({ status: 'succeeded', attempts: 2 })
+  })
+
+  test('each run is leased only when the one before it has finished', async () => {
+    const queue = new JobQueue()
+    const seen: string[][] = []
+    queue.register({
+      name: 'batch',
+      handler: async () => {
+        seen.push((await queue.listRuns()).map(run => run.status).sort())
+      }
+    })
+    await queue.enqueue('batch', undefined, at('00:00:00'))
+    await queue.enqueue('batch', undefined, at('00:00:00'))
+
+    expect(await queue.runDue('worker-1', at('00:00:00'))).toMatchObject({ succeeded: 2 })
+    expect(seen).toEqual([['queued', 'running'], ['running', 'succeeded']])
+  })
+
+  test('a run that outlasts its lease is aborted and retried', async () => {
+    const queue = new JobQueue()
+    let signal: AbortSignal | undefined
+    queue.register({
+      name: 'slow',
+      leaseMs: 20,
+      backoffMs: 1000,
+      handler: (_, context) => new Promise(() => {
+        signal = context.signal
+      })
+    })
+    await queue.enqueue('slow', undefined, at('00:00:00'))
+
+    expect(await queue.runDue('worker-1', at('00:00:00'))).toMatchObject({ failed: 1 })
+    expect(signal?.aborted).toBe(true)
+    expect((await queue.listRuns())[0]).toMatchObject({ status: 'queued', attempts: 1, error: 'Timed out after 20ms' })
+  })
+
+  test('runtime schedules carry their payload and only run on workers that registered the job', async () => {
+    const queue = new JobQueue()
+    const handler = jest.fn().mockResolvedValue(undefined)
+    await queue.schedule('monitor', { key: '0xabc', cron: '* * * * *', payload: { walletAddress: '0xabc' } }, at('00:00:00'))
+
+    // Enqueued, but this worker does not know the job yet
+    expect(await queue.runDue('worker-1', at('00:01:00'))).toMatchObject({ enqueued: 1, succeeded: 0 })
+
+    queue.register({ name: 'monitor', handler })
+    expect(await queue.runDue('worker-1', at('00:01:10'))).toMatchObject({ enqueued: 0, succeeded: 1 })
+    expect(handler).toHaveBeenCalledWith({ walletAddress: '0xabc' }, expect.objectContaining({ attempt: 1 }))
+
+    await queue.unschedule('monitor', '0xabc')
+    expect(await queue.runDue('worker-1', at('00:05:00'))).toMatchObject({ enqueued: 0 })
+  })
+})
+
+describe('nextCronTime', () => {
+  test('finds the next matching minute in UTC', () => {
+    expect(nextCronTime('*/15 * * * *', at('10:07:30'))).toEqual(at('10:15:00'))
+    expect(nextCronTime('*/15 * * * *', at('10:15:00'))).toEqual(at('10:30:00'))
+    // Weekdays at 09:00: Friday 5 January after hours rolls over to Monday
+    expect(nextCronTime('0 9 * * 1-5', new Date('2024-01-05T10:00:00Z'))).toEqual(new Date('2024-01-08T09:00:00Z'))
+    // With both day fields restricted either one matches: the 1st or 15th, or any Friday
+    expect(nextCronTime('0 0 1,15 * 5', new Date('2024-01-02T00:00:00Z'))).toEqual(new Date('2024-01-05T00:00:00Z'))
+    expect(nextCronTime('0 0 29 2 *', new Date('2024-03-01T00:00:00Z'))).toEqual(new Date('2028-02-29T00:00:00Z'))
+    expect(nextCronTime('@daily', at('10:00:00'))).toEqual(new Date('2024-01-02T00:00:00Z'))
+  })
+
+  test('rejects malformed expressions and maps intervals to schedules', () => {
+    expect(() => nextCronTime('61 * * * *', new Date())).toThrow(CronError)
+    expect(() => nextCronTime('* * *', new Date())).toThrow('Cron expression needs 5 fields: * * *')
+    expect(() => nextCronTime('0 0 31 2 *', new Date())).toThrow('Cron expression never matches: 0 0 31 2 *')
+
+    expect(cronForInterval(60 * 1000)).toBe('* * * * *')
+    expect(cronForInterval(5 * 60 * 1000)).toBe('*/5 * * * *')
+    expect(cronForInterval(2 * 60 * 60 * 1000)).toBe('0 */2 * * *')
+  })
+})
@@ -0,0 +1,85 @@
+import { buildJournalEntry, projectHoldings, LedgerError } from '@/lib/ledger'
+import { dbService } from '@/lib/db-service'
+
+function sumByAsset(postings: { asset: string; amount: number }[]) {
+  const totals: { [asset: string]: number } = {}
+  postings.forEach(({ asset, amount }) => {
+    totals[asset] = (totals[asset] ?? 0) + amount
+  })
+  return totals
+}
+
+describe('ledger', () => {
+  test('journal entries balance per asset, fees included', () => {
+    const entry = buildJournalEntry({
+      id: 'tx1', userId: 'user', type: 'BUY', symbol: 'eth', amount: 2, price: 1500, fee: 7.5, createdAt: new Date(0)
+    })
+
+    expect(entry.postings).toEqual(expect.arrayContaining([
+      expect.objectContaining({ accountType: 'HOLDINGS', asset: 'ETH', amount: 2, usdValue: 3000 }),
+      expect.objectContaining({ accountType: 'CASH', asset: 'USD', amount: -3000 }),
+      expect.objectContaining({ accountType: 'FEES', asset: 'USD', amount: 7.5 })
+    ]))
+    expect(sumByAsset(entry.postings)).toEqual({ ETH: 0, USD: 0 })
+    expect(() => buildJournalEntry({
+      id: 'tx2', userId: 'user', type: 'SELL', symbol: 'ETH', amount: -1, price: 1500, fee: 0, createdAt: new Date(0)
+    })).toThrow(LedgerError)
+  })
+
+  test('projects holdings at average cost', () => {
+    const entry = (id: string, type: 'BUY' | 'SELL', amount: number, price: number, time: number) =>
+      buildJournalEntry({ id, userId: 'user', type, symbol: 'BTC', amount, price, fee: 0, createdAt: new Date(time) })
+
+    const holdings = projectHoldings([
+      entry('sell', 'SELL', 1, 40000, 3),
+      entry('buy1', 'BUY', 1, 20000, 1),
+      entry('buy2', 'BUY', 1, 30000, 2)
+    ])
+
+    expect(holdings.get('BTC')).toEqual({ symbol: 'BTC', amount: 1, averagePrice: 25000, totalValue: 25000 })
+  })
+
+  test('portfolio rows are reproduced from the ledger and drift is flagged', async () => {
+    const userId = 'ledger_test_user'
+    await dbService.createTransaction(userId, 'BUY', 'SOL', 10, 20, 1, 'Solana')
+    await dbService.addToPortfolio(userId, 'SOL', 'Solana', 5, 26)
+    await dbService.createTransaction(userId, 'SELL', 'SOL', 3, 30)
+    await expect(dbService.createTransaction(userId, 'WITHDRAWAL', 'SOL', 50, 30)).rejects.toThrow(LedgerError)
+
+    const [row] = await dbService.getPortfolio(userId)
+    const balances = projectHoldings(await dbService.getJournalEntries(userId))
+    expect(row).toMatchObject({ symbol: 'SOL', name: 'Solana', amount: 12, averagePrice: 22 })
+    expect(balances.get('SOL')).toMatchObject({ amount: row.amount, averagePrice: row.averagePrice })
+    expect(await dbService.reconcilePortfolio(userId)).toEqual([])
+
+    row.amount = 13
+    expect(await dbService.findPortfolioMismatches(userId)).toHaveLength(1)
+    expect(await dbService.getOpenMismatches(userId)).toHaveLength(0)
+    expect(await dbService.reconcilePortfolio(userId)).toEqual([
+      { userId, symbol: 'SOL', portfolioAmount: 13, ledgerAmount: 12 }
+    ])
+    expect(await dbService.getOpenMismatches(userId)).toHaveLength(1)
+  })
+
+  test('a failed journal write is reported instead of being kept in memory', async () => {
+    const transaction = jest.fn().mockRejectedValue(new Error('Connection refused'))
+    jest.doMock('@prisma/client', () => ({ PrismaClient: jest.fn(() => ({ $transaction: transaction })) }))
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    process.env.DATABASE_URL = 'postgresql://localhost:5432/nohvex'
+    try {
+      await jest.isolateModulesAsync(async () => {
+        const { dbService: connected } = await import('@/lib/db-service')
+        const { LedgerUnavailableError } = await import('@/lib/ledger')
+        await expect(connected.createTransaction('ledger_db_user', 'DEPOSIT', 'ETH', 1, 2000)).rejects.toThrow(LedgerUnavailableError)
+        // The next write still goes to the database rather than to memory
+        await expect(connected.createTransaction('ledger_db_user', 'DEPOSIT', 'ETH', 1, 2000)).rejects.toThrow(LedgerUnavailableError)
+        expect(transaction).toHaveBeenCalledTimes(2)
+      })
+    } finally {
+      delete process.env.DATABASE_URL
+      delete (globalThis as { prisma?: unknown }).prisma
+      jest.dontMock('@prisma/client')
+      jest.restoreAllMocks()
+    }
+  })
+})
@@ -0,0 +1,246 @@
+import {
+  AdvancedTradingEngine,
+  AlgorithmType,
+  DEFAULT_TRADING_PAIRS,
+  OrderSide,
+  OrderStatus,
+  OrderType,
+  TimeInForce
+} from '@/lib/advanced-trading'
+import { PaperTradingVenue, VenueEvent } from '@/lib/matching-engine'
+import { PriceTick, RecordedPriceFeed, ReplayPriceFeed } from '@/lib/price-feed'
+import { insertOrder, updateAlgorithm } from '@/lib/advanced-trading-store'
+
+// Only used by engines created with persistence on
+jest.mock('@/lib/advanced-trading-store', () => ({
+  insertOrder: jest.fn().mockResolvedValue(0),
+  updateOrder: jest.fn(async (_order: unknown, _state: unknown, version: number) => version + 1),
+  recordFill: jest.fn().mockResolvedValue(undefined),
+  insertAlgorithm: jest.fn().mockResolvedValue(0),
+  updateAlgorithm: jest.fn(async (_algorithm: unknown, _state: unknown, version: number) => version + 1)
+}))
+
+const ethUsdt = DEFAULT_TRADING_PAIRS[0]
+const START = 1_700_000_000_000
+
+function ticks(...prices: number[]): PriceTick[] {
+  return prices.map((price, i) => ({ symbol: 'ETH/USDT', price, volume: 5, timestamp: START + i * 1000 }))
+}
+
+describe('PaperTradingVenue', () => {
+  test('quotes synthetic depth around the feed price', () => {
+    const feed = new ReplayPriceFeed(ticks(2000))
+    const venue = new PaperTradingVenue(feed)
+    venue.registerPair(ethUsdt)
+    feed.step()
+
+    const book = venue.getOrderBook('ETH/USDT', 2)
+    expect(book.bids.map(([price]) => price)).toEqual(['1999', '1998'])
+    expect(book.asks.map(([price]) => price)).toEqual(['2001', '2002'])
+    expect(book.timestamp).toBe(START)
+  })
+
+  test('fills resting limit orders as maker when the market trades through them', () => {
+    const feed = new ReplayPriceFeed(ticks(2000, 1990))
+    const venue = new PaperTradingVenue(feed)
+    const events: VenueEvent[] = []
+    venue.subscribe(event => events.push(event))
+    venue.registerPair(ethUsdt)
+    feed.step()
+
+    const result = venue.submitOrder({
+      id: 'bid', pair: ethUsdt, side: OrderSide.BUY, quantity: 1, price: 1995.5, timeInForce: TimeInForce.GTC
+    })
+    expect(result.status).toBe(OrderStatus.OPEN)
+    expect(venue.getOrderBook('ETH/USDT', 1).bids).toEqual([['1999', expect.any(String)]])
+
+    feed.step()
+    expect(events).toEqual([{
+      type: 'fill',
+      fill: expect.objectContaining({ orderId: 'bid', price: 1995.5, quantity: 1, liquidity: 'maker', fee: 1995.5 * 0.001 })
+    }])
+    expect(venue.isResting('ETH/USDT', 'bid')).toBe(false)
+  })
+
+  test('gives resting orders time priority at the same price', () => {
+    const feed = new ReplayPriceFeed(ticks(2000))
+    const venue = new PaperTradingVenue(feed)
+    venue.registerPair(ethUsdt)
+    feed.step()
+
+    const events: VenueEvent[] = []
+    venue.subscribe(event => events.push(event))
+    const bid = { pair: ethUsdt, side: OrderSide.BUY, quantity: 1, price: 1999.5, timeInForce: TimeInForce.GTC }
+    venue.submitOrder({ ...bid, id: 'first' })
+    venue.submitOrder({ ...bid, id: 'second' })
+
+    const result = venue.submitOrder({
+      id: 'taker', pair: ethUsdt, side: OrderSide.SELL, quantity: 1.5, timeInForce: TimeInForce.IOC
+    })
+
+    expect(result.status).toBe(OrderStatus.FILLED)
+    expect(result.fills.map(fill => [fill.price, fill.quantity, fill.liquidity])).toEqual([
+      [1999.5, 1, 'taker'],
+      [1999.5, 0.5, 'taker']
+    ])
+    expect(events.map(event => event.type === 'fill' && [event.fill.orderId, event.fill.quantity])).toEqual([
+      ['first', 1],
+      ['second', 0.5]
+    ])
+  })
+
+  test('enforces IOC, FOK and GTD', () => {
+    const feed = new ReplayPriceFeed(ticks(2000, 2000))
+    const venue = new PaperTradingVenue(feed, { levels: 2 })
+    venue.registerPair(ethUsdt)
+    feed.step()
+
+    const order = { pair: ethUsdt, side: OrderSide.BUY, quantity: 100 }
+
+    const fok = venue.submitOrder({ ...order, id: 'fok', timeInForce: TimeInForce.FOK })
+    expect(fok).toMatchObject({ status: OrderStatus.EXPIRED, fills: [] })
+
+    const ioc = venue.submitOrder({ ...order, id: 'ioc', timeInForce: TimeInForce.IOC })
+    expect(ioc.status).toBe(OrderStatus.EXPIRED)
+    expect(ioc.fills).toHaveLength(2)
+    expect(ioc.restingQuantity).toBe(0)
+
+    const events: VenueEvent[] = []
+    venue.subscribe(event => events.push(event))
+    venue.submitOrder({
+      id: 'gtd', pair: ethUsdt, side: OrderSide.BUY, quantity: 1, price: 1900,
+      timeInForce: TimeInForce.GTD, expiresAt: START + 1000
+    })
+    feed.step()
+    expect(events).toEqual([{ type: 'expired', orderId: 'gtd', symbol: 'ETH/USDT', timestamp: START + 1000 }])
+  })
+})
+
+describe('AdvancedTradingEngine on the paper venue', () => {
+  function createEngine(prices: number[]) {
+    const feed = new ReplayPriceFeed(ticks(...prices))
+    feed.step()
+    return { feed, engine: new AdvancedTradingEngine({ priceFeed: feed, persistence: false }) }
+  }
+
+  const baseOrder = {
+    userId: 'user-1',
+    walletAddress: '0xabc',
+    pair: ethUsdt,
+    metadata: { source: 'manual' as const }
+  }
+
+  test('moves a limit order from open through partially filled to filled', async () => {
+    const { feed, engine } = createEngine([2000, 2012, 2030])
+
+    const { id } = await engine.createAdvancedOrder({
+      ...baseOrder, type: OrderType.LIMIT, side: OrderSide.SELL, quantity: '20', price: '2010'
+    })
+    await engine.whenIdle()
+    expect((await engine.getOrder(id))?.status).toBe(OrderStatus.OPEN)
+
+    // Only the best synthetic bid (2010.99) reaches the limit
+    feed.step()
+    await engine.whenIdle()
+    const partial = await engine.getOrder(id)
+    expect(partial?.status).toBe(OrderStatus.PARTIALLY_FILLED)
+    expect(parseFloat(partial!.filled)).toBeCloseTo(25000 / 2010.99, 9)
+
+    feed.step()
+    await engine.whenIdle()
+    const filled = await engine.getOrder(id)
+    expect(filled).toMatchObject({ status: OrderStatus.FILLED, remaining: '0', executedAt: START + 2000 })
+    expect(parseFloat(filled!.averagePrice!)).toBeCloseTo(2010, 9)
+    expect(parseFloat(filled!.fees)).toBeCloseTo(20 * 2010 * ethUsdt.fees.maker, 9)
+  })
+
+  test('fills market orders as taker against the book', async () => {
+    const { engine } = createEngine([2000])
+
+    const { id } = await engine.createAdvancedOrder({
+      ...baseOrder, type: OrderType.MARKET, side: OrderSide.BUY, quantity: '1', timeInForce: TimeInForce.IOC
+    })
+    await engine.whenIdle()
+
+    expect(await engine.getOrder(id)).toMatchObject({
+      status: OrderStatus.FILLED,
+      averagePrice: '2001',
+      fees: (2001 * ethUsdt.fees.taker).toString(),
+      executedAt: START
+    })
+  })
+
+  test('triggers stop orders on feed ticks', async () => {
+    const { feed, engine } = createEngine([2000, 1960, 1940])
+
+    const { id } = await engine.createAdvancedOrder({
+      ...baseOrder, type: OrderType.STOP, side: OrderSide.SELL, quantity: '1', stopPrice: '1950'
+    })
+    await engine.whenIdle()
+
+    feed.step()
+    await engine.whenIdle()
+    expect((await engine.getOrder(id))?.status).toBe(OrderStatus.OPEN)
+
+    feed.step()
+    await engine.whenIdle()
+    expect(await engine.getOrder(id)).toMatchObject({ status: OrderStatus.FILLED, type: OrderType.MARKET, averagePrice: '1939.03' })
+  })
+
+  test('returns reproducible market data and order book snapshots', async () => {
+    const snapshot = async () => {
+      const { feed, engine } = createEngine([2000, 2010, 1995])
+      await engine.createAdvancedOrder({
+        ...baseOrder, type: OrderType.LIMIT, side: OrderSide.BUY, quantity: '2', price: '1990'
+      })
+      await engine.whenIdle()
+      feed.replay()
+      await engine.whenIdle()
+      return engine.getMarketData('ETH/USDT')
+    }
+
+    const first = await snapshot()
+    expect(first).toEqual(await snapshot())
+    expect(first).toMatchObject({ price: '1995', high24h: '2010', low24h: '1995', bid: '1994', ask: '1996' })
+    expect(first.orderBook?.bids).toContainEqual(['1990', '2'])
+  })
+
+  test('follows recorded ticks each time the feed syncs', async () => {
+    const recorded = ticks(2000)
+    const load = jest.fn(async (_symbols: string[], since: number) => recorded.filter(tick => tick.timestamp > since))
+    const feed = new RecordedPriceFeed(load, ['ETH/USDT'], { lookbackMs: Date.now() - START + 60_000 })
+    const engine = new AdvancedTradingEngine({ priceFeed: feed, persistence: false })
+
+    // Placing the order reads the recorded price
+    const { id } = await engine.createAdvancedOrder({
+      ...baseOrder, type: OrderType.STOP, side: OrderSide.SELL, quantity: '1', stopPrice: '1950'
+    })
+    await engine.whenIdle()
+    expect((await engine.getOrder(id))?.status).toBe(OrderStatus.OPEN)
+
+    // Overlapping syncs share one read, which only asks for ticks after the last one published
+    recorded.push({ symbol: 'ETH/USDT', price: 1940, volume: 5, timestamp: START + 1000 })
+    await Promise.all([feed.sync(), feed.sync()])
+    await engine.whenIdle()
+    expect(load).toHaveBeenCalledTimes(2)
+    expect(load).toHaveBeenLastCalledWith(['ETH/USDT'], START)
+    expect(feed.getHistory('ETH/USDT').map(tick => tick.price)).toEqual([2000, 1940])
+    expect(await engine.getOrder(id)).toMatchObject({ status: OrderStatus.FILLED, averagePrice: '1939.03' })
+  })
+
+  test('stores each DCA installment before placing its order', async () => {
+    const feed = new ReplayPriceFeed(ticks(2000))
+    feed.step()
+    const engine = new AdvancedTradingEngine({ priceFeed: feed, persistence: true })
+
+    const algorithm = await engine.createTradingAlgorithm('user-1', '0xabc', AlgorithmType.DCA, { interval: 3600, amount: '1', maxOrders: 3 })
+    await new Promise(resolve => setTimeout(resolve, 10))
+    await engine.whenIdle()
+    await engine.stopAlgorithm(algorithm.id)
+
+    const counted = (updateAlgorithm as jest.Mock).mock.calls.findIndex(([, state]: [unknown, { orderCount?: number }]) => state.orderCount === 1)
+    expect(counted).toBeGreaterThanOrEqual(0)
+    expect((updateAlgorithm as jest.Mock).mock.invocationCallOrder[counted]).toBeLessThan((insertOrder as jest.Mock).mock.invocationCallOrder[0])
+    expect(insertOrder).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,148 @@
+import { ethers } from 'ethers'
+import { prisma } from '@/lib/db'
+import { detectSandwich, FlashbotsRelay, MEV_BUNDLE_BLOCKS, PrivateRelay } from '@/lib/dex/mev-protection'
+import { TradeTracker } from '@/lib/dex/trade-tracker'
+
+jest.mock('@/lib/db', () => ({
+  // Column defaults from the schema
+  prisma: jest.requireActual('../../helpers/prisma-fake').createPrismaFake({
+    trackedTrade: { verified: false }
+  })
+}))
+
+const WALLET = '0x1111111111111111111111111111111111111111'
+const ROUTER = '0xE592427A0AEce92De3Edee1F18E0157C05861564'
+const POOL = '0x2222222222222222222222222222222222222222'
+const OTHER_POOL = '0x5555555555555555555555555555555555555555'
+const BOT = '0x3333333333333333333333333333333333333333'
+const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'
+const DAI = '0x6B175474E89094C44Da98b954EedeAC495271d0F'
+const ONE_ETHER = ethers.parseUnits('1', 18)
+
+function transferLog(token: string, from: string, to: string) {
+  return {
+    address: token,
+    topics: [ethers.id('Transfer(address,address,uint256)'), ethers.zeroPadValue(from, 32), ethers.zeroPadValue(to, 32)],
+    data: ethers.toBeHex(ONE_ETHER, 32)
+  }
+}
+
+// Swap of WETH for DAI through the pool, as its receipt
+function swapReceipt(hash: string, index: number, from: string, pool: string) {
+  return {
+    hash,
+    index,
+    blockNumber: 100,
+    from,
+    to: ROUTER,
+    logs: [transferLog(WETH, from, pool), transferLog(DAI, pool, from)]
+  }
+}
+
+function mockProvider(receipts: ReturnType<typeof swapReceipt>[]) {
+  return {
+    getBlock: async () => ({ transactions: receipts.map(receipt => receipt.hash) }),
+    getTransactionReceipt: async (hash: string) => receipts.find(receipt => receipt.hash === hash) ?? null
+  }
+}
+
+describe('detectSandwich', () => {
+  test('flags a fill wrapped by the same sender trading the same pool, and nothing else', async () => {
+    const fill = swapReceipt('0xfill', 1, WALLET, POOL)
+    const sandwiched = mockProvider([swapReceipt('0xfront', 0, BOT, POOL), fill, swapReceipt('0xback', 2, BOT, POOL)])
+
+    expect(await detectSandwich(sandwiched as unknown as ethers.Provider, fill as unknown as ethers.TransactionReceipt, WALLET))
+      .toEqual({ sandwiched: true, frontrunHash: '0xfront', backrunHash: '0xback' })
+
+    const unrelated = mockProvider([swapReceipt('0xfront', 0, BOT, OTHER_POOL), fill, swapReceipt('0xback', 2, BOT, POOL)])
+    expect((await detectSandwich(unrelated as unknown as ethers.Provider, fill as unknown as ethers.TransactionReceipt, WALLET)).sandwiched).toBe(false)
+
+    const lastInBlock = mockProvider([swapReceipt('0xfront', 0, BOT, POOL), fill])
+    expect((await detectSandwich(lastInBlock as unknown as ethers.Provider, fill as unknown as ethers.TransactionReceipt, WALLET)).sandwiched).toBe(false)
+  })
+})
+
+describe('FlashbotsRelay', () => {
+  test('posts eth_sendBundle signed by the auth key', async () => {
+    const authKey = new ethers.Wallet(ethers.id('flashbots auth key'))
+    const fetchMock = jest.fn(async () => ({ ok: true, json: async () => ({ result: { bundleHash: '0xbundle' } }) }))
+    global.fetch = fetchMock as unknown as typeof fetch
+    const signed = '0x02f8'
+
+    const submission = await new FlashbotsRelay('https://relay.example', authKey.privateKey).sendBundle([signed], 101)
+
+    const [url, request] = fetchMock.mock.calls[0] as unknown as [string, { body: string; headers: { [name: string]: string } }]
+    expect(url).toBe('https://relay.example')
+    expect(JSON.parse(request.body)).toMatchObject({ method: 'eth_sendBundle', params: [{ txs: [signed], blockNumber: '0x65' }] })
+    const [address, signature] = request.headers['X-Flashbots-Signature'].split(':')
+    expect(address).toBe(authKey.address)
+    expect(ethers.verifyMessage(ethers.id(request.body), signature)).toBe(authKey.address)
+    expect(submission).toEqual({ bundleHash: '0xbundle', transactionHashes: [ethers.keccak256(signed)], targetBlocks: [101] })
+  })
+})
+
+describe('TradeTracker.trackPrivate', () => {
+  beforeEach(() => prisma.reset())
+
+  const wallet = new ethers.Wallet(ethers.id('trader key'))
+  const token = (address: string, symbol: string) => ({ address, symbol, name: symbol, decimals: 18, chainId: 1 })
+  const trade = { chainId: 1, walletAddress: wallet.address, tokenIn: token(WETH, 'WETH'), tokenOut: token(DAI, 'DAI'), amountIn: '1' }
+
+  test('relays the wallet-signed swap for the next blocks and fails it once the bundle expires', async () => {
+    let blockNumber = 100
+    const provider = { getBlockNumber: async () => blockNumber, getTransactionReceipt: async () => null }
+    const relay: PrivateRelay = {
+      name: 'Test',
+      sendBundle: jest.fn(async (txs: string[], targetBlock: number) => ({
+        bundleHash: null,
+        transactionHashes: txs.map(tx => ethers.keccak256(tx)),
+        targetBlocks: [targetBlock]
+      }))
+    }
+    const signed = await wallet.signTransaction({
+      to: ROUTER, data: '0x', chainId: 1, nonce: 0, gasLimit: 200000, maxFeePerGas: 1, maxPriorityFeePerGas: 1
+    })
+    const tracker = new TradeTracker(() => provider as unknown as ethers.Provider)
+
+    const tracked = await tracker.trackPrivate(trade, signed, relay)
+    expect(tracked).toMatchObject({ hash: ethers.keccak256(signed), executionMode: 'mev_protected', status: 'pending' })
+    expect(tracked.bundle?.targetBlocks).toEqual([101, 102, 103, 104, 105])
+    expect(relay.sendBundle).toHaveBeenCalledTimes(MEV_BUNDLE_BLOCKS)
+
+    // Another instance serving the status request sees the same trade
+    blockNumber = 106
+    const otherInstance = new TradeTracker(() => provider as unknown as ethers.Provider)
+    expect((await otherInstance.getStatus(tracked.hash))?.status).toBe('failed')
+    expect(prisma.rows('trackedTrade')).toEqual([expect.objectContaining({ hash: tracked.hash, status: 'failed', verified: true })])
+
+    await expect(tracker.trackPrivate({ ...trade, walletAddress: BOT }, signed, relay)).rejects.toMatchObject({ code: 'SENDER_MISMATCH' })
+  })
+})
+
+describe('TradeTracker.track', () => {
+  beforeEach(() => prisma.reset())
+
+  const token = (address: string, symbol: string) => ({ address, symbol, name: symbol, decimals: 18, chainId: 1 })
+  const trade = (hash: string) => ({ hash, chainId: 1, walletAddress: WALLET, tokenIn: token(WETH, 'WETH'), tokenOut: token(DAI, 'DAI'), amountIn: '1' })
+
+  test('checks the sender of a hash the node had not seen yet once it shows up, and expires it if it never does', async () => {
+    const senders: { [hash: string]: string } = {}
+    const provider = {
+      getTransaction: async (hash: string) => (senders[hash] ? { from: senders[hash] } : null),
+      getTransactionReceipt: async () => null
+    }
+    const tracker = new TradeTracker(() => provider as unknown as ethers.Provider)
+    const [stolen, lost] = [ethers.id('stolen'), ethers.id('lost')]
+
+    expect(await tracker.track(trade(stolen))).toMatchObject({ status: 'pending' })
+    senders[stolen] = BOT
+    await expect(tracker.getStatus(stolen)).rejects.toMatchObject({ code: 'SENDER_MISMATCH' })
+    expect(await tracker.getStatus(stolen)).toBeNull()
+    expect(prisma.rows('trackedTrade')).toHaveLength(0)
+
+    await tracker.track(trade(lost))
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 16 * 60 * 1000)
+    expect((await tracker.getStatus(lost))?.status).toBe('failed')
+    clock.mockRestore()
+  })
+})
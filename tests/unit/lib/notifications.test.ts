@@ -0,0 +1,351 @@
+/**
+ * @jest-environment node
+ */
+
+import { createHmac } from 'crypto'
+import { request, RequestOptions } from 'https'
+import type { LookupFunction } from 'net'
+import {
+  ChannelAdapter,
+  NotificationService,
+  NotificationSkipped,
+  notificationInbox,
+  nextDigestTime,
+  quietHoursEnd,
+  resolveNotificationPreferences,
+  signWebhook,
+  validateNotificationPreferences,
+  WebhookChannel
+} from '@/lib/notifications'
+import type { NotificationPreferences } from '@/types/user-preferences'
+import { prisma } from '@/lib/db'
+import type { Row } from '../../helpers/prisma-fake'
+
+// hooks.example.com is public; internal.example.com points back into a private network
+jest.mock('dns/promises', () => ({
+  lookup: jest.fn(async (hostname: string) => [{ address: hostname === 'internal.example.com' ? '10.0.0.5' : '93.184.215.14', family: 4 }])
+}))
+
+jest.mock('https', () => ({ ...jest.requireActual('https'), request: jest.fn() }))
+
+jest.mock('@/lib/db', () => ({
+  // Column defaults from the schema
+  prisma: jest.requireActual('../../helpers/prisma-fake').createPrismaFake({
+    user: { notificationPreferences: null, webhookSecret: null },
+    notificationDelivery: { data: null, urgent: false, status: 'pending', claimedFrom: null, attempts: 0, lastError: null, sentAt: null },
+    notification: { data: null, priority: 'normal', readAt: null, archivedAt: null },
+    pushSubscription: {}
+  })
+}))
+
+const at = (time: string) => new Date(`2024-01-01T${time}Z`) // A Monday
+
+function fakeChannel(channel: ChannelAdapter['channel'], digests = false) {
+  const adapter = {
+    channel,
+    send: jest.fn().mockResolvedValue(undefined),
+    sendDigest: digests ? jest.fn().mockResolvedValue(undefined) : undefined
+  }
+  return adapter
+}
+
+// Answers every webhook request with the status, recording what was sent
+function mockWebhookResponse(statusCode: number) {
+  const sent: { url: string; options: RequestOptions; body?: string }[] = []
+  ;(request as jest.Mock).mockImplementation((url: string, options: RequestOptions, onResponse: (response: object) => void) => {
+    const call: { url: string; options: RequestOptions; body?: string } = { url, options }
+    sent.push(call)
+    return {
+      on: jest.fn(),
+      end: (body: string) => {
+        call.body = body
+        onResponse({ statusCode, resume: () => {} })
+      }
+    }
+  })
+  return sent
+}
+
+async function createUser(preferences: Partial<NotificationPreferences>) {
+  const user = await prisma.user.create({
+    data: {
+      email: 'trader@example.com',
+      notificationPreferences: { ...preferences },
+      webhookSecret: 'whsec_test'
+    }
+  })
+  return user.id as string
+}
+
+beforeEach(() => {
+  prisma.reset()
+  jest.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe('NotificationService', () => {
+  test('routes each channel by preference: digests for email, quiet hours for push and SMS, webhooks at once', async () => {
+    const [email, push, sms, webhook] = [fakeChannel('email', true), fakeChannel('push'), fakeChannel('sms'), fakeChannel('webhook')]
+    const service = new NotificationService([email, push, sms, webhook])
+    const userId = await createUser({
+      push: true,
+      sms: true,
+      smsNumber: '+14155550123',
+      webhookUrl: 'https://hooks.example.com/nohvex',
+      timezone: 'America/New_York',
+      quietHours: { enabled: true, start: '22:00', end: '07:00' },
+      digest: 'daily'
+    })
+
+    // 23:30 in New York
+    const deliveries = await service.publish({ userId, category: 'price-alert', title: 'Price alert: BTC', body: 'BTC above 60000' }, at('04:30:00'))
+
+    expect(deliveries.map(delivery => [delivery.channel, delivery.status, delivery.nextAttemptAt])).toEqual([
+      ['email', 'digest', at('13:00:00')],
+      ['push', 'pending', at('12:00:00')],
+      ['sms', 'pending', at('12:00:00')],
+      ['webhook', 'sent', at('04:30:00')]
+    ])
+    expect(webhook.send).toHaveBeenCalledTimes(1)
+    expect(push.send).not.toHaveBeenCalled()
+
+    // Quiet hours are over at 07:00 local; the digest goes out at 08:00 local
+    expect(await service.dispatchDue(at('12:00:00'))).toMatchObject({ sent: 2, digests: 0 })
+    expect(push.send).toHaveBeenCalledTimes(1)
+    expect(sms.send).toHaveBeenCalledTimes(1)
+
+    await service.publish({ userId, category: 'portfolio', title: 'Rebalanced', body: 'Portfolio rebalanced' }, at('12:10:00'))
+    expect(await service.dispatchDue(at('13:00:00'))).toMatchObject({ digests: 1 })
+    expect(email.send).not.toHaveBeenCalled()
+    expect(email.sendDigest).toHaveBeenCalledTimes(1)
+    expect(email.sendDigest.mock.calls[0][0].map((notification: { title: string }) => notification.title)).toEqual(['Price alert: BTC', 'Rebalanced'])
+    expect(email.sendDigest.mock.calls[0][2]).toBe('daily')
+    expect(prisma.rows('notificationDelivery').every((row: Row) => row.status === 'sent')).toBe(true)
+  })
+
+  test('security notifications skip quiet hours and digests, and respect no category switch', async () => {
+    const [email, push] = [fakeChannel('email', true), fakeChannel('push')]
+    const service = new NotificationService([email, push])
+    const userId = await createUser({
+      push: true,
+      priceAlerts: false,
+      quietHours: { enabled: true, start: '00:00', end: '23:00' },
+      digest: 'weekly'
+    })
+
+    expect(await service.publish({ userId, category: 'price-alert', title: 'Price alert', body: 'Muted' }, at('10:00:00'))).toEqual([])
+
+    const deliveries = await service.publish({ userId, category: 'security', title: 'Two-factor authentication disabled', body: '...' }, at('10:00:00'))
+    expect(deliveries.map(delivery => [delivery.channel, delivery.status])).toEqual([['email', 'sent'], ['push', 'sent']])
+    expect(email.send).toHaveBeenCalledTimes(1)
+    expect(push.send).toHaveBeenCalledTimes(1)
+  })
+
+  test('failed deliveries retry with backoff, unreachable channels are skipped', async () => {
+    const webhook = fakeChannel('webhook')
+    webhook.send.mockRejectedValue(new Error('Webhook responded 503'))
+    const sms = fakeChannel('sms')
+    sms.send.mockRejectedValue(new NotificationSkipped('No phone number configured'))
+    const service = new NotificationService([webhook, sms])
+    const userId = await createUser({ email: false, sms: true, smsNumber: '+14155550123', webhookUrl: 'https://hooks.example.com/nohvex' })
+
+    await service.publish({ userId, category: 'system', title: 'Maintenance', body: 'Tonight' }, at('00:00:00'))
+    const [smsRow, webhookRow] = [...prisma.rows('notificationDelivery')].sort((a: Row, b: Row) => String(a.channel).localeCompare(String(b.channel)))
+    expect(smsRow).toMatchObject({ status: 'skipped', lastError: 'No phone number configured' })
+    expect(webhookRow).toMatchObject({ status: 'pending', attempts: 1, nextAttemptAt: at('00:01:00'), lastError: 'Webhook responded 503' })
+
+    expect(await service.dispatchDue(at('00:00:30'))).toMatchObject({ failed: 0 })
+    expect(await service.dispatchDue(at('00:01:00'))).toMatchObject({ failed: 1 })
+    expect(prisma.rows('notificationDelivery').find((row: Row) => row.channel === 'webhook')).toMatchObject({ attempts: 2, nextAttemptAt: at('00:03:00') })
+
+    for (const time of ['00:03:00', '00:07:00', '00:15:00']) await service.dispatchDue(at(time))
+    expect(prisma.rows('notificationDelivery').find((row: Row) => row.channel === 'webhook')).toMatchObject({ status: 'dead', attempts: 5 })
+    expect(webhook.send).toHaveBeenCalledTimes(5)
+    expect(sms.send).toHaveBeenCalledTimes(1)
+  })
+
+  test('skips deliveries whose user no longer exists instead of picking them up on every run', async () => {
+    const email = fakeChannel('email', true)
+    const service = new NotificationService([email])
+    await prisma.notificationDelivery.create({ data: { userId: 'gone', channel: 'email', category: 'system', title: 'Maintenance', body: 'Tonight', nextAttemptAt: at('00:00:00') } })
+    await prisma.notificationDelivery.create({ data: { userId: 'gone', channel: 'email', category: 'system', title: 'Digest', body: 'Later', status: 'digest', nextAttemptAt: at('00:00:00') } })
+
+    expect(await service.dispatchDue(at('00:01:00'))).toMatchObject({ sent: 0, skipped: 2, digests: 0, failed: 0 })
+    expect(prisma.rows('notificationDelivery').map((row: Row) => [row.status, row.lastError])).toEqual([
+      ['skipped', 'Recipient not found'],
+      ['skipped', 'Recipient not found']
+    ])
+    expect(email.send).not.toHaveBeenCalled()
+  })
+
+  test('returns abandoned sends to the status they were claimed from', async () => {
+    const email = fakeChannel('email', true)
+    const service = new NotificationService([email])
+    const userId = await createUser({ digest: 'daily' })
+    for (const claimedFrom of ['digest', 'pending']) {
+      await prisma.notificationDelivery.create({
+        data: { userId, channel: 'email', category: 'system', title: claimedFrom, body: '...', status: 'sending', claimedFrom, updatedAt: at('00:00:00') }
+      })
+    }
+
+    expect(await service.dispatchDue(at('00:05:00'))).toMatchObject({ recovered: 0 })
+    expect(await service.dispatchDue(at('00:20:00'))).toMatchObject({ recovered: 2, sent: 1, digests: 1 })
+    expect(email.send.mock.calls.map(([notification]: [{ title: string }]) => notification.title)).toEqual(['pending'])
+    expect(email.sendDigest.mock.calls[0][0].map((notification: { title: string }) => notification.title)).toEqual(['digest'])
+  })
+
+  test('sends a digest of only the rows it claimed', async () => {
+    const email = fakeChannel('email', true)
+    const service = new NotificationService([email])
+    const userId = await createUser({ digest: 'daily' })
+    const [first, second] = await Promise.all(['First', 'Second'].map(title => prisma.notificationDelivery.create({
+      data: { userId, channel: 'email', category: 'system', title, body: '...', status: 'digest', nextAttemptAt: at('00:00:00') }
+    })))
+
+    // Another dispatcher claims the second row between this one's read and its claim
+    const findMany = prisma.notificationDelivery.findMany.bind(prisma.notificationDelivery)
+    jest.spyOn(prisma.notificationDelivery, 'findMany').mockImplementation(async (args: { where?: Row } = {}) => {
+      const rows = await findMany(args)
+      if (args.where?.status === 'digest') {
+        await prisma.notificationDelivery.update({ where: { id: second.id }, data: { status: 'sending', claimedFrom: 'digest' } })
+      }
+      return rows
+    })
+
+    expect(await service.dispatchDue(at('00:01:00'))).toMatchObject({ digests: 1 })
+    expect(email.sendDigest.mock.calls[0][0].map((notification: { title: string }) => notification.title)).toEqual(['First'])
+    expect(prisma.rows('notificationDelivery').map((row: Row) => [row.id, row.status])).toEqual([[first.id, 'sent'], [second.id, 'sending']])
+  })
+})
+
+describe('notification inbox', () => {
+  test('keeps a copy of every published notification, whichever channels deliver it', async () => {
+    const push = fakeChannel('push')
+    const service = new NotificationService([push])
+    const userId = await createUser({ email: false, push: true, portfolioUpdates: false })
+
+    await service.publish({ userId, category: 'price-alert', title: 'Price alert: ETH', body: 'ETH below 2000', channels: [] }, at('01:00:00'))
+    await service.publish({ userId, category: 'security', title: 'Password changed', body: 'Reset' }, at('02:00:00'))
+    // Muted categories stay out of the inbox too
+    await service.publish({ userId, category: 'portfolio', title: 'Rebalanced', body: 'Muted' }, at('03:00:00'))
+
+    expect(push.send).toHaveBeenCalledTimes(1)
+    expect(prisma.rows('notification').map((row: Row) => [row.category, row.type, row.priority, row.message])).toEqual([
+      ['price-alert', 'warning', 'normal', 'ETH below 2000'],
+      ['security', 'warning', 'urgent', 'Reset']
+    ])
+    expect(await notificationInbox.unreadCount(userId)).toBe(2)
+  })
+
+  test('marks items read and archives them for their owner only', async () => {
+    const [first, second] = await Promise.all([
+      notificationInbox.record({ userId: 'u1', category: 'trade', title: 'Trade Executed', message: 'Bought 1 ETH' }),
+      notificationInbox.record({ userId: 'u1', category: 'system', title: 'Maintenance Notice', message: 'Tonight' })
+    ])
+    await notificationInbox.record({ userId: 'u2', category: 'trade', title: 'Trade Executed', message: 'Sold 1 ETH' })
+    expect(first.type).toBe('success')
+
+    expect(await notificationInbox.markRead('u2', [first.id])).toBe(0)
+    expect(await notificationInbox.markRead('u1', [first.id], at('08:00:00'))).toBe(1)
+    expect(await notificationInbox.unreadCount('u1')).toBe(1)
+
+    expect(await notificationInbox.archive('u1', [second.id], at('08:05:00'))).toBe(1)
+    expect(prisma.rows('notification').find((row: Row) => row.id === second.id)).toMatchObject({ readAt: at('08:05:00'), archivedAt: at('08:05:00') })
+    expect(await notificationInbox.unreadCount('u1')).toBe(0)
+
+    expect(await notificationInbox.markRead('u2')).toBe(1)
+    expect(await notificationInbox.unreadCount('u2')).toBe(0)
+  })
+})
+
+describe('WebhookChannel', () => {
+  test('posts the notification with an HMAC signature over timestamp and body', async () => {
+    const sent = mockWebhookResponse(200)
+    jest.spyOn(Date, 'now').mockReturnValue(1704067200000)
+
+    await new WebhookChannel().send(
+      { id: 'n1', category: 'security', title: 'Password changed', body: 'Reset', createdAt: at('00:00:00') },
+      { userId: 'u1', email: 'trader@example.com', webhookSecret: 'whsec_test', preferences: resolveNotificationPreferences({ webhookUrl: 'https://hooks.example.com/nohvex' }) }
+    )
+
+    const [{ url, options, body }] = sent
+    const headers = options.headers as Record<string, string>
+    expect(url).toBe('https://hooks.example.com/nohvex')
+    expect(JSON.parse(body!)).toMatchObject({ id: 'n1', category: 'security', title: 'Password changed' })
+    const expected = createHmac('sha256', 'whsec_test').update(`1704067200.${body}`).digest('hex')
+    expect(headers['X-Nohvex-Signature']).toBe(`t=1704067200,v1=${expected}`)
+    expect(signWebhook('whsec_test', body!, 1704067200)).toBe(headers['X-Nohvex-Signature'])
+  })
+
+  test('connects to the address that was checked rather than resolving the host again', async () => {
+    const sent = mockWebhookResponse(200)
+    await new WebhookChannel().send(
+      { id: 'n1', category: 'security', title: 'Password changed', body: 'Reset', createdAt: at('00:00:00') },
+      { userId: 'u1', email: 'trader@example.com', webhookSecret: 'whsec_test', preferences: resolveNotificationPreferences({ webhookUrl: 'https://hooks.example.com/nohvex' }) }
+    )
+
+    const lookup = sent[0].options.lookup as LookupFunction
+    const single = jest.fn()
+    const all = jest.fn()
+    lookup('hooks.example.com', {}, single)
+    lookup('hooks.example.com', { all: true }, all)
+    expect(single).toHaveBeenCalledWith(null, '93.184.215.14', 4)
+    expect(all).toHaveBeenCalledWith(null, [{ address: '93.184.215.14', family: 4 }])
+  })
+
+  test('skips hosts that resolve to internal addresses and does not follow redirects', async () => {
+    const sent = mockWebhookResponse(302)
+    const notification = { id: 'n1', category: 'security' as const, title: 'Password changed', body: 'Reset', createdAt: at('00:00:00') }
+    const recipient = (webhookUrl: string) =>
+      ({ userId: 'u1', email: 'trader@example.com', webhookSecret: 'whsec_test', preferences: resolveNotificationPreferences({ webhookUrl }) })
+
+    for (const url of ['https://internal.example.com/hook', 'https://127.0.0.1/hook', 'https://[::1]/hook', 'https://169.254.169.254/latest']) {
+      await expect(new WebhookChannel().send(notification, recipient(url))).rejects.toBeInstanceOf(NotificationSkipped)
+    }
+    expect(sent).toHaveLength(0)
+
+    await expect(new WebhookChannel().send(notification, recipient('https://hooks.example.com/nohvex'))).rejects.toThrow('Webhook redirected with 302; redirects are not followed')
+  })
+})
+
+describe('notification preferences', () => {
+  test('quiet hours wrap midnight and digests land on the next local digest time', () => {
+    const preferences = resolveNotificationPreferences({
+      timezone: 'Europe/Berlin',
+      quietHours: { enabled: true, start: '22:00', end: '07:00' },
+      digest: 'weekly'
+    })
+
+    // 23:00 and 03:00 Berlin time are quiet until 07:00 Berlin (06:00 UTC); 12:00 is not
+    expect(quietHoursEnd(preferences, new Date('2024-01-01T22:00:00Z'))).toEqual(new Date('2024-01-02T06:00:00Z'))
+    expect(quietHoursEnd(preferences, at('02:00:00'))).toEqual(at('06:00:00'))
+    expect(quietHoursEnd(preferences, at('11:00:00'))).toBeNull()
+
+    // Monday 08:00 Berlin is 07:00 UTC; just after it, the next weekly digest is a week later
+    expect(nextDigestTime(preferences, at('06:00:00'))).toEqual(at('07:00:00'))
+    expect(nextDigestTime(preferences, at('07:00:30'))).toEqual(new Date('2024-01-08T07:00:00Z'))
+    expect(nextDigestTime({ ...preferences, digest: 'daily' }, at('07:00:30'))).toEqual(new Date('2024-01-02T07:00:00Z'))
+  })
+
+  test('rejects invalid settings', async () => {
+    expect(await validateNotificationPreferences({
+      digest: 'hourly' as NotificationPreferences['digest'],
+      timezone: 'Mars/Olympus_Mons',
+      quietHours: { enabled: true, start: '25:00', end: '07:00' },
+      webhookUrl: 'http://hooks.example.com',
+      smsNumber: '0415 555 0123'
+    })).toEqual({
+      digest: expect.any(String),
+      timezone: 'Unknown timezone: Mars/Olympus_Mons',
+      quietHours: 'Quiet hours must be given as HH:MM',
+      webhookUrl: 'Webhook URL must be a valid https:// URL',
+      smsNumber: expect.any(String)
+    })
+    expect(await validateNotificationPreferences({ webhookUrl: 'https://hooks.example.com', smsNumber: '+14155550123', timezone: 'Asia/Tokyo' })).toEqual({})
+    expect(await validateNotificationPreferences({ webhookUrl: 'https://internal.example.com/hook' })).toEqual({ webhookUrl: 'Webhook URL must point to a public host' })
+    expect(await validateNotificationPreferences({ webhookUrl: 'https://192.168.1.1/hook' })).toEqual({ webhookUrl: 'Webhook URL must point to a public host' })
+  })
+})
@@ -0,0 +1,125 @@
+import { PortfolioAnalytics } from '@/lib/portfolio-analytics'
+
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    portfolioSnapshot: {
+      create: jest.fn().mockResolvedValue({}),
+      findMany: jest.fn().mockResolvedValue([])
+    },
+    walletConnection: {
+      findMany: jest.fn().mockResolvedValue([])
+    }
+  }
+}))
+
+jest.mock('@/lib/candle-service', () => ({
+  candleService: { getCandles: jest.fn().mockResolvedValue([]) }
+}))
+
+const WALLET = '0x1111111111111111111111111111111111111111'
+const DAY = 24 * 60 * 60 * 1000
+const TODAY = Math.floor(Date.now() / DAY) * DAY
+
+function snapshotRow(timestamp: number, totalValue: number) {
+  return {
+    id: `snapshot_${timestamp}`,
+    walletAddress: WALLET,
+    timestamp: new Date(timestamp),
+    totalValue,
+    performance: {},
+    riskMetrics: {},
+    assets: [{
+      symbol: 'ETH', name: 'Ethereum', balance: '1', usdValue: totalValue, price: totalValue, chainId: 1,
+      chainName: 'Ethereum', weight: 100, change24h: 0, change7d: 0, change30d: 0, volatility: 0.65, sharpeRatio: null
+    }],
+    chains: []
+  }
+}
+
+function mockWalletResponse(ok: boolean) {
+  return jest.spyOn(global, 'fetch').mockResolvedValue({
+    ok,
+    json: async () => ({
+      success: true,
+      data: {
+        totalBalance: 2000,
+        tokens: [{ symbol: 'ETH', name: 'Ethereum', balance: '1', usdValue: 2000, price: 2000, chainId: 1, chainName: 'Ethereum' }]
+      }
+    })
+  } as Response)
+}
+
+describe('PortfolioAnalytics snapshots', () => {
+  const { prisma } = jest.requireMock('@/lib/db')
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    prisma.portfolioSnapshot.findMany.mockResolvedValue([])
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('persists wallet snapshots with asset and chain rows', async () => {
+    mockWalletResponse(true)
+    const analytics = new PortfolioAnalytics()
+
+    const snapshot = await analytics.createSnapshot(WALLET)
+
+    expect(prisma.portfolioSnapshot.create).toHaveBeenCalledTimes(1)
+    const { data } = prisma.portfolioSnapshot.create.mock.calls[0][0]
+    expect(data).toMatchObject({ id: snapshot.id, walletAddress: WALLET, totalValue: 2000 })
+    expect(data.assets.create).toEqual([expect.objectContaining({ symbol: 'ETH', usdValue: 2000, weight: 100 })])
+    expect(data.chains.create).toEqual([expect.objectContaining({ chainId: 1, totalValue: 2000, assetCount: 1 })])
+  })
+
+  test('never persists sample data', async () => {
+    mockWalletResponse(false)
+    const analytics = new PortfolioAnalytics()
+
+    const snapshot = await analytics.createSnapshot(WALLET)
+
+    expect(snapshot.totalValue).toBe(63.88)
+    expect(prisma.portfolioSnapshot.create).not.toHaveBeenCalled()
+  })
+
+  test('computes drawdown from the last snapshot of each day', async () => {
+    // Newest first; the intraday dip to 900 is superseded by the 950 close
+    prisma.portfolioSnapshot.findMany.mockResolvedValue([
+      snapshotRow(TODAY + 2 * 60 * 60 * 1000, 950),
+      snapshotRow(TODAY + 60 * 60 * 1000, 900),
+      snapshotRow(TODAY - DAY, 1200),
+      snapshotRow(TODAY - 2 * DAY, 1000)
+    ])
+    mockWalletResponse(true)
+    const analytics = new PortfolioAnalytics()
+
+    const snapshot = await analytics.createSnapshot(WALLET)
+
+    expect(snapshot.performance.maxDrawdown).toBeCloseTo((1 - 950 / 1200) * 100, 9)
+    expect(snapshot.riskMetrics.maximumDrawdownDuration).toBe(1)
+  })
+
+  test('builds historical series for a time range', async () => {
+    prisma.portfolioSnapshot.findMany.mockResolvedValue([
+      snapshotRow(TODAY, 900),
+      snapshotRow(TODAY - DAY, 1200),
+      snapshotRow(TODAY - 2 * DAY, 1000)
+    ])
+    const analytics = new PortfolioAnalytics()
+
+    const history = await analytics.getHistoricalData(WALLET, { from: TODAY - 2 * DAY, to: TODAY })
+
+    expect(prisma.portfolioSnapshot.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { walletAddress: WALLET, timestamp: { gte: new Date(TODAY - 2 * DAY), lte: new Date(TODAY) } }
+    }))
+    expect(history).toMatchObject({
+      timestamps: [TODAY - 2 * DAY, TODAY - DAY, TODAY],
+      portfolioValues: [1000, 1200, 900],
+      assetPrices: { ETH: [1000, 1200, 900] },
+      returns: [0, 20, -25],
+      drawdowns: [0, 0, 25]
+    })
+  })
+})
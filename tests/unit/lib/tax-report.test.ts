@@ -0,0 +1,123 @@
+import axios from 'axios'
+import { generateTaxReport, matchSharePools, summarizeTaxReport, taxYearRange, toTaxReportCsv, TaxReport } from '@/lib/tax-report'
+import { costBasisService } from '@/lib/cost-basis'
+import type { LedgerEvent } from '@/lib/cost-basis'
+import { DailyRates, ExchangeRateError } from '@/lib/exchange-rates'
+
+jest.mock('axios', () => ({ get: jest.fn() }))
+
+jest.mock('@/lib/cost-basis', () => ({
+  costBasisService: { getLedgerEvents: jest.fn(), getIncomeEvents: jest.fn() }
+}))
+
+const DAY = 24 * 60 * 60 * 1000
+const START = Date.UTC(2024, 0, 1, 9)
+
+function event(id: string, type: LedgerEvent['type'], day: number, amount: number, price: number, hours = 0): LedgerEvent {
+  return { id, symbol: 'ETH', type, amount, price, fee: 0, timestamp: START + day * DAY + hours * 60 * 60 * 1000, source: 'transaction' }
+}
+
+describe('matchSharePools', () => {
+  test('applies the same-day, 30-day and section 104 rules in that order', () => {
+    const rows = matchSharePools([
+      event('buy1', 'acquire', 0, 10, 100),
+      event('buy2', 'acquire', 100, 10, 200),
+      event('sell1', 'dispose', 200, 12, 300),
+      event('buy3', 'acquire', 200, 2, 290, 5),
+      event('buy4', 'acquire', 210, 4, 250),
+      event('sell2', 'dispose', 300, 20, 100)
+    ])
+
+    expect(rows.map(row => [row.disposalId, row.category, row.amount, row.proceeds, row.costBasis])).toEqual([
+      ['sell1', 'same_day', 2, 600, 580],
+      ['sell1', 'bed_and_breakfast', 4, 1200, 1000],
+      ['sell1', 'section_104', 6, 1800, 900],
+      // buy4 was matched to sell1, so only 14 of the pool remain
+      ['sell2', 'section_104', 14, 1400, 2100],
+      ['sell2', 'unmatched', 6, 600, 0]
+    ])
+  })
+
+  test('removes outgoing transfers from the pool at average cost', () => {
+    const rows = matchSharePools([
+      event('buy1', 'acquire', 0, 2, 100),
+      event('buy2', 'acquire', 50, 2, 300),
+      event('out', 'transfer_out', 60, 2, 250),
+      event('sell', 'dispose', 90, 2, 250)
+    ])
+
+    expect(rows).toEqual([expect.objectContaining({ category: 'section_104', amount: 2, costBasis: 400, gain: 100 })])
+  })
+})
+
+describe('tax report output', () => {
+  test('uses the UK tax year from 6 April', () => {
+    expect(taxYearRange(2024, 'UK')).toEqual({
+      year: 2024,
+      label: '2024/25',
+      start: Date.UTC(2024, 3, 6),
+      end: Date.UTC(2025, 3, 6)
+    })
+  })
+
+  test('writes Form 8949 rows with short-term disposals first', () => {
+    const capitalGains: TaxReport['capitalGains'] = [
+      { disposalId: 'a', symbol: 'BTC', amount: 0.5, acquiredAt: Date.UTC(2022, 0, 3), disposedAt: Date.UTC(2024, 1, 1), proceeds: 25000, costBasis: 20000, gain: 5000, category: 'long' },
+      { disposalId: 'b', symbol: 'ETH', amount: 1.25, acquiredAt: Date.UTC(2024, 2, 1), disposedAt: Date.UTC(2024, 5, 30), proceeds: 4000, costBasis: 4200.5, gain: -200.5, category: 'short' },
+      { disposalId: 'b', symbol: 'ETH', amount: 0.1, acquiredAt: null, disposedAt: Date.UTC(2024, 5, 30), proceeds: 320, costBasis: 0, gain: 320, category: 'unmatched' }
+    ]
+    const report: TaxReport = {
+      jurisdiction: 'US',
+      taxYear: taxYearRange(2024, 'US'),
+      matching: 'FIFO',
+      currency: 'USD',
+      capitalGains,
+      income: [],
+      summary: summarizeTaxReport(capitalGains, []),
+      generatedAt: 0
+    }
+
+    expect(report.summary).toMatchObject({ disposals: 2, netGain: 5119.5, totalLosses: 200.5 })
+    expect(toTaxReportCsv(report).split('\n')).toEqual([
+      'Description of property,Date acquired,Date sold or disposed of,Proceeds,Cost or other basis,Code(s),Amount of adjustment,Gain or (loss),Term',
+      '1.25 ETH,03/01/2024,06/30/2024,4000.00,4200.50,,,-200.50,Short-term',
+      '0.1 ETH,VARIOUS,06/30/2024,320.00,0.00,,,320.00,Short-term',
+      '0.5 BTC,01/03/2022,02/01/2024,25000.00,20000.00,,,5000.00,Long-term',
+      ''
+    ])
+  })
+})
+
+describe('UK reports in GBP', () => {
+  test('uses the last published rate on or before each day', () => {
+    const rates = new DailyRates('GBP', new Map([['2024-01-05', 0.79], ['2024-01-08', 0.78]]))
+
+    expect(rates.rateAt(Date.UTC(2024, 0, 5, 23))).toBe(0.79)
+    // Weekend days take Friday's rate
+    expect(rates.rateAt(Date.UTC(2024, 0, 7, 12))).toBe(0.79)
+    expect(rates.rateAt(Date.UTC(2024, 0, 8))).toBe(0.78)
+    expect(() => rates.rateAt(Date.UTC(2024, 0, 4))).toThrow(ExchangeRateError)
+  })
+
+  test('converts costs, proceeds and income at the rate on the day of each event', async () => {
+    ;(costBasisService.getLedgerEvents as jest.Mock).mockResolvedValue([
+      { ...event('buy', 'acquire', 0, 2, 1000), fee: 10 },
+      { ...event('sell', 'dispose', 200, 1, 1500), fee: 20 }
+    ])
+    ;(costBasisService.getIncomeEvents as jest.Mock).mockResolvedValue([
+      { walletAddress: '0xabc', source: 'defi_reward', chainId: 1, symbol: 'ETH', amount: 0.1, price: 1500, usdValue: 150, receivedAt: START + 200 * DAY }
+    ])
+    ;(axios.get as jest.Mock).mockResolvedValue({ data: { rates: { '2024-01-01': { GBP: 0.8 }, '2024-07-19': { GBP: 0.75 } } } })
+
+    const report = await generateTaxReport('user-1', 2024, 'UK')
+
+    expect(axios.get).toHaveBeenCalledWith('https://api.frankfurter.app/2023-12-25..2025-04-06', expect.objectContaining({
+      params: { from: 'USD', to: 'GBP' }
+    }))
+    expect(report.currency).toBe('GBP')
+    // Half the pool, bought for $2010 at 0.8, against $1480 of proceeds at 0.75
+    expect(report.capitalGains).toEqual([expect.objectContaining({ proceeds: 1110, costBasis: 804, gain: 306 })])
+    expect(report.income[0].value).toBeCloseTo(112.5)
+    expect(report.summary).toMatchObject({ netGain: 306, income: 112.5 })
+  })
+})